@@ -0,0 +1,3 @@
+-- Runs once, when the postgres container initializes an empty data directory.
+-- diagnosis_codes.description has a trigram GIN index (gin_trgm_ops).
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
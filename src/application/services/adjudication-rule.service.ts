@@ -0,0 +1,143 @@
+import {
+  adjudicationRuleRepository,
+  userRepository,
+} from '../../infrastructure/database/repositories/index.js';
+import type { AdjudicationRule } from '../../domain/entities/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+  type PaginatedResult,
+} from '../../shared/types/index.js';
+import {
+  InvalidAssigneeError,
+  NotFoundError,
+  ValidationError,
+} from '../../domain/errors/index.js';
+import type {
+  CreateAdjudicationRuleInput,
+  UpdateAdjudicationRuleInput,
+  ListAdjudicationRulesQuery,
+} from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export class AdjudicationRuleService {
+  async listRules(
+    query: ListAdjudicationRulesQuery,
+    context: TenantContext
+  ): Promise<PaginatedResult<AdjudicationRule>> {
+    const { limit, offset, ...filters } = query;
+
+    return await adjudicationRuleRepository.search(context, {
+      filters,
+      pagination: { limit, offset },
+    });
+  }
+
+  /**
+   * Add a rule; it applies to claims adjudicated from now on
+   */
+  async createRule(
+    input: CreateAdjudicationRuleInput,
+    context: TenantContext
+  ): Promise<AdjudicationRule> {
+    if (input.action === 'assign' && input.assignTo) {
+      await this.assertAssignable(input.assignTo, context);
+    }
+
+    const rule = await adjudicationRuleRepository.create(
+      {
+        organizationId: context.organizationId,
+        name: input.name,
+        priority: input.priority,
+        condition: input.condition,
+        action: input.action,
+        denialReason: input.denialReason,
+        assignTo: input.assignTo,
+        isActive: true,
+      },
+      context
+    );
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.ADJUDICATION_RULE,
+        entityId: rule.id,
+        action: AuditAction.CREATE,
+        changes: diffChanges(null, rule),
+      },
+      context
+    );
+
+    logger.info('Adjudication rule created', {
+      ruleId: rule.id,
+      organizationId: context.organizationId,
+      createdBy: context.userId,
+    });
+
+    return rule;
+  }
+
+  /**
+   * Change a rule or switch it off. The updated rule must still carry what
+   * its action needs (a denial reason to reject, an assignee to assign).
+   */
+  async updateRule(
+    id: string,
+    input: UpdateAdjudicationRuleInput,
+    context: TenantContext
+  ): Promise<AdjudicationRule> {
+    const before = await adjudicationRuleRepository.findById(id, context);
+    if (!before) {
+      throw new NotFoundError('Adjudication rule', id);
+    }
+
+    const merged = { ...before, ...input };
+    if (merged.action === 'reject' && !merged.denialReason) {
+      throw new ValidationError('Reject rules require a denial reason', {
+        field: 'denialReason',
+      });
+    }
+    if (merged.action === 'assign') {
+      if (!merged.assignTo) {
+        throw new ValidationError('Assign rules require an assignee', { field: 'assignTo' });
+      }
+      if (input.assignTo || input.action) {
+        await this.assertAssignable(merged.assignTo, context);
+      }
+    }
+
+    const rule = await adjudicationRuleRepository.update(id, input, context);
+    if (!rule) {
+      throw new NotFoundError('Adjudication rule', id);
+    }
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.ADJUDICATION_RULE,
+        entityId: rule.id,
+        action: AuditAction.UPDATE,
+        changes: diffChanges(before, rule),
+      },
+      context
+    );
+
+    logger.info('Adjudication rule updated', {
+      ruleId: rule.id,
+      organizationId: context.organizationId,
+      updatedBy: context.userId,
+    });
+
+    return rule;
+  }
+
+  private async assertAssignable(userId: string, context: TenantContext): Promise<void> {
+    const user = await userRepository.findByIdWithinOrganization(userId, context.organizationId);
+    if (!user || user.role !== 'claims_processor' || !user.isActive) {
+      throw new InvalidAssigneeError(userId);
+    }
+  }
+}
+
+export const adjudicationRuleService = new AdjudicationRuleService();
@@ -0,0 +1,204 @@
+import {
+  appealRepository,
+  claimRepository,
+} from '../../infrastructure/database/repositories/index.js';
+import { getOrganizationSettings } from '../../infrastructure/cache/organization-settings.cache.js';
+import { claimRoutingService } from '../../infrastructure/routing/claim-routing.service.js';
+import {
+  getAppealDeadline,
+  getLastRejection,
+  type Appeal,
+  type AppealAttachment,
+  type Claim,
+} from '../../domain/entities/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+} from '../../shared/types/index.js';
+import {
+  AppealDeadlinePassedError,
+  ClaimNotAppealableError,
+  NotFoundError,
+} from '../../domain/errors/index.js';
+import type { CreateAppealInput, DecideAppealInput } from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export class AppealService {
+  /**
+   * Every appeal of a claim, oldest first
+   */
+  async listAppeals(claimId: string, context: TenantContext): Promise<Appeal[]> {
+    await this.getClaim(claimId, context);
+    return await appealRepository.findByClaimId(claimId, context);
+  }
+
+  /**
+   * Contest a rejected claim. The appeal must be filed within the
+   * organization's appeal deadline; the reviewer who rejected the claim is
+   * recorded so the appeal goes to someone else.
+   */
+  async fileAppeal(
+    claimId: string,
+    input: CreateAppealInput,
+    context: TenantContext
+  ): Promise<Appeal> {
+    const claim = await this.getClaim(claimId, context);
+
+    if (claim.status !== 'rejected') {
+      throw new ClaimNotAppealableError(claimId, claim.status);
+    }
+
+    const settings = await getOrganizationSettings(context.organizationId);
+    const deadlineAt = getAppealDeadline(claim, settings);
+    if (Date.now() > deadlineAt.getTime()) {
+      throw new AppealDeadlinePassedError(claimId, deadlineAt);
+    }
+
+    const appeal = await appealRepository.create(
+      claimId,
+      {
+        reason: input.reason,
+        originalReviewerId: getLastRejection(claim)?.changedBy,
+        deadlineAt,
+        attachments: input.attachments,
+      },
+      context
+    );
+
+    if (!appeal) {
+      throw new NotFoundError('Claim', claimId);
+    }
+
+    await auditService.recordMany(
+      [
+        {
+          entityType: AuditEntityType.APPEAL,
+          entityId: appeal.id,
+          action: AuditAction.CREATE,
+          changes: diffChanges(null, appeal),
+        },
+        {
+          entityType: AuditEntityType.CLAIM,
+          entityId: claimId,
+          action: AuditAction.STATUS_CHANGE,
+          changes: diffChanges(
+            { status: 'rejected', assignedTo: claim.assignedTo ?? null },
+            { status: 'appealed', assignedTo: null }
+          ),
+        },
+      ],
+      context
+    );
+
+    logger.info('Appeal filed', {
+      appealId: appeal.id,
+      claimId,
+      organizationId: context.organizationId,
+      filedBy: context.userId,
+      attachments: appeal.attachments.length,
+    });
+
+    // Best-effort: an unrouted appeal waits for an admin or a rebalance
+    try {
+      await claimRoutingService.routeClaims(context.organizationId, [claimId]);
+    } catch (error) {
+      logger.error('Failed to route appealed claim', {
+        claimId,
+        organizationId: context.organizationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return appeal;
+  }
+
+  /**
+   * Uphold or overturn a pending appeal; the claim is rejected again or approved
+   */
+  async decideAppeal(
+    claimId: string,
+    appealId: string,
+    input: DecideAppealInput,
+    context: TenantContext
+  ): Promise<Appeal> {
+    const appeal = await appealRepository.decide(claimId, appealId, input, context);
+
+    if (!appeal) {
+      throw new NotFoundError('Appeal', appealId);
+    }
+
+    await auditService.recordMany(
+      [
+        {
+          entityType: AuditEntityType.APPEAL,
+          entityId: appeal.id,
+          action: AuditAction.STATUS_CHANGE,
+          changes: diffChanges(
+            { status: 'pending' },
+            { status: appeal.status, decisionReason: appeal.decisionReason }
+          ),
+        },
+        {
+          entityType: AuditEntityType.CLAIM,
+          entityId: claimId,
+          action: AuditAction.STATUS_CHANGE,
+          changes: diffChanges(
+            { status: 'appealed' },
+            { status: appeal.status === 'overturned' ? 'approved' : 'rejected' }
+          ),
+        },
+      ],
+      context
+    );
+
+    logger.info('Appeal decided', {
+      appealId: appeal.id,
+      claimId,
+      outcome: appeal.status,
+      organizationId: context.organizationId,
+      decidedBy: context.userId,
+    });
+
+    return appeal;
+  }
+
+  /**
+   * An appeal attachment with its content, for download
+   */
+  async getAttachment(
+    claimId: string,
+    appealId: string,
+    attachmentId: string,
+    context: TenantContext
+  ): Promise<AppealAttachment & { content: Buffer }> {
+    await this.getClaim(claimId, context);
+
+    const attachment = await appealRepository.findAttachment(
+      claimId,
+      appealId,
+      attachmentId,
+      context
+    );
+
+    if (!attachment) {
+      throw new NotFoundError('Appeal attachment', attachmentId);
+    }
+
+    return attachment;
+  }
+
+  // The claim as the caller may see it
+  private async getClaim(claimId: string, context: TenantContext): Promise<Claim> {
+    const claim = await claimRepository.findById(claimId, context);
+
+    if (!claim) {
+      throw new NotFoundError('Claim', claimId);
+    }
+
+    return claim;
+  }
+}
+
+export const appealService = new AppealService();
@@ -0,0 +1,132 @@
+import { auditLogRepository } from '../../infrastructure/database/repositories/index.js';
+import type { AuditLog } from '../../domain/entities/index.js';
+import type {
+  TenantContext,
+  PaginatedResult,
+  AuditAction,
+  AuditEntityType,
+} from '../../shared/types/index.js';
+import type { ListAuditLogsQuery } from '../validators/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export type AuditChanges = AuditLog['changes'];
+
+export interface AuditEntry {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  changes: AuditChanges;
+}
+
+// Bookkeeping fields that change on every write and add noise to the diff.
+// Claim lines are audited as entities of their own.
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt', 'statusHistory', 'lines']);
+
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value ?? null;
+}
+
+/**
+ * Build a field-level old/new diff between two snapshots of an entity.
+ * Pass `null` as `before` for creations and as `after` for deletions.
+ */
+export function diffChanges(
+  before: object | null | undefined,
+  after: object | null | undefined
+): AuditChanges {
+  const oldValues = (before ?? {}) as Record<string, unknown>;
+  const newValues = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(oldValues), ...Object.keys(newValues)]);
+  const changes: AuditChanges = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+
+    const oldValue = normalizeValue(oldValues[field]);
+    const newValue = normalizeValue(newValues[field]);
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { old: oldValue, new: newValue };
+    }
+  }
+
+  return changes;
+}
+
+export class AuditService {
+  /**
+   * Build the persisted record for an entry from the request context
+   */
+  private toRecord(
+    entry: AuditEntry,
+    context: TenantContext,
+    performedAt: Date
+  ): Omit<AuditLog, 'id' | 'createdAt' | 'updatedAt'> {
+    return {
+      organizationId: context.organizationId,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      action: entry.action,
+      performedBy: context.userId,
+      performedAt,
+      changes: entry.changes,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    };
+  }
+
+  /**
+   * Record a single mutation.
+   * Never throws - the mutation has already been committed at this point.
+   */
+  async record(entry: AuditEntry, context: TenantContext): Promise<void> {
+    await this.recordMany([entry], context);
+  }
+
+  /**
+   * Record several mutations performed by one request (e.g. bulk updates)
+   */
+  async recordMany(entries: AuditEntry[], context: TenantContext): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const performedAt = new Date();
+
+    try {
+      await auditLogRepository.createMany(
+        entries.map((entry) => this.toRecord(entry, context, performedAt))
+      );
+    } catch (error) {
+      logger.error('Failed to write audit log', {
+        entityType: entries[0].entityType,
+        entityIds: entries.map((entry) => entry.entityId),
+        action: entries[0].action,
+        organizationId: context.organizationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * List audit log entries with filtering and pagination
+   */
+  async listAuditLogs(
+    query: ListAuditLogsQuery,
+    context: TenantContext
+  ): Promise<PaginatedResult<AuditLog>> {
+    const { limit, offset, ...filters } = query;
+
+    return await auditLogRepository.findMany(context, {
+      filters,
+      pagination: { limit, offset },
+    });
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,174 @@
+import type { Readable } from 'node:stream';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  claimExportRepository,
+  claimRepository,
+} from '../../infrastructure/database/repositories/index.js';
+import { claimsQueue } from '../../infrastructure/queue/queue.js';
+import {
+  CLAIM_EXPORT_BATCH_SIZE,
+  CLAIM_EXPORT_CONTENT_TYPES,
+  CLAIM_EXPORT_STREAM_MAX_ROWS,
+  claimExportFileName,
+  encodeClaimExport,
+  openClaimExportFile,
+  writeClaimExportFile,
+  type ClaimExportChunk,
+} from '../../infrastructure/export/claim-export.js';
+import type { Claim, ClaimExport } from '../../domain/entities/index.js';
+import { ConflictError, NotFoundError } from '../../domain/errors/index.js';
+import type {
+  ClaimExportFormat,
+  ClaimExportJobData,
+  TenantContext,
+} from '../../shared/types/index.js';
+import { claimExportQuerySchema, type ClaimExportQuery } from '../validators/index.js';
+import { toClaimSearch } from './claims.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export interface ClaimExportFile {
+  contentType: string;
+  fileName: string;
+  body: AsyncIterable<ClaimExportChunk> | Readable;
+}
+
+// Small exports are streamed in the response; larger ones become a job
+export type ClaimExportResult =
+  | { mode: 'stream'; file: ClaimExportFile }
+  | { mode: 'background'; export: ClaimExport };
+
+export class ClaimExportService {
+  /**
+   * Export every claim matching the list filters that the caller can see.
+   * Up to EXPORT_STREAM_MAX_ROWS claims are streamed straight from the
+   * database; more, or ?background=true, queue a background export.
+   */
+  async exportClaims(query: ClaimExportQuery, context: TenantContext): Promise<ClaimExportResult> {
+    const { format, background, ...listQuery } = query;
+    const { filters, sort } = toClaimSearch(listQuery);
+
+    if (!background) {
+      const count = await claimRepository.count(context, filters);
+      if (count <= CLAIM_EXPORT_STREAM_MAX_ROWS) {
+        const batches = claimRepository.streamMany(
+          context,
+          { filters, sort },
+          CLAIM_EXPORT_BATCH_SIZE
+        );
+        return {
+          mode: 'stream',
+          file: {
+            contentType: CLAIM_EXPORT_CONTENT_TYPES[format],
+            fileName: `claims-${new Date().toISOString().slice(0, 10)}.${format}`,
+            body: encodeClaimExport(batches, format),
+          },
+        };
+      }
+    }
+
+    return { mode: 'background', export: await this.queueExport(format, listQuery, context) };
+  }
+
+  async getExport(id: string, context: TenantContext): Promise<ClaimExport> {
+    const claimExport = await claimExportRepository.findById(id, context);
+
+    if (!claimExport) {
+      throw new NotFoundError('Claim export', id);
+    }
+
+    return claimExport;
+  }
+
+  /**
+   * The file of a completed background export
+   */
+  async openExport(id: string, context: TenantContext): Promise<ClaimExportFile> {
+    const claimExport = await this.getExport(id, context);
+
+    if (claimExport.status !== 'completed') {
+      throw new ConflictError(`Claim export is not ready (status: ${claimExport.status})`, {
+        status: claimExport.status,
+      });
+    }
+
+    return {
+      contentType: CLAIM_EXPORT_CONTENT_TYPES[claimExport.format],
+      fileName: claimExportFileName(claimExport.id, claimExport.format),
+      body: openClaimExportFile(claimExport.id, claimExport.format),
+    };
+  }
+
+  /**
+   * Write the file of a background export as `context`, its requester.
+   * Used by the claim_export job.
+   */
+  async writeExport(
+    claimExport: ClaimExport,
+    context: TenantContext
+  ): Promise<{ rowCount: number; fileSize: number }> {
+    const query = claimExportQuerySchema.parse({
+      ...claimExport.query,
+      format: claimExport.format,
+    });
+    const { filters, sort } = toClaimSearch(query);
+
+    let rowCount = 0;
+    const batches = claimRepository.streamMany(
+      context,
+      { filters, sort },
+      CLAIM_EXPORT_BATCH_SIZE
+    );
+    async function* counted(): AsyncGenerator<Claim[]> {
+      for await (const batch of batches) {
+        rowCount += batch.length;
+        yield batch;
+      }
+    }
+
+    const fileSize = await writeClaimExportFile(
+      claimExport.id,
+      claimExport.format,
+      encodeClaimExport(counted(), claimExport.format)
+    );
+
+    return { rowCount, fileSize };
+  }
+
+  private async queueExport(
+    format: ClaimExportFormat,
+    listQuery: Omit<ClaimExportQuery, 'format' | 'background'>,
+    context: TenantContext
+  ): Promise<ClaimExport> {
+    const jobId = uuidv4();
+
+    // Kept as JSON and parsed again by the job
+    const claimExport = await claimExportRepository.create(
+      { format, query: JSON.parse(JSON.stringify(listQuery)), jobId },
+      context
+    );
+
+    const jobData: ClaimExportJobData = {
+      type: 'claim_export',
+      jobId,
+      organizationId: context.organizationId,
+      exportId: claimExport.id,
+      triggeredBy: context.userId,
+      triggeredAt: new Date().toISOString(),
+      idempotencyKey: `job-claim-export-${claimExport.id}`,
+    };
+
+    await claimsQueue.add('claim_export', jobData, { jobId });
+
+    logger.info('Claim export queued', {
+      jobId,
+      exportId: claimExport.id,
+      organizationId: context.organizationId,
+      triggeredBy: context.userId,
+      format,
+    });
+
+    return claimExport;
+  }
+}
+
+export const claimExportService = new ClaimExportService();
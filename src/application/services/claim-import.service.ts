@@ -0,0 +1,270 @@
+import { createHash } from 'node:crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  claimSubmissionRepository,
+  patientRepository,
+  providerRepository,
+} from '../../infrastructure/database/repositories/index.js';
+import { claimsQueue } from '../../infrastructure/queue/queue.js';
+import {
+  parseClaimFile,
+  type ClaimFileFormat,
+  type ImportedClaim,
+  type ImportRowError,
+} from '../../infrastructure/import/claim-file.js';
+import type { ClaimSubmission } from '../../domain/entities/index.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../domain/errors/index.js';
+import type { ClaimIntakeJobData, TenantContext } from '../../shared/types/index.js';
+import { createClaimSchema, type CreateClaimInput } from '../validators/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+// Dry-run result: nothing is stored or queued
+export interface ClaimImportReport {
+  claimCount: number;
+  validCount: number;
+  invalidCount: number;
+  errors: ImportRowError[];
+}
+
+export interface ClaimImportJob {
+  jobId: string;
+  submissionId: string;
+  claimCount: number;
+  // The organization had already imported this file; its job is returned
+  duplicate: boolean;
+}
+
+// An import's submission with the share of its claims already processed
+export type ClaimImportProgress = ClaimSubmission & { progress: number };
+
+export class ClaimImportService {
+  /**
+   * Validate every claim of a file without importing it
+   */
+  async dryRun(
+    content: string,
+    format: ClaimFileFormat | undefined,
+    context: TenantContext
+  ): Promise<ClaimImportReport> {
+    const { claims } = this.parse(content, format);
+    const errors: ImportRowError[] = [];
+    let validCount = 0;
+
+    for (const claim of claims) {
+      const resolved = await this.resolveClaim(claim, context);
+      if ('errors' in resolved) {
+        errors.push(...resolved.errors);
+      } else {
+        validCount++;
+      }
+    }
+
+    return {
+      claimCount: claims.length,
+      validCount,
+      invalidCount: claims.length - validCount,
+      errors,
+    };
+  }
+
+  /**
+   * Queue the import of a file. The same file (by SHA-256 of its content)
+   * is imported once per organization; sending it again returns the
+   * original job.
+   */
+  async importFile(
+    content: string,
+    format: ClaimFileFormat | undefined,
+    context: TenantContext
+  ): Promise<ClaimImportJob> {
+    const { claims, format: fileFormat } = this.parse(content, format);
+    const fileHash = createHash('sha256').update(content).digest('hex');
+
+    const existing = await claimSubmissionRepository.findByFileHash(
+      fileHash,
+      context.organizationId
+    );
+    if (existing?.jobId) {
+      return this.toDuplicate(existing);
+    }
+
+    const jobId = uuidv4();
+    let submission: ClaimSubmission;
+    try {
+      submission = await claimSubmissionRepository.create(
+        {
+          format: fileFormat,
+          status: 'received',
+          content,
+          fileHash,
+          claimCount: claims.length,
+          jobId,
+        },
+        context
+      );
+    } catch (error) {
+      // Sent twice at the same time: the other request created it
+      const raced =
+        error instanceof ConflictError
+          ? await claimSubmissionRepository.findByFileHash(fileHash, context.organizationId)
+          : null;
+      if (raced?.jobId) {
+        return this.toDuplicate(raced);
+      }
+      throw error;
+    }
+
+    const jobData: ClaimIntakeJobData = {
+      type: 'claim_intake',
+      jobId,
+      organizationId: context.organizationId,
+      submissionId: submission.id,
+      triggeredBy: context.userId,
+      triggeredAt: new Date().toISOString(),
+      // Keyed by the file, so a re-queued import of it is skipped once done
+      idempotencyKey: `job-claim-import-${fileHash}`,
+    };
+
+    try {
+      await claimsQueue.add('claim_intake', jobData, { jobId });
+    } catch (error) {
+      // Otherwise the file would count as imported with no job to import it
+      await claimSubmissionRepository.deleteInternal(submission.id, context.organizationId);
+      throw error;
+    }
+
+    logger.info('Claim import queued', {
+      jobId,
+      submissionId: submission.id,
+      organizationId: context.organizationId,
+      triggeredBy: context.userId,
+      format: fileFormat,
+      claimCount: claims.length,
+    });
+
+    return { jobId, submissionId: submission.id, claimCount: claims.length, duplicate: false };
+  }
+
+  /**
+   * Progress and per-claim report of an import
+   */
+  async getImport(jobId: string, context: TenantContext): Promise<ClaimImportProgress> {
+    const submission = await claimSubmissionRepository.findByJobId(jobId, context);
+
+    if (!submission || submission.format === 'x12_837p') {
+      throw new NotFoundError('Claim import', jobId);
+    }
+
+    const processed = submission.acceptedCount + submission.rejectedCount;
+
+    return {
+      ...submission,
+      progress:
+        submission.claimCount > 0 ? Math.floor((processed / submission.claimCount) * 100) : 100,
+    };
+  }
+
+  /**
+   * Check one imported claim: its member ID and NPI must exist in the
+   * organization and the rest must pass createClaimSchema. Errors point
+   * at the row they come from.
+   */
+  async resolveClaim(
+    claim: ImportedClaim,
+    context: TenantContext
+  ): Promise<{ input: CreateClaimInput } | { errors: ImportRowError[] }> {
+    if (claim.errors.length > 0) {
+      return { errors: claim.errors };
+    }
+
+    const errors: ImportRowError[] = [];
+    const fail = (message: string, row = claim.row): void => {
+      errors.push({ row, reference: claim.reference, message });
+    };
+
+    const { memberId, providerNpi } = claim;
+    const [patient, provider] = await Promise.all([
+      typeof memberId === 'string' ? patientRepository.findByMemberId(memberId, context) : null,
+      typeof providerNpi === 'string' ? providerRepository.findByNpi(providerNpi, context) : null,
+    ]);
+    if (!patient) {
+      fail(
+        typeof memberId === 'string'
+          ? `No patient with member ID ${memberId}`
+          : 'memberId is required'
+      );
+    }
+    if (!provider) {
+      fail(
+        typeof providerNpi === 'string'
+          ? `No provider with NPI ${providerNpi}`
+          : 'providerNpi is required'
+      );
+    }
+
+    const parsed = createClaimSchema.safeParse({
+      ...claim.fields,
+      patientId: patient?.id,
+      providerId: provider?.id,
+    });
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const [field, lineIndex] = issue.path;
+        // Already reported as a lookup failure
+        if (field === 'patientId' || field === 'providerId') {
+          continue;
+        }
+        const row =
+          field === 'lines' && typeof lineIndex === 'number'
+            ? claim.lineRows[lineIndex] ?? claim.row
+            : claim.row;
+        fail(
+          issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+          row
+        );
+      }
+    }
+
+    if (!parsed.success || errors.length > 0) {
+      return { errors };
+    }
+
+    return { input: parsed.data };
+  }
+
+  private parse(
+    content: string,
+    format: ClaimFileFormat | undefined
+  ): { format: ClaimFileFormat; claims: ImportedClaim[] } {
+    if (!format || !content.trim()) {
+      throw new ValidationError(
+        'Send the file as the request body with Content-Type text/csv or application/x-ndjson'
+      );
+    }
+
+    let claims: ImportedClaim[];
+    try {
+      claims = parseClaimFile(content, format);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unreadable';
+      throw new ValidationError(`Invalid ${format.toUpperCase()} file: ${reason}`);
+    }
+
+    if (claims.length === 0) {
+      throw new ValidationError('The file has no claims');
+    }
+
+    return { format, claims };
+  }
+
+  private toDuplicate(submission: ClaimSubmission): ClaimImportJob {
+    return {
+      jobId: submission.jobId!,
+      submissionId: submission.id,
+      claimCount: submission.claimCount,
+      duplicate: true,
+    };
+  }
+}
+
+export const claimImportService = new ClaimImportService();
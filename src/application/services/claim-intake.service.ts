@@ -0,0 +1,145 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  claimSubmissionRepository,
+  remittanceAdviceRepository,
+} from '../../infrastructure/database/repositories/index.js';
+import { claimsQueue } from '../../infrastructure/queue/queue.js';
+import { parse837P } from '../../infrastructure/x12/claim-837p.js';
+import { build999 } from '../../infrastructure/x12/ack-999.js';
+import type { ClaimSubmission } from '../../domain/entities/index.js';
+import { NotFoundError, ValidationError } from '../../domain/errors/index.js';
+import type {
+  ClaimIntakeJobData,
+  PaginatedResult,
+  TenantContext,
+} from '../../shared/types/index.js';
+import type { ListClaimSubmissionsQuery } from '../validators/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export class ClaimIntakeService {
+  async listSubmissions(
+    query: ListClaimSubmissionsQuery,
+    context: TenantContext
+  ): Promise<PaginatedResult<ClaimSubmission>> {
+    const { limit, offset, ...filters } = query;
+
+    return await claimSubmissionRepository.search(context, {
+      filters,
+      pagination: { limit, offset },
+    });
+  }
+
+  /**
+   * Get a submission with its per-claim report
+   */
+  async getSubmission(id: string, context: TenantContext): Promise<ClaimSubmission> {
+    const submission = await claimSubmissionRepository.findById(id, context);
+
+    if (!submission) {
+      throw new NotFoundError('Claim submission', id);
+    }
+
+    return submission;
+  }
+
+  /**
+   * The 999 sent back for an EDI submission
+   */
+  async getAcknowledgment(id: string, context: TenantContext): Promise<string> {
+    const submission = await this.getSubmission(id, context);
+
+    if (!submission.acknowledgment) {
+      throw new NotFoundError('Acknowledgment', id);
+    }
+
+    return submission.acknowledgment;
+  }
+
+  /**
+   * Take in an X12 837P file. The envelopes and transaction sets are
+   * checked now and acknowledged with a 999; the claims of accepted
+   * transaction sets are created by a background job.
+   */
+  async submit837P(content: string, context: TenantContext): Promise<ClaimSubmission> {
+    if (!content.trim()) {
+      throw new ValidationError(
+        'Send the 837P file as the request body with Content-Type application/edi-x12'
+      );
+    }
+
+    let parsed;
+    try {
+      parsed = parse837P(content);
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid 837P file: ${error instanceof Error ? error.message : 'unreadable'}`
+      );
+    }
+
+    const controlNumber = await remittanceAdviceRepository.nextControlNumberInternal();
+    const acknowledgment = build999(
+      parsed.interchange,
+      parsed.transactions,
+      controlNumber,
+      new Date()
+    );
+    const claimCount = parsed.transactions.reduce(
+      (sum, transaction) => sum + transaction.claims.length,
+      0
+    );
+    const jobId = claimCount > 0 ? uuidv4() : undefined;
+
+    const submission = await claimSubmissionRepository.create(
+      {
+        format: 'x12_837p',
+        status: jobId ? 'received' : 'rejected',
+        content,
+        acknowledgment,
+        claimCount,
+        jobId,
+      },
+      context
+    );
+
+    logger.info('Claim file received', {
+      submissionId: submission.id,
+      organizationId: context.organizationId,
+      submittedBy: context.userId,
+      interchangeControlNumber: parsed.interchange.controlNumber,
+      claimCount,
+    });
+
+    if (jobId) {
+      await this.queueIntake(submission.id, jobId, context);
+    }
+
+    return submission;
+  }
+
+  private async queueIntake(
+    submissionId: string,
+    jobId: string,
+    context: TenantContext
+  ): Promise<void> {
+    const jobData: ClaimIntakeJobData = {
+      type: 'claim_intake',
+      jobId,
+      organizationId: context.organizationId,
+      submissionId,
+      triggeredBy: context.userId,
+      triggeredAt: new Date().toISOString(),
+      idempotencyKey: `job-claim-intake-${jobId}`,
+    };
+
+    await claimsQueue.add('claim_intake', jobData, { jobId });
+
+    logger.info('Claim intake queued', {
+      jobId,
+      submissionId,
+      organizationId: context.organizationId,
+      triggeredBy: context.userId,
+    });
+  }
+}
+
+export const claimIntakeService = new ClaimIntakeService();
@@ -1,51 +1,148 @@
+import { v4 as uuidv4 } from 'uuid';
 import {
+  adjudicationRuleRepository,
+  appealRepository,
   claimRepository,
+  coverageRepository,
   patientRepository,
   providerRepository,
 } from '../../infrastructure/database/repositories/index.js';
+import { claimsQueue } from '../../infrastructure/queue/queue.js';
 import type { Claim } from '../../domain/entities/index.js';
-import type {
-  TenantContext,
-  ClaimStatus,
-  PaginatedResult,
+import {
+  AuditAction,
+  AuditEntityType,
+  ClaimFlag,
+  type TenantContext,
+  type ClaimStatus,
+  type PaginatedResult,
+  type AssignmentReconciliationJobData,
+  type ClaimAdjudicationJobData,
+  type ClaimRiskScoringJobData,
 } from '../../shared/types/index.js';
-import type { ClaimFilters, ClaimSortField } from '../../domain/repositories/index.js';
+import type {
+  ClaimFilters,
+  ClaimSortField,
+  ProviderRiskSummary,
+} from '../../domain/repositories/index.js';
 import {
   NotFoundError,
   ForbiddenError,
-  InvalidDiagnosisCodeError,
   InvalidClaimAmountError,
+  ClaimNotModifiableError,
+  IdempotencyConflictError,
+  IdempotencyKeyReusedError,
+  NoActiveCoverageError,
+  ValidationError,
 } from '../../domain/errors/index.js';
 import {
-  VALID_DIAGNOSIS_CODES,
-  CLAIM_AMOUNT_CONSTRAINTS,
+  OPEN_CLAIM_STATUSES,
+  RISK_SCORING,
+  evaluateAdjudicationRules,
+  getClaimAmountBounds,
+  getClaimAmountFromLines,
+  getLineChargeAmount,
+  qualifiesForAutoApproval,
 } from '../../domain/entities/index.js';
-import type { CreateClaimInput, ListClaimsQuery, BulkStatusUpdateInput, UpdateClaimStatusInput } from '../validators/index.js';
+import { getOrganizationSettings } from '../../infrastructure/cache/organization-settings.cache.js';
+import {
+  claimRoutingService,
+  type RebalanceResult,
+} from '../../infrastructure/routing/claim-routing.service.js';
+import type {
+  CreateClaimInput,
+  ListClaimsQuery,
+  BulkStatusUpdateInput,
+  UpdateClaimStatusInput,
+  DecideClaimLineInput,
+  ClaimRiskReportQuery,
+} from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
+import { codeSetService } from './code-set.service.js';
 import { logger } from '../../shared/utils/logger.js';
 
+/**
+ * Filters and sort of a claims list query; exports share them
+ */
+export function toClaimSearch(
+  query: Omit<ListClaimsQuery, 'limit' | 'offset' | 'cursor' | 'count'>
+): { filters: ClaimFilters; sort: ClaimSortField } {
+  return {
+    filters: {
+      fromDate: query.fromDate,
+      toDate: query.toDate,
+      status: query.status as ClaimStatus | ClaimStatus[],
+      patientId: query.patientId,
+      providerId: query.providerId,
+      minAmount: query.minAmount,
+      maxAmount: query.maxAmount,
+      procedureCode: query.procedureCode,
+      flag: query.flag,
+      minRiskScore: query.minRiskScore,
+    },
+    sort: {
+      field: query.sortBy,
+      order: query.sortOrder,
+    },
+  };
+}
+
+// Longest Idempotency-Key accepted on claim creation
+const IDEMPOTENCY_KEY_MAX_LENGTH = 100;
+
 export class ClaimsService {
   /**
-   * Create a new claim
+   * Create a new claim. A request repeating the Idempotency-Key of an
+   * earlier one gets the claim that request created.
    */
   async createClaim(
     input: CreateClaimInput,
-    context: TenantContext
+    context: TenantContext,
+    idempotencyKey?: string
   ): Promise<Claim> {
-    // Validate diagnosis code
-    if (!VALID_DIAGNOSIS_CODES.includes(input.diagnosisCode as typeof VALID_DIAGNOSIS_CODES[number])) {
-      throw new InvalidDiagnosisCodeError(input.diagnosisCode);
+    if (idempotencyKey !== undefined) {
+      const original = await this.findIdempotentClaim(idempotencyKey, input, context);
+      if (original) {
+        return original;
+      }
     }
 
-    // Validate amount
-    if (
-      input.amount < CLAIM_AMOUNT_CONSTRAINTS.MIN ||
-      input.amount > CLAIM_AMOUNT_CONSTRAINTS.MAX
-    ) {
-      throw new InvalidClaimAmountError(
-        input.amount,
-        CLAIM_AMOUNT_CONSTRAINTS.MIN,
-        CLAIM_AMOUNT_CONSTRAINTS.MAX
-      );
+    const additionalDiagnosisCodes = input.additionalDiagnosisCodes ?? [];
+
+    // Diagnoses must be in the code set in force on the date of service
+    await codeSetService.assertDiagnosisCodesBillable(
+      [input.diagnosisCode, ...additionalDiagnosisCodes],
+      input.serviceDate
+    );
+
+    const lines = input.lines.map((line) => ({
+      procedureCode: line.procedureCode,
+      modifiers: line.modifiers ?? [],
+      units: line.units,
+      unitCharge: line.unitCharge,
+      chargeAmount: getLineChargeAmount(line.units, line.unitCharge),
+      serviceDate: line.serviceDate ?? input.serviceDate,
+      diagnosisPointers: line.diagnosisPointers,
+    }));
+
+    // Procedures must be in force and pass the organization's pairing edits
+    await codeSetService.assertProcedureCodesInForce(lines);
+    await codeSetService.assertCodePairings(
+      lines,
+      [input.diagnosisCode, ...additionalDiagnosisCodes],
+      context
+    );
+
+    // The claim amount is the total of its line charges
+    const amount = getClaimAmountFromLines(
+      lines.map((line) => ({ ...line, status: 'pending' as const }))
+    );
+
+    // Validate amount against the organization's bounds
+    const settings = await getOrganizationSettings(context.organizationId);
+    const bounds = getClaimAmountBounds(settings);
+    if (amount < bounds.min || amount > bounds.max) {
+      throw new InvalidClaimAmountError(amount, bounds.min, bounds.max);
     }
 
     // Verify patient exists in the same organization
@@ -54,6 +151,15 @@ export class ClaimsService {
       throw new NotFoundError('Patient', input.patientId);
     }
 
+    // Outside coverage the claim is refused or held for review, as the
+    // organization chose
+    const uncovered =
+      settings.eligibilityEnforcement !== 'off' &&
+      !(await coverageRepository.findInForce(input.patientId, input.serviceDate, context));
+    if (uncovered && settings.eligibilityEnforcement === 'reject') {
+      throw new NoActiveCoverageError(input.patientId, input.serviceDate);
+    }
+
     // Verify provider exists in the same organization
     const providerExists = await providerRepository.exists(input.providerId, context);
     if (!providerExists) {
@@ -65,13 +171,53 @@ export class ClaimsService {
       throw new ForbiddenError('Providers can only create claims for themselves');
     }
 
-    const claim = await claimRepository.create(
-      {
-        ...input,
-        organizationId: context.organizationId,
-        status: 'submitted',
-        submittedAt: new Date(),
-      },
+    let claim: Claim;
+    try {
+      claim = await claimRepository.create(
+        {
+          patientId: input.patientId,
+          providerId: input.providerId,
+          diagnosisCode: input.diagnosisCode,
+          additionalDiagnosisCodes,
+          procedureCode: lines[0].procedureCode,
+          amount,
+          serviceDate: input.serviceDate,
+          notes: input.notes,
+          lines,
+          organizationId: context.organizationId,
+          status: 'submitted',
+          submittedAt: new Date(),
+          idempotencyKey,
+        },
+        context
+      );
+    } catch (error) {
+      // A concurrent request with the same Idempotency-Key created it first
+      const original =
+        error instanceof IdempotencyConflictError && idempotencyKey !== undefined
+          ? await this.findIdempotentClaim(idempotencyKey, input, context)
+          : null;
+      if (original) {
+        return original;
+      }
+      throw error;
+    }
+
+    await auditService.recordMany(
+      [
+        {
+          entityType: AuditEntityType.CLAIM,
+          entityId: claim.id,
+          action: AuditAction.CREATE,
+          changes: diffChanges(null, claim),
+        },
+        ...(claim.lines ?? []).map((line) => ({
+          entityType: AuditEntityType.CLAIM_LINE,
+          entityId: line.id,
+          action: AuditAction.CREATE,
+          changes: diffChanges(null, line),
+        })),
+      ],
       context
     );
 
@@ -82,7 +228,312 @@ export class ClaimsService {
       createdBy: context.userId,
     });
 
-    return claim;
+    // Best-effort: an unscored claim only misses the risk signal
+    try {
+      await this.queueRiskScoring(claim.id, context);
+    } catch (error) {
+      logger.error('Failed to queue claim risk scoring', {
+        claimId: claim.id,
+        organizationId: context.organizationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    if (uncovered) {
+      return await this.pendClaim(claim, 'No active coverage on the date of service', context);
+    }
+
+    // Near matches of an earlier claim wait for a processor
+    if (claim.flags.includes(ClaimFlag.SUSPECTED_DUPLICATE)) {
+      return await this.pendClaim(
+        claim,
+        `Suspected duplicate of claim ${claim.duplicateOfClaimId} (score ${claim.duplicateScore})`,
+        context
+      );
+    }
+
+    // Adjudication rules take precedence: a claim any of them matches is
+    // left to the adjudication job, however small
+    if (
+      qualifiesForAutoApproval(claim.amount, settings) &&
+      !(await this.matchesAdjudicationRules(claim.id, context))
+    ) {
+      return await this.autoApproveClaim(claim, context);
+    }
+
+    const routed = await this.routeClaim(claim, context);
+
+    // Best-effort: a claim the rules never see still goes through manual review
+    try {
+      await this.queueAdjudication(claim.id, context);
+    } catch (error) {
+      logger.error('Failed to queue claim adjudication', {
+        claimId: claim.id,
+        organizationId: context.organizationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return routed;
+  }
+
+  /**
+   * The claim an earlier request with this Idempotency-Key created, if any.
+   * Reusing a key for a different claim is refused; the fields compared are
+   * the ones line decisions leave alone.
+   */
+  private async findIdempotentClaim(
+    idempotencyKey: string,
+    input: CreateClaimInput,
+    context: TenantContext
+  ): Promise<Claim | null> {
+    if (idempotencyKey.length === 0 || idempotencyKey.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+      throw new ValidationError(
+        `Idempotency-Key must be 1 to ${IDEMPOTENCY_KEY_MAX_LENGTH} characters`,
+        { header: 'Idempotency-Key' }
+      );
+    }
+
+    const original = await claimRepository.findByIdempotencyKey(idempotencyKey, context);
+    if (!original) {
+      return null;
+    }
+
+    const sameRequest =
+      original.patientId === input.patientId &&
+      original.providerId === input.providerId &&
+      original.diagnosisCode === input.diagnosisCode &&
+      original.serviceDate.getTime() === input.serviceDate.getTime() &&
+      original.procedureCode === input.lines[0].procedureCode;
+    if (!sameRequest) {
+      throw new IdempotencyKeyReusedError(idempotencyKey);
+    }
+
+    logger.info('Duplicate claim request detected (idempotency)', {
+      idempotencyKey,
+      existingId: original.id,
+      organizationId: context.organizationId,
+    });
+
+    return original;
+  }
+
+  /**
+   * Re-run the organization's adjudication rules on an open claim,
+   * e.g. after the rules changed
+   */
+  async requestAdjudication(id: string, context: TenantContext): Promise<{ jobId: string }> {
+    const claim = await this.getClaimById(id, context);
+
+    if (!OPEN_CLAIM_STATUSES.includes(claim.status)) {
+      throw new ClaimNotModifiableError(id, claim.status);
+    }
+
+    return await this.queueAdjudication(id, context);
+  }
+
+  private async queueAdjudication(
+    claimId: string,
+    context: TenantContext
+  ): Promise<{ jobId: string }> {
+    const jobId = uuidv4();
+    const jobData: ClaimAdjudicationJobData = {
+      type: 'claim_adjudication',
+      jobId,
+      organizationId: context.organizationId,
+      claimId,
+      triggeredBy: context.userId,
+      triggeredAt: new Date().toISOString(),
+      idempotencyKey: `job-claim-adjudication-${jobId}`,
+    };
+
+    await claimsQueue.add('claim_adjudication', jobData, { jobId });
+
+    logger.info('Claim adjudication queued', {
+      jobId,
+      claimId,
+      organizationId: context.organizationId,
+      triggeredBy: context.userId,
+    });
+
+    return { jobId };
+  }
+
+  private async queueRiskScoring(
+    claimId: string,
+    context: TenantContext
+  ): Promise<{ jobId: string }> {
+    const jobId = uuidv4();
+    const jobData: ClaimRiskScoringJobData = {
+      type: 'claim_risk_scoring',
+      jobId,
+      organizationId: context.organizationId,
+      claimId,
+      triggeredBy: context.userId,
+      triggeredAt: new Date().toISOString(),
+      idempotencyKey: `job-claim-risk-scoring-${jobId}`,
+    };
+
+    await claimsQueue.add('claim_risk_scoring', jobData, { jobId });
+
+    logger.info('Claim risk scoring queued', {
+      jobId,
+      claimId,
+      organizationId: context.organizationId,
+    });
+
+    return { jobId };
+  }
+
+  /**
+   * Hand an open, unassigned claim to a processor per the organization's
+   * routing strategy. Routing is best-effort: on failure the claim stays
+   * unassigned for an admin or a later rebalance to pick up.
+   */
+  private async routeClaim(claim: Claim, context: TenantContext): Promise<Claim> {
+    if (claim.assignedTo) {
+      return claim;
+    }
+
+    try {
+      const [assignment] = await claimRoutingService.routeClaims(
+        context.organizationId,
+        [claim.id]
+      );
+      if (!assignment) {
+        return claim;
+      }
+
+      const routed = { ...claim, assignedTo: assignment.processorId };
+
+      await auditService.record(
+        {
+          entityType: AuditEntityType.CLAIM,
+          entityId: claim.id,
+          action: AuditAction.ASSIGN,
+          changes: diffChanges(claim, routed),
+        },
+        context
+      );
+
+      return routed;
+    } catch (error) {
+      logger.error('Failed to route claim', {
+        claimId: claim.id,
+        organizationId: context.organizationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return claim;
+    }
+  }
+
+  /**
+   * Hold a newly created claim in review for a processor to look at.
+   * Adjudication rules and auto-approval never see it.
+   */
+  private async pendClaim(
+    claim: Claim,
+    reason: string,
+    context: TenantContext
+  ): Promise<Claim> {
+    const reviewed = await claimRepository.updateStatusInternal(
+      claim.id,
+      context.organizationId,
+      'under_review',
+      context.userId,
+      reason
+    );
+
+    if (!reviewed) {
+      return await this.routeClaim(claim, context);
+    }
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.CLAIM,
+        entityId: claim.id,
+        action: AuditAction.STATUS_CHANGE,
+        changes: diffChanges(claim, reviewed),
+      },
+      context
+    );
+
+    logger.info('Claim pended', {
+      claimId: claim.id,
+      reason,
+      organizationId: context.organizationId,
+    });
+
+    return await this.routeClaim(reviewed, context);
+  }
+
+  /**
+   * Whether any of the organization's active adjudication rules fires on
+   * the claim
+   */
+  private async matchesAdjudicationRules(
+    claimId: string,
+    context: TenantContext
+  ): Promise<boolean> {
+    const rules = await adjudicationRuleRepository.findActiveInternal(context.organizationId);
+    if (rules.length === 0) {
+      return false;
+    }
+
+    const found = await claimRepository.findAdjudicationFactsInternal(
+      claimId,
+      context.organizationId
+    );
+    return found !== null && evaluateAdjudicationRules(rules, found.facts).fired.length > 0;
+  }
+
+  /**
+   * Walk a newly created claim through review to approval.
+   * Used when the organization does not require manual review.
+   */
+  private async autoApproveClaim(
+    claim: Claim,
+    context: TenantContext
+  ): Promise<Claim> {
+    const reviewed = await claimRepository.updateStatusInternal(
+      claim.id,
+      context.organizationId,
+      'under_review',
+      context.userId,
+      'Automatic review: manual review not required'
+    );
+
+    const approved = reviewed
+      ? await claimRepository.updateStatusInternal(
+          claim.id,
+          context.organizationId,
+          'approved',
+          context.userId,
+          'Auto-approved below organization threshold'
+        )
+      : null;
+
+    if (!approved) {
+      return reviewed ?? claim;
+    }
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.CLAIM,
+        entityId: claim.id,
+        action: AuditAction.STATUS_CHANGE,
+        changes: diffChanges(claim, approved),
+      },
+      context
+    );
+
+    logger.info('Claim auto-approved', {
+      claimId: claim.id,
+      amount: claim.amount,
+      organizationId: context.organizationId,
+    });
+
+    return approved;
   }
 
   /**
@@ -99,10 +550,69 @@ export class ClaimsService {
   }
 
   /**
-   * Get a claim by ID (alias for controller)
+   * Get a claim with its lines and appeals (claim detail)
    */
   async getClaim(id: string, context: TenantContext): Promise<Claim> {
-    return this.getClaimById(id, context);
+    const claim = await this.getClaimById(id, context);
+    const lines = await claimRepository.findLines(id, context);
+    const appeals = await appealRepository.findByClaimId(id, context);
+
+    return { ...claim, lines, appeals };
+  }
+
+  /**
+   * Approve or reject one line of a claim under review. The claim amount
+   * becomes the total of the lines that are not rejected.
+   */
+  async decideClaimLine(
+    claimId: string,
+    lineId: string,
+    input: DecideClaimLineInput,
+    context: TenantContext
+  ): Promise<Claim> {
+    const result = await claimRepository.decideLine(
+      claimId,
+      lineId,
+      input.status,
+      context,
+      input.reason
+    );
+
+    if (!result) {
+      throw new NotFoundError('Claim line', lineId);
+    }
+
+    const { claim, line, previousLine, previousAmount } = result;
+
+    await auditService.recordMany(
+      [
+        {
+          entityType: AuditEntityType.CLAIM_LINE,
+          entityId: line.id,
+          action: AuditAction.STATUS_CHANGE,
+          changes: diffChanges(previousLine, line),
+        },
+        {
+          entityType: AuditEntityType.CLAIM,
+          entityId: claimId,
+          action: AuditAction.UPDATE,
+          changes: diffChanges({ amount: previousAmount }, { amount: claim.amount }),
+        },
+      ].filter((entry) => Object.keys(entry.changes).length > 0),
+      context
+    );
+
+    logger.info('Claim line decided', {
+      claimId,
+      lineId,
+      lineNumber: line.lineNumber,
+      status: line.status,
+      amount: claim.amount,
+      organizationId: context.organizationId,
+      decidedBy: context.userId,
+    });
+
+    return claim;
   }
 
   /**
@@ -128,27 +638,13 @@ export class ClaimsService {
     query: ListClaimsQuery,
     context: TenantContext
   ): Promise<PaginatedResult<Claim>> {
-    const { sortBy, sortOrder, limit, offset, ...filters } = query;
-
-    const claimFilters: ClaimFilters = {
-      fromDate: filters.fromDate,
-      toDate: filters.toDate,
-      status: filters.status as ClaimStatus | ClaimStatus[],
-      patientId: filters.patientId,
-      providerId: filters.providerId,
-      minAmount: filters.minAmount,
-      maxAmount: filters.maxAmount,
-    };
-
-    const sort: ClaimSortField = {
-      field: sortBy,
-      order: sortOrder,
-    };
+    const { limit, offset, cursor, count } = query;
+    const { filters, sort } = toClaimSearch(query);
 
     return await claimRepository.findMany(context, {
-      filters: claimFilters,
+      filters,
       sort,
-      pagination: { limit, offset },
+      pagination: { limit, offset, cursor, count },
     });
   }
 
@@ -161,6 +657,9 @@ export class ClaimsService {
     context: TenantContext
   ): Promise<Claim> {
     const { status, reason } = input;
+
+    // Snapshot for the audit diff (same tenant/role filtering as the update)
+    const before = await claimRepository.findById(id, context);
     
     const updatedClaim = await claimRepository.updateStatus(
       id,
@@ -173,6 +672,16 @@ export class ClaimsService {
       throw new NotFoundError('Claim', id);
     }
 
+    await auditService.record(
+      {
+        entityType: AuditEntityType.CLAIM,
+        entityId: id,
+        action: AuditAction.STATUS_CHANGE,
+        changes: diffChanges(before, updatedClaim),
+      },
+      context
+    );
+
     logger.info('Claim status updated', {
       claimId: id,
       newStatus: status,
@@ -181,6 +690,10 @@ export class ClaimsService {
       reason,
     });
 
+    if (updatedClaim.status === 'under_review') {
+      return await this.routeClaim(updatedClaim, context);
+    }
+
     return updatedClaim;
   }
 
@@ -193,6 +706,9 @@ export class ClaimsService {
   ): Promise<{ updated: string[]; failed: { id: string; reason: string }[] }> {
     const { claimIds, status, reason } = input;
 
+    const before = await claimRepository.findByIds(claimIds, context);
+    const previousStatus = new Map(before.map((claim) => [claim.id, claim.status]));
+
     const result = await claimRepository.bulkUpdateStatus(
       claimIds,
       status,
@@ -200,10 +716,18 @@ export class ClaimsService {
       reason
     );
 
-    const failed: { id: string; reason: string }[] = result.failed.map(id => ({
-      id,
-      reason: 'Failed to update or access denied',
-    }));
+    await auditService.recordMany(
+      result.updated.map((claimId) => ({
+        entityType: AuditEntityType.CLAIM,
+        entityId: claimId,
+        action: AuditAction.BULK_STATUS_CHANGE,
+        changes: diffChanges(
+          { status: previousStatus.get(claimId) },
+          { status }
+        ),
+      })),
+      context
+    );
 
     logger.info('Bulk status update completed', {
       totalRequested: claimIds.length,
@@ -213,7 +737,15 @@ export class ClaimsService {
       updatedBy: context.userId,
     });
 
-    return { updated: result.updated, failed };
+    // One at a time, so each routing sees the workloads the last one left
+    if (status === 'under_review') {
+      const updated = new Set(result.updated);
+      for (const claim of before.filter((found) => updated.has(found.id))) {
+        await this.routeClaim({ ...claim, status }, context);
+      }
+    }
+
+    return { updated: result.updated, failed: result.failed };
   }
 
   /**
@@ -224,6 +756,8 @@ export class ClaimsService {
     processorId: string,
     context: TenantContext
   ): Promise<Claim> {
+    const before = await claimRepository.findById(claimId, context);
+
     const claim = await claimRepository.assignToProcessor(
       claimId,
       processorId,
@@ -234,6 +768,16 @@ export class ClaimsService {
       throw new NotFoundError('Claim', claimId);
     }
 
+    await auditService.record(
+      {
+        entityType: AuditEntityType.CLAIM,
+        entityId: claimId,
+        action: AuditAction.ASSIGN,
+        changes: diffChanges(before, claim),
+      },
+      context
+    );
+
     logger.info('Claim assigned to processor', {
       claimId,
       processorId,
@@ -244,6 +788,99 @@ export class ClaimsService {
     return claim;
   }
 
+  /**
+   * Remove a claim's processor assignment
+   */
+  async unassignClaim(claimId: string, context: TenantContext): Promise<Claim> {
+    const before = await claimRepository.findById(claimId, context);
+
+    const claim = await claimRepository.unassign(claimId, context);
+
+    if (!claim) {
+      throw new NotFoundError('Claim', claimId);
+    }
+
+    if (before?.assignedTo) {
+      await auditService.record(
+        {
+          entityType: AuditEntityType.CLAIM,
+          entityId: claimId,
+          action: AuditAction.UNASSIGN,
+          changes: diffChanges(before, claim),
+        },
+        context
+      );
+
+      logger.info('Claim unassigned from processor', {
+        claimId,
+        processorId: before.assignedTo,
+        organizationId: context.organizationId,
+        unassignedBy: context.userId,
+      });
+    }
+
+    return claim;
+  }
+
+  /**
+   * Queue a job that repairs drift between claim assignments and
+   * processors' assignedClaimIds for the caller's organization
+   */
+  async queueAssignmentReconciliation(context: TenantContext): Promise<{ jobId: string }> {
+    const jobId = uuidv4();
+    const jobData: AssignmentReconciliationJobData = {
+      type: 'assignment_reconciliation',
+      jobId,
+      organizationId: context.organizationId,
+      triggeredBy: context.userId,
+      triggeredAt: new Date().toISOString(),
+      idempotencyKey: `job-assignment-reconciliation-${jobId}`,
+    };
+
+    await claimsQueue.add('assignment_reconciliation', jobData, { jobId });
+
+    logger.info('Assignment reconciliation queued', {
+      jobId,
+      organizationId: context.organizationId,
+      triggeredBy: context.userId,
+    });
+
+    return { jobId };
+  }
+
+  /**
+   * Route orphaned open claims and even out processors' open-claim load
+   */
+  async rebalanceAssignments(context: TenantContext): Promise<RebalanceResult> {
+    if (context.role !== 'admin') {
+      throw new ForbiddenError('Only admins can rebalance claim assignments');
+    }
+
+    const result = await claimRoutingService.rebalance(context.organizationId);
+
+    await auditService.recordMany(
+      [...result.assigned, ...result.moved].map((assignment) => ({
+        entityType: AuditEntityType.CLAIM,
+        entityId: assignment.claimId,
+        action: AuditAction.ASSIGN,
+        changes: diffChanges(
+          { assignedTo: assignment.previousProcessorId },
+          { assignedTo: assignment.processorId }
+        ),
+      })),
+      context
+    );
+
+    logger.info('Claim assignments rebalanced', {
+      organizationId: context.organizationId,
+      assigned: result.assigned.length,
+      moved: result.moved.length,
+      rebalancedBy: context.userId,
+    });
+
+    return result;
+  }
+
   /**
    * Get claim count for dashboard/stats
    */
@@ -254,6 +891,21 @@ export class ClaimsService {
     return await claimRepository.count(context, filters);
   }
 
+  /**
+   * Providers ranked by the fraud, waste and abuse risk of their claims
+   */
+  async getProviderRiskReport(
+    query: ClaimRiskReportQuery,
+    context: TenantContext
+  ): Promise<ProviderRiskSummary[]> {
+    return await claimRepository.findTopRiskProviders(context, {
+      limit: query.limit,
+      fromDate: query.fromDate,
+      toDate: query.toDate,
+      highRiskScore: query.highRiskScore ?? RISK_SCORING.HIGH_RISK_SCORE,
+    });
+  }
+
   /**
    * Get claim statistics
    */
@@ -267,7 +919,14 @@ export class ClaimsService {
     const total = await claimRepository.count(context);
     
     // Get counts by status
-    const statuses: ClaimStatus[] = ['submitted', 'under_review', 'approved', 'rejected', 'paid'];
+    const statuses: ClaimStatus[] = [
+      'submitted',
+      'under_review',
+      'approved',
+      'rejected',
+      'appealed',
+      'paid',
+    ];
     const byStatus: Record<string, number> = {};
     
     for (const status of statuses) {
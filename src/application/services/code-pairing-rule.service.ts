@@ -0,0 +1,107 @@
+import { codePairingRuleRepository } from '../../infrastructure/database/repositories/index.js';
+import type { CodePairingRule } from '../../domain/entities/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+  type PaginatedResult,
+} from '../../shared/types/index.js';
+import { NotFoundError } from '../../domain/errors/index.js';
+import type {
+  CreateCodePairingRuleInput,
+  UpdateCodePairingRuleInput,
+  ListCodePairingRulesQuery,
+} from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export class CodePairingRuleService {
+  async listRules(
+    query: ListCodePairingRulesQuery,
+    context: TenantContext
+  ): Promise<PaginatedResult<CodePairingRule>> {
+    const { limit, offset, ...filters } = query;
+
+    return await codePairingRuleRepository.search(context, {
+      filters,
+      pagination: { limit, offset },
+    });
+  }
+
+  /**
+   * Add a diagnosis/procedure edit; it applies to claims created from now on
+   */
+  async createRule(
+    input: CreateCodePairingRuleInput,
+    context: TenantContext
+  ): Promise<CodePairingRule> {
+    const rule = await codePairingRuleRepository.create(
+      {
+        organizationId: context.organizationId,
+        procedureCode: input.procedureCode,
+        diagnosisCodePrefix: input.diagnosisCodePrefix,
+        effect: input.effect,
+        reason: input.reason,
+        isActive: true,
+      },
+      context
+    );
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.CODE_PAIRING_RULE,
+        entityId: rule.id,
+        action: AuditAction.CREATE,
+        changes: diffChanges(null, rule),
+      },
+      context
+    );
+
+    logger.info('Code pairing rule created', {
+      ruleId: rule.id,
+      organizationId: context.organizationId,
+      createdBy: context.userId,
+    });
+
+    return rule;
+  }
+
+  /**
+   * Change the effect or reason of a rule, or switch it off
+   */
+  async updateRule(
+    id: string,
+    input: UpdateCodePairingRuleInput,
+    context: TenantContext
+  ): Promise<CodePairingRule> {
+    const before = await codePairingRuleRepository.findById(id, context);
+    if (!before) {
+      throw new NotFoundError('Code pairing rule', id);
+    }
+
+    const rule = await codePairingRuleRepository.update(id, input, context);
+    if (!rule) {
+      throw new NotFoundError('Code pairing rule', id);
+    }
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.CODE_PAIRING_RULE,
+        entityId: rule.id,
+        action: AuditAction.UPDATE,
+        changes: diffChanges(before, rule),
+      },
+      context
+    );
+
+    logger.info('Code pairing rule updated', {
+      ruleId: rule.id,
+      organizationId: context.organizationId,
+      updatedBy: context.userId,
+    });
+
+    return rule;
+  }
+}
+
+export const codePairingRuleService = new CodePairingRuleService();
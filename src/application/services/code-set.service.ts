@@ -0,0 +1,96 @@
+import {
+  diagnosisCodeRepository,
+  procedureCodeRepository,
+  codePairingRuleRepository,
+} from '../../infrastructure/database/repositories/index.js';
+import {
+  findCodePairingViolations,
+  type DiagnosisCode,
+} from '../../domain/entities/index.js';
+import type { TenantContext } from '../../shared/types/index.js';
+import {
+  CodePairingError,
+  InvalidDiagnosisCodeError,
+  InvalidProcedureCodeError,
+} from '../../domain/errors/index.js';
+import type { SearchDiagnosisCodesQuery } from '../validators/index.js';
+
+// What the code checks need from a claim line
+interface CodedLine {
+  procedureCode: string;
+  serviceDate: Date;
+  diagnosisPointers: number[];
+}
+
+export class CodeSetService {
+  /**
+   * Typeahead over the diagnosis codes in force on a date
+   */
+  async searchDiagnosisCodes(query: SearchDiagnosisCodesQuery): Promise<DiagnosisCode[]> {
+    return diagnosisCodeRepository.search({
+      search: query.search,
+      asOf: query.asOf ?? new Date(),
+      billableOnly: query.billableOnly,
+      limit: query.limit,
+    });
+  }
+
+  /**
+   * Every code must be billable and in force on the date of service
+   */
+  async assertDiagnosisCodesBillable(codes: string[], serviceDate: Date): Promise<void> {
+    const unique = [...new Set(codes)];
+    const found = await diagnosisCodeRepository.findBillableInForce(unique, serviceDate);
+    const valid = new Set(found.map((code) => code.code));
+
+    const invalid = unique.find((code) => !valid.has(code));
+    if (invalid) {
+      throw new InvalidDiagnosisCodeError(invalid, serviceDate);
+    }
+  }
+
+  /**
+   * Each line's procedure must be in force on that line's date of service
+   */
+  async assertProcedureCodesInForce(lines: CodedLine[]): Promise<void> {
+    const byDate = new Map<string, { serviceDate: Date; codes: Set<string> }>();
+    for (const line of lines) {
+      const day = line.serviceDate.toISOString().slice(0, 10);
+      const entry = byDate.get(day) ?? { serviceDate: line.serviceDate, codes: new Set() };
+      entry.codes.add(line.procedureCode);
+      byDate.set(day, entry);
+    }
+
+    for (const { serviceDate, codes } of byDate.values()) {
+      const found = await procedureCodeRepository.findInForce([...codes], serviceDate);
+      const valid = new Set(found.map((code) => code.code));
+
+      const invalid = [...codes].find((code) => !valid.has(code));
+      if (invalid) {
+        throw new InvalidProcedureCodeError(invalid, serviceDate);
+      }
+    }
+  }
+
+  /**
+   * Apply the organization's diagnosis/procedure pairing rules to every line
+   */
+  async assertCodePairings(
+    lines: CodedLine[],
+    diagnosisCodes: string[],
+    context: TenantContext
+  ): Promise<void> {
+    const procedureCodes = [...new Set(lines.map((line) => line.procedureCode))];
+    const rules = await codePairingRuleRepository.findActiveForProcedures(
+      procedureCodes,
+      context
+    );
+
+    const violations = findCodePairingViolations(lines, diagnosisCodes, rules);
+    if (violations.length > 0) {
+      throw new CodePairingError(violations);
+    }
+  }
+}
+
+export const codeSetService = new CodeSetService();
@@ -0,0 +1,208 @@
+import {
+  benefitAccumulatorRepository,
+  coverageRepository,
+  patientRepository,
+  planRepository,
+} from '../../infrastructure/database/repositories/index.js';
+import {
+  getPlanYear,
+  type BenefitAccumulator,
+  type Coverage,
+  type EligibilityResult,
+} from '../../domain/entities/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  EligibilityStatus,
+  type TenantContext,
+} from '../../shared/types/index.js';
+import { NotFoundError, ValidationError } from '../../domain/errors/index.js';
+import type {
+  CreateCoverageInput,
+  UpdateCoverageInput,
+  EligibilityCheckInput,
+} from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export class EligibilityService {
+  /**
+   * A patient's coverages, newest first (role filtered)
+   */
+  async listCoverages(patientId: string, context: TenantContext): Promise<Coverage[]> {
+    const patient = await patientRepository.findAccessibleById(patientId, context);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    return await coverageRepository.findByPatientId(patientId, context);
+  }
+
+  /**
+   * A patient's benefit accumulators, latest plan year first (role filtered)
+   */
+  async listAccumulators(
+    patientId: string,
+    context: TenantContext
+  ): Promise<BenefitAccumulator[]> {
+    const patient = await patientRepository.findAccessibleById(patientId, context);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    return await benefitAccumulatorRepository.findByPatientId(patientId, context);
+  }
+
+  /**
+   * Enroll a patient in an active plan. Coverages of one patient cannot
+   * overlap.
+   */
+  async addCoverage(
+    patientId: string,
+    input: CreateCoverageInput,
+    context: TenantContext
+  ): Promise<Coverage> {
+    const patientExists = await patientRepository.exists(patientId, context);
+    if (!patientExists) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    const plan = await planRepository.findById(input.planId, context);
+    if (!plan) {
+      throw new NotFoundError('Plan', input.planId);
+    }
+    if (!plan.isActive) {
+      throw new ValidationError('The plan is not active', { field: 'planId' });
+    }
+
+    const coverage = await coverageRepository.create(
+      {
+        patientId,
+        planId: plan.id,
+        effectiveDate: input.effectiveDate,
+        terminationDate: input.terminationDate,
+      },
+      context
+    );
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.COVERAGE,
+        entityId: coverage.id,
+        action: AuditAction.CREATE,
+        changes: diffChanges(null, coverage),
+      },
+      context
+    );
+
+    logger.info('Coverage added', {
+      coverageId: coverage.id,
+      patientId,
+      planId: plan.id,
+      organizationId: context.organizationId,
+      createdBy: context.userId,
+    });
+
+    return { ...coverage, plan };
+  }
+
+  /**
+   * Move a coverage's dates, e.g. to terminate it
+   */
+  async updateCoverage(
+    patientId: string,
+    coverageId: string,
+    input: UpdateCoverageInput,
+    context: TenantContext
+  ): Promise<Coverage> {
+    const before = await coverageRepository.findById(patientId, coverageId, context);
+    if (!before) {
+      throw new NotFoundError('Coverage', coverageId);
+    }
+
+    const coverage = await coverageRepository.update(patientId, coverageId, input, context);
+    if (!coverage) {
+      throw new NotFoundError('Coverage', coverageId);
+    }
+
+    const { plan, ...previous } = before;
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.COVERAGE,
+        entityId: coverage.id,
+        action: AuditAction.UPDATE,
+        changes: diffChanges(previous, coverage),
+      },
+      context
+    );
+
+    logger.info('Coverage updated', {
+      coverageId: coverage.id,
+      patientId,
+      organizationId: context.organizationId,
+      updatedBy: context.userId,
+    });
+
+    return { ...coverage, plan };
+  }
+
+  /**
+   * Coverage status of a member on a date, with the member's deductible,
+   * out-of-pocket and plan payments so far in the plan year of that date
+   */
+  async checkEligibility(
+    input: EligibilityCheckInput,
+    context: TenantContext
+  ): Promise<EligibilityResult> {
+    const serviceDate = input.serviceDate ?? new Date();
+
+    const patient = await patientRepository.findByMemberId(input.memberId, context);
+    if (!patient) {
+      throw new NotFoundError('Member', input.memberId);
+    }
+
+    const result = {
+      memberId: patient.memberId,
+      patientId: patient.id,
+      serviceDate,
+    };
+
+    const coverage = await coverageRepository.findInForce(patient.id, serviceDate, context);
+    if (!coverage?.plan) {
+      return { ...result, status: EligibilityStatus.INACTIVE };
+    }
+
+    const { plan, ...coverageFields } = coverage;
+    const planYear = getPlanYear(plan, serviceDate);
+    const accumulator = await benefitAccumulatorRepository.findForPlanYear(
+      patient.id,
+      plan.id,
+      planYear.start,
+      context
+    );
+    const used = accumulator?.planPaid ?? 0;
+
+    return {
+      ...result,
+      status: EligibilityStatus.ACTIVE,
+      coverage: coverageFields,
+      plan,
+      benefits: {
+        planYear,
+        deductible: plan.deductible,
+        deductibleMet: accumulator?.deductibleMet ?? 0,
+        outOfPocketMax: plan.outOfPocketMax,
+        outOfPocketMet: accumulator?.outOfPocketMet ?? 0,
+        annualBenefitMax: plan.annualBenefitMax,
+        used,
+        remaining:
+          plan.annualBenefitMax === undefined
+            ? undefined
+            : Math.max(0, Math.round((plan.annualBenefitMax - used) * 100) / 100),
+      },
+    };
+  }
+}
+
+export const eligibilityService = new EligibilityService();
@@ -0,0 +1,292 @@
+import {
+  feeScheduleRepository,
+  providerRepository,
+} from '../../infrastructure/database/repositories/index.js';
+import {
+  parseFeeScheduleCsv,
+  type FeeScheduleRowError,
+  type ImportedFeeScheduleEntry,
+} from '../../infrastructure/import/fee-schedule-file.js';
+import {
+  getFeeScheduleEntryKey,
+  type FeeScheduleEntry,
+} from '../../domain/entities/index.js';
+import type { NewFeeScheduleEntry } from '../../domain/repositories/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+  type PaginatedResult,
+} from '../../shared/types/index.js';
+import { NotFoundError, ValidationError } from '../../domain/errors/index.js';
+import {
+  createFeeScheduleEntrySchema,
+  type CreateFeeScheduleEntryInput,
+  type UpdateFeeScheduleEntryInput,
+  type ListFeeSchedulesQuery,
+} from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+// Rows per file; larger schedules are split into several imports
+const MAX_IMPORT_ROWS = 20_000;
+
+// Dry-run result: nothing is stored
+export interface FeeScheduleImportReport {
+  rowCount: number;
+  validCount: number;
+  invalidCount: number;
+  errors: FeeScheduleRowError[];
+}
+
+export interface FeeScheduleImportResult {
+  rowCount: number;
+  created: number;
+  updated: number;
+}
+
+export class FeeScheduleService {
+  async listEntries(
+    query: ListFeeSchedulesQuery,
+    context: TenantContext
+  ): Promise<PaginatedResult<FeeScheduleEntry>> {
+    const { limit, offset, ...filters } = query;
+
+    return await feeScheduleRepository.search(context, {
+      filters,
+      pagination: { limit, offset },
+    });
+  }
+
+  async getEntry(id: string, context: TenantContext): Promise<FeeScheduleEntry> {
+    const entry = await feeScheduleRepository.findById(id, context);
+    if (!entry) {
+      throw new NotFoundError('Fee schedule entry', id);
+    }
+    return entry;
+  }
+
+  async createEntry(
+    input: CreateFeeScheduleEntryInput,
+    context: TenantContext
+  ): Promise<FeeScheduleEntry> {
+    if (input.providerId && !(await providerRepository.findById(input.providerId, context))) {
+      throw new NotFoundError('Provider', input.providerId);
+    }
+
+    const entry = await feeScheduleRepository.create(input, context);
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.FEE_SCHEDULE,
+        entityId: entry.id,
+        action: AuditAction.CREATE,
+        changes: diffChanges(null, entry),
+      },
+      context
+    );
+
+    logger.info('Fee schedule entry created', {
+      feeScheduleId: entry.id,
+      procedureCode: entry.procedureCode,
+      organizationId: context.organizationId,
+      createdBy: context.userId,
+    });
+
+    return entry;
+  }
+
+  /**
+   * Change an entry's amount or end it. Claims already priced keep their
+   * allowed amounts until they enter review again.
+   */
+  async updateEntry(
+    id: string,
+    input: UpdateFeeScheduleEntryInput,
+    context: TenantContext
+  ): Promise<FeeScheduleEntry> {
+    const before = await this.getEntry(id, context);
+
+    if (input.terminationDate && input.terminationDate < before.effectiveDate) {
+      throw new ValidationError('terminationDate cannot be before effectiveDate', {
+        field: 'terminationDate',
+      });
+    }
+
+    const entry = await feeScheduleRepository.update(id, input, context);
+    if (!entry) {
+      throw new NotFoundError('Fee schedule entry', id);
+    }
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.FEE_SCHEDULE,
+        entityId: entry.id,
+        action: AuditAction.UPDATE,
+        changes: diffChanges(before, entry),
+      },
+      context
+    );
+
+    logger.info('Fee schedule entry updated', {
+      feeScheduleId: entry.id,
+      organizationId: context.organizationId,
+      updatedBy: context.userId,
+    });
+
+    return entry;
+  }
+
+  /**
+   * Validate every row of a CSV file without importing it
+   */
+  async dryRun(
+    content: string | undefined,
+    context: TenantContext
+  ): Promise<FeeScheduleImportReport> {
+    const rows = this.parse(content);
+    const { entries, errors } = await this.resolveRows(rows, context);
+
+    return {
+      rowCount: rows.length,
+      validCount: entries.length,
+      invalidCount: rows.length - entries.length,
+      errors,
+    };
+  }
+
+  /**
+   * Import a CSV file: new entries are added, and entries with the same
+   * scope, procedure code and effective date get the file's amount and
+   * termination date. A file with any invalid row imports nothing.
+   */
+  async importFile(
+    content: string | undefined,
+    context: TenantContext
+  ): Promise<FeeScheduleImportResult> {
+    const rows = this.parse(content);
+    const { entries, errors } = await this.resolveRows(rows, context);
+
+    if (errors.length > 0) {
+      throw new ValidationError('The file has invalid rows; nothing was imported', {
+        errors,
+      });
+    }
+
+    const { created, updated } = await feeScheduleRepository.upsertMany(entries, context);
+
+    await auditService.recordMany(
+      [
+        ...created.map((entry) => ({
+          entityType: AuditEntityType.FEE_SCHEDULE,
+          entityId: entry.id,
+          action: AuditAction.CREATE,
+          changes: diffChanges(null, entry),
+        })),
+        ...updated.map(({ before, after }) => ({
+          entityType: AuditEntityType.FEE_SCHEDULE,
+          entityId: after.id,
+          action: AuditAction.UPDATE,
+          changes: diffChanges(before, after),
+        })),
+      ],
+      context
+    );
+
+    logger.info('Fee schedule imported', {
+      organizationId: context.organizationId,
+      importedBy: context.userId,
+      rowCount: rows.length,
+      created: created.length,
+      updated: updated.length,
+    });
+
+    return { rowCount: rows.length, created: created.length, updated: updated.length };
+  }
+
+  /**
+   * Check each row: its provider NPI must exist in the organization, the
+   * rest must pass createFeeScheduleEntrySchema, and no two rows may share
+   * a scope, procedure code and effective date
+   */
+  private async resolveRows(
+    rows: ImportedFeeScheduleEntry[],
+    context: TenantContext
+  ): Promise<{ entries: NewFeeScheduleEntry[]; errors: FeeScheduleRowError[] }> {
+    const entries: NewFeeScheduleEntry[] = [];
+    const errors: FeeScheduleRowError[] = [];
+    const providerIds = new Map<string, string | undefined>();
+    const rowsByKey = new Map<string, number>();
+
+    for (const { row, providerNpi, fields, error } of rows) {
+      if (error) {
+        errors.push({ row, message: error });
+        continue;
+      }
+
+      let providerId: string | undefined;
+      if (providerNpi) {
+        if (!providerIds.has(providerNpi)) {
+          const provider = await providerRepository.findByNpi(providerNpi, context);
+          providerIds.set(providerNpi, provider?.id);
+        }
+        providerId = providerIds.get(providerNpi);
+        if (!providerId) {
+          errors.push({ row, message: `No provider with NPI ${providerNpi}` });
+          continue;
+        }
+      }
+
+      const parsed = createFeeScheduleEntrySchema.safeParse({ ...fields, providerId });
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          errors.push({
+            row,
+            message:
+              issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+          });
+        }
+        continue;
+      }
+
+      const key = getFeeScheduleEntryKey(parsed.data);
+      const firstRow = rowsByKey.get(key);
+      if (firstRow !== undefined) {
+        errors.push({
+          row,
+          message: `Same procedure code, scope and effective date as row ${firstRow}`,
+        });
+        continue;
+      }
+      rowsByKey.set(key, row);
+      entries.push(parsed.data);
+    }
+
+    return { entries, errors };
+  }
+
+  private parse(content: string | undefined): ImportedFeeScheduleEntry[] {
+    if (content === undefined || !content.trim()) {
+      throw new ValidationError('Send the file as the request body with Content-Type text/csv');
+    }
+
+    let rows: ImportedFeeScheduleEntry[];
+    try {
+      rows = parseFeeScheduleCsv(content);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unreadable';
+      throw new ValidationError(`Invalid CSV file: ${reason}`);
+    }
+
+    if (rows.length === 0) {
+      throw new ValidationError('The file has no entries');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`A file may hold at most ${MAX_IMPORT_ROWS} entries`);
+    }
+
+    return rows;
+  }
+}
+
+export const feeScheduleService = new FeeScheduleService();
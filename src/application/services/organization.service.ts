@@ -0,0 +1,218 @@
+import { organizationRepository } from '../../infrastructure/database/repositories/index.js';
+import { invalidateOrganizationSettings } from '../../infrastructure/cache/organization-settings.cache.js';
+import {
+  DEFAULT_ORGANIZATION_SETTINGS,
+  type Organization,
+} from '../../domain/entities/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+  type PaginatedResult,
+} from '../../shared/types/index.js';
+import { NotFoundError, ConflictError, ValidationError } from '../../domain/errors/index.js';
+import type {
+  CreateOrganizationInput,
+  UpdateOrganizationInput,
+  ListOrganizationsQuery,
+} from '../validators/index.js';
+import { auditService, diffChanges, type AuditEntry } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export class OrganizationService {
+  /**
+   * Ensure an organization code is not already taken by another tenant
+   */
+  private async assertCodeAvailable(code: string, excludeOrganizationId?: string): Promise<void> {
+    const existing = await organizationRepository.findByCode(code);
+
+    if (existing && existing.id !== excludeOrganizationId) {
+      throw new ConflictError(`Organization code '${code}' is already in use`, { code });
+    }
+  }
+
+  private async getExisting(id: string): Promise<Organization> {
+    const organization = await organizationRepository.findById(id);
+
+    if (!organization) {
+      throw new NotFoundError('Organization', id);
+    }
+
+    return organization;
+  }
+
+  /**
+   * Record tenant changes in the affected organization's own audit log,
+   * so its admins can see who changed their settings or status
+   */
+  private async audit(
+    organizationId: string,
+    entry: Omit<AuditEntry, 'entityType' | 'entityId'>,
+    context: TenantContext
+  ): Promise<void> {
+    await auditService.record(
+      {
+        entityType: AuditEntityType.ORGANIZATION,
+        entityId: organizationId,
+        ...entry,
+      },
+      { ...context, organizationId }
+    );
+  }
+
+  /**
+   * Onboard a new tenant
+   */
+  async createOrganization(
+    input: CreateOrganizationInput,
+    context: TenantContext
+  ): Promise<Organization> {
+    await this.assertCodeAvailable(input.code);
+
+    const organization = await organizationRepository.create({
+      name: input.name,
+      code: input.code,
+      isActive: true,
+      settings: input.settings ?? DEFAULT_ORGANIZATION_SETTINGS,
+    });
+
+    await this.audit(
+      organization.id,
+      { action: AuditAction.CREATE, changes: diffChanges(null, organization) },
+      context
+    );
+
+    logger.info('Organization created', {
+      organizationId: organization.id,
+      code: organization.code,
+      createdBy: context.userId,
+    });
+
+    return organization;
+  }
+
+  async getOrganization(id: string): Promise<Organization> {
+    return await this.getExisting(id);
+  }
+
+  async listOrganizations(query: ListOrganizationsQuery): Promise<PaginatedResult<Organization>> {
+    const { limit, offset, ...filters } = query;
+
+    return await organizationRepository.search({
+      filters,
+      pagination: { limit, offset },
+    });
+  }
+
+  /**
+   * Update name, code or settings
+   */
+  async updateOrganization(
+    id: string,
+    input: UpdateOrganizationInput,
+    context: TenantContext
+  ): Promise<Organization> {
+    const before = await this.getExisting(id);
+
+    if (input.code && input.code !== before.code) {
+      await this.assertCodeAvailable(input.code, id);
+    }
+
+    const organization = await organizationRepository.update(id, input);
+
+    if (!organization) {
+      throw new NotFoundError('Organization', id);
+    }
+
+    if (input.settings) {
+      invalidateOrganizationSettings(id);
+    }
+
+    await this.audit(
+      id,
+      { action: AuditAction.UPDATE, changes: diffChanges(before, organization) },
+      context
+    );
+
+    logger.info('Organization updated', {
+      organizationId: id,
+      updatedBy: context.userId,
+    });
+
+    return organization;
+  }
+
+  /**
+   * Reactivate a tenant. Sessions revoked on deactivation stay revoked.
+   */
+  async activateOrganization(id: string, context: TenantContext): Promise<Organization> {
+    const before = await this.getExisting(id);
+
+    if (before.isActive) {
+      return before;
+    }
+
+    const organization = await organizationRepository.update(id, { isActive: true });
+
+    if (!organization) {
+      throw new NotFoundError('Organization', id);
+    }
+
+    invalidateOrganizationSettings(id);
+
+    await this.audit(
+      id,
+      { action: AuditAction.ACTIVATE, changes: diffChanges(before, organization) },
+      context
+    );
+
+    logger.info('Organization activated', {
+      organizationId: id,
+      activatedBy: context.userId,
+    });
+
+    return organization;
+  }
+
+  /**
+   * Deactivate a tenant. Logins are refused and every token issued so far
+   * is revoked, so active sessions end on their next request.
+   */
+  async deactivateOrganization(id: string, context: TenantContext): Promise<Organization> {
+    if (id === context.organizationId) {
+      throw new ValidationError('Cannot deactivate your own organization');
+    }
+
+    const before = await this.getExisting(id);
+
+    if (!before.isActive) {
+      return before;
+    }
+
+    const organization = await organizationRepository.update(id, {
+      isActive: false,
+      sessionsRevokedAt: new Date(),
+    });
+
+    if (!organization) {
+      throw new NotFoundError('Organization', id);
+    }
+
+    invalidateOrganizationSettings(id);
+
+    await this.audit(
+      id,
+      { action: AuditAction.DEACTIVATE, changes: diffChanges(before, organization) },
+      context
+    );
+
+    logger.info('Organization deactivated', {
+      organizationId: id,
+      deactivatedBy: context.userId,
+    });
+
+    return organization;
+  }
+}
+
+export const organizationService = new OrganizationService();
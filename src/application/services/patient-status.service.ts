@@ -5,15 +5,19 @@ import {
 } from '../../infrastructure/database/repositories/index.js';
 import { claimsQueue } from '../../infrastructure/queue/queue.js';
 import type { PatientStatusEvent } from '../../domain/entities/index.js';
-import type {
-  TenantContext,
-  PaginatedResult,
-  PatientAdmissionJobData,
-  PatientDischargeJobData,
-  TreatmentInitiatedJobData,
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+  type PaginatedResult,
+  type PaginationParams,
+  type PatientAdmissionJobData,
+  type PatientDischargeJobData,
+  type TreatmentInitiatedJobData,
 } from '../../shared/types/index.js';
 import { NotFoundError } from '../../domain/errors/index.js';
 import type { CreatePatientStatusInput } from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
 import { logger } from '../../shared/utils/logger.js';
 
 export class PatientStatusService {
@@ -61,6 +65,16 @@ export class PatientStatusService {
       context
     );
 
+    await auditService.record(
+      {
+        entityType: AuditEntityType.PATIENT_STATUS_EVENT,
+        entityId: statusEvent.id,
+        action: AuditAction.CREATE,
+        changes: diffChanges(null, statusEvent),
+      },
+      context
+    );
+
     // Queue background job based on status type
     try {
       await this.queueJob(statusEvent, context);
@@ -164,7 +178,7 @@ export class PatientStatusService {
   async getPatientHistory(
     patientId: string,
     context: TenantContext,
-    pagination?: { limit: number; offset: number }
+    pagination?: PaginationParams
   ): Promise<PaginatedResult<PatientStatusEvent>> {
     // Verify patient exists
     const patientExists = await patientRepository.exists(patientId, context);
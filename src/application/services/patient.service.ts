@@ -0,0 +1,185 @@
+import { patientRepository } from '../../infrastructure/database/repositories/index.js';
+import type { Patient } from '../../domain/entities/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+  type PaginatedResult,
+} from '../../shared/types/index.js';
+import { NotFoundError, ConflictError } from '../../domain/errors/index.js';
+import type {
+  CreatePatientInput,
+  UpdatePatientInput,
+  ListPatientsQuery,
+} from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export class PatientService {
+  /**
+   * Ensure a member ID is not already used by another patient in the org
+   */
+  private async assertMemberIdAvailable(
+    memberId: string,
+    context: TenantContext,
+    excludePatientId?: string
+  ): Promise<void> {
+    const existing = await patientRepository.findByMemberId(memberId, context);
+
+    if (existing && existing.id !== excludePatientId) {
+      throw new ConflictError(`Member ID '${memberId}' is already in use`, {
+        memberId,
+        patientId: existing.id,
+      });
+    }
+  }
+
+  /**
+   * Create a new patient
+   */
+  async createPatient(
+    input: CreatePatientInput,
+    context: TenantContext
+  ): Promise<Patient> {
+    await this.assertMemberIdAvailable(input.memberId, context);
+
+    const patient = await patientRepository.create(
+      {
+        ...input,
+        organizationId: context.organizationId,
+        isActive: true,
+      },
+      context
+    );
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.PATIENT,
+        entityId: patient.id,
+        action: AuditAction.CREATE,
+        changes: diffChanges(null, patient),
+      },
+      context
+    );
+
+    logger.info('Patient created', {
+      patientId: patient.id,
+      organizationId: context.organizationId,
+      createdBy: context.userId,
+    });
+
+    return patient;
+  }
+
+  /**
+   * Get a patient by ID (role filtered)
+   */
+  async getPatient(id: string, context: TenantContext): Promise<Patient> {
+    const patient = await patientRepository.findAccessibleById(id, context);
+
+    if (!patient) {
+      throw new NotFoundError('Patient', id);
+    }
+
+    return patient;
+  }
+
+  /**
+   * List patients with search and pagination (role filtered)
+   */
+  async listPatients(
+    query: ListPatientsQuery,
+    context: TenantContext
+  ): Promise<PaginatedResult<Patient>> {
+    const { limit, offset, ...filters } = query;
+
+    return await patientRepository.search(context, {
+      filters,
+      pagination: { limit, offset },
+    });
+  }
+
+  /**
+   * Update patient details
+   */
+  async updatePatient(
+    id: string,
+    input: UpdatePatientInput,
+    context: TenantContext
+  ): Promise<Patient> {
+    const before = await patientRepository.findById(id, context);
+
+    if (!before) {
+      throw new NotFoundError('Patient', id);
+    }
+
+    if (input.memberId && input.memberId !== before.memberId) {
+      await this.assertMemberIdAvailable(input.memberId, context, id);
+    }
+
+    const patient = await patientRepository.update(id, input, context);
+
+    if (!patient) {
+      throw new NotFoundError('Patient', id);
+    }
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.PATIENT,
+        entityId: id,
+        action: AuditAction.UPDATE,
+        changes: diffChanges(before, patient),
+      },
+      context
+    );
+
+    logger.info('Patient updated', {
+      patientId: id,
+      organizationId: context.organizationId,
+      updatedBy: context.userId,
+    });
+
+    return patient;
+  }
+
+  /**
+   * Deactivate a patient (soft delete - claims keep referencing the record)
+   */
+  async deactivatePatient(id: string, context: TenantContext): Promise<Patient> {
+    const before = await patientRepository.findById(id, context);
+
+    if (!before) {
+      throw new NotFoundError('Patient', id);
+    }
+
+    if (!before.isActive) {
+      return before;
+    }
+
+    const patient = await patientRepository.update(id, { isActive: false }, context);
+
+    if (!patient) {
+      throw new NotFoundError('Patient', id);
+    }
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.PATIENT,
+        entityId: id,
+        action: AuditAction.DEACTIVATE,
+        changes: diffChanges(before, patient),
+      },
+      context
+    );
+
+    logger.info('Patient deactivated', {
+      patientId: id,
+      organizationId: context.organizationId,
+      deactivatedBy: context.userId,
+    });
+
+    return patient;
+  }
+}
+
+export const patientService = new PatientService();
@@ -0,0 +1,329 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  claimRepository,
+  paymentRepository,
+  providerRepository,
+  remittanceAdviceRepository,
+} from '../../infrastructure/database/repositories/index.js';
+import { claimsQueue } from '../../infrastructure/queue/queue.js';
+import {
+  PAYMENT_BATCH_CONSTRAINTS,
+  getCostSharingAdjustments,
+  getDefaultAdjustments,
+  isRemittanceBalanced,
+  type Claim,
+  type PaymentBatch,
+  type RemittanceAdvice,
+} from '../../domain/entities/index.js';
+import type { NewRemittance } from '../../domain/repositories/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+  type PaginatedResult,
+  type RemittanceAdviceJobData,
+} from '../../shared/types/index.js';
+import { NotFoundError, ValidationError } from '../../domain/errors/index.js';
+import type {
+  CreatePaymentBatchInput,
+  ListPaymentBatchesQuery,
+  PaymentClaimInput,
+} from '../validators/index.js';
+import { auditService, diffChanges, type AuditEntry } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export class PaymentService {
+  async listBatches(
+    query: ListPaymentBatchesQuery,
+    context: TenantContext
+  ): Promise<PaginatedResult<PaymentBatch>> {
+    const { limit, offset, ...filters } = query;
+
+    return await paymentRepository.search(context, {
+      filters,
+      pagination: { limit, offset },
+    });
+  }
+
+  /**
+   * Get a batch with its remittances
+   */
+  async getBatch(id: string, context: TenantContext): Promise<PaymentBatch> {
+    const batch = await paymentRepository.findById(id, context);
+
+    if (!batch) {
+      throw new NotFoundError('Payment batch', id);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Pay approved claims of one provider with a single check or EFT.
+   * The claims move to paid in the same transaction as the batch is written.
+   */
+  async createBatch(
+    input: CreatePaymentBatchInput,
+    context: TenantContext
+  ): Promise<PaymentBatch> {
+    const provider = await providerRepository.findById(input.providerId, context);
+    if (!provider) {
+      throw new NotFoundError('Provider', input.providerId);
+    }
+
+    const items = input.claims ?? (await this.findPayableClaims(input.providerId, context));
+    const claims = await claimRepository.findByIds(
+      items.map((item) => item.claimId),
+      context
+    );
+    const claimsById = new Map(claims.map((claim) => [claim.id, claim]));
+
+    const remittances = items.map((item) => {
+      const claim = claimsById.get(item.claimId);
+      if (!claim) {
+        throw new NotFoundError('Claim', item.claimId);
+      }
+      return this.buildRemittance(claim, item, input.providerId);
+    });
+
+    const batch = await paymentRepository.createBatch(
+      {
+        providerId: input.providerId,
+        method: input.method,
+        reference: input.reference,
+        paidAt: input.paidAt ?? new Date(),
+        remittances,
+      },
+      context
+    );
+
+    await auditService.recordMany(
+      [
+        {
+          entityType: AuditEntityType.PAYMENT_BATCH,
+          entityId: batch.id,
+          action: AuditAction.CREATE,
+          changes: diffChanges(null, this.summarize(batch)),
+        },
+        ...this.claimStatusEntries(remittances, 'approved', 'paid'),
+      ],
+      context
+    );
+
+    logger.info('Payment batch issued', {
+      batchId: batch.id,
+      batchNumber: batch.batchNumber,
+      providerId: batch.providerId,
+      claimCount: batch.claimCount,
+      totalPaid: batch.totalPaid,
+      organizationId: context.organizationId,
+      issuedBy: context.userId,
+    });
+
+    // Best-effort: the payment stands; an admin can request the 835 again
+    try {
+      await this.queueRemittanceAdvice(batch.id, context);
+    } catch (error) {
+      logger.error('Failed to queue remittance advice', {
+        batchId: batch.id,
+        organizationId: context.organizationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return batch;
+  }
+
+  /**
+   * Reverse a batch: its remittances are voided and its claims go back to
+   * approved, ready to be paid again
+   */
+  async voidBatch(id: string, reason: string, context: TenantContext): Promise<PaymentBatch> {
+    const before = await paymentRepository.findById(id, context);
+    if (!before) {
+      throw new NotFoundError('Payment batch', id);
+    }
+
+    const batch = await paymentRepository.voidBatch(id, reason, context);
+    if (!batch) {
+      throw new NotFoundError('Payment batch', id);
+    }
+
+    await auditService.recordMany(
+      [
+        {
+          entityType: AuditEntityType.PAYMENT_BATCH,
+          entityId: batch.id,
+          action: AuditAction.VOID,
+          changes: diffChanges(this.summarize(before), this.summarize(batch)),
+        },
+        ...this.claimStatusEntries(batch.remittances ?? [], 'paid', 'approved'),
+      ],
+      context
+    );
+
+    logger.info('Payment batch voided', {
+      batchId: batch.id,
+      batchNumber: batch.batchNumber,
+      organizationId: context.organizationId,
+      voidedBy: context.userId,
+      reason,
+    });
+
+    return batch;
+  }
+
+  /**
+   * The latest X12 835 generated for a batch
+   */
+  async getRemittanceAdvice(
+    batchId: string,
+    context: TenantContext
+  ): Promise<{ batch: PaymentBatch; advice: RemittanceAdvice }> {
+    const batch = await this.getBatch(batchId, context);
+    const advice = await remittanceAdviceRepository.findLatestByBatch(batchId, context);
+
+    if (!advice) {
+      throw new NotFoundError('Remittance advice', batchId);
+    }
+
+    return { batch, advice };
+  }
+
+  /**
+   * Queue (re)generation of a batch's 835, e.g. after the payer profile
+   * was corrected
+   */
+  async requestRemittanceAdvice(
+    batchId: string,
+    context: TenantContext
+  ): Promise<{ jobId: string }> {
+    const batch = await this.getBatch(batchId, context);
+
+    if (batch.status === 'voided') {
+      throw new ValidationError('A voided batch has no remittance advice', { batchId });
+    }
+
+    return await this.queueRemittanceAdvice(batchId, context);
+  }
+
+  private async queueRemittanceAdvice(
+    batchId: string,
+    context: TenantContext
+  ): Promise<{ jobId: string }> {
+    const jobId = uuidv4();
+    const jobData: RemittanceAdviceJobData = {
+      type: 'remittance_advice',
+      jobId,
+      organizationId: context.organizationId,
+      batchId,
+      triggeredBy: context.userId,
+      triggeredAt: new Date().toISOString(),
+      idempotencyKey: `job-remittance-advice-${jobId}`,
+    };
+
+    await claimsQueue.add('remittance_advice', jobData, { jobId });
+
+    logger.info('Remittance advice queued', {
+      jobId,
+      batchId,
+      organizationId: context.organizationId,
+      triggeredBy: context.userId,
+    });
+
+    return { jobId };
+  }
+
+  /**
+   * Every approved claim of the provider, paid in full, oldest service first
+   */
+  private async findPayableClaims(
+    providerId: string,
+    context: TenantContext
+  ): Promise<PaymentClaimInput[]> {
+    const { data } = await claimRepository.findMany(context, {
+      filters: { status: 'approved', providerId },
+      sort: { field: 'serviceDate', order: 'asc' },
+      pagination: { limit: PAYMENT_BATCH_CONSTRAINTS.MAX_CLAIMS, offset: 0 },
+    });
+
+    if (data.length === 0) {
+      throw new ValidationError('The provider has no approved claims to pay', { providerId });
+    }
+
+    return data.map((claim) => ({ claimId: claim.id }));
+  }
+
+  private buildRemittance(
+    claim: Claim,
+    item: PaymentClaimInput,
+    providerId: string
+  ): NewRemittance {
+    if (claim.status !== 'approved' || claim.providerId !== providerId) {
+      throw new ValidationError('Only approved claims of the payee provider can be paid', {
+        claimIds: [claim.id],
+      });
+    }
+
+    // Unless the payer overrides the amounts, the claim is paid as its cost
+    // sharing says
+    const costSharing =
+      item.allowedAmount === undefined &&
+      item.paidAmount === undefined &&
+      claim.allowedAmount !== undefined &&
+      claim.planPaidAmount !== undefined &&
+      claim.patientResponsibility
+        ? {
+            allowedAmount: claim.allowedAmount,
+            planPaidAmount: claim.planPaidAmount,
+            patientResponsibility: claim.patientResponsibility,
+          }
+        : undefined;
+
+    const billedAmount = claim.amount;
+    const allowedAmount = costSharing?.allowedAmount ?? item.allowedAmount ?? billedAmount;
+    const paidAmount = costSharing?.planPaidAmount ?? item.paidAmount ?? allowedAmount;
+    const adjustments =
+      item.adjustments ??
+      (costSharing
+        ? getCostSharingAdjustments(billedAmount, costSharing)
+        : getDefaultAdjustments(billedAmount, allowedAmount, paidAmount));
+
+    if (!isRemittanceBalanced(billedAmount, allowedAmount, paidAmount, adjustments)) {
+      throw new ValidationError(
+        'Remittance does not balance: paid must not exceed allowed, allowed must not exceed billed, adjustments must total billed - paid and PR adjustments allowed - paid',
+        { claimId: claim.id, billedAmount, allowedAmount, paidAmount }
+      );
+    }
+
+    return {
+      claimId: claim.id,
+      billedAmount,
+      allowedAmount,
+      paidAmount,
+      patientResponsibility: Math.round((allowedAmount - paidAmount) * 100) / 100,
+      adjustments,
+    };
+  }
+
+  // Batch fields worth auditing; remittances are audited as claim status changes
+  private summarize(batch: PaymentBatch): Omit<PaymentBatch, 'remittances'> {
+    const { remittances: _, ...summary } = batch;
+    return summary;
+  }
+
+  private claimStatusEntries(
+    remittances: { claimId: string }[],
+    fromStatus: 'approved' | 'paid',
+    toStatus: 'approved' | 'paid'
+  ): AuditEntry[] {
+    return remittances.map((remittance) => ({
+      entityType: AuditEntityType.CLAIM,
+      entityId: remittance.claimId,
+      action: AuditAction.STATUS_CHANGE,
+      changes: diffChanges({ status: fromStatus }, { status: toStatus }),
+    }));
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -0,0 +1,132 @@
+import { planRepository } from '../../infrastructure/database/repositories/index.js';
+import type { Plan } from '../../domain/entities/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+  type PaginatedResult,
+} from '../../shared/types/index.js';
+import { NotFoundError, ValidationError } from '../../domain/errors/index.js';
+import type {
+  CreatePlanInput,
+  UpdatePlanInput,
+  ListPlansQuery,
+} from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export class PlanService {
+  async listPlans(
+    query: ListPlansQuery,
+    context: TenantContext
+  ): Promise<PaginatedResult<Plan>> {
+    const { limit, offset, ...filters } = query;
+
+    return await planRepository.search(context, {
+      filters,
+      pagination: { limit, offset },
+    });
+  }
+
+  async getPlan(id: string, context: TenantContext): Promise<Plan> {
+    const plan = await planRepository.findById(id, context);
+    if (!plan) {
+      throw new NotFoundError('Plan', id);
+    }
+    return plan;
+  }
+
+  async createPlan(input: CreatePlanInput, context: TenantContext): Promise<Plan> {
+    this.assertCostSharing(input);
+
+    const plan = await planRepository.create(
+      {
+        organizationId: context.organizationId,
+        code: input.code,
+        name: input.name,
+        annualBenefitMax: input.annualBenefitMax,
+        planYearStartMonth: input.planYearStartMonth,
+        deductible: input.deductible,
+        coinsurancePercent: input.coinsurancePercent,
+        outOfPocketMax: input.outOfPocketMax,
+        copays: input.copays,
+        isActive: true,
+      },
+      context
+    );
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.PLAN,
+        entityId: plan.id,
+        action: AuditAction.CREATE,
+        changes: diffChanges(null, plan),
+      },
+      context
+    );
+
+    logger.info('Plan created', {
+      planId: plan.id,
+      code: plan.code,
+      organizationId: context.organizationId,
+      createdBy: context.userId,
+    });
+
+    return plan;
+  }
+
+  /**
+   * Change a plan or retire it. A retired plan takes no new coverages;
+   * coverages already on it stay in force. Cost sharing changes apply to
+   * claims approved from now on.
+   */
+  async updatePlan(
+    id: string,
+    input: UpdatePlanInput,
+    context: TenantContext
+  ): Promise<Plan> {
+    const before = await this.getPlan(id, context);
+
+    this.assertCostSharing({
+      deductible: input.deductible === undefined ? before.deductible : input.deductible,
+      outOfPocketMax:
+        input.outOfPocketMax === undefined ? before.outOfPocketMax : input.outOfPocketMax,
+    });
+
+    const plan = await planRepository.update(id, input, context);
+    if (!plan) {
+      throw new NotFoundError('Plan', id);
+    }
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.PLAN,
+        entityId: plan.id,
+        action: AuditAction.UPDATE,
+        changes: diffChanges(before, plan),
+      },
+      context
+    );
+
+    logger.info('Plan updated', {
+      planId: plan.id,
+      organizationId: context.organizationId,
+      updatedBy: context.userId,
+    });
+
+    return plan;
+  }
+
+  private assertCostSharing(plan: {
+    deductible?: number | null;
+    outOfPocketMax?: number | null;
+  }): void {
+    if (plan.deductible && plan.outOfPocketMax && plan.deductible > plan.outOfPocketMax) {
+      throw new ValidationError('The deductible cannot exceed the out-of-pocket maximum', {
+        field: 'deductible',
+      });
+    }
+  }
+}
+
+export const planService = new PlanService();
@@ -0,0 +1,219 @@
+import { providerRepository } from '../../infrastructure/database/repositories/index.js';
+import type { Provider } from '../../domain/entities/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+  type PaginatedResult,
+} from '../../shared/types/index.js';
+import { NotFoundError, ForbiddenError, DuplicateNpiError } from '../../domain/errors/index.js';
+import type {
+  CreateProviderInput,
+  UpdateProviderInput,
+  ListProvidersQuery,
+} from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+// Fields a provider user may change on their own directory entry
+const PROVIDER_SELF_SERVICE_FIELDS: ReadonlyArray<keyof UpdateProviderInput> = [
+  'contactEmail',
+  'contactPhone',
+  'address',
+];
+
+export class ProviderService {
+  /**
+   * Ensure an NPI is not already registered to another provider in the org.
+   * The unique index is the final guard; this gives a clean error in the common case.
+   */
+  private async assertNpiAvailable(
+    npi: string,
+    context: TenantContext,
+    excludeProviderId?: string
+  ): Promise<void> {
+    const existing = await providerRepository.findByNpi(npi, context);
+
+    if (existing && existing.id !== excludeProviderId) {
+      throw new DuplicateNpiError(npi);
+    }
+  }
+
+  /**
+   * Providers may only edit their own contact details and address
+   */
+  private assertProviderSelfUpdate(
+    id: string,
+    input: UpdateProviderInput,
+    context: TenantContext
+  ): void {
+    if (context.role !== 'provider') {
+      return;
+    }
+
+    if (id !== context.providerId) {
+      throw new ForbiddenError('Providers can only update their own record');
+    }
+
+    const disallowed = Object.keys(input).filter(
+      (field) => !PROVIDER_SELF_SERVICE_FIELDS.includes(field as keyof UpdateProviderInput)
+    );
+
+    if (disallowed.length > 0) {
+      throw new ForbiddenError(
+        `Providers cannot update: ${disallowed.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Create a new provider
+   */
+  async createProvider(
+    input: CreateProviderInput,
+    context: TenantContext
+  ): Promise<Provider> {
+    await this.assertNpiAvailable(input.npi, context);
+
+    const provider = await providerRepository.create(
+      {
+        ...input,
+        organizationId: context.organizationId,
+        isActive: true,
+      },
+      context
+    );
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.PROVIDER,
+        entityId: provider.id,
+        action: AuditAction.CREATE,
+        changes: diffChanges(null, provider),
+      },
+      context
+    );
+
+    logger.info('Provider created', {
+      providerId: provider.id,
+      organizationId: context.organizationId,
+      createdBy: context.userId,
+    });
+
+    return provider;
+  }
+
+  /**
+   * Get a provider by ID (role filtered)
+   */
+  async getProvider(id: string, context: TenantContext): Promise<Provider> {
+    const provider = await providerRepository.findAccessibleById(id, context);
+
+    if (!provider) {
+      throw new NotFoundError('Provider', id);
+    }
+
+    return provider;
+  }
+
+  /**
+   * List providers with specialty filter and pagination (role filtered)
+   */
+  async listProviders(
+    query: ListProvidersQuery,
+    context: TenantContext
+  ): Promise<PaginatedResult<Provider>> {
+    const { limit, offset, ...filters } = query;
+
+    return await providerRepository.search(context, {
+      filters,
+      pagination: { limit, offset },
+    });
+  }
+
+  /**
+   * Update provider details
+   */
+  async updateProvider(
+    id: string,
+    input: UpdateProviderInput,
+    context: TenantContext
+  ): Promise<Provider> {
+    this.assertProviderSelfUpdate(id, input, context);
+
+    const before = await providerRepository.findAccessibleById(id, context);
+
+    if (!before) {
+      throw new NotFoundError('Provider', id);
+    }
+
+    if (input.npi && input.npi !== before.npi) {
+      await this.assertNpiAvailable(input.npi, context, id);
+    }
+
+    const provider = await providerRepository.update(id, input, context);
+
+    if (!provider) {
+      throw new NotFoundError('Provider', id);
+    }
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.PROVIDER,
+        entityId: id,
+        action: AuditAction.UPDATE,
+        changes: diffChanges(before, provider),
+      },
+      context
+    );
+
+    logger.info('Provider updated', {
+      providerId: id,
+      organizationId: context.organizationId,
+      updatedBy: context.userId,
+    });
+
+    return provider;
+  }
+
+  /**
+   * Deactivate a provider (soft delete - claims keep referencing the record)
+   */
+  async deactivateProvider(id: string, context: TenantContext): Promise<Provider> {
+    const before = await providerRepository.findById(id, context);
+
+    if (!before) {
+      throw new NotFoundError('Provider', id);
+    }
+
+    if (!before.isActive) {
+      return before;
+    }
+
+    const provider = await providerRepository.update(id, { isActive: false }, context);
+
+    if (!provider) {
+      throw new NotFoundError('Provider', id);
+    }
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.PROVIDER,
+        entityId: id,
+        action: AuditAction.DEACTIVATE,
+        changes: diffChanges(before, provider),
+      },
+      context
+    );
+
+    logger.info('Provider deactivated', {
+      providerId: id,
+      organizationId: context.organizationId,
+      deactivatedBy: context.userId,
+    });
+
+    return provider;
+  }
+}
+
+export const providerService = new ProviderService();
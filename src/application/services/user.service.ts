@@ -0,0 +1,301 @@
+import { randomBytes } from 'node:crypto';
+import {
+  userRepository,
+  providerRepository,
+  patientRepository,
+} from '../../infrastructure/database/repositories/index.js';
+import { authService } from '../../infrastructure/auth/auth.service.js';
+import type { User, SafeUser } from '../../domain/entities/index.js';
+import {
+  AuditAction,
+  AuditEntityType,
+  type TenantContext,
+  type PaginatedResult,
+  type UserRole,
+} from '../../shared/types/index.js';
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+} from '../../domain/errors/index.js';
+import type {
+  CreateUserInput,
+  UpdateUserInput,
+  ListUsersQuery,
+} from '../validators/index.js';
+import { auditService, diffChanges } from './audit.service.js';
+import { logger } from '../../shared/utils/logger.js';
+
+interface RoleLinks {
+  providerId?: string;
+  patientId?: string;
+}
+
+function toSafeUser(user: User): SafeUser {
+  const { passwordHash: _, ...safeUser } = user;
+  return safeUser;
+}
+
+/**
+ * Temporary password for invited users: satisfies the password policy
+ * (upper, lower, digit) and is shown to the admin exactly once
+ */
+function generateTemporaryPassword(): string {
+  return `Tmp-${randomBytes(12).toString('base64url')}a1A`;
+}
+
+export class UserService {
+  private async getExisting(id: string, context: TenantContext): Promise<User> {
+    const user = await userRepository.findByIdWithinOrganization(id, context.organizationId);
+
+    if (!user) {
+      throw new NotFoundError('User', id);
+    }
+
+    return user;
+  }
+
+  /**
+   * Providers must be linked to a provider record and patients to a patient
+   * record in the same organization; other roles carry no links.
+   */
+  private async resolveRoleLinks(
+    role: UserRole,
+    links: RoleLinks,
+    context: TenantContext
+  ): Promise<RoleLinks> {
+    if (role === 'provider') {
+      if (!links.providerId) {
+        throw new ValidationError('Provider users must be linked to a provider', {
+          field: 'providerId',
+        });
+      }
+      if (!(await providerRepository.exists(links.providerId, context))) {
+        throw new NotFoundError('Provider', links.providerId);
+      }
+      return { providerId: links.providerId, patientId: undefined };
+    }
+
+    if (role === 'patient') {
+      if (!links.patientId) {
+        // Self-registered patients are linked later, so allow an unlinked patient
+        return { providerId: undefined, patientId: undefined };
+      }
+      if (!(await patientRepository.exists(links.patientId, context))) {
+        throw new NotFoundError('Patient', links.patientId);
+      }
+      return { providerId: undefined, patientId: links.patientId };
+    }
+
+    return { providerId: undefined, patientId: undefined };
+  }
+
+  /**
+   * Reject links and skills that make no sense for the requested role
+   */
+  private assertLinksMatchRole(
+    role: UserRole,
+    input: { providerId?: string | null; patientId?: string | null; skills?: unknown }
+  ): void {
+    if (input.skills && role !== 'claims_processor') {
+      throw new ValidationError(`A ${role} user cannot have routing skills`, {
+        field: 'skills',
+      });
+    }
+    if (input.providerId && role !== 'provider') {
+      throw new ValidationError(`A ${role} user cannot be linked to a provider`, {
+        field: 'providerId',
+      });
+    }
+    if (input.patientId && role !== 'patient') {
+      throw new ValidationError(`A ${role} user cannot be linked to a patient`, {
+        field: 'patientId',
+      });
+    }
+  }
+
+  /**
+   * Create or invite a user in the admin's organization
+   */
+  async createUser(
+    input: CreateUserInput,
+    context: TenantContext
+  ): Promise<{ user: SafeUser; temporaryPassword?: string }> {
+    this.assertLinksMatchRole(input.role, input);
+
+    const existing = await userRepository.findByEmail(input.email);
+    if (existing) {
+      throw new ConflictError('Email already registered', { email: input.email });
+    }
+
+    const links = await this.resolveRoleLinks(input.role, input, context);
+    const temporaryPassword = input.password ? undefined : generateTemporaryPassword();
+    const passwordHash = await authService.hashPassword(input.password ?? temporaryPassword!);
+
+    const user = toSafeUser(
+      await userRepository.create({
+        organizationId: context.organizationId,
+        email: input.email,
+        passwordHash,
+        firstName: input.firstName,
+        lastName: input.lastName,
+        role: input.role,
+        isActive: true,
+        assignedClaimIds: [],
+        skills: input.role === 'claims_processor' ? input.skills : undefined,
+        ...links,
+      })
+    );
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.USER,
+        entityId: user.id,
+        action: AuditAction.CREATE,
+        changes: diffChanges(null, user),
+      },
+      context
+    );
+
+    logger.info('User created', {
+      userId: user.id,
+      organizationId: context.organizationId,
+      role: user.role,
+      invited: temporaryPassword !== undefined,
+      createdBy: context.userId,
+    });
+
+    return { user, temporaryPassword };
+  }
+
+  async getUser(id: string, context: TenantContext): Promise<SafeUser> {
+    return toSafeUser(await this.getExisting(id, context));
+  }
+
+  async listUsers(
+    query: ListUsersQuery,
+    context: TenantContext
+  ): Promise<PaginatedResult<SafeUser>> {
+    const { limit, offset, ...filters } = query;
+
+    const result = await userRepository.findManyWithinOrganization(context.organizationId, {
+      filters,
+      pagination: { limit, offset },
+    });
+
+    return { ...result, data: result.data.map(toSafeUser) };
+  }
+
+  /**
+   * Update name, role, provider/patient links or processor skills
+   */
+  async updateUser(
+    id: string,
+    input: UpdateUserInput,
+    context: TenantContext
+  ): Promise<SafeUser> {
+    const before = toSafeUser(await this.getExisting(id, context));
+    const role = input.role ?? before.role;
+    const roleChanged = role !== before.role;
+
+    if (roleChanged && id === context.userId) {
+      throw new ValidationError('You cannot change your own role');
+    }
+
+    this.assertLinksMatchRole(role, input);
+
+    // Explicit values (including null) win; otherwise keep the current link
+    const links = await this.resolveRoleLinks(
+      role,
+      {
+        providerId:
+          input.providerId !== undefined ? input.providerId ?? undefined : before.providerId,
+        patientId:
+          input.patientId !== undefined ? input.patientId ?? undefined : before.patientId,
+      },
+      context
+    );
+
+    const updated = await userRepository.update(id, {
+      ...(input.firstName !== undefined && { firstName: input.firstName }),
+      ...(input.lastName !== undefined && { lastName: input.lastName }),
+      role,
+      ...links,
+      // Skills only apply to processors and are dropped on a role change
+      skills:
+        role !== 'claims_processor'
+          ? undefined
+          : input.skills !== undefined
+            ? input.skills ?? undefined
+            : before.skills,
+    });
+
+    if (!updated) {
+      throw new NotFoundError('User', id);
+    }
+
+    const user = toSafeUser(updated);
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.USER,
+        entityId: id,
+        action: roleChanged ? AuditAction.ROLE_CHANGE : AuditAction.UPDATE,
+        changes: diffChanges(before, user),
+      },
+      context
+    );
+
+    logger.info(roleChanged ? 'User role changed' : 'User updated', {
+      userId: id,
+      organizationId: context.organizationId,
+      ...(roleChanged && { fromRole: before.role, toRole: role }),
+      updatedBy: context.userId,
+    });
+
+    return user;
+  }
+
+  /**
+   * Deactivate an account. Its tokens stop working on the next request.
+   */
+  async deactivateUser(id: string, context: TenantContext): Promise<SafeUser> {
+    if (id === context.userId) {
+      throw new ValidationError('You cannot deactivate your own account');
+    }
+
+    const before = toSafeUser(await this.getExisting(id, context));
+
+    if (!before.isActive) {
+      return before;
+    }
+
+    const updated = await userRepository.update(id, { isActive: false });
+
+    if (!updated) {
+      throw new NotFoundError('User', id);
+    }
+
+    const user = toSafeUser(updated);
+
+    await auditService.record(
+      {
+        entityType: AuditEntityType.USER,
+        entityId: id,
+        action: AuditAction.DEACTIVATE,
+        changes: diffChanges(before, user),
+      },
+      context
+    );
+
+    logger.info('User deactivated', {
+      userId: id,
+      organizationId: context.organizationId,
+      deactivatedBy: context.userId,
+    });
+
+    return user;
+  }
+}
+
+export const userService = new UserService();
@@ -1,11 +1,43 @@
 import { z } from 'zod';
-import { VALID_DIAGNOSIS_CODES, CLAIM_AMOUNT_CONSTRAINTS } from '../../domain/entities/index.js';
-import { ClaimStatus, PatientStatusType } from '../../shared/types/index.js';
+import {
+  ADJUDICATION_FIELD_TYPES,
+  ADJUDICATION_OPERATORS,
+  APPEAL_CONSTRAINTS,
+  DIAGNOSIS_CODE_PATTERN,
+  formatDiagnosisCode,
+  CLAIM_AMOUNT_CONSTRAINTS,
+  CLAIM_LINE_CONSTRAINTS,
+  PAYMENT_BATCH_CONSTRAINTS,
+  isValidNpi,
+  type AdjudicationCondition,
+  type AdjudicationField,
+} from '../../domain/entities/index.js';
+import {
+  AdjudicationAction,
+  AdjustmentGroupCode,
+  AppealStatus,
+  AuditEntityType,
+  ClaimFlag,
+  ClaimRoutingStrategy,
+  ClaimExportFormat,
+  ClaimStatus,
+  ClaimSubmissionStatus,
+  CodePairingEffect,
+  EligibilityEnforcement,
+  PaginationCount,
+  PatientStatusType,
+  PaymentBatchStatus,
+  PaymentMethod,
+  ServiceCategory,
+} from '../../shared/types/index.js';
 
 // Common validators
 const uuidSchema = z.string().uuid('Invalid UUID format');
 const dateSchema = z.coerce.date();
 
+// How a list reports its total (exact, estimated or none)
+const paginationCountSchema = z.nativeEnum(PaginationCount).default(PaginationCount.EXACT);
+
 // Pagination schema
 export const paginationSchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(20),
@@ -13,28 +45,86 @@ export const paginationSchema = z.object({
   cursor: z.string().optional(),
 });
 
+// Resource ID route param
+export const idParamSchema = z.object({
+  id: uuidSchema,
+});
+
 // Sorting schema
 export const sortOrderSchema = z.enum(['asc', 'desc']).default('desc');
 
 // ============ CLAIM SCHEMAS ============
 
-// Create claim request
-export const createClaimSchema = z.object({
-  patientId: uuidSchema,
-  providerId: uuidSchema,
-  diagnosisCode: z.string().refine(
-    (code) => VALID_DIAGNOSIS_CODES.includes(code as typeof VALID_DIAGNOSIS_CODES[number]),
-    { message: 'Invalid diagnosis code' }
-  ),
-  procedureCode: z.string().max(20).optional(),
-  amount: z
+// ICD-10-CM, dotted or not; whether the code is in force is checked against
+// the code set on the service date
+const diagnosisCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(DIAGNOSIS_CODE_PATTERN, 'Invalid diagnosis code')
+  .transform(formatDiagnosisCode);
+
+// CPT (e.g. 99213, 0001F) or HCPCS Level II (e.g. J1100)
+export const procedureCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^([0-9]{4}[0-9A-Z]|[A-Z][0-9]{4})$/, 'Invalid procedure code');
+
+// Service line of a new claim
+export const claimLineSchema = z.object({
+  procedureCode: procedureCodeSchema,
+  modifiers: z
+    .array(z.string().trim().toUpperCase().regex(/^[0-9A-Z]{2}$/, 'Modifiers are two characters'))
+    .max(CLAIM_LINE_CONSTRAINTS.MAX_MODIFIERS)
+    .default([]),
+  units: z.number().int().min(1).max(CLAIM_LINE_CONSTRAINTS.MAX_UNITS),
+  unitCharge: z
     .number()
-    .min(CLAIM_AMOUNT_CONSTRAINTS.MIN, `Amount must be at least ${CLAIM_AMOUNT_CONSTRAINTS.MIN}`)
-    .max(CLAIM_AMOUNT_CONSTRAINTS.MAX, `Amount cannot exceed ${CLAIM_AMOUNT_CONSTRAINTS.MAX}`),
-  serviceDate: dateSchema,
-  notes: z.string().max(1000).optional(),
+    .min(CLAIM_AMOUNT_CONSTRAINTS.MIN, `Unit charge must be at least ${CLAIM_AMOUNT_CONSTRAINTS.MIN}`)
+    .max(CLAIM_AMOUNT_CONSTRAINTS.MAX, `Unit charge cannot exceed ${CLAIM_AMOUNT_CONSTRAINTS.MAX}`),
+  // Defaults to the claim's service date
+  serviceDate: dateSchema.optional(),
+  // 1-based positions in [diagnosisCode, ...additionalDiagnosisCodes]
+  diagnosisPointers: z
+    .array(z.number().int().min(1).max(CLAIM_LINE_CONSTRAINTS.MAX_DIAGNOSIS_CODES))
+    .min(1)
+    .max(CLAIM_LINE_CONSTRAINTS.MAX_DIAGNOSIS_POINTERS)
+    .refine((pointers) => new Set(pointers).size === pointers.length, {
+      message: 'Diagnosis pointers must be unique',
+    }),
 });
 
+export type ClaimLineInput = z.infer<typeof claimLineSchema>;
+
+// Create claim request. The claim amount is derived from the lines.
+export const createClaimSchema = z
+  .object({
+    patientId: uuidSchema,
+    providerId: uuidSchema,
+    diagnosisCode: diagnosisCodeSchema,
+    additionalDiagnosisCodes: z
+      .array(diagnosisCodeSchema)
+      .max(CLAIM_LINE_CONSTRAINTS.MAX_DIAGNOSIS_CODES - 1)
+      .default([]),
+    serviceDate: dateSchema,
+    lines: z.array(claimLineSchema).min(1).max(CLAIM_LINE_CONSTRAINTS.MAX_LINES),
+    notes: z.string().max(1000).optional(),
+  })
+  .superRefine((claim, ctx) => {
+    const diagnosisCount = 1 + claim.additionalDiagnosisCodes.length;
+
+    claim.lines.forEach((line, index) => {
+      if (line.diagnosisPointers.some((pointer) => pointer > diagnosisCount)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['lines', index, 'diagnosisPointers'],
+          message: `Diagnosis pointers must be between 1 and ${diagnosisCount}`,
+        });
+      }
+    });
+  });
+
 export type CreateClaimInput = z.infer<typeof createClaimSchema>;
 
 // List claims query parameters
@@ -43,6 +133,7 @@ export const listClaimsQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(20),
   offset: z.coerce.number().int().min(0).default(0),
   cursor: z.string().optional(),
+  count: paginationCountSchema,
   
   // Date range filter
   fromDate: z.coerce.date().optional(),
@@ -56,6 +147,7 @@ export const listClaimsQuerySchema = z.object({
         ClaimStatus.UNDER_REVIEW,
         ClaimStatus.APPROVED,
         ClaimStatus.REJECTED,
+        ClaimStatus.APPEALED,
         ClaimStatus.PAID,
       ]),
       z.array(
@@ -64,6 +156,7 @@ export const listClaimsQuerySchema = z.object({
           ClaimStatus.UNDER_REVIEW,
           ClaimStatus.APPROVED,
           ClaimStatus.REJECTED,
+          ClaimStatus.APPEALED,
           ClaimStatus.PAID,
         ])
       ),
@@ -74,9 +167,18 @@ export const listClaimsQuerySchema = z.object({
   patientId: uuidSchema.optional(),
   providerId: uuidSchema.optional(),
   
+  // Claims with a line billing this procedure
+  procedureCode: procedureCodeSchema.optional(),
+
+  // Claims flagged for review
+  flag: z.nativeEnum(ClaimFlag).optional(),
+
   // Amount range filter
   minAmount: z.coerce.number().min(0).optional(),
   maxAmount: z.coerce.number().max(CLAIM_AMOUNT_CONSTRAINTS.MAX).optional(),
+
+  // Claims whose fraud, waste and abuse risk score is at least this (0-1)
+  minRiskScore: z.coerce.number().min(0).max(1).optional(),
   
   // Sorting
   sortBy: z.enum(['createdAt', 'amount', 'status', 'serviceDate']).default('createdAt'),
@@ -85,6 +187,17 @@ export const listClaimsQuerySchema = z.object({
 
 export type ListClaimsQuery = z.infer<typeof listClaimsQuerySchema>;
 
+// Provider risk report
+export const claimRiskReportQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  fromDate: z.coerce.date().optional(),
+  toDate: z.coerce.date().optional(),
+  // Score from which a claim counts as high risk
+  highRiskScore: z.coerce.number().gt(0).max(1).optional(),
+});
+
+export type ClaimRiskReportQuery = z.infer<typeof claimRiskReportQuerySchema>;
+
 // Update claim status
 export const updateClaimStatusSchema = z.object({
   status: z.enum([
@@ -119,6 +232,237 @@ export const claimIdParamSchema = z.object({
   id: uuidSchema,
 });
 
+// Assign claim to a processor
+export const assignClaimSchema = z.object({
+  processorId: uuidSchema,
+});
+
+export type AssignClaimInput = z.infer<typeof assignClaimSchema>;
+
+// Claim line route params
+export const claimLineParamSchema = z.object({
+  id: uuidSchema,
+  lineId: uuidSchema,
+});
+
+// Bulk import: with dryRun only the error report is returned
+export const claimImportQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type ClaimImportQuery = z.infer<typeof claimImportQuerySchema>;
+
+export const claimImportParamSchema = z.object({
+  jobId: uuidSchema,
+});
+
+// Export: the list filters and sort over every matching claim. With
+// background the export runs as a job even when it is small enough to stream.
+export const claimExportQuerySchema = listClaimsQuerySchema
+  .omit({ limit: true, offset: true, cursor: true, count: true })
+  .extend({
+    format: z
+      .enum([ClaimExportFormat.CSV, ClaimExportFormat.NDJSON, ClaimExportFormat.PARQUET])
+      .default(ClaimExportFormat.CSV),
+    background: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+  });
+
+export type ClaimExportQuery = z.infer<typeof claimExportQuerySchema>;
+
+// Approve or reject a single claim line
+export const decideClaimLineSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+  reason: z.string().max(500).optional(),
+});
+
+export type DecideClaimLineInput = z.infer<typeof decideClaimLineSchema>;
+
+// ============ APPEAL SCHEMAS ============
+
+// An attachment arrives base64-encoded in the JSON body
+const appealAttachmentSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  contentType: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[\w.+-]+\/[\w.+-]+$/, 'Invalid content type'),
+  content: z
+    .string()
+    .regex(/^[A-Za-z0-9+/]*={0,2}$/, 'Attachment content must be base64')
+    .transform((value) => Buffer.from(value, 'base64'))
+    .refine((content) => content.length > 0, 'Attachment is empty')
+    .refine(
+      (content) => content.length <= APPEAL_CONSTRAINTS.MAX_ATTACHMENT_BYTES,
+      `Attachment cannot exceed ${APPEAL_CONSTRAINTS.MAX_ATTACHMENT_BYTES} bytes`
+    ),
+});
+
+export const createAppealSchema = z.object({
+  reason: z.string().trim().min(1).max(2000),
+  attachments: z
+    .array(appealAttachmentSchema)
+    .max(APPEAL_CONSTRAINTS.MAX_ATTACHMENTS)
+    .default([]),
+});
+
+export type CreateAppealInput = z.infer<typeof createAppealSchema>;
+
+// JSON body of the largest appeal: every attachment at its limit in base64,
+// with room for the reason and the file names
+export const APPEAL_BODY_MAX_BYTES =
+  APPEAL_CONSTRAINTS.MAX_ATTACHMENTS * Math.ceil(APPEAL_CONSTRAINTS.MAX_ATTACHMENT_BYTES / 3) * 4 +
+  64 * 1024;
+
+export const decideAppealSchema = z.object({
+  outcome: z.enum([AppealStatus.UPHELD, AppealStatus.OVERTURNED]),
+  reason: z.string().trim().min(1).max(500),
+});
+
+export type DecideAppealInput = z.infer<typeof decideAppealSchema>;
+
+export const appealParamSchema = z.object({
+  id: uuidSchema,
+  appealId: uuidSchema,
+});
+
+export const appealAttachmentParamSchema = appealParamSchema.extend({
+  attachmentId: uuidSchema,
+});
+
+// ============ PATIENT SCHEMAS ============
+
+// Address value object
+export const addressSchema = z
+  .object({
+    street: z.string().trim().min(1).max(255),
+    city: z.string().trim().min(1).max(100),
+    state: z.string().trim().min(2).max(100),
+    zipCode: z.string().trim().min(3).max(10),
+    country: z.string().trim().length(2, 'Country must be an ISO 3166-1 alpha-2 code').toUpperCase().default('US'),
+  })
+  .superRefine((address, ctx) => {
+    if (address.country !== 'US') {
+      return;
+    }
+    if (!/^[A-Z]{2}$/.test(address.state)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['state'],
+        message: 'US state must be a two-letter code',
+      });
+    }
+    if (!/^\d{5}(-\d{4})?$/.test(address.zipCode)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['zipCode'],
+        message: 'US ZIP code must be 5 digits or ZIP+4',
+      });
+    }
+  });
+
+// Insurance member ID, e.g. MEM-001-HF (stored uppercase)
+export const memberIdSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .pipe(
+    z
+      .string()
+      .min(3, 'Member ID must be at least 3 characters')
+      .max(50, 'Member ID cannot exceed 50 characters')
+      .regex(
+        /^[A-Z0-9]+(-[A-Z0-9]+)*$/,
+        'Member ID may only contain letters, digits and single dashes'
+      )
+  );
+
+// Create patient
+export const createPatientSchema = z.object({
+  firstName: z.string().trim().min(1).max(100),
+  lastName: z.string().trim().min(1).max(100),
+  dateOfBirth: dateSchema.refine((date) => date <= new Date(), {
+    message: 'Date of birth cannot be in the future',
+  }),
+  memberId: memberIdSchema,
+  contactEmail: z.string().email('Invalid email format').max(255).optional(),
+  contactPhone: z.string().max(20).optional(),
+  address: addressSchema.optional(),
+});
+
+export type CreatePatientInput = z.infer<typeof createPatientSchema>;
+
+// Update patient (all fields optional, at least one required)
+export const updatePatientSchema = createPatientSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdatePatientInput = z.infer<typeof updatePatientSchema>;
+
+// List patients query parameters
+export const listPatientsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  search: z.string().trim().min(1).max(100).optional(),
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type ListPatientsQuery = z.infer<typeof listPatientsQuerySchema>;
+
+// ============ PROVIDER SCHEMAS ============
+
+// National Provider Identifier (10 digits, Luhn check digit)
+export const npiSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{10}$/, 'NPI must be exactly 10 digits')
+  .refine(isValidNpi, { message: 'NPI check digit is invalid' });
+
+// Create provider
+export const createProviderSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  npi: npiSchema,
+  specialty: z.string().trim().min(1).max(100),
+  contactEmail: z.string().email('Invalid email format').max(255),
+  contactPhone: z.string().max(20).optional(),
+  address: addressSchema.optional(),
+});
+
+export type CreateProviderInput = z.infer<typeof createProviderSchema>;
+
+// Update provider (all fields optional, at least one required)
+export const updateProviderSchema = createProviderSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateProviderInput = z.infer<typeof updateProviderSchema>;
+
+// List providers query parameters
+export const listProvidersQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  specialty: z.string().trim().min(1).max(100).optional(),
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type ListProvidersQuery = z.infer<typeof listProvidersQuerySchema>;
+
 // ============ PATIENT STATUS SCHEMAS ============
 
 // Create patient status event
@@ -148,8 +492,10 @@ export type CreatePatientStatusInput = z.infer<typeof createPatientStatusSchema>
 
 // Get patient status history
 export const patientStatusHistoryQuerySchema = z.object({
-  limit: z.coerce.number().int().min(1).max(100).default(50),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
   offset: z.coerce.number().int().min(0).default(0),
+  cursor: z.string().optional(),
+  count: paginationCountSchema,
 });
 
 export type PatientStatusHistoryQuery = z.infer<typeof patientStatusHistoryQuerySchema>;
@@ -159,6 +505,123 @@ export const patientIdParamSchema = z.object({
   patientId: uuidSchema,
 });
 
+// ============ AUDIT SCHEMAS ============
+
+// List audit log query parameters
+export const listAuditLogsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  entityType: z.nativeEnum(AuditEntityType).optional(),
+  entityId: uuidSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type ListAuditLogsQuery = z.infer<typeof listAuditLogsQuerySchema>;
+
+// ============ ORGANIZATION SCHEMAS ============
+
+// Organization code used at registration, e.g. HEALTH1 (stored uppercase)
+export const organizationCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .pipe(
+    z
+      .string()
+      .min(2, 'Organization code must be at least 2 characters')
+      .max(50, 'Organization code cannot exceed 50 characters')
+      .regex(/^[A-Z0-9_-]+$/, 'Organization code may only contain letters, digits, _ and -')
+  );
+
+// Payer identity on X12 835s; an EIN may be given as 12-3456789
+export const payerProfileSchema = z
+  .object({
+    taxId: z
+      .string()
+      .trim()
+      .transform((value) => value.replace(/-/g, ''))
+      .pipe(z.string().regex(/^\d{9}$/, 'Tax ID must be a 9-digit EIN')),
+    address: addressSchema,
+    contactPhone: z
+      .string()
+      .trim()
+      .max(20)
+      .refine((value) => value.replace(/\D/g, '').length >= 10, 'Phone number must have at least 10 digits'),
+  })
+  .strict();
+
+// Mirrors OrganizationSettings; limits may only narrow the platform claim bounds
+export const organizationSettingsSchema = z
+  .object({
+    maxClaimAmount: z
+      .number()
+      .positive()
+      .max(CLAIM_AMOUNT_CONSTRAINTS.MAX, `Cannot exceed ${CLAIM_AMOUNT_CONSTRAINTS.MAX}`),
+    minClaimAmount: z
+      .number()
+      .min(CLAIM_AMOUNT_CONSTRAINTS.MIN, `Must be at least ${CLAIM_AMOUNT_CONSTRAINTS.MIN}`),
+    autoApproveThreshold: z.number().positive().optional(),
+    requiresManualReview: z.boolean(),
+    allowSelfRegistration: z.boolean().optional(),
+    routingStrategy: z.nativeEnum(ClaimRoutingStrategy).optional(),
+    payerProfile: payerProfileSchema.optional(),
+    appealDeadlineDays: z.number().int().min(1).max(APPEAL_CONSTRAINTS.MAX_DEADLINE_DAYS).optional(),
+    eligibilityEnforcement: z.nativeEnum(EligibilityEnforcement).optional(),
+    excessiveChargeMultiple: z.number().min(1).max(100).optional(),
+    duplicateScoreThreshold: z.number().gt(0).max(1).optional(),
+  })
+  .strict()
+  .superRefine((settings, ctx) => {
+    if (settings.minClaimAmount > settings.maxClaimAmount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['minClaimAmount'],
+        message: 'minClaimAmount cannot exceed maxClaimAmount',
+      });
+    }
+    if (
+      settings.autoApproveThreshold !== undefined &&
+      settings.autoApproveThreshold > settings.maxClaimAmount
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['autoApproveThreshold'],
+        message: 'autoApproveThreshold cannot exceed maxClaimAmount',
+      });
+    }
+  });
+
+// Create organization (tenant onboarding)
+export const createOrganizationSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  code: organizationCodeSchema,
+  settings: organizationSettingsSchema.optional(),
+});
+
+export type CreateOrganizationInput = z.infer<typeof createOrganizationSchema>;
+
+// Update organization (settings are replaced as a whole)
+export const updateOrganizationSchema = createOrganizationSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateOrganizationInput = z.infer<typeof updateOrganizationSchema>;
+
+// List organizations query parameters
+export const listOrganizationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type ListOrganizationsQuery = z.infer<typeof listOrganizationsQuerySchema>;
+
 // ============ AUTH SCHEMAS ============
 
 export const loginSchema = z.object({
@@ -168,23 +631,495 @@ export const loginSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginSchema>;
 
+const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .regex(
+    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+    'Password must contain at least one uppercase letter, one lowercase letter, and one number'
+  );
+
+// Self-registration is for patients only; staff accounts are created via /api/users
 export const registerSchema = z.object({
   email: z.string().email('Invalid email format'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
-      'Password must contain at least one uppercase letter, one lowercase letter, and one number'
-    ),
+  password: passwordSchema,
   firstName: z.string().min(1).max(100),
   lastName: z.string().min(1).max(100),
   organizationCode: z.string().min(1).max(50),
-  role: z.enum(['admin', 'claims_processor', 'provider', 'patient']).optional(),
+  role: z.literal('patient').optional(),
 });
 
 export type RegisterInput = z.infer<typeof registerSchema>;
 
+// ============ USER SCHEMAS ============
+
+// Roles an organization admin may grant (super_admin is platform-only)
+export const assignableRoleSchema = z.enum(['admin', 'claims_processor', 'provider', 'patient']);
+
+// Claims processor skills for skill-based routing
+export const processorSkillsSchema = z
+  .object({
+    specialties: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+    diagnosisCodePrefixes: z
+      .array(
+        z
+          .string()
+          .trim()
+          .toUpperCase()
+          .regex(/^[A-Z][0-9A-Z.]{0,7}$/, 'Invalid diagnosis code prefix')
+      )
+      .max(50)
+      .optional(),
+  })
+  .strict();
+
+// Create or invite a user. Without a password a temporary one is generated.
+export const createUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email format'),
+  password: passwordSchema.optional(),
+  firstName: z.string().trim().min(1).max(100),
+  lastName: z.string().trim().min(1).max(100),
+  role: assignableRoleSchema,
+  providerId: uuidSchema.optional(),
+  patientId: uuidSchema.optional(),
+  skills: processorSkillsSchema.optional(),
+});
+
+export type CreateUserInput = z.infer<typeof createUserSchema>;
+
+// Update a user; pass null to unlink a provider or patient
+export const updateUserSchema = z
+  .object({
+    firstName: z.string().trim().min(1).max(100),
+    lastName: z.string().trim().min(1).max(100),
+    role: assignableRoleSchema,
+    providerId: uuidSchema.nullable(),
+    patientId: uuidSchema.nullable(),
+    skills: processorSkillsSchema.nullable(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+
+// List users query parameters
+export const listUsersQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  role: assignableRoleSchema.optional(),
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
+
+// ============ CODE SET SCHEMAS ============
+
+// Diagnosis code typeahead
+export const searchDiagnosisCodesQuerySchema = z.object({
+  search: z.string().trim().min(1).max(100),
+  // Code set in force on this date (defaults to today)
+  asOf: z.coerce.date().optional(),
+  billableOnly: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type SearchDiagnosisCodesQuery = z.infer<typeof searchDiagnosisCodesQuerySchema>;
+
+// Diagnosis/procedure pairing rules
+export const createCodePairingRuleSchema = z.object({
+  procedureCode: procedureCodeSchema,
+  // A category ('J06') or full code ('J06.9'); covers every code below it
+  diagnosisCodePrefix: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]([0-9][0-9A-Z]?(\.?[0-9A-Z]{1,4})?)?$/, 'Invalid diagnosis code prefix')
+    .transform(formatDiagnosisCode),
+  effect: z.nativeEnum(CodePairingEffect),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export type CreateCodePairingRuleInput = z.infer<typeof createCodePairingRuleSchema>;
+
+export const updateCodePairingRuleSchema = z
+  .object({
+    effect: z.nativeEnum(CodePairingEffect),
+    reason: z.string().trim().max(500),
+    isActive: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateCodePairingRuleInput = z.infer<typeof updateCodePairingRuleSchema>;
+
+export const listCodePairingRulesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  procedureCode: procedureCodeSchema.optional(),
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type ListCodePairingRulesQuery = z.infer<typeof listCodePairingRulesQuerySchema>;
+
+// ============ ADJUDICATION RULE SCHEMAS ============
+
+const adjudicationScalarSchema = z.union([z.string().trim().min(1).max(100), z.number()]);
+
+// Field, operator and value must fit together, e.g. 'gt' only on number fields
+const adjudicationPredicateSchema = z
+  .object({
+    field: z.enum(
+      Object.keys(ADJUDICATION_FIELD_TYPES) as [AdjudicationField, ...AdjudicationField[]]
+    ),
+    op: z.enum(ADJUDICATION_OPERATORS),
+    value: z.union([adjudicationScalarSchema, z.array(adjudicationScalarSchema).min(1).max(100)]),
+  })
+  .strict()
+  .superRefine(({ field, op, value }, ctx) => {
+    const fieldType = ADJUDICATION_FIELD_TYPES[field] === 'number' ? 'number' : 'string';
+    const isList = op === 'in' || op === 'not_in';
+
+    if (isList !== Array.isArray(value)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: isList ? `'${op}' requires a list of values` : `'${op}' requires a single value`,
+      });
+      return;
+    }
+    if (['gt', 'gte', 'lt', 'lte'].includes(op) && fieldType !== 'number') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['op'],
+        message: `'${op}' only applies to number fields`,
+      });
+      return;
+    }
+    if (op === 'starts_with' && fieldType !== 'string') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['op'],
+        message: `'starts_with' only applies to text fields`,
+      });
+      return;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    if (values.some((item) => typeof item !== fieldType)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: `${field} is compared with ${fieldType} values`,
+      });
+    }
+  });
+
+export const adjudicationConditionSchema: z.ZodType<AdjudicationCondition> = z.lazy(() =>
+  z.union([
+    adjudicationPredicateSchema,
+    z.object({ all: z.array(adjudicationConditionSchema).min(1).max(20) }).strict(),
+    z.object({ any: z.array(adjudicationConditionSchema).min(1).max(20) }).strict(),
+    z.object({ not: adjudicationConditionSchema }).strict(),
+  ])
+);
+
+const adjudicationRuleFields = {
+  name: z.string().trim().min(1).max(100),
+  // Lower numbers are evaluated first; unique per organization
+  priority: z.number().int().min(1).max(10000),
+  condition: adjudicationConditionSchema,
+  action: z.nativeEnum(AdjudicationAction),
+  denialReason: z.string().trim().min(1).max(500),
+  assignTo: uuidSchema,
+};
+
+export const createAdjudicationRuleSchema = z
+  .object({
+    ...adjudicationRuleFields,
+    denialReason: adjudicationRuleFields.denialReason.optional(),
+    assignTo: adjudicationRuleFields.assignTo.optional(),
+  })
+  .refine((data) => data.action !== 'reject' || data.denialReason, {
+    message: 'Reject rules require a denial reason',
+    path: ['denialReason'],
+  })
+  .refine((data) => data.action !== 'assign' || data.assignTo, {
+    message: 'Assign rules require an assignee',
+    path: ['assignTo'],
+  });
+
+export type CreateAdjudicationRuleInput = z.infer<typeof createAdjudicationRuleSchema>;
+
+export const updateAdjudicationRuleSchema = z
+  .object({
+    ...adjudicationRuleFields,
+    isActive: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateAdjudicationRuleInput = z.infer<typeof updateAdjudicationRuleSchema>;
+
+export const listAdjudicationRulesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type ListAdjudicationRulesQuery = z.infer<typeof listAdjudicationRulesQuerySchema>;
+
+// ============ PLAN AND ELIGIBILITY SCHEMAS ============
+
+const planFieldsSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .pipe(
+      z
+        .string()
+        .min(2)
+        .max(30)
+        .regex(
+          /^[A-Z0-9]+(-[A-Z0-9]+)*$/,
+          'Plan code may only contain letters, digits and single dashes'
+        )
+    ),
+  name: z.string().trim().min(1).max(100),
+  annualBenefitMax: z.number().positive().max(1_000_000_000),
+  planYearStartMonth: z.number().int().min(1).max(12),
+  deductible: z.number().positive().max(1_000_000),
+  coinsurancePercent: z.number().int().min(0).max(100),
+  outOfPocketMax: z.number().positive().max(1_000_000),
+  // Replaces the plan's copays as a whole
+  copays: z.record(z.nativeEnum(ServiceCategory), z.number().nonnegative().max(100_000)),
+});
+
+export const createPlanSchema = planFieldsSchema.extend({
+  annualBenefitMax: planFieldsSchema.shape.annualBenefitMax.optional(),
+  planYearStartMonth: planFieldsSchema.shape.planYearStartMonth.default(1),
+  deductible: planFieldsSchema.shape.deductible.optional(),
+  coinsurancePercent: planFieldsSchema.shape.coinsurancePercent.default(0),
+  outOfPocketMax: planFieldsSchema.shape.outOfPocketMax.optional(),
+  copays: planFieldsSchema.shape.copays.default({}),
+});
+
+export type CreatePlanInput = z.infer<typeof createPlanSchema>;
+
+// A null annualBenefitMax, deductible or outOfPocketMax removes it
+export const updatePlanSchema = planFieldsSchema
+  .extend({
+    annualBenefitMax: planFieldsSchema.shape.annualBenefitMax.nullable(),
+    deductible: planFieldsSchema.shape.deductible.nullable(),
+    outOfPocketMax: planFieldsSchema.shape.outOfPocketMax.nullable(),
+    isActive: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdatePlanInput = z.infer<typeof updatePlanSchema>;
+
+export const listPlansQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type ListPlansQuery = z.infer<typeof listPlansQuerySchema>;
+
+export const createCoverageSchema = z
+  .object({
+    planId: uuidSchema,
+    effectiveDate: dateSchema,
+    // Last covered day; open-ended when left out
+    terminationDate: dateSchema.optional(),
+  })
+  .refine((data) => !data.terminationDate || data.terminationDate >= data.effectiveDate, {
+    message: 'terminationDate cannot be before effectiveDate',
+    path: ['terminationDate'],
+  });
+
+export type CreateCoverageInput = z.infer<typeof createCoverageSchema>;
+
+// A null terminationDate makes the coverage open-ended again
+export const updateCoverageSchema = z
+  .object({
+    effectiveDate: dateSchema,
+    terminationDate: dateSchema.nullable(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateCoverageInput = z.infer<typeof updateCoverageSchema>;
+
+export const coverageParamSchema = z.object({
+  id: uuidSchema,
+  coverageId: uuidSchema,
+});
+
+export const eligibilityCheckSchema = z.object({
+  memberId: memberIdSchema,
+  // Defaults to today
+  serviceDate: dateSchema.optional(),
+});
+
+export type EligibilityCheckInput = z.infer<typeof eligibilityCheckSchema>;
+
+// ============ FEE SCHEDULE SCHEMAS ============
+
+// An entry applies to one provider, to a specialty, or (with neither) to
+// the whole organization
+export const createFeeScheduleEntrySchema = z
+  .object({
+    procedureCode: procedureCodeSchema,
+    providerId: uuidSchema.optional(),
+    specialty: z.string().trim().min(1).max(100).optional(),
+    // Per unit
+    amount: z.number().positive().max(CLAIM_AMOUNT_CONSTRAINTS.MAX),
+    effectiveDate: dateSchema,
+    // Last day the amount applies; open-ended when left out
+    terminationDate: dateSchema.optional(),
+  })
+  .refine((data) => !(data.providerId && data.specialty), {
+    message: 'An entry applies to a provider or to a specialty, not both',
+    path: ['specialty'],
+  })
+  .refine((data) => !data.terminationDate || data.terminationDate >= data.effectiveDate, {
+    message: 'terminationDate cannot be before effectiveDate',
+    path: ['terminationDate'],
+  });
+
+export type CreateFeeScheduleEntryInput = z.infer<typeof createFeeScheduleEntrySchema>;
+
+// A null terminationDate makes the entry open-ended again
+export const updateFeeScheduleEntrySchema = z
+  .object({
+    amount: z.number().positive().max(CLAIM_AMOUNT_CONSTRAINTS.MAX),
+    terminationDate: dateSchema.nullable(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateFeeScheduleEntryInput = z.infer<typeof updateFeeScheduleEntrySchema>;
+
+export const listFeeSchedulesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  procedureCode: procedureCodeSchema.optional(),
+  providerId: uuidSchema.optional(),
+  specialty: z.string().trim().min(1).max(100).optional(),
+  // Entries in force on this date
+  activeOn: dateSchema.optional(),
+});
+
+export type ListFeeSchedulesQuery = z.infer<typeof listFeeSchedulesQuerySchema>;
+
+// Import: with dryRun only the error report is returned
+export const feeScheduleImportQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type FeeScheduleImportQuery = z.infer<typeof feeScheduleImportQuerySchema>;
+
+// ============ PAYMENT SCHEMAS ============
+
+const paymentAmountSchema = z.number().min(0).max(CLAIM_AMOUNT_CONSTRAINTS.MAX);
+
+const claimAdjustmentSchema = z.object({
+  groupCode: z.nativeEnum(AdjustmentGroupCode),
+  // Claim adjustment reason code (CARC), e.g. 45 or B7
+  reasonCode: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{1,5}$/, 'Invalid reason code'),
+  // Negative amounts reverse an adjustment
+  amount: z.number().refine((amount) => amount !== 0, 'Adjustment amount cannot be zero'),
+});
+
+// Amounts default to paying the billed amount in full
+const paymentClaimSchema = z.object({
+  claimId: uuidSchema,
+  allowedAmount: paymentAmountSchema.optional(),
+  paidAmount: paymentAmountSchema.optional(),
+  // Defaults to CO-45 for billed - allowed and PR-2 for allowed - paid
+  adjustments: z.array(claimAdjustmentSchema).min(1).max(20).optional(),
+});
+
+export type PaymentClaimInput = z.infer<typeof paymentClaimSchema>;
+
+export const createPaymentBatchSchema = z.object({
+  providerId: uuidSchema,
+  method: z.nativeEnum(PaymentMethod),
+  // Check number or EFT trace number
+  reference: z.string().trim().min(1).max(50),
+  paidAt: dateSchema.optional(),
+  // Omit to pay every approved claim of the provider in full
+  claims: z
+    .array(paymentClaimSchema)
+    .min(1)
+    .max(PAYMENT_BATCH_CONSTRAINTS.MAX_CLAIMS)
+    .refine(
+      (items) => new Set(items.map((item) => item.claimId)).size === items.length,
+      { message: 'Each claim can appear once per batch' }
+    )
+    .optional(),
+});
+
+export type CreatePaymentBatchInput = z.infer<typeof createPaymentBatchSchema>;
+
+export const voidPaymentBatchSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export type VoidPaymentBatchInput = z.infer<typeof voidPaymentBatchSchema>;
+
+export const listPaymentBatchesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  providerId: uuidSchema.optional(),
+  status: z.nativeEnum(PaymentBatchStatus).optional(),
+  paidFrom: dateSchema.optional(),
+  paidTo: dateSchema.optional(),
+});
+
+export type ListPaymentBatchesQuery = z.infer<typeof listPaymentBatchesQuerySchema>;
+
+// ============ CLAIM SUBMISSION SCHEMAS ============
+
+export const listClaimSubmissionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  status: z.nativeEnum(ClaimSubmissionStatus).optional(),
+});
+
+export type ListClaimSubmissionsQuery = z.infer<typeof listClaimSubmissionsQuerySchema>;
+
 // ============ VALIDATION HELPERS ============
 
 export function validateRequest<T extends z.ZodSchema>(
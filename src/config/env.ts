@@ -24,6 +24,11 @@ const envSchema = z.object({
   // Rate Limiting (optional)
   RATE_LIMIT_WINDOW_MS: z.string().transform(Number).default('60000'),
   RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).default('100'),
+
+  // Claims exports: larger ones run as a background job writing to EXPORT_DIR,
+  // which the API and the worker must share
+  EXPORT_DIR: z.string().default('./exports'),
+  EXPORT_STREAM_MAX_ROWS: z.string().transform(Number).default('50000'),
 });
 
 const parseEnv = () => {
@@ -1,4 +1,25 @@
-import type { ClaimStatus, PatientStatusType, UserRole } from '../../shared/types/index.js';
+import type {
+  AdjudicationAction,
+  AdjustmentGroupCode,
+  AppealStatus,
+  ClaimFlag,
+  ClaimLineStatus,
+  ClaimRoutingStrategy,
+  ClaimStatus,
+  ClaimExportFormat,
+  ClaimExportStatus,
+  ClaimSubmissionFormat,
+  ClaimSubmissionStatus,
+  CodePairingEffect,
+  EligibilityEnforcement,
+  EligibilityStatus,
+  PatientStatusType,
+  PaymentBatchStatus,
+  PaymentMethod,
+  RiskReason,
+  ServiceCategory,
+  UserRole,
+} from '../../shared/types/index.js';
 
 // Base entity with common fields
 export interface BaseEntity {
@@ -18,6 +39,7 @@ export interface Organization extends BaseEntity {
   code: string; // Unique identifier code
   isActive: boolean;
   settings: OrganizationSettings;
+  sessionsRevokedAt?: Date; // Tokens issued before this are no longer accepted
 }
 
 export interface OrganizationSettings {
@@ -25,8 +47,34 @@ export interface OrganizationSettings {
   minClaimAmount: number;
   autoApproveThreshold?: number;
   requiresManualReview: boolean;
+  allowSelfRegistration?: boolean; // Patient self-registration, on unless set to false
+  routingStrategy?: ClaimRoutingStrategy; // Automatic processor assignment
+  payerProfile?: PayerProfile; // Required to send X12 835 remittance advice
+  appealDeadlineDays?: number; // Days after rejection an appeal may be filed
+  eligibilityEnforcement?: EligibilityEnforcement; // New claims without coverage on the service date
+  excessiveChargeMultiple?: number; // Flag lines billed above this multiple of the fee schedule
+  duplicateScoreThreshold?: number; // Flag new claims at least this close (0-1) to an earlier one
 }
 
+// How the organization identifies itself as payer in X12 transactions
+export interface PayerProfile {
+  taxId: string; // 9-digit EIN
+  address: Address;
+  contactPhone: string; // Technical contact for electronic transactions
+}
+
+// Applied when an organization has no settings (or is missing a key)
+export const DEFAULT_ORGANIZATION_SETTINGS: OrganizationSettings = {
+  maxClaimAmount: 1_000_000,
+  minClaimAmount: 0.01,
+  requiresManualReview: true,
+  routingStrategy: 'round_robin',
+  appealDeadlineDays: 180,
+  eligibilityEnforcement: 'off',
+  excessiveChargeMultiple: 3,
+  duplicateScoreThreshold: 0.7,
+};
+
 // User entity
 export interface User extends TenantEntity {
   email: string;
@@ -40,8 +88,18 @@ export interface User extends TenantEntity {
   patientId?: string;
   // For claims processors - assigned claims
   assignedClaimIds: string[];
+  // For claims processors - used by skill-based routing
+  skills?: ProcessorSkills;
+}
+
+export interface ProcessorSkills {
+  specialties?: string[]; // Provider specialties, matched case-insensitively
+  diagnosisCodePrefixes?: string[]; // e.g. 'E11' matches E11.9
 }
 
+// User as returned by the API - never expose the password hash
+export type SafeUser = Omit<User, 'passwordHash'>;
+
 // Provider (Healthcare provider)
 export interface Provider extends TenantEntity {
   name: string;
@@ -53,6 +111,35 @@ export interface Provider extends TenantEntity {
   address?: Address;
 }
 
+/**
+ * Validate a National Provider Identifier.
+ * NPIs are 10 digits whose last digit is a Luhn check digit computed over
+ * the first nine digits prefixed with the '80840' health-industry issuer code.
+ */
+export function isValidNpi(npi: string): boolean {
+  if (!/^\d{10}$/.test(npi)) {
+    return false;
+  }
+
+  const payload = `80840${npi.slice(0, 9)}`;
+  let sum = 0;
+
+  // Walk right to left, doubling every other digit starting with the rightmost
+  for (let i = 0; i < payload.length; i++) {
+    let digit = Number(payload[payload.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  const checkDigit = (10 - (sum % 10)) % 10;
+  return checkDigit === Number(npi[9]);
+}
+
 // Patient
 export interface Patient extends TenantEntity {
   firstName: string;
@@ -80,8 +167,10 @@ export interface Claim extends TenantEntity {
   patientId: string;
   providerId: string;
   diagnosisCode: string;
-  procedureCode?: string;
-  amount: number;
+  // Further diagnoses; line diagnosis pointers are 1-based over [diagnosisCode, ...these]
+  additionalDiagnosisCodes?: string[];
+  procedureCode?: string; // First line's procedure code
+  amount: number; // Derived: total charge of lines that are not rejected
   status: ClaimStatus;
   serviceDate: Date;
   submittedAt: Date;
@@ -94,6 +183,79 @@ export interface Claim extends TenantEntity {
   denialReason?: string;
   // Audit trail
   statusHistory: ClaimStatusChange[];
+  // Service lines - loaded on claim detail, creation and line decisions only
+  lines?: ClaimLine[];
+  // Outcome of the latest adjudication rules run
+  adjudicationTrace?: AdjudicationTrace;
+  // Appeals, oldest first - loaded on claim detail only
+  appeals?: Appeal[];
+  // Fee schedule pricing, set whenever the claim enters review
+  billedAmount?: number;
+  allowedAmount?: number; // Recomputed over the approved lines on approval
+  flags: ClaimFlag[];
+  // Set with the suspected_duplicate flag at submission
+  duplicateOfClaimId?: string;
+  duplicateScore?: number;
+  idempotencyKey?: string; // Idempotency-Key of the creating request
+  // Fraud, waste and abuse scoring, set by the job queued on creation
+  riskScore?: number;
+  riskReasons: RiskReason[];
+  riskScoredAt?: Date;
+  // Cost sharing, set on approval and cleared when the approval is reversed
+  planPaidAmount?: number;
+  patientResponsibility?: PatientResponsibility;
+  benefitAccumulatorId?: string; // Accumulator the cost sharing was counted in
+}
+
+// A service line of a claim
+export interface ClaimLine extends TenantEntity {
+  claimId: string;
+  lineNumber: number; // 1-based, in submission order
+  procedureCode: string; // CPT/HCPCS
+  modifiers: string[];
+  units: number;
+  unitCharge: number;
+  chargeAmount: number; // units × unitCharge
+  serviceDate: Date;
+  diagnosisPointers: number[];
+  status: ClaimLineStatus;
+  denialReason?: string;
+  // Fee schedule pricing; absent until the claim enters review
+  scheduledAmount?: number; // Absent when no schedule covers the procedure
+  allowedAmount?: number;
+}
+
+// Charges are rounded to cents once, per line, so totals add up exactly
+export function getLineChargeAmount(units: number, unitCharge: number): number {
+  return Math.round(units * unitCharge * 100) / 100;
+}
+
+/**
+ * The claim amount: total charge of lines that have not been rejected
+ */
+export function getClaimAmountFromLines(
+  lines: ReadonlyArray<Pick<ClaimLine, 'chargeAmount' | 'status'>>
+): number {
+  const cents = lines
+    .filter((line) => line.status !== 'rejected')
+    .reduce((total, line) => total + Math.round(line.chargeAmount * 100), 0);
+  return cents / 100;
+}
+
+/**
+ * The claim's allowed amount: allowed charges of lines that have not been
+ * rejected, or their charge where they are not priced
+ */
+export function getClaimAllowedAmountFromLines(
+  lines: ReadonlyArray<Pick<ClaimLine, 'chargeAmount' | 'allowedAmount' | 'status'>>
+): number {
+  const cents = lines
+    .filter((line) => line.status !== 'rejected')
+    .reduce(
+      (total, line) => total + Math.round((line.allowedAmount ?? line.chargeAmount) * 100),
+      0
+    );
+  return cents / 100;
 }
 
 export interface ClaimStatusChange {
@@ -155,26 +317,1282 @@ export interface AuditLog extends TenantEntity {
   userAgent?: string;
 }
 
-// Valid ICD-10 diagnosis codes (simplified for exercise)
-export const VALID_DIAGNOSIS_CODES = [
-  'J06.9',  // Acute upper respiratory infection
-  'J18.9',  // Pneumonia
-  'K21.0',  // GERD with esophagitis
-  'M54.5',  // Low back pain
-  'I10',    // Essential hypertension
-  'E11.9',  // Type 2 diabetes
-  'F32.9',  // Major depressive disorder
-  'J45.909', // Asthma
-  'N39.0',  // Urinary tract infection
-  'R51',    // Headache
-  'S62.309A', // Fracture of metacarpal bone
-  'Z00.00', // General adult medical examination
-] as const;
+// Benefit plan offered by the organization
+export interface Plan extends TenantEntity {
+  code: string; // Unique per organization, e.g. 'PPO-GOLD'
+  name: string;
+  annualBenefitMax?: number; // Most the plan pays per member and plan year; unlimited if unset
+  planYearStartMonth: number; // 1-12; plan years start on the first of this month
+  deductible?: number; // Paid by the member each plan year before coinsurance; none if unset
+  coinsurancePercent: number; // 0-100; member's share of allowed charges past the deductible
+  outOfPocketMax?: number; // Member cost sharing per plan year stops here; unlimited if unset
+  // Flat amount per claim and category; those services skip deductible and coinsurance
+  copays: Partial<Record<ServiceCategory, number>>;
+  isActive: boolean;
+}
+
+// A patient's enrollment in a plan. A patient's coverages never overlap.
+export interface Coverage extends TenantEntity {
+  patientId: string;
+  planId: string;
+  effectiveDate: Date;
+  terminationDate?: Date; // Last covered day; open-ended if unset
+  plan?: Plan; // Loaded with the coverage where noted
+}
+
+// Allowed amount per unit of a procedure. Without providerId and specialty
+// the entry applies to the whole organization.
+export interface FeeScheduleEntry extends TenantEntity {
+  procedureCode: string;
+  providerId?: string;
+  specialty?: string; // Matched case-insensitively against provider specialties
+  amount: number;
+  effectiveDate: Date;
+  terminationDate?: Date; // Last day the amount applies; open-ended when absent
+}
+
+// What a member has paid and the plan has paid in one plan year, over the
+// member's approved claims on the plan
+export interface BenefitAccumulator extends TenantEntity {
+  patientId: string;
+  planId: string;
+  planYearStart: Date;
+  deductibleMet: number;
+  outOfPocketMet: number; // Deductible, copays and coinsurance
+  planPaid: number;
+}
+
+// What the patient owes on an approved claim, by kind of cost sharing
+export interface PatientResponsibility {
+  deductible: number;
+  copay: number;
+  coinsurance: number;
+  overBenefitMax: number; // Allowed charges past the plan's annual maximum
+  total: number;
+}
+
+export interface CostSharing {
+  allowedAmount: number;
+  planPaidAmount: number;
+  patientResponsibility: PatientResponsibility;
+}
+
+// Answer to an eligibility check for a member on a date
+export interface EligibilityResult {
+  memberId: string;
+  patientId: string;
+  serviceDate: Date;
+  status: EligibilityStatus;
+  coverage?: Coverage;
+  plan?: Plan;
+  benefits?: {
+    planYear: { start: Date; end: Date }; // end is the first day of the next plan year
+    deductible?: number;
+    deductibleMet: number;
+    outOfPocketMax?: number;
+    outOfPocketMet: number;
+    annualBenefitMax?: number;
+    used: number; // Paid by the plan on claims with service dates in the plan year
+    remaining?: number; // Unlimited when the plan has no annual maximum
+  };
+}
+
+/**
+ * Whether a coverage is in force on a date. Both ends are inclusive and
+ * only the calendar day (UTC) of `date` counts.
+ */
+export function isCoverageInForce(
+  coverage: Pick<Coverage, 'effectiveDate' | 'terminationDate'>,
+  date: Date
+): boolean {
+  const day = date.toISOString().slice(0, 10);
+  return (
+    coverage.effectiveDate.toISOString().slice(0, 10) <= day &&
+    (!coverage.terminationDate || day <= coverage.terminationDate.toISOString().slice(0, 10))
+  );
+}
+
+/**
+ * The plan year containing a date: from the first of the plan's start month
+ * up to, not including, the same day a year later
+ */
+export function getPlanYear(
+  plan: Pick<Plan, 'planYearStartMonth'>,
+  date: Date
+): { start: Date; end: Date } {
+  const month = plan.planYearStartMonth - 1;
+  const year = date.getUTCMonth() >= month ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
+
+  return {
+    start: new Date(Date.UTC(year, month, 1)),
+    end: new Date(Date.UTC(year + 1, month, 1)),
+  };
+}
+
+/**
+ * Service category of a CPT/HCPCS code, from the CPT section ranges and
+ * HCPCS J-codes (drugs)
+ */
+export function getServiceCategory(procedureCode: string): ServiceCategory {
+  if (procedureCode.startsWith('J')) {
+    return 'drug';
+  }
+  if (!/^\d{5}$/.test(procedureCode)) {
+    return 'other';
+  }
+
+  const code = Number(procedureCode);
+  if (code >= 99381 && code <= 99429) return 'preventive';
+  if (code >= 99281 && code <= 99285) return 'emergency';
+  if (code >= 99221 && code <= 99239) return 'inpatient';
+  if ((code >= 99202 && code <= 99215) || (code >= 99242 && code <= 99245)) {
+    return 'office_visit';
+  }
+  if (code >= 80000 && code <= 89999) return 'laboratory';
+  if (code >= 70000 && code <= 79999) return 'imaging';
+  if (code >= 10000 && code <= 69999) return 'surgery';
+  return 'other';
+}
+
+// Entries are unique per scope, procedure code and effective date
+export function getFeeScheduleEntryKey(
+  entry: Pick<FeeScheduleEntry, 'providerId' | 'specialty' | 'procedureCode' | 'effectiveDate'>
+): string {
+  return [
+    entry.providerId ?? '',
+    entry.specialty ?? '',
+    entry.procedureCode,
+    entry.effectiveDate.toISOString().slice(0, 10),
+  ].join('|');
+}
+
+/**
+ * The fee schedule entry that prices a procedure for a provider on a
+ * service date, among the entries for that procedure. Entries are in force
+ * on the same (inclusive, UTC) days as coverages. One for the provider beats
+ * one for its specialty, which beats the organization's; within a scope the
+ * latest effective date wins.
+ */
+export function selectFeeScheduleEntry<
+  T extends Pick<
+    FeeScheduleEntry,
+    'providerId' | 'specialty' | 'effectiveDate' | 'terminationDate'
+  >,
+>(
+  entries: readonly T[],
+  provider: { id: string; specialty: string },
+  serviceDate: Date
+): T | undefined {
+  const rank = (entry: T): number =>
+    entry.providerId
+      ? entry.providerId === provider.id
+        ? 0
+        : -1
+      : entry.specialty
+        ? entry.specialty.toLowerCase() === provider.specialty.toLowerCase()
+          ? 1
+          : -1
+        : 2;
+
+  return entries
+    .filter((entry) => rank(entry) >= 0 && isCoverageInForce(entry, serviceDate))
+    .sort(
+      (a, b) => rank(a) - rank(b) || b.effectiveDate.getTime() - a.effectiveDate.getTime()
+    )[0];
+}
+
+/**
+ * Price a line: the schedule amount for its units, and the allowed amount,
+ * which is the lesser of that and the charge. Unscheduled lines are allowed
+ * at their charge.
+ */
+export function priceClaimLine(
+  line: Pick<ClaimLine, 'units' | 'chargeAmount'>,
+  unitAmount: number | undefined
+): { scheduledAmount?: number; allowedAmount: number } {
+  if (unitAmount === undefined) {
+    return { allowedAmount: line.chargeAmount };
+  }
+
+  const scheduledAmount = getLineChargeAmount(line.units, unitAmount);
+  return { scheduledAmount, allowedAmount: Math.min(line.chargeAmount, scheduledAmount) };
+}
+
+// Billed at more than the organization's multiple of the schedule amount
+export function isExcessiveCharge(
+  chargeAmount: number,
+  scheduledAmount: number | undefined,
+  settings: OrganizationSettings
+): boolean {
+  const multiple = settings.excessiveChargeMultiple;
+  return (
+    scheduledAmount !== undefined &&
+    multiple !== undefined &&
+    chargeAmount > scheduledAmount * multiple
+  );
+}
+
+// Days either side of the service date searched for earlier claims of the patient
+export const DUPLICATE_CLAIM_WINDOW_DAYS = 3;
+
+// What duplicate detection compares of two claims of one patient
+export type DuplicateClaimFields = Pick<
+  Claim,
+  'providerId' | 'diagnosisCode' | 'amount' | 'serviceDate'
+> & { procedureCodes: string[] };
+
+/**
+ * How close a new claim is to an earlier claim of the same patient, from 0
+ * to 1: same provider (0.25), same service date (0.25, or 0.1 within the
+ * window), same principal diagnosis (0.15), the share of procedure codes
+ * the two have in common (up to 0.2), and amounts within 10% of each other
+ * (up to 0.15, all of it when equal).
+ */
+export function scoreDuplicateClaim(
+  claim: DuplicateClaimFields,
+  earlier: DuplicateClaimFields
+): number {
+  const days =
+    Math.abs(claim.serviceDate.getTime() - earlier.serviceDate.getTime()) /
+    (24 * 60 * 60 * 1000);
+  const sameDay =
+    claim.serviceDate.toISOString().slice(0, 10) === earlier.serviceDate.toISOString().slice(0, 10);
 
-export type DiagnosisCode = (typeof VALID_DIAGNOSIS_CODES)[number];
+  const earlierCodes = new Set(earlier.procedureCodes);
+  const allCodes = new Set([...claim.procedureCodes, ...earlier.procedureCodes]);
+  const sharedCodes = [...new Set(claim.procedureCodes)].filter((code) => earlierCodes.has(code));
+
+  const amountGap =
+    Math.abs(claim.amount - earlier.amount) / Math.max(claim.amount, earlier.amount, 0.01);
+
+  const score =
+    (claim.providerId === earlier.providerId ? 0.25 : 0) +
+    (sameDay ? 0.25 : days <= DUPLICATE_CLAIM_WINDOW_DAYS ? 0.1 : 0) +
+    (claim.diagnosisCode === earlier.diagnosisCode ? 0.15 : 0) +
+    (allCodes.size > 0 ? (0.2 * sharedCodes.length) / allCodes.size : 0) +
+    (amountGap <= 0.1 ? 0.15 * (1 - amountGap / 0.1) : 0);
+
+  return Math.round(score * 100) / 100;
+}
+
+export const RISK_SCORING = {
+  // Provider volume: claims submitted in the last week against the weekly
+  // average of the weeks before
+  VOLUME_WINDOW_DAYS: 7,
+  VOLUME_BASELINE_WEEKS: 12,
+  VOLUME_SPIKE_MULTIPLE: 3,
+  VOLUME_SPIKE_MIN_CLAIMS: 10,
+  // Amount outliers: standard deviations above the mean of peer claims with
+  // the same principal diagnosis over the past year
+  AMOUNT_PEER_WINDOW_DAYS: 365,
+  AMOUNT_OUTLIER_STD_DEVS: 3,
+  AMOUNT_OUTLIER_MIN_PEERS: 10,
+  // Distinct providers billing the patient for one date of service
+  SAME_DAY_PROVIDERS: 4,
+  // Upcoding: share of a provider's office visits billed at the top levels
+  // against peers, over the past 90 days
+  UPCODING_WINDOW_DAYS: 90,
+  UPCODING_MIN_VISITS: 20,
+  UPCODING_SHARE_GAP: 0.25,
+  // Claims at or above this score count as high risk in reports
+  HIGH_RISK_SCORE: 0.5,
+} as const;
+
+// Office and outpatient visits (E/M), new and established patients
+export const OFFICE_VISIT_CODES: readonly string[] = [
+  '99202',
+  '99203',
+  '99204',
+  '99205',
+  '99211',
+  '99212',
+  '99213',
+  '99214',
+  '99215',
+];
+
+// The top visit levels, where upcoding shows
+export const HIGH_LEVEL_VISIT_CODES: readonly string[] = ['99204', '99205', '99214', '99215'];
+
+// What a claim's history says about it; computed by the scoring job
+export interface ClaimRiskFeatures {
+  serviceDate: Date;
+  amount: number;
+  procedureCodes: string[];
+  // Provider's claims submitted in the volume window up to this one, and
+  // before it over the baseline weeks
+  providerRecentClaims: number;
+  providerBaselineClaims: number;
+  // Other claims with the same principal diagnosis
+  peerClaimCount: number;
+  peerAmountMean: number;
+  peerAmountStdDev: number;
+  // Distinct providers billing the patient on the date of service, this one included
+  sameDayProviderCount: number;
+  // Office visit lines of the provider and of everyone else
+  providerVisits: number;
+  providerHighLevelVisits: number;
+  peerVisits: number;
+  peerHighLevelVisits: number;
+}
+
+export interface ClaimRiskAssessment {
+  score: number; // 0-1
+  reasons: RiskReason[];
+}
+
+// nth (1-based) given weekday of a month, or the last one when n is -1
+function getNthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): number {
+  if (n === -1) {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0));
+    return lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7);
+  }
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+}
+
+/**
+ * US federal holidays of a year as YYYY-MM-DD, on their actual dates (not
+ * the weekday they are observed on)
+ */
+export function getFederalHolidays(year: number): string[] {
+  const day = (month: number, date: number) =>
+    new Date(Date.UTC(year, month, date)).toISOString().slice(0, 10);
+
+  return [
+    day(0, 1), // New Year's Day
+    day(0, getNthWeekdayOfMonth(year, 0, 1, 3)), // Martin Luther King Jr. Day
+    day(1, getNthWeekdayOfMonth(year, 1, 1, 3)), // Washington's Birthday
+    day(4, getNthWeekdayOfMonth(year, 4, 1, -1)), // Memorial Day
+    day(5, 19), // Juneteenth
+    day(6, 4), // Independence Day
+    day(8, getNthWeekdayOfMonth(year, 8, 1, 1)), // Labor Day
+    day(9, getNthWeekdayOfMonth(year, 9, 1, 2)), // Columbus Day
+    day(10, 11), // Veterans Day
+    day(10, getNthWeekdayOfMonth(year, 10, 4, 4)), // Thanksgiving Day
+    day(11, 25), // Christmas Day
+  ];
+}
+
+/**
+ * Fraud, waste and abuse risk of a claim, from 0 to 1, with the reasons
+ * that raised it: a provider volume spike (0.2), an amount outlier against
+ * peers with the same diagnosis (0.25), service on a weekend (0.05) or a
+ * federal holiday (0.1), a patient billed by many providers that day (0.15)
+ * and a top-level visit from a provider who bills them far more often than
+ * peers (0.25).
+ */
+export function scoreClaimRisk(features: ClaimRiskFeatures): ClaimRiskAssessment {
+  const reasons: RiskReason[] = [];
+  let score = 0;
+
+  const baselineWeekly = features.providerBaselineClaims / RISK_SCORING.VOLUME_BASELINE_WEEKS;
+  if (
+    features.providerRecentClaims >= RISK_SCORING.VOLUME_SPIKE_MIN_CLAIMS &&
+    features.providerRecentClaims >= baselineWeekly * RISK_SCORING.VOLUME_SPIKE_MULTIPLE
+  ) {
+    reasons.push('provider_volume_spike');
+    score += 0.2;
+  }
+
+  if (
+    features.peerClaimCount >= RISK_SCORING.AMOUNT_OUTLIER_MIN_PEERS &&
+    features.amount >
+      features.peerAmountMean + RISK_SCORING.AMOUNT_OUTLIER_STD_DEVS * features.peerAmountStdDev
+  ) {
+    reasons.push('amount_outlier');
+    score += 0.25;
+  }
+
+  const weekday = features.serviceDate.getUTCDay();
+  if (weekday === 0 || weekday === 6) {
+    reasons.push('weekend_service');
+    score += 0.05;
+  }
+
+  const serviceDay = features.serviceDate.toISOString().slice(0, 10);
+  if (getFederalHolidays(features.serviceDate.getUTCFullYear()).includes(serviceDay)) {
+    reasons.push('holiday_service');
+    score += 0.1;
+  }
+
+  if (features.sameDayProviderCount >= RISK_SCORING.SAME_DAY_PROVIDERS) {
+    reasons.push('patient_many_providers');
+    score += 0.15;
+  }
+
+  const billsHighLevelVisit = features.procedureCodes.some((code) =>
+    HIGH_LEVEL_VISIT_CODES.includes(code)
+  );
+  if (
+    billsHighLevelVisit &&
+    features.providerVisits >= RISK_SCORING.UPCODING_MIN_VISITS &&
+    features.peerVisits >= RISK_SCORING.UPCODING_MIN_VISITS &&
+    features.providerHighLevelVisits / features.providerVisits -
+      features.peerHighLevelVisits / features.peerVisits >=
+      RISK_SCORING.UPCODING_SHARE_GAP
+  ) {
+    reasons.push('upcoding');
+    score += 0.25;
+  }
+
+  return { score: Math.round(Math.min(score, 1) * 100) / 100, reasons };
+}
+
+/**
+ * Split the allowed charges of an approved claim between plan and member.
+ *
+ * Lines in a category with a copay cost the member that copay once per
+ * claim and category, capped at their allowed charges. Other lines go to the
+ * deductible left for the plan year, then coinsurance. The out-of-pocket
+ * maximum caps copay, deductible and coinsurance in that order. What the
+ * plan would pay past its annual maximum is the member's as well.
+ */
+export function computeCostSharing(
+  plan: Pick<
+    Plan,
+    'deductible' | 'coinsurancePercent' | 'outOfPocketMax' | 'copays' | 'annualBenefitMax'
+  >,
+  accumulator: Pick<BenefitAccumulator, 'deductibleMet' | 'outOfPocketMet' | 'planPaid'>,
+  lines: readonly { procedureCode: string; allowedAmount: number }[]
+): CostSharing {
+  const allowedByCategory = new Map<ServiceCategory, number>();
+  for (const line of lines) {
+    const category = getServiceCategory(line.procedureCode);
+    allowedByCategory.set(
+      category,
+      (allowedByCategory.get(category) ?? 0) + toCents(line.allowedAmount)
+    );
+  }
+
+  let allowed = 0;
+  let copay = 0;
+  let subjectToDeductible = 0;
+  for (const [category, amount] of allowedByCategory) {
+    allowed += amount;
+    const categoryCopay = plan.copays[category];
+    if (categoryCopay === undefined) {
+      subjectToDeductible += amount;
+    } else {
+      copay += Math.min(toCents(categoryCopay), amount);
+    }
+  }
+
+  const deductibleLeft = Math.max(
+    0,
+    toCents(plan.deductible ?? 0) - toCents(accumulator.deductibleMet)
+  );
+  let deductible = Math.min(deductibleLeft, subjectToDeductible);
+  let coinsurance = Math.round(
+    ((subjectToDeductible - deductible) * plan.coinsurancePercent) / 100
+  );
+
+  // Cap what the member pays at what is left of the out-of-pocket maximum
+  if (plan.outOfPocketMax !== undefined) {
+    let outOfPocketLeft = Math.max(
+      0,
+      toCents(plan.outOfPocketMax) - toCents(accumulator.outOfPocketMet)
+    );
+    copay = Math.min(copay, outOfPocketLeft);
+    outOfPocketLeft -= copay;
+    deductible = Math.min(deductible, outOfPocketLeft);
+    outOfPocketLeft -= deductible;
+    coinsurance = Math.min(coinsurance, outOfPocketLeft);
+  }
+
+  let planPaid = allowed - copay - deductible - coinsurance;
+  let overBenefitMax = 0;
+  if (plan.annualBenefitMax !== undefined) {
+    const benefitLeft = Math.max(
+      0,
+      toCents(plan.annualBenefitMax) - toCents(accumulator.planPaid)
+    );
+    overBenefitMax = Math.max(0, planPaid - benefitLeft);
+    planPaid -= overBenefitMax;
+  }
+
+  return {
+    allowedAmount: allowed / 100,
+    planPaidAmount: planPaid / 100,
+    patientResponsibility: {
+      deductible: deductible / 100,
+      copay: copay / 100,
+      coinsurance: coinsurance / 100,
+      overBenefitMax: overBenefitMax / 100,
+      total: (copay + deductible + coinsurance + overBenefitMax) / 100,
+    },
+  };
+}
+
+// ICD-10-CM diagnosis code, one row per release in which its text changed.
+// Reference data shared by every tenant, loaded from the CMS flat files.
+export interface DiagnosisCode extends BaseEntity {
+  code: string; // Dotted form, e.g. 'J06.9'
+  shortDescription: string;
+  description: string;
+  isBillable: boolean; // Category headers cannot be billed on a claim
+  effectiveDate: Date;
+  terminationDate?: Date; // First day the code is no longer in force
+}
+
+// A category plus up to four characters after the dot, e.g. 'S62.309A'
+export const DIAGNOSIS_CODE_PATTERN = /^[A-Z][0-9][0-9A-Z](\.?[0-9A-Z]{1,4})?$/;
+
+/**
+ * Normalize a diagnosis code to its dotted upper-case form
+ * ('j069' and 'J06.9' both become 'J06.9')
+ */
+export function formatDiagnosisCode(code: string): string {
+  const compact = code.trim().toUpperCase().replace(/\./g, '');
+  return compact.length > 3 ? `${compact.slice(0, 3)}.${compact.slice(3)}` : compact;
+}
+
+// CPT or HCPCS Level II procedure code, versioned like diagnosis codes
+export interface ProcedureCode extends BaseEntity {
+  code: string; // e.g. '99213', 'J1100'
+  description: string;
+  effectiveDate: Date;
+  terminationDate?: Date;
+}
+
+// Organization-configured diagnosis/procedure edit, in the spirit of NCCI
+export interface CodePairingRule extends TenantEntity {
+  procedureCode: string;
+  diagnosisCodePrefix: string; // 'J06' covers J06 and every code below it
+  effect: CodePairingEffect;
+  reason?: string;
+  isActive: boolean;
+}
+
+export interface CodePairingViolation {
+  lineNumber: number;
+  procedureCode: string;
+  diagnosisCode: string;
+  effect: CodePairingEffect;
+  ruleId?: string; // Absent when no allow rule matched
+  reason?: string;
+}
+
+/**
+ * Check each line's procedure against the diagnoses it points to.
+ * A deny rule matching any pointed diagnosis is a violation. When a
+ * procedure has allow rules, at least one pointed diagnosis must match
+ * one of them.
+ */
+export function findCodePairingViolations(
+  lines: Array<{ procedureCode: string; diagnosisPointers: number[] }>,
+  diagnosisCodes: string[],
+  rules: CodePairingRule[]
+): CodePairingViolation[] {
+  const violations: CodePairingViolation[] = [];
+
+  lines.forEach((line, index) => {
+    const lineRules = rules.filter(
+      (rule) => rule.isActive && rule.procedureCode === line.procedureCode
+    );
+    if (lineRules.length === 0) {
+      return;
+    }
+
+    const diagnoses = line.diagnosisPointers.map((pointer) => diagnosisCodes[pointer - 1]);
+    const matches = (rule: CodePairingRule, code: string) =>
+      code.startsWith(rule.diagnosisCodePrefix);
+
+    for (const diagnosisCode of diagnoses) {
+      const deny = lineRules.find(
+        (rule) => rule.effect === 'deny' && matches(rule, diagnosisCode)
+      );
+      if (deny) {
+        violations.push({
+          lineNumber: index + 1,
+          procedureCode: line.procedureCode,
+          diagnosisCode,
+          effect: 'deny',
+          ruleId: deny.id,
+          reason: deny.reason,
+        });
+      }
+    }
+
+    const allowRules = lineRules.filter((rule) => rule.effect === 'allow');
+    if (
+      allowRules.length > 0 &&
+      !diagnoses.some((code) => allowRules.some((rule) => matches(rule, code)))
+    ) {
+      violations.push({
+        lineNumber: index + 1,
+        procedureCode: line.procedureCode,
+        diagnosisCode: diagnoses[0],
+        effect: 'allow',
+      });
+    }
+  });
+
+  return violations;
+}
 
 // Claim amount constraints
 export const CLAIM_AMOUNT_CONSTRAINTS = {
   MIN: 0.01,
   MAX: 1_000_000,
 } as const;
+
+// Limits follow the 837P professional claim format
+export const CLAIM_LINE_CONSTRAINTS = {
+  MAX_LINES: 50,
+  MAX_DIAGNOSIS_CODES: 12,
+  MAX_DIAGNOSIS_POINTERS: 4,
+  MAX_MODIFIERS: 4,
+  MAX_UNITS: 9999,
+} as const;
+
+/**
+ * Effective amount bounds for an organization.
+ * Tenant settings can only narrow the platform-wide constraints.
+ */
+export function getClaimAmountBounds(settings: OrganizationSettings): { min: number; max: number } {
+  return {
+    min: Math.max(CLAIM_AMOUNT_CONSTRAINTS.MIN, settings.minClaimAmount),
+    max: Math.min(CLAIM_AMOUNT_CONSTRAINTS.MAX, settings.maxClaimAmount),
+  };
+}
+
+/**
+ * Whether a claim may be approved without a human reviewer.
+ * Never when the organization requires manual review or has no
+ * auto-approve threshold; otherwise only below the threshold.
+ */
+export function qualifiesForAutoApproval(amount: number, settings: OrganizationSettings): boolean {
+  if (settings.requiresManualReview || settings.autoApproveThreshold === undefined) {
+    return false;
+  }
+
+  return amount < settings.autoApproveThreshold;
+}
+
+/**
+ * Whether the discharge job may approve a claim left under review.
+ * Never when the organization requires manual review; a configured
+ * threshold limits it, and without one every claim is approved, as the
+ * job always has.
+ */
+export function qualifiesForDischargeApproval(
+  amount: number,
+  settings: OrganizationSettings
+): boolean {
+  if (settings.requiresManualReview) {
+    return false;
+  }
+
+  return settings.autoApproveThreshold === undefined || amount < settings.autoApproveThreshold;
+}
+
+// Claim status workflow
+//
+//   submitted → under_review ⇄ approved → paid
+//                    │    ▲          ▲
+//                    ▼    │ (reopen) │ (appeal overturned)
+//                  rejected ⇄ appealed
+//                   (appeal filed / upheld)
+//
+// approved → under_review reverses an approval: the claim's cost sharing is
+// taken back out of the member's benefit accumulators.
+//
+// approved → paid and back are not workflow edges: claims are paid only by
+// a payment batch, and voiding the batch moves them back to approved.
+//
+// Every allowed edge in the workflow. Roles are granted a subset below.
+export const CLAIM_STATUS_TRANSITIONS: Readonly<Record<ClaimStatus, readonly ClaimStatus[]>> = {
+  submitted: ['under_review'],
+  under_review: ['approved', 'rejected'],
+  approved: ['under_review'],
+  rejected: ['under_review', 'appealed'],
+  appealed: ['approved', 'rejected'],
+  paid: [],
+};
+
+// Actors that can move a claim between statuses. 'system' covers background jobs.
+export type StatusTransitionActor = UserRole | 'system';
+
+// The appeal edges are granted to nobody: filing and deciding an appeal move
+// the claim, so every appealed claim has an appeal record and a decision.
+export const ROLE_STATUS_TRANSITIONS: Readonly<
+  Record<StatusTransitionActor, Partial<Record<ClaimStatus, readonly ClaimStatus[]>>>
+> = {
+  admin: {
+    submitted: ['under_review'],
+    under_review: ['approved', 'rejected'],
+    approved: ['under_review'],
+    rejected: ['under_review'],
+  },
+  claims_processor: {
+    submitted: ['under_review'],
+    under_review: ['approved', 'rejected'],
+  },
+  super_admin: {},
+  provider: {},
+  patient: {},
+  system: {
+    submitted: ['under_review'],
+    under_review: ['approved', 'rejected'],
+  },
+};
+
+/**
+ * Next statuses the given actor may move a claim to from its current status.
+ */
+export function getAllowedStatusTransitions(
+  fromStatus: ClaimStatus,
+  actor: StatusTransitionActor
+): ClaimStatus[] {
+  const allowed = ROLE_STATUS_TRANSITIONS[actor]?.[fromStatus] ?? [];
+  // Role tables may only narrow the workflow, never extend it
+  return allowed.filter((status) => CLAIM_STATUS_TRANSITIONS[fromStatus].includes(status));
+}
+
+export function isStatusTransitionAllowed(
+  fromStatus: ClaimStatus,
+  toStatus: ClaimStatus,
+  actor: StatusTransitionActor
+): boolean {
+  return getAllowedStatusTransitions(fromStatus, actor).includes(toStatus);
+}
+
+/**
+ * Terminal statuses have no outgoing edges for any actor.
+ */
+export function isTerminalClaimStatus(status: ClaimStatus): boolean {
+  return CLAIM_STATUS_TRANSITIONS[status].length === 0;
+}
+
+// Claim routing
+//
+// Statuses in which a claim is waiting on a processor
+export const OPEN_CLAIM_STATUSES: readonly ClaimStatus[] = [
+  'submitted',
+  'under_review',
+  'appealed',
+];
+
+export interface RoutingCandidate {
+  processorId: string;
+  skills?: ProcessorSkills;
+  openClaimCount: number;
+  lastAssignedAt?: Date;
+}
+
+// The claim attributes routing decisions are based on
+export interface RoutableClaim {
+  id: string;
+  status: ClaimStatus;
+  assignedTo?: string;
+  diagnosisCode: string;
+  providerSpecialty?: string;
+  // Who rejected an appealed claim; the appeal must go to someone else
+  excludedProcessorId?: string;
+}
+
+export function matchesProcessorSkills(
+  skills: ProcessorSkills | undefined,
+  claim: Pick<RoutableClaim, 'diagnosisCode' | 'providerSpecialty'>
+): boolean {
+  const specialty = claim.providerSpecialty?.toLowerCase();
+  const diagnosisCode = claim.diagnosisCode.toUpperCase();
+
+  return (
+    (specialty !== undefined &&
+      (skills?.specialties ?? []).some((s) => s.toLowerCase() === specialty)) ||
+    (skills?.diagnosisCodePrefixes ?? []).some((prefix) =>
+      diagnosisCode.startsWith(prefix.toUpperCase())
+    )
+  );
+}
+
+// Never-assigned processors go first, then the least recently assigned
+function compareLastAssigned(a: RoutingCandidate, b: RoutingCandidate): number {
+  const aTime = a.lastAssignedAt?.getTime() ?? -Infinity;
+  const bTime = b.lastAssignedAt?.getTime() ?? -Infinity;
+  return aTime === bTime ? a.processorId.localeCompare(b.processorId) : aTime - bTime;
+}
+
+function compareOpenClaims(a: RoutingCandidate, b: RoutingCandidate): number {
+  return a.openClaimCount - b.openClaimCount || compareLastAssigned(a, b);
+}
+
+/**
+ * Pick the processor a claim should be routed to, or null when the
+ * strategy is manual or there is nobody to route to.
+ *
+ * - round_robin: least recently assigned processor
+ * - least_open: fewest open claims
+ * - skill_based: fewest open claims among processors whose skills match the
+ *   claim's provider specialty or diagnosis code; everyone if nobody matches
+ *
+ * The processor who rejected an appealed claim is never picked for it.
+ */
+export function selectProcessor(
+  strategy: ClaimRoutingStrategy,
+  candidates: readonly RoutingCandidate[],
+  claim: Pick<RoutableClaim, 'diagnosisCode' | 'providerSpecialty' | 'excludedProcessorId'>
+): RoutingCandidate | null {
+  let pool = candidates.filter((c) => c.processorId !== claim.excludedProcessorId);
+
+  if (strategy === 'manual' || pool.length === 0) {
+    return null;
+  }
+
+  if (strategy === 'skill_based') {
+    const skilled = pool.filter((c) => matchesProcessorSkills(c.skills, claim));
+    pool = skilled.length > 0 ? skilled : pool;
+  }
+
+  pool.sort(strategy === 'round_robin' ? compareLastAssigned : compareOpenClaims);
+  return pool[0];
+}
+
+// Claim adjudication
+//
+// Claim attributes a rule condition can test, and the type of each
+export const ADJUDICATION_FIELD_TYPES = {
+  amount: 'number',
+  diagnosisCode: 'string', // Primary diagnosis
+  diagnosisCodes: 'string[]', // Primary and additional diagnoses
+  procedureCodes: 'string[]', // Procedure codes of the lines
+  providerId: 'string',
+  providerSpecialty: 'string',
+  patientAge: 'number', // Whole years on the date of service
+  priorClaimCount: 'number', // The patient's claims submitted before this one
+} as const;
+
+export type AdjudicationField = keyof typeof ADJUDICATION_FIELD_TYPES;
+
+export const ADJUDICATION_OPERATORS = [
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'not_in',
+  'starts_with',
+] as const;
+
+export type AdjudicationOperator = (typeof ADJUDICATION_OPERATORS)[number];
+
+export type AdjudicationValue = string | number | Array<string | number>;
+
+export interface AdjudicationPredicate {
+  field: AdjudicationField;
+  op: AdjudicationOperator;
+  value: AdjudicationValue;
+}
+
+// JSON condition tree, e.g.
+// { "all": [{ "field": "amount", "op": "lte", "value": 500 },
+//           { "not": { "field": "diagnosisCode", "op": "starts_with", "value": "S" } }] }
+export type AdjudicationCondition =
+  | AdjudicationPredicate
+  | { all: AdjudicationCondition[] }
+  | { any: AdjudicationCondition[] }
+  | { not: AdjudicationCondition };
+
+// Ordered per organization; lower priority numbers are evaluated first
+export interface AdjudicationRule extends TenantEntity {
+  name: string;
+  priority: number;
+  condition: AdjudicationCondition;
+  action: AdjudicationAction;
+  denialReason?: string; // reject only
+  assignTo?: string; // assign only: a claims processor
+  isActive: boolean;
+}
+
+export interface AdjudicationFacts {
+  amount: number;
+  diagnosisCode: string;
+  diagnosisCodes: string[];
+  procedureCodes: string[];
+  providerId: string;
+  providerSpecialty?: string;
+  patientAge?: number;
+  priorClaimCount: number;
+}
+
+// A rule that matched the claim
+export interface FiredAdjudicationRule {
+  ruleId: string;
+  name: string;
+  priority: number;
+  action: AdjudicationAction;
+  denialReason?: string;
+  assignTo?: string;
+}
+
+// Stored on the claim after every adjudication run
+export interface AdjudicationTrace {
+  jobId: string;
+  evaluatedAt: string; // ISO timestamp
+  rulesEvaluated: number;
+  fired: FiredAdjudicationRule[];
+  decision?: Exclude<AdjudicationAction, 'assign'>;
+  resultingStatus: ClaimStatus;
+}
+
+function matchesPredicate(predicate: AdjudicationPredicate, facts: AdjudicationFacts): boolean {
+  const actual = facts[predicate.field];
+  if (actual === undefined) {
+    return false; // Unknown facts never match, whatever the operator
+  }
+
+  const { op, value } = predicate;
+  const values = Array.isArray(value) ? value : [value];
+  const test = (item: string | number): boolean => {
+    switch (op) {
+      case 'eq':
+      case 'neq':
+        return item === value;
+      case 'gt':
+        return item > value;
+      case 'gte':
+        return item >= value;
+      case 'lt':
+        return item < value;
+      case 'lte':
+        return item <= value;
+      case 'in':
+      case 'not_in':
+        return values.includes(item);
+      case 'starts_with':
+        return String(item).startsWith(String(value));
+    }
+  };
+
+  // List fields match when any element does; negated operators when none does
+  const items = Array.isArray(actual) ? actual : [actual];
+  const anyMatch = items.some(test);
+  return op === 'neq' || op === 'not_in' ? !anyMatch : anyMatch;
+}
+
+export function matchesAdjudicationCondition(
+  condition: AdjudicationCondition,
+  facts: AdjudicationFacts
+): boolean {
+  if ('all' in condition) {
+    return condition.all.every((child) => matchesAdjudicationCondition(child, facts));
+  }
+  if ('any' in condition) {
+    return condition.any.some((child) => matchesAdjudicationCondition(child, facts));
+  }
+  if ('not' in condition) {
+    return !matchesAdjudicationCondition(condition.not, facts);
+  }
+  return matchesPredicate(condition, facts);
+}
+
+/**
+ * Run rules in priority order. Every matching rule fires; the first
+ * matching approve, reject or pend rule decides and ends evaluation.
+ * Assign rules do not decide, so a claim can be assigned and then pended.
+ */
+export function evaluateAdjudicationRules(
+  rules: readonly AdjudicationRule[],
+  facts: AdjudicationFacts
+): { fired: FiredAdjudicationRule[]; decision?: FiredAdjudicationRule; rulesEvaluated: number } {
+  const ordered = rules
+    .filter((rule) => rule.isActive)
+    .sort((a, b) => a.priority - b.priority);
+  const fired: FiredAdjudicationRule[] = [];
+  let rulesEvaluated = 0;
+
+  for (const rule of ordered) {
+    rulesEvaluated++;
+    if (!matchesAdjudicationCondition(rule.condition, facts)) {
+      continue;
+    }
+
+    const entry: FiredAdjudicationRule = {
+      ruleId: rule.id,
+      name: rule.name,
+      priority: rule.priority,
+      action: rule.action,
+      // Rules keep these when their action changes; only report the live one
+      denialReason: rule.action === 'reject' ? rule.denialReason : undefined,
+      assignTo: rule.action === 'assign' ? rule.assignTo : undefined,
+    };
+    fired.push(entry);
+
+    if (rule.action !== 'assign') {
+      return { fired, decision: entry, rulesEvaluated };
+    }
+  }
+
+  return { fired, rulesEvaluated };
+}
+
+/**
+ * Whole years between a date of birth and a date of service
+ */
+export function getAgeOn(dateOfBirth: Date, on: Date): number {
+  const age = on.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  const birthdayPassed =
+    on.getUTCMonth() > dateOfBirth.getUTCMonth() ||
+    (on.getUTCMonth() === dateOfBirth.getUTCMonth() &&
+      on.getUTCDate() >= dateOfBirth.getUTCDate());
+  return birthdayPassed ? age : age - 1;
+}
+
+// Payments
+//
+// A payment batch is one check or EFT to a provider covering any number of
+// approved claims. Each claim gets a remittance record explaining the payment.
+
+export const PAYMENT_BATCH_CONSTRAINTS = {
+  MAX_CLAIMS: 500,
+} as const;
+
+// CARC 45: charge exceeds the allowed amount
+export const CONTRACTUAL_ADJUSTMENT_REASON = '45';
+// CARC 2: coinsurance; the default reason for a patient share without a breakdown
+export const PATIENT_RESPONSIBILITY_REASON = '2';
+// CARC 1: deductible, 3: copay, 119: benefit maximum for the period reached
+export const DEDUCTIBLE_REASON = '1';
+export const COPAY_REASON = '3';
+export const BENEFIT_MAXIMUM_REASON = '119';
+// CARC 96: non-covered charge. Reported on the 835 for rejected claim lines.
+export const NON_COVERED_CHARGE_REASON = '96';
+
+// One CAS adjustment: group code, claim adjustment reason code (CARC), amount
+export interface ClaimAdjustment {
+  groupCode: AdjustmentGroupCode;
+  reasonCode: string;
+  amount: number;
+}
+
+export interface Remittance extends TenantEntity {
+  batchId: string;
+  claimId: string;
+  providerId: string;
+  billedAmount: number;
+  allowedAmount: number;
+  paidAmount: number;
+  patientResponsibility: number;
+  // Together they account for billed - paid
+  adjustments: ClaimAdjustment[];
+  voidedAt?: Date;
+}
+
+export interface PaymentBatch extends TenantEntity {
+  batchNumber: string;
+  providerId: string;
+  method: PaymentMethod;
+  reference: string; // Check number or EFT trace number
+  status: PaymentBatchStatus;
+  totalPaid: number;
+  claimCount: number;
+  paidAt: Date;
+  issuedBy: string;
+  voidedAt?: Date;
+  voidedBy?: string;
+  voidReason?: string;
+  remittances?: Remittance[]; // Included on batch detail
+}
+
+// A generated X12 835 for a payment batch; regenerating adds a new one
+export interface RemittanceAdvice extends TenantEntity {
+  batchId: string;
+  providerId: string;
+  controlNumber: number; // ISA13 interchange control number
+  content: string; // The X12 document
+  jobId: string;
+}
+
+// How one claim of a bulk submission fared in intake
+export interface ClaimSubmissionResult {
+  index: number; // 1-based position of the claim in the file
+  reference: string; // The submitter's own claim ID, e.g. CLM01
+  status: 'accepted' | 'rejected';
+  claimId?: string;
+  claimNumber?: string;
+  errors?: string[];
+}
+
+// A file of claims taken in by a background job
+export interface ClaimSubmission extends TenantEntity {
+  format: ClaimSubmissionFormat;
+  status: ClaimSubmissionStatus;
+  submittedBy: string;
+  providerId?: string;
+  fileHash?: string; // Set for CSV/NDJSON imports
+  acknowledgment?: string; // X12 999 for EDI submissions
+  claimCount: number; // Claims that passed envelope checks and went to intake
+  acceptedCount: number;
+  rejectedCount: number;
+  results: ClaimSubmissionResult[];
+  jobId?: string;
+  completedAt?: Date;
+}
+
+// A claims export too large to stream, written to a file by a background job
+export interface ClaimExport extends TenantEntity {
+  requestedBy: string;
+  format: ClaimExportFormat;
+  status: ClaimExportStatus;
+  query: Record<string, unknown>; // Filters and sort as requested
+  rowCount: number;
+  fileSize?: number; // Bytes, once written
+  error?: string; // Why a failed export failed
+  jobId?: string;
+  completedAt?: Date;
+}
+
+// Claim appeals
+//
+// A provider or patient appeals a rejected claim within the organization's
+// appeal window. The appeal is decided by someone other than the processor
+// who rejected the claim.
+export interface Appeal extends TenantEntity {
+  claimId: string;
+  filedBy: string;
+  reason: string;
+  status: AppealStatus;
+  originalReviewerId?: string; // Who rejected the claim
+  deadlineAt: Date; // End of the appeal window it was filed in
+  decidedBy?: string;
+  decisionReason?: string;
+  decidedAt?: Date;
+  attachments: AppealAttachment[];
+}
+
+// Supporting document of an appeal; the content is downloaded separately
+export interface AppealAttachment {
+  id: string;
+  appealId: string;
+  fileName: string;
+  contentType: string;
+  size: number; // Bytes
+  createdAt: Date;
+}
+
+export const APPEAL_CONSTRAINTS = {
+  MAX_ATTACHMENTS: 5,
+  MAX_ATTACHMENT_BYTES: 2 * 1024 * 1024,
+  MAX_DEADLINE_DAYS: 365,
+} as const;
+
+/**
+ * The latest rejection of a claim, from its status history
+ */
+export function getLastRejection(claim: Pick<Claim, 'statusHistory'>): ClaimStatusChange | null {
+  for (let i = claim.statusHistory.length - 1; i >= 0; i--) {
+    if (claim.statusHistory[i].toStatus === 'rejected') {
+      return claim.statusHistory[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Last moment an appeal may be filed: appealDeadlineDays after the claim
+ * was rejected. Claims rejected before any history was kept count from
+ * when they were processed.
+ */
+export function getAppealDeadline(
+  claim: Pick<Claim, 'statusHistory' | 'processedAt' | 'updatedAt'>,
+  settings: OrganizationSettings
+): Date {
+  const days = settings.appealDeadlineDays ?? DEFAULT_ORGANIZATION_SETTINGS.appealDeadlineDays!;
+  const rejectedAt =
+    getLastRejection(claim)?.changedAt ?? claim.processedAt ?? claim.updatedAt;
+
+  return new Date(new Date(rejectedAt).getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+/**
+ * Adjustments implied by the amounts alone: the contractual write-down
+ * (billed - allowed) and the patient's share (allowed - paid)
+ */
+export function getDefaultAdjustments(
+  billedAmount: number,
+  allowedAmount: number,
+  paidAmount: number
+): ClaimAdjustment[] {
+  const adjustments: ClaimAdjustment[] = [];
+  const contractual = toCents(billedAmount) - toCents(allowedAmount);
+  const patientShare = toCents(allowedAmount) - toCents(paidAmount);
+
+  if (contractual !== 0) {
+    adjustments.push({
+      groupCode: 'CO',
+      reasonCode: CONTRACTUAL_ADJUSTMENT_REASON,
+      amount: contractual / 100,
+    });
+  }
+  if (patientShare !== 0) {
+    adjustments.push({
+      groupCode: 'PR',
+      reasonCode: PATIENT_RESPONSIBILITY_REASON,
+      amount: patientShare / 100,
+    });
+  }
+
+  return adjustments;
+}
+
+/**
+ * Adjustments for a claim paid as its cost sharing says: the contractual
+ * write-down and one PR adjustment per kind of patient responsibility
+ */
+export function getCostSharingAdjustments(
+  billedAmount: number,
+  costSharing: CostSharing
+): ClaimAdjustment[] {
+  const { patientResponsibility } = costSharing;
+  const adjustments = getDefaultAdjustments(
+    billedAmount,
+    costSharing.allowedAmount,
+    costSharing.allowedAmount
+  );
+
+  const patientShares: [string, number][] = [
+    [DEDUCTIBLE_REASON, patientResponsibility.deductible],
+    [COPAY_REASON, patientResponsibility.copay],
+    [PATIENT_RESPONSIBILITY_REASON, patientResponsibility.coinsurance],
+    [BENEFIT_MAXIMUM_REASON, patientResponsibility.overBenefitMax],
+  ];
+  for (const [reasonCode, amount] of patientShares) {
+    if (toCents(amount) !== 0) {
+      adjustments.push({ groupCode: 'PR', reasonCode, amount });
+    }
+  }
+
+  return adjustments;
+}
+
+/**
+ * A remittance balances when paid <= allowed <= billed, the adjustments
+ * add up to billed - paid and the PR adjustments to allowed - paid
+ */
+export function isRemittanceBalanced(
+  billedAmount: number,
+  allowedAmount: number,
+  paidAmount: number,
+  adjustments: readonly ClaimAdjustment[]
+): boolean {
+  const billed = toCents(billedAmount);
+  const allowed = toCents(allowedAmount);
+  const paid = toCents(paidAmount);
+
+  if (paid < 0 || paid > allowed || allowed > billed) {
+    return false;
+  }
+
+  const total = adjustments.reduce((sum, adjustment) => sum + toCents(adjustment.amount), 0);
+  const patientShare = adjustments
+    .filter((adjustment) => adjustment.groupCode === 'PR')
+    .reduce((sum, adjustment) => sum + toCents(adjustment.amount), 0);
+
+  return total === billed - paid && patientShare === allowed - paid;
+}
@@ -1,3 +1,5 @@
+import type { CodePairingViolation } from '../entities/index.js';
+
 export class DomainError extends Error {
   public readonly code: string;
   public readonly statusCode: number;
@@ -58,6 +60,27 @@ export class ConflictError extends DomainError {
   }
 }
 
+export class DuplicateNpiError extends ConflictError {
+  constructor(npi: string) {
+    super(`A provider with NPI '${npi}' already exists in this organization`, {
+      npi,
+      constraint: 'providers_npi_org_idx',
+    });
+    this.name = 'DuplicateNpiError';
+  }
+}
+
+export class DuplicateClaimError extends ConflictError {
+  constructor(original: { id: string; claimNumber: string }) {
+    super(`This claim duplicates claim ${original.claimNumber}`, {
+      originalClaimId: original.id,
+      originalClaimNumber: original.claimNumber,
+      originalClaimUrl: `/api/claims/${original.id}`,
+    });
+    this.name = 'DuplicateClaimError';
+  }
+}
+
 // Validation Errors
 export class ValidationError extends DomainError {
   constructor(message: string, details?: Record<string, unknown>) {
@@ -66,15 +89,30 @@ export class ValidationError extends DomainError {
   }
 }
 
-export class InvalidClaimStatusTransitionError extends DomainError {
-  constructor(fromStatus: string, toStatus: string) {
+export class InvalidAssigneeError extends ValidationError {
+  constructor(processorId: string) {
+    super('Claims can only be assigned to an active claims processor in this organization', {
+      processorId,
+    });
+    this.name = 'InvalidAssigneeError';
+  }
+}
+
+export class InvalidStatusTransitionError extends DomainError {
+  public readonly allowedTransitions: string[];
+
+  constructor(fromStatus: string, toStatus: string, allowedTransitions: string[] = []) {
+    const allowedMessage = allowedTransitions.length > 0
+      ? `allowed next statuses: ${allowedTransitions.join(', ')}`
+      : 'no further transitions are allowed';
     super(
-      `Invalid status transition from '${fromStatus}' to '${toStatus}'`,
+      `Invalid status transition from '${fromStatus}' to '${toStatus}' (${allowedMessage})`,
       'INVALID_STATUS_TRANSITION',
       400,
-      { fromStatus, toStatus }
+      { fromStatus, toStatus, allowedTransitions }
     );
-    this.name = 'InvalidClaimStatusTransitionError';
+    this.name = 'InvalidStatusTransitionError';
+    this.allowedTransitions = allowedTransitions;
   }
 }
 
@@ -90,19 +128,83 @@ export class ClaimNotModifiableError extends DomainError {
   }
 }
 
+export class ClaimNotAppealableError extends DomainError {
+  constructor(claimId: string, status: string) {
+    super(
+      `Claim '${claimId}' cannot be appealed in status '${status}'; only rejected claims can`,
+      'CLAIM_NOT_APPEALABLE',
+      400,
+      { claimId, status }
+    );
+    this.name = 'ClaimNotAppealableError';
+  }
+}
+
+export class AppealDeadlinePassedError extends DomainError {
+  constructor(claimId: string, deadlineAt: Date) {
+    super(
+      `The appeal window of claim '${claimId}' closed on ${deadlineAt.toISOString()}`,
+      'APPEAL_DEADLINE_PASSED',
+      400,
+      { claimId, deadlineAt: deadlineAt.toISOString() }
+    );
+    this.name = 'AppealDeadlinePassedError';
+  }
+}
+
 // Business Logic Errors
 export class InvalidDiagnosisCodeError extends DomainError {
-  constructor(code: string) {
+  constructor(code: string, serviceDate?: Date) {
+    const asOf = serviceDate?.toISOString().slice(0, 10);
     super(
-      `Invalid diagnosis code: '${code}'`,
+      asOf
+        ? `Diagnosis code '${code}' is not a billable code in force on ${asOf}`
+        : `Invalid diagnosis code: '${code}'`,
       'INVALID_DIAGNOSIS_CODE',
       400,
-      { diagnosisCode: code }
+      asOf ? { diagnosisCode: code, serviceDate: asOf } : { diagnosisCode: code }
     );
     this.name = 'InvalidDiagnosisCodeError';
   }
 }
 
+export class InvalidProcedureCodeError extends DomainError {
+  constructor(code: string, serviceDate: Date) {
+    const asOf = serviceDate.toISOString().slice(0, 10);
+    super(
+      `Procedure code '${code}' is not in force on ${asOf}`,
+      'INVALID_PROCEDURE_CODE',
+      400,
+      { procedureCode: code, serviceDate: asOf }
+    );
+    this.name = 'InvalidProcedureCodeError';
+  }
+}
+
+export class CodePairingError extends ValidationError {
+  constructor(violations: CodePairingViolation[]) {
+    const [first] = violations;
+    super(
+      `Procedure code '${first.procedureCode}' cannot be billed with diagnosis code '${first.diagnosisCode}'`,
+      { procedureCode: first.procedureCode, diagnosisCode: first.diagnosisCode, violations }
+    );
+    this.name = 'CodePairingError';
+  }
+}
+
+export class NoActiveCoverageError extends DomainError {
+  constructor(patientId: string, serviceDate: Date) {
+    const asOf = serviceDate.toISOString().slice(0, 10);
+    super(
+      `Patient '${patientId}' has no coverage in force on ${asOf}`,
+      'NO_ACTIVE_COVERAGE',
+      400,
+      { patientId, serviceDate: asOf }
+    );
+    this.name = 'NoActiveCoverageError';
+  }
+}
+
 export class InvalidClaimAmountError extends DomainError {
   constructor(amount: number, min: number, max: number) {
     super(
@@ -162,3 +264,15 @@ export class IdempotencyConflictError extends DomainError {
     this.name = 'IdempotencyConflictError';
   }
 }
+
+export class IdempotencyKeyReusedError extends DomainError {
+  constructor(idempotencyKey: string) {
+    super(
+      `Idempotency key '${idempotencyKey}' was already used for a different request`,
+      'IDEMPOTENCY_KEY_REUSED',
+      422,
+      { idempotencyKey }
+    );
+    this.name = 'IdempotencyKeyReusedError';
+  }
+}
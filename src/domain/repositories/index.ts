@@ -1,5 +1,6 @@
 import type {
   Claim,
+  ClaimLine,
   Organization,
   Patient,
   PatientStatusEvent,
@@ -7,13 +8,46 @@ import type {
   User,
   JobProcessingLog,
   AuditLog,
+  DiagnosisCode,
+  AdjudicationFacts,
+  AdjudicationRule,
+  AdjudicationTrace,
+  Appeal,
+  ClaimRiskAssessment,
+  ClaimRiskFeatures,
+  AppealAttachment,
+  ClaimAdjustment,
+  ClaimExport,
+  ClaimSubmission,
+  ClaimSubmissionResult,
+  BenefitAccumulator,
+  Coverage,
+  FeeScheduleEntry,
+  Plan,
+  PaymentBatch,
+  Remittance,
+  RemittanceAdvice,
+  ProcedureCode,
+  CodePairingRule,
+  RoutableClaim,
+  RoutingCandidate,
 } from '../entities/index.js';
 import type {
+  AppealStatus,
+  ClaimFlag,
+  ClaimLineStatus,
   ClaimStatus,
+  ClaimExportFormat,
+  ClaimSubmissionFormat,
+  ClaimSubmissionStatus,
   PaginatedResult,
   PaginationParams,
+  PaymentBatchStatus,
+  PaymentMethod,
+  RiskReason,
   SortParams,
   TenantContext,
+  UserRole,
 } from '../../shared/types/index.js';
 
 // Base repository interface with tenant awareness
@@ -41,6 +75,9 @@ export interface ClaimFilters {
   minAmount?: number;
   maxAmount?: number;
   assignedTo?: string;
+  procedureCode?: string; // Claims with at least one line billing this code
+  flag?: ClaimFlag;
+  minRiskScore?: number;
 }
 
 export interface ClaimSortField {
@@ -51,7 +88,9 @@ export interface ClaimSortField {
 export interface IClaimRepository {
   // Standard CRUD with tenant filtering
   findById(id: string, context: TenantContext): Promise<Claim | null>;
+  findByIds(ids: string[], context: TenantContext): Promise<Claim[]>;
   findByClaimNumber(claimNumber: string, context: TenantContext): Promise<Claim | null>;
+  findByIdempotencyKey(key: string, context: TenantContext): Promise<Claim | null>;
   
   // List with filtering, sorting, pagination
   findMany(
@@ -70,11 +109,21 @@ export interface IClaimRepository {
     statusFilter?: ClaimStatus[]
   ): Promise<Claim[]>;
   
-  // Create
-  create(
-    data: Omit<Claim, 'id' | 'createdAt' | 'updatedAt' | 'claimNumber' | 'statusHistory'>,
-    context: TenantContext
-  ): Promise<Claim>;
+  // Create, with its lines, in one transaction; refuses exact duplicates of
+  // an earlier claim and flags near ones
+  create(data: NewClaim, context: TenantContext): Promise<Claim>;
+
+  // Lines of a claim the caller can already see
+  findLines(claimId: string, context: TenantContext): Promise<ClaimLine[]>;
+
+  // Approve or reject one line; the claim amount is recomputed
+  decideLine(
+    claimId: string,
+    lineId: string,
+    status: Exclude<ClaimLineStatus, 'pending'>,
+    context: TenantContext,
+    reason?: string
+  ): Promise<ClaimLineDecision | null>;
   
   // Update status (with audit trail)
   updateStatus(
@@ -90,24 +139,153 @@ export interface IClaimRepository {
     newStatus: ClaimStatus,
     context: TenantContext,
     reason?: string
-  ): Promise<{ updated: string[]; failed: string[] }>;
+  ): Promise<{ updated: string[]; failed: { id: string; reason: string }[] }>;
   
-  // Assignment
+  // Assignment - keeps claims.assignedTo and users.assignedClaimIds in step
   assignToProcessor(
     claimId: string,
     processorId: string,
     context: TenantContext
   ): Promise<Claim | null>;
+  unassign(claimId: string, context: TenantContext): Promise<Claim | null>;
+  // Routing - no role check, organization scoped
+  assignToProcessorInternal(
+    claimId: string,
+    processorId: string,
+    organizationId: string
+  ): Promise<Claim | null>;
+  findRoutableInternal(organizationId: string, claimIds?: string[]): Promise<RoutableClaim[]>;
+  // Rebuild processors' assignedClaimIds from claims.assignedTo (background job)
+  reconcileAssignmentsInternal(organizationId: string): Promise<AssignmentReconciliationResult>;
+  // Adjudication (background job)
+  findAdjudicationFactsInternal(
+    claimId: string,
+    organizationId: string
+  ): Promise<{ claim: Claim; facts: AdjudicationFacts } | null>;
+  recordAdjudicationInternal(
+    claimId: string,
+    organizationId: string,
+    trace: AdjudicationTrace
+  ): Promise<Claim | null>;
+  // Risk scoring (background job)
+  findRiskFeaturesInternal(
+    claimId: string,
+    organizationId: string
+  ): Promise<{ claim: Claim; features: ClaimRiskFeatures } | null>;
+  recordRiskScoreInternal(
+    claimId: string,
+    organizationId: string,
+    assessment: ClaimRiskAssessment
+  ): Promise<Claim | null>;
+  // Providers ranked by their scored claims' risk
+  findTopRiskProviders(
+    context: TenantContext,
+    options: ProviderRiskReportOptions
+  ): Promise<ProviderRiskSummary[]>;
   
   // Count for pagination
   count(context: TenantContext, filters?: ClaimFilters): Promise<number>;
+
+  // Every matching claim, in batches read through a server-side cursor
+  streamMany(
+    context: TenantContext,
+    options: { filters?: ClaimFilters; sort?: ClaimSortField },
+    batchSize: number
+  ): AsyncGenerator<Claim[]>;
+}
+
+// Line as submitted; numbering and status are assigned on create
+export type NewClaimLine = Omit<
+  ClaimLine,
+  | 'id'
+  | 'organizationId'
+  | 'claimId'
+  | 'lineNumber'
+  | 'status'
+  | 'denialReason'
+  | 'scheduledAmount'
+  | 'allowedAmount'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
+export type NewClaim = Omit<
+  Claim,
+  | 'id'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'claimNumber'
+  | 'statusHistory'
+  | 'lines'
+  | 'adjudicationTrace'
+  | 'billedAmount'
+  | 'flags'
+  | 'duplicateOfClaimId'
+  | 'duplicateScore'
+  | 'riskScore'
+  | 'riskReasons'
+  | 'riskScoredAt'
+  | 'allowedAmount'
+  | 'planPaidAmount'
+  | 'patientResponsibility'
+  | 'benefitAccumulatorId'
+> & { lines: NewClaimLine[] };
+
+export interface ClaimLineDecision {
+  claim: Claim; // With all lines
+  line: ClaimLine;
+  previousLine: ClaimLine;
+  previousAmount: number;
+}
+
+export type AssignmentReconciliationResult = {
+  // Users whose assignedClaimIds were rewritten
+  usersRepaired: string[];
+  // Claims whose assignee was not an active claims processor
+  claimsUnassigned: string[];
+};
+
+export interface ProviderRiskReportOptions {
+  limit: number;
+  fromDate?: Date; // Service date range of the claims considered
+  toDate?: Date;
+  highRiskScore: number; // Claims at or above it count as high risk
+}
+
+// A provider's row in the risk report
+export interface ProviderRiskSummary {
+  providerId: string;
+  providerName: string;
+  npi: string;
+  scoredClaimCount: number;
+  highRiskClaimCount: number;
+  averageRiskScore: number;
+  maxRiskScore: number;
+  highRiskAmount: number; // Billed on high-risk claims
+  // How many of the provider's claims each reason was given on
+  reasonCounts: Record<RiskReason, number>;
 }
 
 // Patient Repository
+export interface PatientFilters {
+  // Matches first name, last name, full name or member ID
+  search?: string;
+  isActive?: boolean;
+}
+
 export interface IPatientRepository {
   findById(id: string, context: TenantContext): Promise<Patient | null>;
+  // Role-filtered lookup (providers: patients they have claims with, patients: themselves)
+  findAccessibleById(id: string, context: TenantContext): Promise<Patient | null>;
   findByMemberId(memberId: string, context: TenantContext): Promise<Patient | null>;
   findMany(context: TenantContext, options?: QueryOptions): Promise<Patient[]>;
+  search(
+    context: TenantContext,
+    options: {
+      filters?: PatientFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<Patient>>;
   create(
     data: Omit<Patient, 'id' | 'createdAt' | 'updatedAt'>,
     context: TenantContext
@@ -117,10 +295,24 @@ export interface IPatientRepository {
 }
 
 // Provider Repository
+export interface ProviderFilters {
+  specialty?: string;
+  isActive?: boolean;
+}
+
 export interface IProviderRepository {
   findById(id: string, context: TenantContext): Promise<Provider | null>;
+  // Role-filtered lookup (providers: their own record only)
+  findAccessibleById(id: string, context: TenantContext): Promise<Provider | null>;
   findByNpi(npi: string, context: TenantContext): Promise<Provider | null>;
   findMany(context: TenantContext, options?: QueryOptions): Promise<Provider[]>;
+  search(
+    context: TenantContext,
+    options: {
+      filters?: ProviderFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<Provider>>;
   create(
     data: Omit<Provider, 'id' | 'createdAt' | 'updatedAt'>,
     context: TenantContext
@@ -156,23 +348,431 @@ export interface IPatientStatusRepository {
 }
 
 // User Repository (for authentication)
+export interface UserFilters {
+  role?: UserRole;
+  isActive?: boolean;
+}
+
 export interface IUserRepository {
   findById(id: string): Promise<User | null>;
   findByEmail(email: string): Promise<User | null>;
   findByIdWithinOrganization(id: string, organizationId: string): Promise<User | null>;
+  findManyWithinOrganization(
+    organizationId: string,
+    options: {
+      filters?: UserFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<User>>;
   create(data: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User>;
   update(id: string, data: Partial<User>): Promise<User | null>;
   updateAssignedClaims(userId: string, claimIds: string[]): Promise<void>;
+  // Active claims processors with their current open-claim load
+  findRoutingCandidates(organizationId: string): Promise<RoutingCandidate[]>;
 }
 
 // Organization Repository
+export interface OrganizationFilters {
+  isActive?: boolean;
+}
+
+// Organizations are the tenants themselves, so lookups are not tenant filtered
 export interface IOrganizationRepository {
   findById(id: string): Promise<Organization | null>;
   findByCode(code: string): Promise<Organization | null>;
+  search(options: {
+    filters?: OrganizationFilters;
+    pagination: PaginationParams;
+  }): Promise<PaginatedResult<Organization>>;
   create(data: Omit<Organization, 'id' | 'createdAt' | 'updatedAt'>): Promise<Organization>;
   update(id: string, data: Partial<Organization>): Promise<Organization | null>;
 }
 
+// Diagnosis code typeahead
+export interface DiagnosisCodeSearch {
+  search: string; // Code prefix or description fragment
+  asOf: Date; // Only versions in force on this date
+  billableOnly?: boolean;
+  limit: number;
+}
+
+// A code as published in one CMS release file
+export type DiagnosisCodeReleaseEntry = Pick<
+  DiagnosisCode,
+  'code' | 'shortDescription' | 'description' | 'isBillable'
+>;
+
+export interface DiagnosisCodeImportResult {
+  inserted: number; // Codes new in this release
+  revised: number; // Codes whose description or billable flag changed
+  terminated: number; // Codes dropped by this release
+  unchanged: number;
+}
+
+// Code sets are shared reference data, so lookups are not tenant filtered
+export interface IDiagnosisCodeRepository {
+  search(options: DiagnosisCodeSearch): Promise<DiagnosisCode[]>;
+  findBillableInForce(codes: string[], asOf: Date): Promise<DiagnosisCode[]>;
+  importRelease(
+    entries: DiagnosisCodeReleaseEntry[],
+    effectiveDate: Date
+  ): Promise<DiagnosisCodeImportResult>;
+}
+
+export interface IProcedureCodeRepository {
+  findInForce(codes: string[], asOf: Date): Promise<ProcedureCode[]>;
+}
+
+// Code pairing rules
+export interface CodePairingRuleFilters {
+  procedureCode?: string;
+  isActive?: boolean;
+}
+
+export interface ICodePairingRuleRepository {
+  findById(id: string, context: TenantContext): Promise<CodePairingRule | null>;
+  findActiveForProcedures(
+    procedureCodes: string[],
+    context: TenantContext
+  ): Promise<CodePairingRule[]>;
+  search(
+    context: TenantContext,
+    options: {
+      filters?: CodePairingRuleFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<CodePairingRule>>;
+  create(
+    data: Omit<CodePairingRule, 'id' | 'createdAt' | 'updatedAt'>,
+    context: TenantContext
+  ): Promise<CodePairingRule>;
+  update(
+    id: string,
+    data: Partial<CodePairingRule>,
+    context: TenantContext
+  ): Promise<CodePairingRule | null>;
+}
+
+// Adjudication rules
+export interface AdjudicationRuleFilters {
+  isActive?: boolean;
+}
+
+export interface IAdjudicationRuleRepository {
+  findById(id: string, context: TenantContext): Promise<AdjudicationRule | null>;
+  search(
+    context: TenantContext,
+    options: {
+      filters?: AdjudicationRuleFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<AdjudicationRule>>;
+  create(
+    data: Omit<AdjudicationRule, 'id' | 'createdAt' | 'updatedAt'>,
+    context: TenantContext
+  ): Promise<AdjudicationRule>;
+  update(
+    id: string,
+    data: Partial<AdjudicationRule>,
+    context: TenantContext
+  ): Promise<AdjudicationRule | null>;
+  // Active rules in evaluation order (background job)
+  findActiveInternal(organizationId: string): Promise<AdjudicationRule[]>;
+}
+
+// Plans and coverages
+export interface PlanFilters {
+  isActive?: boolean;
+}
+
+// A null annual maximum, deductible or out-of-pocket maximum removes it
+export type PlanChanges = Partial<
+  Pick<Plan, 'code' | 'name' | 'planYearStartMonth' | 'coinsurancePercent' | 'copays' | 'isActive'>
+> & {
+  annualBenefitMax?: number | null;
+  deductible?: number | null;
+  outOfPocketMax?: number | null;
+};
+
+export interface IPlanRepository {
+  findById(id: string, context: TenantContext): Promise<Plan | null>;
+  search(
+    context: TenantContext,
+    options: {
+      filters?: PlanFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<Plan>>;
+  create(
+    data: Omit<Plan, 'id' | 'createdAt' | 'updatedAt'>,
+    context: TenantContext
+  ): Promise<Plan>;
+  update(id: string, data: PlanChanges, context: TenantContext): Promise<Plan | null>;
+}
+
+export type NewCoverage = Pick<Coverage, 'patientId' | 'planId' | 'effectiveDate' | 'terminationDate'>;
+
+// A null termination date makes the coverage open-ended again
+export interface CoverageChanges {
+  effectiveDate?: Date;
+  terminationDate?: Date | null;
+}
+
+export interface ICoverageRepository {
+  // A patient's coverages, latest first, with their plans
+  findByPatientId(patientId: string, context: TenantContext): Promise<Coverage[]>;
+  findById(patientId: string, id: string, context: TenantContext): Promise<Coverage | null>;
+  // The coverage in force on a date, with its plan
+  findInForce(patientId: string, date: Date, context: TenantContext): Promise<Coverage | null>;
+  // Both refuse a coverage overlapping another of the patient's
+  create(data: NewCoverage, context: TenantContext): Promise<Coverage>;
+  update(
+    patientId: string,
+    id: string,
+    data: CoverageChanges,
+    context: TenantContext
+  ): Promise<Coverage | null>;
+}
+
+export interface IBenefitAccumulatorRepository {
+  // A patient's accumulators, latest plan year first
+  findByPatientId(patientId: string, context: TenantContext): Promise<BenefitAccumulator[]>;
+  findForPlanYear(
+    patientId: string,
+    planId: string,
+    planYearStart: Date,
+    context: TenantContext
+  ): Promise<BenefitAccumulator | null>;
+}
+
+// Fee schedules
+export interface FeeScheduleFilters {
+  procedureCode?: string;
+  providerId?: string;
+  specialty?: string; // Case-insensitive
+  activeOn?: Date; // Entries in force on this date
+}
+
+export type NewFeeScheduleEntry = Pick<
+  FeeScheduleEntry,
+  'procedureCode' | 'providerId' | 'specialty' | 'amount' | 'effectiveDate' | 'terminationDate'
+>;
+
+// A null termination date makes the entry open-ended again
+export interface FeeScheduleChanges {
+  amount?: number;
+  terminationDate?: Date | null;
+}
+
+export interface IFeeScheduleRepository {
+  findById(id: string, context: TenantContext): Promise<FeeScheduleEntry | null>;
+  search(
+    context: TenantContext,
+    options: {
+      filters?: FeeScheduleFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<FeeScheduleEntry>>;
+  create(data: NewFeeScheduleEntry, context: TenantContext): Promise<FeeScheduleEntry>;
+  update(
+    id: string,
+    data: FeeScheduleChanges,
+    context: TenantContext
+  ): Promise<FeeScheduleEntry | null>;
+  // Insert the entries, or replace the amount and termination date of those
+  // with the same scope, procedure code and effective date, in one transaction
+  upsertMany(
+    entries: NewFeeScheduleEntry[],
+    context: TenantContext
+  ): Promise<{
+    created: FeeScheduleEntry[];
+    updated: { before: FeeScheduleEntry; after: FeeScheduleEntry }[];
+  }>;
+}
+
+// Payments
+export interface PaymentBatchFilters {
+  providerId?: string;
+  status?: PaymentBatchStatus;
+  paidFrom?: Date;
+  paidTo?: Date;
+}
+
+// One claim of a new batch, with its amounts already balanced
+export interface NewRemittance {
+  claimId: string;
+  billedAmount: number;
+  allowedAmount: number;
+  paidAmount: number;
+  patientResponsibility: number;
+  adjustments: ClaimAdjustment[];
+}
+
+export interface NewPaymentBatch {
+  providerId: string;
+  method: PaymentMethod;
+  reference: string;
+  paidAt: Date;
+  remittances: NewRemittance[];
+}
+
+export interface IPaymentRepository {
+  // Providers only see their own batches
+  findById(id: string, context: TenantContext): Promise<PaymentBatch | null>;
+  search(
+    context: TenantContext,
+    options: {
+      filters?: PaymentBatchFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<PaymentBatch>>;
+  // Pays the claims: they must still be approved and billed by the provider
+  createBatch(data: NewPaymentBatch, context: TenantContext): Promise<PaymentBatch>;
+  // Returns the batch's claims to approved
+  voidBatch(id: string, reason: string, context: TenantContext): Promise<PaymentBatch | null>;
+  // The batch with its claims, patients and payee (background job)
+  findRemittanceAdviceSourceInternal(
+    id: string,
+    organizationId: string
+  ): Promise<RemittanceAdviceSource | null>;
+}
+
+// Claim appeals
+export interface NewAppealAttachment {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface NewAppeal {
+  reason: string;
+  originalReviewerId?: string;
+  deadlineAt: Date;
+  attachments: NewAppealAttachment[];
+}
+
+export interface AppealDecision {
+  outcome: Exclude<AppealStatus, 'pending'>;
+  reason: string;
+}
+
+export interface IAppealRepository {
+  // Oldest first; tenant-filtered only, callers check access to the claim
+  findByClaimId(claimId: string, context: TenantContext): Promise<Appeal[]>;
+  findAttachment(
+    claimId: string,
+    appealId: string,
+    attachmentId: string,
+    context: TenantContext
+  ): Promise<(AppealAttachment & { content: Buffer }) | null>;
+  // Moves the claim from rejected to appealed and off its processor
+  create(
+    claimId: string,
+    data: NewAppeal,
+    context: TenantContext
+  ): Promise<Appeal | null>;
+  // Moves the claim to approved (overturned) or back to rejected (upheld)
+  decide(
+    claimId: string,
+    appealId: string,
+    decision: AppealDecision,
+    context: TenantContext
+  ): Promise<Appeal | null>;
+}
+
+// Remittance advice (X12 835)
+// A paid claim as the 835 reports it
+export interface RemittanceAdviceClaim {
+  remittance: Remittance;
+  claimNumber: string;
+  serviceDate: Date;
+  patient: Pick<Patient, 'firstName' | 'lastName' | 'memberId'>;
+  // Rejected before payment; their charges are not part of billedAmount
+  rejectedLines: Pick<ClaimLine, 'lineNumber' | 'chargeAmount' | 'denialReason'>[];
+}
+
+// Everything the 835 of a batch is built from
+export interface RemittanceAdviceSource {
+  batch: PaymentBatch;
+  payee: Pick<Provider, 'name' | 'npi' | 'address'>;
+  claims: RemittanceAdviceClaim[];
+}
+
+export type NewRemittanceAdvice = Omit<RemittanceAdvice, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface IRemittanceAdviceRepository {
+  // Providers only see their own batches' advice
+  findLatestByBatch(batchId: string, context: TenantContext): Promise<RemittanceAdvice | null>;
+  // Background job methods
+  nextControlNumberInternal(): Promise<number>;
+  createInternal(data: NewRemittanceAdvice): Promise<RemittanceAdvice>;
+}
+
+// Claim submissions (bulk intake)
+export interface NewClaimSubmission {
+  format: ClaimSubmissionFormat;
+  status: ClaimSubmissionStatus;
+  content: string;
+  fileHash?: string;
+  acknowledgment?: string;
+  claimCount: number;
+  jobId?: string;
+}
+
+export interface IClaimSubmissionRepository {
+  // Providers see their own submissions, admins the organization's
+  findById(id: string, context: TenantContext): Promise<ClaimSubmission | null>;
+  findByJobId(jobId: string, context: TenantContext): Promise<ClaimSubmission | null>;
+  // Organization-wide: an import is the same whoever sends the file again
+  findByFileHash(fileHash: string, organizationId: string): Promise<ClaimSubmission | null>;
+  search(
+    context: TenantContext,
+    options: {
+      filters?: { status?: ClaimSubmissionStatus };
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<ClaimSubmission>>;
+  // Throws ConflictError when the organization already has the file
+  create(data: NewClaimSubmission, context: TenantContext): Promise<ClaimSubmission>;
+  // Background job methods
+  findWithContentInternal(
+    id: string,
+    organizationId: string
+  ): Promise<{ submission: ClaimSubmission; content: string } | null>;
+  markProcessingInternal(id: string, organizationId: string): Promise<void>;
+  // Appends to the report and bumps the accepted or rejected count
+  addResultInternal(
+    id: string,
+    organizationId: string,
+    result: ClaimSubmissionResult
+  ): Promise<void>;
+  completeInternal(id: string, organizationId: string): Promise<ClaimSubmission | null>;
+  // Frees the file hash of a submission whose job could not be queued
+  deleteInternal(id: string, organizationId: string): Promise<void>;
+}
+
+// Claims exports (background)
+export interface NewClaimExport {
+  format: ClaimExportFormat;
+  query: Record<string, unknown>;
+  jobId: string;
+}
+
+export interface IClaimExportRepository {
+  // Requesters see their own exports, admins the organization's
+  findById(id: string, context: TenantContext): Promise<ClaimExport | null>;
+  create(data: NewClaimExport, context: TenantContext): Promise<ClaimExport>;
+  // Background job methods
+  findByIdInternal(id: string, organizationId: string): Promise<ClaimExport | null>;
+  markProcessingInternal(id: string, organizationId: string): Promise<void>;
+  completeInternal(
+    id: string,
+    organizationId: string,
+    result: { rowCount: number; fileSize: number }
+  ): Promise<ClaimExport | null>;
+  failInternal(id: string, organizationId: string, error: string): Promise<void>;
+}
+
 // Job Processing Log Repository (for idempotency)
 export interface IJobProcessingLogRepository {
   findByIdempotencyKey(
@@ -193,14 +793,32 @@ export interface IJobProcessingLogRepository {
 }
 
 // Audit Log Repository
+export interface AuditLogFilters {
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+}
+
 export interface IAuditLogRepository {
   create(data: Omit<AuditLog, 'id' | 'createdAt' | 'updatedAt'>): Promise<AuditLog>;
   
+  createMany(data: Omit<AuditLog, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<AuditLog[]>;
+  
   findByEntity(
     entityType: string,
     entityId: string,
     context: TenantContext
   ): Promise<AuditLog[]>;
+  
+  // List with filtering and pagination (admin audit trail)
+  findMany(
+    context: TenantContext,
+    options: {
+      filters?: AuditLogFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<AuditLog>>;
 }
 
 // Transaction support
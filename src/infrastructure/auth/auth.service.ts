@@ -4,7 +4,12 @@ import { env } from '../../config/env.js';
 import { userRepository, organizationRepository } from '../database/repositories/index.js';
 import type { User } from '../../domain/entities/index.js';
 import type { TenantContext, UserRole } from '../../shared/types/index.js';
-import { UnauthorizedError, NotFoundError, ValidationError } from '../../domain/errors/index.js';
+import {
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../../domain/errors/index.js';
 import { logger } from '../../shared/utils/logger.js';
 
 export interface JwtPayload {
@@ -14,6 +19,7 @@ export interface JwtPayload {
   role: UserRole;
   providerId?: string;
   patientId?: string;
+  iat?: number; // Issued-at (seconds), set by jwt.sign
 }
 
 export interface AuthTokens {
@@ -124,8 +130,7 @@ export class AuthService {
     password: string,
     firstName: string,
     lastName: string,
-    organizationCode: string,
-    role: UserRole = 'patient'
+    organizationCode: string
   ): Promise<{ user: User; tokens: AuthTokens }> {
     // Find organization by code
     const organization = await organizationRepository.findByCode(organizationCode);
@@ -138,6 +143,10 @@ export class AuthService {
       throw new ValidationError('Organization is not active');
     }
 
+    if (organization.settings?.allowSelfRegistration === false) {
+      throw new ForbiddenError('Self-registration is disabled for this organization');
+    }
+
     // Check if email already exists
     const existingUser = await userRepository.findByEmail(email);
     if (existingUser) {
@@ -154,7 +163,8 @@ export class AuthService {
       firstName,
       lastName,
       organizationId: organization.id,
-      role,
+      // Only patients may self-register; staff are created by an admin
+      role: 'patient',
       isActive: true,
       assignedClaimIds: [],
     });
@@ -181,8 +191,12 @@ export class AuthService {
    * Get tenant context from JWT payload
    */
   async getTenantContext(payload: JwtPayload): Promise<TenantContext> {
-    // Fetch fresh user data to get current assigned claims
-    const user = await userRepository.findById(payload.userId);
+    // Fetch fresh user data to get current assigned claims, and the
+    // organization so a deactivated tenant's sessions stop working at once
+    const [user, org] = await Promise.all([
+      userRepository.findById(payload.userId),
+      organizationRepository.findById(payload.organizationId),
+    ]);
 
     if (!user) {
       throw new UnauthorizedError('User not found');
@@ -192,13 +206,28 @@ export class AuthService {
       throw new UnauthorizedError('Account is deactivated');
     }
 
+    if (!org || !org.isActive) {
+      throw new UnauthorizedError('Organization is inactive');
+    }
+
+    // Tokens issued before the tenant's sessions were revoked stay invalid
+    // even after the organization is reactivated
+    if (
+      org.sessionsRevokedAt &&
+      (payload.iat ?? 0) < Math.floor(org.sessionsRevokedAt.getTime() / 1000)
+    ) {
+      throw new UnauthorizedError('Session has been revoked');
+    }
+
+    // Role and links come from the user record so admin changes apply
+    // to existing tokens on their next request
     return {
       organizationId: payload.organizationId,
       userId: payload.userId,
-      role: payload.role,
+      role: user.role,
       assignedClaimIds: user.assignedClaimIds,
-      providerId: payload.providerId,
-      patientId: payload.patientId,
+      providerId: user.providerId,
+      patientId: user.patientId,
     };
   }
 }
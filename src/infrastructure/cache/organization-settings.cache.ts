@@ -0,0 +1,55 @@
+import { organizationRepository } from '../database/repositories/index.js';
+import {
+  DEFAULT_ORGANIZATION_SETTINGS,
+  type OrganizationSettings,
+} from '../../domain/entities/index.js';
+
+// Simple in-memory cache of tenant settings
+// Settings are read on every claim write, but change rarely
+interface SettingsCacheEntry {
+  settings: OrganizationSettings;
+  expiresAt: number;
+}
+
+const SETTINGS_TTL_MS = 60 * 1000;
+
+const settingsStore = new Map<string, SettingsCacheEntry>();
+
+/**
+ * Get the effective settings for an organization.
+ * Missing keys fall back to platform defaults.
+ */
+export async function getOrganizationSettings(
+  organizationId: string
+): Promise<OrganizationSettings> {
+  const now = Date.now();
+  const cached = settingsStore.get(organizationId);
+
+  if (cached && cached.expiresAt > now) {
+    return cached.settings;
+  }
+
+  const organization = await organizationRepository.findById(organizationId);
+  const settings: OrganizationSettings = {
+    ...DEFAULT_ORGANIZATION_SETTINGS,
+    ...(organization?.settings ?? {}),
+  };
+
+  settingsStore.set(organizationId, {
+    settings,
+    expiresAt: now + SETTINGS_TTL_MS,
+  });
+
+  return settings;
+}
+
+/**
+ * Drop cached settings, e.g. after an admin edits them
+ */
+export function invalidateOrganizationSettings(organizationId?: string): void {
+  if (organizationId) {
+    settingsStore.delete(organizationId);
+  } else {
+    settingsStore.clear();
+  }
+}
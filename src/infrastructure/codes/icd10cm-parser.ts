@@ -0,0 +1,64 @@
+import type { DiagnosisCodeReleaseEntry } from '../../domain/repositories/index.js';
+import { formatDiagnosisCode } from '../../domain/entities/index.js';
+
+// Undotted code as it appears in the CMS files, e.g. 'S62309A'
+const FLAT_CODE_PATTERN = /^[A-Z][0-9][0-9A-Z][0-9A-Z]{0,4}$/;
+
+/**
+ * Parse one line of a CMS ICD-10-CM release file. Two layouts are accepted:
+ *
+ * - Order file (icd10cm_order_YYYY.txt), fixed width:
+ *   cols 1-5 order number, 7-13 code, 15 billable flag (1 = valid for
+ *   HIPAA transactions, 0 = category header), 17-76 short description,
+ *   78- long description.
+ * - Codes file (icd10cm_codes_YYYY.txt): code, whitespace, description.
+ *   It lists billable codes only.
+ *
+ * Returns null for blank lines; throws on anything else it cannot read.
+ */
+export function parseIcd10CmLine(
+  line: string,
+  lineNumber: number
+): DiagnosisCodeReleaseEntry | null {
+  const text = line.replace(/\r$/, '');
+  if (text.trim() === '') {
+    return null;
+  }
+
+  let flatCode: string;
+  let entry: Omit<DiagnosisCodeReleaseEntry, 'code'>;
+
+  if (/^\d{5} /.test(text)) {
+    flatCode = text.slice(6, 13).trim();
+    const flag = text.charAt(14);
+    if (flag !== '0' && flag !== '1') {
+      throw new Error(`Line ${lineNumber}: billable flag must be 0 or 1`);
+    }
+    entry = {
+      isBillable: flag === '1',
+      shortDescription: text.slice(16, 76).trim(),
+      description: text.slice(77).trim(),
+    };
+  } else {
+    const match = /^(\S+)\s+(.+)$/.exec(text);
+    if (!match) {
+      throw new Error(`Line ${lineNumber}: expected a code followed by a description`);
+    }
+    flatCode = match[1];
+    const description = match[2].trim();
+    entry = {
+      isBillable: true,
+      shortDescription: description.slice(0, 60),
+      description,
+    };
+  }
+
+  if (!FLAT_CODE_PATTERN.test(flatCode)) {
+    throw new Error(`Line ${lineNumber}: '${flatCode}' is not an ICD-10-CM code`);
+  }
+  if (entry.description === '') {
+    throw new Error(`Line ${lineNumber}: description is missing`);
+  }
+
+  return { code: formatDiagnosisCode(flatCode), ...entry };
+}
@@ -0,0 +1,78 @@
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { diagnosisCodeRepository } from '../database/repositories/index.js';
+import type { DiagnosisCodeReleaseEntry } from '../../domain/repositories/index.js';
+import { parseIcd10CmLine } from './icd10cm-parser.js';
+import { logger } from '../../shared/utils/logger.js';
+
+/**
+ * Load a CMS ICD-10-CM release into the diagnosis_codes table.
+ *
+ * Usage: npm run codes:import:icd10cm -- <file> --effective YYYY-MM-DD
+ *
+ * CMS releases take effect on October 1 (e.g. the FY2026 files on
+ * 2025-10-01). Releases must be loaded oldest first.
+ */
+function parseArgs(argv: string[]): { file: string; effectiveDate: Date } {
+  const effectiveIndex = argv.indexOf('--effective');
+  const effective = effectiveIndex >= 0 ? argv[effectiveIndex + 1] : undefined;
+  const file = argv.find((arg, index) => !arg.startsWith('--') && index !== effectiveIndex + 1);
+
+  if (!file || !effective || !/^\d{4}-\d{2}-\d{2}$/.test(effective)) {
+    throw new Error('Usage: import-icd10cm <file> --effective YYYY-MM-DD');
+  }
+
+  const effectiveDate = new Date(`${effective}T00:00:00.000Z`);
+  if (Number.isNaN(effectiveDate.getTime())) {
+    throw new Error(`Invalid effective date: ${effective}`);
+  }
+
+  return { file, effectiveDate };
+}
+
+async function readRelease(file: string): Promise<DiagnosisCodeReleaseEntry[]> {
+  const entries = new Map<string, DiagnosisCodeReleaseEntry>();
+  const lines = createInterface({
+    input: createReadStream(file, { encoding: 'latin1' }),
+    crlfDelay: Infinity,
+  });
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    const entry = parseIcd10CmLine(line, lineNumber);
+    if (!entry) {
+      continue;
+    }
+    if (entries.has(entry.code)) {
+      throw new Error(`Line ${lineNumber}: code ${entry.code} appears more than once`);
+    }
+    entries.set(entry.code, entry);
+  }
+
+  return [...entries.values()];
+}
+
+async function importIcd10Cm(): Promise<void> {
+  try {
+    const { file, effectiveDate } = parseArgs(process.argv.slice(2));
+    logger.info('Importing ICD-10-CM release...', {
+      file,
+      effectiveDate: effectiveDate.toISOString().slice(0, 10),
+    });
+
+    const entries = await readRelease(file);
+    const result = await diagnosisCodeRepository.importRelease(entries, effectiveDate);
+
+    logger.info('✅ ICD-10-CM import completed', { codes: entries.length, ...result });
+  } catch (error) {
+    logger.error('❌ ICD-10-CM import failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+importIcd10Cm();
@@ -2,6 +2,7 @@ import { env } from '../../config/env.js';
 import * as schema from './schema/index.js';
 import postgres from 'postgres';
 import { drizzle as drizzlePostgres } from 'drizzle-orm/postgres-js';
+import { getTableColumns, type Table } from 'drizzle-orm';
 
 // Detect if using Neon (cloud) or local PostgreSQL
 const isNeon = env.DATABASE_URL.includes('neon.tech');
@@ -32,6 +33,54 @@ export async function runInTransaction<T>(
   });
 }
 
+/**
+ * Run a select through a server-side cursor, yielding its rows in batches
+ * shaped as Drizzle returns them. The rows of all columns of `table` must
+ * be selected, as `db.select().from(table)` does.
+ */
+export async function* streamRows<TTable extends Table>(
+  table: TTable,
+  query: { toSQL(): { sql: string; params: unknown[] } },
+  batchSize: number
+): AsyncGenerator<TTable['$inferSelect'][]> {
+  const { sql, params } = query.toSQL();
+  const columns = Object.entries(getTableColumns(table));
+
+  // Same client as db, so values arrive as Drizzle's own driver reads them
+  const cursor = pgClient
+    .unsafe(sql, params as postgres.ParameterOrJSON<never>[])
+    .cursor(batchSize);
+
+  for await (const rows of cursor) {
+    yield rows.map((row) => {
+      const mapped: Record<string, unknown> = {};
+      for (const [key, column] of columns) {
+        const value = row[column.name];
+        mapped[key] = value === null ? null : column.mapFromDriverValue(value);
+      }
+      return mapped as TTable['$inferSelect'];
+    });
+  }
+}
+
+/**
+ * The planner's row estimate for a query, from EXPLAIN: nothing is
+ * scanned, so it is only as good as the table statistics
+ */
+export async function estimateRowCount(query: {
+  toSQL(): { sql: string; params: unknown[] };
+}): Promise<number> {
+  const { sql, params } = query.toSQL();
+  const [row] = await pgClient.unsafe(
+    `EXPLAIN (FORMAT JSON) ${sql}`,
+    params as postgres.ParameterOrJSON<never>[]
+  );
+  const plan = row['QUERY PLAN'];
+  const parsed = typeof plan === 'string' ? JSON.parse(plan) : plan;
+
+  return Math.round(parsed[0].Plan['Plan Rows']);
+}
+
 // Health check
 export async function checkDatabaseConnection(): Promise<boolean> {
   try {
@@ -1,3 +1,4 @@
+import { sql } from 'drizzle-orm';
 import { migrate } from 'drizzle-orm/postgres-js/migrator';
 import { db } from './connection.js';
 import { logger } from '../../shared/utils/logger.js';
@@ -6,6 +7,8 @@ async function runMigrations(): Promise<void> {
   logger.info('Running database migrations...');
 
   try {
+    // The trigram index on diagnosis_codes.description needs pg_trgm
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
     await migrate(db, { migrationsFolder: './drizzle' });
     logger.info('✅ Migrations completed successfully');
   } catch (error) {
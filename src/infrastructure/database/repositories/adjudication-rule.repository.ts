@@ -0,0 +1,181 @@
+import { eq, and, asc, sql, SQL } from 'drizzle-orm';
+import { db } from '../connection.js';
+import { adjudicationRules, type AdjudicationRuleRow } from '../schema/index.js';
+import { BaseTenantRepository, isUniqueViolation } from './base.repository.js';
+import type {
+  IAdjudicationRuleRepository,
+  AdjudicationRuleFilters,
+} from '../../../domain/repositories/index.js';
+import type {
+  AdjudicationCondition,
+  AdjudicationRule,
+} from '../../../domain/entities/index.js';
+import { ConflictError } from '../../../domain/errors/index.js';
+import type {
+  TenantContext,
+  PaginatedResult,
+  PaginationParams,
+} from '../../../shared/types/index.js';
+
+const PRIORITY_UNIQUE_CONSTRAINT = 'adjudication_rules_org_priority_idx';
+
+export class AdjudicationRuleRepository
+  extends BaseTenantRepository<typeof adjudicationRules>
+  implements IAdjudicationRuleRepository
+{
+  constructor() {
+    super(adjudicationRules, adjudicationRules.organizationId);
+  }
+
+  private mapToDomain(row: AdjudicationRuleRow): AdjudicationRule {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      name: row.name,
+      priority: row.priority,
+      condition: row.condition as AdjudicationCondition,
+      action: row.action,
+      denialReason: row.denialReason ?? undefined,
+      assignTo: row.assignTo ?? undefined,
+      isActive: row.isActive,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  private toConflictError(error: unknown): unknown {
+    if (isUniqueViolation(error, PRIORITY_UNIQUE_CONSTRAINT)) {
+      return new ConflictError('Another rule already has this priority', {
+        constraint: PRIORITY_UNIQUE_CONSTRAINT,
+      });
+    }
+    return error;
+  }
+
+  /**
+   * Build filter conditions from AdjudicationRuleFilters
+   */
+  private buildFilterConditions(filters: AdjudicationRuleFilters): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.isActive !== undefined) {
+      conditions.push(eq(adjudicationRules.isActive, filters.isActive));
+    }
+
+    return conditions;
+  }
+
+  async findById(id: string, context: TenantContext): Promise<AdjudicationRule | null> {
+    const result = await db
+      .select()
+      .from(adjudicationRules)
+      .where(this.withTenantFilter(context, eq(adjudicationRules.id, id)))
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async search(
+    context: TenantContext,
+    options: {
+      filters?: AdjudicationRuleFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<AdjudicationRule>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const whereCondition = this.withTenantFilter(
+      context,
+      ...(filters ? this.buildFilterConditions(filters) : [])
+    );
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(adjudicationRules)
+        .where(whereCondition)
+        .orderBy(asc(adjudicationRules.priority))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(adjudicationRules)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => this.mapToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+
+  async create(
+    data: Omit<AdjudicationRule, 'id' | 'createdAt' | 'updatedAt'>,
+    context: TenantContext
+  ): Promise<AdjudicationRule> {
+    try {
+      const result = await db
+        .insert(adjudicationRules)
+        .values({
+          ...data,
+          organizationId: context.organizationId,
+        })
+        .returning();
+
+      return this.mapToDomain(result[0]);
+    } catch (error) {
+      throw this.toConflictError(error);
+    }
+  }
+
+  async update(
+    id: string,
+    data: Partial<AdjudicationRule>,
+    context: TenantContext
+  ): Promise<AdjudicationRule | null> {
+    const { id: _, organizationId: __, createdAt: ___, ...updateData } = data;
+
+    try {
+      const result = await db
+        .update(adjudicationRules)
+        .set({
+          ...updateData,
+          updatedAt: new Date(),
+        })
+        .where(this.withTenantFilter(context, eq(adjudicationRules.id, id)))
+        .returning();
+
+      return result[0] ? this.mapToDomain(result[0]) : null;
+    } catch (error) {
+      throw this.toConflictError(error);
+    }
+  }
+
+  /**
+   * Internal method for the adjudication job - no role check
+   */
+  async findActiveInternal(organizationId: string): Promise<AdjudicationRule[]> {
+    const rows = await db
+      .select()
+      .from(adjudicationRules)
+      .where(
+        and(
+          eq(adjudicationRules.organizationId, organizationId),
+          eq(adjudicationRules.isActive, true)
+        )
+      )
+      .orderBy(asc(adjudicationRules.priority));
+
+    return rows.map((row) => this.mapToDomain(row));
+  }
+}
+
+export const adjudicationRuleRepository = new AdjudicationRuleRepository();
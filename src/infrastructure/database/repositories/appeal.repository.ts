@@ -0,0 +1,368 @@
+import { and, asc, eq, inArray, sql, getTableColumns } from 'drizzle-orm';
+import { db, runInTransaction } from '../connection.js';
+import {
+  appeals,
+  appealAttachments,
+  claims,
+  users,
+  type AppealAttachmentRow,
+  type AppealRow,
+} from '../schema/index.js';
+import { BaseTenantRepository, PermissionHelper, isUniqueViolation } from './base.repository.js';
+import { approvePendingLines } from './claim.repository.js';
+import { applyCostSharing } from './benefit-accumulator.repository.js';
+import type {
+  AppealDecision,
+  IAppealRepository,
+  NewAppeal,
+} from '../../../domain/repositories/index.js';
+import type {
+  Appeal,
+  AppealAttachment,
+  ClaimStatusChange,
+} from '../../../domain/entities/index.js';
+import type { TenantContext } from '../../../shared/types/index.js';
+import {
+  ClaimNotAppealableError,
+  ConflictError,
+  ForbiddenError,
+  ValidationError,
+} from '../../../domain/errors/index.js';
+
+const PENDING_CLAIM_UNIQUE_CONSTRAINT = 'appeals_pending_claim_idx';
+
+// Everything but the content, which is only read on download
+const { content: _content, ...attachmentColumns } = getTableColumns(appealAttachments);
+
+export class AppealRepository
+  extends BaseTenantRepository<typeof appeals>
+  implements IAppealRepository
+{
+  constructor() {
+    super(appeals, appeals.organizationId);
+  }
+
+  private mapToDomain(row: AppealRow, attachments: AppealAttachment[] = []): Appeal {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      claimId: row.claimId,
+      filedBy: row.filedBy,
+      reason: row.reason,
+      status: row.status,
+      originalReviewerId: row.originalReviewerId ?? undefined,
+      deadlineAt: row.deadlineAt,
+      decidedBy: row.decidedBy ?? undefined,
+      decisionReason: row.decisionReason ?? undefined,
+      decidedAt: row.decidedAt ?? undefined,
+      attachments,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  private mapAttachmentToDomain(
+    row: Omit<AppealAttachmentRow, 'content' | 'organizationId'>
+  ): AppealAttachment {
+    return {
+      id: row.id,
+      appealId: row.appealId,
+      fileName: row.fileName,
+      contentType: row.contentType,
+      size: row.size,
+      createdAt: row.createdAt,
+    };
+  }
+
+  private toConflictError(error: unknown): unknown {
+    if (isUniqueViolation(error, PENDING_CLAIM_UNIQUE_CONSTRAINT)) {
+      return new ConflictError('This claim already has an appeal waiting on a decision', {
+        constraint: PENDING_CLAIM_UNIQUE_CONSTRAINT,
+      });
+    }
+    return error;
+  }
+
+  async findByClaimId(claimId: string, context: TenantContext): Promise<Appeal[]> {
+    const rows = await db
+      .select()
+      .from(appeals)
+      .where(this.withTenantFilter(context, eq(appeals.claimId, claimId)))
+      .orderBy(asc(appeals.createdAt));
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const attachmentRows = await db
+      .select(attachmentColumns)
+      .from(appealAttachments)
+      .where(
+        inArray(
+          appealAttachments.appealId,
+          rows.map((row) => row.id)
+        )
+      )
+      .orderBy(asc(appealAttachments.createdAt));
+
+    return rows.map((row) =>
+      this.mapToDomain(
+        row,
+        attachmentRows
+          .filter((attachment) => attachment.appealId === row.id)
+          .map((attachment) => this.mapAttachmentToDomain(attachment))
+      )
+    );
+  }
+
+  async findAttachment(
+    claimId: string,
+    appealId: string,
+    attachmentId: string,
+    context: TenantContext
+  ): Promise<(AppealAttachment & { content: Buffer }) | null> {
+    const result = await db
+      .select({ attachment: appealAttachments })
+      .from(appealAttachments)
+      .innerJoin(appeals, eq(appeals.id, appealAttachments.appealId))
+      .where(
+        this.withTenantFilter(
+          context,
+          eq(appealAttachments.id, attachmentId),
+          eq(appeals.id, appealId),
+          eq(appeals.claimId, claimId)
+        )
+      )
+      .limit(1);
+
+    const row = result[0]?.attachment;
+    return row ? { ...this.mapAttachmentToDomain(row), content: row.content } : null;
+  }
+
+  /**
+   * File an appeal. In one transaction, with the claim row locked, the claim
+   * moves from rejected to appealed and is taken off its processor so the
+   * appeal can be routed to someone else.
+   */
+  async create(
+    claimId: string,
+    data: NewAppeal,
+    context: TenantContext
+  ): Promise<Appeal | null> {
+    try {
+      return await runInTransaction(async (tx) => {
+        const existing = await tx
+          .select()
+          .from(claims)
+          .where(
+            and(eq(claims.id, claimId), eq(claims.organizationId, context.organizationId))
+          )
+          .limit(1)
+          .for('update');
+
+        if (!existing[0]) {
+          return null;
+        }
+
+        const claim = existing[0];
+
+        if (claim.status !== 'rejected') {
+          throw new ClaimNotAppealableError(claimId, claim.status);
+        }
+
+        const now = new Date();
+
+        const appealResult = await tx
+          .insert(appeals)
+          .values({
+            organizationId: context.organizationId,
+            claimId,
+            filedBy: context.userId,
+            reason: data.reason,
+            originalReviewerId: data.originalReviewerId,
+            deadlineAt: data.deadlineAt,
+          })
+          .returning();
+
+        const appeal = appealResult[0];
+
+        const attachmentRows =
+          data.attachments.length > 0
+            ? await tx
+                .insert(appealAttachments)
+                .values(
+                  data.attachments.map((attachment) => ({
+                    organizationId: context.organizationId,
+                    appealId: appeal.id,
+                    fileName: attachment.fileName,
+                    contentType: attachment.contentType,
+                    size: attachment.content.length,
+                    content: attachment.content,
+                  }))
+                )
+                .returning(attachmentColumns)
+            : [];
+
+        if (claim.assignedTo) {
+          await tx
+            .update(users)
+            .set({
+              assignedClaimIds: sql`${users.assignedClaimIds} - ${claimId}::text`,
+              updatedAt: now,
+            })
+            .where(eq(users.id, claim.assignedTo));
+        }
+
+        const statusChange: ClaimStatusChange = {
+          fromStatus: 'rejected',
+          toStatus: 'appealed',
+          changedBy: context.userId,
+          changedAt: now,
+          reason: data.reason,
+        };
+
+        await tx
+          .update(claims)
+          .set({
+            status: 'appealed',
+            assignedTo: null,
+            statusHistory: sql`${claims.statusHistory} || ${JSON.stringify([statusChange])}::jsonb`,
+            updatedAt: now,
+          })
+          .where(eq(claims.id, claimId));
+
+        return this.mapToDomain(
+          appeal,
+          attachmentRows.map((row) => this.mapAttachmentToDomain(row))
+        );
+      });
+    } catch (error) {
+      throw this.toConflictError(error);
+    }
+  }
+
+  /**
+   * Decide a pending appeal. Overturning approves the claim with its lines
+   * not yet decided; upholding rejects it again with the decision as the
+   * denial reason. Nobody decides an appeal of a claim they rejected.
+   */
+  async decide(
+    claimId: string,
+    appealId: string,
+    decision: AppealDecision,
+    context: TenantContext
+  ): Promise<Appeal | null> {
+    PermissionHelper.requirePermission(
+      PermissionHelper.canUpdateClaimStatus(context.role),
+      'decide appeals',
+      context.role
+    );
+
+    return await runInTransaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(claims)
+        .where(this.withTenantFilter(context, eq(claims.id, claimId)))
+        .limit(1)
+        .for('update');
+
+      const appealRows = await tx
+        .select()
+        .from(appeals)
+        .where(
+          this.withTenantFilter(context, eq(appeals.id, appealId), eq(appeals.claimId, claimId))
+        )
+        .limit(1)
+        .for('update');
+
+      if (!existing[0] || !appealRows[0]) {
+        return null;
+      }
+
+      const claim = existing[0];
+      const appeal = appealRows[0];
+
+      if (context.role === 'claims_processor' && claim.assignedTo !== context.userId) {
+        throw new ForbiddenError('Claims processors can only decide appeals of their assigned claims');
+      }
+
+      if (appeal.status !== 'pending') {
+        throw new ConflictError(`Appeal has already been decided (status: ${appeal.status})`, {
+          appealId,
+          status: appeal.status,
+        });
+      }
+
+      if (appeal.originalReviewerId === context.userId) {
+        throw new ForbiddenError(
+          'An appeal must be decided by someone other than the reviewer who rejected the claim'
+        );
+      }
+
+      // Only the pending appeal moves a claim out of appealed
+      if (claim.status !== 'appealed') {
+        throw new ConflictError(`Claim is not appealed (status: ${claim.status})`, {
+          claimId,
+          status: claim.status,
+        });
+      }
+
+      const toStatus = decision.outcome === 'overturned' ? 'approved' : 'rejected';
+
+      if (toStatus === 'approved' && !(await approvePendingLines(tx, claimId))) {
+        throw new ValidationError(
+          'Every line of this claim is rejected; the appeal can only be upheld',
+          { claimId }
+        );
+      }
+
+      const costSharing = toStatus === 'approved' ? await applyCostSharing(tx, claim) : {};
+
+      const now = new Date();
+
+      const decided = await tx
+        .update(appeals)
+        .set({
+          status: decision.outcome,
+          decidedBy: context.userId,
+          decisionReason: decision.reason,
+          decidedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(appeals.id, appealId))
+        .returning();
+
+      const statusChange: ClaimStatusChange = {
+        fromStatus: 'appealed',
+        toStatus,
+        changedBy: context.userId,
+        changedAt: now,
+        reason: `Appeal ${decision.outcome}: ${decision.reason}`,
+      };
+
+      await tx
+        .update(claims)
+        .set({
+          status: toStatus,
+          denialReason: toStatus === 'rejected' ? decision.reason : null,
+          statusHistory: sql`${claims.statusHistory} || ${JSON.stringify([statusChange])}::jsonb`,
+          ...costSharing,
+          updatedAt: now,
+        })
+        .where(eq(claims.id, claimId));
+
+      const attachmentRows = await tx
+        .select(attachmentColumns)
+        .from(appealAttachments)
+        .where(eq(appealAttachments.appealId, appealId))
+        .orderBy(asc(appealAttachments.createdAt));
+
+      return this.mapToDomain(
+        decided[0],
+        attachmentRows.map((row) => this.mapAttachmentToDomain(row))
+      );
+    });
+  }
+}
+
+export const appealRepository = new AppealRepository();
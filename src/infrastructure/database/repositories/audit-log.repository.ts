@@ -0,0 +1,149 @@
+import { eq, gte, lte, sql, desc, SQL } from 'drizzle-orm';
+import { db } from '../connection.js';
+import { auditLogs, type AuditLogRow } from '../schema/index.js';
+import { BaseTenantRepository } from './base.repository.js';
+import type {
+  IAuditLogRepository,
+  AuditLogFilters,
+} from '../../../domain/repositories/index.js';
+import type { AuditLog } from '../../../domain/entities/index.js';
+import type {
+  TenantContext,
+  PaginatedResult,
+  PaginationParams,
+} from '../../../shared/types/index.js';
+
+export class AuditLogRepository
+  extends BaseTenantRepository<typeof auditLogs>
+  implements IAuditLogRepository
+{
+  constructor() {
+    super(auditLogs, auditLogs.organizationId);
+  }
+
+  private mapToDomain(row: AuditLogRow): AuditLog {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      entityType: row.entityType,
+      entityId: row.entityId,
+      action: row.action,
+      performedBy: row.performedBy,
+      performedAt: row.performedAt,
+      changes: row.changes as AuditLog['changes'],
+      ipAddress: row.ipAddress ?? undefined,
+      userAgent: row.userAgent ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Build filter conditions from AuditLogFilters
+   */
+  private buildFilterConditions(filters: AuditLogFilters): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.entityType) {
+      conditions.push(eq(auditLogs.entityType, filters.entityType));
+    }
+
+    if (filters.entityId) {
+      conditions.push(eq(auditLogs.entityId, filters.entityId));
+    }
+
+    if (filters.from) {
+      conditions.push(gte(auditLogs.performedAt, filters.from));
+    }
+
+    if (filters.to) {
+      conditions.push(lte(auditLogs.performedAt, filters.to));
+    }
+
+    return conditions;
+  }
+
+  async create(
+    data: Omit<AuditLog, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<AuditLog> {
+    const result = await db.insert(auditLogs).values(data).returning();
+
+    return this.mapToDomain(result[0]);
+  }
+
+  async createMany(
+    data: Omit<AuditLog, 'id' | 'createdAt' | 'updatedAt'>[]
+  ): Promise<AuditLog[]> {
+    if (data.length === 0) {
+      return [];
+    }
+
+    const result = await db.insert(auditLogs).values(data).returning();
+
+    return result.map((row) => this.mapToDomain(row));
+  }
+
+  async findByEntity(
+    entityType: string,
+    entityId: string,
+    context: TenantContext
+  ): Promise<AuditLog[]> {
+    const result = await db
+      .select()
+      .from(auditLogs)
+      .where(
+        this.withTenantFilter(
+          context,
+          eq(auditLogs.entityType, entityType),
+          eq(auditLogs.entityId, entityId)
+        )
+      )
+      .orderBy(desc(auditLogs.performedAt));
+
+    return result.map((row) => this.mapToDomain(row));
+  }
+
+  async findMany(
+    context: TenantContext,
+    options: {
+      filters?: AuditLogFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<AuditLog>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const whereCondition = this.withTenantFilter(
+      context,
+      ...(filters ? this.buildFilterConditions(filters) : [])
+    );
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(auditLogs)
+        .where(whereCondition)
+        .orderBy(desc(auditLogs.performedAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(auditLogs)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => this.mapToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+}
+
+export const auditLogRepository = new AuditLogRepository();
@@ -1,7 +1,18 @@
-import { eq, and, SQL } from 'drizzle-orm';
+import { eq, and, sql, SQL, DrizzleQueryError } from 'drizzle-orm';
 import { PgTable, PgColumn } from 'drizzle-orm/pg-core';
-import type { TenantContext, UserRole } from '../../../shared/types/index.js';
-import { ForbiddenError, TenantAccessError } from '../../../domain/errors/index.js';
+import { db, estimateRowCount } from '../connection.js';
+import type {
+  PaginatedResult,
+  PaginationCount,
+  SortOrder,
+  TenantContext,
+  UserRole,
+} from '../../../shared/types/index.js';
+import {
+  ForbiddenError,
+  TenantAccessError,
+  ValidationError,
+} from '../../../domain/errors/index.js';
 
 /**
  * Base repository that enforces tenant isolation.
@@ -50,6 +61,36 @@ export abstract class BaseTenantRepository<TTable extends PgTable> {
     }
   }
 
+  /**
+   * Total of a list for its pagination block: counted, estimated by the
+   * planner, or left out
+   */
+  protected async countTotal(
+    where: SQL,
+    count: PaginationCount = 'exact'
+  ): Promise<Pick<PaginatedResult<unknown>['pagination'], 'total' | 'totalEstimated'>> {
+    const table = this.table as PgTable;
+
+    switch (count) {
+      case 'none':
+        return {};
+
+      case 'estimated':
+        return {
+          total: await estimateRowCount(db.select({ one: sql`1` }).from(table).where(where)),
+          totalEstimated: true,
+        };
+
+      default: {
+        const result = await db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(table)
+          .where(where);
+        return { total: result[0]?.count ?? 0 };
+      }
+    }
+  }
+
   /**
    * Adds organization ID to data being inserted.
    */
@@ -117,6 +158,20 @@ export class PermissionHelper {
     return ['admin', 'claims_processor'].includes(role);
   }
 
+  /**
+   * Check if user can issue and void payment batches
+   */
+  static canIssuePayments(role: UserRole): boolean {
+    return role === 'admin';
+  }
+
+  /**
+   * Check if user can submit claim files (EDI or spreadsheet imports)
+   */
+  static canSubmitClaimFiles(role: UserRole): boolean {
+    return ['admin', 'claims_processor', 'provider'].includes(role);
+  }
+
   /**
    * Check if user has read-only access
    */
@@ -140,6 +195,26 @@ export class PermissionHelper {
   }
 }
 
+/**
+ * Check whether a database error is a unique constraint violation,
+ * optionally on a specific constraint (Postgres SQLSTATE 23505). Drizzle
+ * wraps driver errors in DrizzleQueryError; the Postgres fields are on its
+ * cause.
+ */
+export function isUniqueViolation(error: unknown, constraintName?: string): boolean {
+  const driverError = error instanceof DrizzleQueryError ? error.cause : error;
+  if (typeof driverError !== 'object' || driverError === null) {
+    return false;
+  }
+
+  const { code, constraint_name: constraint } = driverError as {
+    code?: string;
+    constraint_name?: string;
+  };
+
+  return code === '23505' && (!constraintName || constraint === constraintName);
+}
+
 /**
  * SQL helpers for building tenant-aware queries.
  */
@@ -157,3 +232,91 @@ export const tenantSql = {
     return valid.length > 0 ? and(...valid) : undefined;
   },
 };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Text forms Postgres gives timestamptz and numeric values
+const TIMESTAMP_KEY_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?[+-]\d{2}(:\d{2})?$/;
+const NUMERIC_KEY_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Whether a cursor key casts to the sort column's type, so a tampered key
+ * is refused here rather than failing in Postgres
+ */
+function isKeyOfColumn(key: string, column: PgColumn): boolean {
+  switch (column.columnType) {
+    case 'PgTimestamp': {
+      const parts = TIMESTAMP_KEY_PATTERN.exec(key);
+      if (!parts) {
+        return false;
+      }
+      const [year, month, day, hours, minutes, seconds] = parts.slice(1, 7).map(Number);
+      const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+      return (
+        date.getUTCFullYear() === year &&
+        date.getUTCMonth() === month - 1 &&
+        date.getUTCDate() === day &&
+        date.getUTCHours() === hours &&
+        date.getUTCMinutes() === minutes &&
+        date.getUTCSeconds() === seconds
+      );
+    }
+    case 'PgNumeric':
+      return NUMERIC_KEY_PATTERN.test(key);
+    case 'PgEnumColumn':
+      return column.enumValues?.includes(key) ?? false;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Keyset pagination. A cursor is the sort key and id of the last row of a
+ * page, as base64url JSON, tagged with its sort so it cannot be replayed
+ * under another. Keys are the column's text form in Postgres, which keeps
+ * full timestamp and numeric precision, and are checked against the column
+ * when decoded.
+ */
+export const keysetCursor = {
+  encode: (sort: string, key: string, id: string): string =>
+    Buffer.from(JSON.stringify([sort, key, id])).toString('base64url'),
+
+  decode: (cursor: string, sort: string, column: PgColumn): { key: string; id: string } => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    } catch {
+      parsed = undefined;
+    }
+
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 3 &&
+      parsed[0] === sort &&
+      typeof parsed[1] === 'string' &&
+      isKeyOfColumn(parsed[1], column) &&
+      typeof parsed[2] === 'string' &&
+      UUID_PATTERN.test(parsed[2])
+    ) {
+      return { key: parsed[1], id: parsed[2] };
+    }
+
+    throw new ValidationError('Invalid cursor: it is not from this list or its sort order', {
+      cursor,
+    });
+  },
+
+  /**
+   * Rows after the cursor in (column, id) order
+   */
+  after: (
+    column: PgColumn,
+    idColumn: PgColumn,
+    order: SortOrder,
+    cursor: { key: string; id: string }
+  ): SQL =>
+    order === 'asc'
+      ? sql`(${column}, ${idColumn}) > (${cursor.key}, ${cursor.id})`
+      : sql`(${column}, ${idColumn}) < (${cursor.key}, ${cursor.id})`,
+};
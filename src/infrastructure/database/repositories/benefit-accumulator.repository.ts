@@ -0,0 +1,264 @@
+import { and, desc, eq, gte, isNull, lte, or, sql } from 'drizzle-orm';
+import { db } from '../connection.js';
+import {
+  benefitAccumulators,
+  claimLines,
+  claims,
+  coverages,
+  plans,
+  type BenefitAccumulatorRow,
+  type ClaimRow,
+} from '../schema/index.js';
+import { BaseTenantRepository } from './base.repository.js';
+import { mapPlanToDomain } from './plan.repository.js';
+import type { IBenefitAccumulatorRepository } from '../../../domain/repositories/index.js';
+import {
+  computeCostSharing,
+  getPlanYear,
+  type BenefitAccumulator,
+  type CostSharing,
+  type PatientResponsibility,
+} from '../../../domain/entities/index.js';
+import type { TenantContext } from '../../../shared/types/index.js';
+
+// Claim columns holding its cost sharing
+type ClaimCostSharingValues = Pick<
+  typeof claims.$inferInsert,
+  'allowedAmount' | 'planPaidAmount' | 'patientResponsibility' | 'benefitAccumulatorId'
+>;
+
+function mapAccumulatorToDomain(row: BenefitAccumulatorRow): BenefitAccumulator {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    patientId: row.patientId,
+    planId: row.planId,
+    planYearStart: row.planYearStart,
+    deductibleMet: parseFloat(row.deductibleMet),
+    outOfPocketMet: parseFloat(row.outOfPocketMet),
+    planPaid: parseFloat(row.planPaid),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toClaimValues(
+  costSharing: CostSharing,
+  benefitAccumulatorId: string | null
+): ClaimCostSharingValues {
+  return {
+    allowedAmount: costSharing.allowedAmount.toFixed(2),
+    planPaidAmount: costSharing.planPaidAmount.toFixed(2),
+    patientResponsibility: costSharing.patientResponsibility,
+    benefitAccumulatorId,
+  };
+}
+
+/**
+ * Add to or, with sign -1, take out of an accumulator what a claim's cost
+ * sharing counted in it
+ */
+async function addToAccumulator(
+  tx: typeof db,
+  accumulatorId: string,
+  patientResponsibility: PatientResponsibility,
+  planPaidAmount: number,
+  sign: 1 | -1
+): Promise<void> {
+  const { deductible, copay, coinsurance } = patientResponsibility;
+  const delta = (amount: number) => (sign * amount).toFixed(2);
+
+  await tx
+    .update(benefitAccumulators)
+    .set({
+      deductibleMet: sql`${benefitAccumulators.deductibleMet} + ${delta(deductible)}::numeric`,
+      outOfPocketMet: sql`${benefitAccumulators.outOfPocketMet} + ${delta(
+        deductible + copay + coinsurance
+      )}::numeric`,
+      planPaid: sql`${benefitAccumulators.planPaid} + ${delta(planPaidAmount)}::numeric`,
+      updatedAt: new Date(),
+    })
+    .where(eq(benefitAccumulators.id, accumulatorId));
+}
+
+/**
+ * On claim approval, within its transaction: split the allowed amounts of
+ * the approved lines between plan and patient, per the plan covering the
+ * service date, and count the split in the patient's accumulator for the
+ * plan year. The accumulator row is locked, so approvals for one member and
+ * year take turns. Without coverage the plan pays the allowed charges in
+ * full and no accumulator is touched.
+ *
+ * Returns the claim columns to set.
+ */
+export async function applyCostSharing(
+  tx: typeof db,
+  claim: ClaimRow
+): Promise<ClaimCostSharingValues> {
+  const lineRows = await tx
+    .select({
+      procedureCode: claimLines.procedureCode,
+      chargeAmount: claimLines.chargeAmount,
+      allowedAmount: claimLines.allowedAmount,
+    })
+    .from(claimLines)
+    .where(and(eq(claimLines.claimId, claim.id), eq(claimLines.status, 'approved')));
+
+  // Lines are allowed at their fee schedule price, or at their charge when
+  // not priced. Claims from before line items bill their amount as one line.
+  const lines =
+    lineRows.length > 0
+      ? lineRows.map((line) => ({
+          procedureCode: line.procedureCode,
+          allowedAmount: parseFloat(line.allowedAmount ?? line.chargeAmount),
+        }))
+      : [
+          {
+            procedureCode: claim.procedureCode ?? '',
+            allowedAmount: parseFloat(claim.allowedAmount ?? claim.amount),
+          },
+        ];
+
+  const coverage = await tx
+    .select({ planId: coverages.planId, plan: plans })
+    .from(coverages)
+    .innerJoin(plans, eq(plans.id, coverages.planId))
+    .where(
+      and(
+        eq(coverages.organizationId, claim.organizationId),
+        eq(coverages.patientId, claim.patientId),
+        lte(coverages.effectiveDate, claim.serviceDate),
+        or(isNull(coverages.terminationDate), gte(coverages.terminationDate, claim.serviceDate))
+      )
+    )
+    .limit(1);
+
+  if (!coverage[0]) {
+    return toClaimValues(
+      computeCostSharing(
+        { coinsurancePercent: 0, copays: {} },
+        { deductibleMet: 0, outOfPocketMet: 0, planPaid: 0 },
+        lines
+      ),
+      null
+    );
+  }
+
+  const plan = mapPlanToDomain(coverage[0].plan);
+  const planYearStart = getPlanYear(plan, claim.serviceDate).start;
+  const key = and(
+    eq(benefitAccumulators.organizationId, claim.organizationId),
+    eq(benefitAccumulators.patientId, claim.patientId),
+    eq(benefitAccumulators.planId, plan.id),
+    eq(benefitAccumulators.planYearStart, planYearStart)
+  );
+
+  await tx
+    .insert(benefitAccumulators)
+    .values({
+      organizationId: claim.organizationId,
+      patientId: claim.patientId,
+      planId: plan.id,
+      planYearStart,
+    })
+    .onConflictDoNothing();
+
+  const accumulatorRows = await tx
+    .select()
+    .from(benefitAccumulators)
+    .where(key)
+    .limit(1)
+    .for('update');
+
+  const accumulator = mapAccumulatorToDomain(accumulatorRows[0]);
+  const costSharing = computeCostSharing(plan, accumulator, lines);
+
+  await addToAccumulator(
+    tx,
+    accumulator.id,
+    costSharing.patientResponsibility,
+    costSharing.planPaidAmount,
+    1
+  );
+
+  return toClaimValues(costSharing, accumulator.id);
+}
+
+/**
+ * When an approval is reversed, within its transaction: take the claim's
+ * cost sharing back out of its accumulator. Returns the claim columns to
+ * clear.
+ */
+export async function reverseCostSharing(
+  tx: typeof db,
+  claim: ClaimRow
+): Promise<ClaimCostSharingValues> {
+  if (claim.benefitAccumulatorId && claim.patientResponsibility && claim.planPaidAmount) {
+    await tx
+      .select({ id: benefitAccumulators.id })
+      .from(benefitAccumulators)
+      .where(eq(benefitAccumulators.id, claim.benefitAccumulatorId))
+      .for('update');
+
+    await addToAccumulator(
+      tx,
+      claim.benefitAccumulatorId,
+      claim.patientResponsibility as PatientResponsibility,
+      parseFloat(claim.planPaidAmount),
+      -1
+    );
+  }
+
+  return {
+    allowedAmount: null,
+    planPaidAmount: null,
+    patientResponsibility: null,
+    benefitAccumulatorId: null,
+  };
+}
+
+export class BenefitAccumulatorRepository
+  extends BaseTenantRepository<typeof benefitAccumulators>
+  implements IBenefitAccumulatorRepository
+{
+  constructor() {
+    super(benefitAccumulators, benefitAccumulators.organizationId);
+  }
+
+  async findByPatientId(
+    patientId: string,
+    context: TenantContext
+  ): Promise<BenefitAccumulator[]> {
+    const rows = await db
+      .select()
+      .from(benefitAccumulators)
+      .where(this.withTenantFilter(context, eq(benefitAccumulators.patientId, patientId)))
+      .orderBy(desc(benefitAccumulators.planYearStart));
+
+    return rows.map((row) => mapAccumulatorToDomain(row));
+  }
+
+  async findForPlanYear(
+    patientId: string,
+    planId: string,
+    planYearStart: Date,
+    context: TenantContext
+  ): Promise<BenefitAccumulator | null> {
+    const result = await db
+      .select()
+      .from(benefitAccumulators)
+      .where(
+        this.withTenantFilter(
+          context,
+          eq(benefitAccumulators.patientId, patientId),
+          eq(benefitAccumulators.planId, planId),
+          eq(benefitAccumulators.planYearStart, planYearStart)
+        )
+      )
+      .limit(1);
+
+    return result[0] ? mapAccumulatorToDomain(result[0]) : null;
+  }
+}
+
+export const benefitAccumulatorRepository = new BenefitAccumulatorRepository();
@@ -0,0 +1,112 @@
+import { and, eq, SQL } from 'drizzle-orm';
+import { db } from '../connection.js';
+import { claimExports, type ClaimExportRow } from '../schema/index.js';
+import { BaseTenantRepository } from './base.repository.js';
+import type { IClaimExportRepository, NewClaimExport } from '../../../domain/repositories/index.js';
+import type { ClaimExport } from '../../../domain/entities/index.js';
+import type { TenantContext } from '../../../shared/types/index.js';
+
+export class ClaimExportRepository
+  extends BaseTenantRepository<typeof claimExports>
+  implements IClaimExportRepository
+{
+  constructor() {
+    super(claimExports, claimExports.organizationId);
+  }
+
+  private mapToDomain(row: ClaimExportRow): ClaimExport {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      requestedBy: row.requestedBy,
+      format: row.format,
+      status: row.status,
+      query: (row.query as Record<string, unknown>) || {},
+      rowCount: row.rowCount,
+      fileSize: row.fileSize ?? undefined,
+      error: row.error ?? undefined,
+      jobId: row.jobId ?? undefined,
+      completedAt: row.completedAt ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Build role-based access filter: admins see the organization's exports,
+   * everyone else the exports they requested. The file itself only holds
+   * claims the requester could see.
+   */
+  private buildRoleFilter(context: TenantContext): SQL | undefined {
+    return context.role === 'admin' ? undefined : eq(claimExports.requestedBy, context.userId);
+  }
+
+  private internalFilter(id: string, organizationId: string): SQL | undefined {
+    return and(eq(claimExports.id, id), eq(claimExports.organizationId, organizationId));
+  }
+
+  async findById(id: string, context: TenantContext): Promise<ClaimExport | null> {
+    const result = await db
+      .select()
+      .from(claimExports)
+      .where(this.withTenantFilter(context, eq(claimExports.id, id), this.buildRoleFilter(context)))
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async create(data: NewClaimExport, context: TenantContext): Promise<ClaimExport> {
+    const result = await db
+      .insert(claimExports)
+      .values({
+        ...data,
+        organizationId: context.organizationId,
+        requestedBy: context.userId,
+      })
+      .returning();
+
+    return this.mapToDomain(result[0]);
+  }
+
+  async findByIdInternal(id: string, organizationId: string): Promise<ClaimExport | null> {
+    const result = await db
+      .select()
+      .from(claimExports)
+      .where(this.internalFilter(id, organizationId))
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async markProcessingInternal(id: string, organizationId: string): Promise<void> {
+    await db
+      .update(claimExports)
+      .set({ status: 'processing', error: null, updatedAt: new Date() })
+      .where(this.internalFilter(id, organizationId));
+  }
+
+  async completeInternal(
+    id: string,
+    organizationId: string,
+    result: { rowCount: number; fileSize: number }
+  ): Promise<ClaimExport | null> {
+    const now = new Date();
+    const updated = await db
+      .update(claimExports)
+      .set({ status: 'completed', ...result, completedAt: now, updatedAt: now })
+      .where(this.internalFilter(id, organizationId))
+      .returning();
+
+    return updated[0] ? this.mapToDomain(updated[0]) : null;
+  }
+
+  async failInternal(id: string, organizationId: string, error: string): Promise<void> {
+    const now = new Date();
+    await db
+      .update(claimExports)
+      .set({ status: 'failed', error, completedAt: now, updatedAt: now })
+      .where(this.internalFilter(id, organizationId));
+  }
+}
+
+export const claimExportRepository = new ClaimExportRepository();
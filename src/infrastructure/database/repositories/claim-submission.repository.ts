@@ -0,0 +1,251 @@
+import { and, eq, desc, sql, SQL } from 'drizzle-orm';
+import { db } from '../connection.js';
+import { claimSubmissions, type ClaimSubmissionRow } from '../schema/index.js';
+import { BaseTenantRepository, PermissionHelper, isUniqueViolation } from './base.repository.js';
+import type {
+  IClaimSubmissionRepository,
+  NewClaimSubmission,
+} from '../../../domain/repositories/index.js';
+import type {
+  ClaimSubmission,
+  ClaimSubmissionResult,
+} from '../../../domain/entities/index.js';
+import type {
+  ClaimSubmissionStatus,
+  PaginatedResult,
+  PaginationParams,
+  TenantContext,
+} from '../../../shared/types/index.js';
+import { ConflictError } from '../../../domain/errors/index.js';
+
+const FILE_HASH_UNIQUE_CONSTRAINT = 'claim_submissions_org_file_hash_idx';
+
+export class ClaimSubmissionRepository
+  extends BaseTenantRepository<typeof claimSubmissions>
+  implements IClaimSubmissionRepository
+{
+  constructor() {
+    super(claimSubmissions, claimSubmissions.organizationId);
+  }
+
+  private mapToDomain(row: ClaimSubmissionRow): ClaimSubmission {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      format: row.format,
+      status: row.status,
+      submittedBy: row.submittedBy,
+      providerId: row.providerId ?? undefined,
+      fileHash: row.fileHash ?? undefined,
+      acknowledgment: row.acknowledgment ?? undefined,
+      claimCount: row.claimCount,
+      acceptedCount: row.acceptedCount,
+      rejectedCount: row.rejectedCount,
+      results: (row.results as ClaimSubmissionResult[]) || [],
+      jobId: row.jobId ?? undefined,
+      completedAt: row.completedAt ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Build role-based access filter: providers and claims processors see
+   * the files they sent, admins the whole organization, nobody else anything
+   */
+  private buildRoleFilter(context: TenantContext): SQL | undefined {
+    const { role, userId } = context;
+
+    switch (role) {
+      case 'admin':
+        return undefined;
+
+      case 'claims_processor':
+      case 'provider':
+        return eq(claimSubmissions.submittedBy, userId);
+
+      default:
+        return sql`${claimSubmissions.id} = 'no-access'`;
+    }
+  }
+
+  private internalFilter(id: string, organizationId: string): SQL | undefined {
+    return and(eq(claimSubmissions.id, id), eq(claimSubmissions.organizationId, organizationId));
+  }
+
+  async findById(id: string, context: TenantContext): Promise<ClaimSubmission | null> {
+    const result = await db
+      .select()
+      .from(claimSubmissions)
+      .where(
+        this.withTenantFilter(context, eq(claimSubmissions.id, id), this.buildRoleFilter(context))
+      )
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async findByJobId(jobId: string, context: TenantContext): Promise<ClaimSubmission | null> {
+    const result = await db
+      .select()
+      .from(claimSubmissions)
+      .where(
+        this.withTenantFilter(
+          context,
+          eq(claimSubmissions.jobId, jobId),
+          this.buildRoleFilter(context)
+        )
+      )
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async findByFileHash(
+    fileHash: string,
+    organizationId: string
+  ): Promise<ClaimSubmission | null> {
+    const result = await db
+      .select()
+      .from(claimSubmissions)
+      .where(
+        and(
+          eq(claimSubmissions.organizationId, organizationId),
+          eq(claimSubmissions.fileHash, fileHash)
+        )
+      )
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async search(
+    context: TenantContext,
+    options: {
+      filters?: { status?: ClaimSubmissionStatus };
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<ClaimSubmission>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const whereCondition = this.withTenantFilter(
+      context,
+      this.buildRoleFilter(context),
+      filters?.status ? eq(claimSubmissions.status, filters.status) : undefined
+    );
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(claimSubmissions)
+        .where(whereCondition)
+        .orderBy(desc(claimSubmissions.createdAt), desc(claimSubmissions.id))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(claimSubmissions)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => this.mapToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+
+  async create(data: NewClaimSubmission, context: TenantContext): Promise<ClaimSubmission> {
+    PermissionHelper.requirePermission(
+      PermissionHelper.canSubmitClaimFiles(context.role),
+      'submit claim files',
+      context.role
+    );
+
+    try {
+      const result = await db
+        .insert(claimSubmissions)
+        .values({
+          ...data,
+          organizationId: context.organizationId,
+          submittedBy: context.userId,
+          providerId: context.role === 'provider' ? context.providerId : undefined,
+          completedAt: data.status === 'rejected' ? new Date() : undefined,
+        })
+        .returning();
+
+      return this.mapToDomain(result[0]);
+    } catch (error) {
+      if (isUniqueViolation(error, FILE_HASH_UNIQUE_CONSTRAINT)) {
+        throw new ConflictError('This file has already been imported', {
+          constraint: FILE_HASH_UNIQUE_CONSTRAINT,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async findWithContentInternal(
+    id: string,
+    organizationId: string
+  ): Promise<{ submission: ClaimSubmission; content: string } | null> {
+    const result = await db
+      .select()
+      .from(claimSubmissions)
+      .where(this.internalFilter(id, organizationId))
+      .limit(1);
+
+    return result[0]
+      ? { submission: this.mapToDomain(result[0]), content: result[0].content }
+      : null;
+  }
+
+  async markProcessingInternal(id: string, organizationId: string): Promise<void> {
+    await db
+      .update(claimSubmissions)
+      .set({ status: 'processing', updatedAt: new Date() })
+      .where(this.internalFilter(id, organizationId));
+  }
+
+  async addResultInternal(
+    id: string,
+    organizationId: string,
+    result: ClaimSubmissionResult
+  ): Promise<void> {
+    const accepted = result.status === 'accepted' ? 1 : 0;
+
+    await db
+      .update(claimSubmissions)
+      .set({
+        results: sql`${claimSubmissions.results} || ${JSON.stringify([result])}::jsonb`,
+        acceptedCount: sql`${claimSubmissions.acceptedCount} + ${accepted}`,
+        rejectedCount: sql`${claimSubmissions.rejectedCount} + ${1 - accepted}`,
+        updatedAt: new Date(),
+      })
+      .where(this.internalFilter(id, organizationId));
+  }
+
+  async completeInternal(id: string, organizationId: string): Promise<ClaimSubmission | null> {
+    const now = new Date();
+    const result = await db
+      .update(claimSubmissions)
+      .set({ status: 'completed', completedAt: now, updatedAt: now })
+      .where(this.internalFilter(id, organizationId))
+      .returning();
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async deleteInternal(id: string, organizationId: string): Promise<void> {
+    await db.delete(claimSubmissions).where(this.internalFilter(id, organizationId));
+  }
+}
+
+export const claimSubmissionRepository = new ClaimSubmissionRepository();
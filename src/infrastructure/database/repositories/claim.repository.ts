@@ -1,24 +1,139 @@
-import { eq, and, gte, lte, inArray, sql, desc, asc, SQL } from 'drizzle-orm';
-import { db, runInTransaction } from '../connection.js';
-import { claims, type ClaimRow } from '../schema/index.js';
-import { BaseTenantRepository, PermissionHelper } from './base.repository.js';
+import {
+  eq,
+  ne,
+  and,
+  gte,
+  lt,
+  lte,
+  inArray,
+  isNotNull,
+  exists,
+  sql,
+  desc,
+  asc,
+  SQL,
+} from 'drizzle-orm';
+import { db, runInTransaction, streamRows } from '../connection.js';
+import {
+  claims,
+  claimLines,
+  organizations,
+  patients,
+  providers,
+  users,
+  appeals,
+  type ClaimRow,
+  type ClaimLineRow,
+} from '../schema/index.js';
+import {
+  BaseTenantRepository,
+  PermissionHelper,
+  isUniqueViolation,
+  keysetCursor,
+} from './base.repository.js';
+import { applyCostSharing, reverseCostSharing } from './benefit-accumulator.repository.js';
+import { repriceClaim } from './fee-schedule.repository.js';
 import type {
   IClaimRepository,
   ClaimFilters,
   ClaimSortField,
+  ClaimLineDecision,
+  NewClaim,
+  AssignmentReconciliationResult,
+  ProviderRiskReportOptions,
+  ProviderRiskSummary,
 } from '../../../domain/repositories/index.js';
-import type { Claim, ClaimStatusChange } from '../../../domain/entities/index.js';
 import type {
-  TenantContext,
-  ClaimStatus,
-  PaginatedResult,
-  PaginationParams,
+  AdjudicationFacts,
+  AdjudicationTrace,
+  Claim,
+  ClaimLine,
+  ClaimRiskAssessment,
+  ClaimRiskFeatures,
+  ClaimStatusChange,
+  OrganizationSettings,
+  PatientResponsibility,
+  RoutableClaim,
+} from '../../../domain/entities/index.js';
+import {
+  DEFAULT_ORGANIZATION_SETTINGS,
+  DUPLICATE_CLAIM_WINDOW_DAYS,
+  HIGH_LEVEL_VISIT_CODES,
+  OFFICE_VISIT_CODES,
+  OPEN_CLAIM_STATUSES,
+  RISK_SCORING,
+  getAgeOn,
+  getClaimAllowedAmountFromLines,
+  getClaimAmountFromLines,
+  getAllowedStatusTransitions,
+  isStatusTransitionAllowed,
+  isTerminalClaimStatus,
+  scoreDuplicateClaim,
+} from '../../../domain/entities/index.js';
+import {
+  ClaimFlag,
+  RiskReason,
+  type TenantContext,
+  type ClaimLineStatus,
+  type ClaimStatus,
+  type PaginatedResult,
+  type PaginationParams,
 } from '../../../shared/types/index.js';
 import {
+  DomainError,
+  DuplicateClaimError,
+  IdempotencyConflictError,
   ForbiddenError,
   ClaimNotModifiableError,
+  InvalidStatusTransitionError,
+  InvalidAssigneeError,
+  ValidationError,
 } from '../../../domain/errors/index.js';
 
+const DEFAULT_CLAIM_SORT: ClaimSortField = { field: 'createdAt', order: 'desc' };
+
+const IDEMPOTENCY_UNIQUE_CONSTRAINT = 'claims_idempotency_org_idx';
+
+// Earlier claims a new claim is scored against, most recent first
+const DUPLICATE_CANDIDATE_LIMIT = 50;
+
+// Procedure code and charge of each line, in an order-independent form
+function getLineSignature(lines: { procedureCode: string; chargeAmount: number }[]): string {
+  return lines
+    .map((line) => `${line.procedureCode}:${line.chargeAmount.toFixed(2)}`)
+    .sort()
+    .join('|');
+}
+
+// Claim columns set when a new claim is a suspected duplicate
+type ClaimDuplicateValues = Pick<
+  typeof claims.$inferInsert,
+  'flags' | 'duplicateOfClaimId' | 'duplicateScore'
+>;
+
+/**
+ * On claim approval, lines not yet decided are approved with it.
+ * Returns false when every line was rejected - such a claim can only be
+ * rejected. Claims without lines (created before line items) pass.
+ */
+export async function approvePendingLines(tx: typeof db, claimId: string): Promise<boolean> {
+  const lines = await tx
+    .select({ status: claimLines.status })
+    .from(claimLines)
+    .where(eq(claimLines.claimId, claimId));
+
+  if (lines.length > 0 && lines.every((line) => line.status === 'rejected')) {
+    return false;
+  }
+
+  await tx
+    .update(claimLines)
+    .set({ status: 'approved', updatedAt: new Date() })
+    .where(and(eq(claimLines.claimId, claimId), eq(claimLines.status, 'pending')));
+
+  return true;
+}
+
 export class ClaimRepository
   extends BaseTenantRepository<typeof claims>
   implements IClaimRepository
@@ -48,6 +163,7 @@ export class ClaimRepository
       patientId: row.patientId,
       providerId: row.providerId,
       diagnosisCode: row.diagnosisCode,
+      additionalDiagnosisCodes: (row.additionalDiagnosisCodes as string[]) || [],
       procedureCode: row.procedureCode ?? undefined,
       amount: parseFloat(row.amount),
       status: row.status as ClaimStatus,
@@ -59,6 +175,43 @@ export class ClaimRepository
       assignedTo: row.assignedTo ?? undefined,
       denialReason: row.denialReason ?? undefined,
       statusHistory: (row.statusHistory as ClaimStatusChange[]) || [],
+      adjudicationTrace: (row.adjudicationTrace as AdjudicationTrace | null) ?? undefined,
+      billedAmount: row.billedAmount === null ? undefined : parseFloat(row.billedAmount),
+      allowedAmount: row.allowedAmount === null ? undefined : parseFloat(row.allowedAmount),
+      flags: (row.flags as ClaimFlag[]) || [],
+      duplicateOfClaimId: row.duplicateOfClaimId ?? undefined,
+      duplicateScore: row.duplicateScore === null ? undefined : parseFloat(row.duplicateScore),
+      idempotencyKey: row.idempotencyKey ?? undefined,
+      riskScore: row.riskScore === null ? undefined : parseFloat(row.riskScore),
+      riskReasons: (row.riskReasons as RiskReason[]) || [],
+      riskScoredAt: row.riskScoredAt ?? undefined,
+      planPaidAmount: row.planPaidAmount === null ? undefined : parseFloat(row.planPaidAmount),
+      patientResponsibility:
+        (row.patientResponsibility as PatientResponsibility | null) ?? undefined,
+      benefitAccumulatorId: row.benefitAccumulatorId ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  private mapLineToDomain(row: ClaimLineRow): ClaimLine {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      claimId: row.claimId,
+      lineNumber: row.lineNumber,
+      procedureCode: row.procedureCode,
+      modifiers: (row.modifiers as string[]) || [],
+      units: row.units,
+      unitCharge: parseFloat(row.unitCharge),
+      chargeAmount: parseFloat(row.chargeAmount),
+      serviceDate: row.serviceDate,
+      diagnosisPointers: (row.diagnosisPointers as number[]) || [],
+      status: row.status as ClaimLineStatus,
+      denialReason: row.denialReason ?? undefined,
+      scheduledAmount:
+        row.scheduledAmount === null ? undefined : parseFloat(row.scheduledAmount),
+      allowedAmount: row.allowedAmount === null ? undefined : parseFloat(row.allowedAmount),
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
@@ -146,25 +299,52 @@ export class ClaimRepository
       conditions.push(eq(claims.assignedTo, filters.assignedTo));
     }
 
-    return conditions;
-  }
+    if (filters.procedureCode) {
+      // Served by claim_lines_org_procedure_idx
+      conditions.push(
+        exists(
+          db
+            .select({ id: claimLines.id })
+            .from(claimLines)
+            .where(
+              and(
+                eq(claimLines.organizationId, claims.organizationId),
+                eq(claimLines.procedureCode, filters.procedureCode),
+                eq(claimLines.claimId, claims.id)
+              )
+            )
+        )
+      );
+    }
 
-  /**
-   * Build sort order
-   */
-  private buildSortOrder(sort?: ClaimSortField) {
-    if (!sort) {
-      return desc(claims.createdAt);
+    if (filters.flag) {
+      conditions.push(sql`${claims.flags} @> ${JSON.stringify([filters.flag])}::jsonb`);
     }
 
-    const column = {
+    // Claims not scored yet never match
+    if (filters.minRiskScore !== undefined) {
+      conditions.push(gte(claims.riskScore, filters.minRiskScore.toFixed(2)));
+    }
+
+    return conditions;
+  }
+
+  private getSortColumn(sort: ClaimSortField) {
+    return {
       createdAt: claims.createdAt,
       amount: claims.amount,
       status: claims.status,
       serviceDate: claims.serviceDate,
     }[sort.field];
+  }
+
+  /**
+   * Build sort order; id breaks ties so pages and cursors are stable
+   */
+  private buildSortOrder(sort: ClaimSortField = DEFAULT_CLAIM_SORT) {
+    const direction = sort.order === 'asc' ? asc : desc;
 
-    return sort.order === 'asc' ? asc(column) : desc(column);
+    return [direction(this.getSortColumn(sort)), direction(claims.id)];
   }
 
   async findById(id: string, context: TenantContext): Promise<Claim | null> {
@@ -179,6 +359,33 @@ export class ClaimRepository
     return result[0] ? this.mapToDomain(result[0]) : null;
   }
 
+  async findByIdempotencyKey(key: string, context: TenantContext): Promise<Claim | null> {
+    const roleFilter = this.buildRoleFilter(context);
+
+    const result = await db
+      .select()
+      .from(claims)
+      .where(this.withTenantFilter(context, eq(claims.idempotencyKey, key), roleFilter))
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async findByIds(ids: string[], context: TenantContext): Promise<Claim[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const roleFilter = this.buildRoleFilter(context);
+
+    const result = await db
+      .select()
+      .from(claims)
+      .where(this.withTenantFilter(context, inArray(claims.id, ids), roleFilter));
+
+    return result.map((row) => this.mapToDomain(row));
+  }
+
   async findByClaimNumber(
     claimNumber: string,
     context: TenantContext
@@ -208,8 +415,10 @@ export class ClaimRepository
       pagination: PaginationParams;
     }
   ): Promise<PaginatedResult<Claim>> {
-    const { filters, sort, pagination } = options;
-    const { limit, offset = 0 } = pagination;
+    const { filters, sort = DEFAULT_CLAIM_SORT, pagination } = options;
+    const { limit, cursor, count } = pagination;
+    // A cursor replaces the offset
+    const offset = cursor ? 0 : pagination.offset ?? 0;
 
     // Build all conditions
     const roleFilter = this.buildRoleFilter(context);
@@ -221,32 +430,42 @@ export class ClaimRepository
       ...filterConditions
     );
 
-    // Execute query with pagination
-    const [rows, countResult] = await Promise.all([
+    const sortColumn = this.getSortColumn(sort);
+    const sortName = `${sort.field}:${sort.order}`;
+    const afterCursor = cursor
+      ? keysetCursor.after(
+          sortColumn,
+          claims.id,
+          sort.order,
+          keysetCursor.decode(cursor, sortName, sortColumn)
+        )
+      : undefined;
+
+    // One row past the page tells whether there is another
+    const [rows, totals] = await Promise.all([
       db
-        .select()
+        .select({ claim: claims, sortKey: sql<string>`${sortColumn}::text` })
         .from(claims)
-        .where(whereCondition)
-        .orderBy(this.buildSortOrder(sort))
-        .limit(limit)
+        .where(afterCursor ? and(whereCondition, afterCursor) : whereCondition)
+        .orderBy(...this.buildSortOrder(sort))
+        .limit(limit + 1)
         .offset(offset),
-      db
-        .select({ count: sql<number>`count(*)::int` })
-        .from(claims)
-        .where(whereCondition),
+      this.countTotal(whereCondition, count),
     ]);
 
-    const total = countResult[0]?.count ?? 0;
+    const page = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+    const last = page[page.length - 1];
 
     return {
-      data: rows.map((row) => this.mapToDomain(row)),
+      data: page.map((row) => this.mapToDomain(row.claim)),
       pagination: {
-        total,
+        ...totals,
         limit,
         offset,
-        hasMore: offset + rows.length < total,
+        hasMore,
         nextCursor:
-          rows.length === limit ? rows[rows.length - 1].id : undefined,
+          hasMore && last ? keysetCursor.encode(sortName, last.sortKey, last.claim.id) : undefined,
       },
     };
   }
@@ -271,13 +490,7 @@ export class ClaimRepository
     return result.map((row) => this.mapToDomain(row));
   }
 
-  async create(
-    data: Omit<
-      Claim,
-      'id' | 'createdAt' | 'updatedAt' | 'claimNumber' | 'statusHistory'
-    >,
-    context: TenantContext
-  ): Promise<Claim> {
+  async create(data: NewClaim, context: TenantContext): Promise<Claim> {
     // Validate permission
     PermissionHelper.requirePermission(
       PermissionHelper.canCreateClaims(context.role),
@@ -301,20 +514,337 @@ export class ClaimRepository
       reason: 'Initial submission',
     };
 
-    const result = await db
-      .insert(claims)
-      .values({
-        ...data,
-        amount: data.amount.toString(),
-        organizationId: context.organizationId,
-        claimNumber,
-        status: 'submitted',
-        submittedAt: now,
-        statusHistory: [initialStatusChange],
+    const { lines, ...claimData } = data;
+
+    try {
+      return await runInTransaction(async (tx) => {
+        const duplicates = await this.checkDuplicates(tx, data, context);
+
+        const result = await tx
+          .insert(claims)
+          .values({
+            ...claimData,
+            amount: claimData.amount.toString(),
+            organizationId: context.organizationId,
+            claimNumber,
+            status: 'submitted',
+            submittedAt: now,
+            statusHistory: [initialStatusChange],
+            ...duplicates,
+          })
+          .returning();
+
+        const claim = this.mapToDomain(result[0]);
+
+        const lineRows = await tx
+          .insert(claimLines)
+          .values(
+            lines.map((line, index) => ({
+              ...line,
+              organizationId: context.organizationId,
+              claimId: claim.id,
+              lineNumber: index + 1,
+              unitCharge: line.unitCharge.toString(),
+              chargeAmount: line.chargeAmount.toString(),
+              status: 'pending' as const,
+            }))
+          )
+          .returning();
+
+        return { ...claim, lines: lineRows.map((row) => this.mapLineToDomain(row)) };
+      });
+    } catch (error) {
+      // A concurrent request with the same Idempotency-Key got there first
+      if (data.idempotencyKey && isUniqueViolation(error, IDEMPOTENCY_UNIQUE_CONSTRAINT)) {
+        throw new IdempotencyConflictError(data.idempotencyKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Before a claim is inserted, in its transaction: refuse an exact
+   * duplicate of an earlier claim of the patient that was not rejected
+   * (same provider, diagnosis, service date and line procedures and
+   * charges), and score the claim against the patient's claims within
+   * DUPLICATE_CLAIM_WINDOW_DAYS of its service date. The patient row is
+   * locked so claims for one patient are checked one at a time; a request
+   * whose Idempotency-Key was used while it waited gets
+   * IdempotencyConflictError, for the caller to return that claim.
+   *
+   * Returns the claim columns to set; a claim scoring at least the
+   * organization's duplicateScoreThreshold against one of them is flagged.
+   */
+  private async checkDuplicates(
+    tx: typeof db,
+    data: NewClaim,
+    context: TenantContext
+  ): Promise<ClaimDuplicateValues> {
+    await tx
+      .select({ id: patients.id })
+      .from(patients)
+      .where(eq(patients.id, data.patientId))
+      .for('update');
+
+    if (data.idempotencyKey) {
+      const replayed = await tx
+        .select({ id: claims.id })
+        .from(claims)
+        .where(this.withTenantFilter(context, eq(claims.idempotencyKey, data.idempotencyKey)))
+        .limit(1);
+
+      if (replayed[0]) {
+        throw new IdempotencyConflictError(data.idempotencyKey);
+      }
+    }
+
+    // Rejected claims can be corrected and submitted again
+    const sameTotal = await tx
+      .select({
+        id: claims.id,
+        claimNumber: claims.claimNumber,
+        procedureCode: claims.procedureCode,
       })
-      .returning();
+      .from(claims)
+      .where(
+        this.withTenantFilter(
+          context,
+          eq(claims.patientId, data.patientId),
+          eq(claims.providerId, data.providerId),
+          eq(claims.diagnosisCode, data.diagnosisCode),
+          eq(claims.serviceDate, data.serviceDate),
+          eq(claims.amount, data.amount.toFixed(2)),
+          ne(claims.status, 'rejected')
+        )
+      )
+      .orderBy(asc(claims.createdAt))
+      .limit(DUPLICATE_CANDIDATE_LIMIT);
+
+    if (sameTotal.length > 0) {
+      // The amount only counts lines that are not rejected
+      const sameTotalLines = await tx
+        .select({
+          claimId: claimLines.claimId,
+          procedureCode: claimLines.procedureCode,
+          chargeAmount: claimLines.chargeAmount,
+        })
+        .from(claimLines)
+        .where(
+          and(
+            inArray(
+              claimLines.claimId,
+              sameTotal.map((candidate) => candidate.id)
+            ),
+            ne(claimLines.status, 'rejected')
+          )
+        );
+
+      const signature = getLineSignature(data.lines);
+      const exact = sameTotal.find((candidate) => {
+        const lines = sameTotalLines
+          .filter((line) => line.claimId === candidate.id)
+          .map((line) => ({ ...line, chargeAmount: parseFloat(line.chargeAmount) }));
+        // Claims from before line items bill their procedure as one line
+        return (
+          getLineSignature(
+            lines.length > 0 || !candidate.procedureCode
+              ? lines
+              : [{ procedureCode: candidate.procedureCode, chargeAmount: data.amount }]
+          ) === signature
+        );
+      });
+
+      if (exact) {
+        throw new DuplicateClaimError(exact);
+      }
+    }
+
+    const windowMs = DUPLICATE_CLAIM_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const candidates = await tx
+      .select({
+        id: claims.id,
+        providerId: claims.providerId,
+        diagnosisCode: claims.diagnosisCode,
+        procedureCode: claims.procedureCode,
+        amount: claims.amount,
+        serviceDate: claims.serviceDate,
+      })
+      .from(claims)
+      .where(
+        this.withTenantFilter(
+          context,
+          eq(claims.patientId, data.patientId),
+          gte(claims.serviceDate, new Date(data.serviceDate.getTime() - windowMs)),
+          lte(claims.serviceDate, new Date(data.serviceDate.getTime() + windowMs))
+        )
+      )
+      .orderBy(desc(claims.createdAt))
+      .limit(DUPLICATE_CANDIDATE_LIMIT);
 
-    return this.mapToDomain(result[0]);
+    if (candidates.length === 0) {
+      return {};
+    }
+
+    const lineRows = await tx
+      .select({ claimId: claimLines.claimId, procedureCode: claimLines.procedureCode })
+      .from(claimLines)
+      .where(
+        inArray(
+          claimLines.claimId,
+          candidates.map((candidate) => candidate.id)
+        )
+      );
+
+    const organizationRows = await tx
+      .select({ settings: organizations.settings })
+      .from(organizations)
+      .where(eq(organizations.id, context.organizationId))
+      .limit(1);
+
+    const settings: OrganizationSettings = {
+      ...DEFAULT_ORGANIZATION_SETTINGS,
+      ...((organizationRows[0]?.settings as Partial<OrganizationSettings> | null) ?? {}),
+    };
+
+    const claim = { ...data, procedureCodes: data.lines.map((line) => line.procedureCode) };
+    let closest: { id: string; score: number } | undefined;
+
+    for (const candidate of candidates) {
+      const procedureCodes = lineRows
+        .filter((row) => row.claimId === candidate.id)
+        .map((row) => row.procedureCode);
+
+      const score = scoreDuplicateClaim(claim, {
+        ...candidate,
+        amount: parseFloat(candidate.amount),
+        // Claims from before line items bill their procedure as one line
+        procedureCodes:
+          procedureCodes.length > 0 || !candidate.procedureCode
+            ? procedureCodes
+            : [candidate.procedureCode],
+      });
+
+      if (!closest || score > closest.score) {
+        closest = { id: candidate.id, score };
+      }
+    }
+
+    const threshold = settings.duplicateScoreThreshold;
+    if (!closest || threshold === undefined || closest.score < threshold) {
+      return {};
+    }
+
+    return {
+      flags: [ClaimFlag.SUSPECTED_DUPLICATE],
+      duplicateOfClaimId: closest.id,
+      duplicateScore: closest.score.toFixed(2),
+    };
+  }
+
+  async findLines(claimId: string, context: TenantContext): Promise<ClaimLine[]> {
+    const result = await db
+      .select()
+      .from(claimLines)
+      .where(
+        and(
+          eq(claimLines.claimId, claimId),
+          eq(claimLines.organizationId, context.organizationId)
+        )
+      )
+      .orderBy(asc(claimLines.lineNumber));
+
+    return result.map((row) => this.mapLineToDomain(row));
+  }
+
+  /**
+   * Approve or reject a single line of a claim under review and recompute the
+   * claim amount from the lines that are not rejected. Decisions can be
+   * revised until the claim itself is approved or rejected.
+   */
+  async decideLine(
+    claimId: string,
+    lineId: string,
+    status: Exclude<ClaimLineStatus, 'pending'>,
+    context: TenantContext,
+    reason?: string
+  ): Promise<ClaimLineDecision | null> {
+    PermissionHelper.requirePermission(
+      PermissionHelper.canUpdateClaimStatus(context.role),
+      'decide claim lines',
+      context.role
+    );
+
+    return await runInTransaction(async (tx) => {
+      const roleFilter = this.buildRoleFilter(context);
+      const existing = await tx
+        .select()
+        .from(claims)
+        .where(this.withTenantFilter(context, eq(claims.id, claimId), roleFilter))
+        .limit(1)
+        .for('update');
+
+      if (!existing[0]) {
+        return null;
+      }
+
+      const claim = existing[0];
+
+      if (context.role === 'claims_processor' && claim.assignedTo !== context.userId) {
+        throw new ForbiddenError('Claims processors can only update their assigned claims');
+      }
+
+      if (claim.status !== 'under_review') {
+        throw new ClaimNotModifiableError(claimId, claim.status);
+      }
+
+      const lineRows = await tx
+        .select()
+        .from(claimLines)
+        .where(eq(claimLines.claimId, claimId))
+        .orderBy(asc(claimLines.lineNumber));
+
+      const lines = lineRows.map((row) => this.mapLineToDomain(row));
+      const previousLine = lines.find((line) => line.id === lineId);
+
+      if (!previousLine) {
+        return null;
+      }
+
+      const updatedLine = await tx
+        .update(claimLines)
+        .set({
+          status,
+          denialReason: status === 'rejected' ? reason ?? null : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(claimLines.id, lineId))
+        .returning();
+
+      const line = this.mapLineToDomain(updatedLine[0]);
+      const allLines = lines.map((l) => (l.id === lineId ? line : l));
+
+      // A priced claim's billed and allowed amounts follow the line decisions
+      const amount = getClaimAmountFromLines(allLines);
+      const updatedClaim = await tx
+        .update(claims)
+        .set({
+          amount: amount.toString(),
+          ...(claim.billedAmount !== null && {
+            billedAmount: amount.toFixed(2),
+            allowedAmount: getClaimAllowedAmountFromLines(allLines).toFixed(2),
+          }),
+          updatedAt: new Date(),
+        })
+        .where(eq(claims.id, claimId))
+        .returning();
+
+      return {
+        claim: { ...this.mapToDomain(updatedClaim[0]), lines: allLines },
+        line,
+        previousLine,
+        previousAmount: parseFloat(claim.amount),
+      };
+    });
   }
 
   async updateStatus(
@@ -337,17 +867,19 @@ export class ClaimRepository
         .select()
         .from(claims)
         .where(this.withTenantFilter(context, eq(claims.id, id), roleFilter))
-        .limit(1);
+        .limit(1)
+        .for('update');
 
       if (!existing[0]) {
         return null;
       }
 
       const claim = existing[0];
+      const currentStatus = claim.status as ClaimStatus;
 
-      // Check if claim can be modified
-      if (claim.status === 'approved' || claim.status === 'paid') {
-        throw new ClaimNotModifiableError(id, claim.status);
+      // Check if claim can be modified at all
+      if (isTerminalClaimStatus(currentStatus)) {
+        throw new ClaimNotModifiableError(id, currentStatus);
       }
 
       // For claims processors, verify assignment
@@ -360,9 +892,33 @@ export class ClaimRepository
         );
       }
 
+      // Enforce the workflow edges allowed for this role
+      if (!isStatusTransitionAllowed(currentStatus, newStatus, context.role)) {
+        throw new InvalidStatusTransitionError(
+          currentStatus,
+          newStatus,
+          getAllowedStatusTransitions(currentStatus, context.role)
+        );
+      }
+
+      if (newStatus === 'approved' && !(await approvePendingLines(tx, id))) {
+        throw new ValidationError(
+          'Every line of this claim is rejected; reject the claim instead',
+          { claimId: id }
+        );
+      }
+
+      const costSharing =
+        newStatus === 'approved'
+          ? await applyCostSharing(tx, claim)
+          : currentStatus === 'approved' && newStatus === 'under_review'
+            ? await reverseCostSharing(tx, claim)
+            : {};
+      const pricing = newStatus === 'under_review' ? await repriceClaim(tx, claim) : {};
+
       // Build status change record
       const statusChange: ClaimStatusChange = {
-        fromStatus: claim.status as ClaimStatus,
+        fromStatus: currentStatus,
         toStatus: newStatus,
         changedBy: context.userId,
         changedAt: new Date(),
@@ -387,6 +943,8 @@ export class ClaimRepository
           statusHistory: [...currentHistory, statusChange],
           processedAt,
           paidAt,
+          ...costSharing,
+          ...pricing,
           updatedAt: new Date(),
         })
         .where(eq(claims.id, id))
@@ -401,7 +959,7 @@ export class ClaimRepository
     newStatus: ClaimStatus,
     context: TenantContext,
     reason?: string
-  ): Promise<{ updated: string[]; failed: string[] }> {
+  ): Promise<{ updated: string[]; failed: { id: string; reason: string }[] }> {
     PermissionHelper.requirePermission(
       PermissionHelper.canUpdateClaimStatus(context.role),
       'bulk update claim status',
@@ -409,7 +967,7 @@ export class ClaimRepository
     );
 
     const updated: string[] = [];
-    const failed: string[] = [];
+    const failed: { id: string; reason: string }[] = [];
 
     // Process each claim individually to ensure proper validation
     for (const id of ids) {
@@ -418,16 +976,63 @@ export class ClaimRepository
         if (result) {
           updated.push(id);
         } else {
-          failed.push(id);
+          failed.push({ id, reason: 'Claim not found or access denied' });
         }
       } catch (error) {
-        failed.push(id);
+        // Surface domain errors (e.g. illegal transitions), hide anything else
+        failed.push({
+          id,
+          reason: error instanceof DomainError ? error.message : 'Failed to update claim',
+        });
       }
     }
 
     return { updated, failed };
   }
 
+  /**
+   * Remove a claim ID from a user's assignedClaimIds (jsonb array of strings)
+   */
+  private async removeFromAssignedClaims(
+    tx: typeof db,
+    userId: string,
+    claimId: string
+  ): Promise<void> {
+    await tx
+      .update(users)
+      .set({
+        assignedClaimIds: sql`${users.assignedClaimIds} - ${claimId}::text`,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  /**
+   * Append a claim ID to a user's assignedClaimIds unless already present,
+   * stamping lastAssignedAt for round-robin routing
+   */
+  private async addToAssignedClaims(
+    tx: typeof db,
+    userId: string,
+    claimId: string
+  ): Promise<void> {
+    await tx
+      .update(users)
+      .set({
+        assignedClaimIds: sql`CASE WHEN ${users.assignedClaimIds} ? ${claimId}::text
+          THEN ${users.assignedClaimIds}
+          ELSE ${users.assignedClaimIds} || jsonb_build_array(${claimId}::text) END`,
+        lastAssignedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  /**
+   * Assign a claim to a processor. The claim's assignedTo and both processors'
+   * assignedClaimIds are updated in one transaction, with the claim row locked
+   * so concurrent reassignments serialize.
+   */
   async assignToProcessor(
     claimId: string,
     processorId: string,
@@ -438,16 +1043,152 @@ export class ClaimRepository
       throw new ForbiddenError('Only admins can assign claims to processors');
     }
 
-    const result = await db
-      .update(claims)
-      .set({
-        assignedTo: processorId,
-        updatedAt: new Date(),
-      })
-      .where(this.withTenantFilter(context, eq(claims.id, claimId)))
-      .returning();
+    return await this.assignToProcessorInternal(claimId, processorId, context.organizationId);
+  }
 
-    return result[0] ? this.mapToDomain(result[0]) : null;
+  /**
+   * Internal method for routing - assigns without a role check
+   * ONLY use this in trusted contexts with proper org filtering
+   */
+  async assignToProcessorInternal(
+    claimId: string,
+    processorId: string,
+    organizationId: string
+  ): Promise<Claim | null> {
+    return await runInTransaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(claims)
+        .where(and(eq(claims.id, claimId), eq(claims.organizationId, organizationId)))
+        .limit(1)
+        .for('update');
+
+      if (!existing[0]) {
+        return null;
+      }
+
+      // Lock the assignee too, so it can't be deactivated mid-assignment
+      const assignee = await tx
+        .select({ role: users.role, isActive: users.isActive })
+        .from(users)
+        .where(and(eq(users.id, processorId), eq(users.organizationId, organizationId)))
+        .limit(1)
+        .for('update');
+
+      if (!assignee[0] || assignee[0].role !== 'claims_processor' || !assignee[0].isActive) {
+        throw new InvalidAssigneeError(processorId);
+      }
+
+      const previousAssignee = existing[0].assignedTo;
+
+      if (previousAssignee && previousAssignee !== processorId) {
+        await this.removeFromAssignedClaims(tx, previousAssignee, claimId);
+      }
+      await this.addToAssignedClaims(tx, processorId, claimId);
+
+      const result = await tx
+        .update(claims)
+        .set({
+          assignedTo: processorId,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(claims.id, claimId), eq(claims.organizationId, organizationId)))
+        .returning();
+
+      return result[0] ? this.mapToDomain(result[0]) : null;
+    });
+  }
+
+  /**
+   * Clear a claim's assignee and remove it from that processor's assignedClaimIds
+   */
+  async unassign(claimId: string, context: TenantContext): Promise<Claim | null> {
+    if (context.role !== 'admin') {
+      throw new ForbiddenError('Only admins can unassign claims');
+    }
+
+    return await runInTransaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(claims)
+        .where(this.withTenantFilter(context, eq(claims.id, claimId)))
+        .limit(1)
+        .for('update');
+
+      if (!existing[0]) {
+        return null;
+      }
+
+      if (!existing[0].assignedTo) {
+        return this.mapToDomain(existing[0]);
+      }
+
+      await this.removeFromAssignedClaims(tx, existing[0].assignedTo, claimId);
+
+      const result = await tx
+        .update(claims)
+        .set({
+          assignedTo: null,
+          updatedAt: new Date(),
+        })
+        .where(this.withTenantFilter(context, eq(claims.id, claimId)))
+        .returning();
+
+      return result[0] ? this.mapToDomain(result[0]) : null;
+    });
+  }
+
+  /**
+   * Internal method for background jobs - repairs drift between
+   * claims.assignedTo (source of truth) and users.assignedClaimIds.
+   * Claims assigned to anyone but an active claims processor are unassigned.
+   */
+  async reconcileAssignmentsInternal(
+    organizationId: string
+  ): Promise<AssignmentReconciliationResult> {
+    return await runInTransaction(async (tx) => {
+      const unassigned = await tx
+        .update(claims)
+        .set({ assignedTo: null, updatedAt: new Date() })
+        .where(
+          and(
+            eq(claims.organizationId, organizationId),
+            sql`${claims.assignedTo} IS NOT NULL`,
+            sql`NOT EXISTS (
+              SELECT 1 FROM ${users}
+              WHERE ${users.id} = ${claims.assignedTo}
+                AND ${users.organizationId} = ${organizationId}
+                AND ${users.role} = 'claims_processor'
+                AND ${users.isActive} = true
+            )`
+          )
+        )
+        .returning({ id: claims.id });
+
+      // Expected array per user, compared as sets so ordering is not drift
+      const expected = sql`COALESCE((
+        SELECT jsonb_agg(${claims.id}::text ORDER BY ${claims.id})
+        FROM ${claims}
+        WHERE ${claims.organizationId} = ${organizationId}
+          AND ${claims.assignedTo} = ${users.id}
+      ), '[]'::jsonb)`;
+
+      const repaired = await tx
+        .update(users)
+        .set({ assignedClaimIds: expected, updatedAt: new Date() })
+        .where(
+          and(
+            eq(users.organizationId, organizationId),
+            sql`NOT (${users.assignedClaimIds} @> ${expected} AND ${expected} @> ${users.assignedClaimIds})`
+          )
+        )
+        .returning({ id: users.id });
+
+      return {
+        usersRepaired: repaired.map((row) => row.id),
+        claimsUnassigned: unassigned.map((row) => row.id),
+      };
+    });
   }
 
   async count(context: TenantContext, filters?: ClaimFilters): Promise<number> {
@@ -462,6 +1203,26 @@ export class ClaimRepository
     return result[0]?.count ?? 0;
   }
 
+  async *streamMany(
+    context: TenantContext,
+    options: { filters?: ClaimFilters; sort?: ClaimSortField },
+    batchSize: number
+  ): AsyncGenerator<Claim[]> {
+    const { filters, sort } = options;
+    const roleFilter = this.buildRoleFilter(context);
+    const filterConditions = filters ? this.buildFilterConditions(filters) : [];
+
+    const query = db
+      .select()
+      .from(claims)
+      .where(this.withTenantFilter(context, roleFilter, ...filterConditions))
+      .orderBy(...this.buildSortOrder(sort));
+
+    for await (const rows of streamRows(claims, query, batchSize)) {
+      yield rows.map((row) => this.mapToDomain(row));
+    }
+  }
+
   async sumAmount(context: TenantContext, filters?: ClaimFilters): Promise<number> {
     const roleFilter = this.buildRoleFilter(context);
     const filterConditions = filters ? this.buildFilterConditions(filters) : [];
@@ -501,6 +1262,51 @@ export class ClaimRepository
     return result.map((row) => this.mapToDomain(row));
   }
 
+  /**
+   * Internal method for routing - open claims with the attributes routing
+   * strategies look at. Limited to the given IDs when provided.
+   */
+  async findRoutableInternal(
+    organizationId: string,
+    claimIds?: string[]
+  ): Promise<RoutableClaim[]> {
+    const conditions: SQL[] = [
+      eq(claims.organizationId, organizationId),
+      inArray(claims.status, [...OPEN_CLAIM_STATUSES]),
+    ];
+
+    if (claimIds) {
+      if (claimIds.length === 0) {
+        return [];
+      }
+      conditions.push(inArray(claims.id, claimIds));
+    }
+
+    const result = await db
+      .select({
+        id: claims.id,
+        status: claims.status,
+        assignedTo: claims.assignedTo,
+        diagnosisCode: claims.diagnosisCode,
+        providerSpecialty: providers.specialty,
+        originalReviewerId: appeals.originalReviewerId,
+      })
+      .from(claims)
+      .leftJoin(providers, eq(providers.id, claims.providerId))
+      .leftJoin(appeals, and(eq(appeals.claimId, claims.id), eq(appeals.status, 'pending')))
+      .where(and(...conditions))
+      .orderBy(asc(claims.submittedAt));
+
+    return result.map((row) => ({
+      id: row.id,
+      status: row.status as ClaimStatus,
+      assignedTo: row.assignedTo ?? undefined,
+      diagnosisCode: row.diagnosisCode,
+      providerSpecialty: row.providerSpecialty ?? undefined,
+      excludedProcessorId: row.originalReviewerId ?? undefined,
+    }));
+  }
+
   /**
    * Internal method for background jobs - updates status without role check
    * ONLY use this in trusted job contexts
@@ -517,21 +1323,30 @@ export class ClaimRepository
         .select()
         .from(claims)
         .where(and(eq(claims.id, id), eq(claims.organizationId, organizationId)))
-        .limit(1);
+        .limit(1)
+        .for('update');
 
       if (!existing[0]) {
         return null;
       }
 
       const claim = existing[0];
+      const currentStatus = claim.status as ClaimStatus;
 
-      // Still check if claim can be modified
-      if (claim.status === 'approved' || claim.status === 'paid') {
+      // Jobs follow the same workflow as users, with the 'system' edges
+      if (!isStatusTransitionAllowed(currentStatus, newStatus, 'system')) {
         return null; // Silently skip in job context
       }
 
+      if (newStatus === 'approved' && !(await approvePendingLines(tx, id))) {
+        return null;
+      }
+
+      const costSharing = newStatus === 'approved' ? await applyCostSharing(tx, claim) : {};
+      const pricing = newStatus === 'under_review' ? await repriceClaim(tx, claim) : {};
+
       const statusChange: ClaimStatusChange = {
-        fromStatus: claim.status as ClaimStatus,
+        fromStatus: currentStatus,
         toStatus: newStatus,
         changedBy,
         changedAt: new Date(),
@@ -540,11 +1355,20 @@ export class ClaimRepository
 
       const currentHistory = (claim.statusHistory as ClaimStatusChange[]) || [];
 
+      const processedAt =
+        ['approved', 'rejected'].includes(newStatus) && !claim.processedAt
+          ? new Date()
+          : claim.processedAt;
+
       const result = await tx
         .update(claims)
         .set({
           status: newStatus,
           statusHistory: [...currentHistory, statusChange],
+          processedAt,
+          ...(newStatus === 'rejected' && reason ? { denialReason: reason } : {}),
+          ...costSharing,
+          ...pricing,
           updatedAt: new Date(),
         })
         .where(eq(claims.id, id))
@@ -553,6 +1377,298 @@ export class ClaimRepository
       return result[0] ? this.mapToDomain(result[0]) : null;
     });
   }
+
+  /**
+   * Internal method for adjudication - the claim together with the facts
+   * rules are evaluated against
+   */
+  async findAdjudicationFactsInternal(
+    claimId: string,
+    organizationId: string
+  ): Promise<{ claim: Claim; facts: AdjudicationFacts } | null> {
+    const result = await db
+      .select({
+        claim: claims,
+        dateOfBirth: patients.dateOfBirth,
+        providerSpecialty: providers.specialty,
+      })
+      .from(claims)
+      .innerJoin(patients, eq(patients.id, claims.patientId))
+      .leftJoin(providers, eq(providers.id, claims.providerId))
+      .where(and(eq(claims.id, claimId), eq(claims.organizationId, organizationId)))
+      .limit(1);
+
+    if (!result[0]) {
+      return null;
+    }
+
+    const row = result[0];
+    const claim = this.mapToDomain(row.claim);
+
+    const [lineRows, priorResult] = await Promise.all([
+      db
+        .select({ procedureCode: claimLines.procedureCode })
+        .from(claimLines)
+        .where(eq(claimLines.claimId, claimId))
+        .orderBy(asc(claimLines.lineNumber)),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(claims)
+        .where(
+          and(
+            eq(claims.organizationId, organizationId),
+            eq(claims.patientId, claim.patientId),
+            ne(claims.id, claimId),
+            lt(claims.submittedAt, claim.submittedAt)
+          )
+        ),
+    ]);
+
+    return {
+      claim,
+      facts: {
+        amount: claim.amount,
+        diagnosisCode: claim.diagnosisCode,
+        diagnosisCodes: [claim.diagnosisCode, ...(claim.additionalDiagnosisCodes ?? [])],
+        procedureCodes: [...new Set(lineRows.map((line) => line.procedureCode))],
+        providerId: claim.providerId,
+        providerSpecialty: row.providerSpecialty ?? undefined,
+        patientAge: getAgeOn(row.dateOfBirth, claim.serviceDate),
+        priorClaimCount: priorResult[0]?.count ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Internal method for adjudication - stores the trace of the latest run
+   */
+  async recordAdjudicationInternal(
+    claimId: string,
+    organizationId: string,
+    trace: AdjudicationTrace
+  ): Promise<Claim | null> {
+    const result = await db
+      .update(claims)
+      .set({ adjudicationTrace: trace, updatedAt: new Date() })
+      .where(and(eq(claims.id, claimId), eq(claims.organizationId, organizationId)))
+      .returning();
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  /**
+   * Internal method for risk scoring - the claim together with what the
+   * organization's claim history says about it. Windows end at the claim's
+   * own submission and service dates, so rescoring an old claim judges it
+   * by the history it was submitted into.
+   */
+  async findRiskFeaturesInternal(
+    claimId: string,
+    organizationId: string
+  ): Promise<{ claim: Claim; features: ClaimRiskFeatures } | null> {
+    const result = await db
+      .select()
+      .from(claims)
+      .where(and(eq(claims.id, claimId), eq(claims.organizationId, organizationId)))
+      .limit(1);
+
+    if (!result[0]) {
+      return null;
+    }
+
+    const claim = this.mapToDomain(result[0]);
+    const dayMs = 24 * 60 * 60 * 1000;
+    const volumeFrom = new Date(
+      claim.submittedAt.getTime() - RISK_SCORING.VOLUME_WINDOW_DAYS * dayMs
+    );
+    const baselineFrom = new Date(
+      volumeFrom.getTime() - RISK_SCORING.VOLUME_BASELINE_WEEKS * 7 * dayMs
+    );
+    const peerFrom = new Date(
+      claim.serviceDate.getTime() - RISK_SCORING.AMOUNT_PEER_WINDOW_DAYS * dayMs
+    );
+    const visitsFrom = new Date(
+      claim.serviceDate.getTime() - RISK_SCORING.UPCODING_WINDOW_DAYS * dayMs
+    );
+    const serviceDayStart = new Date(claim.serviceDate.toISOString().slice(0, 10));
+    const serviceDayEnd = new Date(serviceDayStart.getTime() + dayMs);
+
+    const ownVisit = eq(claims.providerId, claim.providerId);
+    const peerVisit = ne(claims.providerId, claim.providerId);
+    const highLevelVisit = inArray(claimLines.procedureCode, [...HIGH_LEVEL_VISIT_CODES]);
+
+    const [lineRows, volumeResult, peerResult, sameDayResult, visitResult] = await Promise.all([
+      db
+        .select({ procedureCode: claimLines.procedureCode })
+        .from(claimLines)
+        .where(eq(claimLines.claimId, claimId))
+        .orderBy(asc(claimLines.lineNumber)),
+      db
+        .select({
+          recent: sql<number>`count(*) filter (where ${gte(claims.submittedAt, volumeFrom)})::int`,
+          baseline: sql<number>`count(*) filter (where ${lt(claims.submittedAt, volumeFrom)})::int`,
+        })
+        .from(claims)
+        .where(
+          and(
+            eq(claims.organizationId, organizationId),
+            eq(claims.providerId, claim.providerId),
+            gte(claims.submittedAt, baselineFrom),
+            lte(claims.submittedAt, claim.submittedAt)
+          )
+        ),
+      // Peers are other providers' claims, so a provider's own billing
+      // cannot make itself look normal
+      db
+        .select({
+          count: sql<number>`count(*)::int`,
+          mean: sql<string | null>`avg(${claims.amount})`,
+          stdDev: sql<string | null>`stddev_pop(${claims.amount})`,
+        })
+        .from(claims)
+        .where(
+          and(
+            eq(claims.organizationId, organizationId),
+            eq(claims.diagnosisCode, claim.diagnosisCode),
+            ne(claims.providerId, claim.providerId),
+            gte(claims.serviceDate, peerFrom),
+            lte(claims.serviceDate, claim.serviceDate)
+          )
+        ),
+      db
+        .select({ count: sql<number>`count(distinct ${claims.providerId})::int` })
+        .from(claims)
+        .where(
+          and(
+            eq(claims.organizationId, organizationId),
+            eq(claims.patientId, claim.patientId),
+            gte(claims.serviceDate, serviceDayStart),
+            lt(claims.serviceDate, serviceDayEnd)
+          )
+        ),
+      // Served by claim_lines_org_procedure_idx
+      db
+        .select({
+          providerVisits: sql<number>`count(*) filter (where ${ownVisit})::int`,
+          providerHighLevelVisits: sql<number>`count(*) filter (where ${and(ownVisit, highLevelVisit)})::int`,
+          peerVisits: sql<number>`count(*) filter (where ${peerVisit})::int`,
+          peerHighLevelVisits: sql<number>`count(*) filter (where ${and(peerVisit, highLevelVisit)})::int`,
+        })
+        .from(claimLines)
+        .innerJoin(claims, eq(claims.id, claimLines.claimId))
+        .where(
+          and(
+            eq(claimLines.organizationId, organizationId),
+            inArray(claimLines.procedureCode, [...OFFICE_VISIT_CODES]),
+            gte(claimLines.serviceDate, visitsFrom),
+            lte(claimLines.serviceDate, claim.serviceDate)
+          )
+        ),
+    ]);
+
+    const peers = peerResult[0];
+    const visits = visitResult[0];
+
+    return {
+      claim,
+      features: {
+        serviceDate: claim.serviceDate,
+        amount: claim.amount,
+        procedureCodes: [...new Set(lineRows.map((line) => line.procedureCode))],
+        providerRecentClaims: volumeResult[0]?.recent ?? 0,
+        providerBaselineClaims: volumeResult[0]?.baseline ?? 0,
+        peerClaimCount: peers?.count ?? 0,
+        peerAmountMean: peers?.mean ? parseFloat(peers.mean) : 0,
+        peerAmountStdDev: peers?.stdDev ? parseFloat(peers.stdDev) : 0,
+        sameDayProviderCount: sameDayResult[0]?.count ?? 0,
+        providerVisits: visits?.providerVisits ?? 0,
+        providerHighLevelVisits: visits?.providerHighLevelVisits ?? 0,
+        peerVisits: visits?.peerVisits ?? 0,
+        peerHighLevelVisits: visits?.peerHighLevelVisits ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Internal method for risk scoring - stores the latest score and reasons
+   */
+  async recordRiskScoreInternal(
+    claimId: string,
+    organizationId: string,
+    assessment: ClaimRiskAssessment
+  ): Promise<Claim | null> {
+    const result = await db
+      .update(claims)
+      .set({
+        riskScore: assessment.score.toFixed(2),
+        riskReasons: assessment.reasons,
+        riskScoredAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(claims.id, claimId), eq(claims.organizationId, organizationId)))
+      .returning();
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  /**
+   * Providers with the most high-risk claims, then the highest average
+   * risk, over the scored claims the caller can see
+   */
+  async findTopRiskProviders(
+    context: TenantContext,
+    options: ProviderRiskReportOptions
+  ): Promise<ProviderRiskSummary[]> {
+    const roleFilter = this.buildRoleFilter(context);
+    const conditions: SQL[] = [isNotNull(claims.riskScore)];
+    if (options.fromDate) {
+      conditions.push(gte(claims.serviceDate, options.fromDate));
+    }
+    if (options.toDate) {
+      conditions.push(lte(claims.serviceDate, options.toDate));
+    }
+
+    const highRisk = gte(claims.riskScore, options.highRiskScore.toFixed(2));
+    const highRiskClaimCount = sql<number>`count(*) filter (where ${highRisk})::int`;
+    const averageRiskScore = sql<string>`avg(${claims.riskScore})`;
+    const reasonCounts = Object.fromEntries(
+      Object.values(RiskReason).map((reason) => [
+        reason,
+        sql<number>`count(*) filter (where ${claims.riskReasons} @> ${JSON.stringify([reason])}::jsonb)::int`,
+      ])
+    ) as Record<RiskReason, SQL<number>>;
+
+    const rows = await db
+      .select({
+        providerId: claims.providerId,
+        providerName: providers.name,
+        npi: providers.npi,
+        scoredClaimCount: sql<number>`count(*)::int`,
+        highRiskClaimCount,
+        averageRiskScore,
+        maxRiskScore: sql<string>`max(${claims.riskScore})`,
+        highRiskAmount: sql<string>`coalesce(sum(${claims.amount}) filter (where ${highRisk}), 0)`,
+        reasonCounts,
+      })
+      .from(claims)
+      .innerJoin(providers, eq(providers.id, claims.providerId))
+      .where(this.withTenantFilter(context, roleFilter, ...conditions))
+      .groupBy(claims.providerId, providers.name, providers.npi)
+      .orderBy(desc(highRiskClaimCount), desc(averageRiskScore), asc(claims.providerId))
+      .limit(options.limit);
+
+    return rows.map((row) => ({
+      providerId: row.providerId,
+      providerName: row.providerName,
+      npi: row.npi,
+      scoredClaimCount: row.scoredClaimCount,
+      highRiskClaimCount: row.highRiskClaimCount,
+      averageRiskScore: Math.round(parseFloat(row.averageRiskScore) * 100) / 100,
+      maxRiskScore: parseFloat(row.maxRiskScore),
+      highRiskAmount: parseFloat(row.highRiskAmount),
+      reasonCounts: row.reasonCounts,
+    }));
+  }
 }
 
 export const claimRepository = new ClaimRepository();
@@ -0,0 +1,189 @@
+import { eq, inArray, sql, SQL } from 'drizzle-orm';
+import { db } from '../connection.js';
+import { codePairingRules, type CodePairingRuleRow } from '../schema/index.js';
+import { BaseTenantRepository, isUniqueViolation } from './base.repository.js';
+import type {
+  ICodePairingRuleRepository,
+  CodePairingRuleFilters,
+} from '../../../domain/repositories/index.js';
+import type { CodePairingRule } from '../../../domain/entities/index.js';
+import { ConflictError } from '../../../domain/errors/index.js';
+import type {
+  TenantContext,
+  PaginatedResult,
+  PaginationParams,
+} from '../../../shared/types/index.js';
+
+const PAIR_UNIQUE_CONSTRAINT = 'code_pairing_rules_org_procedure_diagnosis_idx';
+
+export class CodePairingRuleRepository
+  extends BaseTenantRepository<typeof codePairingRules>
+  implements ICodePairingRuleRepository
+{
+  constructor() {
+    super(codePairingRules, codePairingRules.organizationId);
+  }
+
+  private mapToDomain(row: CodePairingRuleRow): CodePairingRule {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      procedureCode: row.procedureCode,
+      diagnosisCodePrefix: row.diagnosisCodePrefix,
+      effect: row.effect,
+      reason: row.reason ?? undefined,
+      isActive: row.isActive,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  private toConflictError(error: unknown): unknown {
+    if (isUniqueViolation(error, PAIR_UNIQUE_CONSTRAINT)) {
+      return new ConflictError(
+        'A rule for this procedure code and diagnosis prefix already exists',
+        { constraint: PAIR_UNIQUE_CONSTRAINT }
+      );
+    }
+    return error;
+  }
+
+  /**
+   * Build filter conditions from CodePairingRuleFilters
+   */
+  private buildFilterConditions(filters: CodePairingRuleFilters): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.procedureCode) {
+      conditions.push(eq(codePairingRules.procedureCode, filters.procedureCode));
+    }
+
+    if (filters.isActive !== undefined) {
+      conditions.push(eq(codePairingRules.isActive, filters.isActive));
+    }
+
+    return conditions;
+  }
+
+  async findById(id: string, context: TenantContext): Promise<CodePairingRule | null> {
+    const result = await db
+      .select()
+      .from(codePairingRules)
+      .where(this.withTenantFilter(context, eq(codePairingRules.id, id)))
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async findActiveForProcedures(
+    procedureCodes: string[],
+    context: TenantContext
+  ): Promise<CodePairingRule[]> {
+    if (procedureCodes.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select()
+      .from(codePairingRules)
+      .where(
+        this.withTenantFilter(
+          context,
+          inArray(codePairingRules.procedureCode, procedureCodes),
+          eq(codePairingRules.isActive, true)
+        )
+      );
+
+    return rows.map((row) => this.mapToDomain(row));
+  }
+
+  async search(
+    context: TenantContext,
+    options: {
+      filters?: CodePairingRuleFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<CodePairingRule>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const whereCondition = this.withTenantFilter(
+      context,
+      ...(filters ? this.buildFilterConditions(filters) : [])
+    );
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(codePairingRules)
+        .where(whereCondition)
+        .orderBy(
+          codePairingRules.procedureCode,
+          codePairingRules.diagnosisCodePrefix,
+          codePairingRules.id
+        )
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(codePairingRules)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => this.mapToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+
+  async create(
+    data: Omit<CodePairingRule, 'id' | 'createdAt' | 'updatedAt'>,
+    context: TenantContext
+  ): Promise<CodePairingRule> {
+    try {
+      const result = await db
+        .insert(codePairingRules)
+        .values({
+          ...data,
+          organizationId: context.organizationId,
+        })
+        .returning();
+
+      return this.mapToDomain(result[0]);
+    } catch (error) {
+      throw this.toConflictError(error);
+    }
+  }
+
+  async update(
+    id: string,
+    data: Partial<CodePairingRule>,
+    context: TenantContext
+  ): Promise<CodePairingRule | null> {
+    const { id: _, organizationId: __, createdAt: ___, ...updateData } = data;
+
+    try {
+      const result = await db
+        .update(codePairingRules)
+        .set({
+          ...updateData,
+          updatedAt: new Date(),
+        })
+        .where(this.withTenantFilter(context, eq(codePairingRules.id, id)))
+        .returning();
+
+      return result[0] ? this.mapToDomain(result[0]) : null;
+    } catch (error) {
+      throw this.toConflictError(error);
+    }
+  }
+}
+
+export const codePairingRuleRepository = new CodePairingRuleRepository();
@@ -0,0 +1,202 @@
+import { and, desc, eq, gte, isNull, lte, ne, or, SQL } from 'drizzle-orm';
+import { db, runInTransaction } from '../connection.js';
+import { coverages, patients, plans, type CoverageRow, type PlanRow } from '../schema/index.js';
+import { BaseTenantRepository } from './base.repository.js';
+import { mapPlanToDomain } from './plan.repository.js';
+import type {
+  CoverageChanges,
+  ICoverageRepository,
+  NewCoverage,
+} from '../../../domain/repositories/index.js';
+import type { Coverage } from '../../../domain/entities/index.js';
+import type { TenantContext } from '../../../shared/types/index.js';
+import { ConflictError, ValidationError } from '../../../domain/errors/index.js';
+
+export class CoverageRepository
+  extends BaseTenantRepository<typeof coverages>
+  implements ICoverageRepository
+{
+  constructor() {
+    super(coverages, coverages.organizationId);
+  }
+
+  private mapToDomain(row: CoverageRow, plan?: PlanRow): Coverage {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      patientId: row.patientId,
+      planId: row.planId,
+      effectiveDate: row.effectiveDate,
+      terminationDate: row.terminationDate ?? undefined,
+      plan: plan ? mapPlanToDomain(plan) : undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Coverages of the patient in force on any day of [from, to]; an open
+   * `to` runs forever
+   */
+  private overlapping(from: Date, to: Date | null): SQL {
+    return and(
+      to ? lte(coverages.effectiveDate, to) : undefined,
+      or(isNull(coverages.terminationDate), gte(coverages.terminationDate, from))
+    ) as SQL;
+  }
+
+  /**
+   * With the patient row locked, so concurrent writes for the same patient
+   * take turns, refuse a period overlapping another of their coverages
+   */
+  private async assertNoOverlap(
+    tx: typeof db,
+    patientId: string,
+    period: { effectiveDate: Date; terminationDate: Date | null },
+    context: TenantContext,
+    excludeId?: string
+  ): Promise<void> {
+    if (period.terminationDate && period.terminationDate < period.effectiveDate) {
+      throw new ValidationError('A coverage cannot end before it starts', {
+        field: 'terminationDate',
+      });
+    }
+
+    await tx
+      .select({ id: patients.id })
+      .from(patients)
+      .where(and(eq(patients.id, patientId), eq(patients.organizationId, context.organizationId)))
+      .for('update');
+
+    const clash = await tx
+      .select({ id: coverages.id })
+      .from(coverages)
+      .where(
+        this.withTenantFilter(
+          context,
+          eq(coverages.patientId, patientId),
+          this.overlapping(period.effectiveDate, period.terminationDate),
+          excludeId ? ne(coverages.id, excludeId) : undefined
+        )
+      )
+      .limit(1);
+
+    if (clash[0]) {
+      throw new ConflictError('The patient already has a coverage in force in this period', {
+        coverageId: clash[0].id,
+      });
+    }
+  }
+
+  async findByPatientId(patientId: string, context: TenantContext): Promise<Coverage[]> {
+    const rows = await db
+      .select({ coverage: coverages, plan: plans })
+      .from(coverages)
+      .innerJoin(plans, eq(plans.id, coverages.planId))
+      .where(this.withTenantFilter(context, eq(coverages.patientId, patientId)))
+      .orderBy(desc(coverages.effectiveDate));
+
+    return rows.map((row) => this.mapToDomain(row.coverage, row.plan));
+  }
+
+  async findById(patientId: string, id: string, context: TenantContext): Promise<Coverage | null> {
+    const result = await db
+      .select({ coverage: coverages, plan: plans })
+      .from(coverages)
+      .innerJoin(plans, eq(plans.id, coverages.planId))
+      .where(
+        this.withTenantFilter(context, eq(coverages.id, id), eq(coverages.patientId, patientId))
+      )
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0].coverage, result[0].plan) : null;
+  }
+
+  async findInForce(
+    patientId: string,
+    date: Date,
+    context: TenantContext
+  ): Promise<Coverage | null> {
+    const result = await db
+      .select({ coverage: coverages, plan: plans })
+      .from(coverages)
+      .innerJoin(plans, eq(plans.id, coverages.planId))
+      .where(
+        this.withTenantFilter(
+          context,
+          eq(coverages.patientId, patientId),
+          this.overlapping(date, date)
+        )
+      )
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0].coverage, result[0].plan) : null;
+  }
+
+  async create(data: NewCoverage, context: TenantContext): Promise<Coverage> {
+    return await runInTransaction(async (tx) => {
+      await this.assertNoOverlap(
+        tx,
+        data.patientId,
+        { effectiveDate: data.effectiveDate, terminationDate: data.terminationDate ?? null },
+        context
+      );
+
+      const result = await tx
+        .insert(coverages)
+        .values({
+          ...data,
+          organizationId: context.organizationId,
+        })
+        .returning();
+
+      return this.mapToDomain(result[0]);
+    });
+  }
+
+  async update(
+    patientId: string,
+    id: string,
+    data: CoverageChanges,
+    context: TenantContext
+  ): Promise<Coverage | null> {
+    return await runInTransaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(coverages)
+        .where(
+          this.withTenantFilter(context, eq(coverages.id, id), eq(coverages.patientId, patientId))
+        )
+        .limit(1);
+
+      if (!existing[0]) {
+        return null;
+      }
+
+      await this.assertNoOverlap(
+        tx,
+        patientId,
+        {
+          effectiveDate: data.effectiveDate ?? existing[0].effectiveDate,
+          terminationDate:
+            data.terminationDate !== undefined ? data.terminationDate : existing[0].terminationDate,
+        },
+        context,
+        id
+      );
+
+      const result = await tx
+        .update(coverages)
+        .set({
+          ...data,
+          updatedAt: new Date(),
+        })
+        .where(eq(coverages.id, id))
+        .returning();
+
+      return this.mapToDomain(result[0]);
+    });
+  }
+}
+
+export const coverageRepository = new CoverageRepository();
@@ -0,0 +1,199 @@
+import { and, eq, gt, ilike, inArray, isNull, like, lte, or, sql, SQL } from 'drizzle-orm';
+import { db, runInTransaction } from '../connection.js';
+import {
+  diagnosisCodes,
+  type DiagnosisCodeRow,
+  type NewDiagnosisCodeRow,
+} from '../schema/index.js';
+import type {
+  IDiagnosisCodeRepository,
+  DiagnosisCodeSearch,
+  DiagnosisCodeReleaseEntry,
+  DiagnosisCodeImportResult,
+} from '../../../domain/repositories/index.js';
+import { formatDiagnosisCode, type DiagnosisCode } from '../../../domain/entities/index.js';
+import { ValidationError } from '../../../domain/errors/index.js';
+
+// A full CMS release has ~75k codes; write them in chunks
+const IMPORT_BATCH_SIZE = 1000;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export class DiagnosisCodeRepository implements IDiagnosisCodeRepository {
+  private mapToDomain(row: DiagnosisCodeRow): DiagnosisCode {
+    return {
+      id: row.id,
+      code: row.code,
+      shortDescription: row.shortDescription,
+      description: row.description,
+      isBillable: row.isBillable,
+      effectiveDate: row.effectiveDate,
+      terminationDate: row.terminationDate ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Versions in force on a date: effective on or before it, not yet terminated
+   */
+  private inForce(asOf: Date): SQL {
+    return and(
+      lte(diagnosisCodes.effectiveDate, asOf),
+      or(isNull(diagnosisCodes.terminationDate), gt(diagnosisCodes.terminationDate, asOf))
+    )!;
+  }
+
+  async search(options: DiagnosisCodeSearch): Promise<DiagnosisCode[]> {
+    const { search, asOf, billableOnly, limit } = options;
+
+    const term = search.trim();
+    const descriptionMatch = ilike(
+      diagnosisCodes.description,
+      `%${term.replace(/[\\%_]/g, '\\$&')}%`
+    );
+
+    // Terms shaped like a code ('J06', 'j06.9') also match on the code prefix
+    const looksLikeCode = /^[A-Z]([0-9][0-9A-Z.]*)?$/i.test(term);
+    const codePrefix = `${formatDiagnosisCode(term)}%`;
+    const codeMatch = like(diagnosisCodes.code, codePrefix);
+
+    const conditions: SQL[] = [
+      this.inForce(asOf),
+      looksLikeCode ? or(codeMatch, descriptionMatch)! : descriptionMatch,
+    ];
+    if (billableOnly) {
+      conditions.push(eq(diagnosisCodes.isBillable, true));
+    }
+
+    const rows = await db
+      .select()
+      .from(diagnosisCodes)
+      .where(and(...conditions))
+      .orderBy(
+        // Code prefix matches first, then in code order
+        looksLikeCode
+          ? sql`case when ${diagnosisCodes.code} like ${codePrefix} then 0 else 1 end`
+          : sql`0`,
+        diagnosisCodes.code
+      )
+      .limit(limit);
+
+    return rows.map((row) => this.mapToDomain(row));
+  }
+
+  async findBillableInForce(codes: string[], asOf: Date): Promise<DiagnosisCode[]> {
+    if (codes.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select()
+      .from(diagnosisCodes)
+      .where(
+        and(
+          inArray(diagnosisCodes.code, codes),
+          eq(diagnosisCodes.isBillable, true),
+          this.inForce(asOf)
+        )
+      );
+
+    return rows.map((row) => this.mapToDomain(row));
+  }
+
+  /**
+   * Load a CMS release. Codes are compared with the versions currently open:
+   * new codes are inserted, reworded codes get a new version and the old one
+   * is terminated, and codes missing from the release are terminated.
+   * Re-running the same release changes nothing.
+   */
+  async importRelease(
+    entries: DiagnosisCodeReleaseEntry[],
+    effectiveDate: Date
+  ): Promise<DiagnosisCodeImportResult> {
+    return runInTransaction(async (tx) => {
+      const openRows = await tx
+        .select()
+        .from(diagnosisCodes)
+        .where(isNull(diagnosisCodes.terminationDate));
+
+      const newer = openRows.find(
+        (row) => row.effectiveDate.getTime() > effectiveDate.getTime()
+      );
+      if (newer) {
+        throw new ValidationError(
+          `A release effective ${newer.effectiveDate.toISOString().slice(0, 10)} is already loaded`
+        );
+      }
+
+      const open = new Map(openRows.map((row) => [row.code, row]));
+      const inserts: NewDiagnosisCodeRow[] = [];
+      const terminateIds: string[] = [];
+      const result: DiagnosisCodeImportResult = {
+        inserted: 0,
+        revised: 0,
+        terminated: 0,
+        unchanged: 0,
+      };
+
+      for (const entry of entries) {
+        const current = open.get(entry.code);
+        open.delete(entry.code);
+
+        if (!current) {
+          inserts.push({ ...entry, effectiveDate });
+          result.inserted++;
+          continue;
+        }
+
+        if (
+          current.shortDescription === entry.shortDescription &&
+          current.description === entry.description &&
+          current.isBillable === entry.isBillable
+        ) {
+          result.unchanged++;
+          continue;
+        }
+
+        result.revised++;
+        if (current.effectiveDate.getTime() === effectiveDate.getTime()) {
+          // Corrected file for the release already loaded
+          await tx
+            .update(diagnosisCodes)
+            .set({ ...entry, updatedAt: new Date() })
+            .where(eq(diagnosisCodes.id, current.id));
+        } else {
+          terminateIds.push(current.id);
+          inserts.push({ ...entry, effectiveDate });
+        }
+      }
+
+      // Whatever is still open was dropped from this release
+      for (const row of open.values()) {
+        terminateIds.push(row.id);
+        result.terminated++;
+      }
+
+      for (const ids of chunk(terminateIds, IMPORT_BATCH_SIZE)) {
+        await tx
+          .update(diagnosisCodes)
+          .set({ terminationDate: effectiveDate, updatedAt: new Date() })
+          .where(inArray(diagnosisCodes.id, ids));
+      }
+
+      for (const rows of chunk(inserts, IMPORT_BATCH_SIZE)) {
+        await tx.insert(diagnosisCodes).values(rows);
+      }
+
+      return result;
+    });
+  }
+}
+
+export const diagnosisCodeRepository = new DiagnosisCodeRepository();
@@ -0,0 +1,396 @@
+import { and, asc, desc, eq, gte, inArray, isNull, lte, or, sql, SQL } from 'drizzle-orm';
+import { db, runInTransaction } from '../connection.js';
+import {
+  claimLines,
+  claims,
+  feeSchedules,
+  organizations,
+  providers,
+  type ClaimRow,
+  type FeeScheduleRow,
+} from '../schema/index.js';
+import { BaseTenantRepository, isUniqueViolation } from './base.repository.js';
+import type {
+  FeeScheduleChanges,
+  FeeScheduleFilters,
+  IFeeScheduleRepository,
+  NewFeeScheduleEntry,
+} from '../../../domain/repositories/index.js';
+import {
+  DEFAULT_ORGANIZATION_SETTINGS,
+  getClaimAllowedAmountFromLines,
+  getClaimAmountFromLines,
+  getFeeScheduleEntryKey,
+  isExcessiveCharge,
+  priceClaimLine,
+  selectFeeScheduleEntry,
+  type FeeScheduleEntry,
+  type OrganizationSettings,
+} from '../../../domain/entities/index.js';
+import { ConflictError } from '../../../domain/errors/index.js';
+import {
+  ClaimFlag,
+  type ClaimLineStatus,
+  type PaginatedResult,
+  type PaginationParams,
+  type TenantContext,
+} from '../../../shared/types/index.js';
+
+const SCOPE_UNIQUE_CONSTRAINT = 'fee_schedules_scope_code_effective_key';
+
+// Rows per upsert statement, well below the bind parameter limit
+const UPSERT_CHUNK_SIZE = 1000;
+
+// Claim columns holding its fee schedule pricing
+type ClaimPricingValues = Pick<
+  typeof claims.$inferInsert,
+  'billedAmount' | 'allowedAmount' | 'flags'
+>;
+
+function mapFeeScheduleToDomain(row: FeeScheduleRow): FeeScheduleEntry {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    procedureCode: row.procedureCode,
+    providerId: row.providerId ?? undefined,
+    specialty: row.specialty ?? undefined,
+    amount: parseFloat(row.amount),
+    effectiveDate: row.effectiveDate,
+    terminationDate: row.terminationDate ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * When a claim enters review, within its transaction: price each line
+ * against the fee schedule entry for its procedure, provider and service
+ * date, store the line's scheduled and allowed amounts, and flag the claim
+ * when a line not rejected is billed above the organization's multiple of
+ * its schedule amount.
+ *
+ * Returns the claim columns to set.
+ */
+export async function repriceClaim(tx: typeof db, claim: ClaimRow): Promise<ClaimPricingValues> {
+  const providerRows = await tx
+    .select({ id: providers.id, specialty: providers.specialty })
+    .from(providers)
+    .where(eq(providers.id, claim.providerId))
+    .limit(1);
+
+  const organizationRows = await tx
+    .select({ settings: organizations.settings })
+    .from(organizations)
+    .where(eq(organizations.id, claim.organizationId))
+    .limit(1);
+
+  const lineRows = await tx
+    .select()
+    .from(claimLines)
+    .where(eq(claimLines.claimId, claim.id))
+    .orderBy(asc(claimLines.lineNumber));
+
+  const provider = providerRows[0] ?? { id: claim.providerId, specialty: '' };
+  const settings: OrganizationSettings = {
+    ...DEFAULT_ORGANIZATION_SETTINGS,
+    ...((organizationRows[0]?.settings as Partial<OrganizationSettings> | null) ?? {}),
+  };
+
+  // Claims from before line items bill their amount as one line
+  const lines =
+    lineRows.length > 0
+      ? lineRows.map((row) => ({
+          id: row.id as string | undefined,
+          procedureCode: row.procedureCode,
+          units: row.units,
+          chargeAmount: parseFloat(row.chargeAmount),
+          serviceDate: row.serviceDate,
+          status: row.status as ClaimLineStatus,
+        }))
+      : [
+          {
+            id: undefined,
+            procedureCode: claim.procedureCode ?? '',
+            units: 1,
+            chargeAmount: parseFloat(claim.amount),
+            serviceDate: claim.serviceDate,
+            status: 'pending' as ClaimLineStatus,
+          },
+        ];
+
+  const entryRows = await tx
+    .select()
+    .from(feeSchedules)
+    .where(
+      and(
+        eq(feeSchedules.organizationId, claim.organizationId),
+        inArray(feeSchedules.procedureCode, [...new Set(lines.map((line) => line.procedureCode))]),
+        or(isNull(feeSchedules.providerId), eq(feeSchedules.providerId, claim.providerId))
+      )
+    );
+  const entries = entryRows.map((row) => mapFeeScheduleToDomain(row));
+
+  const pricedLines = lines.map((line) => {
+    const entry = selectFeeScheduleEntry(
+      entries.filter((candidate) => candidate.procedureCode === line.procedureCode),
+      provider,
+      line.serviceDate
+    );
+    return { ...line, ...priceClaimLine(line, entry?.amount) };
+  });
+
+  for (const line of pricedLines) {
+    if (line.id) {
+      await tx
+        .update(claimLines)
+        .set({
+          scheduledAmount: line.scheduledAmount?.toFixed(2) ?? null,
+          allowedAmount: line.allowedAmount.toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(claimLines.id, line.id));
+    }
+  }
+
+  const excessive = pricedLines.some(
+    (line) =>
+      line.status !== 'rejected' &&
+      isExcessiveCharge(line.chargeAmount, line.scheduledAmount, settings)
+  );
+  const flags = ((claim.flags as ClaimFlag[] | null) ?? []).filter(
+    (flag) => flag !== ClaimFlag.EXCESSIVE_CHARGE
+  );
+
+  return {
+    billedAmount: getClaimAmountFromLines(pricedLines).toFixed(2),
+    allowedAmount: getClaimAllowedAmountFromLines(pricedLines).toFixed(2),
+    flags: excessive ? [...flags, ClaimFlag.EXCESSIVE_CHARGE] : flags,
+  };
+}
+
+export class FeeScheduleRepository
+  extends BaseTenantRepository<typeof feeSchedules>
+  implements IFeeScheduleRepository
+{
+  constructor() {
+    super(feeSchedules, feeSchedules.organizationId);
+  }
+
+  private toConflictError(error: unknown): unknown {
+    if (isUniqueViolation(error, SCOPE_UNIQUE_CONSTRAINT)) {
+      return new ConflictError(
+        'An entry for this procedure, scope and effective date already exists',
+        { constraint: SCOPE_UNIQUE_CONSTRAINT }
+      );
+    }
+    return error;
+  }
+
+  private toRowValues(data: NewFeeScheduleEntry, context: TenantContext) {
+    return {
+      organizationId: context.organizationId,
+      procedureCode: data.procedureCode,
+      providerId: data.providerId ?? null,
+      specialty: data.specialty ?? null,
+      amount: data.amount.toFixed(2),
+      effectiveDate: data.effectiveDate,
+      terminationDate: data.terminationDate ?? null,
+    };
+  }
+
+  /**
+   * Build filter conditions from FeeScheduleFilters
+   */
+  private buildFilterConditions(filters: FeeScheduleFilters): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.procedureCode) {
+      conditions.push(eq(feeSchedules.procedureCode, filters.procedureCode));
+    }
+
+    if (filters.providerId) {
+      conditions.push(eq(feeSchedules.providerId, filters.providerId));
+    }
+
+    if (filters.specialty) {
+      conditions.push(sql`lower(${feeSchedules.specialty}) = ${filters.specialty.toLowerCase()}`);
+    }
+
+    if (filters.activeOn) {
+      conditions.push(
+        and(
+          lte(feeSchedules.effectiveDate, filters.activeOn),
+          or(
+            isNull(feeSchedules.terminationDate),
+            gte(feeSchedules.terminationDate, filters.activeOn)
+          )
+        ) as SQL
+      );
+    }
+
+    return conditions;
+  }
+
+  async findById(id: string, context: TenantContext): Promise<FeeScheduleEntry | null> {
+    const result = await db
+      .select()
+      .from(feeSchedules)
+      .where(this.withTenantFilter(context, eq(feeSchedules.id, id)))
+      .limit(1);
+
+    return result[0] ? mapFeeScheduleToDomain(result[0]) : null;
+  }
+
+  async search(
+    context: TenantContext,
+    options: {
+      filters?: FeeScheduleFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<FeeScheduleEntry>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const whereCondition = this.withTenantFilter(
+      context,
+      ...(filters ? this.buildFilterConditions(filters) : [])
+    );
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(feeSchedules)
+        .where(whereCondition)
+        .orderBy(
+          asc(feeSchedules.procedureCode),
+          desc(feeSchedules.effectiveDate),
+          asc(feeSchedules.id)
+        )
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(feeSchedules)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => mapFeeScheduleToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+
+  async create(data: NewFeeScheduleEntry, context: TenantContext): Promise<FeeScheduleEntry> {
+    try {
+      const result = await db
+        .insert(feeSchedules)
+        .values(this.toRowValues(data, context))
+        .returning();
+
+      return mapFeeScheduleToDomain(result[0]);
+    } catch (error) {
+      throw this.toConflictError(error);
+    }
+  }
+
+  async update(
+    id: string,
+    data: FeeScheduleChanges,
+    context: TenantContext
+  ): Promise<FeeScheduleEntry | null> {
+    const result = await db
+      .update(feeSchedules)
+      .set({
+        ...(data.amount !== undefined && { amount: data.amount.toFixed(2) }),
+        ...(data.terminationDate !== undefined && { terminationDate: data.terminationDate }),
+        updatedAt: new Date(),
+      })
+      .where(this.withTenantFilter(context, eq(feeSchedules.id, id)))
+      .returning();
+
+    return result[0] ? mapFeeScheduleToDomain(result[0]) : null;
+  }
+
+  async upsertMany(
+    entries: NewFeeScheduleEntry[],
+    context: TenantContext
+  ): Promise<{
+    created: FeeScheduleEntry[];
+    updated: { before: FeeScheduleEntry; after: FeeScheduleEntry }[];
+  }> {
+    if (entries.length === 0) {
+      return { created: [], updated: [] };
+    }
+
+    return await runInTransaction(async (tx) => {
+      // Entries the import may replace, locked so the before image holds
+      const existingRows = await tx
+        .select()
+        .from(feeSchedules)
+        .where(
+          this.withTenantFilter(
+            context,
+            inArray(feeSchedules.procedureCode, [
+              ...new Set(entries.map((entry) => entry.procedureCode)),
+            ])
+          )
+        )
+        .for('update');
+      const existing = new Map(
+        existingRows.map((row) => {
+          const entry = mapFeeScheduleToDomain(row);
+          return [getFeeScheduleEntryKey(entry), entry];
+        })
+      );
+
+      const created: FeeScheduleEntry[] = [];
+      const updated: { before: FeeScheduleEntry; after: FeeScheduleEntry }[] = [];
+
+      for (let start = 0; start < entries.length; start += UPSERT_CHUNK_SIZE) {
+        const rows = await tx
+          .insert(feeSchedules)
+          .values(
+            entries
+              .slice(start, start + UPSERT_CHUNK_SIZE)
+              .map((entry) => this.toRowValues(entry, context))
+          )
+          .onConflictDoUpdate({
+            target: [
+              feeSchedules.organizationId,
+              feeSchedules.providerId,
+              feeSchedules.specialty,
+              feeSchedules.procedureCode,
+              feeSchedules.effectiveDate,
+            ],
+            set: {
+              amount: sql`excluded.amount`,
+              terminationDate: sql`excluded.termination_date`,
+              updatedAt: new Date(),
+            },
+          })
+          .returning();
+
+        for (const row of rows) {
+          const after = mapFeeScheduleToDomain(row);
+          const before = existing.get(getFeeScheduleEntryKey(after));
+          if (before) {
+            updated.push({ before, after });
+          } else {
+            created.push(after);
+          }
+        }
+      }
+
+      return { created, updated };
+    });
+  }
+}
+
+export const feeScheduleRepository = new FeeScheduleRepository();
@@ -14,4 +14,48 @@ export {
   jobProcessingLogRepository,
   JobProcessingLogRepository,
 } from './job-processing-log.repository.js';
-export { BaseTenantRepository, PermissionHelper, tenantSql } from './base.repository.js';
+export {
+  auditLogRepository,
+  AuditLogRepository,
+} from './audit-log.repository.js';
+export {
+  diagnosisCodeRepository,
+  DiagnosisCodeRepository,
+} from './diagnosis-code.repository.js';
+export {
+  procedureCodeRepository,
+  ProcedureCodeRepository,
+} from './procedure-code.repository.js';
+export {
+  codePairingRuleRepository,
+  CodePairingRuleRepository,
+} from './code-pairing-rule.repository.js';
+export {
+  adjudicationRuleRepository,
+  AdjudicationRuleRepository,
+} from './adjudication-rule.repository.js';
+export { paymentRepository, PaymentRepository } from './payment.repository.js';
+export {
+  remittanceAdviceRepository,
+  RemittanceAdviceRepository,
+} from './remittance-advice.repository.js';
+export {
+  claimSubmissionRepository,
+  ClaimSubmissionRepository,
+} from './claim-submission.repository.js';
+export { claimExportRepository, ClaimExportRepository } from './claim-export.repository.js';
+export { appealRepository, AppealRepository } from './appeal.repository.js';
+export { planRepository, PlanRepository } from './plan.repository.js';
+export { coverageRepository, CoverageRepository } from './coverage.repository.js';
+export {
+  benefitAccumulatorRepository,
+  BenefitAccumulatorRepository,
+} from './benefit-accumulator.repository.js';
+export { feeScheduleRepository, FeeScheduleRepository } from './fee-schedule.repository.js';
+export {
+  BaseTenantRepository,
+  PermissionHelper,
+  tenantSql,
+  keysetCursor,
+  isUniqueViolation,
+} from './base.repository.js';
@@ -1,8 +1,14 @@
-import { eq } from 'drizzle-orm';
+import { eq, sql, and, SQL } from 'drizzle-orm';
 import { db } from '../connection.js';
 import { organizations, type OrganizationRow } from '../schema/index.js';
-import type { IOrganizationRepository } from '../../../domain/repositories/index.js';
+import { isUniqueViolation } from './base.repository.js';
+import type {
+  IOrganizationRepository,
+  OrganizationFilters,
+} from '../../../domain/repositories/index.js';
 import type { Organization, OrganizationSettings } from '../../../domain/entities/index.js';
+import { ConflictError } from '../../../domain/errors/index.js';
+import type { PaginatedResult, PaginationParams } from '../../../shared/types/index.js';
 
 export class OrganizationRepository implements IOrganizationRepository {
   private mapToDomain(row: OrganizationRow): Organization {
@@ -12,11 +18,22 @@ export class OrganizationRepository implements IOrganizationRepository {
       code: row.code,
       isActive: row.isActive,
       settings: row.settings as OrganizationSettings,
+      sessionsRevokedAt: row.sessionsRevokedAt ?? undefined,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
   }
 
+  /**
+   * The organization code is the only unique column besides the primary key
+   */
+  private toConflictError(error: unknown, code: string | undefined): unknown {
+    if (isUniqueViolation(error) && code) {
+      return new ConflictError(`Organization code '${code}' is already in use`, { code });
+    }
+    return error;
+  }
+
   async findById(id: string): Promise<Organization | null> {
     const result = await db
       .select()
@@ -37,15 +54,59 @@ export class OrganizationRepository implements IOrganizationRepository {
     return result[0] ? this.mapToDomain(result[0]) : null;
   }
 
+  async search(options: {
+    filters?: OrganizationFilters;
+    pagination: PaginationParams;
+  }): Promise<PaginatedResult<Organization>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const conditions: SQL[] = [];
+    if (filters?.isActive !== undefined) {
+      conditions.push(eq(organizations.isActive, filters.isActive));
+    }
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(organizations)
+        .where(whereCondition)
+        .orderBy(organizations.name, organizations.id)
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(organizations)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => this.mapToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+
   async create(
     data: Omit<Organization, 'id' | 'createdAt' | 'updatedAt'>
   ): Promise<Organization> {
-    const result = await db
-      .insert(organizations)
-      .values(data)
-      .returning();
+    try {
+      const result = await db
+        .insert(organizations)
+        .values(data)
+        .returning();
 
-    return this.mapToDomain(result[0]);
+      return this.mapToDomain(result[0]);
+    } catch (error) {
+      throw this.toConflictError(error, data.code);
+    }
   }
 
   async update(
@@ -54,16 +115,20 @@ export class OrganizationRepository implements IOrganizationRepository {
   ): Promise<Organization | null> {
     const { id: _, createdAt: __, ...updateData } = data;
 
-    const result = await db
-      .update(organizations)
-      .set({
-        ...updateData,
-        updatedAt: new Date(),
-      })
-      .where(eq(organizations.id, id))
-      .returning();
+    try {
+      const result = await db
+        .update(organizations)
+        .set({
+          ...updateData,
+          updatedAt: new Date(),
+        })
+        .where(eq(organizations.id, id))
+        .returning();
 
-    return result[0] ? this.mapToDomain(result[0]) : null;
+      return result[0] ? this.mapToDomain(result[0]) : null;
+    } catch (error) {
+      throw this.toConflictError(error, updateData.code);
+    }
   }
 }
 
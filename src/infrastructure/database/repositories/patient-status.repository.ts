@@ -1,7 +1,7 @@
 import { eq, and, sql, desc } from 'drizzle-orm';
 import { db } from '../connection.js';
 import { patientStatusEvents, type PatientStatusEventRow } from '../schema/index.js';
-import { BaseTenantRepository } from './base.repository.js';
+import { BaseTenantRepository, keysetCursor } from './base.repository.js';
 import type { IPatientStatusRepository } from '../../../domain/repositories/index.js';
 import type { PatientStatusEvent, PatientStatusDetails } from '../../../domain/entities/index.js';
 import type {
@@ -11,6 +11,8 @@ import type {
   PatientStatusType,
 } from '../../../shared/types/index.js';
 
+const HISTORY_SORT = 'occurredAt:desc';
+
 export class PatientStatusRepository
   extends BaseTenantRepository<typeof patientStatusEvents>
   implements IPatientStatusRepository
@@ -70,36 +72,55 @@ export class PatientStatusRepository
     pagination?: PaginationParams
   ): Promise<PaginatedResult<PatientStatusEvent>> {
     const limit = pagination?.limit ?? 50;
-    const offset = pagination?.offset ?? 0;
+    const cursor = pagination?.cursor;
+    // A cursor replaces the offset
+    const offset = cursor ? 0 : pagination?.offset ?? 0;
 
     const whereCondition = this.withTenantFilter(
       context,
       eq(patientStatusEvents.patientId, patientId)
     );
 
-    const [rows, countResult] = await Promise.all([
+    // Newest first; the only order history is listed in
+    const afterCursor = cursor
+      ? keysetCursor.after(
+          patientStatusEvents.occurredAt,
+          patientStatusEvents.id,
+          'desc',
+          keysetCursor.decode(cursor, HISTORY_SORT, patientStatusEvents.occurredAt)
+        )
+      : undefined;
+
+    // One row past the page tells whether there is another
+    const [rows, totals] = await Promise.all([
       db
-        .select()
+        .select({
+          event: patientStatusEvents,
+          sortKey: sql<string>`${patientStatusEvents.occurredAt}::text`,
+        })
         .from(patientStatusEvents)
-        .where(whereCondition)
-        .orderBy(desc(patientStatusEvents.occurredAt))
-        .limit(limit)
+        .where(afterCursor ? and(whereCondition, afterCursor) : whereCondition)
+        .orderBy(desc(patientStatusEvents.occurredAt), desc(patientStatusEvents.id))
+        .limit(limit + 1)
         .offset(offset),
-      db
-        .select({ count: sql<number>`count(*)::int` })
-        .from(patientStatusEvents)
-        .where(whereCondition),
+      this.countTotal(whereCondition, pagination?.count),
     ]);
 
-    const total = countResult[0]?.count ?? 0;
+    const page = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+    const last = page[page.length - 1];
 
     return {
-      data: rows.map((row) => this.mapToDomain(row)),
+      data: page.map((row) => this.mapToDomain(row.event)),
       pagination: {
-        total,
+        ...totals,
         limit,
         offset,
-        hasMore: offset + rows.length < total,
+        hasMore,
+        nextCursor:
+          hasMore && last
+            ? keysetCursor.encode(HISTORY_SORT, last.sortKey, last.event.id)
+            : undefined,
       },
     };
   }
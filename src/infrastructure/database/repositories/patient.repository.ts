@@ -1,10 +1,18 @@
-import { eq, sql, desc } from 'drizzle-orm';
+import { eq, and, or, ilike, inArray, sql, desc, SQL } from 'drizzle-orm';
 import { db } from '../connection.js';
-import { patients, type PatientRow } from '../schema/index.js';
+import { patients, claims, type PatientRow } from '../schema/index.js';
 import { BaseTenantRepository } from './base.repository.js';
-import type { IPatientRepository, QueryOptions } from '../../../domain/repositories/index.js';
+import type {
+  IPatientRepository,
+  PatientFilters,
+  QueryOptions,
+} from '../../../domain/repositories/index.js';
 import type { Patient, Address } from '../../../domain/entities/index.js';
-import type { TenantContext } from '../../../shared/types/index.js';
+import type {
+  TenantContext,
+  PaginatedResult,
+  PaginationParams,
+} from '../../../shared/types/index.js';
 
 export class PatientRepository
   extends BaseTenantRepository<typeof patients>
@@ -31,6 +39,75 @@ export class PatientRepository
     };
   }
 
+  /**
+   * Build role-based access filter for patient records
+   */
+  private buildRoleFilter(context: TenantContext): SQL | undefined {
+    const { role, providerId, patientId } = context;
+
+    switch (role) {
+      case 'admin':
+      case 'claims_processor':
+        // Admins and processors manage all patients in their org
+        return undefined;
+
+      case 'provider':
+        // Providers see only patients they have claims with
+        if (!providerId) {
+          return sql`${patients.id} IS NULL`;
+        }
+        return inArray(
+          patients.id,
+          db
+            .select({ patientId: claims.patientId })
+            .from(claims)
+            .where(
+              and(
+                eq(claims.organizationId, context.organizationId),
+                eq(claims.providerId, providerId)
+              )
+            )
+        );
+
+      case 'patient':
+        // Patients see only themselves
+        if (!patientId) {
+          return sql`${patients.id} IS NULL`;
+        }
+        return eq(patients.id, patientId);
+
+      default:
+        // Unknown role - deny all access
+        return sql`${patients.id} IS NULL`;
+    }
+  }
+
+  /**
+   * Build filter conditions from PatientFilters
+   */
+  private buildFilterConditions(filters: PatientFilters): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.search) {
+      // Escape LIKE wildcards so the term is matched literally
+      const term = `%${filters.search.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(
+        or(
+          ilike(patients.firstName, term),
+          ilike(patients.lastName, term),
+          ilike(patients.memberId, term),
+          sql`${patients.firstName} || ' ' || ${patients.lastName} ILIKE ${term}`
+        ) as SQL
+      );
+    }
+
+    if (filters.isActive !== undefined) {
+      conditions.push(eq(patients.isActive, filters.isActive));
+    }
+
+    return conditions;
+  }
+
   async findById(id: string, context: TenantContext): Promise<Patient | null> {
     const result = await db
       .select()
@@ -72,6 +149,64 @@ export class PatientRepository
     return result.map((row) => this.mapToDomain(row));
   }
 
+  /**
+   * Find a patient the current user is allowed to see (tenant + role filtered)
+   */
+  async findAccessibleById(id: string, context: TenantContext): Promise<Patient | null> {
+    const result = await db
+      .select()
+      .from(patients)
+      .where(
+        this.withTenantFilter(context, eq(patients.id, id), this.buildRoleFilter(context))
+      )
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async search(
+    context: TenantContext,
+    options: {
+      filters?: PatientFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<Patient>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const whereCondition = this.withTenantFilter(
+      context,
+      this.buildRoleFilter(context),
+      ...(filters ? this.buildFilterConditions(filters) : [])
+    );
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(patients)
+        .where(whereCondition)
+        .orderBy(patients.lastName, patients.firstName, patients.id)
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(patients)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => this.mapToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+
   async create(
     data: Omit<Patient, 'id' | 'createdAt' | 'updatedAt'>,
     context: TenantContext
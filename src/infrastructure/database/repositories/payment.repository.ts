@@ -0,0 +1,490 @@
+import { eq, and, gte, lte, inArray, sql, desc, asc, SQL } from 'drizzle-orm';
+import { db, runInTransaction } from '../connection.js';
+import {
+  claims,
+  claimLines,
+  patients,
+  providers,
+  paymentBatches,
+  remittances,
+  type PaymentBatchRow,
+  type RemittanceRow,
+} from '../schema/index.js';
+import { BaseTenantRepository, PermissionHelper, isUniqueViolation } from './base.repository.js';
+import type {
+  IPaymentRepository,
+  NewPaymentBatch,
+  PaymentBatchFilters,
+  RemittanceAdviceSource,
+} from '../../../domain/repositories/index.js';
+import type {
+  Address,
+  ClaimAdjustment,
+  ClaimStatusChange,
+  PaymentBatch,
+  Remittance,
+} from '../../../domain/entities/index.js';
+import type {
+  TenantContext,
+  PaginatedResult,
+  PaginationParams,
+} from '../../../shared/types/index.js';
+import { ConflictError, ValidationError } from '../../../domain/errors/index.js';
+
+const REFERENCE_UNIQUE_CONSTRAINT = 'payment_batches_org_method_reference_idx';
+const ACTIVE_CLAIM_UNIQUE_CONSTRAINT = 'remittances_active_claim_idx';
+
+export class PaymentRepository
+  extends BaseTenantRepository<typeof paymentBatches>
+  implements IPaymentRepository
+{
+  constructor() {
+    super(paymentBatches, paymentBatches.organizationId);
+  }
+
+  /**
+   * Generates a unique batch number
+   */
+  private generateBatchNumber(orgId: string): string {
+    const timestamp = Date.now().toString(36).toUpperCase();
+    const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+    const orgPrefix = orgId.substring(0, 4).toUpperCase();
+    return `PAY-${orgPrefix}-${timestamp}-${random}`;
+  }
+
+  private mapToDomain(row: PaymentBatchRow): PaymentBatch {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      batchNumber: row.batchNumber,
+      providerId: row.providerId,
+      method: row.method,
+      reference: row.reference,
+      status: row.status,
+      totalPaid: parseFloat(row.totalPaid),
+      claimCount: row.claimCount,
+      paidAt: row.paidAt,
+      issuedBy: row.issuedBy,
+      voidedAt: row.voidedAt ?? undefined,
+      voidedBy: row.voidedBy ?? undefined,
+      voidReason: row.voidReason ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  private mapRemittanceToDomain(row: RemittanceRow): Remittance {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      batchId: row.batchId,
+      claimId: row.claimId,
+      providerId: row.providerId,
+      billedAmount: parseFloat(row.billedAmount),
+      allowedAmount: parseFloat(row.allowedAmount),
+      paidAmount: parseFloat(row.paidAmount),
+      patientResponsibility: parseFloat(row.patientResponsibility),
+      adjustments: (row.adjustments as ClaimAdjustment[]) || [],
+      voidedAt: row.voidedAt ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Build role-based access filter: providers see their own remittances,
+   * admins the whole organization, nobody else anything
+   */
+  private buildRoleFilter(context: TenantContext): SQL | undefined {
+    const { role, providerId } = context;
+
+    switch (role) {
+      case 'admin':
+        return undefined;
+
+      case 'provider':
+        if (!providerId) {
+          return sql`${paymentBatches.id} = 'no-access'`;
+        }
+        return eq(paymentBatches.providerId, providerId);
+
+      default:
+        return sql`${paymentBatches.id} = 'no-access'`;
+    }
+  }
+
+  /**
+   * Build filter conditions from PaymentBatchFilters
+   */
+  private buildFilterConditions(filters: PaymentBatchFilters): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.providerId) {
+      conditions.push(eq(paymentBatches.providerId, filters.providerId));
+    }
+
+    if (filters.status) {
+      conditions.push(eq(paymentBatches.status, filters.status));
+    }
+
+    if (filters.paidFrom) {
+      conditions.push(gte(paymentBatches.paidAt, filters.paidFrom));
+    }
+
+    if (filters.paidTo) {
+      conditions.push(lte(paymentBatches.paidAt, filters.paidTo));
+    }
+
+    return conditions;
+  }
+
+  private toConflictError(error: unknown): unknown {
+    if (isUniqueViolation(error, REFERENCE_UNIQUE_CONSTRAINT)) {
+      return new ConflictError('This check number or EFT trace number was already used', {
+        constraint: REFERENCE_UNIQUE_CONSTRAINT,
+      });
+    }
+    if (isUniqueViolation(error, ACTIVE_CLAIM_UNIQUE_CONSTRAINT)) {
+      return new ConflictError('A claim in this batch has already been paid', {
+        constraint: ACTIVE_CLAIM_UNIQUE_CONSTRAINT,
+      });
+    }
+    return error;
+  }
+
+  async findById(id: string, context: TenantContext): Promise<PaymentBatch | null> {
+    const result = await db
+      .select()
+      .from(paymentBatches)
+      .where(
+        this.withTenantFilter(context, eq(paymentBatches.id, id), this.buildRoleFilter(context))
+      )
+      .limit(1);
+
+    if (!result[0]) {
+      return null;
+    }
+
+    const remittanceRows = await db
+      .select()
+      .from(remittances)
+      .where(eq(remittances.batchId, id))
+      .orderBy(asc(remittances.createdAt), asc(remittances.id));
+
+    return {
+      ...this.mapToDomain(result[0]),
+      remittances: remittanceRows.map((row) => this.mapRemittanceToDomain(row)),
+    };
+  }
+
+  async search(
+    context: TenantContext,
+    options: {
+      filters?: PaymentBatchFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<PaymentBatch>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const whereCondition = this.withTenantFilter(
+      context,
+      this.buildRoleFilter(context),
+      ...(filters ? this.buildFilterConditions(filters) : [])
+    );
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(paymentBatches)
+        .where(whereCondition)
+        .orderBy(desc(paymentBatches.paidAt), desc(paymentBatches.id))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(paymentBatches)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => this.mapToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+
+  async createBatch(data: NewPaymentBatch, context: TenantContext): Promise<PaymentBatch> {
+    PermissionHelper.requirePermission(
+      PermissionHelper.canIssuePayments(context.role),
+      'issue payments',
+      context.role
+    );
+
+    const claimIds = data.remittances.map((remittance) => remittance.claimId);
+    const batchNumber = this.generateBatchNumber(context.organizationId);
+    const now = new Date();
+
+    try {
+      return await runInTransaction(async (tx) => {
+        // Lock the claims so none is paid twice or changes status meanwhile
+        const payable = await tx
+          .select({ id: claims.id })
+          .from(claims)
+          .where(
+            and(
+              eq(claims.organizationId, context.organizationId),
+              inArray(claims.id, claimIds),
+              eq(claims.providerId, data.providerId),
+              eq(claims.status, 'approved')
+            )
+          )
+          .for('update');
+
+        if (payable.length !== claimIds.length) {
+          const payableIds = new Set(payable.map((claim) => claim.id));
+          throw new ValidationError('Only approved claims of the payee provider can be paid', {
+            claimIds: claimIds.filter((id) => !payableIds.has(id)),
+          });
+        }
+
+        const totalPaid = data.remittances.reduce(
+          (sum, remittance) => sum + Math.round(remittance.paidAmount * 100),
+          0
+        );
+
+        const batchResult = await tx
+          .insert(paymentBatches)
+          .values({
+            organizationId: context.organizationId,
+            batchNumber,
+            providerId: data.providerId,
+            method: data.method,
+            reference: data.reference,
+            status: 'issued',
+            totalPaid: (totalPaid / 100).toFixed(2),
+            claimCount: data.remittances.length,
+            paidAt: data.paidAt,
+            issuedBy: context.userId,
+          })
+          .returning();
+
+        const batch = this.mapToDomain(batchResult[0]);
+
+        const remittanceRows = await tx
+          .insert(remittances)
+          .values(
+            data.remittances.map((remittance) => ({
+              organizationId: context.organizationId,
+              batchId: batch.id,
+              claimId: remittance.claimId,
+              providerId: data.providerId,
+              billedAmount: remittance.billedAmount.toFixed(2),
+              allowedAmount: remittance.allowedAmount.toFixed(2),
+              paidAmount: remittance.paidAmount.toFixed(2),
+              patientResponsibility: remittance.patientResponsibility.toFixed(2),
+              adjustments: remittance.adjustments,
+            }))
+          )
+          .returning();
+
+        const statusChange: ClaimStatusChange = {
+          fromStatus: 'approved',
+          toStatus: 'paid',
+          changedBy: context.userId,
+          changedAt: now,
+          reason: `Payment batch ${batchNumber}`,
+        };
+
+        await tx
+          .update(claims)
+          .set({
+            status: 'paid',
+            paidAt: data.paidAt,
+            statusHistory: sql`${claims.statusHistory} || ${JSON.stringify([statusChange])}::jsonb`,
+            updatedAt: now,
+          })
+          .where(
+            and(eq(claims.organizationId, context.organizationId), inArray(claims.id, claimIds))
+          );
+
+        return {
+          ...batch,
+          remittances: remittanceRows.map((row) => this.mapRemittanceToDomain(row)),
+        };
+      });
+    } catch (error) {
+      throw this.toConflictError(error);
+    }
+  }
+
+  async voidBatch(
+    id: string,
+    reason: string,
+    context: TenantContext
+  ): Promise<PaymentBatch | null> {
+    PermissionHelper.requirePermission(
+      PermissionHelper.canIssuePayments(context.role),
+      'void payments',
+      context.role
+    );
+
+    return await runInTransaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(paymentBatches)
+        .where(this.withTenantFilter(context, eq(paymentBatches.id, id)))
+        .limit(1)
+        .for('update');
+
+      if (!existing[0]) {
+        return null;
+      }
+
+      if (existing[0].status === 'voided') {
+        throw new ValidationError('Payment batch is already voided', { batchId: id });
+      }
+
+      const now = new Date();
+
+      const batchResult = await tx
+        .update(paymentBatches)
+        .set({
+          status: 'voided',
+          voidedAt: now,
+          voidedBy: context.userId,
+          voidReason: reason,
+          updatedAt: now,
+        })
+        .where(eq(paymentBatches.id, id))
+        .returning();
+
+      const remittanceRows = await tx
+        .update(remittances)
+        .set({ voidedAt: now, updatedAt: now })
+        .where(eq(remittances.batchId, id))
+        .returning();
+
+      const statusChange: ClaimStatusChange = {
+        fromStatus: 'paid',
+        toStatus: 'approved',
+        changedBy: context.userId,
+        changedAt: now,
+        reason: `Payment batch ${existing[0].batchNumber} voided: ${reason}`,
+      };
+
+      // Back to approved, ready for a new batch
+      await tx
+        .update(claims)
+        .set({
+          status: 'approved',
+          paidAt: null,
+          statusHistory: sql`${claims.statusHistory} || ${JSON.stringify([statusChange])}::jsonb`,
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(claims.organizationId, context.organizationId),
+            inArray(
+              claims.id,
+              remittanceRows.map((row) => row.claimId)
+            ),
+            eq(claims.status, 'paid')
+          )
+        );
+
+      return {
+        ...this.mapToDomain(batchResult[0]),
+        remittances: remittanceRows.map((row) => this.mapRemittanceToDomain(row)),
+      };
+    });
+  }
+
+  async findRemittanceAdviceSourceInternal(
+    id: string,
+    organizationId: string
+  ): Promise<RemittanceAdviceSource | null> {
+    const result = await db
+      .select({
+        batch: paymentBatches,
+        payeeName: providers.name,
+        payeeNpi: providers.npi,
+        payeeAddress: providers.address,
+      })
+      .from(paymentBatches)
+      .innerJoin(providers, eq(paymentBatches.providerId, providers.id))
+      .where(and(eq(paymentBatches.organizationId, organizationId), eq(paymentBatches.id, id)))
+      .limit(1);
+
+    if (!result[0]) {
+      return null;
+    }
+
+    const rows = await db
+      .select({
+        remittance: remittances,
+        claimNumber: claims.claimNumber,
+        serviceDate: claims.serviceDate,
+        firstName: patients.firstName,
+        lastName: patients.lastName,
+        memberId: patients.memberId,
+      })
+      .from(remittances)
+      .innerJoin(claims, eq(remittances.claimId, claims.id))
+      .innerJoin(patients, eq(claims.patientId, patients.id))
+      .where(eq(remittances.batchId, id))
+      .orderBy(asc(remittances.createdAt), asc(remittances.id));
+
+    const claimIds = rows.map((row) => row.remittance.claimId);
+    const rejectedRows =
+      claimIds.length > 0
+        ? await db
+            .select({
+              claimId: claimLines.claimId,
+              lineNumber: claimLines.lineNumber,
+              chargeAmount: claimLines.chargeAmount,
+              denialReason: claimLines.denialReason,
+            })
+            .from(claimLines)
+            .where(and(inArray(claimLines.claimId, claimIds), eq(claimLines.status, 'rejected')))
+            .orderBy(asc(claimLines.lineNumber))
+        : [];
+
+    const batch = this.mapToDomain(result[0].batch);
+    const batchRemittances = rows.map((row) => this.mapRemittanceToDomain(row.remittance));
+
+    return {
+      batch: { ...batch, remittances: batchRemittances },
+      payee: {
+        name: result[0].payeeName,
+        npi: result[0].payeeNpi,
+        address: (result[0].payeeAddress as Address | null) ?? undefined,
+      },
+      claims: rows.map((row, index) => ({
+        remittance: batchRemittances[index],
+        claimNumber: row.claimNumber,
+        serviceDate: row.serviceDate,
+        patient: {
+          firstName: row.firstName,
+          lastName: row.lastName,
+          memberId: row.memberId,
+        },
+        rejectedLines: rejectedRows
+          .filter((line) => line.claimId === row.remittance.claimId)
+          .map((line) => ({
+            lineNumber: line.lineNumber,
+            chargeAmount: parseFloat(line.chargeAmount),
+            denialReason: line.denialReason ?? undefined,
+          })),
+      })),
+    };
+  }
+}
+
+export const paymentRepository = new PaymentRepository();
@@ -0,0 +1,169 @@
+import { eq, asc, sql, SQL } from 'drizzle-orm';
+import { db } from '../connection.js';
+import { plans, type NewPlanRow, type PlanRow } from '../schema/index.js';
+import { BaseTenantRepository, isUniqueViolation } from './base.repository.js';
+import type {
+  IPlanRepository,
+  PlanChanges,
+  PlanFilters,
+} from '../../../domain/repositories/index.js';
+import type { Plan } from '../../../domain/entities/index.js';
+import { ConflictError } from '../../../domain/errors/index.js';
+import type {
+  TenantContext,
+  PaginatedResult,
+  PaginationParams,
+} from '../../../shared/types/index.js';
+
+const CODE_UNIQUE_CONSTRAINT = 'plans_org_code_idx';
+
+export function mapPlanToDomain(row: PlanRow): Plan {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    code: row.code,
+    name: row.name,
+    annualBenefitMax:
+      row.annualBenefitMax === null ? undefined : parseFloat(row.annualBenefitMax),
+    planYearStartMonth: row.planYearStartMonth,
+    deductible: row.deductible === null ? undefined : parseFloat(row.deductible),
+    coinsurancePercent: row.coinsurancePercent,
+    outOfPocketMax: row.outOfPocketMax === null ? undefined : parseFloat(row.outOfPocketMax),
+    copays: (row.copays as Plan['copays']) || {},
+    isActive: row.isActive,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class PlanRepository extends BaseTenantRepository<typeof plans> implements IPlanRepository {
+  constructor() {
+    super(plans, plans.organizationId);
+  }
+
+  private toConflictError(error: unknown): unknown {
+    if (isUniqueViolation(error, CODE_UNIQUE_CONSTRAINT)) {
+      return new ConflictError('Another plan already has this code', {
+        constraint: CODE_UNIQUE_CONSTRAINT,
+      });
+    }
+    return error;
+  }
+
+  private toRowValues(data: PlanChanges): Partial<NewPlanRow> {
+    const { annualBenefitMax, deductible, outOfPocketMax, ...values } = data;
+    const toDecimal = (amount: number | null) => (amount === null ? null : amount.toFixed(2));
+
+    return {
+      ...values,
+      ...(annualBenefitMax !== undefined && { annualBenefitMax: toDecimal(annualBenefitMax) }),
+      ...(deductible !== undefined && { deductible: toDecimal(deductible) }),
+      ...(outOfPocketMax !== undefined && { outOfPocketMax: toDecimal(outOfPocketMax) }),
+    };
+  }
+
+  /**
+   * Build filter conditions from PlanFilters
+   */
+  private buildFilterConditions(filters: PlanFilters): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.isActive !== undefined) {
+      conditions.push(eq(plans.isActive, filters.isActive));
+    }
+
+    return conditions;
+  }
+
+  async findById(id: string, context: TenantContext): Promise<Plan | null> {
+    const result = await db
+      .select()
+      .from(plans)
+      .where(this.withTenantFilter(context, eq(plans.id, id)))
+      .limit(1);
+
+    return result[0] ? mapPlanToDomain(result[0]) : null;
+  }
+
+  async search(
+    context: TenantContext,
+    options: {
+      filters?: PlanFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<Plan>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const whereCondition = this.withTenantFilter(
+      context,
+      ...(filters ? this.buildFilterConditions(filters) : [])
+    );
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(plans)
+        .where(whereCondition)
+        .orderBy(asc(plans.code))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(plans)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => mapPlanToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+
+  async create(
+    data: Omit<Plan, 'id' | 'createdAt' | 'updatedAt'>,
+    context: TenantContext
+  ): Promise<Plan> {
+    try {
+      const result = await db
+        .insert(plans)
+        .values({
+          ...this.toRowValues(data),
+          code: data.code,
+          name: data.name,
+          organizationId: context.organizationId,
+        })
+        .returning();
+
+      return mapPlanToDomain(result[0]);
+    } catch (error) {
+      throw this.toConflictError(error);
+    }
+  }
+
+  async update(id: string, data: PlanChanges, context: TenantContext): Promise<Plan | null> {
+    try {
+      const result = await db
+        .update(plans)
+        .set({
+          ...this.toRowValues(data),
+          updatedAt: new Date(),
+        })
+        .where(this.withTenantFilter(context, eq(plans.id, id)))
+        .returning();
+
+      return result[0] ? mapPlanToDomain(result[0]) : null;
+    } catch (error) {
+      throw this.toConflictError(error);
+    }
+  }
+}
+
+export const planRepository = new PlanRepository();
@@ -0,0 +1,41 @@
+import { and, gt, inArray, isNull, lte, or } from 'drizzle-orm';
+import { db } from '../connection.js';
+import { procedureCodes, type ProcedureCodeRow } from '../schema/index.js';
+import type { IProcedureCodeRepository } from '../../../domain/repositories/index.js';
+import type { ProcedureCode } from '../../../domain/entities/index.js';
+
+// Code sets are shared reference data, so lookups are not tenant filtered
+export class ProcedureCodeRepository implements IProcedureCodeRepository {
+  private mapToDomain(row: ProcedureCodeRow): ProcedureCode {
+    return {
+      id: row.id,
+      code: row.code,
+      description: row.description,
+      effectiveDate: row.effectiveDate,
+      terminationDate: row.terminationDate ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  async findInForce(codes: string[], asOf: Date): Promise<ProcedureCode[]> {
+    if (codes.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select()
+      .from(procedureCodes)
+      .where(
+        and(
+          inArray(procedureCodes.code, codes),
+          lte(procedureCodes.effectiveDate, asOf),
+          or(isNull(procedureCodes.terminationDate), gt(procedureCodes.terminationDate, asOf))
+        )
+      );
+
+    return rows.map((row) => this.mapToDomain(row));
+  }
+}
+
+export const procedureCodeRepository = new ProcedureCodeRepository();
@@ -1,10 +1,21 @@
-import { eq, sql, desc } from 'drizzle-orm';
+import { eq, sql, desc, SQL } from 'drizzle-orm';
 import { db } from '../connection.js';
 import { providers, type ProviderRow } from '../schema/index.js';
-import { BaseTenantRepository } from './base.repository.js';
-import type { IProviderRepository, QueryOptions } from '../../../domain/repositories/index.js';
+import { BaseTenantRepository, isUniqueViolation } from './base.repository.js';
+import type {
+  IProviderRepository,
+  ProviderFilters,
+  QueryOptions,
+} from '../../../domain/repositories/index.js';
 import type { Provider, Address } from '../../../domain/entities/index.js';
-import type { TenantContext } from '../../../shared/types/index.js';
+import { DuplicateNpiError } from '../../../domain/errors/index.js';
+import type {
+  TenantContext,
+  PaginatedResult,
+  PaginationParams,
+} from '../../../shared/types/index.js';
+
+const NPI_UNIQUE_CONSTRAINT = 'providers_npi_org_idx';
 
 export class ProviderRepository
   extends BaseTenantRepository<typeof providers>
@@ -30,6 +41,48 @@ export class ProviderRepository
     };
   }
 
+  /**
+   * Build role-based access filter for provider records
+   */
+  private buildRoleFilter(context: TenantContext): SQL | undefined {
+    const { role, providerId } = context;
+
+    switch (role) {
+      case 'admin':
+      case 'claims_processor':
+        // Admins and processors see the whole provider directory
+        return undefined;
+
+      case 'provider':
+        // Providers see only their own record
+        if (!providerId) {
+          return sql`${providers.id} IS NULL`;
+        }
+        return eq(providers.id, providerId);
+
+      default:
+        // Patients and unknown roles - deny all access
+        return sql`${providers.id} IS NULL`;
+    }
+  }
+
+  /**
+   * Build filter conditions from ProviderFilters
+   */
+  private buildFilterConditions(filters: ProviderFilters): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.specialty) {
+      conditions.push(sql`lower(${providers.specialty}) = ${filters.specialty.toLowerCase()}`);
+    }
+
+    if (filters.isActive !== undefined) {
+      conditions.push(eq(providers.isActive, filters.isActive));
+    }
+
+    return conditions;
+  }
+
   async findById(id: string, context: TenantContext): Promise<Provider | null> {
     const result = await db
       .select()
@@ -40,6 +93,21 @@ export class ProviderRepository
     return result[0] ? this.mapToDomain(result[0]) : null;
   }
 
+  /**
+   * Find a provider the current user is allowed to see (tenant + role filtered)
+   */
+  async findAccessibleById(id: string, context: TenantContext): Promise<Provider | null> {
+    const result = await db
+      .select()
+      .from(providers)
+      .where(
+        this.withTenantFilter(context, eq(providers.id, id), this.buildRoleFilter(context))
+      )
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
   async findByNpi(npi: string, context: TenantContext): Promise<Provider | null> {
     const result = await db
       .select()
@@ -68,19 +136,69 @@ export class ProviderRepository
     return result.map((row) => this.mapToDomain(row));
   }
 
+  async search(
+    context: TenantContext,
+    options: {
+      filters?: ProviderFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<Provider>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const whereCondition = this.withTenantFilter(
+      context,
+      this.buildRoleFilter(context),
+      ...(filters ? this.buildFilterConditions(filters) : [])
+    );
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(providers)
+        .where(whereCondition)
+        .orderBy(providers.name, providers.id)
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(providers)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => this.mapToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+
   async create(
     data: Omit<Provider, 'id' | 'createdAt' | 'updatedAt'>,
     context: TenantContext
   ): Promise<Provider> {
-    const result = await db
-      .insert(providers)
-      .values({
-        ...data,
-        organizationId: context.organizationId,
-      })
-      .returning();
-
-    return this.mapToDomain(result[0]);
+    try {
+      const result = await db
+        .insert(providers)
+        .values({
+          ...data,
+          organizationId: context.organizationId,
+        })
+        .returning();
+
+      return this.mapToDomain(result[0]);
+    } catch (error) {
+      if (isUniqueViolation(error, NPI_UNIQUE_CONSTRAINT)) {
+        throw new DuplicateNpiError(data.npi);
+      }
+      throw error;
+    }
   }
 
   async update(
@@ -90,16 +208,23 @@ export class ProviderRepository
   ): Promise<Provider | null> {
     const { id: _, organizationId: __, createdAt: ___, ...updateData } = data;
 
-    const result = await db
-      .update(providers)
-      .set({
-        ...updateData,
-        updatedAt: new Date(),
-      })
-      .where(this.withTenantFilter(context, eq(providers.id, id)))
-      .returning();
-
-    return result[0] ? this.mapToDomain(result[0]) : null;
+    try {
+      const result = await db
+        .update(providers)
+        .set({
+          ...updateData,
+          updatedAt: new Date(),
+        })
+        .where(this.withTenantFilter(context, eq(providers.id, id)))
+        .returning();
+
+      return result[0] ? this.mapToDomain(result[0]) : null;
+    } catch (error) {
+      if (isUniqueViolation(error, NPI_UNIQUE_CONSTRAINT) && updateData.npi) {
+        throw new DuplicateNpiError(updateData.npi);
+      }
+      throw error;
+    }
   }
 
   async exists(id: string, context: TenantContext): Promise<boolean> {
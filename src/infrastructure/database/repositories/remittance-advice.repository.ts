@@ -0,0 +1,91 @@
+import { eq, desc, sql, SQL } from 'drizzle-orm';
+import { db } from '../connection.js';
+import { remittanceAdvices, type RemittanceAdviceRow } from '../schema/index.js';
+import { BaseTenantRepository } from './base.repository.js';
+import type {
+  IRemittanceAdviceRepository,
+  NewRemittanceAdvice,
+} from '../../../domain/repositories/index.js';
+import type { RemittanceAdvice } from '../../../domain/entities/index.js';
+import type { TenantContext } from '../../../shared/types/index.js';
+
+export class RemittanceAdviceRepository
+  extends BaseTenantRepository<typeof remittanceAdvices>
+  implements IRemittanceAdviceRepository
+{
+  constructor() {
+    super(remittanceAdvices, remittanceAdvices.organizationId);
+  }
+
+  private mapToDomain(row: RemittanceAdviceRow): RemittanceAdvice {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      batchId: row.batchId,
+      providerId: row.providerId,
+      controlNumber: row.controlNumber,
+      content: row.content,
+      jobId: row.jobId,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Build role-based access filter, matching payment batches: providers
+   * see their own, admins the whole organization, nobody else anything
+   */
+  private buildRoleFilter(context: TenantContext): SQL | undefined {
+    const { role, providerId } = context;
+
+    switch (role) {
+      case 'admin':
+        return undefined;
+
+      case 'provider':
+        if (!providerId) {
+          return sql`${remittanceAdvices.id} = 'no-access'`;
+        }
+        return eq(remittanceAdvices.providerId, providerId);
+
+      default:
+        return sql`${remittanceAdvices.id} = 'no-access'`;
+    }
+  }
+
+  async findLatestByBatch(
+    batchId: string,
+    context: TenantContext
+  ): Promise<RemittanceAdvice | null> {
+    const result = await db
+      .select()
+      .from(remittanceAdvices)
+      .where(
+        this.withTenantFilter(
+          context,
+          eq(remittanceAdvices.batchId, batchId),
+          this.buildRoleFilter(context)
+        )
+      )
+      .orderBy(desc(remittanceAdvices.createdAt), desc(remittanceAdvices.controlNumber))
+      .limit(1);
+
+    return result[0] ? this.mapToDomain(result[0]) : null;
+  }
+
+  async nextControlNumberInternal(): Promise<number> {
+    const rows = await db.execute<{ value: number }>(
+      sql`select nextval('x12_control_number_seq')::int as value`
+    );
+
+    return Number(rows[0].value);
+  }
+
+  async createInternal(data: NewRemittanceAdvice): Promise<RemittanceAdvice> {
+    const result = await db.insert(remittanceAdvices).values(data).returning();
+
+    return this.mapToDomain(result[0]);
+  }
+}
+
+export const remittanceAdviceRepository = new RemittanceAdviceRepository();
@@ -1,9 +1,20 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray, sql, SQL } from 'drizzle-orm';
 import { db } from '../connection.js';
-import { users, type UserRow } from '../schema/index.js';
-import type { IUserRepository } from '../../../domain/repositories/index.js';
-import type { User } from '../../../domain/entities/index.js';
-import type { UserRole } from '../../../shared/types/index.js';
+import { claims, users, type UserRow } from '../schema/index.js';
+import { isUniqueViolation } from './base.repository.js';
+import type { IUserRepository, UserFilters } from '../../../domain/repositories/index.js';
+import {
+  OPEN_CLAIM_STATUSES,
+  type ProcessorSkills,
+  type RoutingCandidate,
+  type User,
+} from '../../../domain/entities/index.js';
+import { ConflictError } from '../../../domain/errors/index.js';
+import type {
+  UserRole,
+  PaginatedResult,
+  PaginationParams,
+} from '../../../shared/types/index.js';
 
 export class UserRepository implements IUserRepository {
   private mapToDomain(row: UserRow): User {
@@ -19,6 +30,7 @@ export class UserRepository implements IUserRepository {
       providerId: row.providerId ?? undefined,
       patientId: row.patientId ?? undefined,
       assignedClaimIds: (row.assignedClaimIds as string[]) || [],
+      skills: (row.skills as ProcessorSkills | null) ?? undefined,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
@@ -57,18 +69,71 @@ export class UserRepository implements IUserRepository {
     return result[0] ? this.mapToDomain(result[0]) : null;
   }
 
+  async findManyWithinOrganization(
+    organizationId: string,
+    options: {
+      filters?: UserFilters;
+      pagination: PaginationParams;
+    }
+  ): Promise<PaginatedResult<User>> {
+    const { filters, pagination } = options;
+    const { limit, offset = 0 } = pagination;
+
+    const conditions: SQL[] = [eq(users.organizationId, organizationId)];
+    if (filters?.role) {
+      conditions.push(eq(users.role, filters.role));
+    }
+    if (filters?.isActive !== undefined) {
+      conditions.push(eq(users.isActive, filters.isActive));
+    }
+    const whereCondition = and(...conditions);
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select()
+        .from(users)
+        .where(whereCondition)
+        .orderBy(users.lastName, users.firstName, users.id)
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(users)
+        .where(whereCondition),
+    ]);
+
+    const total = countResult[0]?.count ?? 0;
+
+    return {
+      data: rows.map((row) => this.mapToDomain(row)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + rows.length < total,
+      },
+    };
+  }
+
   async create(
     data: Omit<User, 'id' | 'createdAt' | 'updatedAt'>
   ): Promise<User> {
-    const result = await db
-      .insert(users)
-      .values({
-        ...data,
-        assignedClaimIds: data.assignedClaimIds || [],
-      })
-      .returning();
+    try {
+      const result = await db
+        .insert(users)
+        .values({
+          ...data,
+          assignedClaimIds: data.assignedClaimIds || [],
+        })
+        .returning();
 
-    return this.mapToDomain(result[0]);
+      return this.mapToDomain(result[0]);
+    } catch (error) {
+      if (isUniqueViolation(error, 'users_email_org_idx')) {
+        throw new ConflictError('Email already registered', { email: data.email });
+      }
+      throw error;
+    }
   }
 
   async update(id: string, data: Partial<User>): Promise<User | null> {
@@ -78,6 +143,10 @@ export class UserRepository implements IUserRepository {
       .update(users)
       .set({
         ...updateData,
+        // Role links present but undefined are cleared rather than skipped
+        ...('providerId' in updateData && { providerId: updateData.providerId ?? null }),
+        ...('patientId' in updateData && { patientId: updateData.patientId ?? null }),
+        ...('skills' in updateData && { skills: updateData.skills ?? null }),
         updatedAt: new Date(),
       })
       .where(eq(users.id, id))
@@ -95,6 +164,37 @@ export class UserRepository implements IUserRepository {
       })
       .where(eq(users.id, userId));
   }
+
+  async findRoutingCandidates(organizationId: string): Promise<RoutingCandidate[]> {
+    const result = await db
+      .select({
+        id: users.id,
+        skills: users.skills,
+        lastAssignedAt: users.lastAssignedAt,
+        openClaimCount: sql<number>`(
+          SELECT count(*)::int FROM ${claims}
+          WHERE ${claims.assignedTo} = ${users.id}
+            AND ${claims.organizationId} = ${organizationId}
+            AND ${inArray(claims.status, [...OPEN_CLAIM_STATUSES])}
+        )`,
+      })
+      .from(users)
+      .where(
+        and(
+          eq(users.organizationId, organizationId),
+          eq(users.role, 'claims_processor'),
+          eq(users.isActive, true)
+        )
+      )
+      .orderBy(users.id);
+
+    return result.map((row) => ({
+      processorId: row.id,
+      skills: (row.skills as ProcessorSkills | null) ?? undefined,
+      openClaimCount: row.openClaimCount,
+      lastAssignedAt: row.lastAssignedAt ?? undefined,
+    }));
+  }
 }
 
 export const userRepository = new UserRepository();
@@ -3,18 +3,25 @@ import {
   varchar,
   text,
   timestamp,
+  date,
   boolean,
   decimal,
+  integer,
+  bigint,
   jsonb,
   uuid,
   index,
   uniqueIndex,
+  unique,
   pgEnum,
+  pgSequence,
+  customType,
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', [
+  'super_admin',
   'admin',
   'claims_processor',
   'provider',
@@ -26,9 +33,53 @@ export const claimStatusEnum = pgEnum('claim_status', [
   'under_review',
   'approved',
   'rejected',
+  'appealed',
   'paid',
 ]);
 
+export const claimLineStatusEnum = pgEnum('claim_line_status', [
+  'pending',
+  'approved',
+  'rejected',
+]);
+
+export const adjudicationActionEnum = pgEnum('adjudication_action', [
+  'approve',
+  'reject',
+  'pend',
+  'assign',
+]);
+
+export const codePairingEffectEnum = pgEnum('code_pairing_effect', ['allow', 'deny']);
+
+export const paymentMethodEnum = pgEnum('payment_method', ['check', 'eft']);
+
+export const paymentBatchStatusEnum = pgEnum('payment_batch_status', ['issued', 'voided']);
+
+export const claimSubmissionFormatEnum = pgEnum('claim_submission_format', [
+  'x12_837p',
+  'csv',
+  'ndjson',
+]);
+
+export const claimSubmissionStatusEnum = pgEnum('claim_submission_status', [
+  'received',
+  'processing',
+  'completed',
+  'rejected',
+]);
+
+export const claimExportFormatEnum = pgEnum('claim_export_format', ['csv', 'ndjson', 'parquet']);
+
+export const claimExportStatusEnum = pgEnum('claim_export_status', [
+  'queued',
+  'processing',
+  'completed',
+  'failed',
+]);
+
+export const appealStatusEnum = pgEnum('appeal_status', ['pending', 'upheld', 'overturned']);
+
 export const patientStatusTypeEnum = pgEnum('patient_status_type', [
   'admission',
   'discharge',
@@ -55,6 +106,8 @@ export const organizations = pgTable(
       minClaimAmount: 0.01,
       requiresManualReview: true,
     }),
+    // Tokens issued before this instant are rejected (set on deactivation)
+    sessionsRevokedAt: timestamp('sessions_revoked_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
@@ -80,6 +133,9 @@ export const users = pgTable(
     providerId: uuid('provider_id'),
     patientId: uuid('patient_id'),
     assignedClaimIds: jsonb('assigned_claim_ids').notNull().default([]),
+    // Claims processor routing: skills for skill-based routing, last assignment for round-robin
+    skills: jsonb('skills'),
+    lastAssignedAt: timestamp('last_assigned_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
@@ -150,6 +206,136 @@ export const patients = pgTable(
   })
 );
 
+// Benefit plans offered by an organization
+export const plans = pgTable(
+  'plans',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    code: varchar('code', { length: 30 }).notNull(),
+    name: varchar('name', { length: 100 }).notNull(),
+    annualBenefitMax: decimal('annual_benefit_max', { precision: 12, scale: 2 }),
+    planYearStartMonth: integer('plan_year_start_month').notNull().default(1),
+    // Cost sharing; a null deductible or out-of-pocket maximum means none
+    deductible: decimal('deductible', { precision: 12, scale: 2 }),
+    coinsurancePercent: integer('coinsurance_percent').notNull().default(0),
+    outOfPocketMax: decimal('out_of_pocket_max', { precision: 12, scale: 2 }),
+    // Copay per service category, e.g. { "office_visit": 25 }
+    copays: jsonb('copays').notNull().default({}),
+    isActive: boolean('is_active').notNull().default(true),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    // Plan code unique within organization
+    orgCodeIdx: uniqueIndex('plans_org_code_idx').on(table.organizationId, table.code),
+  })
+);
+
+// Patients' enrollment in plans; the termination date is the last covered day
+export const coverages = pgTable(
+  'coverages',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    patientId: uuid('patient_id')
+      .notNull()
+      .references(() => patients.id, { onDelete: 'cascade' }),
+    planId: uuid('plan_id')
+      .notNull()
+      .references(() => plans.id, { onDelete: 'restrict' }),
+    effectiveDate: date('effective_date', { mode: 'date' }).notNull(),
+    terminationDate: date('termination_date', { mode: 'date' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    // Coverage in force for a patient on a date (claim intake, eligibility)
+    orgPatientEffectiveIdx: index('coverages_org_patient_effective_idx').on(
+      table.organizationId,
+      table.patientId,
+      table.effectiveDate
+    ),
+  })
+);
+
+// Running cost sharing totals per member, plan and plan year, over approved
+// claims; updated in the transaction that approves or reverses a claim
+export const benefitAccumulators = pgTable(
+  'benefit_accumulators',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    patientId: uuid('patient_id')
+      .notNull()
+      .references(() => patients.id, { onDelete: 'cascade' }),
+    planId: uuid('plan_id')
+      .notNull()
+      .references(() => plans.id, { onDelete: 'restrict' }),
+    planYearStart: date('plan_year_start', { mode: 'date' }).notNull(),
+    deductibleMet: decimal('deductible_met', { precision: 12, scale: 2 }).notNull().default('0'),
+    outOfPocketMet: decimal('out_of_pocket_met', { precision: 12, scale: 2 })
+      .notNull()
+      .default('0'),
+    planPaid: decimal('plan_paid', { precision: 12, scale: 2 }).notNull().default('0'),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    // One accumulator per member, plan and plan year
+    orgPatientPlanYearIdx: uniqueIndex('benefit_accumulators_org_patient_plan_year_idx').on(
+      table.organizationId,
+      table.patientId,
+      table.planId,
+      table.planYearStart
+    ),
+  })
+);
+
+// Allowed amount per unit of a procedure from an effective date. Entries
+// apply organization-wide, to a provider specialty, or to one provider; the
+// termination date is the last day the amount applies.
+export const feeSchedules = pgTable(
+  'fee_schedules',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    providerId: uuid('provider_id').references(() => providers.id, { onDelete: 'cascade' }),
+    specialty: varchar('specialty', { length: 100 }),
+    procedureCode: varchar('procedure_code', { length: 20 }).notNull(),
+    amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+    effectiveDate: date('effective_date', { mode: 'date' }).notNull(),
+    terminationDate: date('termination_date', { mode: 'date' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    // One amount per scope, procedure and effective date; imports upsert on it
+    scopeCodeEffectiveKey: unique('fee_schedules_scope_code_effective_key')
+      .on(
+        table.organizationId,
+        table.providerId,
+        table.specialty,
+        table.procedureCode,
+        table.effectiveDate
+      )
+      .nullsNotDistinct(),
+    // Repricing looks entries up by procedure code
+    orgProcedureIdx: index('fee_schedules_org_procedure_idx').on(
+      table.organizationId,
+      table.procedureCode
+    ),
+  })
+);
+
 // Claims
 export const claims = pgTable(
   'claims',
@@ -166,7 +352,11 @@ export const claims = pgTable(
       .notNull()
       .references(() => providers.id, { onDelete: 'restrict' }),
     diagnosisCode: varchar('diagnosis_code', { length: 20 }).notNull(),
+    // Diagnoses 2..12, referenced by line diagnosis pointers
+    additionalDiagnosisCodes: jsonb('additional_diagnosis_codes').notNull().default([]),
+    // Procedure code of the first line, kept for single-procedure reads
     procedureCode: varchar('procedure_code', { length: 20 }),
+    // Sum of the charges of lines that are not rejected
     amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
     status: claimStatusEnum('status').notNull().default('submitted'),
     serviceDate: timestamp('service_date', { withTimezone: true }).notNull(),
@@ -177,6 +367,33 @@ export const claims = pgTable(
     assignedTo: uuid('assigned_to').references(() => users.id, { onDelete: 'set null' }),
     denialReason: text('denial_reason'),
     statusHistory: jsonb('status_history').notNull().default([]),
+    // Which adjudication rules fired on the latest run, and the outcome
+    adjudicationTrace: jsonb('adjudication_trace'),
+    // Cost sharing of an approved claim: what the plan pays and what the
+    // patient owes ({ deductible, copay, coinsurance, overBenefitMax, total })
+    allowedAmount: decimal('allowed_amount', { precision: 12, scale: 2 }),
+    planPaidAmount: decimal('plan_paid_amount', { precision: 12, scale: 2 }),
+    patientResponsibility: jsonb('patient_responsibility'),
+    benefitAccumulatorId: uuid('benefit_accumulator_id').references(
+      () => benefitAccumulators.id,
+      { onDelete: 'restrict' }
+    ),
+    // Charges priced against the fee schedule when the claim last entered
+    // review; allowedAmount above holds the priced total until approval
+    billedAmount: decimal('billed_amount', { precision: 12, scale: 2 }),
+    // Review flags, e.g. ["excessive_charge"]
+    flags: jsonb('flags').notNull().default([]),
+    // Closest earlier claim when flagged as a suspected duplicate, and how
+    // close it is (0-1)
+    duplicateOfClaimId: uuid('duplicate_of_claim_id'),
+    duplicateScore: decimal('duplicate_score', { precision: 3, scale: 2 }),
+    // Client-provided Idempotency-Key of the creating request
+    idempotencyKey: varchar('idempotency_key', { length: 100 }),
+    // Fraud, waste and abuse risk (0-1) and its reasons, e.g.
+    // ["weekend_service"]; null until the scoring job has run
+    riskScore: decimal('risk_score', { precision: 3, scale: 2 }),
+    riskReasons: jsonb('risk_reasons').notNull().default([]),
+    riskScoredAt: timestamp('risk_scored_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
@@ -194,11 +411,62 @@ export const claims = pgTable(
     orgAmountIdx: index('claims_org_amount_idx').on(table.organizationId, table.amount),
     // Assignment queries
     assignedToIdx: index('claims_assigned_to_idx').on(table.assignedTo),
+    // Risk filter and provider risk report
+    orgRiskIdx: index('claims_org_risk_idx').on(table.organizationId, table.riskScore),
     // Claim number unique within organization
     claimNumberOrgIdx: uniqueIndex('claims_claim_number_org_idx').on(
       table.claimNumber,
       table.organizationId
     ),
+    // Idempotency
+    idempotencyOrgIdx: uniqueIndex('claims_idempotency_org_idx').on(
+      table.idempotencyKey,
+      table.organizationId
+    ),
+  })
+);
+
+// Claim Lines (service lines)
+export const claimLines = pgTable(
+  'claim_lines',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    claimId: uuid('claim_id')
+      .notNull()
+      .references(() => claims.id, { onDelete: 'cascade' }),
+    lineNumber: integer('line_number').notNull(),
+    procedureCode: varchar('procedure_code', { length: 20 }).notNull(),
+    modifiers: jsonb('modifiers').notNull().default([]),
+    units: integer('units').notNull(),
+    unitCharge: decimal('unit_charge', { precision: 12, scale: 2 }).notNull(),
+    chargeAmount: decimal('charge_amount', { precision: 12, scale: 2 }).notNull(),
+    serviceDate: timestamp('service_date', { withTimezone: true }).notNull(),
+    diagnosisPointers: jsonb('diagnosis_pointers').notNull(),
+    status: claimLineStatusEnum('status').notNull().default('pending'),
+    denialReason: text('denial_reason'),
+    // Fee schedule pricing: the schedule amount for the units billed (null
+    // when the procedure has none) and the lesser of it and the charge
+    scheduledAmount: decimal('scheduled_amount', { precision: 12, scale: 2 }),
+    allowedAmount: decimal('allowed_amount', { precision: 12, scale: 2 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    // Tenant filtering
+    orgIdx: index('claim_lines_org_idx').on(table.organizationId),
+    // Lines of a claim, in order
+    claimLineNumberIdx: uniqueIndex('claim_lines_claim_line_number_idx').on(
+      table.claimId,
+      table.lineNumber
+    ),
+    // Procedure code lookups
+    orgProcedureIdx: index('claim_lines_org_procedure_idx').on(
+      table.organizationId,
+      table.procedureCode
+    ),
   })
 );
 
@@ -226,10 +494,12 @@ export const patientStatusEvents = pgTable(
   (table) => ({
     // Tenant filtering
     orgIdx: index('patient_status_org_idx').on(table.organizationId),
-    // Patient history queries
+    // Patient history queries, newest first and paged by (occurredAt, id)
     orgPatientIdx: index('patient_status_org_patient_idx').on(
       table.organizationId,
-      table.patientId
+      table.patientId,
+      table.occurredAt,
+      table.id
     ),
     // Idempotency
     idempotencyOrgIdx: uniqueIndex('patient_status_idempotency_org_idx').on(
@@ -302,11 +572,360 @@ export const auditLogs = pgTable(
   })
 );
 
+// ICD-10-CM diagnosis codes (global reference data, not tenant scoped).
+// Each CMS release that adds or rewords a code opens a new version; the
+// previous version is closed by setting its termination date.
+// The description index needs the pg_trgm extension.
+export const diagnosisCodes = pgTable(
+  'diagnosis_codes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    code: varchar('code', { length: 8 }).notNull(),
+    shortDescription: varchar('short_description', { length: 60 }).notNull(),
+    description: text('description').notNull(),
+    isBillable: boolean('is_billable').notNull(),
+    effectiveDate: date('effective_date', { mode: 'date' }).notNull(),
+    terminationDate: date('termination_date', { mode: 'date' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    // One version per code and release
+    codeEffectiveIdx: uniqueIndex('diagnosis_codes_code_effective_idx').on(
+      table.code,
+      table.effectiveDate
+    ),
+    // Typeahead on code prefixes (LIKE 'J06%')
+    codePrefixIdx: index('diagnosis_codes_code_prefix_idx').on(
+      table.code.op('varchar_pattern_ops')
+    ),
+    // Typeahead on description fragments (ILIKE '%asthma%')
+    descriptionTrgmIdx: index('diagnosis_codes_description_trgm_idx').using(
+      'gin',
+      table.description.op('gin_trgm_ops')
+    ),
+  })
+);
+
+// CPT / HCPCS Level II procedure codes (global reference data)
+export const procedureCodes = pgTable(
+  'procedure_codes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    code: varchar('code', { length: 5 }).notNull(),
+    description: text('description').notNull(),
+    effectiveDate: date('effective_date', { mode: 'date' }).notNull(),
+    terminationDate: date('termination_date', { mode: 'date' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    // One version per code and release
+    codeEffectiveIdx: uniqueIndex('procedure_codes_code_effective_idx').on(
+      table.code,
+      table.effectiveDate
+    ),
+  })
+);
+
+// Diagnosis/procedure pairing edits configured per organization
+export const codePairingRules = pgTable(
+  'code_pairing_rules',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    procedureCode: varchar('procedure_code', { length: 5 }).notNull(),
+    diagnosisCodePrefix: varchar('diagnosis_code_prefix', { length: 8 }).notNull(),
+    effect: codePairingEffectEnum('effect').notNull(),
+    reason: text('reason'),
+    isActive: boolean('is_active').notNull().default(true),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    // One rule per pair within an organization; also serves the
+    // per-procedure lookup at claim creation
+    orgProcedureDiagnosisIdx: uniqueIndex('code_pairing_rules_org_procedure_diagnosis_idx').on(
+      table.organizationId,
+      table.procedureCode,
+      table.diagnosisCodePrefix
+    ),
+  })
+);
+
+// Adjudication rules, evaluated per organization in priority order
+export const adjudicationRules = pgTable(
+  'adjudication_rules',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    priority: integer('priority').notNull(),
+    condition: jsonb('condition').notNull(),
+    action: adjudicationActionEnum('action').notNull(),
+    denialReason: text('denial_reason'),
+    assignTo: uuid('assign_to').references(() => users.id, { onDelete: 'set null' }),
+    isActive: boolean('is_active').notNull().default(true),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    // Evaluation order is unambiguous within an organization
+    orgPriorityIdx: uniqueIndex('adjudication_rules_org_priority_idx').on(
+      table.organizationId,
+      table.priority
+    ),
+  })
+);
+
+// Payment batches: one check or EFT per provider
+export const paymentBatches = pgTable(
+  'payment_batches',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    batchNumber: varchar('batch_number', { length: 50 }).notNull(),
+    providerId: uuid('provider_id')
+      .notNull()
+      .references(() => providers.id, { onDelete: 'restrict' }),
+    method: paymentMethodEnum('method').notNull(),
+    reference: varchar('reference', { length: 50 }).notNull(),
+    status: paymentBatchStatusEnum('status').notNull().default('issued'),
+    totalPaid: decimal('total_paid', { precision: 14, scale: 2 }).notNull(),
+    claimCount: integer('claim_count').notNull(),
+    paidAt: timestamp('paid_at', { withTimezone: true }).notNull(),
+    issuedBy: uuid('issued_by').notNull(),
+    voidedAt: timestamp('voided_at', { withTimezone: true }),
+    voidedBy: uuid('voided_by'),
+    voidReason: text('void_reason'),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    batchNumberIdx: uniqueIndex('payment_batches_batch_number_idx').on(table.batchNumber),
+    // A check number or EFT trace is used once per organization
+    orgReferenceIdx: uniqueIndex('payment_batches_org_method_reference_idx').on(
+      table.organizationId,
+      table.method,
+      table.reference
+    ),
+    // Provider remittance listings
+    orgProviderPaidIdx: index('payment_batches_org_provider_paid_idx').on(
+      table.organizationId,
+      table.providerId,
+      table.paidAt
+    ),
+  })
+);
+
+// Remittance: how one claim in a batch was paid
+export const remittances = pgTable(
+  'remittances',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    batchId: uuid('batch_id')
+      .notNull()
+      .references(() => paymentBatches.id, { onDelete: 'cascade' }),
+    claimId: uuid('claim_id')
+      .notNull()
+      .references(() => claims.id, { onDelete: 'restrict' }),
+    providerId: uuid('provider_id').notNull(),
+    billedAmount: decimal('billed_amount', { precision: 12, scale: 2 }).notNull(),
+    allowedAmount: decimal('allowed_amount', { precision: 12, scale: 2 }).notNull(),
+    paidAmount: decimal('paid_amount', { precision: 12, scale: 2 }).notNull(),
+    patientResponsibility: decimal('patient_responsibility', { precision: 12, scale: 2 }).notNull(),
+    adjustments: jsonb('adjustments').notNull().default([]),
+    voidedAt: timestamp('voided_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    batchIdx: index('remittances_batch_idx').on(table.batchId),
+    // A claim is paid at most once; voided remittances don't count
+    activeClaimIdx: uniqueIndex('remittances_active_claim_idx')
+      .on(table.claimId)
+      .where(sql`${table.voidedAt} is null`),
+  })
+);
+
+// X12 interchange control numbers (ISA13 is 9 digits)
+export const x12ControlNumberSeq = pgSequence('x12_control_number_seq', {
+  startWith: 1,
+  maxValue: 999999999,
+  cycle: true,
+});
+
+// Generated X12 835 documents; the latest one per batch is served
+export const remittanceAdvices = pgTable(
+  'remittance_advices',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    batchId: uuid('batch_id')
+      .notNull()
+      .references(() => paymentBatches.id, { onDelete: 'cascade' }),
+    providerId: uuid('provider_id').notNull(),
+    controlNumber: integer('control_number').notNull(),
+    content: text('content').notNull(),
+    jobId: varchar('job_id', { length: 255 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    batchCreatedIdx: index('remittance_advices_batch_created_idx').on(
+      table.batchId,
+      table.createdAt
+    ),
+  })
+);
+
+// Bulk claim submissions: the file as received and a per-claim intake report
+export const claimSubmissions = pgTable(
+  'claim_submissions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    format: claimSubmissionFormatEnum('format').notNull(),
+    status: claimSubmissionStatusEnum('status').notNull().default('received'),
+    submittedBy: uuid('submitted_by').notNull(),
+    providerId: uuid('provider_id'), // Set when a provider submitted the file
+    content: text('content').notNull(),
+    // SHA-256 of the content, for imports that must not run twice
+    fileHash: varchar('file_hash', { length: 64 }),
+    acknowledgment: text('acknowledgment'), // X12 999 for EDI submissions
+    claimCount: integer('claim_count').notNull().default(0),
+    acceptedCount: integer('accepted_count').notNull().default(0),
+    rejectedCount: integer('rejected_count').notNull().default(0),
+    results: jsonb('results').notNull().default([]),
+    jobId: varchar('job_id', { length: 255 }),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    orgCreatedIdx: index('claim_submissions_org_created_idx').on(
+      table.organizationId,
+      table.createdAt
+    ),
+    orgFileHashIdx: uniqueIndex('claim_submissions_org_file_hash_idx').on(
+      table.organizationId,
+      table.fileHash
+    ),
+    jobIdx: index('claim_submissions_job_idx').on(table.jobId),
+  })
+);
+
+// Background claims exports; the file itself is written to EXPORT_DIR
+export const claimExports = pgTable(
+  'claim_exports',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    requestedBy: uuid('requested_by').notNull(),
+    format: claimExportFormatEnum('format').notNull(),
+    status: claimExportStatusEnum('status').notNull().default('queued'),
+    // Filters and sort of the request, applied with the requester's access
+    query: jsonb('query').notNull().default({}),
+    rowCount: integer('row_count').notNull().default(0),
+    fileSize: bigint('file_size', { mode: 'number' }),
+    error: text('error'),
+    jobId: varchar('job_id', { length: 255 }),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    orgCreatedIdx: index('claim_exports_org_created_idx').on(
+      table.organizationId,
+      table.createdAt
+    ),
+  })
+);
+
+// postgres-js reads and writes bytea as Buffer
+const bytea = customType<{ data: Buffer }>({
+  dataType: () => 'bytea',
+});
+
+// Appeals of rejected claims
+export const appeals = pgTable(
+  'appeals',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    claimId: uuid('claim_id')
+      .notNull()
+      .references(() => claims.id, { onDelete: 'cascade' }),
+    filedBy: uuid('filed_by').notNull(),
+    reason: text('reason').notNull(),
+    status: appealStatusEnum('status').notNull().default('pending'),
+    // Who rejected the claim; may not decide the appeal
+    originalReviewerId: uuid('original_reviewer_id'),
+    deadlineAt: timestamp('deadline_at', { withTimezone: true }).notNull(),
+    decidedBy: uuid('decided_by'),
+    decisionReason: text('decision_reason'),
+    decidedAt: timestamp('decided_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    // Appeal history of a claim
+    orgClaimIdx: index('appeals_org_claim_idx').on(
+      table.organizationId,
+      table.claimId,
+      table.createdAt
+    ),
+    // At most one undecided appeal per claim
+    pendingClaimIdx: uniqueIndex('appeals_pending_claim_idx')
+      .on(table.claimId)
+      .where(sql`${table.status} = 'pending'`),
+  })
+);
+
+export const appealAttachments = pgTable(
+  'appeal_attachments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    appealId: uuid('appeal_id')
+      .notNull()
+      .references(() => appeals.id, { onDelete: 'cascade' }),
+    fileName: varchar('file_name', { length: 255 }).notNull(),
+    contentType: varchar('content_type', { length: 100 }).notNull(),
+    size: integer('size').notNull(),
+    content: bytea('content').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    appealIdx: index('appeal_attachments_appeal_idx').on(table.appealId),
+  })
+);
+
 // Relations
 export const organizationsRelations = relations(organizations, ({ many }) => ({
   users: many(users),
   providers: many(providers),
   patients: many(patients),
+  plans: many(plans),
   claims: many(claims),
   patientStatusEvents: many(patientStatusEvents),
   jobProcessingLogs: many(jobProcessingLogs),
@@ -335,6 +954,7 @@ export const providersRelations = relations(providers, ({ one, many }) => ({
     references: [organizations.id],
   }),
   claims: many(claims),
+  feeSchedules: many(feeSchedules),
 }));
 
 export const patientsRelations = relations(patients, ({ one, many }) => ({
@@ -344,9 +964,49 @@ export const patientsRelations = relations(patients, ({ one, many }) => ({
   }),
   claims: many(claims),
   statusEvents: many(patientStatusEvents),
+  coverages: many(coverages),
+  benefitAccumulators: many(benefitAccumulators),
 }));
 
-export const claimsRelations = relations(claims, ({ one }) => ({
+export const plansRelations = relations(plans, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [plans.organizationId],
+    references: [organizations.id],
+  }),
+  coverages: many(coverages),
+}));
+
+export const coveragesRelations = relations(coverages, ({ one }) => ({
+  patient: one(patients, {
+    fields: [coverages.patientId],
+    references: [patients.id],
+  }),
+  plan: one(plans, {
+    fields: [coverages.planId],
+    references: [plans.id],
+  }),
+}));
+
+export const benefitAccumulatorsRelations = relations(benefitAccumulators, ({ one, many }) => ({
+  patient: one(patients, {
+    fields: [benefitAccumulators.patientId],
+    references: [patients.id],
+  }),
+  plan: one(plans, {
+    fields: [benefitAccumulators.planId],
+    references: [plans.id],
+  }),
+  claims: many(claims),
+}));
+
+export const feeSchedulesRelations = relations(feeSchedules, ({ one }) => ({
+  provider: one(providers, {
+    fields: [feeSchedules.providerId],
+    references: [providers.id],
+  }),
+}));
+
+export const claimsRelations = relations(claims, ({ one, many }) => ({
   organization: one(organizations, {
     fields: [claims.organizationId],
     references: [organizations.id],
@@ -363,6 +1023,34 @@ export const claimsRelations = relations(claims, ({ one }) => ({
     fields: [claims.assignedTo],
     references: [users.id],
   }),
+  benefitAccumulator: one(benefitAccumulators, {
+    fields: [claims.benefitAccumulatorId],
+    references: [benefitAccumulators.id],
+  }),
+  lines: many(claimLines),
+  appeals: many(appeals),
+}));
+
+export const claimLinesRelations = relations(claimLines, ({ one }) => ({
+  claim: one(claims, {
+    fields: [claimLines.claimId],
+    references: [claims.id],
+  }),
+}));
+
+export const appealsRelations = relations(appeals, ({ one, many }) => ({
+  claim: one(claims, {
+    fields: [appeals.claimId],
+    references: [claims.id],
+  }),
+  attachments: many(appealAttachments),
+}));
+
+export const appealAttachmentsRelations = relations(appealAttachments, ({ one }) => ({
+  appeal: one(appeals, {
+    fields: [appealAttachments.appealId],
+    references: [appeals.id],
+  }),
 }));
 
 export const patientStatusEventsRelations = relations(patientStatusEvents, ({ one }) => ({
@@ -389,9 +1077,21 @@ export type NewProvider = typeof providers.$inferInsert;
 export type PatientRow = typeof patients.$inferSelect;
 export type NewPatient = typeof patients.$inferInsert;
 
+export type PlanRow = typeof plans.$inferSelect;
+export type NewPlanRow = typeof plans.$inferInsert;
+
+export type CoverageRow = typeof coverages.$inferSelect;
+export type NewCoverageRow = typeof coverages.$inferInsert;
+export type BenefitAccumulatorRow = typeof benefitAccumulators.$inferSelect;
+export type FeeScheduleRow = typeof feeSchedules.$inferSelect;
+export type NewFeeScheduleRow = typeof feeSchedules.$inferInsert;
+
 export type ClaimRow = typeof claims.$inferSelect;
 export type NewClaim = typeof claims.$inferInsert;
 
+export type ClaimLineRow = typeof claimLines.$inferSelect;
+export type NewClaimLineRow = typeof claimLines.$inferInsert;
+
 export type PatientStatusEventRow = typeof patientStatusEvents.$inferSelect;
 export type NewPatientStatusEvent = typeof patientStatusEvents.$inferInsert;
 
@@ -400,3 +1100,32 @@ export type NewJobProcessingLog = typeof jobProcessingLogs.$inferInsert;
 
 export type AuditLogRow = typeof auditLogs.$inferSelect;
 export type NewAuditLog = typeof auditLogs.$inferInsert;
+
+export type DiagnosisCodeRow = typeof diagnosisCodes.$inferSelect;
+export type NewDiagnosisCodeRow = typeof diagnosisCodes.$inferInsert;
+
+export type ProcedureCodeRow = typeof procedureCodes.$inferSelect;
+export type NewProcedureCodeRow = typeof procedureCodes.$inferInsert;
+
+export type CodePairingRuleRow = typeof codePairingRules.$inferSelect;
+export type NewCodePairingRuleRow = typeof codePairingRules.$inferInsert;
+
+export type AdjudicationRuleRow = typeof adjudicationRules.$inferSelect;
+export type NewAdjudicationRuleRow = typeof adjudicationRules.$inferInsert;
+
+export type PaymentBatchRow = typeof paymentBatches.$inferSelect;
+export type NewPaymentBatchRow = typeof paymentBatches.$inferInsert;
+
+export type RemittanceRow = typeof remittances.$inferSelect;
+export type NewRemittanceRow = typeof remittances.$inferInsert;
+
+export type RemittanceAdviceRow = typeof remittanceAdvices.$inferSelect;
+export type NewRemittanceAdviceRow = typeof remittanceAdvices.$inferInsert;
+
+export type ClaimSubmissionRow = typeof claimSubmissions.$inferSelect;
+export type NewClaimSubmissionRow = typeof claimSubmissions.$inferInsert;
+export type ClaimExportRow = typeof claimExports.$inferSelect;
+export type NewClaimExportRow = typeof claimExports.$inferInsert;
+export type AppealRow = typeof appeals.$inferSelect;
+export type NewAppealRow = typeof appeals.$inferInsert;
+export type AppealAttachmentRow = typeof appealAttachments.$inferSelect;
@@ -6,6 +6,13 @@ import {
   providers,
   patients,
   claims,
+  claimLines,
+  diagnosisCodes,
+  procedureCodes,
+  codePairingRules,
+  adjudicationRules,
+  paymentBatches,
+  remittances,
 } from './schema/index.js';
 import { logger } from '../../shared/utils/logger.js';
 import type { ClaimStatus, UserRole } from '../../shared/types/index.js';
@@ -19,9 +26,13 @@ function generateId(prefix: string, index: number): string {
 }
 
 // Test data IDs
+const PLATFORM_ORG_ID = generateId('platform', 0);
 const ORG1_ID = generateId('org1', 1);
 const ORG2_ID = generateId('org2', 2);
 
+// Platform operator
+const SUPER_ADMIN_ID = generateId('superadmin', 0);
+
 // Organization 1 users
 const ADMIN1_ID = generateId('admin1', 1);
 const PROCESSOR1_ID = generateId('processor1', 1);
@@ -45,6 +56,44 @@ const PATIENT2_ID = generateId('patiententity', 2);
 const PATIENT3_ID = generateId('patiententity', 3);
 const PATIENT4_ID = generateId('patiententity', 4);
 
+// ICD-10-CM sample used by the seeded claims (FY2025 release).
+// Load the full CMS release with `npm run codes:import:icd10cm`.
+const ICD10CM_RELEASE_DATE = new Date('2024-10-01T00:00:00.000Z');
+const DIAGNOSIS_CODES: [code: string, description: string, isBillable: boolean][] = [
+  ['E11.9', 'Type 2 diabetes mellitus without complications', true],
+  ['F32.9', 'Major depressive disorder, single episode, unspecified', true],
+  ['I10', 'Essential (primary) hypertension', true],
+  ['J06', 'Acute upper respiratory infections of multiple and unspecified sites', false],
+  ['J06.9', 'Acute upper respiratory infection, unspecified', true],
+  ['J18.9', 'Pneumonia, unspecified organism', true],
+  ['J45.909', 'Unspecified asthma, uncomplicated', true],
+  ['K21.0', 'Gastro-esophageal reflux disease with esophagitis', false],
+  ['K21.00', 'Gastro-esophageal reflux disease with esophagitis, without bleeding', true],
+  ['M54.5', 'Low back pain', false],
+  ['M54.50', 'Low back pain, unspecified', true],
+  ['N39.0', 'Urinary tract infection, site not specified', true],
+  ['R51', 'Headache', false],
+  ['R51.9', 'Headache, unspecified', true],
+  ['S62.309A', 'Unspecified fracture of unspecified metacarpal bone, initial encounter for closed fracture', true],
+  ['Z00.00', 'Encounter for general adult medical examination without abnormal findings', true],
+];
+
+// CPT / HCPCS sample, effective for the 2025 calendar year
+const PROCEDURE_CODE_RELEASE_DATE = new Date('2025-01-01T00:00:00.000Z');
+const PROCEDURE_CODES: [code: string, description: string][] = [
+  ['99202', 'Office or other outpatient visit, new patient, straightforward'],
+  ['99203', 'Office or other outpatient visit, new patient, low complexity'],
+  ['99212', 'Office or other outpatient visit, established patient, straightforward'],
+  ['99213', 'Office or other outpatient visit, established patient, low complexity'],
+  ['99214', 'Office or other outpatient visit, established patient, moderate complexity'],
+  ['99396', 'Periodic preventive medicine evaluation, established patient, 40-64 years'],
+  ['71046', 'Radiologic examination, chest; 2 views'],
+  ['81001', 'Urinalysis, automated, with microscopy'],
+  ['85025', 'Complete blood count with automated differential'],
+  ['90834', 'Psychotherapy, 45 minutes with patient'],
+  ['J1100', 'Injection, dexamethasone sodium phosphate, 1 mg'],
+];
+
 // Claims
 const CLAIM_IDS = Array.from({ length: 10 }, (_, i) => generateId('claim', i + 1));
 
@@ -55,6 +104,11 @@ async function seed(): Promise<void> {
 
   try {
     // Clean existing data (in reverse order of dependencies)
+    await db.delete(remittances);
+    await db.delete(paymentBatches);
+    await db.delete(adjudicationRules);
+    await db.delete(codePairingRules);
+    await db.delete(claimLines);
     await db.delete(claims);
     await db.delete(patients);
     await db.delete(providers);
@@ -65,6 +119,18 @@ async function seed(): Promise<void> {
 
     // Create organizations
     await db.insert(organizations).values([
+      {
+        // Home organization for platform super-admins; holds no tenant data
+        id: PLATFORM_ORG_ID,
+        name: 'Platform Operations',
+        code: 'PLATFORM',
+        isActive: true,
+        settings: {
+          maxClaimAmount: 1000000,
+          minClaimAmount: 0.01,
+          requiresManualReview: true,
+        },
+      },
       {
         id: ORG1_ID,
         name: 'HealthFirst Insurance Co.',
@@ -75,6 +141,17 @@ async function seed(): Promise<void> {
           minClaimAmount: 0.01,
           autoApproveThreshold: 1000,
           requiresManualReview: true,
+          payerProfile: {
+            taxId: '741234567',
+            address: {
+              street: '100 Main Street',
+              city: 'Austin',
+              state: 'TX',
+              zipCode: '78701',
+              country: 'US',
+            },
+            contactPhone: '5125550100',
+          },
         },
       },
       {
@@ -87,6 +164,18 @@ async function seed(): Promise<void> {
           minClaimAmount: 0.01,
           autoApproveThreshold: 5000,
           requiresManualReview: false,
+          routingStrategy: 'least_open',
+          payerProfile: {
+            taxId: '361234567',
+            address: {
+              street: '200 Lake Shore Drive',
+              city: 'Chicago',
+              state: 'IL',
+              zipCode: '60601',
+              country: 'US',
+            },
+            contactPhone: '3125550100',
+          },
         },
       },
     ]);
@@ -99,7 +188,7 @@ async function seed(): Promise<void> {
         id: PROVIDER1_ENTITY_ID,
         organizationId: ORG1_ID,
         name: 'City General Hospital',
-        npi: '1234567890',
+        npi: '1234567893',
         specialty: 'General Medicine',
         isActive: true,
         contactEmail: 'admin@citygeneral.com',
@@ -109,7 +198,7 @@ async function seed(): Promise<void> {
         id: PROVIDER2_ENTITY_ID,
         organizationId: ORG2_ID,
         name: 'Metro Medical Center',
-        npi: '0987654321',
+        npi: '1987654328',
         specialty: 'Emergency Medicine',
         isActive: true,
         contactEmail: 'contact@metromedical.com',
@@ -167,6 +256,18 @@ async function seed(): Promise<void> {
 
     // Create users
     await db.insert(users).values([
+      // Platform super-admin
+      {
+        id: SUPER_ADMIN_ID,
+        organizationId: PLATFORM_ORG_ID,
+        email: 'superadmin@platform.local',
+        passwordHash,
+        firstName: 'Platform',
+        lastName: 'Admin',
+        role: 'super_admin' as UserRole,
+        isActive: true,
+        assignedClaimIds: [],
+      },
       // Organization 1 users
       {
         id: ADMIN1_ID,
@@ -299,7 +400,7 @@ async function seed(): Promise<void> {
         claimNumber: 'CLM-HF-002',
         patientId: PATIENT1_ID,
         providerId: PROVIDER1_ENTITY_ID,
-        diagnosisCode: 'M54.5',
+        diagnosisCode: 'M54.50',
         amount: '1500.00',
         status: 'under_review' as ClaimStatus,
         serviceDate: new Date('2025-01-10'),
@@ -405,7 +506,7 @@ async function seed(): Promise<void> {
         claimNumber: 'CLM-SC-003',
         patientId: PATIENT3_ID,
         providerId: PROVIDER2_ENTITY_ID,
-        diagnosisCode: 'R51',
+        diagnosisCode: 'R51.9',
         amount: '150.00',
         status: 'approved' as ClaimStatus,
         serviceDate: new Date('2025-01-01'),
@@ -418,13 +519,167 @@ async function seed(): Promise<void> {
       },
     ];
 
-    await db.insert(claims).values(claimData);
+    await db
+      .insert(claims)
+      .values(claimData.map((claim) => ({ ...claim, procedureCode: '99213' })));
+
+    // One office-visit line per claim, carrying the full amount
+    await db.insert(claimLines).values(
+      claimData.map((claim) => ({
+        organizationId: claim.organizationId,
+        claimId: claim.id,
+        lineNumber: 1,
+        procedureCode: '99213',
+        units: 1,
+        unitCharge: claim.amount,
+        chargeAmount: claim.amount,
+        serviceDate: claim.serviceDate,
+        diagnosisPointers: [1],
+        status: ['approved', 'paid'].includes(claim.status) ? ('approved' as const) : ('pending' as const),
+      }))
+    );
 
     logger.info('Created claims');
 
+    // Shared reference data: keep a previously imported full release
+    await db
+      .insert(diagnosisCodes)
+      .values(
+        DIAGNOSIS_CODES.map(([code, description, isBillable]) => ({
+          code,
+          shortDescription: description.slice(0, 60),
+          description,
+          isBillable,
+          effectiveDate: ICD10CM_RELEASE_DATE,
+        }))
+      )
+      .onConflictDoNothing();
+
+    logger.info('Created diagnosis codes');
+
+    await db
+      .insert(procedureCodes)
+      .values(
+        PROCEDURE_CODES.map(([code, description]) => ({
+          code,
+          description,
+          effectiveDate: PROCEDURE_CODE_RELEASE_DATE,
+        }))
+      )
+      .onConflictDoNothing();
+
+    logger.info('Created procedure codes');
+
+    // Sample pairing edits for Organization 1
+    await db.insert(codePairingRules).values([
+      {
+        organizationId: ORG1_ID,
+        procedureCode: '71046',
+        diagnosisCodePrefix: 'J',
+        effect: 'allow' as const,
+        reason: 'Chest X-ray requires a respiratory diagnosis',
+      },
+      {
+        organizationId: ORG1_ID,
+        procedureCode: '90834',
+        diagnosisCodePrefix: 'Z00',
+        effect: 'deny' as const,
+        reason: 'Psychotherapy is not billable against a routine examination',
+      },
+    ]);
+
+    logger.info('Created code pairing rules');
+
+    // Sample adjudication rules for Organization 1, in evaluation order
+    await db.insert(adjudicationRules).values([
+      {
+        organizationId: ORG1_ID,
+        name: 'Pend injury claims over $5,000',
+        priority: 10,
+        condition: {
+          all: [
+            { field: 'diagnosisCode', op: 'starts_with', value: 'S' },
+            { field: 'amount', op: 'gt', value: 5000 },
+          ],
+        },
+        action: 'pend' as const,
+      },
+      {
+        organizationId: ORG1_ID,
+        name: 'Send behavioral health to Processor 2',
+        priority: 20,
+        condition: { field: 'procedureCodes', op: 'in', value: ['90834'] },
+        action: 'assign' as const,
+        assignTo: PROCESSOR2_ID,
+      },
+      {
+        organizationId: ORG1_ID,
+        name: 'Reject routine exams for adults',
+        priority: 30,
+        condition: {
+          all: [
+            { field: 'diagnosisCode', op: 'starts_with', value: 'Z00' },
+            { field: 'patientAge', op: 'gte', value: 18 },
+          ],
+        },
+        action: 'reject' as const,
+        denialReason: 'Routine examinations are not covered for adults',
+      },
+      {
+        organizationId: ORG1_ID,
+        name: 'Approve low-cost office visits',
+        priority: 40,
+        condition: {
+          all: [
+            { field: 'amount', op: 'lte', value: 250 },
+            { field: 'procedureCodes', op: 'in', value: ['99212', '99213'] },
+          ],
+        },
+        action: 'approve' as const,
+      },
+    ]);
+
+    logger.info('Created adjudication rules');
+
+    // Remittance for the paid claim
+    const [batch] = await db
+      .insert(paymentBatches)
+      .values({
+        organizationId: ORG1_ID,
+        batchNumber: 'PAY-HF-001',
+        providerId: PROVIDER1_ENTITY_ID,
+        method: 'eft' as const,
+        reference: 'EFT20241215001',
+        totalPaid: '140.00',
+        claimCount: 1,
+        paidAt: new Date('2024-12-15'),
+        issuedBy: ADMIN1_ID,
+      })
+      .returning();
+
+    await db.insert(remittances).values({
+      organizationId: ORG1_ID,
+      batchId: batch.id,
+      claimId: CLAIM_IDS[4],
+      providerId: PROVIDER1_ENTITY_ID,
+      billedAmount: '175.00',
+      allowedAmount: '160.00',
+      paidAmount: '140.00',
+      patientResponsibility: '20.00',
+      adjustments: [
+        { groupCode: 'CO', reasonCode: '45', amount: 15 },
+        { groupCode: 'PR', reasonCode: '3', amount: 20 },
+      ],
+    });
+
+    logger.info('Created payment batches');
+
     logger.info('✅ Database seed completed successfully');
     logger.info('\n📋 Test Credentials:');
     logger.info('================================');
+    logger.info('Platform:');
+    logger.info('  Super Admin: superadmin@platform.local / Password123!');
+    logger.info('');
     logger.info('Organization 1 (HealthFirst):');
     logger.info('  Admin: admin@healthfirst.com / Password123!');
     logger.info('  Processor 1: processor1@healthfirst.com / Password123!');
@@ -0,0 +1,195 @@
+/**
+ * Claims export files: CSV, NDJSON and Parquet.
+ *
+ * All three carry the same columns, one row per claim. Service lines,
+ * status history and adjudication traces stay in the API. Further
+ * diagnosis codes are a JSON array in NDJSON and ';'-separated elsewhere,
+ * as the claim import reads them.
+ *
+ * Encoding works batch by batch, so a file of any size is written with
+ * one batch of claims in memory; each batch is a Parquet row group.
+ */
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadStream } from 'node:fs';
+import { ByteWriter, ParquetWriter, schemaFromColumnData, type BasicType } from 'hyparquet-writer';
+import { env } from '../../config/env.js';
+import type { Claim } from '../../domain/entities/index.js';
+import type { ClaimExportFormat } from '../../shared/types/index.js';
+
+// Exports of more claims than this run as a background job
+export const CLAIM_EXPORT_STREAM_MAX_ROWS = env.EXPORT_STREAM_MAX_ROWS;
+
+// Claims per cursor fetch, and so per Parquet row group
+export const CLAIM_EXPORT_BATCH_SIZE = 1000;
+
+type ExportValue = string | number | Date | string[] | undefined;
+
+// Spreadsheets run CSV cells starting with these as formulas
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+interface ExportColumn {
+  name: string;
+  type: Extract<BasicType, 'STRING' | 'DOUBLE' | 'TIMESTAMP'>;
+  value: (claim: Claim) => ExportValue;
+}
+
+export const CLAIM_EXPORT_COLUMNS: ExportColumn[] = [
+  { name: 'id', type: 'STRING', value: (claim) => claim.id },
+  { name: 'claimNumber', type: 'STRING', value: (claim) => claim.claimNumber },
+  { name: 'status', type: 'STRING', value: (claim) => claim.status },
+  { name: 'patientId', type: 'STRING', value: (claim) => claim.patientId },
+  { name: 'providerId', type: 'STRING', value: (claim) => claim.providerId },
+  { name: 'serviceDate', type: 'TIMESTAMP', value: (claim) => claim.serviceDate },
+  { name: 'diagnosisCode', type: 'STRING', value: (claim) => claim.diagnosisCode },
+  {
+    name: 'additionalDiagnosisCodes',
+    type: 'STRING',
+    value: (claim) => claim.additionalDiagnosisCodes ?? [],
+  },
+  { name: 'procedureCode', type: 'STRING', value: (claim) => claim.procedureCode },
+  { name: 'amount', type: 'DOUBLE', value: (claim) => claim.amount },
+  { name: 'assignedTo', type: 'STRING', value: (claim) => claim.assignedTo },
+  { name: 'denialReason', type: 'STRING', value: (claim) => claim.denialReason },
+  { name: 'notes', type: 'STRING', value: (claim) => claim.notes },
+  { name: 'submittedAt', type: 'TIMESTAMP', value: (claim) => claim.submittedAt },
+  { name: 'processedAt', type: 'TIMESTAMP', value: (claim) => claim.processedAt },
+  { name: 'paidAt', type: 'TIMESTAMP', value: (claim) => claim.paidAt },
+  { name: 'createdAt', type: 'TIMESTAMP', value: (claim) => claim.createdAt },
+  { name: 'updatedAt', type: 'TIMESTAMP', value: (claim) => claim.updatedAt },
+];
+
+export const CLAIM_EXPORT_CONTENT_TYPES: Record<ClaimExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+export type ClaimExportChunk = string | Uint8Array;
+
+function toCsvCell(value: ExportValue): string {
+  if (value === undefined) {
+    return '';
+  }
+  const formatted =
+    value instanceof Date
+      ? value.toISOString()
+      : Array.isArray(value)
+        ? value.join(';')
+        : String(value);
+  // Free text such as notes gets a leading quote; numbers stay numbers
+  const text =
+    typeof value !== 'number' && CSV_FORMULA_PREFIX.test(formatted) ? `'${formatted}` : formatted;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function* encodeCsv(batches: AsyncIterable<Claim[]>): AsyncGenerator<ClaimExportChunk> {
+  yield `${CLAIM_EXPORT_COLUMNS.map((column) => column.name).join(',')}\r\n`;
+
+  for await (const batch of batches) {
+    yield batch
+      .map(
+        (claim) =>
+          `${CLAIM_EXPORT_COLUMNS.map((column) => toCsvCell(column.value(claim))).join(',')}\r\n`
+      )
+      .join('');
+  }
+}
+
+async function* encodeNdjson(batches: AsyncIterable<Claim[]>): AsyncGenerator<ClaimExportChunk> {
+  for await (const batch of batches) {
+    yield batch
+      .map((claim) => {
+        const record: Record<string, ExportValue | null> = {};
+        for (const column of CLAIM_EXPORT_COLUMNS) {
+          record[column.name] = column.value(claim) ?? null;
+        }
+        return `${JSON.stringify(record)}\n`;
+      })
+      .join('');
+  }
+}
+
+async function* encodeParquet(batches: AsyncIterable<Claim[]>): AsyncGenerator<ClaimExportChunk> {
+  const writer = new ByteWriter();
+  const parquet = new ParquetWriter({
+    writer,
+    schema: schemaFromColumnData({
+      columnData: CLAIM_EXPORT_COLUMNS.map(({ name, type }) => ({ name, type, data: [] })),
+    }),
+  });
+
+  // Hand over what has been written so far and reuse the buffer
+  const take = (): Uint8Array => {
+    const bytes = writer.getBytes().slice();
+    writer.index = 0;
+    return bytes;
+  };
+
+  for await (const batch of batches) {
+    if (batch.length === 0) {
+      continue;
+    }
+    await parquet.write({
+      columnData: CLAIM_EXPORT_COLUMNS.map(({ name, type, value }) => ({
+        name,
+        type,
+        data: batch.map((claim) => {
+          const cell = value(claim);
+          return Array.isArray(cell) ? cell.join(';') : (cell ?? null);
+        }),
+      })),
+      rowGroupSize: batch.length,
+    });
+    yield take();
+  }
+
+  await parquet.finish();
+  yield take();
+}
+
+/**
+ * Encode batches of claims as an export file, chunk by chunk
+ */
+export function encodeClaimExport(
+  batches: AsyncIterable<Claim[]>,
+  format: ClaimExportFormat
+): AsyncGenerator<ClaimExportChunk> {
+  switch (format) {
+    case 'csv':
+      return encodeCsv(batches);
+    case 'ndjson':
+      return encodeNdjson(batches);
+    case 'parquet':
+      return encodeParquet(batches);
+  }
+}
+
+export function claimExportFileName(exportId: string, format: ClaimExportFormat): string {
+  return `claims-${exportId}.${format}`;
+}
+
+function claimExportPath(exportId: string, format: ClaimExportFormat): string {
+  return path.resolve(env.EXPORT_DIR, claimExportFileName(exportId, format));
+}
+
+/**
+ * Write a background export's file to EXPORT_DIR; returns its size in bytes
+ */
+export async function writeClaimExportFile(
+  exportId: string,
+  format: ClaimExportFormat,
+  chunks: AsyncIterable<ClaimExportChunk>
+): Promise<number> {
+  const filePath = claimExportPath(exportId, format);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await pipeline(Readable.from(chunks), createWriteStream(filePath));
+  return (await stat(filePath)).size;
+}
+
+export function openClaimExportFile(exportId: string, format: ClaimExportFormat): ReadStream {
+  return createReadStream(claimExportPath(exportId, format));
+}
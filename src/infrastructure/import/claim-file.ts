@@ -0,0 +1,204 @@
+/**
+ * Claim spreadsheets and NDJSON files for bulk import.
+ *
+ * CSV has one row per service line. Rows sharing a `claimReference` form
+ * one claim, whose claim-level columns are taken from its first row; rows
+ * without a reference are claims of their own. Lists within a cell
+ * (diagnosis codes, modifiers, pointers) are separated by ';'.
+ *
+ * NDJSON has one claim per line, shaped like a POST /api/claims body with
+ * `memberId` and `providerNpi` in place of the patient and provider IDs.
+ *
+ * Values are passed on as read; validating them is up to the importer.
+ * Rows are numbered as a spreadsheet shows them: the CSV header is row 1.
+ */
+
+import { readCsvRecords, toNumber, toText } from './csv.js';
+
+export type ClaimFileFormat = 'csv' | 'ndjson';
+
+export const CLAIM_CSV_COLUMNS = [
+  'claimReference',
+  'memberId',
+  'providerNpi',
+  'serviceDate',
+  'diagnosisCodes',
+  'procedureCode',
+  'modifiers',
+  'units',
+  'unitCharge',
+  'lineServiceDate',
+  'diagnosisPointers',
+  'notes',
+] as const;
+
+const REQUIRED_CSV_COLUMNS = [
+  'memberId',
+  'providerNpi',
+  'serviceDate',
+  'diagnosisCodes',
+  'procedureCode',
+  'units',
+  'unitCharge',
+  'diagnosisPointers',
+] as const;
+
+type ClaimCsvColumn = (typeof CLAIM_CSV_COLUMNS)[number];
+
+export interface ImportRowError {
+  row: number;
+  reference: string;
+  message: string;
+}
+
+export interface ImportedClaim {
+  reference: string; // claimReference, or 'row N' when there is none
+  row: number; // First row of the claim
+  lineRows: number[]; // Row of each entry in fields.lines
+  memberId?: unknown;
+  providerNpi?: unknown;
+  // A create-claim request without patientId and providerId
+  fields: Record<string, unknown>;
+  // Rows that could not be read at all
+  errors: ImportRowError[];
+}
+
+function toList<T>(cell: string | undefined, toItem: (item: string) => T): T[] {
+  return (cell ?? '')
+    .split(';')
+    .filter((item) => item.trim() !== '')
+    .map(toItem);
+}
+
+export function parseClaimCsv(text: string): ImportedClaim[] {
+  const [header, ...records] = readCsvRecords(text);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const columns = header.cells.map((cell) => cell.trim());
+  const unknown = columns.filter(
+    (column) => !(CLAIM_CSV_COLUMNS as readonly string[]).includes(column)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown columns: ${unknown.join(', ')}`);
+  }
+  const missing = REQUIRED_CSV_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Missing columns: ${missing.join(', ')}`);
+  }
+
+  const claims: ImportedClaim[] = [];
+  const byReference = new Map<string, ImportedClaim>();
+
+  for (const { row, cells } of records) {
+    const reference = `row ${row}`;
+    if (cells.length !== columns.length) {
+      claims.push({
+        reference,
+        row,
+        lineRows: [],
+        fields: {},
+        errors: [
+          { row, reference, message: `Expected ${columns.length} cells, found ${cells.length}` },
+        ],
+      });
+      continue;
+    }
+
+    const cell = (column: ClaimCsvColumn): string | undefined => cells[columns.indexOf(column)];
+    const line = {
+      procedureCode: toText(cell('procedureCode')),
+      modifiers: toList(cell('modifiers'), toText),
+      units: toNumber(cell('units')),
+      unitCharge: toNumber(cell('unitCharge')),
+      serviceDate: toText(cell('lineServiceDate')),
+      diagnosisPointers: toList(cell('diagnosisPointers'), toNumber),
+    };
+
+    const claimReference = cell('claimReference')?.trim();
+    const existing = claimReference ? byReference.get(claimReference) : undefined;
+    if (existing) {
+      (existing.fields.lines as unknown[]).push(line);
+      existing.lineRows.push(row);
+      continue;
+    }
+
+    const [diagnosisCode, ...additionalDiagnosisCodes] = toList(cell('diagnosisCodes'), toText);
+    const claim: ImportedClaim = {
+      reference: claimReference || reference,
+      row,
+      lineRows: [row],
+      memberId: toText(cell('memberId')),
+      providerNpi: toText(cell('providerNpi')),
+      fields: {
+        diagnosisCode,
+        additionalDiagnosisCodes,
+        serviceDate: toText(cell('serviceDate')),
+        lines: [line],
+        notes: toText(cell('notes')),
+      },
+      errors: [],
+    };
+    claims.push(claim);
+    if (claimReference) {
+      byReference.set(claimReference, claim);
+    }
+  }
+
+  return claims;
+}
+
+export function parseClaimNdjson(text: string): ImportedClaim[] {
+  const claims: ImportedClaim[] = [];
+
+  text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .forEach((line, index) => {
+      const row = index + 1;
+      if (line.trim() === '') {
+        return;
+      }
+
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        value = undefined;
+      }
+
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        const reference = `row ${row}`;
+        claims.push({
+          reference,
+          row,
+          lineRows: [],
+          fields: {},
+          errors: [{ row, reference, message: 'Not a JSON object' }],
+        });
+        return;
+      }
+
+      const { claimReference, memberId, providerNpi, ...fields } = value as Record<
+        string,
+        unknown
+      >;
+      claims.push({
+        reference:
+          typeof claimReference === 'string' && claimReference ? claimReference : `row ${row}`,
+        row,
+        lineRows: Array.isArray(fields.lines) ? fields.lines.map(() => row) : [],
+        memberId,
+        providerNpi,
+        fields,
+        errors: [],
+      });
+    });
+
+  return claims;
+}
+
+export function parseClaimFile(text: string, format: ClaimFileFormat): ImportedClaim[] {
+  return format === 'csv' ? parseClaimCsv(text) : parseClaimNdjson(text);
+}
@@ -0,0 +1,76 @@
+/**
+ * CSV reading shared by the file importers. Rows are numbered as a
+ * spreadsheet shows them: the header is row 1.
+ */
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+export function toText(cell: string | undefined): string | undefined {
+  const value = cell?.trim() ?? '';
+  return value === '' ? undefined : value;
+}
+
+// Numeric cells become numbers so schema errors read the same as for JSON
+export function toNumber(cell: string | undefined): unknown {
+  const value = toText(cell);
+  return value !== undefined && NUMBER_PATTERN.test(value) ? Number(value) : value;
+}
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields may hold commas,
+ * newlines and doubled quotes). Returns each record with its row number.
+ */
+export function readCsvRecords(text: string): Array<{ row: number; cells: string[] }> {
+  const records: Array<{ row: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let row = 1;
+
+  const endRecord = (): void => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      records.push({ row, cells });
+    }
+    cells = [];
+    cell = '';
+    row++;
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Row ${row}: unterminated quoted field`);
+  }
+  if (cell !== '' || cells.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
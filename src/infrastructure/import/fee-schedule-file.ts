@@ -0,0 +1,81 @@
+/**
+ * Fee schedule spreadsheets: one entry per row. An entry applies to the
+ * provider in `providerNpi`, else to the `specialty`, else to the whole
+ * organization. Dates are YYYY-MM-DD; `terminationDate` is the last day the
+ * amount applies and may be left empty.
+ *
+ * Values are passed on as read; validating them is up to the importer.
+ */
+
+import { readCsvRecords, toNumber, toText } from './csv.js';
+
+export const FEE_SCHEDULE_CSV_COLUMNS = [
+  'procedureCode',
+  'amount',
+  'effectiveDate',
+  'terminationDate',
+  'providerNpi',
+  'specialty',
+] as const;
+
+const REQUIRED_CSV_COLUMNS = ['procedureCode', 'amount', 'effectiveDate'] as const;
+
+type FeeScheduleCsvColumn = (typeof FEE_SCHEDULE_CSV_COLUMNS)[number];
+
+export interface FeeScheduleRowError {
+  row: number;
+  message: string;
+}
+
+export interface ImportedFeeScheduleEntry {
+  row: number;
+  providerNpi?: string;
+  // A create-entry request without providerId
+  fields: Record<string, unknown>;
+  // Set when the row could not be read at all
+  error?: string;
+}
+
+export function parseFeeScheduleCsv(text: string): ImportedFeeScheduleEntry[] {
+  const [header, ...records] = readCsvRecords(text);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const columns = header.cells.map((cell) => cell.trim());
+  const unknown = columns.filter(
+    (column) => !(FEE_SCHEDULE_CSV_COLUMNS as readonly string[]).includes(column)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown columns: ${unknown.join(', ')}`);
+  }
+  const missing = REQUIRED_CSV_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Missing columns: ${missing.join(', ')}`);
+  }
+
+  return records.map(({ row, cells }) => {
+    if (cells.length !== columns.length) {
+      return {
+        row,
+        fields: {},
+        error: `Expected ${columns.length} cells, found ${cells.length}`,
+      };
+    }
+
+    const cell = (column: FeeScheduleCsvColumn): string | undefined =>
+      columns.includes(column) ? cells[columns.indexOf(column)] : undefined;
+
+    return {
+      row,
+      providerNpi: toText(cell('providerNpi')),
+      fields: {
+        procedureCode: toText(cell('procedureCode')),
+        amount: toNumber(cell('amount')),
+        effectiveDate: toText(cell('effectiveDate')),
+        terminationDate: toText(cell('terminationDate')),
+        specialty: toText(cell('specialty')),
+      },
+    };
+  });
+}
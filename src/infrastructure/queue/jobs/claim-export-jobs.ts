@@ -0,0 +1,115 @@
+import {
+  claimExportRepository,
+  jobProcessingLogRepository,
+  userRepository,
+} from '../../database/repositories/index.js';
+import { claimExportService } from '../../../application/services/claim-export.service.js';
+import type { ClaimExportJobData, TenantContext } from '../../../shared/types/index.js';
+import { jobLogger as logger } from '../../../shared/utils/logger.js';
+
+export type ClaimExportResult = {
+  exportId: string;
+  // False when the export was missing or its requester is no longer active
+  written: boolean;
+  rowCount?: number;
+  fileSize?: number;
+};
+
+/**
+ * Write the file of a background claims export
+ *
+ * IDEMPOTENCY: Checks if job already processed via idempotency key
+ * The export runs as its requester, rebuilt from their current account,
+ * so it holds the claims they may see now. A retried run rewrites the file.
+ */
+export async function processClaimExport(data: ClaimExportJobData): Promise<ClaimExportResult> {
+  const { organizationId, exportId, idempotencyKey } = data;
+
+  logger.info('Processing claim export', {
+    exportId,
+    organizationId,
+    idempotencyKey,
+  });
+
+  // Check idempotency
+  const existingLog = await jobProcessingLogRepository.findByIdempotencyKey(
+    idempotencyKey,
+    organizationId
+  );
+
+  if (existingLog?.status === 'completed') {
+    logger.info('Job already completed (idempotent skip)', {
+      idempotencyKey,
+      existingResult: existingLog.result,
+    });
+    return existingLog.result as ClaimExportResult;
+  }
+
+  // Create job log
+  let jobLog = existingLog;
+  if (!jobLog) {
+    jobLog = await jobProcessingLogRepository.create({
+      organizationId,
+      jobId: data.jobId,
+      jobType: 'claim_export',
+      idempotencyKey,
+      status: 'processing',
+      payload: data as unknown as Record<string, unknown>,
+      startedAt: new Date(),
+      retryCount: 0,
+    });
+  }
+
+  try {
+    const claimExport = await claimExportRepository.findByIdInternal(exportId, organizationId);
+    let result: ClaimExportResult = { exportId, written: false };
+
+    if (claimExport) {
+      await claimExportRepository.markProcessingInternal(exportId, organizationId);
+
+      const requester = await userRepository.findByIdWithinOrganization(
+        claimExport.requestedBy,
+        organizationId
+      );
+      const context: TenantContext | null = requester?.isActive
+        ? {
+            organizationId,
+            userId: requester.id,
+            role: requester.role,
+            assignedClaimIds: requester.assignedClaimIds,
+            providerId: requester.providerId,
+            patientId: requester.patientId,
+          }
+        : null;
+
+      if (context) {
+        const written = await claimExportService.writeExport(claimExport, context);
+        await claimExportRepository.completeInternal(exportId, organizationId, written);
+        result = { exportId, written: true, ...written };
+      } else {
+        await claimExportRepository.failInternal(
+          exportId,
+          organizationId,
+          'The user who requested the export is no longer active'
+        );
+      }
+    }
+
+    // Mark job as completed
+    await jobProcessingLogRepository.markCompleted(jobLog.id, result);
+
+    logger.info('Claim export completed', {
+      exportId,
+      organizationId,
+      written: result.written,
+      rowCount: result.rowCount,
+    });
+
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await claimExportRepository.failInternal(exportId, organizationId, errorMessage);
+    await jobProcessingLogRepository.markFailed(jobLog.id, errorMessage);
+    throw error;
+  }
+}
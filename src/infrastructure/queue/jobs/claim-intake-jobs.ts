@@ -0,0 +1,326 @@
+import {
+  claimSubmissionRepository,
+  jobProcessingLogRepository,
+  patientRepository,
+  providerRepository,
+  userRepository,
+} from '../../database/repositories/index.js';
+import { parse837P, type Claim837P } from '../../x12/claim-837p.js';
+import { parseClaimFile } from '../../import/claim-file.js';
+import { claimsService } from '../../../application/services/claims.service.js';
+import { claimImportService } from '../../../application/services/claim-import.service.js';
+import { createClaimSchema, type CreateClaimInput } from '../../../application/validators/index.js';
+import {
+  formatDiagnosisCode,
+  getLineChargeAmount,
+  type ClaimSubmission,
+  type ClaimSubmissionResult,
+} from '../../../domain/entities/index.js';
+import { DomainError } from '../../../domain/errors/index.js';
+import type { ClaimIntakeJobData, TenantContext } from '../../../shared/types/index.js';
+import { jobLogger as logger } from '../../../shared/utils/logger.js';
+
+export type ClaimIntakeResult = {
+  submissionId: string;
+  // False when the submission was missing or already completed
+  processed: boolean;
+  acceptedCount?: number;
+  rejectedCount?: number;
+};
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+// One claim of a submission, checked and mapped to a create-claim request on demand
+interface IntakeItem {
+  reference: string;
+  resolve: (context: TenantContext) => Promise<{ input: CreateClaimInput } | { errors: string[] }>;
+}
+
+/**
+ * Map one 837P claim onto a create-claim request. Returns the problems
+ * instead when the claim cannot be expressed in the platform's terms.
+ */
+async function toCreateClaimRequest(
+  claim: Claim837P,
+  context: TenantContext
+): Promise<{ input: CreateClaimInput } | { errors: string[] }> {
+  const errors: string[] = [];
+
+  if (claim.dependentPatient) {
+    errors.push(
+      'Dependent patients (2000C loop) are not supported; bill the patient as the subscriber'
+    );
+  }
+
+  const [provider, patient] = await Promise.all([
+    providerRepository.findByNpi(claim.billingProviderNpi, context),
+    patientRepository.findByMemberId(claim.subscriberMemberId, context),
+  ]);
+  if (!provider) {
+    errors.push(`No provider with NPI ${claim.billingProviderNpi}`);
+  }
+  if (!patient) {
+    errors.push(`No patient with member ID ${claim.subscriberMemberId}`);
+  }
+
+  const serviceDate =
+    claim.serviceDate ??
+    claim.lines
+      .map((line) => line.serviceDate)
+      .filter((date): date is Date => date !== undefined)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+  if (!serviceDate) {
+    errors.push('No service date on the claim or its lines (DTP*472)');
+  }
+
+  // The platform stores a unit charge; SV102 is the line total
+  const lines = claim.lines.map((line) => {
+    const unitCharge =
+      line.units > 0 ? Math.round((line.chargeAmount / line.units) * 100) / 100 : 0;
+    if (
+      !Number.isInteger(line.units) ||
+      getLineChargeAmount(line.units, unitCharge) !== line.chargeAmount
+    ) {
+      errors.push(`Line ${line.lineNumber}: the charge does not divide into whole cents per unit`);
+    }
+    return {
+      procedureCode: line.procedureCode,
+      modifiers: line.modifiers,
+      units: line.units,
+      unitCharge,
+      serviceDate: line.serviceDate,
+      diagnosisPointers: line.diagnosisPointers,
+    };
+  });
+
+  const lineTotal = claim.lines.reduce((sum, line) => sum + toCents(line.chargeAmount), 0);
+  if (lineTotal !== toCents(claim.totalCharge)) {
+    errors.push(`CLM02 ${claim.totalCharge} does not equal the total of the line charges`);
+  }
+
+  if (errors.length > 0 || !provider || !patient) {
+    return { errors };
+  }
+
+  const [diagnosisCode, ...additionalDiagnosisCodes] =
+    claim.diagnosisCodes.map(formatDiagnosisCode);
+  const parsed = createClaimSchema.safeParse({
+    patientId: patient.id,
+    providerId: provider.id,
+    diagnosisCode,
+    additionalDiagnosisCodes,
+    serviceDate,
+    lines,
+    notes: `837P claim ${claim.patientControlNumber}`,
+  });
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  return { input: parsed.data };
+}
+
+/**
+ * The claims of a submission in file order. 837P files were checked on
+ * receipt: only accepted transaction sets carry claims.
+ */
+function readSubmission(submission: ClaimSubmission, content: string): IntakeItem[] {
+  if (submission.format === 'x12_837p') {
+    return parse837P(content)
+      .transactions.flatMap((transaction) => transaction.claims)
+      .map((claim) => ({
+        reference: claim.patientControlNumber,
+        resolve: (context) => toCreateClaimRequest(claim, context),
+      }));
+  }
+
+  return parseClaimFile(content, submission.format).map((claim) => ({
+    reference: claim.reference,
+    resolve: async (context) => {
+      const resolved = await claimImportService.resolveClaim(claim, context);
+      return 'errors' in resolved
+        ? { errors: resolved.errors.map((error) => `Row ${error.row}: ${error.message}`) }
+        : resolved;
+    },
+  }));
+}
+
+/**
+ * Create one claim. Claims that fail validation are reported as rejected;
+ * unexpected errors propagate so the job retries.
+ *
+ * The claim is keyed by its place in the submission, so a retry that
+ * creates it again gets the claim the first attempt created.
+ */
+async function intakeClaim(
+  item: IntakeItem,
+  submissionId: string,
+  index: number,
+  context: TenantContext
+): Promise<ClaimSubmissionResult> {
+  const rejected = (errors: string[]): ClaimSubmissionResult => ({
+    index,
+    reference: item.reference,
+    status: 'rejected',
+    errors,
+  });
+
+  const mapped = await item.resolve(context);
+  if ('errors' in mapped) {
+    return rejected(mapped.errors);
+  }
+
+  try {
+    const created = await claimsService.createClaim(
+      mapped.input,
+      context,
+      `${submissionId}:${index}`
+    );
+    return {
+      index,
+      reference: item.reference,
+      status: 'accepted',
+      claimId: created.id,
+      claimNumber: created.claimNumber,
+    };
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return rejected([error.message]);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create the claims of a bulk submission: an 837P file or an import
+ *
+ * Claims go through the same service as POST /api/claims, as the user who
+ * sent the file, so they get the same code edits, amount bounds, audit
+ * trail, routing and adjudication.
+ *
+ * IDEMPOTENCY: Checks if job already processed via idempotency key
+ * Results are recorded claim by claim; a retry skips claims that already
+ * have one. A claim created by an attempt that died before recording its
+ * result is found again by its Idempotency-Key and reported as accepted.
+ */
+export async function processClaimIntake(data: ClaimIntakeJobData): Promise<ClaimIntakeResult> {
+  const { organizationId, submissionId, idempotencyKey } = data;
+
+  logger.info('Processing claim intake', {
+    submissionId,
+    organizationId,
+    idempotencyKey,
+  });
+
+  // Check idempotency
+  const existingLog = await jobProcessingLogRepository.findByIdempotencyKey(
+    idempotencyKey,
+    organizationId
+  );
+
+  if (existingLog?.status === 'completed') {
+    logger.info('Job already completed (idempotent skip)', {
+      idempotencyKey,
+      existingResult: existingLog.result,
+    });
+    return existingLog.result as ClaimIntakeResult;
+  }
+
+  // Create job log
+  let jobLog = existingLog;
+  if (!jobLog) {
+    jobLog = await jobProcessingLogRepository.create({
+      organizationId,
+      jobId: data.jobId,
+      jobType: 'claim_intake',
+      idempotencyKey,
+      status: 'processing',
+      payload: data as unknown as Record<string, unknown>,
+      startedAt: new Date(),
+      retryCount: 0,
+    });
+  }
+
+  try {
+    const found = await claimSubmissionRepository.findWithContentInternal(
+      submissionId,
+      organizationId
+    );
+    let result: ClaimIntakeResult = { submissionId, processed: false };
+
+    // Rejected submissions have no claims to take in
+    if (found && ['received', 'processing'].includes(found.submission.status)) {
+      const { submission, content } = found;
+      await claimSubmissionRepository.markProcessingInternal(submissionId, organizationId);
+
+      const submitter = await userRepository.findByIdWithinOrganization(
+        submission.submittedBy,
+        organizationId
+      );
+      const context: TenantContext | null = submitter?.isActive
+        ? {
+            organizationId,
+            userId: submitter.id,
+            role: submitter.role,
+            providerId: submitter.providerId,
+            patientId: submitter.patientId,
+          }
+        : null;
+
+      const items = readSubmission(submission, content);
+      const reported = new Set(submission.results.map((claimResult) => claimResult.index));
+
+      for (const [position, item] of items.entries()) {
+        const index = position + 1;
+        if (reported.has(index)) {
+          continue;
+        }
+
+        const claimResult: ClaimSubmissionResult = context
+          ? await intakeClaim(item, submissionId, index, context)
+          : {
+              index,
+              reference: item.reference,
+              status: 'rejected',
+              errors: ['The user who submitted the file is no longer active'],
+            };
+        await claimSubmissionRepository.addResultInternal(
+          submissionId,
+          organizationId,
+          claimResult
+        );
+      }
+
+      const completed = await claimSubmissionRepository.completeInternal(
+        submissionId,
+        organizationId
+      );
+      result = {
+        submissionId,
+        processed: true,
+        acceptedCount: completed?.acceptedCount,
+        rejectedCount: completed?.rejectedCount,
+      };
+    }
+
+    // Mark job as completed
+    await jobProcessingLogRepository.markCompleted(jobLog.id, result);
+
+    logger.info('Claim intake completed', {
+      submissionId,
+      organizationId,
+      acceptedCount: result.acceptedCount,
+      rejectedCount: result.rejectedCount,
+    });
+
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await jobProcessingLogRepository.markFailed(jobLog.id, errorMessage);
+    throw error;
+  }
+}
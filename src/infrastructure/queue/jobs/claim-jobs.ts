@@ -1,12 +1,44 @@
 import { claimRepository } from '../../database/repositories/index.js';
 import { jobProcessingLogRepository } from '../../database/repositories/index.js';
+import { adjudicationRuleRepository } from '../../database/repositories/index.js';
+import { getOrganizationSettings } from '../../cache/organization-settings.cache.js';
+import { claimRoutingService } from '../../routing/claim-routing.service.js';
+import {
+  OPEN_CLAIM_STATUSES,
+  evaluateAdjudicationRules,
+  qualifiesForDischargeApproval,
+  scoreClaimRisk,
+  type AdjudicationTrace,
+  type ClaimRiskAssessment,
+} from '../../../domain/entities/index.js';
+import { InvalidAssigneeError } from '../../../domain/errors/index.js';
+import type { AssignmentReconciliationResult } from '../../../domain/repositories/index.js';
 import type {
   PatientAdmissionJobData,
   PatientDischargeJobData,
   TreatmentInitiatedJobData,
+  AssignmentReconciliationJobData,
+  ClaimAdjudicationJobData,
+  ClaimRiskScoringJobData,
 } from '../../../shared/types/index.js';
 import { jobLogger as logger } from '../../../shared/utils/logger.js';
 
+/**
+ * Route claims a job moved into review. Best-effort: a routing failure
+ * must not fail (and retry) a job whose status updates already committed.
+ */
+async function routeReviewedClaims(organizationId: string, claimIds: string[]): Promise<void> {
+  try {
+    await claimRoutingService.routeClaims(organizationId, claimIds);
+  } catch (error) {
+    logger.error('Failed to route reviewed claims', {
+      organizationId,
+      claimIds,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 /**
  * Process patient admission - mark submitted claims as under_review
  * 
@@ -83,6 +115,8 @@ export async function processPatientAdmission(
       }
     }
 
+    await routeReviewedClaims(organizationId, updatedClaimIds);
+
     const result = {
       claimsUpdated: updatedClaimIds.length,
       claimIds: updatedClaimIds,
@@ -108,6 +142,9 @@ export async function processPatientAdmission(
 /**
  * Process patient discharge - auto-approve pending claims
  * 
+ * Only claims that qualify under the organization's settings are approved;
+ * tenants that require manual review keep them under_review.
+ * 
  * IDEMPOTENCY: Checks if job already processed via idempotency key
  */
 export async function processPatientDischarge(
@@ -151,11 +188,12 @@ export async function processPatientDischarge(
   }
 
   try {
-    // Find all under_review claims for this patient (pending finalization)
+    // Find all under_review claims for this patient (pending finalization).
+    // Submitted claims have not been reviewed yet and cannot skip straight to approved.
     const claims = await claimRepository.findByPatientIdInternal(
       patientId,
       organizationId,
-      ['under_review', 'submitted']
+      ['under_review']
     );
 
     logger.info('Found claims to finalize', {
@@ -163,10 +201,21 @@ export async function processPatientDischarge(
       claimCount: claims.length,
     });
 
+    const settings = await getOrganizationSettings(organizationId);
     const approvedClaimIds: string[] = [];
 
-    // Auto-approve each claim
+    // Auto-approve each qualifying claim
     for (const claim of claims) {
+      if (!qualifiesForDischargeApproval(claim.amount, settings)) {
+        logger.info('Claim left for manual review', {
+          claimId: claim.id,
+          amount: claim.amount,
+          requiresManualReview: settings.requiresManualReview,
+          autoApproveThreshold: settings.autoApproveThreshold,
+        });
+        continue;
+      }
+
       const updated = await claimRepository.updateStatusInternal(
         claim.id,
         organizationId,
@@ -279,6 +328,8 @@ export async function processTreatmentInitiated(
       }
     }
 
+    await routeReviewedClaims(organizationId, reviewedClaimIds);
+
     const result = {
       claimsReviewed: reviewedClaimIds.length,
       claimIds: reviewedClaimIds,
@@ -301,3 +352,300 @@ export async function processTreatmentInitiated(
     throw error;
   }
 }
+
+/**
+ * Reconcile claim assignments - rebuild processors' assignedClaimIds from
+ * claims.assignedTo and unassign claims held by inactive or non-processor users
+ * 
+ * IDEMPOTENCY: Checks if job already processed via idempotency key.
+ * Re-running is also harmless: a consistent tenant produces no changes.
+ */
+export async function processAssignmentReconciliation(
+  data: AssignmentReconciliationJobData
+): Promise<AssignmentReconciliationResult> {
+  const { organizationId, idempotencyKey } = data;
+
+  logger.info('Processing assignment reconciliation', {
+    organizationId,
+    idempotencyKey,
+  });
+
+  // Check idempotency
+  const existingLog = await jobProcessingLogRepository.findByIdempotencyKey(
+    idempotencyKey,
+    organizationId
+  );
+
+  if (existingLog?.status === 'completed') {
+    logger.info('Job already completed (idempotent skip)', {
+      idempotencyKey,
+      existingResult: existingLog.result,
+    });
+    return existingLog.result as AssignmentReconciliationResult;
+  }
+
+  // Create job log
+  let jobLog = existingLog;
+  if (!jobLog) {
+    jobLog = await jobProcessingLogRepository.create({
+      organizationId,
+      jobId: data.jobId,
+      jobType: 'assignment_reconciliation',
+      idempotencyKey,
+      status: 'processing',
+      payload: data as unknown as Record<string, unknown>,
+      startedAt: new Date(),
+      retryCount: 0,
+    });
+  }
+
+  try {
+    const result = await claimRepository.reconcileAssignmentsInternal(organizationId);
+
+    // Mark job as completed
+    await jobProcessingLogRepository.markCompleted(jobLog.id, result);
+
+    logger.info('Assignment reconciliation completed', {
+      organizationId,
+      usersRepaired: result.usersRepaired.length,
+      claimsUnassigned: result.claimsUnassigned.length,
+    });
+
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await jobProcessingLogRepository.markFailed(jobLog.id, errorMessage);
+    throw error;
+  }
+}
+
+export type ClaimAdjudicationResult = {
+  claimId: string;
+  // False when the claim was missing or no longer open
+  adjudicated: boolean;
+  trace?: AdjudicationTrace;
+};
+
+/**
+ * Adjudicate a claim - evaluate the organization's rules in priority order
+ * and apply the first approve, reject or pend decision. Assign rules that
+ * fire before it hand the claim to their processor. Claims no longer open
+ * are left alone. The trace of fired rules is stored on the claim.
+ *
+ * IDEMPOTENCY: Checks if job already processed via idempotency key
+ */
+export async function processClaimAdjudication(
+  data: ClaimAdjudicationJobData
+): Promise<ClaimAdjudicationResult> {
+  const { organizationId, claimId, idempotencyKey, triggeredBy } = data;
+
+  logger.info('Processing claim adjudication', {
+    claimId,
+    organizationId,
+    idempotencyKey,
+  });
+
+  // Check idempotency
+  const existingLog = await jobProcessingLogRepository.findByIdempotencyKey(
+    idempotencyKey,
+    organizationId
+  );
+
+  if (existingLog?.status === 'completed') {
+    logger.info('Job already completed (idempotent skip)', {
+      idempotencyKey,
+      existingResult: existingLog.result,
+    });
+    return existingLog.result as ClaimAdjudicationResult;
+  }
+
+  // Create job log
+  let jobLog = existingLog;
+  if (!jobLog) {
+    jobLog = await jobProcessingLogRepository.create({
+      organizationId,
+      jobId: data.jobId,
+      jobType: 'claim_adjudication',
+      idempotencyKey,
+      status: 'processing',
+      payload: data as unknown as Record<string, unknown>,
+      startedAt: new Date(),
+      retryCount: 0,
+    });
+  }
+
+  try {
+    const found = await claimRepository.findAdjudicationFactsInternal(claimId, organizationId);
+    let result: ClaimAdjudicationResult = { claimId, adjudicated: false };
+
+    if (found && OPEN_CLAIM_STATUSES.includes(found.claim.status)) {
+      const rules = await adjudicationRuleRepository.findActiveInternal(organizationId);
+      const { fired, decision, rulesEvaluated } = evaluateAdjudicationRules(rules, found.facts);
+      let status = found.claim.status;
+
+      // The highest-priority assign rule wins
+      const assignment = fired.find((rule) => rule.action === 'assign' && rule.assignTo);
+      if (assignment?.assignTo) {
+        try {
+          await claimRepository.assignToProcessorInternal(
+            claimId,
+            assignment.assignTo,
+            organizationId
+          );
+        } catch (error) {
+          if (!(error instanceof InvalidAssigneeError)) {
+            throw error;
+          }
+          logger.error('Adjudication rule assignee is not an active processor', {
+            claimId,
+            ruleId: assignment.ruleId,
+            assignTo: assignment.assignTo,
+          });
+        }
+      }
+
+      if (decision) {
+        const reason = `Adjudication rule: ${decision.name}`;
+
+        // Decisions are made in review
+        if (status === 'submitted') {
+          const reviewed = await claimRepository.updateStatusInternal(
+            claimId,
+            organizationId,
+            'under_review',
+            triggeredBy,
+            reason
+          );
+          status = reviewed?.status ?? status;
+        }
+
+        if (status === 'under_review' && decision.action !== 'pend') {
+          const decided = await claimRepository.updateStatusInternal(
+            claimId,
+            organizationId,
+            decision.action === 'approve' ? 'approved' : 'rejected',
+            triggeredBy,
+            decision.action === 'reject' ? decision.denialReason ?? reason : reason
+          );
+          status = decided?.status ?? status;
+        }
+
+        if (status === 'under_review') {
+          await routeReviewedClaims(organizationId, [claimId]);
+        }
+      }
+
+      const trace: AdjudicationTrace = {
+        jobId: data.jobId,
+        evaluatedAt: new Date().toISOString(),
+        rulesEvaluated,
+        fired,
+        decision: decision?.action as AdjudicationTrace['decision'],
+        resultingStatus: status,
+      };
+      await claimRepository.recordAdjudicationInternal(claimId, organizationId, trace);
+
+      result = { claimId, adjudicated: true, trace };
+    }
+
+    // Mark job as completed
+    await jobProcessingLogRepository.markCompleted(jobLog.id, result);
+
+    logger.info('Claim adjudication completed', {
+      claimId,
+      organizationId,
+      adjudicated: result.adjudicated,
+      decision: result.trace?.decision,
+      resultingStatus: result.trace?.resultingStatus,
+    });
+
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await jobProcessingLogRepository.markFailed(jobLog.id, errorMessage);
+    throw error;
+  }
+}
+
+export type ClaimRiskScoringResult = {
+  claimId: string;
+  // False when the claim was missing
+  scored: boolean;
+  assessment?: ClaimRiskAssessment;
+};
+
+/**
+ * Score a new claim for fraud, waste and abuse risk from the organization's
+ * claim history, and store the score and its reasons on the claim. The
+ * score only informs reviewers; it does not change the claim's status.
+ *
+ * IDEMPOTENCY: Checks if job already processed via idempotency key
+ */
+export async function processClaimRiskScoring(
+  data: ClaimRiskScoringJobData
+): Promise<ClaimRiskScoringResult> {
+  const { organizationId, claimId, idempotencyKey } = data;
+
+  logger.info('Processing claim risk scoring', {
+    claimId,
+    organizationId,
+    idempotencyKey,
+  });
+
+  // Check idempotency
+  const existingLog = await jobProcessingLogRepository.findByIdempotencyKey(
+    idempotencyKey,
+    organizationId
+  );
+
+  if (existingLog?.status === 'completed') {
+    logger.info('Job already completed (idempotent skip)', {
+      idempotencyKey,
+      existingResult: existingLog.result,
+    });
+    return existingLog.result as ClaimRiskScoringResult;
+  }
+
+  // Create job log
+  let jobLog = existingLog;
+  if (!jobLog) {
+    jobLog = await jobProcessingLogRepository.create({
+      organizationId,
+      jobId: data.jobId,
+      jobType: 'claim_risk_scoring',
+      idempotencyKey,
+      status: 'processing',
+      payload: data as unknown as Record<string, unknown>,
+      startedAt: new Date(),
+      retryCount: 0,
+    });
+  }
+
+  try {
+    const found = await claimRepository.findRiskFeaturesInternal(claimId, organizationId);
+    let result: ClaimRiskScoringResult = { claimId, scored: false };
+
+    if (found) {
+      const assessment = scoreClaimRisk(found.features);
+      await claimRepository.recordRiskScoreInternal(claimId, organizationId, assessment);
+      result = { claimId, scored: true, assessment };
+    }
+
+    // Mark job as completed
+    await jobProcessingLogRepository.markCompleted(jobLog.id, result);
+
+    logger.info('Claim risk scoring completed', {
+      claimId,
+      organizationId,
+      scored: result.scored,
+      riskScore: result.assessment?.score,
+      riskReasons: result.assessment?.reasons,
+    });
+
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await jobProcessingLogRepository.markFailed(jobLog.id, errorMessage);
+    throw error;
+  }
+}
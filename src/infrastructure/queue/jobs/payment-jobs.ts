@@ -0,0 +1,163 @@
+import {
+  jobProcessingLogRepository,
+  organizationRepository,
+  paymentRepository,
+  remittanceAdviceRepository,
+} from '../../database/repositories/index.js';
+import { buildEra835, type Era835Claim } from '../../x12/era-835.js';
+import { NON_COVERED_CHARGE_REASON } from '../../../domain/entities/index.js';
+import { ValidationError } from '../../../domain/errors/index.js';
+import type { RemittanceAdviceClaim } from '../../../domain/repositories/index.js';
+import type { RemittanceAdviceJobData } from '../../../shared/types/index.js';
+import { jobLogger as logger } from '../../../shared/utils/logger.js';
+
+export type RemittanceAdviceResult = {
+  batchId: string;
+  // False when the batch was missing or has been voided
+  generated: boolean;
+  remittanceAdviceId?: string;
+  controlNumber?: number;
+};
+
+/**
+ * Rejected lines were dropped from the billed amount before payment; the
+ * 835 reports them as billed and written off as non-covered (CO-96)
+ */
+function toEraClaim(claim: RemittanceAdviceClaim): Era835Claim {
+  const { remittance } = claim;
+  const rejectedCents = claim.rejectedLines.reduce(
+    (sum, line) => sum + Math.round(line.chargeAmount * 100),
+    0
+  );
+
+  return {
+    claimNumber: claim.claimNumber,
+    billedAmount: (Math.round(remittance.billedAmount * 100) + rejectedCents) / 100,
+    paidAmount: remittance.paidAmount,
+    patientResponsibility: remittance.patientResponsibility,
+    adjustments:
+      rejectedCents > 0
+        ? [
+            ...remittance.adjustments,
+            { groupCode: 'CO', reasonCode: NON_COVERED_CHARGE_REASON, amount: rejectedCents / 100 },
+          ]
+        : remittance.adjustments,
+    patient: claim.patient,
+    serviceDate: claim.serviceDate,
+  };
+}
+
+/**
+ * Generate the X12 835 remittance advice of a payment batch
+ *
+ * IDEMPOTENCY: Checks if job already processed via idempotency key
+ * Every run that gets past that check writes a new advice with a new
+ * interchange control number; downloads serve the latest.
+ */
+export async function processRemittanceAdvice(
+  data: RemittanceAdviceJobData
+): Promise<RemittanceAdviceResult> {
+  const { organizationId, batchId, idempotencyKey } = data;
+
+  logger.info('Processing remittance advice', {
+    batchId,
+    organizationId,
+    idempotencyKey,
+  });
+
+  // Check idempotency
+  const existingLog = await jobProcessingLogRepository.findByIdempotencyKey(
+    idempotencyKey,
+    organizationId
+  );
+
+  if (existingLog?.status === 'completed') {
+    logger.info('Job already completed (idempotent skip)', {
+      idempotencyKey,
+      existingResult: existingLog.result,
+    });
+    return existingLog.result as RemittanceAdviceResult;
+  }
+
+  // Create job log
+  let jobLog = existingLog;
+  if (!jobLog) {
+    jobLog = await jobProcessingLogRepository.create({
+      organizationId,
+      jobId: data.jobId,
+      jobType: 'remittance_advice',
+      idempotencyKey,
+      status: 'processing',
+      payload: data as unknown as Record<string, unknown>,
+      startedAt: new Date(),
+      retryCount: 0,
+    });
+  }
+
+  try {
+    const source = await paymentRepository.findRemittanceAdviceSourceInternal(
+      batchId,
+      organizationId
+    );
+    let result: RemittanceAdviceResult = { batchId, generated: false };
+
+    if (source && source.batch.status === 'issued') {
+      const organization = await organizationRepository.findById(organizationId);
+      const payerProfile = organization?.settings.payerProfile;
+      if (!organization || !payerProfile) {
+        throw new ValidationError(
+          'The organization has no payer profile; set settings.payerProfile to send 835 remittance advice',
+          { organizationId }
+        );
+      }
+
+      const { batch } = source;
+      const controlNumber = await remittanceAdviceRepository.nextControlNumberInternal();
+      const content = buildEra835({
+        controlNumber,
+        createdAt: new Date(),
+        payer: { name: organization.name, ...payerProfile },
+        payee: source.payee,
+        payment: {
+          method: batch.totalPaid > 0 ? batch.method : 'none',
+          reference: batch.reference,
+          paidAt: batch.paidAt,
+          totalPaid: batch.totalPaid,
+        },
+        claims: source.claims.map(toEraClaim),
+      });
+
+      const advice = await remittanceAdviceRepository.createInternal({
+        organizationId,
+        batchId,
+        providerId: batch.providerId,
+        controlNumber,
+        content,
+        jobId: data.jobId,
+      });
+
+      result = {
+        batchId,
+        generated: true,
+        remittanceAdviceId: advice.id,
+        controlNumber,
+      };
+    }
+
+    // Mark job as completed
+    await jobProcessingLogRepository.markCompleted(jobLog.id, result);
+
+    logger.info('Remittance advice completed', {
+      batchId,
+      organizationId,
+      generated: result.generated,
+      controlNumber: result.controlNumber,
+    });
+
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await jobProcessingLogRepository.markFailed(jobLog.id, errorMessage);
+    throw error;
+  }
+}
@@ -5,12 +5,24 @@ import {
   processPatientAdmission,
   processPatientDischarge,
   processTreatmentInitiated,
+  processAssignmentReconciliation,
+  processClaimAdjudication,
+  processClaimRiskScoring,
 } from './jobs/claim-jobs.js';
+import { processRemittanceAdvice } from './jobs/payment-jobs.js';
+import { processClaimIntake } from './jobs/claim-intake-jobs.js';
+import { processClaimExport } from './jobs/claim-export-jobs.js';
 import type {
   ClaimJobData,
   PatientAdmissionJobData,
   PatientDischargeJobData,
   TreatmentInitiatedJobData,
+  AssignmentReconciliationJobData,
+  ClaimAdjudicationJobData,
+  RemittanceAdviceJobData,
+  ClaimIntakeJobData,
+  ClaimExportJobData,
+  ClaimRiskScoringJobData,
 } from '../../shared/types/index.js';
 import { jobLogger as logger } from '../../shared/utils/logger.js';
 
@@ -41,6 +53,30 @@ async function processJob(job: Job<ClaimJobData>): Promise<unknown> {
         result = await processTreatmentInitiated(data as TreatmentInitiatedJobData);
         break;
 
+      case 'assignment_reconciliation':
+        result = await processAssignmentReconciliation(data as AssignmentReconciliationJobData);
+        break;
+
+      case 'claim_adjudication':
+        result = await processClaimAdjudication(data as ClaimAdjudicationJobData);
+        break;
+
+      case 'remittance_advice':
+        result = await processRemittanceAdvice(data as RemittanceAdviceJobData);
+        break;
+
+      case 'claim_intake':
+        result = await processClaimIntake(data as ClaimIntakeJobData);
+        break;
+
+      case 'claim_export':
+        result = await processClaimExport(data as ClaimExportJobData);
+        break;
+
+      case 'claim_risk_scoring':
+        result = await processClaimRiskScoring(data as ClaimRiskScoringJobData);
+        break;
+
       default:
         throw new Error(`Unknown job type: ${(data as ClaimJobData).type}`);
     }
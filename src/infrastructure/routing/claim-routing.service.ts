@@ -0,0 +1,217 @@
+import {
+  claimRepository,
+  userRepository,
+} from '../database/repositories/index.js';
+import { getOrganizationSettings } from '../cache/organization-settings.cache.js';
+import {
+  matchesProcessorSkills,
+  selectProcessor,
+  type RoutableClaim,
+  type RoutingCandidate,
+} from '../../domain/entities/index.js';
+import { InvalidAssigneeError } from '../../domain/errors/index.js';
+import type { ClaimRoutingStrategy } from '../../shared/types/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+export interface RoutingAssignment {
+  claimId: string;
+  processorId: string;
+  // Set when the claim was moved off another processor
+  previousProcessorId?: string;
+}
+
+export interface RebalanceResult {
+  // Open claims that had no (active) processor
+  assigned: RoutingAssignment[];
+  // Submitted claims moved from overloaded processors
+  moved: RoutingAssignment[];
+}
+
+/**
+ * Picks processors for open claims according to the organization's
+ * routingStrategy setting. Lives in infrastructure so background jobs can
+ * route without going through the application layer.
+ */
+export class ClaimRoutingService {
+  /**
+   * Route the given claims if they are open and unassigned.
+   * Claims in organizations using manual routing are left alone.
+   */
+  async routeClaims(
+    organizationId: string,
+    claimIds: string[]
+  ): Promise<RoutingAssignment[]> {
+    const { routingStrategy = 'manual' } = await getOrganizationSettings(organizationId);
+    if (routingStrategy === 'manual' || claimIds.length === 0) {
+      return [];
+    }
+
+    const claims = await claimRepository.findRoutableInternal(organizationId, claimIds);
+    const unassigned = claims.filter((claim) => !claim.assignedTo);
+    if (unassigned.length === 0) {
+      return [];
+    }
+
+    const candidates = await userRepository.findRoutingCandidates(organizationId);
+    return await this.assignAll(organizationId, routingStrategy, unassigned, candidates);
+  }
+
+  /**
+   * Assign every open claim without an active processor, then even out load by
+   * moving submitted claims from the busiest to the least busy processor until
+   * open counts differ by at most one. Claims already under review stay put.
+   * Manual-routing organizations are balanced by open-claim count.
+   */
+  async rebalance(organizationId: string): Promise<RebalanceResult> {
+    const settings = await getOrganizationSettings(organizationId);
+    const strategy: ClaimRoutingStrategy =
+      !settings.routingStrategy || settings.routingStrategy === 'manual'
+        ? 'least_open'
+        : settings.routingStrategy;
+
+    const candidates = await userRepository.findRoutingCandidates(organizationId);
+    if (candidates.length === 0) {
+      return { assigned: [], moved: [] };
+    }
+
+    const claims = await claimRepository.findRoutableInternal(organizationId);
+    const processorIds = new Set(candidates.map((c) => c.processorId));
+    const orphaned = claims.filter(
+      (claim) => !claim.assignedTo || !processorIds.has(claim.assignedTo)
+    );
+
+    const assigned = await this.assignAll(organizationId, strategy, orphaned, candidates);
+    const moved = await this.levelLoad(organizationId, strategy, claims, candidates);
+
+    logger.info('Claim assignments rebalanced', {
+      organizationId,
+      strategy,
+      assigned: assigned.length,
+      moved: moved.length,
+    });
+
+    return { assigned, moved };
+  }
+
+  /**
+   * Route claims one at a time, updating the in-memory candidate load after
+   * each pick so a batch spreads out instead of piling onto one processor
+   */
+  private async assignAll(
+    organizationId: string,
+    strategy: ClaimRoutingStrategy,
+    claims: RoutableClaim[],
+    candidates: RoutingCandidate[]
+  ): Promise<RoutingAssignment[]> {
+    const assignments: RoutingAssignment[] = [];
+
+    for (const claim of claims) {
+      const chosen = selectProcessor(strategy, candidates, claim);
+      if (!chosen) {
+        break;
+      }
+
+      const assignment = await this.assign(organizationId, claim, chosen, candidates);
+      if (assignment) {
+        assignments.push(assignment);
+      }
+    }
+
+    return assignments;
+  }
+
+  private async levelLoad(
+    organizationId: string,
+    strategy: ClaimRoutingStrategy,
+    claims: RoutableClaim[],
+    candidates: RoutingCandidate[]
+  ): Promise<RoutingAssignment[]> {
+    const moved: RoutingAssignment[] = [];
+
+    // Each claim moves at most once, which also bounds the loop
+    for (let i = 0; i < claims.length; i++) {
+      if (candidates.length < 2) {
+        break;
+      }
+
+      const byLoad = [...candidates].sort((a, b) => a.openClaimCount - b.openClaimCount);
+      const least = byLoad[0];
+      const most = byLoad[byLoad.length - 1];
+      if (most.openClaimCount - least.openClaimCount <= 1) {
+        break;
+      }
+
+      // Under skill-based routing, don't take a claim away from a matching
+      // processor and hand it to one without the skill
+      const claim = claims.find(
+        (c) =>
+          c.assignedTo === most.processorId &&
+          c.status === 'submitted' &&
+          (strategy !== 'skill_based' ||
+            matchesProcessorSkills(least.skills, c) ||
+            !matchesProcessorSkills(most.skills, c))
+      );
+      if (!claim) {
+        break;
+      }
+
+      const assignment = await this.assign(organizationId, claim, least, candidates);
+      if (!assignment) {
+        continue;
+      }
+
+      most.openClaimCount--;
+      moved.push(assignment);
+    }
+
+    return moved;
+  }
+
+  /**
+   * Assign one claim and update the in-memory state. A processor deactivated
+   * since candidates were loaded is dropped from the pool.
+   */
+  private async assign(
+    organizationId: string,
+    claim: RoutableClaim,
+    candidate: RoutingCandidate,
+    candidates: RoutingCandidate[]
+  ): Promise<RoutingAssignment | null> {
+    try {
+      const updated = await claimRepository.assignToProcessorInternal(
+        claim.id,
+        candidate.processorId,
+        organizationId
+      );
+      if (!updated) {
+        return null;
+      }
+    } catch (error) {
+      if (error instanceof InvalidAssigneeError) {
+        logger.warn('Routing candidate no longer assignable', {
+          organizationId,
+          processorId: candidate.processorId,
+        });
+        candidates.splice(candidates.indexOf(candidate), 1);
+        return null;
+      }
+      throw error;
+    }
+
+    const previousProcessorId = claim.assignedTo;
+    candidate.openClaimCount++;
+    candidate.lastAssignedAt = new Date();
+    claim.assignedTo = candidate.processorId;
+
+    logger.info('Claim routed to processor', {
+      claimId: claim.id,
+      processorId: candidate.processorId,
+      previousProcessorId,
+      organizationId,
+    });
+
+    return { claimId: claim.id, processorId: candidate.processorId, previousProcessorId };
+  }
+}
+
+export const claimRoutingService = new ClaimRoutingService();
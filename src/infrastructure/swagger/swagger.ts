@@ -94,7 +94,7 @@ Authorization: Bearer <your-jwt-token>
                     email: { type: 'string' },
                     firstName: { type: 'string' },
                     lastName: { type: 'string' },
-                    role: { type: 'string', enum: ['admin', 'claims_processor', 'provider', 'patient'] },
+                    role: { type: 'string', enum: ['super_admin', 'admin', 'claims_processor', 'provider', 'patient'] },
                   },
                 },
               },
@@ -112,11 +112,12 @@ Authorization: Bearer <your-jwt-token>
             patientId: { type: 'string', format: 'uuid' },
             providerId: { type: 'string', format: 'uuid' },
             diagnosisCode: { type: 'string', example: 'J06.9' },
-            procedureCode: { type: 'string', example: '99213' },
-            amount: { type: 'number', example: 250.00 },
+            additionalDiagnosisCodes: { type: 'array', items: { type: 'string' } },
+            procedureCode: { type: 'string', example: '99213', description: 'First line procedure code' },
+            amount: { type: 'number', example: 250.00, description: 'Total charge of lines not rejected' },
             status: { 
               type: 'string', 
-              enum: ['submitted', 'under_review', 'approved', 'rejected', 'paid'],
+              enum: ['submitted', 'under_review', 'approved', 'rejected', 'appealed', 'paid'],
               example: 'submitted'
             },
             serviceDate: { type: 'string', format: 'date' },
@@ -139,13 +140,70 @@ Authorization: Bearer <your-jwt-token>
                 },
               },
             },
+            adjudicationTrace: { $ref: '#/components/schemas/AdjudicationTrace' },
+            billedAmount: { type: 'number', example: 250.00, description: 'Set on entering review' },
+            allowedAmount: {
+              type: 'number',
+              example: 200.00,
+              description: 'Priced against the fee schedule on entering review; recomputed over the approved lines on approval',
+            },
+            flags: {
+              type: 'array',
+              items: { type: 'string', enum: ['excessive_charge', 'suspected_duplicate'] },
+              description: 'excessive_charge: a line is billed above the organization\'s multiple of its fee schedule amount; suspected_duplicate: close to an earlier claim of the patient',
+            },
+            duplicateOfClaimId: { type: 'string', format: 'uuid', description: 'Closest earlier claim of a suspected duplicate' },
+            duplicateScore: { type: 'number', minimum: 0, maximum: 1, example: 0.85 },
+            riskScore: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+              example: 0.3,
+              description: 'Fraud, waste and abuse risk; absent until scored',
+            },
+            riskReasons: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/RiskReason' },
+            },
+            riskScoredAt: { type: 'string', format: 'date-time' },
+            planPaidAmount: { type: 'number', example: 140.00, description: 'Set on approval' },
+            patientResponsibility: { $ref: '#/components/schemas/PatientResponsibility' },
+            benefitAccumulatorId: { type: 'string', format: 'uuid' },
+            lines: {
+              type: 'array',
+              description: 'Included on claim detail',
+              items: { $ref: '#/components/schemas/ClaimLine' },
+            },
+            appeals: {
+              type: 'array',
+              description: 'Included on claim detail',
+              items: { $ref: '#/components/schemas/Appeal' },
+            },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
           },
         },
+        ClaimLine: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            lineNumber: { type: 'integer', example: 1 },
+            procedureCode: { type: 'string', example: '99213' },
+            modifiers: { type: 'array', items: { type: 'string', example: '25' } },
+            units: { type: 'integer', example: 1 },
+            unitCharge: { type: 'number', example: 125.00 },
+            chargeAmount: { type: 'number', example: 125.00 },
+            serviceDate: { type: 'string', format: 'date' },
+            diagnosisPointers: { type: 'array', items: { type: 'integer' }, example: [1] },
+            scheduledAmount: { type: 'number', example: 95.00, description: 'Fee schedule amount for the units; absent when unscheduled' },
+            allowedAmount: { type: 'number', example: 95.00, description: 'Lesser of the charge and the scheduled amount' },
+            status: { type: 'string', enum: ['pending', 'approved', 'rejected'] },
+            denialReason: { type: 'string' },
+          },
+        },
         CreateClaimRequest: {
           type: 'object',
-          required: ['patientId', 'providerId', 'diagnosisCode', 'amount', 'serviceDate'],
+          required: ['patientId', 'providerId', 'diagnosisCode', 'serviceDate', 'lines'],
           properties: {
             patientId: { type: 'string', format: 'uuid' },
             providerId: { type: 'string', format: 'uuid' },
@@ -154,17 +212,103 @@ Authorization: Bearer <your-jwt-token>
               description: 'Valid ICD-10 code',
               example: 'J06.9' 
             },
-            procedureCode: { type: 'string', example: '99213' },
-            amount: { 
-              type: 'number', 
-              minimum: 0.01, 
-              maximum: 1000000,
-              example: 250.00 
+            additionalDiagnosisCodes: {
+              type: 'array',
+              maxItems: 11,
+              items: { type: 'string', example: 'I10' },
             },
             serviceDate: { type: 'string', format: 'date', example: '2025-01-15' },
+            lines: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 50,
+              items: {
+                type: 'object',
+                required: ['procedureCode', 'units', 'unitCharge', 'diagnosisPointers'],
+                properties: {
+                  procedureCode: { type: 'string', description: 'CPT or HCPCS code', example: '99213' },
+                  modifiers: { type: 'array', maxItems: 4, items: { type: 'string', example: '25' } },
+                  units: { type: 'integer', minimum: 1, example: 1 },
+                  unitCharge: { type: 'number', minimum: 0.01, example: 125.00 },
+                  serviceDate: { type: 'string', format: 'date', description: 'Defaults to the claim service date' },
+                  diagnosisPointers: {
+                    type: 'array',
+                    minItems: 1,
+                    maxItems: 4,
+                    description: '1-based positions in [diagnosisCode, ...additionalDiagnosisCodes]',
+                    items: { type: 'integer' },
+                    example: [1],
+                  },
+                },
+              },
+            },
             notes: { type: 'string', maxLength: 1000 },
           },
         },
+        DecideClaimLineRequest: {
+          type: 'object',
+          required: ['status'],
+          properties: {
+            status: { type: 'string', enum: ['approved', 'rejected'] },
+            reason: { type: 'string', maxLength: 500 },
+          },
+        },
+        Appeal: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            claimId: { type: 'string', format: 'uuid' },
+            filedBy: { type: 'string', format: 'uuid' },
+            reason: { type: 'string' },
+            status: { type: 'string', enum: ['pending', 'upheld', 'overturned'] },
+            originalReviewerId: { type: 'string', format: 'uuid', description: 'Who rejected the claim; may not decide the appeal' },
+            deadlineAt: { type: 'string', format: 'date-time' },
+            decidedBy: { type: 'string', format: 'uuid' },
+            decisionReason: { type: 'string' },
+            decidedAt: { type: 'string', format: 'date-time' },
+            attachments: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', format: 'uuid' },
+                  fileName: { type: 'string', example: 'operative-note.pdf' },
+                  contentType: { type: 'string', example: 'application/pdf' },
+                  size: { type: 'integer', example: 48213 },
+                },
+              },
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        CreateAppealRequest: {
+          type: 'object',
+          required: ['reason'],
+          properties: {
+            reason: { type: 'string', maxLength: 2000 },
+            attachments: {
+              type: 'array',
+              maxItems: 5,
+              items: {
+                type: 'object',
+                required: ['fileName', 'contentType', 'content'],
+                properties: {
+                  fileName: { type: 'string', maxLength: 255 },
+                  contentType: { type: 'string', example: 'application/pdf' },
+                  content: { type: 'string', format: 'byte', description: 'Base64, at most 2 MB decoded' },
+                },
+              },
+            },
+          },
+        },
+        DecideAppealRequest: {
+          type: 'object',
+          required: ['outcome', 'reason'],
+          properties: {
+            outcome: { type: 'string', enum: ['upheld', 'overturned'] },
+            reason: { type: 'string', maxLength: 500 },
+          },
+        },
         UpdateClaimStatusRequest: {
           type: 'object',
           required: ['status'],
@@ -194,6 +338,140 @@ Authorization: Bearer <your-jwt-token>
           },
         },
 
+        // Plan and eligibility schemas
+        Plan: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            organizationId: { type: 'string', format: 'uuid' },
+            code: { type: 'string', example: 'PPO-GOLD' },
+            name: { type: 'string', example: 'PPO Gold' },
+            annualBenefitMax: { type: 'number', example: 50000.00, description: 'Unlimited when absent' },
+            planYearStartMonth: { type: 'integer', minimum: 1, maximum: 12, example: 1 },
+            deductible: { type: 'number', example: 500.00, description: 'No deductible when absent' },
+            coinsurancePercent: { type: 'integer', minimum: 0, maximum: 100, example: 20 },
+            outOfPocketMax: { type: 'number', example: 3000.00, description: 'Unlimited when absent' },
+            copays: {
+              type: 'object',
+              description: 'Copay per service category, charged once per claim instead of deductible and coinsurance',
+              additionalProperties: { type: 'number' },
+              example: { office_visit: 25, emergency: 150 },
+            },
+            isActive: { type: 'boolean' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        Coverage: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            patientId: { type: 'string', format: 'uuid' },
+            planId: { type: 'string', format: 'uuid' },
+            effectiveDate: { type: 'string', format: 'date' },
+            terminationDate: { type: 'string', format: 'date', description: 'Last covered day; open-ended when absent' },
+            plan: { $ref: '#/components/schemas/Plan' },
+          },
+        },
+        PatientResponsibility: {
+          type: 'object',
+          properties: {
+            deductible: { type: 'number', example: 40.00 },
+            copay: { type: 'number', example: 0 },
+            coinsurance: { type: 'number', example: 20.00 },
+            overBenefitMax: { type: 'number', example: 0, description: 'What the plan would have paid past its annual maximum' },
+            total: { type: 'number', example: 60.00 },
+          },
+        },
+        BenefitAccumulator: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            patientId: { type: 'string', format: 'uuid' },
+            planId: { type: 'string', format: 'uuid' },
+            planYearStart: { type: 'string', format: 'date' },
+            deductibleMet: { type: 'number', example: 500.00 },
+            outOfPocketMet: { type: 'number', example: 820.00 },
+            planPaid: { type: 'number', example: 4310.00 },
+          },
+        },
+        FeeScheduleEntry: {
+          type: 'object',
+          description: 'Applies to a provider, else a specialty, else the whole organization',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            organizationId: { type: 'string', format: 'uuid' },
+            procedureCode: { type: 'string', example: '99213' },
+            providerId: { type: 'string', format: 'uuid' },
+            specialty: { type: 'string', example: 'Cardiology' },
+            amount: { type: 'number', example: 95.00, description: 'Per unit' },
+            effectiveDate: { type: 'string', format: 'date' },
+            terminationDate: { type: 'string', format: 'date', description: 'Last day the amount applies' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        RiskReason: {
+          type: 'string',
+          enum: [
+            'provider_volume_spike',
+            'amount_outlier',
+            'weekend_service',
+            'holiday_service',
+            'patient_many_providers',
+            'upcoding',
+          ],
+        },
+        ProviderRiskSummary: {
+          type: 'object',
+          properties: {
+            providerId: { type: 'string', format: 'uuid' },
+            providerName: { type: 'string', example: 'Dr. Jane Smith' },
+            npi: { type: 'string', example: '1234567893' },
+            scoredClaimCount: { type: 'integer', example: 120 },
+            highRiskClaimCount: { type: 'integer', example: 14 },
+            averageRiskScore: { type: 'number', example: 0.21 },
+            maxRiskScore: { type: 'number', example: 0.7 },
+            highRiskAmount: { type: 'number', example: 8450.00, description: 'Billed on high-risk claims' },
+            reasonCounts: {
+              type: 'object',
+              description: 'Claims given each reason',
+              additionalProperties: { type: 'integer' },
+              example: { upcoding: 12, weekend_service: 3 },
+            },
+          },
+        },
+        EligibilityResult: {
+          type: 'object',
+          properties: {
+            memberId: { type: 'string', example: 'MBR-000123' },
+            patientId: { type: 'string', format: 'uuid' },
+            serviceDate: { type: 'string', format: 'date-time' },
+            status: { type: 'string', enum: ['active', 'inactive'] },
+            coverage: { $ref: '#/components/schemas/Coverage' },
+            plan: { $ref: '#/components/schemas/Plan' },
+            benefits: {
+              type: 'object',
+              properties: {
+                planYear: {
+                  type: 'object',
+                  properties: {
+                    start: { type: 'string', format: 'date-time' },
+                    end: { type: 'string', format: 'date-time', description: 'First day of the next plan year' },
+                  },
+                },
+                deductible: { type: 'number' },
+                deductibleMet: { type: 'number' },
+                outOfPocketMax: { type: 'number' },
+                outOfPocketMet: { type: 'number' },
+                annualBenefitMax: { type: 'number' },
+                used: { type: 'number', description: 'Paid by the plan on claims approved in the plan year' },
+                remaining: { type: 'number', description: 'Absent when the plan has no annual maximum' },
+              },
+            },
+          },
+        },
+
         // Patient Status schemas
         PatientStatusEvent: {
           type: 'object',
@@ -232,6 +510,183 @@ Authorization: Bearer <your-jwt-token>
           },
         },
 
+        // Code set schemas
+        DiagnosisCode: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            code: { type: 'string', example: 'J06.9' },
+            shortDescription: { type: 'string', example: 'Acute upper respiratory infection, unspecified' },
+            description: { type: 'string', example: 'Acute upper respiratory infection, unspecified' },
+            isBillable: { type: 'boolean', example: true },
+            effectiveDate: { type: 'string', format: 'date' },
+            terminationDate: { type: 'string', format: 'date', nullable: true },
+          },
+        },
+
+        CodePairingRule: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            organizationId: { type: 'string', format: 'uuid' },
+            procedureCode: { type: 'string', example: '71046' },
+            diagnosisCodePrefix: { type: 'string', example: 'J' },
+            effect: { type: 'string', enum: ['allow', 'deny'] },
+            reason: { type: 'string' },
+            isActive: { type: 'boolean' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        CreateCodePairingRuleRequest: {
+          type: 'object',
+          required: ['procedureCode', 'diagnosisCodePrefix', 'effect'],
+          properties: {
+            procedureCode: { type: 'string', example: '71046' },
+            diagnosisCodePrefix: { type: 'string', example: 'J18' },
+            effect: { type: 'string', enum: ['allow', 'deny'] },
+            reason: { type: 'string', maxLength: 500 },
+          },
+        },
+
+        // Adjudication schemas
+        AdjudicationRule: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            organizationId: { type: 'string', format: 'uuid' },
+            name: { type: 'string', example: 'Approve low-cost office visits' },
+            priority: { type: 'integer', example: 40, description: 'Lower runs first; unique per organization' },
+            condition: {
+              type: 'object',
+              description: 'Predicate { field, op, value } or { all: [...] } / { any: [...] } / { not: {...} }',
+              example: {
+                all: [
+                  { field: 'amount', op: 'lte', value: 250 },
+                  { field: 'procedureCodes', op: 'in', value: ['99212', '99213'] },
+                ],
+              },
+            },
+            action: { type: 'string', enum: ['approve', 'reject', 'pend', 'assign'] },
+            denialReason: { type: 'string', description: 'Reject rules only' },
+            assignTo: { type: 'string', format: 'uuid', description: 'Assign rules only' },
+            isActive: { type: 'boolean' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        CreateAdjudicationRuleRequest: {
+          type: 'object',
+          required: ['name', 'priority', 'condition', 'action'],
+          properties: {
+            name: { type: 'string', maxLength: 100 },
+            priority: { type: 'integer', minimum: 1, maximum: 10000 },
+            condition: { type: 'object' },
+            action: { type: 'string', enum: ['approve', 'reject', 'pend', 'assign'] },
+            denialReason: { type: 'string', maxLength: 500, description: 'Required to reject' },
+            assignTo: { type: 'string', format: 'uuid', description: 'Required to assign; an active claims processor' },
+          },
+        },
+        AdjudicationTrace: {
+          type: 'object',
+          description: 'Result of the latest adjudication run',
+          properties: {
+            jobId: { type: 'string', format: 'uuid' },
+            evaluatedAt: { type: 'string', format: 'date-time' },
+            rulesEvaluated: { type: 'integer' },
+            fired: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  ruleId: { type: 'string', format: 'uuid' },
+                  name: { type: 'string' },
+                  priority: { type: 'integer' },
+                  action: { type: 'string', enum: ['approve', 'reject', 'pend', 'assign'] },
+                  denialReason: { type: 'string' },
+                  assignTo: { type: 'string', format: 'uuid' },
+                },
+              },
+            },
+            decision: { type: 'string', enum: ['approve', 'reject', 'pend'] },
+            resultingStatus: { type: 'string' },
+          },
+        },
+
+        // Payment schemas
+        ClaimAdjustment: {
+          type: 'object',
+          properties: {
+            groupCode: { type: 'string', enum: ['CO', 'PR', 'OA', 'PI'] },
+            reasonCode: { type: 'string', example: '45' },
+            amount: { type: 'number', example: 15.00 },
+          },
+        },
+        Remittance: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            batchId: { type: 'string', format: 'uuid' },
+            claimId: { type: 'string', format: 'uuid' },
+            providerId: { type: 'string', format: 'uuid' },
+            billedAmount: { type: 'number', example: 175.00 },
+            allowedAmount: { type: 'number', example: 160.00 },
+            paidAmount: { type: 'number', example: 140.00 },
+            patientResponsibility: { type: 'number', example: 20.00 },
+            adjustments: { type: 'array', items: { $ref: '#/components/schemas/ClaimAdjustment' } },
+            voidedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        PaymentBatch: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            organizationId: { type: 'string', format: 'uuid' },
+            batchNumber: { type: 'string', example: 'PAY-HF-001' },
+            providerId: { type: 'string', format: 'uuid' },
+            method: { type: 'string', enum: ['check', 'eft'] },
+            reference: { type: 'string', description: 'Check number or EFT trace number' },
+            status: { type: 'string', enum: ['issued', 'voided'] },
+            totalPaid: { type: 'number', example: 140.00 },
+            claimCount: { type: 'integer', example: 1 },
+            paidAt: { type: 'string', format: 'date-time' },
+            issuedBy: { type: 'string', format: 'uuid' },
+            voidedAt: { type: 'string', format: 'date-time' },
+            voidedBy: { type: 'string', format: 'uuid' },
+            voidReason: { type: 'string' },
+            remittances: {
+              type: 'array',
+              description: 'Included on batch detail',
+              items: { $ref: '#/components/schemas/Remittance' },
+            },
+          },
+        },
+        CreatePaymentBatchRequest: {
+          type: 'object',
+          required: ['providerId', 'method', 'reference'],
+          properties: {
+            providerId: { type: 'string', format: 'uuid' },
+            method: { type: 'string', enum: ['check', 'eft'] },
+            reference: { type: 'string', maxLength: 50 },
+            paidAt: { type: 'string', format: 'date-time' },
+            claims: {
+              type: 'array',
+              description: 'Omit to pay every approved claim of the provider in full',
+              maxItems: 500,
+              items: {
+                type: 'object',
+                required: ['claimId'],
+                properties: {
+                  claimId: { type: 'string', format: 'uuid' },
+                  allowedAmount: { type: 'number', description: 'Defaults to the billed amount' },
+                  paidAmount: { type: 'number', description: 'Defaults to the allowed amount' },
+                  adjustments: { type: 'array', items: { $ref: '#/components/schemas/ClaimAdjustment' } },
+                },
+              },
+            },
+          },
+        },
+
         // Pagination
         PaginatedClaims: {
           type: 'object',
@@ -0,0 +1,84 @@
+import {
+  buildX12Interchange,
+  type X12Interchange,
+  type X12Segment,
+} from './x12.js';
+
+/**
+ * X12 999 Implementation Acknowledgment (005010X231A1): tells the sender
+ * which transaction sets of a functional group were accepted. It reports
+ * syntax and implementation guide problems only; whether each claim was
+ * taken into the pipeline is reported separately.
+ */
+export const ACK_999_VERSION = '005010X231A1';
+
+// One IK3 entry: a segment in error
+export interface X12SegmentError {
+  segmentId: string;
+  position: number; // Within the transaction set, ST = 1
+  // IK304: '2' unexpected segment, '3' required segment missing, '8' segment has data element errors
+  code: '2' | '3' | '8';
+  message: string;
+}
+
+export interface TransactionAcknowledgment {
+  transactionId: string; // ST01
+  controlNumber: string; // ST02
+  implementationReference?: string; // ST03
+  // IK502 when the set is rejected: '1' not supported, '2'-'4' envelope errors, '5' segments in error
+  rejectionCode?: string;
+  errors: X12SegmentError[];
+}
+
+/**
+ * Acknowledge every transaction set of a received interchange. The 999
+ * goes back to the sender, so the interchange IDs are swapped.
+ */
+export function build999(
+  received: X12Interchange,
+  acknowledgments: TransactionAcknowledgment[],
+  controlNumber: number,
+  createdAt: Date
+): string {
+  const accepted = acknowledgments.filter((ack) => !ack.rejectionCode).length;
+  const groupStatus =
+    accepted === acknowledgments.length ? 'A' : accepted === 0 ? 'R' : 'P';
+
+  const body: X12Segment[] = [
+    ['AK1', received.functionalIdCode, received.groupControlNumber, received.version],
+    ...acknowledgments.flatMap((ack): X12Segment[] => [
+      ['AK2', ack.transactionId, ack.controlNumber, ack.implementationReference ?? ''],
+      ...ack.errors.map((error): X12Segment => [
+        'IK3',
+        error.segmentId,
+        String(error.position),
+        '',
+        error.code,
+      ]),
+      ack.rejectionCode ? ['IK5', 'R', ack.rejectionCode] : ['IK5', 'A'],
+    ]),
+    [
+      'AK9',
+      groupStatus,
+      String(acknowledgments.length),
+      String(acknowledgments.length),
+      String(accepted),
+    ],
+  ];
+
+  return buildX12Interchange(
+    {
+      senderQualifier: received.receiverQualifier,
+      senderId: received.receiverId,
+      receiverQualifier: received.senderQualifier,
+      receiverId: received.senderId,
+      functionalIdCode: 'FA',
+      version: ACK_999_VERSION,
+      implementationReference: ACK_999_VERSION,
+      controlNumber,
+      createdAt,
+    },
+    '999',
+    body
+  );
+}
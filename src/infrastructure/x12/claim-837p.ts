@@ -0,0 +1,293 @@
+import {
+  parseX12Amount,
+  parseX12Date,
+  parseX12Interchange,
+  type X12Interchange,
+  type X12Segment,
+  type X12Transaction,
+} from './x12.js';
+import type { TransactionAcknowledgment, X12SegmentError } from './ack-999.js';
+
+/**
+ * X12 837P Health Care Claim: Professional (005010X222A1).
+ *
+ * Only what the claims pipeline uses is read: the billing provider NPI
+ * (2010AA), the subscriber's member ID (2010BA), and per claim the CLM
+ * (2300), its HI diagnoses and DTP*472 service date, and the SV1 service
+ * lines (2400) with their own DTP*472. Other segments are skipped.
+ */
+export const CLAIM_837P_VERSION = '005010X222A1';
+
+export interface Claim837PLine {
+  lineNumber: number; // LX01
+  procedureCode: string;
+  modifiers: string[];
+  chargeAmount: number;
+  units: number;
+  diagnosisPointers: number[];
+  serviceDate?: Date;
+}
+
+export interface Claim837P {
+  patientControlNumber: string; // CLM01, the provider's own claim ID
+  totalCharge: number; // CLM02
+  billingProviderNpi: string;
+  subscriberMemberId: string;
+  // The patient is a dependent (2000C loop) rather than the subscriber
+  dependentPatient: boolean;
+  diagnosisCodes: string[]; // Principal first, as sent (no decimal point)
+  serviceDate?: Date; // Claim-level DTP*472
+  lines: Claim837PLine[];
+}
+
+export interface Transaction837P extends TransactionAcknowledgment {
+  // Empty when the transaction set is rejected
+  claims: Claim837P[];
+}
+
+export interface Interchange837P {
+  interchange: X12Interchange;
+  transactions: Transaction837P[];
+}
+
+// HI qualifiers: ICD-10-CM principal and other diagnoses
+const PRINCIPAL_DIAGNOSIS = 'ABK';
+const OTHER_DIAGNOSIS = 'ABF';
+
+// D8 is a single date; RD8 a CCYYMMDD-CCYYMMDD range, of which the start counts
+function parseServiceDate(segment: X12Segment): Date {
+  if (segment[2] === 'D8') {
+    return parseX12Date(segment[3] ?? '');
+  }
+  if (segment[2] === 'RD8') {
+    return parseX12Date((segment[3] ?? '').split('-')[0]);
+  }
+  throw new Error(`DTP: unsupported date format '${segment[2] ?? ''}'`);
+}
+
+function parseTransaction(transaction: X12Transaction, component: string): Transaction837P {
+  const acknowledgment = {
+    transactionId: transaction.id,
+    controlNumber: transaction.controlNumber,
+    implementationReference: transaction.implementationReference,
+  };
+
+  if (transaction.syntaxError) {
+    return {
+      ...acknowledgment,
+      rejectionCode: transaction.syntaxError.code,
+      errors: [],
+      claims: [],
+    };
+  }
+  if (transaction.id !== '837' || transaction.implementationReference !== CLAIM_837P_VERSION) {
+    return { ...acknowledgment, rejectionCode: '1', errors: [], claims: [] };
+  }
+
+  const errors: X12SegmentError[] = [];
+  const claims: Claim837P[] = [];
+  const claimPositions = new Map<Claim837P, number>();
+
+  let billingProviderNpi: string | undefined;
+  let subscriberMemberId: string | undefined;
+  let dependentPatient = false;
+  let claim: Claim837P | null = null;
+  let line: Claim837PLine | null = null;
+  let lineNumber = 0;
+
+  if (transaction.segments[0]?.[0] !== 'BHT') {
+    errors.push({ segmentId: 'BHT', position: 2, code: '3', message: 'BHT is required' });
+  }
+
+  for (const [index, segment] of transaction.segments.entries()) {
+    const position = index + 2;
+    const fail = (code: X12SegmentError['code'], message: string): void => {
+      errors.push({ segmentId: segment[0], position, code, message });
+    };
+
+    try {
+      switch (segment[0]) {
+        case 'HL':
+          // A new billing provider, subscriber or patient level ends the current claim
+          claim = null;
+          line = null;
+          if (segment[3] === '20') {
+            billingProviderNpi = undefined;
+            subscriberMemberId = undefined;
+          } else if (segment[3] === '22') {
+            subscriberMemberId = undefined;
+            dependentPatient = false;
+          } else if (segment[3] === '23') {
+            dependentPatient = true;
+          }
+          break;
+
+        // Within a claim, NM1s name other parties (rendering provider, other subscribers)
+        case 'NM1':
+          if (claim) {
+            break;
+          }
+          if (segment[1] === '85') {
+            if (segment[8] !== 'XX' || !segment[9]) {
+              fail('8', 'Billing provider must be identified by NPI (NM108 XX)');
+            } else {
+              billingProviderNpi = segment[9];
+            }
+          } else if (segment[1] === 'IL') {
+            if (segment[8] !== 'MI' || !segment[9]) {
+              fail('8', 'Subscriber must be identified by member ID (NM108 MI)');
+            } else {
+              subscriberMemberId = segment[9];
+            }
+          }
+          break;
+
+        case 'CLM':
+          if (!billingProviderNpi || !subscriberMemberId) {
+            fail('3', 'CLM must follow a billing provider NPI and a subscriber member ID');
+            claim = null;
+            break;
+          }
+          claim = {
+            patientControlNumber: segment[1] ?? '',
+            totalCharge: parseX12Amount(segment[2], 'CLM'),
+            billingProviderNpi,
+            subscriberMemberId,
+            dependentPatient,
+            diagnosisCodes: [],
+            lines: [],
+          };
+          line = null;
+          lineNumber = 0;
+          claims.push(claim);
+          claimPositions.set(claim, position);
+          break;
+
+        case 'HI':
+          if (!claim) {
+            fail('2', 'HI outside a claim');
+            break;
+          }
+          for (const element of segment.slice(1)) {
+            const [qualifier, code] = element.split(component);
+            // The first code of the claim is the principal diagnosis
+            const expected =
+              claim.diagnosisCodes.length === 0 ? PRINCIPAL_DIAGNOSIS : OTHER_DIAGNOSIS;
+            if (qualifier !== expected || !code) {
+              throw new Error(`HI: expected ${expected} diagnosis, found '${element}'`);
+            }
+            claim.diagnosisCodes.push(code);
+          }
+          break;
+
+        case 'DTP':
+          if (segment[1] === '472') {
+            const serviceDate = parseServiceDate(segment);
+            if (line) {
+              line.serviceDate = serviceDate;
+            } else if (claim) {
+              claim.serviceDate = serviceDate;
+            }
+          }
+          break;
+
+        case 'LX':
+          if (!claim) {
+            fail('2', 'LX outside a claim');
+            break;
+          }
+          lineNumber = Number(segment[1]);
+          line = null;
+          break;
+
+        case 'SV1': {
+          if (!claim) {
+            fail('2', 'SV1 outside a claim');
+            break;
+          }
+          const [qualifier, procedureCode, ...modifiers] = (segment[1] ?? '').split(component);
+          if (qualifier !== 'HC' || !procedureCode) {
+            fail('8', 'SV101 must be a CPT/HCPCS code (HC qualifier)');
+            break;
+          }
+          if (segment[3] !== 'UN') {
+            fail('8', 'SV103 must be UN (units)');
+            break;
+          }
+          line = {
+            lineNumber: lineNumber || claim.lines.length + 1,
+            procedureCode,
+            modifiers: modifiers.filter(Boolean),
+            chargeAmount: parseX12Amount(segment[2], 'SV1'),
+            units: parseX12Amount(segment[4], 'SV1'),
+            diagnosisPointers: (segment[7] ?? '')
+              .split(component)
+              .filter(Boolean)
+              .map(Number),
+          };
+          claim.lines.push(line);
+          break;
+        }
+
+        default:
+          break;
+      }
+    } catch (error) {
+      fail('8', error instanceof Error ? error.message : 'Invalid segment');
+    }
+  }
+
+  for (const parsed of claims) {
+    const position = claimPositions.get(parsed) ?? 0;
+    if (parsed.diagnosisCodes.length === 0) {
+      errors.push({
+        segmentId: 'HI',
+        position,
+        code: '3',
+        message: `Claim ${parsed.patientControlNumber} has no HI diagnoses`,
+      });
+    }
+    if (parsed.lines.length === 0) {
+      errors.push({
+        segmentId: 'SV1',
+        position,
+        code: '3',
+        message: `Claim ${parsed.patientControlNumber} has no service lines`,
+      });
+    }
+  }
+  if (claims.length === 0 && errors.length === 0) {
+    errors.push({
+      segmentId: 'CLM',
+      position: 2,
+      code: '3',
+      message: 'The transaction set has no claims',
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ...acknowledgment, rejectionCode: '5', errors, claims: [] };
+  }
+
+  return { ...acknowledgment, errors, claims };
+}
+
+/**
+ * Read an 837P interchange. Envelope problems above the transaction set
+ * throw; problems within a transaction set reject that set only, and are
+ * reported for the 999.
+ */
+export function parse837P(text: string): Interchange837P {
+  const interchange = parseX12Interchange(text);
+
+  if (interchange.functionalIdCode !== 'HC') {
+    throw new Error(`GS01: expected HC (health care claim), found ${interchange.functionalIdCode}`);
+  }
+
+  return {
+    interchange,
+    transactions: interchange.transactions.map((transaction) =>
+      parseTransaction(transaction, interchange.delimiters.component)
+    ),
+  };
+}
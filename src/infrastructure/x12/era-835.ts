@@ -0,0 +1,318 @@
+import type { Address, ClaimAdjustment } from '../../domain/entities/index.js';
+import type { AdjustmentGroupCode, PaymentMethod } from '../../shared/types/index.js';
+import {
+  buildX12Interchange,
+  formatX12Amount,
+  formatX12Date,
+  parseX12Amount,
+  parseX12Date,
+  parseX12Interchange,
+  sanitizeX12Value,
+  type X12Segment,
+} from './x12.js';
+
+/**
+ * X12 835 Health Care Claim Payment/Advice (005010X221A1): one payment to
+ * one payee, with a CLP loop per claim and CAS segments accounting for the
+ * difference between what was billed and what was paid.
+ */
+export const ERA_835_VERSION = '005010X221A1';
+
+// A zero-dollar advice moves no money (BPR04 'NON')
+export type Era835PaymentMethod = PaymentMethod | 'none';
+
+export interface Era835Claim {
+  claimNumber: string;
+  billedAmount: number;
+  paidAmount: number;
+  patientResponsibility: number;
+  // Must total billedAmount - paidAmount
+  adjustments: ClaimAdjustment[];
+  patient: { firstName: string; lastName: string; memberId: string };
+  serviceDate: Date;
+}
+
+export interface Era835 {
+  controlNumber: number;
+  createdAt: Date;
+  payer: { name: string; taxId: string; address: Address; contactPhone: string };
+  payee: { name: string; npi: string; address?: Address };
+  payment: {
+    method: Era835PaymentMethod;
+    reference: string; // Check or EFT trace number
+    paidAt: Date;
+    totalPaid: number;
+  };
+  claims: Era835Claim[];
+}
+
+const BPR_METHODS: Record<Era835PaymentMethod, string> = {
+  check: 'CHK',
+  eft: 'ACH',
+  none: 'NON',
+};
+
+// CLP02: processed as primary, or denied when nothing was paid or owed
+const CLAIM_PROCESSED = '1';
+const CLAIM_DENIED = '4';
+
+// CLP06: commercial insurance
+const CLAIM_FILING_INDICATOR = 'CI';
+
+// A CAS segment holds at most six reason/amount/quantity triplets
+const CAS_MAX_ADJUSTMENTS = 6;
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+function addressSegments(address: Address): X12Segment[] {
+  return [
+    ['N3', sanitizeX12Value(address.street)],
+    [
+      'N4',
+      sanitizeX12Value(address.city),
+      address.country === 'US' ? address.state : '',
+      sanitizeX12Value(address.zipCode).replace(/[^0-9A-Z]/gi, ''),
+      address.country === 'US' ? '' : address.country,
+    ],
+  ];
+}
+
+function casSegments(adjustments: ClaimAdjustment[]): X12Segment[] {
+  const byGroup = new Map<string, ClaimAdjustment[]>();
+  for (const adjustment of adjustments) {
+    byGroup.set(adjustment.groupCode, [...(byGroup.get(adjustment.groupCode) ?? []), adjustment]);
+  }
+
+  const segments: X12Segment[] = [];
+  for (const [groupCode, group] of byGroup) {
+    for (let i = 0; i < group.length; i += CAS_MAX_ADJUSTMENTS) {
+      const triplets = group
+        .slice(i, i + CAS_MAX_ADJUSTMENTS)
+        .flatMap((adjustment) => [adjustment.reasonCode, formatX12Amount(adjustment.amount), '']);
+      segments.push(['CAS', groupCode, ...triplets]);
+    }
+  }
+  return segments;
+}
+
+function claimSegments(claim: Era835Claim): X12Segment[] {
+  const adjusted = claim.adjustments.reduce((sum, adjustment) => sum + toCents(adjustment.amount), 0);
+  if (adjusted !== toCents(claim.billedAmount) - toCents(claim.paidAmount)) {
+    throw new Error(`Claim ${claim.claimNumber}: adjustments do not total billed - paid`);
+  }
+
+  const denied = toCents(claim.paidAmount) === 0 && toCents(claim.patientResponsibility) === 0;
+  const serviceDate = formatX12Date(claim.serviceDate);
+
+  return [
+    [
+      'CLP',
+      sanitizeX12Value(claim.claimNumber),
+      denied ? CLAIM_DENIED : CLAIM_PROCESSED,
+      formatX12Amount(claim.billedAmount),
+      formatX12Amount(claim.paidAmount),
+      toCents(claim.patientResponsibility) === 0 ? '' : formatX12Amount(claim.patientResponsibility),
+      CLAIM_FILING_INDICATOR,
+      sanitizeX12Value(claim.claimNumber),
+    ],
+    ...casSegments(claim.adjustments),
+    [
+      'NM1',
+      'QC',
+      '1',
+      sanitizeX12Value(claim.patient.lastName),
+      sanitizeX12Value(claim.patient.firstName),
+      '',
+      '',
+      '',
+      'MI',
+      sanitizeX12Value(claim.patient.memberId),
+    ],
+    ['DTM', '232', serviceDate],
+    ['DTM', '233', serviceDate],
+  ];
+}
+
+/**
+ * Write an 835. The claims must balance to the payment total; an advice
+ * that does not add up is a bug, not something to send.
+ */
+export function buildEra835(era: Era835): string {
+  const paid = era.claims.reduce((sum, claim) => sum + toCents(claim.paidAmount), 0);
+  if (paid !== toCents(era.payment.totalPaid)) {
+    throw new Error('Claim payments do not total the payment amount');
+  }
+  if ((paid === 0) !== (era.payment.method === 'none')) {
+    throw new Error("Only a zero-dollar advice has payment method 'none'");
+  }
+
+  const body: X12Segment[] = [
+    [
+      'BPR',
+      paid === 0 ? 'H' : 'I', // Notification only / remittance with payment
+      formatX12Amount(era.payment.totalPaid),
+      'C',
+      BPR_METHODS[era.payment.method],
+      era.payment.method === 'eft' ? 'CCP' : '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      formatX12Date(era.payment.paidAt),
+    ],
+    // TRN03: '1' followed by the payer's EIN
+    ['TRN', '1', sanitizeX12Value(era.payment.reference), `1${era.payer.taxId}`],
+    ['N1', 'PR', sanitizeX12Value(era.payer.name)],
+    ...addressSegments(era.payer.address),
+    ['PER', 'BL', '', 'TE', era.payer.contactPhone.replace(/\D/g, '')],
+    ['N1', 'PE', sanitizeX12Value(era.payee.name), 'XX', era.payee.npi],
+    ...(era.payee.address ? addressSegments(era.payee.address) : []),
+  ];
+
+  if (era.claims.length > 0) {
+    body.push(['LX', '1'], ...era.claims.flatMap(claimSegments));
+  }
+
+  return buildX12Interchange(
+    {
+      senderQualifier: '30',
+      senderId: era.payer.taxId,
+      receiverQualifier: 'ZZ',
+      receiverId: era.payee.npi,
+      functionalIdCode: 'HP',
+      version: ERA_835_VERSION,
+      controlNumber: era.controlNumber,
+      createdAt: era.createdAt,
+    },
+    '835',
+    body
+  );
+}
+
+function parseAddress(n3: X12Segment, n4: X12Segment): Address {
+  return {
+    street: n3[1],
+    city: n4[1],
+    state: n4[2] ?? '',
+    zipCode: n4[3] ?? '',
+    country: n4[4] || 'US',
+  };
+}
+
+/**
+ * Read an 835 written by buildEra835 back into its parts. Checks the
+ * envelopes and that the advice balances; throws on anything else.
+ */
+export function parseEra835(text: string): Era835 {
+  const interchange = parseX12Interchange(text);
+  const transaction = interchange.transactions[0];
+  if (interchange.transactions.length !== 1 || transaction.id !== '835') {
+    throw new Error('Expected a single 835 transaction set');
+  }
+  if (transaction.syntaxError) {
+    throw new Error(transaction.syntaxError.message);
+  }
+
+  const segments = transaction.segments;
+  let index = 0;
+  const next = (id: string): X12Segment => {
+    const segment = segments[index];
+    if (segment?.[0] !== id) {
+      throw new Error(`Expected ${id} segment, found ${segment?.[0] ?? 'end of transaction'}`);
+    }
+    index++;
+    return segment;
+  };
+  const peek = (id: string, qualifier?: string): boolean =>
+    segments[index]?.[0] === id && (qualifier === undefined || segments[index][1] === qualifier);
+
+  const bpr = next('BPR');
+  const method = (Object.keys(BPR_METHODS) as Era835PaymentMethod[]).find(
+    (key) => BPR_METHODS[key] === bpr[4]
+  );
+  if (!method) {
+    throw new Error(`BPR: unknown payment method '${bpr[4]}'`);
+  }
+  const trn = next('TRN');
+
+  const payer = next('N1');
+  const payerAddress = parseAddress(next('N3'), next('N4'));
+  const per = next('PER');
+
+  const payee = next('N1');
+  const payeeAddress = peek('N3') ? parseAddress(next('N3'), next('N4')) : undefined;
+
+  const claims: Era835Claim[] = [];
+  if (peek('LX')) {
+    next('LX');
+    while (peek('CLP')) {
+      const clp = next('CLP');
+      const adjustments: ClaimAdjustment[] = [];
+      while (peek('CAS')) {
+        const cas = next('CAS');
+        for (let i = 2; i < cas.length; i += 3) {
+          adjustments.push({
+            groupCode: cas[1] as AdjustmentGroupCode,
+            reasonCode: cas[i],
+            amount: parseX12Amount(cas[i + 1], 'CAS'),
+          });
+        }
+      }
+      const patient = next('NM1');
+      const serviceDate = parseX12Date(next('DTM')[2]);
+      if (peek('DTM', '233')) {
+        next('DTM');
+      }
+
+      claims.push({
+        claimNumber: clp[1],
+        billedAmount: parseX12Amount(clp[3], 'CLP'),
+        paidAmount: parseX12Amount(clp[4], 'CLP'),
+        patientResponsibility: clp[5] ? parseX12Amount(clp[5], 'CLP') : 0,
+        adjustments,
+        patient: { lastName: patient[3], firstName: patient[4], memberId: patient[9] },
+        serviceDate,
+      });
+    }
+  }
+
+  if (index !== segments.length) {
+    throw new Error(`Unexpected ${segments[index][0]} segment`);
+  }
+
+  const era: Era835 = {
+    controlNumber: interchange.controlNumber,
+    createdAt: interchange.createdAt,
+    payer: {
+      name: payer[2],
+      taxId: trn[3].slice(1),
+      address: payerAddress,
+      contactPhone: per[4],
+    },
+    payee: {
+      name: payee[2],
+      npi: payee[4],
+      ...(payeeAddress ? { address: payeeAddress } : {}),
+    },
+    payment: {
+      method,
+      reference: trn[2],
+      paidAt: parseX12Date(bpr[16]),
+      totalPaid: parseX12Amount(bpr[2], 'BPR'),
+    },
+    claims,
+  };
+
+  const paid = claims.reduce((sum, claim) => sum + toCents(claim.paidAmount), 0);
+  if (paid !== toCents(era.payment.totalPaid)) {
+    throw new Error('BPR: payment amount does not match the claim payments');
+  }
+
+  return era;
+}
@@ -0,0 +1,301 @@
+/**
+ * ASC X12 5010 envelope and segment handling shared by the transaction
+ * sets the platform reads and writes.
+ *
+ * A document is an interchange (ISA/IEA) of functional groups (GS/GE) of
+ * transaction sets (ST/SE). Segments are lists of elements; element 0 is
+ * the segment ID. We write '*' between elements, ':' between components,
+ * '^' between repetitions and '~' after each segment. The parser reads
+ * the delimiters from the fixed-width ISA segment instead of assuming them.
+ */
+
+export interface X12Delimiters {
+  element: string;
+  component: string;
+  repetition: string;
+  segment: string;
+}
+
+export const X12_DELIMITERS: X12Delimiters = {
+  element: '*',
+  component: ':',
+  repetition: '^',
+  segment: '~',
+};
+
+export type X12Segment = string[];
+
+// ISA is the only fixed-width segment: 106 characters including its terminator
+const ISA_LENGTH = 106;
+
+export interface X12EnvelopeOptions {
+  senderQualifier: string; // ISA05, e.g. '30' (federal tax ID) or 'ZZ' (mutually defined)
+  senderId: string;
+  receiverQualifier: string;
+  receiverId: string;
+  functionalIdCode: string; // GS01, e.g. 'HP' for 835
+  version: string; // GS08, e.g. '005010X221A1'
+  implementationReference?: string; // ST03, required by some guides (e.g. 999)
+  controlNumber: number; // ISA13, GS06 and ST02
+  createdAt: Date;
+}
+
+// IK502 codes for a broken ST/SE envelope
+export interface X12TransactionSyntaxError {
+  code: '2' | '3' | '4'; // Trailer missing / control number mismatch / segment count mismatch
+  message: string;
+}
+
+export interface X12Transaction {
+  id: string; // ST01, e.g. '835'
+  controlNumber: string;
+  implementationReference?: string; // ST03, e.g. '005010X222A1'
+  segments: X12Segment[]; // Between ST and SE; segment i is at position i + 2
+  syntaxError?: X12TransactionSyntaxError;
+}
+
+export interface X12Interchange {
+  delimiters: X12Delimiters;
+  senderQualifier: string;
+  senderId: string;
+  receiverQualifier: string;
+  receiverId: string;
+  controlNumber: number;
+  functionalIdCode: string;
+  groupControlNumber: string; // GS06
+  version: string;
+  createdAt: Date;
+  transactions: X12Transaction[];
+}
+
+/**
+ * Make free text safe for an element: delimiters and control characters
+ * become spaces, runs of whitespace collapse
+ */
+export function sanitizeX12Value(value: string): string {
+  return value
+    .replace(/[*:^~\u0000-\u001f\u007f]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// X12 decimal (R) values carry no trailing zeros: 140.00 -> '140', 15.50 -> '15.5'
+export function formatX12Amount(amount: number): string {
+  return String(Math.round(amount * 100) / 100);
+}
+
+// CCYYMMDD, in UTC like every date the platform stores
+export function formatX12Date(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+// HHMM, UTC
+export function formatX12Time(date: Date): string {
+  return date.toISOString().slice(11, 16).replace(':', '');
+}
+
+export function parseX12Date(value: string, time = '0000'): Date {
+  if (!/^\d{8}$/.test(value) || !/^\d{4}/.test(time)) {
+    throw new Error(`Invalid X12 date: ${value}`);
+  }
+
+  return new Date(
+    `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}T${time.slice(0, 2)}:${time.slice(2, 4)}:00.000Z`
+  );
+}
+
+export function parseX12Amount(value: string | undefined, segmentId: string): number {
+  const amount = Number(value);
+  if (value === undefined || value === '' || Number.isNaN(amount)) {
+    throw new Error(`${segmentId}: invalid amount '${value ?? ''}'`);
+  }
+  return amount;
+}
+
+// Trailing empty elements are dropped, as the standard requires
+function serializeSegment(segment: X12Segment, delimiters: X12Delimiters): string {
+  let end = segment.length;
+  while (end > 1 && segment[end - 1] === '') {
+    end--;
+  }
+  return segment.slice(0, end).join(delimiters.element) + delimiters.segment;
+}
+
+/**
+ * Wrap one transaction set in ST/SE, GS/GE and ISA/IEA. The control number
+ * is used for all three envelopes.
+ */
+export function buildX12Interchange(
+  options: X12EnvelopeOptions,
+  transactionId: string,
+  body: X12Segment[]
+): string {
+  const { element, component, repetition } = X12_DELIMITERS;
+  const interchangeControl = String(options.controlNumber).padStart(9, '0');
+  const transactionControl = String(options.controlNumber).padStart(4, '0');
+  const date = formatX12Date(options.createdAt);
+  const time = formatX12Time(options.createdAt);
+
+  const isa = [
+    'ISA',
+    '00',
+    ''.padEnd(10),
+    '00',
+    ''.padEnd(10),
+    options.senderQualifier.padEnd(2),
+    options.senderId.padEnd(15).slice(0, 15),
+    options.receiverQualifier.padEnd(2),
+    options.receiverId.padEnd(15).slice(0, 15),
+    date.slice(2),
+    time,
+    repetition,
+    '00501',
+    interchangeControl,
+    '0', // No TA1 acknowledgment requested
+    'P',
+    component,
+  ].join(element) + X12_DELIMITERS.segment;
+
+  const segments: X12Segment[] = [
+    [
+      'GS',
+      options.functionalIdCode,
+      options.senderId,
+      options.receiverId,
+      date,
+      time,
+      String(options.controlNumber),
+      'X',
+      options.version,
+    ],
+    ['ST', transactionId, transactionControl, options.implementationReference ?? ''],
+    ...body,
+    // SE counts every segment from ST to SE
+    ['SE', String(body.length + 2), transactionControl],
+    ['GE', '1', String(options.controlNumber)],
+    ['IEA', '1', interchangeControl],
+  ];
+
+  return isa + segments.map((segment) => serializeSegment(segment, X12_DELIMITERS)).join('');
+}
+
+/**
+ * Read an interchange and check its envelopes: control numbers must match
+ * their trailers and the trailer counts must be right. Throws when the
+ * interchange or group envelope is malformed; transaction sets with a
+ * broken ST/SE carry a syntaxError instead, so they can be acknowledged.
+ */
+export function parseX12Interchange(text: string): X12Interchange {
+  const start = text.indexOf('ISA');
+  if (start < 0 || text.length - start < ISA_LENGTH) {
+    throw new Error('Not an X12 interchange: ISA segment missing');
+  }
+
+  const isaText = text.slice(start, start + ISA_LENGTH);
+  const delimiters: X12Delimiters = {
+    element: isaText.charAt(3),
+    repetition: isaText.charAt(82),
+    component: isaText.charAt(104),
+    segment: isaText.charAt(105),
+  };
+
+  const segments = text
+    .slice(start)
+    .split(delimiters.segment)
+    .map((segment) => segment.replace(/^[\r\n]+/, ''))
+    .filter((segment) => segment.trim() !== '')
+    .map((segment) => segment.split(delimiters.element));
+
+  const isa = segments[0];
+  if (isa.length !== 17) {
+    throw new Error('ISA: expected 16 elements');
+  }
+
+  const iea = segments[segments.length - 1];
+  if (iea[0] !== 'IEA' || iea[2] !== isa[13]) {
+    throw new Error('IEA: missing or does not match ISA13');
+  }
+
+  const gs = segments[1];
+  const ge = segments[segments.length - 2];
+  if (gs?.[0] !== 'GS' || ge?.[0] !== 'GE' || ge[2] !== gs[6]) {
+    throw new Error('GS/GE: missing or control numbers do not match');
+  }
+  if (iea[1] !== '1') {
+    throw new Error('IEA: only single-group interchanges are supported');
+  }
+
+  const transactions: X12Transaction[] = [];
+  let current: X12Transaction | null = null;
+
+  // A broken ST/SE pair is reported against its transaction set, not thrown
+  const close = (transaction: X12Transaction, syntaxError?: X12TransactionSyntaxError): void => {
+    transactions.push(syntaxError ? { ...transaction, syntaxError } : transaction);
+  };
+
+  for (const segment of segments.slice(2, -2)) {
+    if (segment[0] === 'ST') {
+      if (current) {
+        close(current, {
+          code: '2',
+          message: `ST ${current.controlNumber}: transaction set has no SE`,
+        });
+      }
+      current = {
+        id: segment[1],
+        controlNumber: segment[2],
+        implementationReference: segment[3] || undefined,
+        segments: [],
+      };
+      continue;
+    }
+
+    if (!current) {
+      throw new Error(`${segment[0]}: segment outside a transaction set`);
+    }
+
+    if (segment[0] === 'SE') {
+      if (segment[2] !== current.controlNumber) {
+        close(current, {
+          code: '3',
+          message: `SE: control number does not match ST ${current.controlNumber}`,
+        });
+      } else if (Number(segment[1]) !== current.segments.length + 2) {
+        close(current, {
+          code: '4',
+          message: `SE: segment count ${segment[1]} does not match ST ${current.controlNumber}`,
+        });
+      } else {
+        close(current);
+      }
+      current = null;
+      continue;
+    }
+
+    current.segments.push(segment);
+  }
+
+  if (current) {
+    close(current, {
+      code: '2',
+      message: `ST ${current.controlNumber}: transaction set has no SE`,
+    });
+  }
+  if (Number(ge[1]) !== transactions.length) {
+    throw new Error(`GE: transaction count ${ge[1]} does not match`);
+  }
+
+  return {
+    delimiters,
+    senderQualifier: isa[5].trim(),
+    senderId: isa[6].trim(),
+    receiverQualifier: isa[7].trim(),
+    receiverId: isa[8].trim(),
+    controlNumber: Number(isa[13]),
+    functionalIdCode: gs[1],
+    groupControlNumber: gs[6],
+    version: gs[8],
+    createdAt: parseX12Date(gs[4], gs[5]),
+    transactions,
+  };
+}
@@ -7,6 +7,7 @@ import routes from './routes/index.js';
 import { errorHandler, notFoundHandler } from './middleware/index.js';
 import { logger } from '../shared/utils/logger.js';
 import { swaggerSpec } from '../infrastructure/swagger/swagger.js';
+import { APPEAL_BODY_MAX_BYTES } from '../application/validators/index.js';
 
 // Create Express app
 export function createApp(): express.Application {
@@ -27,11 +28,12 @@ export function createApp(): express.Application {
   app.use(cors({
     origin: process.env.CORS_ORIGIN || '*',
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID', 'Idempotency-Key'],
     credentials: true,
   }));
 
-  // Body parsing
+  // Body parsing. Appeals carry their attachments base64-encoded, past 10mb
+  app.use('/api/claims/:id/appeals', express.json({ limit: APPEAL_BODY_MAX_BYTES }));
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
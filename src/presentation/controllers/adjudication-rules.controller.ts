@@ -0,0 +1,73 @@
+import type { Request, Response } from 'express';
+import { adjudicationRuleService } from '../../application/services/adjudication-rule.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { AdjudicationRule } from '../../domain/entities/index.js';
+import type {
+  CreateAdjudicationRuleInput,
+  UpdateAdjudicationRuleInput,
+  ListAdjudicationRulesQuery,
+} from '../../application/validators/index.js';
+
+/**
+ * List the organization's adjudication rules in evaluation order
+ * GET /api/adjudication-rules
+ */
+export async function listRules(
+  req: Request<unknown, unknown, unknown, ListAdjudicationRulesQuery>,
+  res: Response<ApiResponse<PaginatedResult<AdjudicationRule>>>
+): Promise<void> {
+  const result = await adjudicationRuleService.listRules(
+    req.query as ListAdjudicationRulesQuery,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Create an adjudication rule
+ * POST /api/adjudication-rules
+ */
+export async function createRule(
+  req: Request<unknown, unknown, CreateAdjudicationRuleInput>,
+  res: Response<ApiResponse<AdjudicationRule>>
+): Promise<void> {
+  const rule = await adjudicationRuleService.createRule(req.body, req.tenantContext!);
+
+  res.status(201).json({
+    success: true,
+    data: rule,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Update, reorder or switch off an adjudication rule
+ * PATCH /api/adjudication-rules/:id
+ */
+export async function updateRule(
+  req: Request<{ id: string }, unknown, UpdateAdjudicationRuleInput>,
+  res: Response<ApiResponse<AdjudicationRule>>
+): Promise<void> {
+  const rule = await adjudicationRuleService.updateRule(
+    req.params.id,
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: rule,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
@@ -0,0 +1,92 @@
+import type { Request, Response } from 'express';
+import { appealService } from '../../application/services/appeal.service.js';
+import type { ApiResponse } from '../../shared/types/index.js';
+import type { Appeal } from '../../domain/entities/index.js';
+import type {
+  CreateAppealInput,
+  DecideAppealInput,
+} from '../../application/validators/index.js';
+
+/**
+ * List the appeals of a claim
+ * GET /api/claims/:id/appeals
+ */
+export async function listAppeals(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Appeal[]>>
+): Promise<void> {
+  const appeals = await appealService.listAppeals(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: appeals,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Appeal a rejected claim
+ * POST /api/claims/:id/appeals
+ */
+export async function fileAppeal(
+  req: Request<{ id: string }, unknown, CreateAppealInput>,
+  res: Response<ApiResponse<Appeal>>
+): Promise<void> {
+  const appeal = await appealService.fileAppeal(req.params.id, req.body, req.tenantContext!);
+
+  res.status(201).json({
+    success: true,
+    data: appeal,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Uphold or overturn an appeal
+ * POST /api/claims/:id/appeals/:appealId/decision
+ */
+export async function decideAppeal(
+  req: Request<{ id: string; appealId: string }, unknown, DecideAppealInput>,
+  res: Response<ApiResponse<Appeal>>
+): Promise<void> {
+  const appeal = await appealService.decideAppeal(
+    req.params.id,
+    req.params.appealId,
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: appeal,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Download an appeal attachment
+ * GET /api/claims/:id/appeals/:appealId/attachments/:attachmentId
+ */
+export async function downloadAttachment(
+  req: Request<{ id: string; appealId: string; attachmentId: string }>,
+  res: Response
+): Promise<void> {
+  const attachment = await appealService.getAttachment(
+    req.params.id,
+    req.params.appealId,
+    req.params.attachmentId,
+    req.tenantContext!
+  );
+
+  res
+    .status(200)
+    .type(attachment.contentType)
+    .attachment(attachment.fileName)
+    .send(attachment.content);
+}
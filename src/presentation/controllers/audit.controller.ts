@@ -0,0 +1,27 @@
+import type { Request, Response } from 'express';
+import { auditService } from '../../application/services/audit.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { AuditLog } from '../../domain/entities/index.js';
+import type { ListAuditLogsQuery } from '../../application/validators/index.js';
+
+/**
+ * List audit log entries
+ * GET /api/audit
+ */
+export async function listAuditLogs(
+  req: Request<unknown, unknown, unknown, ListAuditLogsQuery>,
+  res: Response<ApiResponse<PaginatedResult<AuditLog>>>
+): Promise<void> {
+  const result = await auditService.listAuditLogs(
+    req.query as ListAuditLogsQuery,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
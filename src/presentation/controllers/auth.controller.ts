@@ -52,15 +52,14 @@ export async function register(
     expiresIn: string;
   }>>
 ): Promise<void> {
-  const { email, password, firstName, lastName, organizationCode, role } = req.body;
+  const { email, password, firstName, lastName, organizationCode } = req.body;
   
   const { user, tokens } = await authService.register(
     email,
     password,
     firstName,
     lastName,
-    organizationCode,
-    role
+    organizationCode
   );
 
   res.status(201).json({
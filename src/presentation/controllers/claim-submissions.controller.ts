@@ -0,0 +1,87 @@
+import type { Request, Response } from 'express';
+import { claimIntakeService } from '../../application/services/claim-intake.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { ClaimSubmission } from '../../domain/entities/index.js';
+import type { ListClaimSubmissionsQuery } from '../../application/validators/index.js';
+
+/**
+ * Submit an X12 837P claim file
+ * POST /api/claim-submissions/837
+ */
+export async function submit837P(
+  req: Request<unknown, unknown, unknown>,
+  res: Response<ApiResponse<ClaimSubmission>>
+): Promise<void> {
+  // express.text leaves an empty object when the content type did not match
+  const content = typeof req.body === 'string' ? req.body : '';
+  const submission = await claimIntakeService.submit837P(content, req.tenantContext!);
+
+  res.status(202).json({
+    success: true,
+    data: submission,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * List claim submissions
+ * GET /api/claim-submissions
+ */
+export async function listSubmissions(
+  req: Request<unknown, unknown, unknown, ListClaimSubmissionsQuery>,
+  res: Response<ApiResponse<PaginatedResult<ClaimSubmission>>>
+): Promise<void> {
+  const result = await claimIntakeService.listSubmissions(
+    req.query as ListClaimSubmissionsQuery,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Get a claim submission with its per-claim report
+ * GET /api/claim-submissions/:id
+ */
+export async function getSubmission(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<ClaimSubmission>>
+): Promise<void> {
+  const submission = await claimIntakeService.getSubmission(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: submission,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Download the 999 acknowledgment of a submission
+ * GET /api/claim-submissions/:id/999
+ */
+export async function downloadAcknowledgment(
+  req: Request<{ id: string }>,
+  res: Response
+): Promise<void> {
+  const acknowledgment = await claimIntakeService.getAcknowledgment(
+    req.params.id,
+    req.tenantContext!
+  );
+
+  res
+    .status(200)
+    .type('application/edi-x12')
+    .attachment(`${req.params.id}.999`)
+    .send(acknowledgment);
+}
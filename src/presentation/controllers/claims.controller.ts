@@ -1,23 +1,48 @@
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import type { Request, Response } from 'express';
 import { claimsService } from '../../application/services/claims.service.js';
+import {
+  claimExportService,
+  type ClaimExportFile,
+} from '../../application/services/claim-export.service.js';
+import {
+  claimImportService,
+  type ClaimImportJob,
+  type ClaimImportProgress,
+  type ClaimImportReport,
+} from '../../application/services/claim-import.service.js';
+import type { ClaimFileFormat } from '../../infrastructure/import/claim-file.js';
 import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
-import type { Claim } from '../../domain/entities/index.js';
+import type { Claim, ClaimExport } from '../../domain/entities/index.js';
+import type { ProviderRiskSummary } from '../../domain/repositories/index.js';
+import type { RebalanceResult } from '../../infrastructure/routing/claim-routing.service.js';
 import type {
   CreateClaimInput,
   ListClaimsQuery,
   UpdateClaimStatusInput,
   BulkStatusUpdateInput,
+  AssignClaimInput,
+  DecideClaimLineInput,
+  ClaimImportQuery,
+  ClaimExportQuery,
+  ClaimRiskReportQuery,
 } from '../../application/validators/index.js';
 
 /**
- * Create a new claim
+ * Create a new claim; a retry with the same Idempotency-Key header gets the
+ * claim the first attempt created
  * POST /api/claims
  */
 export async function createClaim(
   req: Request<unknown, unknown, CreateClaimInput>,
   res: Response<ApiResponse<Claim>>
 ): Promise<void> {
-  const claim = await claimsService.createClaim(req.body, req.tenantContext!);
+  const claim = await claimsService.createClaim(
+    req.body,
+    req.tenantContext!,
+    req.header('Idempotency-Key')
+  );
 
   res.status(201).json({
     success: true,
@@ -92,6 +117,30 @@ export async function updateClaimStatus(
   });
 }
 
+/**
+ * Approve or reject a single claim line
+ * PATCH /api/claims/:id/lines/:lineId
+ */
+export async function decideClaimLine(
+  req: Request<{ id: string; lineId: string }, unknown, DecideClaimLineInput>,
+  res: Response<ApiResponse<Claim>>
+): Promise<void> {
+  const claim = await claimsService.decideClaimLine(
+    req.params.id,
+    req.params.lineId,
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: claim,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
 /**
  * Bulk update claim statuses
  * POST /api/claims/bulk-status-update
@@ -117,6 +166,105 @@ export async function bulkUpdateStatus(
   });
 }
 
+/**
+ * Assign a claim to a claims processor
+ * POST /api/claims/:id/assign
+ */
+export async function assignClaim(
+  req: Request<{ id: string }, unknown, AssignClaimInput>,
+  res: Response<ApiResponse<Claim>>
+): Promise<void> {
+  const claim = await claimsService.assignClaimToProcessor(
+    req.params.id,
+    req.body.processorId,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: claim,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Remove a claim's processor assignment
+ * POST /api/claims/:id/unassign
+ */
+export async function unassignClaim(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Claim>>
+): Promise<void> {
+  const claim = await claimsService.unassignClaim(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: claim,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Queue a job that re-runs the adjudication rules on an open claim
+ * POST /api/claims/:id/adjudicate
+ */
+export async function adjudicateClaim(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<{ jobId: string }>>
+): Promise<void> {
+  const result = await claimsService.requestAdjudication(req.params.id, req.tenantContext!);
+
+  res.status(202).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Queue an assignment reconciliation job
+ * POST /api/claims/assignments/reconcile
+ */
+export async function reconcileAssignments(
+  req: Request,
+  res: Response<ApiResponse<{ jobId: string }>>
+): Promise<void> {
+  const result = await claimsService.queueAssignmentReconciliation(req.tenantContext!);
+
+  res.status(202).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Route unassigned open claims and even out processors' workloads
+ * POST /api/claims/assignments/rebalance
+ */
+export async function rebalanceAssignments(
+  req: Request,
+  res: Response<ApiResponse<RebalanceResult>>
+): Promise<void> {
+  const result = await claimsService.rebalanceAssignments(req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
 /**
  * Get claim statistics for dashboard
  * GET /api/claims/stats
@@ -139,3 +287,142 @@ export async function getClaimStats(
     },
   });
 }
+
+/**
+ * Providers ranked by the risk of their scored claims
+ * GET /api/claims/risk-report
+ */
+export async function getProviderRiskReport(
+  req: Request<unknown, unknown, unknown, ClaimRiskReportQuery>,
+  res: Response<ApiResponse<ProviderRiskSummary[]>>
+): Promise<void> {
+  const report = await claimsService.getProviderRiskReport(
+    req.query as ClaimRiskReportQuery,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: report,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Import claims from a CSV or NDJSON file, or only validate it (dryRun)
+ * POST /api/claims/import
+ */
+export async function importClaims(
+  req: Request<unknown, unknown, unknown, ClaimImportQuery>,
+  res: Response<ApiResponse<ClaimImportReport | ClaimImportJob>>
+): Promise<void> {
+  // express.text leaves an empty object when the content type did not match
+  const content = typeof req.body === 'string' ? req.body : '';
+  const format: ClaimFileFormat | undefined = req.is('text/csv')
+    ? 'csv'
+    : req.is(['application/x-ndjson', 'application/ndjson'])
+      ? 'ndjson'
+      : undefined;
+  const { dryRun } = req.query as ClaimImportQuery;
+
+  const result = dryRun
+    ? await claimImportService.dryRun(content, format, req.tenantContext!)
+    : await claimImportService.importFile(content, format, req.tenantContext!);
+
+  res.status(dryRun ? 200 : 202).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Get the progress and per-claim report of an import
+ * GET /api/claims/import/:jobId
+ */
+export async function getClaimImport(
+  req: Request<{ jobId: string }>,
+  res: Response<ApiResponse<ClaimImportProgress>>
+): Promise<void> {
+  const result = await claimImportService.getImport(req.params.jobId, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+async function sendExportFile(res: Response, file: ClaimExportFile): Promise<void> {
+  res.status(200).type(file.contentType).attachment(file.fileName);
+  await pipeline(Readable.from(file.body), res);
+}
+
+/**
+ * Export the claims matching the list filters: streamed as the response,
+ * or queued as a background export when there are too many
+ * GET /api/claims/export
+ */
+export async function exportClaims(
+  req: Request<unknown, unknown, unknown, ClaimExportQuery>,
+  res: Response<ApiResponse<ClaimExport>>
+): Promise<void> {
+  const result = await claimExportService.exportClaims(
+    req.query as ClaimExportQuery,
+    req.tenantContext!
+  );
+
+  if (result.mode === 'stream') {
+    await sendExportFile(res, result.file);
+    return;
+  }
+
+  res
+    .status(202)
+    .location(`/api/claims/exports/${result.export.id}`)
+    .json({
+      success: true,
+      data: result.export,
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+}
+
+/**
+ * Get the status of a background export
+ * GET /api/claims/exports/:id
+ */
+export async function getClaimExport(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<ClaimExport>>
+): Promise<void> {
+  const result = await claimExportService.getExport(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Download the file of a completed background export
+ * GET /api/claims/exports/:id/download
+ */
+export async function downloadClaimExport(
+  req: Request<{ id: string }>,
+  res: Response
+): Promise<void> {
+  const file = await claimExportService.openExport(req.params.id, req.tenantContext!);
+
+  await sendExportFile(res, file);
+}
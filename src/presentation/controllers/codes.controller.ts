@@ -0,0 +1,96 @@
+import type { Request, Response } from 'express';
+import { codeSetService } from '../../application/services/code-set.service.js';
+import { codePairingRuleService } from '../../application/services/code-pairing-rule.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { CodePairingRule, DiagnosisCode } from '../../domain/entities/index.js';
+import type {
+  SearchDiagnosisCodesQuery,
+  CreateCodePairingRuleInput,
+  UpdateCodePairingRuleInput,
+  ListCodePairingRulesQuery,
+} from '../../application/validators/index.js';
+
+/**
+ * Search ICD-10-CM diagnosis codes
+ * GET /api/codes/diagnosis
+ */
+export async function searchDiagnosisCodes(
+  req: Request<unknown, unknown, unknown, SearchDiagnosisCodesQuery>,
+  res: Response<ApiResponse<DiagnosisCode[]>>
+): Promise<void> {
+  const codes = await codeSetService.searchDiagnosisCodes(
+    req.query as SearchDiagnosisCodesQuery
+  );
+
+  res.status(200).json({
+    success: true,
+    data: codes,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * List the organization's diagnosis/procedure pairing rules
+ * GET /api/codes/pairing-rules
+ */
+export async function listPairingRules(
+  req: Request<unknown, unknown, unknown, ListCodePairingRulesQuery>,
+  res: Response<ApiResponse<PaginatedResult<CodePairingRule>>>
+): Promise<void> {
+  const result = await codePairingRuleService.listRules(
+    req.query as ListCodePairingRulesQuery,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Create a pairing rule
+ * POST /api/codes/pairing-rules
+ */
+export async function createPairingRule(
+  req: Request<unknown, unknown, CreateCodePairingRuleInput>,
+  res: Response<ApiResponse<CodePairingRule>>
+): Promise<void> {
+  const rule = await codePairingRuleService.createRule(req.body, req.tenantContext!);
+
+  res.status(201).json({
+    success: true,
+    data: rule,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Update or switch off a pairing rule
+ * PATCH /api/codes/pairing-rules/:id
+ */
+export async function updatePairingRule(
+  req: Request<{ id: string }, unknown, UpdateCodePairingRuleInput>,
+  res: Response<ApiResponse<CodePairingRule>>
+): Promise<void> {
+  const rule = await codePairingRuleService.updateRule(
+    req.params.id,
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: rule,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
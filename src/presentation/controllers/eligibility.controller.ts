@@ -0,0 +1,120 @@
+import type { Request, Response } from 'express';
+import { eligibilityService } from '../../application/services/eligibility.service.js';
+import type { ApiResponse } from '../../shared/types/index.js';
+import type {
+  BenefitAccumulator,
+  Coverage,
+  EligibilityResult,
+} from '../../domain/entities/index.js';
+import type {
+  CreateCoverageInput,
+  UpdateCoverageInput,
+  EligibilityCheckInput,
+} from '../../application/validators/index.js';
+
+/**
+ * Check a member's coverage and remaining benefits on a date
+ * POST /api/eligibility
+ */
+export async function checkEligibility(
+  req: Request<unknown, unknown, EligibilityCheckInput>,
+  res: Response<ApiResponse<EligibilityResult>>
+): Promise<void> {
+  const result = await eligibilityService.checkEligibility(req.body, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * List a patient's coverages
+ * GET /api/patients/:id/coverages
+ */
+export async function listCoverages(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Coverage[]>>
+): Promise<void> {
+  const coverages = await eligibilityService.listCoverages(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: coverages,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Enroll a patient in a plan
+ * POST /api/patients/:id/coverages
+ */
+export async function addCoverage(
+  req: Request<{ id: string }, unknown, CreateCoverageInput>,
+  res: Response<ApiResponse<Coverage>>
+): Promise<void> {
+  const coverage = await eligibilityService.addCoverage(
+    req.params.id,
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(201).json({
+    success: true,
+    data: coverage,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Change the dates of a coverage
+ * PATCH /api/patients/:id/coverages/:coverageId
+ */
+export async function updateCoverage(
+  req: Request<{ id: string; coverageId: string }, unknown, UpdateCoverageInput>,
+  res: Response<ApiResponse<Coverage>>
+): Promise<void> {
+  const coverage = await eligibilityService.updateCoverage(
+    req.params.id,
+    req.params.coverageId,
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: coverage,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * List a patient's benefit accumulators by plan year
+ * GET /api/patients/:id/accumulators
+ */
+export async function listAccumulators(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<BenefitAccumulator[]>>
+): Promise<void> {
+  const accumulators = await eligibilityService.listAccumulators(
+    req.params.id,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: accumulators,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
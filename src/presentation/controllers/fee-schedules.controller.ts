@@ -0,0 +1,118 @@
+import type { Request, Response } from 'express';
+import {
+  feeScheduleService,
+  type FeeScheduleImportReport,
+  type FeeScheduleImportResult,
+} from '../../application/services/fee-schedule.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { FeeScheduleEntry } from '../../domain/entities/index.js';
+import type {
+  CreateFeeScheduleEntryInput,
+  UpdateFeeScheduleEntryInput,
+  ListFeeSchedulesQuery,
+  FeeScheduleImportQuery,
+} from '../../application/validators/index.js';
+
+/**
+ * List fee schedule entries by procedure code, latest first
+ * GET /api/fee-schedules
+ */
+export async function listFeeSchedules(
+  req: Request<unknown, unknown, unknown, ListFeeSchedulesQuery>,
+  res: Response<ApiResponse<PaginatedResult<FeeScheduleEntry>>>
+): Promise<void> {
+  const result = await feeScheduleService.listEntries(
+    req.query as ListFeeSchedulesQuery,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Get a single fee schedule entry
+ * GET /api/fee-schedules/:id
+ */
+export async function getFeeSchedule(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<FeeScheduleEntry>>
+): Promise<void> {
+  const entry = await feeScheduleService.getEntry(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: entry,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Add a fee schedule entry
+ * POST /api/fee-schedules
+ */
+export async function createFeeSchedule(
+  req: Request<unknown, unknown, CreateFeeScheduleEntryInput>,
+  res: Response<ApiResponse<FeeScheduleEntry>>
+): Promise<void> {
+  const entry = await feeScheduleService.createEntry(req.body, req.tenantContext!);
+
+  res.status(201).json({
+    success: true,
+    data: entry,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Change an entry's amount or termination date
+ * PATCH /api/fee-schedules/:id
+ */
+export async function updateFeeSchedule(
+  req: Request<{ id: string }, unknown, UpdateFeeScheduleEntryInput>,
+  res: Response<ApiResponse<FeeScheduleEntry>>
+): Promise<void> {
+  const entry = await feeScheduleService.updateEntry(req.params.id, req.body, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: entry,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Import fee schedule entries from a CSV file
+ * POST /api/fee-schedules/import
+ */
+export async function importFeeSchedules(
+  req: Request<unknown, unknown, unknown, FeeScheduleImportQuery>,
+  res: Response<ApiResponse<FeeScheduleImportReport | FeeScheduleImportResult>>
+): Promise<void> {
+  // express.text leaves an empty object when the content type did not match
+  const content = typeof req.body === 'string' ? req.body : undefined;
+  const { dryRun } = req.query as FeeScheduleImportQuery;
+
+  const result = dryRun
+    ? await feeScheduleService.dryRun(content, req.tenantContext!)
+    : await feeScheduleService.importFile(content, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
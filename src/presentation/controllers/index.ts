@@ -1,4 +1,17 @@
 export * as claimsController from './claims.controller.js';
 export * as patientStatusController from './patient-status.controller.js';
+export * as patientsController from './patients.controller.js';
+export * as providersController from './providers.controller.js';
 export * as authController from './auth.controller.js';
+export * as usersController from './users.controller.js';
+export * as auditController from './audit.controller.js';
+export * as organizationsController from './organizations.controller.js';
+export * as codesController from './codes.controller.js';
+export * as adjudicationRulesController from './adjudication-rules.controller.js';
+export * as paymentsController from './payments.controller.js';
+export * as claimSubmissionsController from './claim-submissions.controller.js';
+export * as appealsController from './appeals.controller.js';
+export * as plansController from './plans.controller.js';
+export * as eligibilityController from './eligibility.controller.js';
+export * as feeSchedulesController from './fee-schedules.controller.js';
 export * as healthController from './health.controller.js';
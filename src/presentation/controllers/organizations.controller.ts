@@ -0,0 +1,138 @@
+import type { Request, Response } from 'express';
+import { organizationService } from '../../application/services/organization.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { Organization } from '../../domain/entities/index.js';
+import type {
+  CreateOrganizationInput,
+  UpdateOrganizationInput,
+  ListOrganizationsQuery,
+} from '../../application/validators/index.js';
+
+/**
+ * Create (onboard) a new organization
+ * POST /api/organizations
+ */
+export async function createOrganization(
+  req: Request<unknown, unknown, CreateOrganizationInput>,
+  res: Response<ApiResponse<Organization>>
+): Promise<void> {
+  const organization = await organizationService.createOrganization(
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(201).json({
+    success: true,
+    data: organization,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * List organizations with pagination
+ * GET /api/organizations
+ */
+export async function listOrganizations(
+  req: Request<unknown, unknown, unknown, ListOrganizationsQuery>,
+  res: Response<ApiResponse<PaginatedResult<Organization>>>
+): Promise<void> {
+  const result = await organizationService.listOrganizations(
+    req.query as ListOrganizationsQuery
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Get a single organization by ID
+ * GET /api/organizations/:id
+ */
+export async function getOrganization(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Organization>>
+): Promise<void> {
+  const organization = await organizationService.getOrganization(req.params.id);
+
+  res.status(200).json({
+    success: true,
+    data: organization,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Update organization name, code or settings
+ * PATCH /api/organizations/:id
+ */
+export async function updateOrganization(
+  req: Request<{ id: string }, unknown, UpdateOrganizationInput>,
+  res: Response<ApiResponse<Organization>>
+): Promise<void> {
+  const organization = await organizationService.updateOrganization(
+    req.params.id,
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: organization,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Activate an organization
+ * POST /api/organizations/:id/activate
+ */
+export async function activateOrganization(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Organization>>
+): Promise<void> {
+  const organization = await organizationService.activateOrganization(
+    req.params.id,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: organization,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Deactivate an organization and revoke its sessions
+ * POST /api/organizations/:id/deactivate
+ */
+export async function deactivateOrganization(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Organization>>
+): Promise<void> {
+  const organization = await organizationService.deactivateOrganization(
+    req.params.id,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: organization,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
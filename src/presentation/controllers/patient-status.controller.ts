@@ -2,7 +2,10 @@ import type { Request, Response } from 'express';
 import { patientStatusService } from '../../application/services/patient-status.service.js';
 import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
 import type { PatientStatusEvent } from '../../domain/entities/index.js';
-import type { CreatePatientStatusInput } from '../../application/validators/index.js';
+import type {
+  CreatePatientStatusInput,
+  PatientStatusHistoryQuery,
+} from '../../application/validators/index.js';
 
 /**
  * Create a patient status change event
@@ -31,18 +34,13 @@ export async function createStatusEvent(
  * GET /api/patient-status/history/:patientId
  */
 export async function getPatientHistory(
-  req: Request<{ patientId: string }, unknown, unknown, { limit?: string; offset?: string }>,
+  req: Request<{ patientId: string }, unknown, unknown, PatientStatusHistoryQuery>,
   res: Response<ApiResponse<PaginatedResult<PatientStatusEvent>>>
 ): Promise<void> {
-  const pagination = {
-    limit: parseInt(req.query.limit || '20', 10),
-    offset: parseInt(req.query.offset || '0', 10),
-  };
-
   const result = await patientStatusService.getPatientHistory(
     req.params.patientId,
     req.tenantContext!,
-    pagination
+    req.query as PatientStatusHistoryQuery
   );
 
   res.status(200).json({
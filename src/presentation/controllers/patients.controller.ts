@@ -0,0 +1,114 @@
+import type { Request, Response } from 'express';
+import { patientService } from '../../application/services/patient.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { Patient } from '../../domain/entities/index.js';
+import type {
+  CreatePatientInput,
+  UpdatePatientInput,
+  ListPatientsQuery,
+} from '../../application/validators/index.js';
+
+/**
+ * Create a new patient
+ * POST /api/patients
+ */
+export async function createPatient(
+  req: Request<unknown, unknown, CreatePatientInput>,
+  res: Response<ApiResponse<Patient>>
+): Promise<void> {
+  const patient = await patientService.createPatient(req.body, req.tenantContext!);
+
+  res.status(201).json({
+    success: true,
+    data: patient,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * List patients with search and pagination
+ * GET /api/patients
+ */
+export async function listPatients(
+  req: Request<unknown, unknown, unknown, ListPatientsQuery>,
+  res: Response<ApiResponse<PaginatedResult<Patient>>>
+): Promise<void> {
+  const result = await patientService.listPatients(
+    req.query as ListPatientsQuery,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Get a single patient by ID
+ * GET /api/patients/:id
+ */
+export async function getPatient(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Patient>>
+): Promise<void> {
+  const patient = await patientService.getPatient(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: patient,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Update patient details
+ * PATCH /api/patients/:id
+ */
+export async function updatePatient(
+  req: Request<{ id: string }, unknown, UpdatePatientInput>,
+  res: Response<ApiResponse<Patient>>
+): Promise<void> {
+  const patient = await patientService.updatePatient(
+    req.params.id,
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: patient,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Deactivate a patient
+ * POST /api/patients/:id/deactivate
+ */
+export async function deactivatePatient(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Patient>>
+): Promise<void> {
+  const patient = await patientService.deactivatePatient(
+    req.params.id,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: patient,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
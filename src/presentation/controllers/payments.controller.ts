@@ -0,0 +1,134 @@
+import type { Request, Response } from 'express';
+import { paymentService } from '../../application/services/payment.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { PaymentBatch } from '../../domain/entities/index.js';
+import type {
+  CreatePaymentBatchInput,
+  ListPaymentBatchesQuery,
+  VoidPaymentBatchInput,
+} from '../../application/validators/index.js';
+
+/**
+ * List payment batches
+ * GET /api/payments
+ */
+export async function listBatches(
+  req: Request<unknown, unknown, unknown, ListPaymentBatchesQuery>,
+  res: Response<ApiResponse<PaginatedResult<PaymentBatch>>>
+): Promise<void> {
+  const result = await paymentService.listBatches(
+    req.query as ListPaymentBatchesQuery,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Get a payment batch with its remittances
+ * GET /api/payments/:id
+ */
+export async function getBatch(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<PaymentBatch>>
+): Promise<void> {
+  const batch = await paymentService.getBatch(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: batch,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Pay approved claims of a provider
+ * POST /api/payments
+ */
+export async function createBatch(
+  req: Request<unknown, unknown, CreatePaymentBatchInput>,
+  res: Response<ApiResponse<PaymentBatch>>
+): Promise<void> {
+  const batch = await paymentService.createBatch(req.body, req.tenantContext!);
+
+  res.status(201).json({
+    success: true,
+    data: batch,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Void a payment batch
+ * POST /api/payments/:id/void
+ */
+export async function voidBatch(
+  req: Request<{ id: string }, unknown, VoidPaymentBatchInput>,
+  res: Response<ApiResponse<PaymentBatch>>
+): Promise<void> {
+  const batch = await paymentService.voidBatch(
+    req.params.id,
+    req.body.reason,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: batch,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Download the latest X12 835 remittance advice of a batch
+ * GET /api/payments/:id/835
+ */
+export async function downloadRemittanceAdvice(
+  req: Request<{ id: string }>,
+  res: Response
+): Promise<void> {
+  const { batch, advice } = await paymentService.getRemittanceAdvice(
+    req.params.id,
+    req.tenantContext!
+  );
+
+  res
+    .status(200)
+    .type('application/edi-x12')
+    .attachment(`${batch.batchNumber}.835`)
+    .send(advice.content);
+}
+
+/**
+ * Queue generation of a batch's 835
+ * POST /api/payments/:id/835
+ */
+export async function generateRemittanceAdvice(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<{ jobId: string }>>
+): Promise<void> {
+  const result = await paymentService.requestRemittanceAdvice(
+    req.params.id,
+    req.tenantContext!
+  );
+
+  res.status(202).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
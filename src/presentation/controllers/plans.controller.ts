@@ -0,0 +1,85 @@
+import type { Request, Response } from 'express';
+import { planService } from '../../application/services/plan.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { Plan } from '../../domain/entities/index.js';
+import type {
+  CreatePlanInput,
+  UpdatePlanInput,
+  ListPlansQuery,
+} from '../../application/validators/index.js';
+
+/**
+ * List the organization's plans by code
+ * GET /api/plans
+ */
+export async function listPlans(
+  req: Request<unknown, unknown, unknown, ListPlansQuery>,
+  res: Response<ApiResponse<PaginatedResult<Plan>>>
+): Promise<void> {
+  const result = await planService.listPlans(req.query as ListPlansQuery, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Get a single plan
+ * GET /api/plans/:id
+ */
+export async function getPlan(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Plan>>
+): Promise<void> {
+  const plan = await planService.getPlan(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: plan,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Create a plan
+ * POST /api/plans
+ */
+export async function createPlan(
+  req: Request<unknown, unknown, CreatePlanInput>,
+  res: Response<ApiResponse<Plan>>
+): Promise<void> {
+  const plan = await planService.createPlan(req.body, req.tenantContext!);
+
+  res.status(201).json({
+    success: true,
+    data: plan,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Update or retire a plan
+ * PATCH /api/plans/:id
+ */
+export async function updatePlan(
+  req: Request<{ id: string }, unknown, UpdatePlanInput>,
+  res: Response<ApiResponse<Plan>>
+): Promise<void> {
+  const plan = await planService.updatePlan(req.params.id, req.body, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: plan,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
@@ -0,0 +1,114 @@
+import type { Request, Response } from 'express';
+import { providerService } from '../../application/services/provider.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { Provider } from '../../domain/entities/index.js';
+import type {
+  CreateProviderInput,
+  UpdateProviderInput,
+  ListProvidersQuery,
+} from '../../application/validators/index.js';
+
+/**
+ * Create a new provider
+ * POST /api/providers
+ */
+export async function createProvider(
+  req: Request<unknown, unknown, CreateProviderInput>,
+  res: Response<ApiResponse<Provider>>
+): Promise<void> {
+  const provider = await providerService.createProvider(req.body, req.tenantContext!);
+
+  res.status(201).json({
+    success: true,
+    data: provider,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * List providers with specialty filter and pagination
+ * GET /api/providers
+ */
+export async function listProviders(
+  req: Request<unknown, unknown, unknown, ListProvidersQuery>,
+  res: Response<ApiResponse<PaginatedResult<Provider>>>
+): Promise<void> {
+  const result = await providerService.listProviders(
+    req.query as ListProvidersQuery,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Get a single provider by ID
+ * GET /api/providers/:id
+ */
+export async function getProvider(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Provider>>
+): Promise<void> {
+  const provider = await providerService.getProvider(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: provider,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Update provider details
+ * PATCH /api/providers/:id
+ */
+export async function updateProvider(
+  req: Request<{ id: string }, unknown, UpdateProviderInput>,
+  res: Response<ApiResponse<Provider>>
+): Promise<void> {
+  const provider = await providerService.updateProvider(
+    req.params.id,
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: provider,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Deactivate a provider
+ * POST /api/providers/:id/deactivate
+ */
+export async function deactivateProvider(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<Provider>>
+): Promise<void> {
+  const provider = await providerService.deactivateProvider(
+    req.params.id,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: provider,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
@@ -0,0 +1,111 @@
+import type { Request, Response } from 'express';
+import { userService } from '../../application/services/user.service.js';
+import type { ApiResponse, PaginatedResult } from '../../shared/types/index.js';
+import type { SafeUser } from '../../domain/entities/index.js';
+import type {
+  CreateUserInput,
+  UpdateUserInput,
+  ListUsersQuery,
+} from '../../application/validators/index.js';
+
+/**
+ * Create or invite a user
+ * POST /api/users
+ */
+export async function createUser(
+  req: Request<unknown, unknown, CreateUserInput>,
+  res: Response<ApiResponse<{ user: SafeUser; temporaryPassword?: string }>>
+): Promise<void> {
+  const result = await userService.createUser(req.body, req.tenantContext!);
+
+  res.status(201).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * List users in the organization
+ * GET /api/users
+ */
+export async function listUsers(
+  req: Request<unknown, unknown, unknown, ListUsersQuery>,
+  res: Response<ApiResponse<PaginatedResult<SafeUser>>>
+): Promise<void> {
+  const result = await userService.listUsers(
+    req.query as ListUsersQuery,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Get a single user by ID
+ * GET /api/users/:id
+ */
+export async function getUser(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<SafeUser>>
+): Promise<void> {
+  const user = await userService.getUser(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: user,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Update a user's name, role or provider/patient link
+ * PATCH /api/users/:id
+ */
+export async function updateUser(
+  req: Request<{ id: string }, unknown, UpdateUserInput>,
+  res: Response<ApiResponse<SafeUser>>
+): Promise<void> {
+  const user = await userService.updateUser(
+    req.params.id,
+    req.body,
+    req.tenantContext!
+  );
+
+  res.status(200).json({
+    success: true,
+    data: user,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Deactivate a user account
+ * POST /api/users/:id/deactivate
+ */
+export async function deactivateUser(
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse<SafeUser>>
+): Promise<void> {
+  const user = await userService.deactivateUser(req.params.id, req.tenantContext!);
+
+  res.status(200).json({
+    success: true,
+    data: user,
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
@@ -32,6 +32,17 @@ function extractToken(req: Request): string | null {
   return token;
 }
 
+/**
+ * Attach client metadata to the tenant context for audit logging
+ */
+function withRequestMetadata(context: TenantContext, req: Request): TenantContext {
+  return {
+    ...context,
+    ipAddress: req.ip || req.socket.remoteAddress,
+    userAgent: req.headers['user-agent'],
+  };
+}
+
 /**
  * Authenticate request and populate tenant context
  * This middleware MUST be applied to all protected routes
@@ -54,7 +65,7 @@ export async function authenticate(
 
     // Get full tenant context (includes fresh assigned claims for processors)
     const tenantContext = await authService.getTenantContext(jwtPayload);
-    req.tenantContext = tenantContext;
+    req.tenantContext = withRequestMetadata(tenantContext, req);
 
     next();
   } catch (error) {
@@ -84,6 +95,11 @@ export function requireRoles(...allowedRoles: UserRole[]) {
   };
 }
 
+/**
+ * Require platform super-admin role (tenant management)
+ */
+export const requireSuperAdmin = requireRoles('super_admin');
+
 /**
  * Require admin role
  */
@@ -124,7 +140,7 @@ export async function optionalAuth(
       const jwtPayload = authService.verifyToken(token);
       req.jwtPayload = jwtPayload;
       const tenantContext = await authService.getTenantContext(jwtPayload);
-      req.tenantContext = tenantContext;
+      req.tenantContext = withRequestMetadata(tenantContext, req);
     }
 
     next();
@@ -29,7 +29,7 @@ export const errorHandler: ErrorRequestHandler = (
   error: Error,
   req: Request,
   res: Response,
-  _next: NextFunction
+  next: NextFunction
 ): void => {
   // Generate request ID for tracking
   const requestId = req.headers['x-request-id'] as string || 
@@ -46,6 +46,13 @@ export const errorHandler: ErrorRequestHandler = (
     userId: req.tenantContext?.userId,
   });
 
+  // Failed while streaming a body (e.g. an export): too late for a JSON
+  // error, so let Express close the connection
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
   // Build error response
   let statusCode = 500;
   let errorCode = 'INTERNAL_ERROR';
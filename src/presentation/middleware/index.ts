@@ -1,6 +1,7 @@
 export {
   authenticate,
   requireRoles,
+  requireSuperAdmin,
   requireAdmin,
   requireClaimsAccess,
   requireProvider,
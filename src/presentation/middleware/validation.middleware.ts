@@ -1,10 +1,13 @@
 import type { Request, Response, NextFunction } from 'express';
-import type { ZodSchema } from 'zod';
+import type { ZodType, ZodTypeDef } from 'zod';
+
+// Input type is left open so schemas with transforms (e.g. 'true' -> true) are accepted
+type RequestSchema<T> = ZodType<T, ZodTypeDef, unknown>;
 
 /**
  * Validate request body against a Zod schema
  */
-export function validateBody<T>(schema: ZodSchema<T>) {
+export function validateBody<T>(schema: RequestSchema<T>) {
   return (req: Request, _res: Response, next: NextFunction): void => {
     const result = schema.safeParse(req.body);
 
@@ -23,7 +26,7 @@ export function validateBody<T>(schema: ZodSchema<T>) {
 /**
  * Validate request query parameters against a Zod schema
  */
-export function validateQuery<T>(schema: ZodSchema<T>) {
+export function validateQuery<T>(schema: RequestSchema<T>) {
   return (req: Request, _res: Response, next: NextFunction): void => {
     const result = schema.safeParse(req.query);
 
@@ -41,7 +44,7 @@ export function validateQuery<T>(schema: ZodSchema<T>) {
 /**
  * Validate request params against a Zod schema
  */
-export function validateParams<T>(schema: ZodSchema<T>) {
+export function validateParams<T>(schema: RequestSchema<T>) {
   return (req: Request, _res: Response, next: NextFunction): void => {
     const result = schema.safeParse(req.params);
 
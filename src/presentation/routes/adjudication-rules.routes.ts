@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import * as adjudicationRulesController from '../controllers/adjudication-rules.controller.js';
+import {
+  authenticate,
+  requireAdmin,
+  asyncHandler,
+  validateBody,
+  validateParams,
+  validateQuery,
+  rateLimit,
+} from '../middleware/index.js';
+import {
+  createAdjudicationRuleSchema,
+  updateAdjudicationRuleSchema,
+  listAdjudicationRulesQuerySchema,
+  idParamSchema,
+} from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * GET /api/adjudication-rules
+ * List adjudication rules by priority, filterable by isActive
+ * Allowed: admin
+ */
+router.get(
+  '/',
+  requireAdmin,
+  validateQuery(listAdjudicationRulesQuerySchema),
+  asyncHandler(adjudicationRulesController.listRules)
+);
+
+/**
+ * POST /api/adjudication-rules
+ * Add a rule that approves, rejects, pends or assigns matching claims
+ * Allowed: admin
+ */
+router.post(
+  '/',
+  requireAdmin,
+  validateBody(createAdjudicationRuleSchema),
+  asyncHandler(adjudicationRulesController.createRule)
+);
+
+/**
+ * PATCH /api/adjudication-rules/:id
+ * Change a rule's condition, action or priority, or deactivate it
+ * Allowed: admin
+ */
+router.patch(
+  '/:id',
+  requireAdmin,
+  validateParams(idParamSchema),
+  validateBody(updateAdjudicationRuleSchema),
+  asyncHandler(adjudicationRulesController.updateRule)
+);
+
+export default router;
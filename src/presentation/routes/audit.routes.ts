@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import * as auditController from '../controllers/audit.controller.js';
+import {
+  authenticate,
+  requireAdmin,
+  asyncHandler,
+  validateQuery,
+  rateLimit,
+} from '../middleware/index.js';
+import { listAuditLogsQuerySchema } from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * GET /api/audit
+ * List audit log entries, filterable by entity and time range
+ * Allowed: admin
+ */
+router.get(
+  '/',
+  requireAdmin,
+  validateQuery(listAuditLogsQuerySchema),
+  asyncHandler(auditController.listAuditLogs)
+);
+
+export default router;
@@ -24,7 +24,7 @@ router.post(
 
 /**
  * POST /api/auth/register
- * Register a new user
+ * Register a new patient account (unless the organization disables self-registration)
  * Public endpoint with stricter rate limiting
  */
 router.post(
@@ -0,0 +1,74 @@
+import express, { Router } from 'express';
+import * as claimSubmissionsController from '../controllers/claim-submissions.controller.js';
+import {
+  authenticate,
+  requireProvider,
+  asyncHandler,
+  validateParams,
+  validateQuery,
+  rateLimit,
+} from '../middleware/index.js';
+import {
+  listClaimSubmissionsQuerySchema,
+  idParamSchema,
+} from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * POST /api/claim-submissions/837
+ * Submit an X12 837P file (Content-Type: application/edi-x12). Returns the
+ * 999 acknowledgment; claims are created by a background job and reported
+ * per claim on the submission.
+ * Allowed: admin, provider (own claims only)
+ */
+router.post(
+  '/837',
+  requireProvider,
+  express.text({ type: ['application/edi-x12', 'text/plain'], limit: '10mb' }),
+  asyncHandler(claimSubmissionsController.submit837P)
+);
+
+/**
+ * GET /api/claim-submissions
+ * List claim submissions, newest first
+ * Allowed: admin, provider (own submissions only)
+ */
+router.get(
+  '/',
+  requireProvider,
+  validateQuery(listClaimSubmissionsQuerySchema),
+  asyncHandler(claimSubmissionsController.listSubmissions)
+);
+
+/**
+ * GET /api/claim-submissions/:id
+ * Get a submission with its per-claim accept/reject report
+ * Allowed: admin, provider (own submissions only)
+ */
+router.get(
+  '/:id',
+  requireProvider,
+  validateParams(idParamSchema),
+  asyncHandler(claimSubmissionsController.getSubmission)
+);
+
+/**
+ * GET /api/claim-submissions/:id/999
+ * Download the submission's X12 999 acknowledgment
+ * Allowed: admin, provider (own submissions only)
+ */
+router.get(
+  '/:id/999',
+  requireProvider,
+  validateParams(idParamSchema),
+  asyncHandler(claimSubmissionsController.downloadAcknowledgment)
+);
+
+export default router;
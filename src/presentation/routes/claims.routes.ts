@@ -1,12 +1,16 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import * as claimsController from '../controllers/claims.controller.js';
+import * as appealsController from '../controllers/appeals.controller.js';
 import {
   authenticate,
   requireAuthenticated,
   requireClaimsAccess,
+  requireAdmin,
+  requireRoles,
   asyncHandler,
   validateBody,
   validateQuery,
+  validateParams,
   bulkOperationRateLimit,
   rateLimit,
 } from '../middleware/index.js';
@@ -15,6 +19,18 @@ import {
   listClaimsQuerySchema,
   updateClaimStatusSchema,
   bulkStatusUpdateSchema,
+  assignClaimSchema,
+  decideClaimLineSchema,
+  claimLineParamSchema,
+  createAppealSchema,
+  decideAppealSchema,
+  appealParamSchema,
+  appealAttachmentParamSchema,
+  claimImportQuerySchema,
+  claimImportParamSchema,
+  claimExportQuerySchema,
+  claimRiskReportQuerySchema,
+  idParamSchema,
 } from '../../application/validators/index.js';
 
 const router = Router();
@@ -27,7 +43,8 @@ router.use(rateLimit());
 
 /**
  * POST /api/claims
- * Create a new claim
+ * Create a new claim; exact duplicates of an earlier claim get 409 and an
+ * optional Idempotency-Key header makes retries safe
  * Allowed: admin, claims_processor, provider
  */
 router.post(
@@ -39,7 +56,8 @@ router.post(
 
 /**
  * GET /api/claims
- * List claims with filtering and pagination
+ * List claims with filtering and pagination; minRiskScore keeps claims
+ * scored at least that risky
  * Allowed: all authenticated users (filtered by role)
  */
 router.get(
@@ -60,6 +78,86 @@ router.get(
   asyncHandler(claimsController.getClaimStats)
 );
 
+/**
+ * GET /api/claims/risk-report
+ * Providers with the most high-risk claims, with counts per risk reason
+ * Allowed: admin
+ */
+router.get(
+  '/risk-report',
+  requireAdmin,
+  validateQuery(claimRiskReportQuerySchema),
+  asyncHandler(claimsController.getProviderRiskReport)
+);
+
+/**
+ * POST /api/claims/import
+ * Import claims from a CSV (text/csv) or NDJSON (application/x-ndjson)
+ * file as a background job; ?dryRun=true only returns the error report
+ * Allowed: admin, claims_processor
+ */
+router.post(
+  '/import',
+  requireClaimsAccess,
+  bulkOperationRateLimit,
+  validateQuery(claimImportQuerySchema),
+  express.text({
+    type: ['text/csv', 'application/x-ndjson', 'application/ndjson'],
+    limit: '10mb',
+  }),
+  asyncHandler(claimsController.importClaims)
+);
+
+/**
+ * GET /api/claims/import/:jobId
+ * Get an import's progress and per-claim report
+ * Allowed: admin, claims_processor (own imports only)
+ */
+router.get(
+  '/import/:jobId',
+  requireClaimsAccess,
+  validateParams(claimImportParamSchema),
+  asyncHandler(claimsController.getClaimImport)
+);
+
+/**
+ * GET /api/claims/export
+ * Export the claims matching the list filters as CSV, NDJSON or Parquet;
+ * large exports are queued and answered with 202
+ * Allowed: all authenticated users (filtered by role)
+ */
+router.get(
+  '/export',
+  requireAuthenticated,
+  bulkOperationRateLimit,
+  validateQuery(claimExportQuerySchema),
+  asyncHandler(claimsController.exportClaims)
+);
+
+/**
+ * GET /api/claims/exports/:id
+ * Get the status of a background export
+ * Allowed: all authenticated users (own exports; admins all)
+ */
+router.get(
+  '/exports/:id',
+  requireAuthenticated,
+  validateParams(idParamSchema),
+  asyncHandler(claimsController.getClaimExport)
+);
+
+/**
+ * GET /api/claims/exports/:id/download
+ * Download the file of a completed background export
+ * Allowed: all authenticated users (own exports; admins all)
+ */
+router.get(
+  '/exports/:id/download',
+  requireAuthenticated,
+  validateParams(idParamSchema),
+  asyncHandler(claimsController.downloadClaimExport)
+);
+
 /**
  * GET /api/claims/:id
  * Get a single claim
@@ -83,6 +181,70 @@ router.patch(
   asyncHandler(claimsController.updateClaimStatus)
 );
 
+/**
+ * PATCH /api/claims/:id/lines/:lineId
+ * Approve or reject one line of a claim under review; the claim amount is recomputed
+ * Allowed: admin, claims_processor (must be assigned)
+ */
+router.patch(
+  '/:id/lines/:lineId',
+  requireClaimsAccess,
+  validateParams(claimLineParamSchema),
+  validateBody(decideClaimLineSchema),
+  asyncHandler(claimsController.decideClaimLine)
+);
+
+/**
+ * GET /api/claims/:id/appeals
+ * List a claim's appeals with their decisions and attachments
+ * Allowed: all authenticated users (access controlled by service)
+ */
+router.get(
+  '/:id/appeals',
+  requireAuthenticated,
+  validateParams(idParamSchema),
+  asyncHandler(appealsController.listAppeals)
+);
+
+/**
+ * POST /api/claims/:id/appeals
+ * Appeal a rejected claim within the organization's appeal deadline;
+ * the claim becomes appealed and is routed to another processor
+ * Allowed: provider, patient (own claims only)
+ */
+router.post(
+  '/:id/appeals',
+  requireRoles('provider', 'patient'),
+  validateParams(idParamSchema),
+  validateBody(createAppealSchema),
+  asyncHandler(appealsController.fileAppeal)
+);
+
+/**
+ * POST /api/claims/:id/appeals/:appealId/decision
+ * Uphold (claim rejected again) or overturn (claim approved) a pending appeal
+ * Allowed: admin, claims_processor (must be assigned; never the original reviewer)
+ */
+router.post(
+  '/:id/appeals/:appealId/decision',
+  requireClaimsAccess,
+  validateParams(appealParamSchema),
+  validateBody(decideAppealSchema),
+  asyncHandler(appealsController.decideAppeal)
+);
+
+/**
+ * GET /api/claims/:id/appeals/:appealId/attachments/:attachmentId
+ * Download an appeal attachment
+ * Allowed: all authenticated users (access controlled by service)
+ */
+router.get(
+  '/:id/appeals/:appealId/attachments/:attachmentId',
+  requireAuthenticated,
+  validateParams(appealAttachmentParamSchema),
+  asyncHandler(appealsController.downloadAttachment)
+);
+
 /**
  * POST /api/claims/bulk-status-update
  * Bulk update claim statuses
@@ -96,4 +258,63 @@ router.post(
   asyncHandler(claimsController.bulkUpdateStatus)
 );
 
+/**
+ * POST /api/claims/assignments/reconcile
+ * Queue a job that repairs drift between claim assignees and processors' assigned claims
+ * Allowed: admin
+ */
+router.post(
+  '/assignments/reconcile',
+  requireAdmin,
+  asyncHandler(claimsController.reconcileAssignments)
+);
+
+/**
+ * POST /api/claims/assignments/rebalance
+ * Route unassigned open claims and move submitted claims off overloaded processors
+ * Allowed: admin
+ */
+router.post(
+  '/assignments/rebalance',
+  requireAdmin,
+  asyncHandler(claimsController.rebalanceAssignments)
+);
+
+/**
+ * POST /api/claims/:id/assign
+ * Assign a claim to an active claims processor
+ * Allowed: admin
+ */
+router.post(
+  '/:id/assign',
+  requireAdmin,
+  validateParams(idParamSchema),
+  validateBody(assignClaimSchema),
+  asyncHandler(claimsController.assignClaim)
+);
+
+/**
+ * POST /api/claims/:id/unassign
+ * Remove a claim's processor assignment
+ * Allowed: admin
+ */
+router.post(
+  '/:id/unassign',
+  requireAdmin,
+  validateParams(idParamSchema),
+  asyncHandler(claimsController.unassignClaim)
+);
+
+/**
+ * POST /api/claims/:id/adjudicate
+ * Queue a job that re-runs the organization's adjudication rules on an open claim
+ * Allowed: admin
+ */
+router.post(
+  '/:id/adjudicate',
+  requireAdmin,
+  validateParams(idParamSchema),
+  asyncHandler(claimsController.adjudicateClaim)
+);
+
 export default router;
@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import * as codesController from '../controllers/codes.controller.js';
+import {
+  authenticate,
+  requireAdmin,
+  requireAuthenticated,
+  asyncHandler,
+  validateBody,
+  validateParams,
+  validateQuery,
+  rateLimit,
+} from '../middleware/index.js';
+import {
+  searchDiagnosisCodesQuerySchema,
+  createCodePairingRuleSchema,
+  updateCodePairingRuleSchema,
+  listCodePairingRulesQuerySchema,
+  idParamSchema,
+} from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * GET /api/codes/diagnosis
+ * Typeahead search of the ICD-10-CM code set by code prefix or description
+ * Allowed: admin, claims_processor, provider, patient
+ */
+router.get(
+  '/diagnosis',
+  requireAuthenticated,
+  validateQuery(searchDiagnosisCodesQuerySchema),
+  asyncHandler(codesController.searchDiagnosisCodes)
+);
+
+/**
+ * GET /api/codes/pairing-rules
+ * List diagnosis/procedure pairing rules, filterable by procedure code
+ * Allowed: admin
+ */
+router.get(
+  '/pairing-rules',
+  requireAdmin,
+  validateQuery(listCodePairingRulesQuerySchema),
+  asyncHandler(codesController.listPairingRules)
+);
+
+/**
+ * POST /api/codes/pairing-rules
+ * Allow or deny a diagnosis code prefix for a procedure code
+ * Allowed: admin
+ */
+router.post(
+  '/pairing-rules',
+  requireAdmin,
+  validateBody(createCodePairingRuleSchema),
+  asyncHandler(codesController.createPairingRule)
+);
+
+/**
+ * PATCH /api/codes/pairing-rules/:id
+ * Change a rule's effect or reason, or deactivate it
+ * Allowed: admin
+ */
+router.patch(
+  '/pairing-rules/:id',
+  requireAdmin,
+  validateParams(idParamSchema),
+  validateBody(updateCodePairingRuleSchema),
+  asyncHandler(codesController.updatePairingRule)
+);
+
+export default router;
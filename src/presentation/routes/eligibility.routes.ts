@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import * as eligibilityController from '../controllers/eligibility.controller.js';
+import {
+  authenticate,
+  requireRoles,
+  asyncHandler,
+  validateBody,
+  rateLimit,
+} from '../middleware/index.js';
+import { eligibilityCheckSchema } from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * POST /api/eligibility
+ * Coverage status, plan and remaining annual benefits of a member on a
+ * date (today by default)
+ * Allowed: admin, claims_processor, provider
+ */
+router.post(
+  '/',
+  requireRoles('admin', 'claims_processor', 'provider'),
+  validateBody(eligibilityCheckSchema),
+  asyncHandler(eligibilityController.checkEligibility)
+);
+
+export default router;
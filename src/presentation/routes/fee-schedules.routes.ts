@@ -0,0 +1,95 @@
+import express, { Router } from 'express';
+import * as feeSchedulesController from '../controllers/fee-schedules.controller.js';
+import {
+  authenticate,
+  requireAdmin,
+  requireClaimsAccess,
+  asyncHandler,
+  validateBody,
+  validateParams,
+  validateQuery,
+  rateLimit,
+  bulkOperationRateLimit,
+} from '../middleware/index.js';
+import {
+  createFeeScheduleEntrySchema,
+  updateFeeScheduleEntrySchema,
+  listFeeSchedulesQuerySchema,
+  feeScheduleImportQuerySchema,
+  idParamSchema,
+} from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * GET /api/fee-schedules
+ * List fee schedule entries, filterable by procedureCode, providerId,
+ * specialty and the date they are in force on
+ * Allowed: admin, claims_processor
+ */
+router.get(
+  '/',
+  requireClaimsAccess,
+  validateQuery(listFeeSchedulesQuerySchema),
+  asyncHandler(feeSchedulesController.listFeeSchedules)
+);
+
+/**
+ * POST /api/fee-schedules/import
+ * Add or replace entries from a CSV (text/csv) file; ?dryRun=true only
+ * returns the error report
+ * Allowed: admin
+ */
+router.post(
+  '/import',
+  requireAdmin,
+  bulkOperationRateLimit,
+  validateQuery(feeScheduleImportQuerySchema),
+  express.text({ type: 'text/csv', limit: '10mb' }),
+  asyncHandler(feeSchedulesController.importFeeSchedules)
+);
+
+/**
+ * GET /api/fee-schedules/:id
+ * Get a single fee schedule entry
+ * Allowed: admin, claims_processor
+ */
+router.get(
+  '/:id',
+  requireClaimsAccess,
+  validateParams(idParamSchema),
+  asyncHandler(feeSchedulesController.getFeeSchedule)
+);
+
+/**
+ * POST /api/fee-schedules
+ * Add an entry for the organization, a provider or a specialty
+ * Allowed: admin
+ */
+router.post(
+  '/',
+  requireAdmin,
+  validateBody(createFeeScheduleEntrySchema),
+  asyncHandler(feeSchedulesController.createFeeSchedule)
+);
+
+/**
+ * PATCH /api/fee-schedules/:id
+ * Change an entry's amount or termination date
+ * Allowed: admin
+ */
+router.patch(
+  '/:id',
+  requireAdmin,
+  validateParams(idParamSchema),
+  validateBody(updateFeeScheduleEntrySchema),
+  asyncHandler(feeSchedulesController.updateFeeSchedule)
+);
+
+export default router;
@@ -1,7 +1,19 @@
 import { Router } from 'express';
 import claimsRoutes from './claims.routes.js';
 import patientStatusRoutes from './patient-status.routes.js';
+import patientsRoutes from './patients.routes.js';
+import providersRoutes from './providers.routes.js';
 import authRoutes from './auth.routes.js';
+import usersRoutes from './users.routes.js';
+import auditRoutes from './audit.routes.js';
+import organizationsRoutes from './organizations.routes.js';
+import codesRoutes from './codes.routes.js';
+import adjudicationRulesRoutes from './adjudication-rules.routes.js';
+import paymentsRoutes from './payments.routes.js';
+import claimSubmissionsRoutes from './claim-submissions.routes.js';
+import plansRoutes from './plans.routes.js';
+import eligibilityRoutes from './eligibility.routes.js';
+import feeSchedulesRoutes from './fee-schedules.routes.js';
 import healthRoutes from './health.routes.js';
 
 const router = Router();
@@ -9,7 +21,19 @@ const router = Router();
 // API routes
 router.use('/api/claims', claimsRoutes);
 router.use('/api/patient-status', patientStatusRoutes);
+router.use('/api/patients', patientsRoutes);
+router.use('/api/providers', providersRoutes);
 router.use('/api/auth', authRoutes);
+router.use('/api/users', usersRoutes);
+router.use('/api/audit', auditRoutes);
+router.use('/api/organizations', organizationsRoutes);
+router.use('/api/codes', codesRoutes);
+router.use('/api/adjudication-rules', adjudicationRulesRoutes);
+router.use('/api/payments', paymentsRoutes);
+router.use('/api/claim-submissions', claimSubmissionsRoutes);
+router.use('/api/plans', plansRoutes);
+router.use('/api/eligibility', eligibilityRoutes);
+router.use('/api/fee-schedules', feeSchedulesRoutes);
 
 // Health check routes (no /api prefix)
 router.use('/health', healthRoutes);
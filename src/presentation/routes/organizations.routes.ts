@@ -0,0 +1,100 @@
+import { Router } from 'express';
+import * as organizationsController from '../controllers/organizations.controller.js';
+import {
+  authenticate,
+  requireSuperAdmin,
+  asyncHandler,
+  validateBody,
+  validateQuery,
+  validateParams,
+  rateLimit,
+} from '../middleware/index.js';
+import {
+  createOrganizationSchema,
+  updateOrganizationSchema,
+  listOrganizationsQuerySchema,
+  idParamSchema,
+} from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * POST /api/organizations
+ * Onboard a new organization (tenant)
+ * Allowed: super_admin
+ */
+router.post(
+  '/',
+  requireSuperAdmin,
+  validateBody(createOrganizationSchema),
+  asyncHandler(organizationsController.createOrganization)
+);
+
+/**
+ * GET /api/organizations
+ * List organizations
+ * Allowed: super_admin
+ */
+router.get(
+  '/',
+  requireSuperAdmin,
+  validateQuery(listOrganizationsQuerySchema),
+  asyncHandler(organizationsController.listOrganizations)
+);
+
+/**
+ * GET /api/organizations/:id
+ * Get a single organization
+ * Allowed: super_admin
+ */
+router.get(
+  '/:id',
+  requireSuperAdmin,
+  validateParams(idParamSchema),
+  asyncHandler(organizationsController.getOrganization)
+);
+
+/**
+ * PATCH /api/organizations/:id
+ * Update name, code or settings
+ * Allowed: super_admin
+ */
+router.patch(
+  '/:id',
+  requireSuperAdmin,
+  validateParams(idParamSchema),
+  validateBody(updateOrganizationSchema),
+  asyncHandler(organizationsController.updateOrganization)
+);
+
+/**
+ * POST /api/organizations/:id/activate
+ * Reactivate an organization
+ * Allowed: super_admin
+ */
+router.post(
+  '/:id/activate',
+  requireSuperAdmin,
+  validateParams(idParamSchema),
+  asyncHandler(organizationsController.activateOrganization)
+);
+
+/**
+ * POST /api/organizations/:id/deactivate
+ * Deactivate an organization; blocks logins and revokes active sessions
+ * Allowed: super_admin
+ */
+router.post(
+  '/:id/deactivate',
+  requireSuperAdmin,
+  validateParams(idParamSchema),
+  asyncHandler(organizationsController.deactivateOrganization)
+);
+
+export default router;
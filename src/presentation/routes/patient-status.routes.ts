@@ -6,9 +6,13 @@ import {
   requireClaimsAccess,
   asyncHandler,
   validateBody,
+  validateQuery,
   rateLimit,
 } from '../middleware/index.js';
-import { createPatientStatusSchema } from '../../application/validators/index.js';
+import {
+  createPatientStatusSchema,
+  patientStatusHistoryQuerySchema,
+} from '../../application/validators/index.js';
 
 const router = Router();
 
@@ -39,6 +43,7 @@ router.post(
 router.get(
   '/history/:patientId',
   requireAuthenticated,
+  validateQuery(patientStatusHistoryQuerySchema),
   asyncHandler(patientStatusController.getPatientHistory)
 );
 
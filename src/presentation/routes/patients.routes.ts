@@ -0,0 +1,143 @@
+import { Router } from 'express';
+import * as patientsController from '../controllers/patients.controller.js';
+import * as eligibilityController from '../controllers/eligibility.controller.js';
+import {
+  authenticate,
+  requireAuthenticated,
+  requireClaimsAccess,
+  asyncHandler,
+  validateBody,
+  validateQuery,
+  validateParams,
+  rateLimit,
+} from '../middleware/index.js';
+import {
+  createPatientSchema,
+  updatePatientSchema,
+  listPatientsQuerySchema,
+  idParamSchema,
+  createCoverageSchema,
+  updateCoverageSchema,
+  coverageParamSchema,
+} from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * POST /api/patients
+ * Create a new patient
+ * Allowed: admin, claims_processor
+ */
+router.post(
+  '/',
+  requireClaimsAccess,
+  validateBody(createPatientSchema),
+  asyncHandler(patientsController.createPatient)
+);
+
+/**
+ * GET /api/patients
+ * List patients, searchable by name or member ID
+ * Allowed: all authenticated users (filtered by role)
+ */
+router.get(
+  '/',
+  requireAuthenticated,
+  validateQuery(listPatientsQuerySchema),
+  asyncHandler(patientsController.listPatients)
+);
+
+/**
+ * GET /api/patients/:id
+ * Get a single patient
+ * Allowed: all authenticated users (filtered by role)
+ */
+router.get(
+  '/:id',
+  requireAuthenticated,
+  validateParams(idParamSchema),
+  asyncHandler(patientsController.getPatient)
+);
+
+/**
+ * PATCH /api/patients/:id
+ * Update patient details
+ * Allowed: admin, claims_processor
+ */
+router.patch(
+  '/:id',
+  requireClaimsAccess,
+  validateParams(idParamSchema),
+  validateBody(updatePatientSchema),
+  asyncHandler(patientsController.updatePatient)
+);
+
+/**
+ * POST /api/patients/:id/deactivate
+ * Deactivate a patient (soft delete)
+ * Allowed: admin, claims_processor
+ */
+router.post(
+  '/:id/deactivate',
+  requireClaimsAccess,
+  validateParams(idParamSchema),
+  asyncHandler(patientsController.deactivatePatient)
+);
+
+/**
+ * GET /api/patients/:id/coverages
+ * List a patient's plan coverages, newest first
+ * Allowed: all authenticated users (filtered by role)
+ */
+router.get(
+  '/:id/coverages',
+  requireAuthenticated,
+  validateParams(idParamSchema),
+  asyncHandler(eligibilityController.listCoverages)
+);
+
+/**
+ * POST /api/patients/:id/coverages
+ * Enroll a patient in an active plan; coverages may not overlap
+ * Allowed: admin, claims_processor
+ */
+router.post(
+  '/:id/coverages',
+  requireClaimsAccess,
+  validateParams(idParamSchema),
+  validateBody(createCoverageSchema),
+  asyncHandler(eligibilityController.addCoverage)
+);
+
+/**
+ * PATCH /api/patients/:id/coverages/:coverageId
+ * Change a coverage's effective or termination date
+ * Allowed: admin, claims_processor
+ */
+router.patch(
+  '/:id/coverages/:coverageId',
+  requireClaimsAccess,
+  validateParams(coverageParamSchema),
+  validateBody(updateCoverageSchema),
+  asyncHandler(eligibilityController.updateCoverage)
+);
+
+/**
+ * GET /api/patients/:id/accumulators
+ * Deductible, out-of-pocket and plan payments per plan and plan year
+ * Allowed: all authenticated users (filtered by role)
+ */
+router.get(
+  '/:id/accumulators',
+  requireAuthenticated,
+  validateParams(idParamSchema),
+  asyncHandler(eligibilityController.listAccumulators)
+);
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import * as paymentsController from '../controllers/payments.controller.js';
+import {
+  authenticate,
+  requireAdmin,
+  requireProvider,
+  asyncHandler,
+  validateBody,
+  validateParams,
+  validateQuery,
+  rateLimit,
+} from '../middleware/index.js';
+import {
+  createPaymentBatchSchema,
+  voidPaymentBatchSchema,
+  listPaymentBatchesQuerySchema,
+  idParamSchema,
+} from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * POST /api/payments
+ * Pay approved claims of one provider with a check or EFT
+ * Allowed: admin
+ */
+router.post(
+  '/',
+  requireAdmin,
+  validateBody(createPaymentBatchSchema),
+  asyncHandler(paymentsController.createBatch)
+);
+
+/**
+ * GET /api/payments
+ * List payment batches, newest payment first
+ * Allowed: admin, provider (own remittances only)
+ */
+router.get(
+  '/',
+  requireProvider,
+  validateQuery(listPaymentBatchesQuerySchema),
+  asyncHandler(paymentsController.listBatches)
+);
+
+/**
+ * GET /api/payments/:id
+ * Get a payment batch with its remittances
+ * Allowed: admin, provider (own remittances only)
+ */
+router.get(
+  '/:id',
+  requireProvider,
+  validateParams(idParamSchema),
+  asyncHandler(paymentsController.getBatch)
+);
+
+/**
+ * GET /api/payments/:id/835
+ * Download the batch's X12 835 remittance advice
+ * Allowed: admin, provider (own remittances only)
+ */
+router.get(
+  '/:id/835',
+  requireProvider,
+  validateParams(idParamSchema),
+  asyncHandler(paymentsController.downloadRemittanceAdvice)
+);
+
+/**
+ * POST /api/payments/:id/835
+ * Queue (re)generation of the batch's 835
+ * Allowed: admin
+ */
+router.post(
+  '/:id/835',
+  requireAdmin,
+  validateParams(idParamSchema),
+  asyncHandler(paymentsController.generateRemittanceAdvice)
+);
+
+/**
+ * POST /api/payments/:id/void
+ * Void a batch and return its claims to approved
+ * Allowed: admin
+ */
+router.post(
+  '/:id/void',
+  requireAdmin,
+  validateParams(idParamSchema),
+  validateBody(voidPaymentBatchSchema),
+  asyncHandler(paymentsController.voidBatch)
+);
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import * as plansController from '../controllers/plans.controller.js';
+import {
+  authenticate,
+  requireAdmin,
+  requireClaimsAccess,
+  asyncHandler,
+  validateBody,
+  validateParams,
+  validateQuery,
+  rateLimit,
+} from '../middleware/index.js';
+import {
+  createPlanSchema,
+  updatePlanSchema,
+  listPlansQuerySchema,
+  idParamSchema,
+} from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * GET /api/plans
+ * List plans by code, filterable by isActive
+ * Allowed: admin, claims_processor
+ */
+router.get(
+  '/',
+  requireClaimsAccess,
+  validateQuery(listPlansQuerySchema),
+  asyncHandler(plansController.listPlans)
+);
+
+/**
+ * GET /api/plans/:id
+ * Get a single plan
+ * Allowed: admin, claims_processor
+ */
+router.get(
+  '/:id',
+  requireClaimsAccess,
+  validateParams(idParamSchema),
+  asyncHandler(plansController.getPlan)
+);
+
+/**
+ * POST /api/plans
+ * Add a plan patients can be enrolled in
+ * Allowed: admin
+ */
+router.post(
+  '/',
+  requireAdmin,
+  validateBody(createPlanSchema),
+  asyncHandler(plansController.createPlan)
+);
+
+/**
+ * PATCH /api/plans/:id
+ * Change a plan's benefits or plan year, or retire it
+ * Allowed: admin
+ */
+router.patch(
+  '/:id',
+  requireAdmin,
+  validateParams(idParamSchema),
+  validateBody(updatePlanSchema),
+  asyncHandler(plansController.updatePlan)
+);
+
+export default router;
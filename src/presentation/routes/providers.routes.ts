@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import * as providersController from '../controllers/providers.controller.js';
+import {
+  authenticate,
+  requireAdmin,
+  requireProvider,
+  requireRoles,
+  asyncHandler,
+  validateBody,
+  validateQuery,
+  validateParams,
+  rateLimit,
+} from '../middleware/index.js';
+import {
+  createProviderSchema,
+  updateProviderSchema,
+  listProvidersQuerySchema,
+  idParamSchema,
+} from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+const requireDirectoryAccess = requireRoles('admin', 'claims_processor', 'provider');
+
+/**
+ * POST /api/providers
+ * Create a new provider (NPI must pass the check digit and be unique in the org)
+ * Allowed: admin
+ */
+router.post(
+  '/',
+  requireAdmin,
+  validateBody(createProviderSchema),
+  asyncHandler(providersController.createProvider)
+);
+
+/**
+ * GET /api/providers
+ * List providers, filterable by specialty
+ * Allowed: admin, claims_processor, provider (own record only)
+ */
+router.get(
+  '/',
+  requireDirectoryAccess,
+  validateQuery(listProvidersQuerySchema),
+  asyncHandler(providersController.listProviders)
+);
+
+/**
+ * GET /api/providers/:id
+ * Get a single provider
+ * Allowed: admin, claims_processor, provider (own record only)
+ */
+router.get(
+  '/:id',
+  requireDirectoryAccess,
+  validateParams(idParamSchema),
+  asyncHandler(providersController.getProvider)
+);
+
+/**
+ * PATCH /api/providers/:id
+ * Update provider details
+ * Allowed: admin, provider (own contact details and address only)
+ */
+router.patch(
+  '/:id',
+  requireProvider,
+  validateParams(idParamSchema),
+  validateBody(updateProviderSchema),
+  asyncHandler(providersController.updateProvider)
+);
+
+/**
+ * POST /api/providers/:id/deactivate
+ * Deactivate a provider (soft delete)
+ * Allowed: admin
+ */
+router.post(
+  '/:id/deactivate',
+  requireAdmin,
+  validateParams(idParamSchema),
+  asyncHandler(providersController.deactivateProvider)
+);
+
+export default router;
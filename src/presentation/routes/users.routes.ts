@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import * as usersController from '../controllers/users.controller.js';
+import {
+  authenticate,
+  requireAdmin,
+  asyncHandler,
+  validateBody,
+  validateQuery,
+  validateParams,
+  rateLimit,
+} from '../middleware/index.js';
+import {
+  createUserSchema,
+  updateUserSchema,
+  listUsersQuerySchema,
+  idParamSchema,
+} from '../../application/validators/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply general rate limiting
+router.use(rateLimit());
+
+/**
+ * POST /api/users
+ * Create a user, or invite one (no password: a temporary password is returned once)
+ * Allowed: admin
+ */
+router.post(
+  '/',
+  requireAdmin,
+  validateBody(createUserSchema),
+  asyncHandler(usersController.createUser)
+);
+
+/**
+ * GET /api/users
+ * List users in the organization, filterable by role and status
+ * Allowed: admin
+ */
+router.get(
+  '/',
+  requireAdmin,
+  validateQuery(listUsersQuerySchema),
+  asyncHandler(usersController.listUsers)
+);
+
+/**
+ * GET /api/users/:id
+ * Get a single user
+ * Allowed: admin
+ */
+router.get(
+  '/:id',
+  requireAdmin,
+  validateParams(idParamSchema),
+  asyncHandler(usersController.getUser)
+);
+
+/**
+ * PATCH /api/users/:id
+ * Change name or role, link or unlink providerId/patientId
+ * Allowed: admin
+ */
+router.patch(
+  '/:id',
+  requireAdmin,
+  validateParams(idParamSchema),
+  validateBody(updateUserSchema),
+  asyncHandler(usersController.updateUser)
+);
+
+/**
+ * POST /api/users/:id/deactivate
+ * Deactivate an account (its sessions end on the next request)
+ * Allowed: admin
+ */
+router.post(
+  '/:id/deactivate',
+  requireAdmin,
+  validateParams(idParamSchema),
+  asyncHandler(usersController.deactivateUser)
+);
+
+export default router;
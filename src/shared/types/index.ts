@@ -1,5 +1,7 @@
 // User roles in the system
 export const UserRole = {
+  // Platform operator - manages tenants, has no access to tenant data
+  SUPER_ADMIN: 'super_admin',
   ADMIN: 'admin',
   CLAIMS_PROCESSOR: 'claims_processor',
   PROVIDER: 'provider',
@@ -14,11 +16,31 @@ export const ClaimStatus = {
   UNDER_REVIEW: 'under_review',
   APPROVED: 'approved',
   REJECTED: 'rejected',
+  // A rejected claim whose appeal is waiting on a decision
+  APPEALED: 'appealed',
   PAID: 'paid',
 } as const;
 
 export type ClaimStatus = (typeof ClaimStatus)[keyof typeof ClaimStatus];
 
+// Adjudication outcome of a single claim line
+export const ClaimLineStatus = {
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  REJECTED: 'rejected',
+} as const;
+
+export type ClaimLineStatus = (typeof ClaimLineStatus)[keyof typeof ClaimLineStatus];
+
+// Whether a diagnosis/procedure pairing rule permits or forbids the pair
+export const CodePairingEffect = {
+  // The procedure requires one of its allowed diagnoses on the line
+  ALLOW: 'allow',
+  DENY: 'deny',
+} as const;
+
+export type CodePairingEffect = (typeof CodePairingEffect)[keyof typeof CodePairingEffect];
+
 // Patient status types
 export const PatientStatusType = {
   ADMISSION: 'admission',
@@ -28,6 +50,41 @@ export const PatientStatusType = {
 
 export type PatientStatusType = (typeof PatientStatusType)[keyof typeof PatientStatusType];
 
+// Audit log entity types and actions
+export const AuditEntityType = {
+  CLAIM: 'claim',
+  CLAIM_LINE: 'claim_line',
+  PATIENT: 'patient',
+  PATIENT_STATUS_EVENT: 'patient_status_event',
+  PROVIDER: 'provider',
+  ORGANIZATION: 'organization',
+  USER: 'user',
+  CODE_PAIRING_RULE: 'code_pairing_rule',
+  ADJUDICATION_RULE: 'adjudication_rule',
+  PAYMENT_BATCH: 'payment_batch',
+  APPEAL: 'appeal',
+  PLAN: 'plan',
+  COVERAGE: 'coverage',
+  FEE_SCHEDULE: 'fee_schedule',
+} as const;
+
+export type AuditEntityType = (typeof AuditEntityType)[keyof typeof AuditEntityType];
+
+export const AuditAction = {
+  CREATE: 'create',
+  STATUS_CHANGE: 'status_change',
+  BULK_STATUS_CHANGE: 'bulk_status_change',
+  ASSIGN: 'assign',
+  UNASSIGN: 'unassign',
+  ROLE_CHANGE: 'role_change',
+  UPDATE: 'update',
+  ACTIVATE: 'activate',
+  DEACTIVATE: 'deactivate',
+  VOID: 'void',
+} as const;
+
+export type AuditAction = (typeof AuditAction)[keyof typeof AuditAction];
+
 // Tenant context - passed through request lifecycle
 export interface TenantContext {
   organizationId: string;
@@ -39,19 +96,35 @@ export interface TenantContext {
   providerId?: string;
   // For patients - their patient ID  
   patientId?: string;
+  // Request metadata - recorded in the audit log
+  ipAddress?: string;
+  userAgent?: string;
 }
 
 // Pagination types
+// How a list works out its total: estimated reads the planner's row
+// estimate instead of counting, none skips it
+export const PaginationCount = {
+  EXACT: 'exact',
+  ESTIMATED: 'estimated',
+  NONE: 'none',
+} as const;
+
+export type PaginationCount = (typeof PaginationCount)[keyof typeof PaginationCount];
+
 export interface PaginationParams {
   limit: number;
   offset?: number;
+  // Opaque keyset cursor from a previous page's nextCursor; offset is then ignored
   cursor?: string;
+  count?: PaginationCount;
 }
 
 export interface PaginatedResult<T> {
   data: T[];
   pagination: {
-    total: number;
+    total?: number; // Left out with count=none
+    totalEstimated?: boolean; // Set with count=estimated
     limit: number;
     offset: number;
     hasMore: boolean;
@@ -82,11 +155,175 @@ export interface ApiResponse<T = unknown> {
   };
 }
 
+// How new claims are distributed among an organization's claims processors
+export const ClaimRoutingStrategy = {
+  MANUAL: 'manual',
+  ROUND_ROBIN: 'round_robin',
+  LEAST_OPEN: 'least_open',
+  SKILL_BASED: 'skill_based',
+} as const;
+
+export type ClaimRoutingStrategy = (typeof ClaimRoutingStrategy)[keyof typeof ClaimRoutingStrategy];
+
+// What happens to a new claim whose service date no member coverage covers
+export const EligibilityEnforcement = {
+  // Coverage is not checked
+  OFF: 'off',
+  // The claim is created and left under review for a processor
+  PEND: 'pend',
+  // The claim is refused
+  REJECT: 'reject',
+} as const;
+
+export type EligibilityEnforcement =
+  (typeof EligibilityEnforcement)[keyof typeof EligibilityEnforcement];
+
+export const EligibilityStatus = {
+  ACTIVE: 'active',
+  // The member has no coverage in force on the date asked about
+  INACTIVE: 'inactive',
+} as const;
+
+export type EligibilityStatus = (typeof EligibilityStatus)[keyof typeof EligibilityStatus];
+
+// Kind of service a procedure code bills; plans set copays per category
+export const ServiceCategory = {
+  PREVENTIVE: 'preventive',
+  OFFICE_VISIT: 'office_visit',
+  EMERGENCY: 'emergency',
+  INPATIENT: 'inpatient',
+  LABORATORY: 'laboratory',
+  IMAGING: 'imaging',
+  SURGERY: 'surgery',
+  DRUG: 'drug',
+  OTHER: 'other',
+} as const;
+
+export type ServiceCategory = (typeof ServiceCategory)[keyof typeof ServiceCategory];
+
+// Why a claim needs a closer look in review
+export const ClaimFlag = {
+  // Billed at more than the organization's multiple of the fee schedule
+  EXCESSIVE_CHARGE: 'excessive_charge',
+  // Close to an earlier claim of the same patient
+  SUSPECTED_DUPLICATE: 'suspected_duplicate',
+} as const;
+
+export type ClaimFlag = (typeof ClaimFlag)[keyof typeof ClaimFlag];
+
+// Why fraud, waste and abuse scoring found a claim risky
+export const RiskReason = {
+  // The provider billed far more claims this week than usual
+  PROVIDER_VOLUME_SPIKE: 'provider_volume_spike',
+  // Far above what peers charge for the same principal diagnosis
+  AMOUNT_OUTLIER: 'amount_outlier',
+  WEEKEND_SERVICE: 'weekend_service',
+  HOLIDAY_SERVICE: 'holiday_service',
+  // The patient was billed by many providers on the date of service
+  PATIENT_MANY_PROVIDERS: 'patient_many_providers',
+  // A top-level visit from a provider who bills them far more than peers
+  UPCODING: 'upcoding',
+} as const;
+
+export type RiskReason = (typeof RiskReason)[keyof typeof RiskReason];
+
+// What an adjudication rule does to a claim it matches
+export const AdjudicationAction = {
+  APPROVE: 'approve',
+  REJECT: 'reject',
+  // Leave the decision to a human reviewer
+  PEND: 'pend',
+  // Hand the claim to a processor; evaluation continues with the next rule
+  ASSIGN: 'assign',
+} as const;
+
+export type AdjudicationAction = (typeof AdjudicationAction)[keyof typeof AdjudicationAction];
+
+// How a payment batch reaches the provider
+export const PaymentMethod = {
+  CHECK: 'check',
+  EFT: 'eft',
+} as const;
+
+export type PaymentMethod = (typeof PaymentMethod)[keyof typeof PaymentMethod];
+
+export const PaymentBatchStatus = {
+  ISSUED: 'issued',
+  // Reversed; its claims are back to approved
+  VOIDED: 'voided',
+} as const;
+
+export type PaymentBatchStatus = (typeof PaymentBatchStatus)[keyof typeof PaymentBatchStatus];
+
+// X12 claim adjustment group codes (CAS01)
+export const AdjustmentGroupCode = {
+  CONTRACTUAL: 'CO',
+  PATIENT_RESPONSIBILITY: 'PR',
+  OTHER: 'OA',
+  PAYER_INITIATED: 'PI',
+} as const;
+
+export type AdjustmentGroupCode = (typeof AdjustmentGroupCode)[keyof typeof AdjustmentGroupCode];
+
+// File formats accepted for bulk claim intake
+export const ClaimSubmissionFormat = {
+  X12_837P: 'x12_837p',
+  CSV: 'csv',
+  NDJSON: 'ndjson',
+} as const;
+
+export type ClaimSubmissionFormat = (typeof ClaimSubmissionFormat)[keyof typeof ClaimSubmissionFormat];
+
+export const ClaimSubmissionStatus = {
+  // Accepted at the envelope level; claims wait for the intake job
+  RECEIVED: 'received',
+  PROCESSING: 'processing',
+  COMPLETED: 'completed',
+  // Every transaction set was rejected; nothing was queued
+  REJECTED: 'rejected',
+} as const;
+
+export type ClaimSubmissionStatus = (typeof ClaimSubmissionStatus)[keyof typeof ClaimSubmissionStatus];
+
+// Appeal of a rejected claim: upheld keeps the rejection, overturned approves the claim
+export const AppealStatus = {
+  PENDING: 'pending',
+  UPHELD: 'upheld',
+  OVERTURNED: 'overturned',
+} as const;
+
+export type AppealStatus = (typeof AppealStatus)[keyof typeof AppealStatus];
+
+// File formats claims can be exported to
+export const ClaimExportFormat = {
+  CSV: 'csv',
+  NDJSON: 'ndjson',
+  PARQUET: 'parquet',
+} as const;
+
+export type ClaimExportFormat = (typeof ClaimExportFormat)[keyof typeof ClaimExportFormat];
+
+// Background exports only; small ones are streamed in the response
+export const ClaimExportStatus = {
+  QUEUED: 'queued',
+  PROCESSING: 'processing',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const;
+
+export type ClaimExportStatus = (typeof ClaimExportStatus)[keyof typeof ClaimExportStatus];
+
 // Job types for BullMQ
 export const JobType = {
   PATIENT_ADMISSION: 'patient_admission',
   PATIENT_DISCHARGE: 'patient_discharge',
   TREATMENT_INITIATED: 'treatment_initiated',
+  ASSIGNMENT_RECONCILIATION: 'assignment_reconciliation',
+  CLAIM_ADJUDICATION: 'claim_adjudication',
+  REMITTANCE_ADVICE: 'remittance_advice',
+  CLAIM_INTAKE: 'claim_intake',
+  CLAIM_EXPORT: 'claim_export',
+  CLAIM_RISK_SCORING: 'claim_risk_scoring',
 } as const;
 
 export type JobType = (typeof JobType)[keyof typeof JobType];
@@ -113,7 +350,48 @@ export interface TreatmentInitiatedJobData extends BaseJobData {
   treatmentType: string;
 }
 
+// Organization-wide maintenance job, not tied to a patient
+export interface AssignmentReconciliationJobData extends Omit<BaseJobData, 'patientId'> {
+  type: typeof JobType.ASSIGNMENT_RECONCILIATION;
+}
+
+// Runs the organization's adjudication rules against one claim
+export interface ClaimAdjudicationJobData extends Omit<BaseJobData, 'patientId'> {
+  type: typeof JobType.CLAIM_ADJUDICATION;
+  claimId: string;
+}
+
+// Generates the X12 835 remittance advice of one payment batch
+export interface RemittanceAdviceJobData extends Omit<BaseJobData, 'patientId'> {
+  type: typeof JobType.REMITTANCE_ADVICE;
+  batchId: string;
+}
+
+// Creates the claims of one bulk claim submission
+export interface ClaimIntakeJobData extends Omit<BaseJobData, 'patientId'> {
+  type: typeof JobType.CLAIM_INTAKE;
+  submissionId: string;
+}
+
+// Writes the file of a background claims export
+export interface ClaimExportJobData extends Omit<BaseJobData, 'patientId'> {
+  type: typeof JobType.CLAIM_EXPORT;
+  exportId: string;
+}
+
+// Scores one new claim for fraud, waste and abuse risk
+export interface ClaimRiskScoringJobData extends Omit<BaseJobData, 'patientId'> {
+  type: typeof JobType.CLAIM_RISK_SCORING;
+  claimId: string;
+}
+
 export type ClaimJobData = 
   | PatientAdmissionJobData 
   | PatientDischargeJobData 
-  | TreatmentInitiatedJobData;
+  | TreatmentInitiatedJobData
+  | AssignmentReconciliationJobData
+  | ClaimAdjudicationJobData
+  | RemittanceAdviceJobData
+  | ClaimIntakeJobData
+  | ClaimExportJobData
+  | ClaimRiskScoringJobData;
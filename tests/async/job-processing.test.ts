@@ -3,11 +3,18 @@ import {
   processPatientAdmission,
   processPatientDischarge,
   processTreatmentInitiated,
+  processAssignmentReconciliation,
+  processClaimAdjudication,
+  processClaimRiskScoring,
 } from '../../src/infrastructure/queue/jobs/claim-jobs.js';
+import type { AdjudicationRule } from '../../src/domain/entities/index.js';
 import type {
   PatientAdmissionJobData,
   PatientDischargeJobData,
   TreatmentInitiatedJobData,
+  AssignmentReconciliationJobData,
+  ClaimAdjudicationJobData,
+  ClaimRiskScoringJobData,
 } from '../../src/shared/types/index.js';
 
 // Mock repositories
@@ -15,6 +22,19 @@ vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
   claimRepository: {
     findByPatientIdInternal: vi.fn(),
     updateStatusInternal: vi.fn(),
+    reconcileAssignmentsInternal: vi.fn(),
+    findRoutableInternal: vi.fn().mockResolvedValue([]),
+    assignToProcessorInternal: vi.fn(),
+    findAdjudicationFactsInternal: vi.fn(),
+    recordAdjudicationInternal: vi.fn(),
+    findRiskFeaturesInternal: vi.fn(),
+    recordRiskScoreInternal: vi.fn(),
+  },
+  adjudicationRuleRepository: {
+    findActiveInternal: vi.fn(),
+  },
+  userRepository: {
+    findRoutingCandidates: vi.fn().mockResolvedValue([]),
   },
   jobProcessingLogRepository: {
     findByIdempotencyKey: vi.fn(),
@@ -22,15 +42,40 @@ vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
     markCompleted: vi.fn(),
     markFailed: vi.fn(),
   },
+  organizationRepository: {
+    findById: vi.fn(),
+  },
 }));
 
 import {
   claimRepository,
+  adjudicationRuleRepository,
+  userRepository,
   jobProcessingLogRepository,
+  organizationRepository,
 } from '../../src/infrastructure/database/repositories/index.js';
+import { invalidateOrganizationSettings } from '../../src/infrastructure/cache/organization-settings.cache.js';
 
 const mockedClaimRepo = vi.mocked(claimRepository);
+const mockedRuleRepo = vi.mocked(adjudicationRuleRepository);
+const mockedUserRepo = vi.mocked(userRepository);
 const mockedJobLogRepo = vi.mocked(jobProcessingLogRepository);
+const mockedOrgRepo = vi.mocked(organizationRepository);
+
+function mockOrganizationSettings(settings: {
+  requiresManualReview: boolean;
+  autoApproveThreshold?: number;
+}) {
+  mockedOrgRepo.findById.mockResolvedValue({
+    id: 'org-1',
+    name: 'Test Org',
+    code: 'TEST',
+    isActive: true,
+    settings: { maxClaimAmount: 1000000, minClaimAmount: 0.01, ...settings },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
 
 describe('Async Job Processing - Idempotency Tests', () => {
   const baseJobData: PatientAdmissionJobData = {
@@ -78,6 +123,7 @@ describe('Async Job Processing - Idempotency Tests', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    invalidateOrganizationSettings();
   });
 
   describe('processPatientAdmission', () => {
@@ -111,6 +157,50 @@ describe('Async Job Processing - Idempotency Tests', () => {
       expect(mockedJobLogRepo.markCompleted).toHaveBeenCalledWith('log-1', result);
     });
 
+    it('should route reviewed claims to processors without failing on routing errors', async () => {
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
+      mockedJobLogRepo.create.mockResolvedValue({
+        id: 'log-1',
+        organizationId: 'org-1',
+        jobId: 'job-1',
+        jobType: 'patient_admission',
+        idempotencyKey: baseJobData.idempotencyKey,
+        status: 'processing',
+        payload: baseJobData as unknown as Record<string, unknown>,
+        startedAt: new Date(),
+        retryCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      mockedClaimRepo.findByPatientIdInternal.mockResolvedValue(mockClaims);
+      mockedClaimRepo.updateStatusInternal.mockImplementation(async (claimId) => {
+        const claim = mockClaims.find(c => c.id === claimId);
+        return claim ? { ...claim, status: 'under_review' as const } : null;
+      });
+      mockedClaimRepo.findRoutableInternal.mockResolvedValueOnce([
+        { id: 'claim-1', status: 'under_review', diagnosisCode: 'J06.9' },
+        { id: 'claim-2', status: 'under_review', diagnosisCode: 'J18.9' },
+      ]);
+      mockedUserRepo.findRoutingCandidates.mockResolvedValueOnce([
+        { processorId: 'processor-1', openClaimCount: 0 },
+        { processorId: 'processor-2', openClaimCount: 0 },
+      ]);
+      mockedClaimRepo.assignToProcessorInternal
+        .mockResolvedValueOnce({ ...mockClaims[0], assignedTo: 'processor-1' })
+        .mockRejectedValueOnce(new Error('connection reset'));
+
+      const result = await processPatientAdmission(baseJobData);
+
+      expect(mockedClaimRepo.findRoutableInternal).toHaveBeenCalledWith('org-1', ['claim-1', 'claim-2']);
+      // Round-robin spreads the batch across processors
+      expect(mockedClaimRepo.assignToProcessorInternal).toHaveBeenNthCalledWith(1, 'claim-1', 'processor-1', 'org-1');
+      expect(mockedClaimRepo.assignToProcessorInternal).toHaveBeenNthCalledWith(2, 'claim-2', 'processor-2', 'org-1');
+      expect(result.claimsUpdated).toBe(2);
+      expect(mockedJobLogRepo.markCompleted).toHaveBeenCalledWith('log-1', result);
+      expect(mockedJobLogRepo.markFailed).not.toHaveBeenCalled();
+    });
+
     it('should return cached result on duplicate run (idempotency)', async () => {
       const cachedResult = {
         claimsUpdated: 2,
@@ -187,7 +277,8 @@ describe('Async Job Processing - Idempotency Tests', () => {
       triggeredAt: new Date().toISOString(),
     };
 
-    it('should auto-approve claims on discharge', async () => {
+    it('should approve every claim on discharge when manual review is off without a threshold', async () => {
+      mockOrganizationSettings({ requiresManualReview: false });
       mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
       mockedJobLogRepo.create.mockResolvedValue({
         id: 'log-2',
@@ -225,6 +316,68 @@ describe('Async Job Processing - Idempotency Tests', () => {
         'Auto-approved upon patient discharge'
       );
     });
+
+    it('should leave claims under review when the organization requires manual review', async () => {
+      mockOrganizationSettings({ requiresManualReview: true });
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
+      mockedJobLogRepo.create.mockResolvedValue({
+        id: 'log-2',
+        organizationId: 'org-1',
+        jobId: 'job-2',
+        jobType: 'patient_discharge',
+        idempotencyKey: dischargeData.idempotencyKey,
+        status: 'processing',
+        payload: dischargeData as unknown as Record<string, unknown>,
+        startedAt: new Date(),
+        retryCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      mockedClaimRepo.findByPatientIdInternal.mockResolvedValue(
+        mockClaims.map(c => ({ ...c, status: 'under_review' as const }))
+      );
+
+      const result = await processPatientDischarge(dischargeData);
+
+      expect(result.claimsApproved).toBe(0);
+      expect(mockedClaimRepo.updateStatusInternal).not.toHaveBeenCalled();
+      expect(mockedJobLogRepo.markCompleted).toHaveBeenCalledWith('log-2', result);
+    });
+
+    it('should only approve claims below the auto-approve threshold', async () => {
+      mockOrganizationSettings({ requiresManualReview: false, autoApproveThreshold: 175 });
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
+      mockedJobLogRepo.create.mockResolvedValue({
+        id: 'log-2',
+        organizationId: 'org-1',
+        jobId: 'job-2',
+        jobType: 'patient_discharge',
+        idempotencyKey: dischargeData.idempotencyKey,
+        status: 'processing',
+        payload: dischargeData as unknown as Record<string, unknown>,
+        startedAt: new Date(),
+        retryCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const underReviewClaims = mockClaims.map(c => ({
+        ...c,
+        status: 'under_review' as const,
+      }));
+
+      mockedClaimRepo.findByPatientIdInternal.mockResolvedValue(underReviewClaims);
+      mockedClaimRepo.updateStatusInternal.mockImplementation(async (claimId) => {
+        const claim = underReviewClaims.find(c => c.id === claimId);
+        return claim ? { ...claim, status: 'approved' as const } : null;
+      });
+
+      const result = await processPatientDischarge(dischargeData);
+
+      // claim-1 is 150.00, claim-2 is 200.00
+      expect(result.claimIds).toEqual(['claim-1']);
+    });
   });
 
   describe('processTreatmentInitiated', () => {
@@ -273,6 +426,298 @@ describe('Async Job Processing - Idempotency Tests', () => {
       );
     });
   });
+
+  describe('processAssignmentReconciliation', () => {
+    const reconciliationData: AssignmentReconciliationJobData = {
+      organizationId: 'org-1',
+      idempotencyKey: 'job-assignment-reconciliation-job-4',
+      triggeredBy: 'admin-1',
+      jobId: 'job-4',
+      type: 'assignment_reconciliation',
+      triggeredAt: new Date().toISOString(),
+    };
+
+    it('should repair drift and record the result', async () => {
+      const repairResult = {
+        usersRepaired: ['processor-1'],
+        claimsUnassigned: ['claim-9'],
+      };
+
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
+      mockedJobLogRepo.create.mockResolvedValue({
+        id: 'log-4',
+        organizationId: 'org-1',
+        jobId: 'job-4',
+        jobType: 'assignment_reconciliation',
+        idempotencyKey: reconciliationData.idempotencyKey,
+        status: 'processing',
+        payload: reconciliationData as unknown as Record<string, unknown>,
+        startedAt: new Date(),
+        retryCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockedClaimRepo.reconcileAssignmentsInternal.mockResolvedValueOnce(repairResult);
+
+      const result = await processAssignmentReconciliation(reconciliationData);
+
+      expect(result).toEqual(repairResult);
+      expect(mockedClaimRepo.reconcileAssignmentsInternal).toHaveBeenCalledWith('org-1');
+      expect(mockedJobLogRepo.markCompleted).toHaveBeenCalledWith('log-4', repairResult);
+    });
+  });
+
+  describe('processClaimAdjudication', () => {
+    const adjudicationData: ClaimAdjudicationJobData = {
+      organizationId: 'org-1',
+      claimId: 'claim-1',
+      idempotencyKey: 'job-claim-adjudication-job-5',
+      triggeredBy: 'provider-user-1',
+      jobId: 'job-5',
+      type: 'claim_adjudication',
+      triggeredAt: new Date().toISOString(),
+    };
+
+    const facts = {
+      amount: 150,
+      diagnosisCode: 'Z00.00',
+      diagnosisCodes: ['Z00.00'],
+      procedureCodes: ['99213'],
+      providerId: 'provider-1',
+      patientAge: 42,
+      priorClaimCount: 0,
+    };
+
+    function adjudicationRule(overrides: Partial<AdjudicationRule>): AdjudicationRule {
+      return {
+        id: 'rule-1',
+        organizationId: 'org-1',
+        name: 'Rule',
+        priority: 10,
+        condition: { field: 'diagnosisCode', op: 'starts_with', value: 'Z00' },
+        action: 'pend',
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides,
+      };
+    }
+
+    beforeEach(() => {
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
+      mockedJobLogRepo.create.mockResolvedValue({
+        id: 'log-5',
+        organizationId: 'org-1',
+        jobId: 'job-5',
+        jobType: 'claim_adjudication',
+        idempotencyKey: adjudicationData.idempotencyKey,
+        status: 'processing',
+        payload: adjudicationData as unknown as Record<string, unknown>,
+        startedAt: new Date(),
+        retryCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockOrganizationSettings({ requiresManualReview: true });
+    });
+
+    it('should reject through review with the rule\'s denial reason and store the trace', async () => {
+      mockedClaimRepo.findAdjudicationFactsInternal.mockResolvedValueOnce({
+        claim: mockClaims[0],
+        facts,
+      });
+      mockedRuleRepo.findActiveInternal.mockResolvedValueOnce([
+        adjudicationRule({
+          id: 'rule-reject',
+          name: 'Reject adult exams',
+          action: 'reject',
+          denialReason: 'Routine exams are not covered',
+        }),
+      ]);
+      mockedClaimRepo.updateStatusInternal
+        .mockResolvedValueOnce({ ...mockClaims[0], status: 'under_review' })
+        .mockResolvedValueOnce({ ...mockClaims[0], status: 'rejected' });
+
+      const result = await processClaimAdjudication(adjudicationData);
+
+      expect(mockedClaimRepo.updateStatusInternal).toHaveBeenNthCalledWith(
+        1,
+        'claim-1',
+        'org-1',
+        'under_review',
+        'provider-user-1',
+        'Adjudication rule: Reject adult exams'
+      );
+      expect(mockedClaimRepo.updateStatusInternal).toHaveBeenNthCalledWith(
+        2,
+        'claim-1',
+        'org-1',
+        'rejected',
+        'provider-user-1',
+        'Routine exams are not covered'
+      );
+      expect(result.trace).toMatchObject({
+        jobId: 'job-5',
+        rulesEvaluated: 1,
+        decision: 'reject',
+        resultingStatus: 'rejected',
+        fired: [expect.objectContaining({ ruleId: 'rule-reject' })],
+      });
+      expect(mockedClaimRepo.recordAdjudicationInternal).toHaveBeenCalledWith(
+        'claim-1',
+        'org-1',
+        result.trace
+      );
+      expect(mockedJobLogRepo.markCompleted).toHaveBeenCalledWith('log-5', result);
+    });
+
+    it('should assign, then pend the claim under review', async () => {
+      mockedClaimRepo.findAdjudicationFactsInternal.mockResolvedValueOnce({
+        claim: mockClaims[0],
+        facts,
+      });
+      mockedRuleRepo.findActiveInternal.mockResolvedValueOnce([
+        adjudicationRule({ id: 'rule-pend', priority: 20, action: 'pend' }),
+        adjudicationRule({ id: 'rule-assign', priority: 10, action: 'assign', assignTo: 'processor-2' }),
+      ]);
+      mockedClaimRepo.updateStatusInternal.mockResolvedValueOnce({
+        ...mockClaims[0],
+        status: 'under_review',
+      });
+
+      const result = await processClaimAdjudication(adjudicationData);
+
+      expect(mockedClaimRepo.assignToProcessorInternal).toHaveBeenCalledWith(
+        'claim-1',
+        'processor-2',
+        'org-1'
+      );
+      expect(mockedClaimRepo.updateStatusInternal).toHaveBeenCalledTimes(1);
+      expect(result.trace).toMatchObject({
+        decision: 'pend',
+        resultingStatus: 'under_review',
+        fired: [
+          expect.objectContaining({ ruleId: 'rule-assign' }),
+          expect.objectContaining({ ruleId: 'rule-pend' }),
+        ],
+      });
+    });
+
+    it('should leave claims that are no longer open alone', async () => {
+      mockedClaimRepo.findAdjudicationFactsInternal.mockResolvedValueOnce({
+        claim: { ...mockClaims[0], status: 'approved' },
+        facts,
+      });
+
+      const result = await processClaimAdjudication(adjudicationData);
+
+      expect(result).toEqual({ claimId: 'claim-1', adjudicated: false });
+      expect(mockedRuleRepo.findActiveInternal).not.toHaveBeenCalled();
+      expect(mockedClaimRepo.updateStatusInternal).not.toHaveBeenCalled();
+      expect(mockedClaimRepo.recordAdjudicationInternal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processClaimRiskScoring', () => {
+    const scoringData: ClaimRiskScoringJobData = {
+      organizationId: 'org-1',
+      claimId: 'claim-1',
+      idempotencyKey: 'job-claim-risk-scoring-job-6',
+      triggeredBy: 'provider-user-1',
+      jobId: 'job-6',
+      type: 'claim_risk_scoring',
+      triggeredAt: new Date().toISOString(),
+    };
+
+    const features = {
+      // A Saturday
+      serviceDate: new Date('2026-03-14'),
+      amount: 150,
+      procedureCodes: ['99213'],
+      providerRecentClaims: 2,
+      providerBaselineClaims: 24,
+      peerClaimCount: 0,
+      peerAmountMean: 0,
+      peerAmountStdDev: 0,
+      sameDayProviderCount: 1,
+      providerVisits: 0,
+      providerHighLevelVisits: 0,
+      peerVisits: 0,
+      peerHighLevelVisits: 0,
+    };
+
+    beforeEach(() => {
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
+      mockedJobLogRepo.create.mockResolvedValue({
+        id: 'log-6',
+        organizationId: 'org-1',
+        jobId: 'job-6',
+        jobType: 'claim_risk_scoring',
+        idempotencyKey: scoringData.idempotencyKey,
+        status: 'processing',
+        payload: scoringData as unknown as Record<string, unknown>,
+        startedAt: new Date(),
+        retryCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    });
+
+    it('should store the score and reasons without touching the status', async () => {
+      mockedClaimRepo.findRiskFeaturesInternal.mockResolvedValueOnce({
+        claim: mockClaims[0],
+        features,
+      });
+
+      const result = await processClaimRiskScoring(scoringData);
+
+      expect(result).toEqual({
+        claimId: 'claim-1',
+        scored: true,
+        assessment: { score: 0.05, reasons: ['weekend_service'] },
+      });
+      expect(mockedClaimRepo.recordRiskScoreInternal).toHaveBeenCalledWith(
+        'claim-1',
+        'org-1',
+        result.assessment
+      );
+      expect(mockedClaimRepo.updateStatusInternal).not.toHaveBeenCalled();
+      expect(mockedJobLogRepo.markCompleted).toHaveBeenCalledWith('log-6', result);
+    });
+
+    it('should skip a claim that no longer exists', async () => {
+      mockedClaimRepo.findRiskFeaturesInternal.mockResolvedValueOnce(null);
+
+      const result = await processClaimRiskScoring(scoringData);
+
+      expect(result).toEqual({ claimId: 'claim-1', scored: false });
+      expect(mockedClaimRepo.recordRiskScoreInternal).not.toHaveBeenCalled();
+    });
+
+    it('should return the cached result on a duplicate run', async () => {
+      const cached = { claimId: 'claim-1', scored: true };
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValueOnce({
+        id: 'log-6',
+        organizationId: 'org-1',
+        jobId: 'job-6',
+        jobType: 'claim_risk_scoring',
+        idempotencyKey: scoringData.idempotencyKey,
+        status: 'completed',
+        payload: scoringData as unknown as Record<string, unknown>,
+        result: cached,
+        startedAt: new Date(),
+        completedAt: new Date(),
+        retryCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const result = await processClaimRiskScoring(scoringData);
+
+      expect(result).toEqual(cached);
+      expect(mockedClaimRepo.findRiskFeaturesInternal).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe('Async Job Processing - Concurrent Execution', () => {
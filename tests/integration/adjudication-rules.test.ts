@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { adjudicationRuleService } from '../../src/application/services/adjudication-rule.service.js';
+import {
+  evaluateAdjudicationRules,
+  matchesAdjudicationCondition,
+  type AdjudicationFacts,
+  type AdjudicationRule,
+} from '../../src/domain/entities/index.js';
+import { createAdjudicationRuleSchema } from '../../src/application/validators/index.js';
+import { InvalidAssigneeError, ValidationError } from '../../src/domain/errors/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  adjudicationRuleRepository: {
+    findById: vi.fn(),
+    search: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  userRepository: {
+    findByIdWithinOrganization: vi.fn(),
+  },
+  auditLogRepository: {
+    createMany: vi.fn(),
+  },
+}));
+
+import {
+  adjudicationRuleRepository,
+  userRepository,
+  auditLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedRuleRepo = vi.mocked(adjudicationRuleRepository);
+const mockedUserRepo = vi.mocked(userRepository);
+const mockedAuditLogRepo = vi.mocked(auditLogRepository);
+
+function rule(overrides: Partial<AdjudicationRule>): AdjudicationRule {
+  return {
+    id: 'rule-1',
+    organizationId: 'org-1',
+    name: 'Rule',
+    priority: 10,
+    condition: { field: 'amount', op: 'lte', value: 250 },
+    action: 'approve',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const facts: AdjudicationFacts = {
+  amount: 180,
+  diagnosisCode: 'J06.9',
+  diagnosisCodes: ['J06.9', 'R51.9'],
+  procedureCodes: ['99213', '87880'],
+  providerId: 'provider-1',
+  priorClaimCount: 3,
+};
+
+describe('Adjudication rules', () => {
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-1',
+    role: 'admin',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('matchesAdjudicationCondition', () => {
+    it('should combine predicates with all, any and not', () => {
+      expect(
+        matchesAdjudicationCondition(
+          {
+            all: [
+              { field: 'amount', op: 'lte', value: 250 },
+              { any: [{ field: 'diagnosisCode', op: 'starts_with', value: 'S' }, { field: 'priorClaimCount', op: 'gte', value: 3 }] },
+              { not: { field: 'providerId', op: 'eq', value: 'provider-2' } },
+            ],
+          },
+          facts
+        )
+      ).toBe(true);
+      expect(
+        matchesAdjudicationCondition({ not: { field: 'amount', op: 'gt', value: 100 } }, facts)
+      ).toBe(false);
+    });
+
+    it('should match list fields on any element and negate not_in over all of them', () => {
+      expect(
+        matchesAdjudicationCondition({ field: 'diagnosisCodes', op: 'starts_with', value: 'R51' }, facts)
+      ).toBe(true);
+      expect(
+        matchesAdjudicationCondition({ field: 'procedureCodes', op: 'not_in', value: ['87880'] }, facts)
+      ).toBe(false);
+    });
+
+    it('should never match on a fact the claim does not have', () => {
+      expect(
+        matchesAdjudicationCondition({ field: 'patientAge', op: 'lt', value: 18 }, facts)
+      ).toBe(false);
+      expect(
+        matchesAdjudicationCondition({ field: 'providerSpecialty', op: 'neq', value: 'Cardiology' }, facts)
+      ).toBe(false);
+    });
+  });
+
+  describe('evaluateAdjudicationRules', () => {
+    it('should stop at the first deciding rule in priority order', () => {
+      const result = evaluateAdjudicationRules(
+        [
+          rule({ id: 'approve', priority: 30 }),
+          rule({ id: 'reject', priority: 20, action: 'reject', denialReason: 'Not covered' }),
+          rule({ id: 'assign', priority: 10, action: 'assign', assignTo: 'processor-1' }),
+          rule({ id: 'inactive', priority: 5, action: 'pend', isActive: false }),
+        ],
+        facts
+      );
+
+      expect(result.rulesEvaluated).toBe(2);
+      expect(result.fired.map((fired) => fired.ruleId)).toEqual(['assign', 'reject']);
+      expect(result.decision).toMatchObject({ ruleId: 'reject', denialReason: 'Not covered' });
+    });
+
+    it('should report no decision when only assign rules match', () => {
+      const result = evaluateAdjudicationRules(
+        [rule({ action: 'assign', assignTo: 'processor-1', denialReason: 'left over' })],
+        facts
+      );
+
+      expect(result.decision).toBeUndefined();
+      expect(result.fired).toEqual([
+        expect.objectContaining({ assignTo: 'processor-1', denialReason: undefined }),
+      ]);
+    });
+  });
+
+  describe('createAdjudicationRuleSchema', () => {
+    const base = { name: 'Rule', priority: 10, action: 'approve' };
+
+    it('should check that operators and values fit the field', () => {
+      expect(
+        createAdjudicationRuleSchema.safeParse({
+          ...base,
+          condition: { any: [{ field: 'amount', op: 'gt', value: 100 }, { field: 'procedureCodes', op: 'in', value: ['99213'] }] },
+        }).success
+      ).toBe(true);
+
+      for (const condition of [
+        { field: 'diagnosisCode', op: 'gt', value: 5 },
+        { field: 'amount', op: 'eq', value: '100' },
+        { field: 'procedureCodes', op: 'in', value: '99213' },
+        { field: 'memberId', op: 'eq', value: 'x' },
+        { all: [] },
+      ]) {
+        expect(createAdjudicationRuleSchema.safeParse({ ...base, condition }).success).toBe(false);
+      }
+    });
+
+    it('should require what the action needs', () => {
+      const condition = { field: 'amount', op: 'gt', value: 0 };
+
+      expect(
+        createAdjudicationRuleSchema.safeParse({ ...base, condition, action: 'reject' }).error?.issues
+      ).toContainEqual(expect.objectContaining({ path: ['denialReason'] }));
+      expect(
+        createAdjudicationRuleSchema.safeParse({ ...base, condition, action: 'assign' }).error?.issues
+      ).toContainEqual(expect.objectContaining({ path: ['assignTo'] }));
+    });
+  });
+
+  describe('AdjudicationRuleService', () => {
+    it('should create an active rule and audit it', async () => {
+      mockedRuleRepo.create.mockResolvedValue(rule({}));
+
+      await adjudicationRuleService.createRule(
+        { name: 'Rule', priority: 10, condition: { field: 'amount', op: 'lte', value: 250 }, action: 'approve' },
+        adminContext
+      );
+
+      expect(mockedRuleRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationId: 'org-1', isActive: true }),
+        adminContext
+      );
+      expect(mockedAuditLogRepo.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({ entityType: 'adjudication_rule', action: 'create' }),
+      ]);
+    });
+
+    it('should only assign to an active claims processor of the organization', async () => {
+      mockedUserRepo.findByIdWithinOrganization.mockResolvedValue(null);
+
+      await expect(
+        adjudicationRuleService.createRule(
+          {
+            name: 'Assign',
+            priority: 10,
+            condition: { field: 'amount', op: 'gt', value: 0 },
+            action: 'assign',
+            assignTo: '550e8400-e29b-41d4-a716-446655440000',
+          },
+          adminContext
+        )
+      ).rejects.toThrow(InvalidAssigneeError);
+      expect(mockedUserRepo.findByIdWithinOrganization).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        'org-1'
+      );
+      expect(mockedRuleRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to turn a rule into a reject rule without a denial reason', async () => {
+      mockedRuleRepo.findById.mockResolvedValue(rule({}));
+
+      await expect(
+        adjudicationRuleService.updateRule('rule-1', { action: 'reject' }, adminContext)
+      ).rejects.toThrow(ValidationError);
+      expect(mockedRuleRepo.update).not.toHaveBeenCalled();
+    });
+  });
+});
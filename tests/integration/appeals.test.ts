@@ -0,0 +1,394 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import { appealService } from '../../src/application/services/appeal.service.js';
+import { AppealRepository } from '../../src/infrastructure/database/repositories/appeal.repository.js';
+import { runInTransaction } from '../../src/infrastructure/database/connection.js';
+import { claimRoutingService } from '../../src/infrastructure/routing/claim-routing.service.js';
+import { invalidateOrganizationSettings } from '../../src/infrastructure/cache/organization-settings.cache.js';
+import {
+  APPEAL_BODY_MAX_BYTES,
+  createAppealSchema,
+} from '../../src/application/validators/index.js';
+import { createApp } from '../../src/presentation/app.js';
+import {
+  APPEAL_CONSTRAINTS,
+  getAppealDeadline,
+  selectProcessor,
+  type Appeal,
+  type Claim,
+  type RoutingCandidate,
+} from '../../src/domain/entities/index.js';
+import {
+  AppealDeadlinePassedError,
+  ClaimNotAppealableError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../src/domain/errors/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  claimRepository: {
+    findById: vi.fn(),
+  },
+  appealRepository: {
+    findByClaimId: vi.fn(),
+    findAttachment: vi.fn(),
+    create: vi.fn(),
+    decide: vi.fn(),
+  },
+  organizationRepository: {
+    findById: vi.fn(),
+  },
+  auditLogRepository: {
+    createMany: vi.fn(),
+  },
+}));
+
+import {
+  claimRepository,
+  appealRepository,
+  organizationRepository,
+  auditLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedClaimRepo = vi.mocked(claimRepository);
+const mockedAppealRepo = vi.mocked(appealRepository);
+const mockedOrgRepo = vi.mocked(organizationRepository);
+const mockedAuditLogRepo = vi.mocked(auditLogRepository);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function rejectedClaim(rejectedAt: Date, overrides: Partial<Claim> = {}): Claim {
+  return {
+    id: 'claim-1',
+    organizationId: 'org-1',
+    claimNumber: 'CLM-001',
+    patientId: 'patient-1',
+    providerId: 'provider-1',
+    diagnosisCode: 'J06.9',
+    amount: 200,
+    status: 'rejected',
+    denialReason: 'Not medically necessary',
+    serviceDate: new Date('2026-01-10'),
+    submittedAt: new Date('2026-01-11'),
+    processedAt: rejectedAt,
+    statusHistory: [
+      {
+        fromStatus: 'under_review',
+        toStatus: 'rejected',
+        changedBy: 'processor-1',
+        changedAt: rejectedAt,
+        reason: 'Not medically necessary',
+      },
+    ],
+    createdAt: new Date('2026-01-11'),
+    updatedAt: rejectedAt,
+    ...overrides,
+  };
+}
+
+function appeal(overrides: Partial<Appeal> = {}): Appeal {
+  return {
+    id: 'appeal-1',
+    organizationId: 'org-1',
+    claimId: 'claim-1',
+    filedBy: 'provider-user-1',
+    reason: 'Records attached',
+    status: 'pending',
+    originalReviewerId: 'processor-1',
+    deadlineAt: new Date(),
+    attachments: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function mockAppealDeadline(appealDeadlineDays?: number) {
+  mockedOrgRepo.findById.mockResolvedValue({
+    id: 'org-1',
+    name: 'Test Org',
+    code: 'TEST',
+    isActive: true,
+    settings: {
+      maxClaimAmount: 1000000,
+      minClaimAmount: 0.01,
+      requiresManualReview: true,
+      appealDeadlineDays,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+describe('Claim Appeals', () => {
+  const providerContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'provider-user-1',
+    role: 'provider',
+    providerId: 'provider-1',
+  };
+
+  const processorContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'processor-2',
+    role: 'claims_processor',
+    assignedClaimIds: ['claim-1'],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateOrganizationSettings('org-1');
+  });
+
+  describe('getAppealDeadline', () => {
+    it('should count the organization deadline from the last rejection', () => {
+      const rejectedAt = new Date('2026-03-01T12:00:00.000Z');
+      const claim = rejectedClaim(rejectedAt, { processedAt: new Date('2026-01-01') });
+
+      expect(getAppealDeadline(claim, { appealDeadlineDays: 30 } as never)).toEqual(
+        new Date(rejectedAt.getTime() + 30 * DAY)
+      );
+    });
+
+    it('should default to 180 days from processing without a rejection on record', () => {
+      const processedAt = new Date('2026-03-01T00:00:00.000Z');
+      const claim = rejectedClaim(processedAt, { statusHistory: [] });
+
+      expect(getAppealDeadline(claim, {} as never)).toEqual(
+        new Date(processedAt.getTime() + 180 * DAY)
+      );
+    });
+  });
+
+  describe('selectProcessor', () => {
+    it('should never route an appeal to the reviewer who rejected the claim', () => {
+      const candidates: RoutingCandidate[] = [
+        { processorId: 'processor-1', openClaimCount: 0 },
+        { processorId: 'processor-2', openClaimCount: 9 },
+      ];
+
+      expect(
+        selectProcessor('least_open', candidates, {
+          diagnosisCode: 'J06.9',
+          excludedProcessorId: 'processor-1',
+        })?.processorId
+      ).toBe('processor-2');
+      expect(
+        selectProcessor('least_open', candidates.slice(0, 1), {
+          diagnosisCode: 'J06.9',
+          excludedProcessorId: 'processor-1',
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('createAppealSchema', () => {
+    it('should decode base64 attachments', () => {
+      const input = createAppealSchema.parse({
+        reason: 'Operative note attached',
+        attachments: [
+          {
+            fileName: 'note.pdf',
+            contentType: 'Application/PDF',
+            content: Buffer.from('%PDF-1.7').toString('base64'),
+          },
+        ],
+      });
+
+      expect(input.attachments[0].contentType).toBe('application/pdf');
+      expect(input.attachments[0].content.toString()).toBe('%PDF-1.7');
+    });
+
+    it('should reject content that is not base64', () => {
+      const result = createAppealSchema.safeParse({
+        reason: 'See attached',
+        attachments: [{ fileName: 'a.txt', contentType: 'text/plain', content: 'not base64!' }],
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should take the largest appeal the schema allows through the JSON body limit', async () => {
+      const body = {
+        reason: 'x'.repeat(2000),
+        attachments: Array.from({ length: APPEAL_CONSTRAINTS.MAX_ATTACHMENTS }, (_, i) => ({
+          fileName: `${'f'.repeat(250)}${i}.pdf`,
+          contentType: 'application/pdf',
+          content: Buffer.alloc(APPEAL_CONSTRAINTS.MAX_ATTACHMENT_BYTES, i).toString('base64'),
+        })),
+      };
+      const json = JSON.stringify(body);
+      expect(createAppealSchema.safeParse(body).success).toBe(true);
+      expect(Buffer.byteLength(json)).toBeLessThanOrEqual(APPEAL_BODY_MAX_BYTES);
+
+      const app = createApp();
+      const post = (payload: string) =>
+        request(app)
+          .post('/api/claims/1b4e28ba-2fa1-41d2-883f-0016d3cca427/appeals')
+          .set('Content-Type', 'application/json')
+          .send(payload);
+
+      // Parsed, then refused only for want of a token
+      expect((await post(json)).status).toBe(401);
+      // Past the limit the body is refused before authentication
+      const oversized = `${json.slice(0, -1)}${' '.repeat(APPEAL_BODY_MAX_BYTES - json.length + 1)}}`;
+      expect((await post(oversized)).status).not.toBe(401);
+    });
+  });
+
+  describe('fileAppeal', () => {
+    it('should file within the deadline, naming the original reviewer, and route the claim', async () => {
+      const rejectedAt = new Date(Date.now() - 10 * DAY);
+      mockAppealDeadline(30);
+      mockedClaimRepo.findById.mockResolvedValue(
+        rejectedClaim(rejectedAt, { assignedTo: 'processor-1' })
+      );
+      mockedAppealRepo.create.mockResolvedValue(appeal());
+      const routeClaims = vi.spyOn(claimRoutingService, 'routeClaims').mockResolvedValue([]);
+
+      const result = await appealService.fileAppeal(
+        'claim-1',
+        { reason: 'Records attached', attachments: [] },
+        providerContext
+      );
+
+      expect(result.id).toBe('appeal-1');
+      expect(mockedAppealRepo.create).toHaveBeenCalledWith(
+        'claim-1',
+        {
+          reason: 'Records attached',
+          originalReviewerId: 'processor-1',
+          deadlineAt: new Date(rejectedAt.getTime() + 30 * DAY),
+          attachments: [],
+        },
+        providerContext
+      );
+      expect(mockedAuditLogRepo.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({ entityType: 'appeal', action: 'create' }),
+        expect.objectContaining({
+          entityType: 'claim',
+          action: 'status_change',
+          changes: {
+            status: { old: 'rejected', new: 'appealed' },
+            assignedTo: { old: 'processor-1', new: null },
+          },
+        }),
+      ]);
+      expect(routeClaims).toHaveBeenCalledWith('org-1', ['claim-1']);
+    });
+
+    it('should refuse appeals after the deadline', async () => {
+      mockAppealDeadline(30);
+      mockedClaimRepo.findById.mockResolvedValue(rejectedClaim(new Date(Date.now() - 31 * DAY)));
+
+      await expect(
+        appealService.fileAppeal('claim-1', { reason: 'Late', attachments: [] }, providerContext)
+      ).rejects.toThrow(AppealDeadlinePassedError);
+      expect(mockedAppealRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should only appeal rejected claims', async () => {
+      mockedClaimRepo.findById.mockResolvedValue(
+        rejectedClaim(new Date(), { status: 'approved' })
+      );
+
+      await expect(
+        appealService.fileAppeal('claim-1', { reason: 'Why', attachments: [] }, providerContext)
+      ).rejects.toThrow(ClaimNotAppealableError);
+    });
+
+    it('should not find claims the caller cannot see', async () => {
+      mockedClaimRepo.findById.mockResolvedValue(null);
+
+      await expect(
+        appealService.fileAppeal('claim-1', { reason: 'Why', attachments: [] }, providerContext)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('decideAppeal', () => {
+    it('should audit the appeal and the claim leaving appealed', async () => {
+      mockedAppealRepo.decide.mockResolvedValue(
+        appeal({ status: 'overturned', decidedBy: 'processor-2', decisionReason: 'Documented' })
+      );
+
+      await appealService.decideAppeal(
+        'claim-1',
+        'appeal-1',
+        { outcome: 'overturned', reason: 'Documented' },
+        processorContext
+      );
+
+      expect(mockedAuditLogRepo.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({ entityType: 'appeal', action: 'status_change' }),
+        expect.objectContaining({
+          entityType: 'claim',
+          changes: { status: { old: 'appealed', new: 'approved' } },
+        }),
+      ]);
+    });
+  });
+
+  describe('AppealRepository.decide', () => {
+    const repository = new AppealRepository();
+
+    function lockedRows(claim: Record<string, unknown>, appealRow: Record<string, unknown>) {
+      const tx: Record<string, ReturnType<typeof vi.fn>> = {};
+      for (const method of ['select', 'from', 'where', 'limit', 'update', 'set', 'returning']) {
+        tx[method] = vi.fn(() => tx);
+      }
+      tx.for = vi
+        .fn()
+        .mockResolvedValueOnce([claim])
+        .mockResolvedValueOnce([appealRow]);
+      vi.mocked(runInTransaction).mockImplementationOnce((fn) => fn(tx as never) as never);
+      return tx;
+    }
+
+    it('should not let the original reviewer decide, even as an admin', async () => {
+      const tx = lockedRows(
+        { id: 'claim-1', status: 'appealed', assignedTo: null },
+        { id: 'appeal-1', status: 'pending', originalReviewerId: 'admin-1' }
+      );
+
+      await expect(
+        repository.decide(
+          'claim-1',
+          'appeal-1',
+          { outcome: 'overturned', reason: 'Changed my mind' },
+          { organizationId: 'org-1', userId: 'admin-1', role: 'admin' }
+        )
+      ).rejects.toThrow(ForbiddenError);
+      expect(tx.update).not.toHaveBeenCalled();
+    });
+
+    it('should only let processors decide appeals assigned to them', async () => {
+      lockedRows(
+        { id: 'claim-1', status: 'appealed', assignedTo: 'processor-3' },
+        { id: 'appeal-1', status: 'pending', originalReviewerId: 'processor-1' }
+      );
+
+      await expect(
+        repository.decide(
+          'claim-1',
+          'appeal-1',
+          { outcome: 'upheld', reason: 'Still not necessary' },
+          processorContext
+        )
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should not let providers decide appeals', async () => {
+      await expect(
+        repository.decide(
+          'claim-1',
+          'appeal-1',
+          { outcome: 'overturned', reason: 'Please' },
+          providerContext
+        )
+      ).rejects.toThrow(ForbiddenError);
+      expect(runInTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
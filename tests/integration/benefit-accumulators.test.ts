@@ -0,0 +1,297 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  applyCostSharing,
+  reverseCostSharing,
+} from '../../src/infrastructure/database/repositories/benefit-accumulator.repository.js';
+import {
+  computeCostSharing,
+  getCostSharingAdjustments,
+  getServiceCategory,
+  isRemittanceBalanced,
+  type Plan,
+} from '../../src/domain/entities/index.js';
+import type { ClaimRow } from '../../src/infrastructure/database/schema/index.js';
+
+type CostSharingPlan = Pick<
+  Plan,
+  'deductible' | 'coinsurancePercent' | 'outOfPocketMax' | 'copays' | 'annualBenefitMax'
+>;
+
+const plan: CostSharingPlan = {
+  deductible: 500,
+  coinsurancePercent: 20,
+  outOfPocketMax: 2000,
+  copays: { office_visit: 25 },
+};
+
+const fresh = { deductibleMet: 0, outOfPocketMet: 0, planPaid: 0 };
+
+function claimRow(overrides: Partial<ClaimRow> = {}): ClaimRow {
+  return {
+    id: 'claim-1',
+    organizationId: 'org-1',
+    patientId: 'patient-1',
+    procedureCode: '71046',
+    amount: '1000.00',
+    serviceDate: new Date('2026-03-15'),
+    allowedAmount: null,
+    planPaidAmount: null,
+    patientResponsibility: null,
+    benefitAccumulatorId: null,
+    ...overrides,
+  } as ClaimRow;
+}
+
+/**
+ * Transaction stub for applyCostSharing: the approved lines come from the
+ * first where(), the coverage from the first limit() and the locked
+ * accumulator from for()
+ */
+function costSharingTx(
+  lineRows: Record<string, unknown>[],
+  coverageRows: Record<string, unknown>[],
+  accumulatorRow?: Record<string, unknown>
+) {
+  const tx: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of ['select', 'from', 'innerJoin', 'insert', 'values', 'update', 'set']) {
+    tx[method] = vi.fn(() => tx);
+  }
+  tx.where = vi.fn().mockReturnValueOnce(Promise.resolve(lineRows)).mockReturnValue(tx);
+  tx.limit = vi.fn().mockReturnValueOnce(Promise.resolve(coverageRows)).mockReturnValue(tx);
+  tx.onConflictDoNothing = vi.fn().mockResolvedValue(undefined);
+  tx.for = vi.fn().mockResolvedValue(accumulatorRow ? [accumulatorRow] : []);
+  return tx;
+}
+
+describe('Benefit accumulators', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getServiceCategory', () => {
+    it('should place codes by CPT section and HCPCS drug codes', () => {
+      expect(getServiceCategory('99213')).toBe('office_visit');
+      expect(getServiceCategory('99395')).toBe('preventive');
+      expect(getServiceCategory('99284')).toBe('emergency');
+      expect(getServiceCategory('85025')).toBe('laboratory');
+      expect(getServiceCategory('71046')).toBe('imaging');
+      expect(getServiceCategory('29881')).toBe('surgery');
+      expect(getServiceCategory('J1100')).toBe('drug');
+      expect(getServiceCategory('A0428')).toBe('other');
+    });
+  });
+
+  describe('computeCostSharing', () => {
+    it('should apply the deductible, then coinsurance', () => {
+      expect(
+        computeCostSharing(plan, fresh, [{ procedureCode: '71046', allowedAmount: 1000 }])
+      ).toEqual({
+        allowedAmount: 1000,
+        planPaidAmount: 400,
+        patientResponsibility: {
+          deductible: 500,
+          copay: 0,
+          coinsurance: 100,
+          overBenefitMax: 0,
+          total: 600,
+        },
+      });
+    });
+
+    it('should charge a copay once per category instead of deductible and coinsurance', () => {
+      const result = computeCostSharing(plan, fresh, [
+        { procedureCode: '99213', allowedAmount: 120 },
+        { procedureCode: '99214', allowedAmount: 80 },
+        { procedureCode: '85025', allowedAmount: 40 },
+      ]);
+
+      expect(result.patientResponsibility).toEqual({
+        deductible: 40,
+        copay: 25,
+        coinsurance: 0,
+        overBenefitMax: 0,
+        total: 65,
+      });
+      expect(result.planPaidAmount).toBe(175);
+    });
+
+    it('should only charge what is left of the deductible', () => {
+      const result = computeCostSharing(
+        plan,
+        { deductibleMet: 450, outOfPocketMet: 450, planPaid: 0 },
+        [{ procedureCode: '71046', allowedAmount: 250.55 }]
+      );
+
+      expect(result.patientResponsibility.deductible).toBe(50);
+      expect(result.patientResponsibility.coinsurance).toBe(40.11);
+      expect(result.planPaidAmount).toBe(160.44);
+    });
+
+    it('should stop cost sharing at the out-of-pocket maximum', () => {
+      const result = computeCostSharing(
+        plan,
+        { deductibleMet: 500, outOfPocketMet: 1950, planPaid: 6000 },
+        [{ procedureCode: '29881', allowedAmount: 3000 }]
+      );
+
+      expect(result.patientResponsibility.coinsurance).toBe(50);
+      expect(result.patientResponsibility.total).toBe(50);
+      expect(result.planPaidAmount).toBe(2950);
+    });
+
+    it('should leave what the plan would pay past its annual maximum to the patient', () => {
+      const result = computeCostSharing(
+        { ...plan, annualBenefitMax: 5000 },
+        { deductibleMet: 500, outOfPocketMet: 800, planPaid: 4900 },
+        [{ procedureCode: '29881', allowedAmount: 500 }]
+      );
+
+      expect(result.planPaidAmount).toBe(100);
+      expect(result.patientResponsibility).toMatchObject({
+        coinsurance: 100,
+        overBenefitMax: 300,
+        total: 400,
+      });
+    });
+  });
+
+  describe('getCostSharingAdjustments', () => {
+    it('should report each patient share under its own reason code and balance', () => {
+      const costSharing = computeCostSharing(plan, fresh, [
+        { procedureCode: '99213', allowedAmount: 100 },
+        { procedureCode: '71046', allowedAmount: 900 },
+      ]);
+      const adjustments = getCostSharingAdjustments(1200, costSharing);
+
+      expect(adjustments).toEqual([
+        { groupCode: 'CO', reasonCode: '45', amount: 200 },
+        { groupCode: 'PR', reasonCode: '1', amount: 500 },
+        { groupCode: 'PR', reasonCode: '3', amount: 25 },
+        { groupCode: 'PR', reasonCode: '2', amount: 80 },
+      ]);
+      expect(
+        isRemittanceBalanced(1200, costSharing.allowedAmount, costSharing.planPaidAmount, adjustments)
+      ).toBe(true);
+    });
+  });
+
+  describe('applyCostSharing', () => {
+    it('should count the split in the locked accumulator of the plan year', async () => {
+      const tx = costSharingTx(
+        [{ procedureCode: '71046', chargeAmount: '1000.00' }],
+        [
+          {
+            planId: 'plan-1',
+            plan: {
+              id: 'plan-1',
+              organizationId: 'org-1',
+              code: 'PPO',
+              name: 'PPO',
+              annualBenefitMax: null,
+              planYearStartMonth: 1,
+              deductible: '500.00',
+              coinsurancePercent: 20,
+              outOfPocketMax: '2000.00',
+              copays: {},
+              isActive: true,
+            },
+          },
+        ],
+        {
+          id: 'acc-1',
+          organizationId: 'org-1',
+          patientId: 'patient-1',
+          planId: 'plan-1',
+          planYearStart: new Date('2026-01-01'),
+          deductibleMet: '200.00',
+          outOfPocketMet: '200.00',
+          planPaid: '0.00',
+        }
+      );
+
+      const values = await applyCostSharing(tx as never, claimRow());
+
+      expect(tx.values).toHaveBeenCalledWith({
+        organizationId: 'org-1',
+        patientId: 'patient-1',
+        planId: 'plan-1',
+        planYearStart: new Date('2026-01-01'),
+      });
+      expect(tx.for).toHaveBeenCalledWith('update');
+      expect(tx.update).toHaveBeenCalledTimes(1);
+      expect(values).toEqual({
+        allowedAmount: '1000.00',
+        planPaidAmount: '560.00',
+        patientResponsibility: {
+          deductible: 300,
+          copay: 0,
+          coinsurance: 140,
+          overBenefitMax: 0,
+          total: 440,
+        },
+        benefitAccumulatorId: 'acc-1',
+      });
+    });
+
+    it('should pay allowed charges in full without coverage on the service date', async () => {
+      const tx = costSharingTx([{ procedureCode: '71046', chargeAmount: '300.00' }], []);
+
+      const values = await applyCostSharing(tx as never, claimRow());
+
+      expect(values).toMatchObject({
+        allowedAmount: '300.00',
+        planPaidAmount: '300.00',
+        benefitAccumulatorId: null,
+      });
+      expect(tx.insert).not.toHaveBeenCalled();
+      expect(tx.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reverseCostSharing', () => {
+    it('should take the claim back out of its accumulator and clear its cost sharing', async () => {
+      const tx: Record<string, ReturnType<typeof vi.fn>> = {};
+      for (const method of ['select', 'from', 'where', 'update', 'set']) {
+        tx[method] = vi.fn(() => tx);
+      }
+      tx.for = vi.fn().mockResolvedValue([{ id: 'acc-1' }]);
+
+      const values = await reverseCostSharing(
+        tx as never,
+        claimRow({
+          allowedAmount: '1000.00',
+          planPaidAmount: '560.00',
+          patientResponsibility: {
+            deductible: 300,
+            copay: 0,
+            coinsurance: 140,
+            overBenefitMax: 0,
+            total: 440,
+          },
+          benefitAccumulatorId: 'acc-1',
+        })
+      );
+
+      expect(tx.for).toHaveBeenCalledWith('update');
+      expect(tx.update).toHaveBeenCalledTimes(1);
+      expect(values).toEqual({
+        allowedAmount: null,
+        planPaidAmount: null,
+        patientResponsibility: null,
+        benefitAccumulatorId: null,
+      });
+    });
+
+    it('should leave accumulators alone for claims approved without coverage', async () => {
+      const tx = { select: vi.fn(), update: vi.fn() };
+
+      await reverseCostSharing(
+        tx as never,
+        claimRow({ allowedAmount: '300.00', planPaidAmount: '300.00' })
+      );
+
+      expect(tx.select).not.toHaveBeenCalled();
+      expect(tx.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,319 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { encodeClaimExport } from '../../src/infrastructure/export/claim-export.js';
+import { claimExportService } from '../../src/application/services/claim-export.service.js';
+import { processClaimExport } from '../../src/infrastructure/queue/jobs/claim-export-jobs.js';
+import { claimsQueue } from '../../src/infrastructure/queue/queue.js';
+import { claimExportQuerySchema } from '../../src/application/validators/index.js';
+import type { Claim, ClaimExport, User } from '../../src/domain/entities/index.js';
+import { ConflictError, NotFoundError } from '../../src/domain/errors/index.js';
+import type { ClaimExportJobData, TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  claimRepository: {
+    count: vi.fn(),
+    streamMany: vi.fn(),
+  },
+  claimExportRepository: {
+    findById: vi.fn(),
+    create: vi.fn(),
+    findByIdInternal: vi.fn(),
+    markProcessingInternal: vi.fn(),
+    completeInternal: vi.fn(),
+    failInternal: vi.fn(),
+  },
+  userRepository: {
+    findByIdWithinOrganization: vi.fn(),
+  },
+  jobProcessingLogRepository: {
+    findByIdempotencyKey: vi.fn(),
+    create: vi.fn(),
+    markCompleted: vi.fn(),
+    markFailed: vi.fn(),
+  },
+}));
+
+import {
+  claimRepository,
+  claimExportRepository,
+  userRepository,
+  jobProcessingLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedClaimRepo = vi.mocked(claimRepository);
+const mockedExportRepo = vi.mocked(claimExportRepository);
+const mockedUserRepo = vi.mocked(userRepository);
+const mockedJobLogRepo = vi.mocked(jobProcessingLogRepository);
+
+const EXPORT_ID = '3c1d2e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f';
+
+function claim(overrides: Partial<Claim> = {}): Claim {
+  return {
+    id: 'claim-1',
+    organizationId: 'org-1',
+    claimNumber: 'CLM-1',
+    patientId: 'patient-1',
+    providerId: 'provider-1',
+    diagnosisCode: 'J06.9',
+    additionalDiagnosisCodes: ['R05', 'R50.9'],
+    procedureCode: '99213',
+    amount: 140,
+    status: 'submitted',
+    serviceDate: new Date('2025-01-10T00:00:00.000Z'),
+    submittedAt: new Date('2025-01-11T09:30:00.000Z'),
+    statusHistory: [],
+    createdAt: new Date('2025-01-11T09:30:00.000Z'),
+    updatedAt: new Date('2025-01-11T09:30:00.000Z'),
+    ...overrides,
+  };
+}
+
+function claimExport(overrides: Partial<ClaimExport> = {}): ClaimExport {
+  return {
+    id: EXPORT_ID,
+    organizationId: 'org-1',
+    requestedBy: 'processor-1',
+    format: 'csv',
+    status: 'queued',
+    query: { status: 'approved', sortBy: 'createdAt', sortOrder: 'desc' },
+    rowCount: 0,
+    jobId: 'job-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+async function* batchesOf(...batches: Claim[][]): AsyncGenerator<Claim[]> {
+  for (const batch of batches) {
+    yield batch;
+  }
+}
+
+async function readAll(chunks: AsyncIterable<string | Uint8Array>): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const chunk of chunks) {
+    parts.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(parts);
+}
+
+describe('Claims export', () => {
+  const processorContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'processor-1',
+    role: 'claims_processor',
+    assignedClaimIds: ['claim-1'],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('encodeClaimExport', () => {
+    it('should write a CSV header and one quoted row per claim', async () => {
+      const file = await readAll(
+        encodeClaimExport(
+          batchesOf([claim()], [claim({ id: 'claim-2', notes: 'Walk-in, "urgent"' })]),
+          'csv'
+        )
+      );
+      const [header, first, second] = file.toString().split('\r\n');
+
+      expect(header.split(',')).toContain('additionalDiagnosisCodes');
+      expect(first).toContain('claim-1,CLM-1,submitted,patient-1,provider-1,2025-01-10T00:00:00.000Z');
+      expect(first).toContain(',J06.9,R05;R50.9,99213,140,');
+      expect(second).toContain('"Walk-in, ""urgent"""');
+    });
+
+    it('should keep spreadsheets from running CSV cells as formulas', async () => {
+      const notes = ['=HYPERLINK("http://x")', '+1', '-1+1', '@SUM(A1)', '\tcmd', '\rcmd', 'ok'];
+      const file = await readAll(
+        encodeClaimExport(batchesOf(notes.map((note) => claim({ notes: note }))), 'csv')
+      );
+      const rows = file.toString().split('\r\n');
+
+      expect(rows[1]).toContain(`,"'=HYPERLINK(""http://x"")",`);
+      expect(rows[2]).toContain(",'+1,");
+      expect(rows[3]).toContain(",'-1+1,");
+      expect(rows[4]).toContain(",'@SUM(A1),");
+      expect(rows[5]).toContain(",'\tcmd,");
+      expect(rows[6]).toContain(`,"'\rcmd",`);
+      expect(rows[7]).toContain(',,ok,');
+      expect(rows[7]).toContain(',140,');
+    });
+
+    it('should write one JSON object per line with nulls for missing values', async () => {
+      const file = await readAll(encodeClaimExport(batchesOf([claim()]), 'ndjson'));
+      const [line] = file.toString().trim().split('\n');
+
+      expect(JSON.parse(line)).toMatchObject({
+        id: 'claim-1',
+        additionalDiagnosisCodes: ['R05', 'R50.9'],
+        amount: 140,
+        paidAt: null,
+        serviceDate: '2025-01-10T00:00:00.000Z',
+      });
+    });
+
+    it('should write a Parquet file framed by its magic bytes', async () => {
+      const file = await readAll(
+        encodeClaimExport(batchesOf([claim()], [claim({ id: 'claim-2' })]), 'parquet')
+      );
+
+      expect(file.subarray(0, 4).toString()).toBe('PAR1');
+      expect(file.subarray(-4).toString()).toBe('PAR1');
+    });
+  });
+
+  describe('exportClaims', () => {
+    it('should stream small exports with the list filters and the caller\'s access', async () => {
+      mockedClaimRepo.count.mockResolvedValue(2);
+      mockedClaimRepo.streamMany.mockReturnValue(batchesOf([claim(), claim({ id: 'claim-2' })]));
+      const query = claimExportQuerySchema.parse({
+        format: 'ndjson',
+        status: 'approved',
+        procedureCode: '99213',
+        sortBy: 'serviceDate',
+      });
+
+      const result = await claimExportService.exportClaims(query, processorContext);
+
+      const filters = expect.objectContaining({ status: 'approved', procedureCode: '99213' });
+      expect(mockedClaimRepo.count).toHaveBeenCalledWith(processorContext, filters);
+      expect(mockedClaimRepo.streamMany).toHaveBeenCalledWith(
+        processorContext,
+        { filters, sort: { field: 'serviceDate', order: 'desc' } },
+        1000
+      );
+      expect(result.mode).toBe('stream');
+      if (result.mode === 'stream') {
+        expect(result.file.contentType).toBe('application/x-ndjson');
+        const body = await readAll(result.file.body as AsyncIterable<string>);
+        expect(body.toString().trim().split('\n')).toHaveLength(2);
+      }
+      expect(claimsQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should queue a background export when there are too many claims', async () => {
+      mockedClaimRepo.count.mockResolvedValue(50001);
+      mockedExportRepo.create.mockResolvedValue(claimExport({ format: 'parquet' }));
+      const query = claimExportQuerySchema.parse({
+        format: 'parquet',
+        fromDate: '2025-01-01',
+      });
+
+      const result = await claimExportService.exportClaims(query, processorContext);
+
+      expect(result).toEqual({ mode: 'background', export: expect.objectContaining({ id: EXPORT_ID }) });
+      expect(mockedClaimRepo.streamMany).not.toHaveBeenCalled();
+      expect(mockedExportRepo.create).toHaveBeenCalledWith(
+        {
+          format: 'parquet',
+          query: { fromDate: '2025-01-01T00:00:00.000Z', sortBy: 'createdAt', sortOrder: 'desc' },
+          jobId: expect.any(String),
+        },
+        processorContext
+      );
+      expect(claimsQueue.add).toHaveBeenCalledWith(
+        'claim_export',
+        expect.objectContaining({
+          type: 'claim_export',
+          exportId: EXPORT_ID,
+          idempotencyKey: `job-claim-export-${EXPORT_ID}`,
+        }),
+        { jobId: expect.any(String) }
+      );
+    });
+
+    it('should queue without counting when asked for a background export', async () => {
+      mockedExportRepo.create.mockResolvedValue(claimExport());
+
+      const result = await claimExportService.exportClaims(
+        claimExportQuerySchema.parse({ background: 'true' }),
+        processorContext
+      );
+
+      expect(result.mode).toBe('background');
+      expect(mockedClaimRepo.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('openExport', () => {
+    it('should refuse exports that are not completed', async () => {
+      mockedExportRepo.findById.mockResolvedValue(claimExport({ status: 'processing' }));
+
+      await expect(claimExportService.openExport(EXPORT_ID, processorContext)).rejects.toThrow(
+        ConflictError
+      );
+    });
+
+    it('should not find exports of other users', async () => {
+      mockedExportRepo.findById.mockResolvedValue(null);
+
+      await expect(claimExportService.getExport(EXPORT_ID, processorContext)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  describe('claim_export job', () => {
+    const jobData: ClaimExportJobData = {
+      type: 'claim_export',
+      jobId: 'job-1',
+      organizationId: 'org-1',
+      exportId: EXPORT_ID,
+      triggeredBy: 'processor-1',
+      triggeredAt: new Date().toISOString(),
+      idempotencyKey: `job-claim-export-${EXPORT_ID}`,
+    };
+
+    beforeEach(() => {
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
+      mockedJobLogRepo.create.mockResolvedValue({ id: 'log-1' } as never);
+      mockedExportRepo.findByIdInternal.mockResolvedValue(claimExport());
+    });
+
+    it('should write the file with the requester\'s current access', async () => {
+      mockedUserRepo.findByIdWithinOrganization.mockResolvedValue({
+        id: 'processor-1',
+        organizationId: 'org-1',
+        role: 'claims_processor',
+        assignedClaimIds: ['claim-1', 'claim-7'],
+        isActive: true,
+      } as User);
+      const writeExport = vi
+        .spyOn(claimExportService, 'writeExport')
+        .mockResolvedValue({ rowCount: 2, fileSize: 512 });
+
+      const result = await processClaimExport(jobData);
+
+      expect(writeExport).toHaveBeenCalledWith(
+        expect.objectContaining({ id: EXPORT_ID }),
+        expect.objectContaining({ userId: 'processor-1', assignedClaimIds: ['claim-1', 'claim-7'] })
+      );
+      expect(mockedExportRepo.completeInternal).toHaveBeenCalledWith(EXPORT_ID, 'org-1', {
+        rowCount: 2,
+        fileSize: 512,
+      });
+      expect(result).toEqual({ exportId: EXPORT_ID, written: true, rowCount: 2, fileSize: 512 });
+    });
+
+    it('should fail the export when its requester is no longer active', async () => {
+      mockedUserRepo.findByIdWithinOrganization.mockResolvedValue({
+        id: 'processor-1',
+        isActive: false,
+      } as User);
+      const writeExport = vi.spyOn(claimExportService, 'writeExport');
+
+      const result = await processClaimExport(jobData);
+
+      expect(writeExport).not.toHaveBeenCalled();
+      expect(mockedExportRepo.failInternal).toHaveBeenCalledWith(
+        EXPORT_ID,
+        'org-1',
+        'The user who requested the export is no longer active'
+      );
+      expect(result).toEqual({ exportId: EXPORT_ID, written: false });
+    });
+  });
+});
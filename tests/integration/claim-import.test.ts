@@ -0,0 +1,349 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { DrizzleQueryError } from 'drizzle-orm';
+import { parseClaimCsv, parseClaimNdjson } from '../../src/infrastructure/import/claim-file.js';
+import { claimImportService } from '../../src/application/services/claim-import.service.js';
+import { claimsService } from '../../src/application/services/claims.service.js';
+import { processClaimIntake } from '../../src/infrastructure/queue/jobs/claim-intake-jobs.js';
+import { claimsQueue } from '../../src/infrastructure/queue/queue.js';
+import { db } from '../../src/infrastructure/database/connection.js';
+import { ClaimSubmissionRepository } from '../../src/infrastructure/database/repositories/claim-submission.repository.js';
+import type { Claim, ClaimSubmission, Patient, Provider, User } from '../../src/domain/entities/index.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../src/domain/errors/index.js';
+import type { ClaimIntakeJobData, TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  claimSubmissionRepository: {
+    findByJobId: vi.fn(),
+    findByFileHash: vi.fn(),
+    create: vi.fn(),
+    findWithContentInternal: vi.fn(),
+    markProcessingInternal: vi.fn(),
+    addResultInternal: vi.fn(),
+    completeInternal: vi.fn(),
+    deleteInternal: vi.fn(),
+  },
+  providerRepository: {
+    findByNpi: vi.fn(),
+  },
+  patientRepository: {
+    findByMemberId: vi.fn(),
+  },
+  userRepository: {
+    findByIdWithinOrganization: vi.fn(),
+  },
+  jobProcessingLogRepository: {
+    findByIdempotencyKey: vi.fn(),
+    create: vi.fn(),
+    markCompleted: vi.fn(),
+    markFailed: vi.fn(),
+  },
+}));
+
+import {
+  claimSubmissionRepository,
+  providerRepository,
+  patientRepository,
+  userRepository,
+  jobProcessingLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedSubmissionRepo = vi.mocked(claimSubmissionRepository);
+const mockedProviderRepo = vi.mocked(providerRepository);
+const mockedPatientRepo = vi.mocked(patientRepository);
+const mockedUserRepo = vi.mocked(userRepository);
+const mockedJobLogRepo = vi.mocked(jobProcessingLogRepository);
+
+const PATIENT_ID = '1b4e28ba-2fa1-41d2-883f-0016d3cca427';
+const PROVIDER_ID = '5f0c3f5e-7c1a-4e55-9d0f-8a1b2c3d4e5f';
+
+// Two claims: CLM-A with two lines, then a one-line claim without a reference
+const csv = [
+  'claimReference,memberId,providerNpi,serviceDate,diagnosisCodes,procedureCode,modifiers,units,unitCharge,diagnosisPointers,notes',
+  'CLM-A,MEM001,1234567893,2025-01-10,J06.9;R05,99213,25,1,140,1;2,"Follow-up, walk-in"',
+  'CLM-A,,,,,87880,,3,25,1,',
+  ',MEM002,1234567893,2025-01-12,E11.9,99214,,1,200,1,',
+].join('\r\n');
+
+function submission(overrides: Partial<ClaimSubmission> = {}): ClaimSubmission {
+  return {
+    id: 'submission-1',
+    organizationId: 'org-1',
+    format: 'csv',
+    status: 'received',
+    submittedBy: 'processor-1',
+    claimCount: 2,
+    acceptedCount: 0,
+    rejectedCount: 0,
+    results: [],
+    jobId: '8a9f5c1e-3b2d-4c6f-9e8a-7b6c5d4e3f2a',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Claim import (CSV / NDJSON)', () => {
+  const processorContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'processor-1',
+    role: 'claims_processor',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedPatientRepo.findByMemberId.mockResolvedValue({ id: PATIENT_ID } as Patient);
+    mockedProviderRepo.findByNpi.mockResolvedValue({ id: PROVIDER_ID } as Provider);
+  });
+
+  describe('parseClaimCsv / parseClaimNdjson', () => {
+    it('should group rows into claims by claimReference', () => {
+      const claims = parseClaimCsv(csv);
+
+      expect(claims).toHaveLength(2);
+      expect(claims[0]).toMatchObject({
+        reference: 'CLM-A',
+        row: 2,
+        lineRows: [2, 3],
+        memberId: 'MEM001',
+        providerNpi: '1234567893',
+        fields: {
+          diagnosisCode: 'J06.9',
+          additionalDiagnosisCodes: ['R05'],
+          serviceDate: '2025-01-10',
+          notes: 'Follow-up, walk-in',
+          lines: [
+            { procedureCode: '99213', modifiers: ['25'], units: 1, unitCharge: 140, diagnosisPointers: [1, 2] },
+            { procedureCode: '87880', modifiers: [], units: 3, unitCharge: 25, diagnosisPointers: [1] },
+          ],
+        },
+      });
+      expect(claims[1]).toMatchObject({ reference: 'row 4', row: 4, lineRows: [4] });
+    });
+
+    it('should report rows with the wrong number of cells', () => {
+      const [claim] = parseClaimCsv(`${csv.split('\r\n')[0]}\nCLM-B,MEM001`);
+
+      expect(claim.errors).toEqual([
+        { row: 2, reference: 'row 2', message: 'Expected 11 cells, found 2' },
+      ]);
+    });
+
+    it('should refuse unknown and missing columns', () => {
+      expect(() => parseClaimCsv('memberId,colour\nMEM001,red')).toThrow('Unknown columns: colour');
+      expect(() => parseClaimCsv('memberId\nMEM001')).toThrow('Missing columns');
+    });
+
+    it('should read one claim per NDJSON line', () => {
+      const claims = parseClaimNdjson(
+        '{"claimReference":"N-1","memberId":"MEM001","providerNpi":"1234567893","lines":[{},{}]}\n\nnot json\n'
+      );
+
+      expect(claims).toHaveLength(2);
+      expect(claims[0]).toMatchObject({ reference: 'N-1', row: 1, lineRows: [1, 1], fields: { lines: [{}, {}] } });
+      expect(claims[1].errors).toEqual([{ row: 3, reference: 'row 3', message: 'Not a JSON object' }]);
+    });
+  });
+
+  describe('dryRun', () => {
+    it('should validate every claim and point errors at their rows', async () => {
+      mockedPatientRepo.findByMemberId.mockImplementation(async (memberId) =>
+        memberId === 'MEM001' ? ({ id: PATIENT_ID } as Patient) : null
+      );
+      const withBadLine = csv.replace('87880,,3,25', '87880,,three,25');
+
+      const report = await claimImportService.dryRun(withBadLine, 'csv', processorContext);
+
+      expect(report).toMatchObject({ claimCount: 2, validCount: 0, invalidCount: 2 });
+      expect(report.errors).toEqual([
+        { row: 3, reference: 'CLM-A', message: 'lines.1.units: Expected number, received string' },
+        { row: 4, reference: 'row 4', message: 'No patient with member ID MEM002' },
+      ]);
+      expect(mockedSubmissionRepo.create).not.toHaveBeenCalled();
+      expect(claimsQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a body without a supported content type', async () => {
+      await expect(claimImportService.dryRun(csv, undefined, processorContext)).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('importFile', () => {
+    const fileHash = createHash('sha256').update(csv).digest('hex');
+
+    it('should store the file and queue the import keyed by its hash', async () => {
+      mockedSubmissionRepo.findByFileHash.mockResolvedValue(null);
+      mockedSubmissionRepo.create.mockImplementation(async (data) => submission({ ...data }));
+
+      const result = await claimImportService.importFile(csv, 'csv', processorContext);
+
+      expect(mockedSubmissionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ format: 'csv', status: 'received', fileHash, claimCount: 2 }),
+        processorContext
+      );
+      expect(claimsQueue.add).toHaveBeenCalledWith(
+        'claim_intake',
+        expect.objectContaining({
+          type: 'claim_intake',
+          submissionId: 'submission-1',
+          idempotencyKey: `job-claim-import-${fileHash}`,
+        }),
+        { jobId: result.jobId }
+      );
+      expect(result).toMatchObject({ submissionId: 'submission-1', claimCount: 2, duplicate: false });
+    });
+
+    it('should return the original job when the file was already imported', async () => {
+      mockedSubmissionRepo.findByFileHash.mockResolvedValue(submission({ fileHash }));
+
+      const result = await claimImportService.importFile(csv, 'csv', processorContext);
+
+      expect(result).toEqual({
+        jobId: '8a9f5c1e-3b2d-4c6f-9e8a-7b6c5d4e3f2a',
+        submissionId: 'submission-1',
+        claimCount: 2,
+        duplicate: true,
+      });
+      expect(mockedSubmissionRepo.create).not.toHaveBeenCalled();
+      expect(claimsQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should free the file for a new import when the job cannot be queued', async () => {
+      mockedSubmissionRepo.findByFileHash.mockResolvedValue(null);
+      mockedSubmissionRepo.create.mockImplementation(async (data) => submission({ ...data }));
+      vi.mocked(claimsQueue.add).mockRejectedValueOnce(new Error('Redis unavailable'));
+
+      await expect(claimImportService.importFile(csv, 'csv', processorContext)).rejects.toThrow(
+        'Redis unavailable'
+      );
+      expect(mockedSubmissionRepo.deleteInternal).toHaveBeenCalledWith('submission-1', 'org-1');
+
+      // Sent again, the file is queued as a new import
+      const result = await claimImportService.importFile(csv, 'csv', processorContext);
+
+      expect(result.duplicate).toBe(false);
+      expect(claimsQueue.add).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return the other request\'s job when the same file arrives concurrently', async () => {
+      mockedSubmissionRepo.findByFileHash
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(submission({ fileHash }));
+      mockedSubmissionRepo.create.mockRejectedValue(new ConflictError('This file has already been imported'));
+
+      const result = await claimImportService.importFile(csv, 'csv', processorContext);
+
+      expect(result.duplicate).toBe(true);
+      expect(claimsQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should return the other request\'s job when the insert hits the file hash index', async () => {
+      // What postgres-js raises, as Drizzle wraps it
+      vi.mocked(db.returning).mockRejectedValueOnce(
+        new DrizzleQueryError(
+          'insert into "claim_submissions" ...',
+          [],
+          Object.assign(new Error('duplicate key value violates unique constraint'), {
+            code: '23505',
+            constraint_name: 'claim_submissions_org_file_hash_idx',
+          })
+        )
+      );
+      const repository = new ClaimSubmissionRepository();
+      mockedSubmissionRepo.create.mockImplementation((data, context) =>
+        repository.create(data, context)
+      );
+      mockedSubmissionRepo.findByFileHash
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(submission({ fileHash }));
+
+      const result = await claimImportService.importFile(csv, 'csv', processorContext);
+
+      expect(result).toEqual({
+        jobId: '8a9f5c1e-3b2d-4c6f-9e8a-7b6c5d4e3f2a',
+        submissionId: 'submission-1',
+        claimCount: 2,
+        duplicate: true,
+      });
+      expect(claimsQueue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getImport', () => {
+    it('should report progress through the claims', async () => {
+      mockedSubmissionRepo.findByJobId.mockResolvedValue(
+        submission({ status: 'processing', claimCount: 4, acceptedCount: 2, rejectedCount: 1 })
+      );
+
+      const result = await claimImportService.getImport('8a9f5c1e-3b2d-4c6f-9e8a-7b6c5d4e3f2a', processorContext);
+
+      expect(result.progress).toBe(75);
+    });
+
+    it('should not serve EDI submissions', async () => {
+      mockedSubmissionRepo.findByJobId.mockResolvedValue(submission({ format: 'x12_837p' }));
+
+      await expect(
+        claimImportService.getImport('8a9f5c1e-3b2d-4c6f-9e8a-7b6c5d4e3f2a', processorContext)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('claim_intake job on an import', () => {
+    it('should create valid claims and report invalid ones by row', async () => {
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
+      mockedJobLogRepo.create.mockResolvedValue({ id: 'log-1' } as never);
+      mockedUserRepo.findByIdWithinOrganization.mockResolvedValue({
+        id: 'processor-1',
+        organizationId: 'org-1',
+        role: 'claims_processor',
+        isActive: true,
+      } as User);
+      mockedPatientRepo.findByMemberId.mockImplementation(async (memberId) =>
+        memberId === 'MEM001' ? ({ id: PATIENT_ID } as Patient) : null
+      );
+      mockedSubmissionRepo.findWithContentInternal.mockResolvedValue({
+        submission: submission(),
+        content: csv,
+      });
+      mockedSubmissionRepo.completeInternal.mockResolvedValue(
+        submission({ status: 'completed', acceptedCount: 1, rejectedCount: 1 })
+      );
+      const createClaim = vi
+        .spyOn(claimsService, 'createClaim')
+        .mockResolvedValue({ id: 'claim-1', claimNumber: 'CLM-1' } as Claim);
+      const jobData: ClaimIntakeJobData = {
+        type: 'claim_intake',
+        jobId: '8a9f5c1e-3b2d-4c6f-9e8a-7b6c5d4e3f2a',
+        organizationId: 'org-1',
+        submissionId: 'submission-1',
+        triggeredBy: 'processor-1',
+        triggeredAt: new Date().toISOString(),
+        idempotencyKey: 'job-claim-import-abc',
+      };
+
+      await processClaimIntake(jobData);
+
+      expect(createClaim).toHaveBeenCalledTimes(1);
+      expect(createClaim).toHaveBeenCalledWith(
+        expect.objectContaining({
+          patientId: PATIENT_ID,
+          providerId: PROVIDER_ID,
+          diagnosisCode: 'J06.9',
+          serviceDate: new Date('2025-01-10T00:00:00.000Z'),
+          notes: 'Follow-up, walk-in',
+        }),
+        expect.objectContaining({ userId: 'processor-1', role: 'claims_processor' }),
+        'submission-1:1'
+      );
+      expect(mockedSubmissionRepo.addResultInternal).toHaveBeenNthCalledWith(2, 'submission-1', 'org-1', {
+        index: 2,
+        reference: 'row 4',
+        status: 'rejected',
+        errors: ['Row 4: No patient with member ID MEM002'],
+      });
+    });
+  });
+});
@@ -0,0 +1,385 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildX12Interchange, type X12Segment } from '../../src/infrastructure/x12/x12.js';
+import { CLAIM_837P_VERSION, parse837P } from '../../src/infrastructure/x12/claim-837p.js';
+import { processClaimIntake } from '../../src/infrastructure/queue/jobs/claim-intake-jobs.js';
+import { claimIntakeService } from '../../src/application/services/claim-intake.service.js';
+import { claimsService } from '../../src/application/services/claims.service.js';
+import { claimsQueue } from '../../src/infrastructure/queue/queue.js';
+import type { Claim, ClaimSubmission, Patient, Provider, User } from '../../src/domain/entities/index.js';
+import { CodePairingError, ValidationError } from '../../src/domain/errors/index.js';
+import type { ClaimIntakeJobData, TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  claimSubmissionRepository: {
+    findById: vi.fn(),
+    create: vi.fn(),
+    findWithContentInternal: vi.fn(),
+    markProcessingInternal: vi.fn(),
+    addResultInternal: vi.fn(),
+    completeInternal: vi.fn(),
+  },
+  remittanceAdviceRepository: {
+    nextControlNumberInternal: vi.fn(),
+  },
+  providerRepository: {
+    findByNpi: vi.fn(),
+  },
+  patientRepository: {
+    findByMemberId: vi.fn(),
+  },
+  userRepository: {
+    findByIdWithinOrganization: vi.fn(),
+  },
+  jobProcessingLogRepository: {
+    findByIdempotencyKey: vi.fn(),
+    create: vi.fn(),
+    markCompleted: vi.fn(),
+    markFailed: vi.fn(),
+  },
+}));
+
+import {
+  claimSubmissionRepository,
+  remittanceAdviceRepository,
+  providerRepository,
+  patientRepository,
+  userRepository,
+  jobProcessingLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedSubmissionRepo = vi.mocked(claimSubmissionRepository);
+const mockedAdviceRepo = vi.mocked(remittanceAdviceRepository);
+const mockedProviderRepo = vi.mocked(providerRepository);
+const mockedPatientRepo = vi.mocked(patientRepository);
+const mockedUserRepo = vi.mocked(userRepository);
+const mockedJobLogRepo = vi.mocked(jobProcessingLogRepository);
+
+// One billing provider, one subscriber, one claim with two lines
+const claimBody: X12Segment[] = [
+  ['BHT', '0019', '00', '0123', '20250201', '1200', 'CH'],
+  ['NM1', '41', '2', 'CITY GENERAL BILLING', '', '', '', '', '46', 'S1'],
+  ['HL', '1', '', '20', '1'],
+  ['NM1', '85', '2', 'CITY GENERAL HOSPITAL', '', '', '', '', 'XX', '1234567893'],
+  ['HL', '2', '1', '22', '0'],
+  ['SBR', 'P', '18'],
+  ['NM1', 'IL', '1', 'DOE', 'JOHN', '', '', '', 'MI', 'MEM001'],
+  ['CLM', 'PCN-1', '215', '', '', '11:B:1', 'Y', 'A', 'Y', 'Y'],
+  ['HI', 'ABK:J069', 'ABF:R05'],
+  ['LX', '1'],
+  ['SV1', 'HC:99213:25', '140', 'UN', '1', '', '', '1:2'],
+  ['DTP', '472', 'D8', '20250110'],
+  ['LX', '2'],
+  ['SV1', 'HC:87880', '75', 'UN', '3', '', '', '1'],
+  ['DTP', '472', 'D8', '20250110'],
+];
+
+function file837(body: X12Segment[] = claimBody, functionalIdCode = 'HC'): string {
+  return buildX12Interchange(
+    {
+      senderQualifier: 'ZZ',
+      senderId: 'CITYGENERAL',
+      receiverQualifier: '30',
+      receiverId: '741234567',
+      functionalIdCode,
+      version: CLAIM_837P_VERSION,
+      implementationReference: CLAIM_837P_VERSION,
+      controlNumber: 1001,
+      createdAt: new Date('2025-02-01T12:00:00.000Z'),
+    },
+    '837',
+    body
+  );
+}
+
+function submission(overrides: Partial<ClaimSubmission> = {}): ClaimSubmission {
+  return {
+    id: 'submission-1',
+    organizationId: 'org-1',
+    format: 'x12_837p',
+    status: 'received',
+    submittedBy: 'provider-user-1',
+    providerId: 'provider-1',
+    claimCount: 1,
+    acceptedCount: 0,
+    rejectedCount: 0,
+    results: [],
+    jobId: 'job-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Claim intake (X12 837P)', () => {
+  const providerContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'provider-user-1',
+    role: 'provider',
+    providerId: 'provider-1',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parse837P', () => {
+    it('should read the billing provider, subscriber, diagnoses and service lines', () => {
+      const { interchange, transactions } = parse837P(file837());
+
+      expect(interchange.functionalIdCode).toBe('HC');
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0].rejectionCode).toBeUndefined();
+      expect(transactions[0].claims).toEqual([
+        {
+          patientControlNumber: 'PCN-1',
+          totalCharge: 215,
+          billingProviderNpi: '1234567893',
+          subscriberMemberId: 'MEM001',
+          dependentPatient: false,
+          diagnosisCodes: ['J069', 'R05'],
+          lines: [
+            {
+              lineNumber: 1,
+              procedureCode: '99213',
+              modifiers: ['25'],
+              chargeAmount: 140,
+              units: 1,
+              diagnosisPointers: [1, 2],
+              serviceDate: new Date('2025-01-10T00:00:00.000Z'),
+            },
+            {
+              lineNumber: 2,
+              procedureCode: '87880',
+              modifiers: [],
+              chargeAmount: 75,
+              units: 3,
+              diagnosisPointers: [1],
+              serviceDate: new Date('2025-01-10T00:00:00.000Z'),
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should reject a transaction set with segment errors and report each one', () => {
+      const body = claimBody.map((segment) =>
+        segment[0] === 'SV1' && segment[1] === 'HC:87880' ? ['SV1', 'HC:87880', '75', 'MJ', '3'] : segment
+      );
+
+      const [transaction] = parse837P(file837(body)).transactions;
+
+      expect(transaction.rejectionCode).toBe('5');
+      expect(transaction.claims).toEqual([]);
+      expect(transaction.errors).toEqual([
+        expect.objectContaining({ segmentId: 'SV1', position: 15, code: '8' }),
+      ]);
+    });
+
+    it('should reject a transaction set whose SE count is wrong', () => {
+      const text = file837().replace('SE*17*1001~', 'SE*16*1001~');
+
+      const [transaction] = parse837P(text).transactions;
+
+      expect(transaction.rejectionCode).toBe('4');
+    });
+
+    it('should refuse a functional group that is not health care claims', () => {
+      expect(() => parse837P(file837(claimBody, 'HP'))).toThrow('GS01');
+    });
+  });
+
+  describe('submit837P', () => {
+    it('should acknowledge the file with a 999 and queue the intake job', async () => {
+      mockedAdviceRepo.nextControlNumberInternal.mockResolvedValue(77);
+      mockedSubmissionRepo.create.mockImplementation(async (data) => submission({ ...data }));
+
+      const result = await claimIntakeService.submit837P(file837(), providerContext);
+
+      const created = mockedSubmissionRepo.create.mock.calls[0][0];
+      expect(created).toMatchObject({ format: 'x12_837p', status: 'received', claimCount: 1 });
+      expect(created.acknowledgment).toContain('GS*FA*741234567*CITYGENERAL*');
+      expect(created.acknowledgment).toContain('AK1*HC*1001*005010X222A1~');
+      expect(created.acknowledgment).toContain('AK2*837*1001*005010X222A1~IK5*A~AK9*A*1*1*1~');
+      expect(claimsQueue.add).toHaveBeenCalledWith(
+        'claim_intake',
+        expect.objectContaining({
+          type: 'claim_intake',
+          organizationId: 'org-1',
+          submissionId: 'submission-1',
+          jobId: created.jobId,
+        }),
+        { jobId: created.jobId }
+      );
+      expect(result.status).toBe('received');
+    });
+
+    it('should record a fully rejected file without queueing anything', async () => {
+      mockedAdviceRepo.nextControlNumberInternal.mockResolvedValue(78);
+      mockedSubmissionRepo.create.mockImplementation(async (data) => submission({ ...data }));
+      const text = file837().replace('SE*17*1001~', 'SE*17*9999~');
+
+      await claimIntakeService.submit837P(text, providerContext);
+
+      const created = mockedSubmissionRepo.create.mock.calls[0][0];
+      expect(created).toMatchObject({ status: 'rejected', claimCount: 0, jobId: undefined });
+      expect(created.acknowledgment).toContain('IK5*R*3~AK9*R*1*1*0~');
+      expect(claimsQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a file with a broken interchange envelope', async () => {
+      const text = file837().replace(/IEA\*1\*000001001~$/, 'IEA*1*000009999~');
+
+      await expect(claimIntakeService.submit837P(text, providerContext)).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockedSubmissionRepo.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processClaimIntake job', () => {
+    const jobData: ClaimIntakeJobData = {
+      type: 'claim_intake',
+      jobId: 'job-1',
+      organizationId: 'org-1',
+      submissionId: 'submission-1',
+      triggeredBy: 'provider-user-1',
+      triggeredAt: new Date().toISOString(),
+      idempotencyKey: 'job-claim-intake-job-1',
+    };
+
+    beforeEach(() => {
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
+      mockedJobLogRepo.create.mockResolvedValue({ id: 'log-1' } as never);
+      mockedUserRepo.findByIdWithinOrganization.mockResolvedValue({
+        id: 'provider-user-1',
+        organizationId: 'org-1',
+        role: 'provider',
+        providerId: 'provider-1',
+        isActive: true,
+      } as User);
+      mockedProviderRepo.findByNpi.mockResolvedValue({ id: 'provider-1' } as Provider);
+      mockedPatientRepo.findByMemberId.mockResolvedValue({ id: '1b4e28ba-2fa1-41d2-883f-0016d3cca427' } as Patient);
+      mockedSubmissionRepo.findWithContentInternal.mockResolvedValue({
+        submission: submission(),
+        content: file837(),
+      });
+      mockedSubmissionRepo.completeInternal.mockResolvedValue(
+        submission({ status: 'completed', acceptedCount: 1 })
+      );
+    });
+
+    it('should create the claim as the submitter, with dotted codes and unit charges', async () => {
+      mockedProviderRepo.findByNpi.mockResolvedValue({ id: '5f0c3f5e-7c1a-4e55-9d0f-8a1b2c3d4e5f' } as Provider);
+      const createClaim = vi
+        .spyOn(claimsService, 'createClaim')
+        .mockResolvedValue({ id: 'claim-1', claimNumber: 'CLM-1' } as Claim);
+
+      const result = await processClaimIntake(jobData);
+
+      expect(createClaim).toHaveBeenCalledWith(
+        expect.objectContaining({
+          providerId: '5f0c3f5e-7c1a-4e55-9d0f-8a1b2c3d4e5f',
+          diagnosisCode: 'J06.9',
+          additionalDiagnosisCodes: ['R05'],
+          serviceDate: new Date('2025-01-10T00:00:00.000Z'),
+          lines: [
+            expect.objectContaining({ procedureCode: '99213', modifiers: ['25'], units: 1, unitCharge: 140 }),
+            expect.objectContaining({ procedureCode: '87880', units: 3, unitCharge: 25 }),
+          ],
+        }),
+        expect.objectContaining({ userId: 'provider-user-1', role: 'provider', providerId: 'provider-1' }),
+        'submission-1:1'
+      );
+      expect(mockedSubmissionRepo.addResultInternal).toHaveBeenCalledWith('submission-1', 'org-1', {
+        index: 1,
+        reference: 'PCN-1',
+        status: 'accepted',
+        claimId: 'claim-1',
+        claimNumber: 'CLM-1',
+      });
+      expect(result).toEqual({
+        submissionId: 'submission-1',
+        processed: true,
+        acceptedCount: 1,
+        rejectedCount: 0,
+      });
+    });
+
+    it('should reject claims whose subscriber or billing provider is unknown', async () => {
+      mockedPatientRepo.findByMemberId.mockResolvedValue(null);
+      const createClaim = vi.spyOn(claimsService, 'createClaim');
+
+      await processClaimIntake(jobData);
+
+      expect(createClaim).not.toHaveBeenCalled();
+      expect(mockedSubmissionRepo.addResultInternal).toHaveBeenCalledWith('submission-1', 'org-1', {
+        index: 1,
+        reference: 'PCN-1',
+        status: 'rejected',
+        errors: ['No patient with member ID MEM001'],
+      });
+    });
+
+    it('should report claims the claims service refuses', async () => {
+      mockedProviderRepo.findByNpi.mockResolvedValue({ id: '5f0c3f5e-7c1a-4e55-9d0f-8a1b2c3d4e5f' } as Provider);
+      vi.spyOn(claimsService, 'createClaim').mockRejectedValue(
+        new CodePairingError([
+          { lineNumber: 2, procedureCode: '87880', diagnosisCode: 'R05', effect: 'deny' },
+        ])
+      );
+
+      await processClaimIntake(jobData);
+
+      expect(mockedSubmissionRepo.addResultInternal).toHaveBeenCalledWith(
+        'submission-1',
+        'org-1',
+        expect.objectContaining({
+          index: 1,
+          status: 'rejected',
+          errors: ["Procedure code '87880' cannot be billed with diagnosis code 'R05'"],
+        })
+      );
+      expect(mockedJobLogRepo.markCompleted).toHaveBeenCalled();
+    });
+
+    it('should not create a claim again when a retry finds it already reported', async () => {
+      mockedSubmissionRepo.findWithContentInternal.mockResolvedValue({
+        submission: submission({
+          status: 'processing',
+          results: [{ index: 1, reference: 'PCN-1', status: 'accepted', claimId: 'claim-1' }],
+        }),
+        content: file837(),
+      });
+      const createClaim = vi.spyOn(claimsService, 'createClaim');
+
+      await processClaimIntake(jobData);
+
+      expect(createClaim).not.toHaveBeenCalled();
+      expect(mockedSubmissionRepo.addResultInternal).not.toHaveBeenCalled();
+      expect(mockedSubmissionRepo.completeInternal).toHaveBeenCalledWith('submission-1', 'org-1');
+    });
+
+    it('should report a claim created before a crash as accepted when the retry replays it', async () => {
+      mockedSubmissionRepo.findWithContentInternal.mockResolvedValue({
+        submission: submission({ status: 'processing' }),
+        content: file837(),
+      });
+      mockedProviderRepo.findByNpi.mockResolvedValue({ id: '5f0c3f5e-7c1a-4e55-9d0f-8a1b2c3d4e5f' } as Provider);
+      // The first attempt created the claim; its key now returns that claim
+      const createClaim = vi
+        .spyOn(claimsService, 'createClaim')
+        .mockResolvedValue({ id: 'claim-1', claimNumber: 'CLM-1' } as Claim);
+
+      await processClaimIntake(jobData);
+
+      expect(createClaim).toHaveBeenCalledWith(expect.anything(), expect.anything(), 'submission-1:1');
+      expect(mockedSubmissionRepo.addResultInternal).toHaveBeenCalledWith('submission-1', 'org-1', {
+        index: 1,
+        reference: 'PCN-1',
+        status: 'accepted',
+        claimId: 'claim-1',
+        claimNumber: 'CLM-1',
+      });
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ClaimRepository } from '../../src/infrastructure/database/repositories/claim.repository.js';
+import { runInTransaction } from '../../src/infrastructure/database/connection.js';
+import { claimLines, claims } from '../../src/infrastructure/database/schema/index.js';
+import {
+  getClaimAmountFromLines,
+  getLineChargeAmount,
+} from '../../src/domain/entities/index.js';
+import { createClaimSchema } from '../../src/application/validators/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+import {
+  ClaimNotModifiableError,
+  ForbiddenError,
+  ValidationError,
+} from '../../src/domain/errors/index.js';
+
+/**
+ * Chainable transaction double: `.for('update')` resolves the locked claim,
+ * `.orderBy()` the claim's lines and `.returning()` the queued write results.
+ */
+function createTx(
+  claimRows: unknown[],
+  lineRows: unknown[],
+  returningResults: unknown[][] = []
+) {
+  const tx: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of ['select', 'from', 'where', 'limit', 'update', 'set']) {
+    tx[method] = vi.fn(() => tx);
+  }
+  tx.for = vi.fn(() => Promise.resolve(claimRows));
+  tx.orderBy = vi.fn(() => Promise.resolve(lineRows));
+  tx.returning = vi.fn(() => Promise.resolve(returningResults.shift() ?? []));
+  return tx;
+}
+
+function useTransaction(tx: ReturnType<typeof createTx>): void {
+  vi.mocked(runInTransaction).mockImplementationOnce(
+    (fn) => fn(tx as never) as never
+  );
+}
+
+describe('Claim lines', () => {
+  describe('amounts', () => {
+    it('should round each line to cents before totalling', () => {
+      expect(getLineChargeAmount(3, 33.33)).toBe(99.99);
+      expect(
+        getClaimAmountFromLines([
+          { chargeAmount: 0.1, status: 'pending' },
+          { chargeAmount: 0.2, status: 'approved' },
+        ])
+      ).toBe(0.3);
+    });
+
+    it('should leave rejected lines out of the claim amount', () => {
+      expect(
+        getClaimAmountFromLines([
+          { chargeAmount: 125, status: 'approved' },
+          { chargeAmount: 40, status: 'rejected' },
+          { chargeAmount: 10, status: 'pending' },
+        ])
+      ).toBe(135);
+    });
+  });
+
+  describe('createClaimSchema', () => {
+    const claim = {
+      patientId: '00000000-0000-4000-a000-000000000001',
+      providerId: '00000000-0000-4000-a000-000000000002',
+      diagnosisCode: 'J06.9',
+      serviceDate: '2025-01-15',
+      lines: [{ procedureCode: '99213', units: 1, unitCharge: 125, diagnosisPointers: [1] }],
+    };
+
+    it('should require at least one line', () => {
+      expect(createClaimSchema.safeParse({ ...claim, lines: [] }).success).toBe(false);
+    });
+
+    it('should only allow pointers to submitted diagnoses', () => {
+      const pointingPastCodes = {
+        ...claim,
+        lines: [{ ...claim.lines[0], diagnosisPointers: [1, 2] }],
+      };
+
+      expect(createClaimSchema.safeParse(pointingPastCodes).success).toBe(false);
+      expect(
+        createClaimSchema.safeParse({ ...pointingPastCodes, additionalDiagnosisCodes: ['I10'] })
+          .success
+      ).toBe(true);
+    });
+
+    it('should validate procedure codes and modifiers', () => {
+      const parse = (line: Record<string, unknown>) =>
+        createClaimSchema.safeParse({ ...claim, lines: [{ ...claim.lines[0], ...line }] });
+
+      expect(parse({ procedureCode: 'j1100', modifiers: ['rt'] }).success).toBe(true);
+      expect(parse({ procedureCode: '9921' }).success).toBe(false);
+      expect(parse({ modifiers: ['RTX'] }).success).toBe(false);
+    });
+  });
+
+  describe('ClaimRepository.decideLine', () => {
+    const repository = new ClaimRepository();
+
+    const processorContext: TenantContext = {
+      organizationId: 'org-1',
+      userId: 'processor-1',
+      role: 'claims_processor',
+      assignedClaimIds: ['claim-1'],
+    };
+
+    const claimRow = {
+      id: 'claim-1',
+      organizationId: 'org-1',
+      claimNumber: 'CLM-1',
+      patientId: 'patient-1',
+      providerId: 'provider-1',
+      diagnosisCode: 'J06.9',
+      additionalDiagnosisCodes: [],
+      procedureCode: '99213',
+      amount: '165.00',
+      status: 'under_review',
+      serviceDate: new Date(),
+      submittedAt: new Date(),
+      processedAt: null,
+      paidAt: null,
+      notes: null,
+      assignedTo: 'processor-1',
+      denialReason: null,
+      statusHistory: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const lineRow = (id: string, lineNumber: number, chargeAmount: string) => ({
+      id,
+      organizationId: 'org-1',
+      claimId: 'claim-1',
+      lineNumber,
+      procedureCode: '99213',
+      modifiers: [],
+      units: 1,
+      unitCharge: chargeAmount,
+      chargeAmount,
+      serviceDate: new Date(),
+      diagnosisPointers: [1],
+      status: 'pending',
+      denialReason: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('should reject one line and recompute the claim amount', async () => {
+      const lines = [lineRow('line-1', 1, '125.00'), lineRow('line-2', 2, '40.00')];
+      const tx = createTx([claimRow], lines, [
+        [{ ...lines[1], status: 'rejected', denialReason: 'Not medically necessary' }],
+        [{ ...claimRow, amount: '125.00' }],
+      ]);
+      useTransaction(tx);
+
+      const result = await repository.decideLine(
+        'claim-1',
+        'line-2',
+        'rejected',
+        processorContext,
+        'Not medically necessary'
+      );
+
+      expect(tx.update).toHaveBeenNthCalledWith(1, claimLines);
+      expect(tx.update).toHaveBeenNthCalledWith(2, claims);
+      expect(tx.set).toHaveBeenNthCalledWith(2, expect.objectContaining({ amount: '125' }));
+      expect(result?.previousAmount).toBe(165);
+      expect(result?.claim.amount).toBe(125);
+      expect(result?.claim.lines?.map((line) => line.status)).toEqual(['pending', 'rejected']);
+    });
+
+    it('should only decide lines while the claim is under review', async () => {
+      useTransaction(createTx([{ ...claimRow, status: 'submitted' }], []));
+
+      await expect(
+        repository.decideLine('claim-1', 'line-1', 'approved', processorContext)
+      ).rejects.toThrow(ClaimNotModifiableError);
+    });
+
+    it('should not let processors decide lines of claims assigned to others', async () => {
+      useTransaction(createTx([{ ...claimRow, assignedTo: 'processor-2' }], []));
+
+      await expect(
+        repository.decideLine('claim-1', 'line-1', 'approved', processorContext)
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should refuse to approve a claim whose lines are all rejected', async () => {
+      const tx = createTx([claimRow], []);
+      // updateStatus locks the claim with for() and reads the line statuses with where()
+      let whereCalls = 0;
+      tx.where = vi.fn(() => (++whereCalls === 2 ? Promise.resolve([{ status: 'rejected' }]) : tx));
+      useTransaction(tx);
+
+      await expect(
+        repository.updateStatus('claim-1', 'approved', processorContext)
+      ).rejects.toThrow(ValidationError);
+      expect(tx.update).not.toHaveBeenCalled();
+    });
+  });
+});
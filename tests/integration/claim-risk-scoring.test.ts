@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getFederalHolidays,
+  scoreClaimRisk,
+  type ClaimRiskFeatures,
+} from '../../src/domain/entities/index.js';
+import { listClaimsQuerySchema } from '../../src/application/validators/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  claimRepository: {
+    findTopRiskProviders: vi.fn(),
+  },
+}));
+
+import { claimRepository } from '../../src/infrastructure/database/repositories/index.js';
+import { claimsService, toClaimSearch } from '../../src/application/services/claims.service.js';
+
+const mockedClaimRepo = vi.mocked(claimRepository);
+
+// A Tuesday, and a provider whose history looks like everyone else's
+const features: ClaimRiskFeatures = {
+  serviceDate: new Date('2026-03-17'),
+  amount: 150,
+  procedureCodes: ['99213'],
+  providerRecentClaims: 3,
+  providerBaselineClaims: 36,
+  peerClaimCount: 40,
+  peerAmountMean: 140,
+  peerAmountStdDev: 20,
+  sameDayProviderCount: 1,
+  providerVisits: 40,
+  providerHighLevelVisits: 10,
+  peerVisits: 400,
+  peerHighLevelVisits: 100,
+};
+
+describe('Claim risk scoring', () => {
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-1',
+    role: 'admin',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getFederalHolidays', () => {
+    it('should place floating holidays on their weekday', () => {
+      expect(getFederalHolidays(2026)).toEqual([
+        '2026-01-01',
+        '2026-01-19',
+        '2026-02-16',
+        '2026-05-25',
+        '2026-06-19',
+        '2026-07-04',
+        '2026-09-07',
+        '2026-10-12',
+        '2026-11-11',
+        '2026-11-26',
+        '2026-12-25',
+      ]);
+    });
+  });
+
+  describe('scoreClaimRisk', () => {
+    it('should score an ordinary claim 0', () => {
+      expect(scoreClaimRisk(features)).toEqual({ score: 0, reasons: [] });
+    });
+
+    it('should flag a provider billing three times their usual weekly volume', () => {
+      expect(scoreClaimRisk({ ...features, providerRecentClaims: 9 }).reasons).toEqual([]);
+      expect(scoreClaimRisk({ ...features, providerRecentClaims: 10 })).toEqual({
+        score: 0.2,
+        reasons: ['provider_volume_spike'],
+      });
+      // Without a baseline it takes the minimum volume
+      expect(
+        scoreClaimRisk({ ...features, providerRecentClaims: 10, providerBaselineClaims: 0 }).reasons
+      ).toEqual(['provider_volume_spike']);
+    });
+
+    it('should flag amounts more than three deviations above peers with the diagnosis', () => {
+      expect(scoreClaimRisk({ ...features, amount: 200 }).reasons).toEqual([]);
+      expect(scoreClaimRisk({ ...features, amount: 200.01 })).toEqual({
+        score: 0.25,
+        reasons: ['amount_outlier'],
+      });
+      // Too few peers to judge by
+      expect(scoreClaimRisk({ ...features, amount: 900, peerClaimCount: 9 }).reasons).toEqual([]);
+    });
+
+    it('should flag service on weekends and federal holidays', () => {
+      expect(scoreClaimRisk({ ...features, serviceDate: new Date('2026-03-15') })).toEqual({
+        score: 0.05,
+        reasons: ['weekend_service'],
+      });
+      expect(scoreClaimRisk({ ...features, serviceDate: new Date('2026-11-26') })).toEqual({
+        score: 0.1,
+        reasons: ['holiday_service'],
+      });
+      // Independence Day 2026 is a Saturday
+      expect(scoreClaimRisk({ ...features, serviceDate: new Date('2026-07-04') })).toEqual({
+        score: 0.15,
+        reasons: ['weekend_service', 'holiday_service'],
+      });
+    });
+
+    it('should flag a patient billed by four providers on one day', () => {
+      expect(scoreClaimRisk({ ...features, sameDayProviderCount: 3 }).reasons).toEqual([]);
+      expect(scoreClaimRisk({ ...features, sameDayProviderCount: 4 })).toEqual({
+        score: 0.15,
+        reasons: ['patient_many_providers'],
+      });
+    });
+
+    it('should flag top-level visits from a provider who bills them far more than peers', () => {
+      const upcoder = { ...features, providerHighLevelVisits: 20 };
+
+      // 50% of the provider's visits against 25% for peers
+      expect(scoreClaimRisk({ ...upcoder, procedureCodes: ['99215'] })).toEqual({
+        score: 0.25,
+        reasons: ['upcoding'],
+      });
+      // Only claims billing a top-level visit are flagged
+      expect(scoreClaimRisk(upcoder).reasons).toEqual([]);
+      // Not enough visits to compare
+      expect(
+        scoreClaimRisk({ ...upcoder, procedureCodes: ['99215'], providerVisits: 19 }).reasons
+      ).toEqual([]);
+    });
+
+    it('should add up to 1 when every reason applies', () => {
+      expect(
+        scoreClaimRisk({
+          ...features,
+          serviceDate: new Date('2026-07-04'),
+          amount: 900,
+          procedureCodes: ['99215'],
+          providerRecentClaims: 30,
+          sameDayProviderCount: 5,
+          providerHighLevelVisits: 30,
+        })
+      ).toEqual({
+        score: 1,
+        reasons: [
+          'provider_volume_spike',
+          'amount_outlier',
+          'weekend_service',
+          'holiday_service',
+          'patient_many_providers',
+          'upcoding',
+        ],
+      });
+    });
+  });
+
+  describe('minRiskScore filter', () => {
+    it('should pass the minimum risk score on to the repository filters', () => {
+      const query = listClaimsQuerySchema.parse({ minRiskScore: '0.5' });
+
+      expect(toClaimSearch(query).filters.minRiskScore).toBe(0.5);
+    });
+
+    it('should refuse scores outside 0-1', () => {
+      expect(listClaimsQuerySchema.safeParse({ minRiskScore: '50' }).success).toBe(false);
+    });
+  });
+
+  describe('getProviderRiskReport', () => {
+    it('should count claims from 0.5 as high risk unless asked otherwise', async () => {
+      mockedClaimRepo.findTopRiskProviders.mockResolvedValue([]);
+
+      await claimsService.getProviderRiskReport({ limit: 20 }, adminContext);
+      await claimsService.getProviderRiskReport(
+        { limit: 5, highRiskScore: 0.8, fromDate: new Date('2026-01-01') },
+        adminContext
+      );
+
+      expect(mockedClaimRepo.findTopRiskProviders).toHaveBeenNthCalledWith(1, adminContext, {
+        limit: 20,
+        fromDate: undefined,
+        toDate: undefined,
+        highRiskScore: 0.5,
+      });
+      expect(mockedClaimRepo.findTopRiskProviders).toHaveBeenNthCalledWith(2, adminContext, {
+        limit: 5,
+        fromDate: new Date('2026-01-01'),
+        toDate: undefined,
+        highRiskScore: 0.8,
+      });
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { selectProcessor, type RoutingCandidate } from '../../src/domain/entities/index.js';
+import { InvalidAssigneeError } from '../../src/domain/errors/index.js';
+import type { ClaimRoutingStrategy } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  claimRepository: {
+    findRoutableInternal: vi.fn(),
+    assignToProcessorInternal: vi.fn(),
+  },
+  userRepository: {
+    findRoutingCandidates: vi.fn(),
+  },
+  organizationRepository: {
+    findById: vi.fn(),
+  },
+}));
+
+import {
+  claimRepository,
+  userRepository,
+  organizationRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+import { invalidateOrganizationSettings } from '../../src/infrastructure/cache/organization-settings.cache.js';
+import { claimRoutingService } from '../../src/infrastructure/routing/claim-routing.service.js';
+import { db } from '../../src/infrastructure/database/connection.js';
+import { UserRepository } from '../../src/infrastructure/database/repositories/user.repository.js';
+
+const mockedClaimRepo = vi.mocked(claimRepository);
+const mockedUserRepo = vi.mocked(userRepository);
+const mockedOrgRepo = vi.mocked(organizationRepository);
+
+function mockRoutingStrategy(routingStrategy: ClaimRoutingStrategy) {
+  mockedOrgRepo.findById.mockResolvedValue({
+    id: 'org-1',
+    name: 'Test Org',
+    code: 'TEST',
+    isActive: true,
+    settings: {
+      maxClaimAmount: 1000000,
+      minClaimAmount: 0.01,
+      requiresManualReview: true,
+      routingStrategy,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+describe('Claim Routing', () => {
+  const cardiologyClaim = { diagnosisCode: 'I10', providerSpecialty: 'Cardiology' };
+
+  describe('selectProcessor', () => {
+    const candidates: RoutingCandidate[] = [
+      {
+        processorId: 'busy-recent',
+        openClaimCount: 5,
+        lastAssignedAt: new Date('2026-01-02'),
+      },
+      {
+        processorId: 'idle-stale',
+        openClaimCount: 1,
+        lastAssignedAt: new Date('2026-01-01'),
+      },
+      {
+        processorId: 'cardiologist',
+        openClaimCount: 3,
+        lastAssignedAt: new Date('2026-01-03'),
+        skills: { specialties: ['cardiology'] },
+      },
+    ];
+
+    it('should pick the least recently assigned processor for round-robin', () => {
+      expect(selectProcessor('round_robin', candidates, cardiologyClaim)?.processorId).toBe(
+        'idle-stale'
+      );
+      expect(
+        selectProcessor(
+          'round_robin',
+          [...candidates, { processorId: 'new-hire', openClaimCount: 0 }],
+          cardiologyClaim
+        )?.processorId
+      ).toBe('new-hire');
+    });
+
+    it('should pick the processor with the fewest open claims for least-open', () => {
+      expect(selectProcessor('least_open', candidates, cardiologyClaim)?.processorId).toBe(
+        'idle-stale'
+      );
+    });
+
+    it('should prefer skilled processors for skill-based routing', () => {
+      expect(selectProcessor('skill_based', candidates, cardiologyClaim)?.processorId).toBe(
+        'cardiologist'
+      );
+
+      const diabetesSpecialist: RoutingCandidate = {
+        processorId: 'endocrine',
+        openClaimCount: 9,
+        skills: { diagnosisCodePrefixes: ['e11'] },
+      };
+      expect(
+        selectProcessor('skill_based', [...candidates, diabetesSpecialist], {
+          diagnosisCode: 'E11.9',
+        })?.processorId
+      ).toBe('endocrine');
+    });
+
+    it('should fall back to least-open when nobody has the skill', () => {
+      expect(
+        selectProcessor('skill_based', candidates, { diagnosisCode: 'J06.9' })?.processorId
+      ).toBe('idle-stale');
+    });
+
+    it('should not route under manual routing or without candidates', () => {
+      expect(selectProcessor('manual', candidates, cardiologyClaim)).toBeNull();
+      expect(selectProcessor('least_open', [], cardiologyClaim)).toBeNull();
+    });
+  });
+
+  describe('ClaimRoutingService', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      invalidateOrganizationSettings();
+      mockedClaimRepo.assignToProcessorInternal.mockImplementation(async (claimId, processorId) => ({
+        id: claimId,
+        assignedTo: processorId,
+      }) as never);
+    });
+
+    it('should spread a batch across processors', async () => {
+      mockRoutingStrategy('least_open');
+      mockedClaimRepo.findRoutableInternal.mockResolvedValueOnce([
+        { id: 'claim-1', status: 'submitted', diagnosisCode: 'J06.9' },
+        { id: 'claim-2', status: 'submitted', diagnosisCode: 'J06.9' },
+        { id: 'claim-3', status: 'submitted', diagnosisCode: 'J06.9', assignedTo: 'processor-1' },
+      ]);
+      mockedUserRepo.findRoutingCandidates.mockResolvedValueOnce([
+        { processorId: 'processor-1', openClaimCount: 1 },
+        { processorId: 'processor-2', openClaimCount: 0 },
+      ]);
+
+      const result = await claimRoutingService.routeClaims('org-1', ['claim-1', 'claim-2', 'claim-3']);
+
+      expect(result.map((a) => [a.claimId, a.processorId])).toEqual([
+        ['claim-1', 'processor-2'],
+        ['claim-2', 'processor-1'],
+      ]);
+    });
+
+    it('should drop processors that are no longer assignable', async () => {
+      mockRoutingStrategy('round_robin');
+      mockedClaimRepo.findRoutableInternal.mockResolvedValueOnce([
+        { id: 'claim-1', status: 'submitted', diagnosisCode: 'J06.9' },
+        { id: 'claim-2', status: 'submitted', diagnosisCode: 'J06.9' },
+      ]);
+      mockedUserRepo.findRoutingCandidates.mockResolvedValueOnce([
+        { processorId: 'deactivated', openClaimCount: 0 },
+        { processorId: 'processor-2', openClaimCount: 0, lastAssignedAt: new Date() },
+      ]);
+      mockedClaimRepo.assignToProcessorInternal.mockRejectedValueOnce(
+        new InvalidAssigneeError('deactivated')
+      );
+
+      const result = await claimRoutingService.routeClaims('org-1', ['claim-1', 'claim-2']);
+
+      expect(result).toEqual([
+        { claimId: 'claim-2', processorId: 'processor-2', previousProcessorId: undefined },
+      ]);
+    });
+
+    it('should rebalance by routing orphans and moving only submitted claims', async () => {
+      mockRoutingStrategy('manual');
+      mockedUserRepo.findRoutingCandidates.mockResolvedValueOnce([
+        { processorId: 'processor-1', openClaimCount: 4 },
+        { processorId: 'processor-2', openClaimCount: 0 },
+      ]);
+      mockedClaimRepo.findRoutableInternal.mockResolvedValueOnce([
+        { id: 'claim-1', status: 'under_review', diagnosisCode: 'J06.9', assignedTo: 'processor-1' },
+        { id: 'claim-2', status: 'under_review', diagnosisCode: 'J06.9', assignedTo: 'processor-1' },
+        { id: 'claim-3', status: 'submitted', diagnosisCode: 'J06.9', assignedTo: 'processor-1' },
+        { id: 'claim-4', status: 'submitted', diagnosisCode: 'J06.9', assignedTo: 'processor-1' },
+        { id: 'claim-5', status: 'submitted', diagnosisCode: 'J06.9', assignedTo: 'inactive-user' },
+      ]);
+
+      const result = await claimRoutingService.rebalance('org-1');
+
+      expect(result.assigned).toEqual([
+        { claimId: 'claim-5', processorId: 'processor-2', previousProcessorId: 'inactive-user' },
+      ]);
+      expect(result.moved).toEqual([
+        { claimId: 'claim-3', processorId: 'processor-2', previousProcessorId: 'processor-1' },
+      ]);
+    });
+  });
+
+  describe('UserRepository.findRoutingCandidates', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('should count every open claim, appealed ones included, against a processor', async () => {
+      const orderBy = vi.fn().mockResolvedValue([]);
+      vi.mocked(db.where).mockReturnValueOnce({ orderBy } as never);
+
+      await new UserRepository().findRoutingCandidates('org-1');
+
+      const selection = vi.mocked(db.select).mock.calls[0][0] as { openClaimCount: SQL };
+      const { sql, params } = new PgDialect().sqlToQuery(selection.openClaimCount);
+      expect(sql).toContain('"claims"."status" in (');
+      expect(params).toEqual(expect.arrayContaining(['submitted', 'under_review', 'appealed']));
+    });
+  });
+});
@@ -1,7 +1,21 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { claimsService } from '../../src/application/services/claims.service.js';
 import type { TenantContext } from '../../src/shared/types/index.js';
-import { ForbiddenError, NotFoundError, InvalidDiagnosisCodeError } from '../../src/domain/errors/index.js';
+import {
+  ForbiddenError,
+  NotFoundError,
+  InvalidDiagnosisCodeError,
+  InvalidClaimAmountError,
+  InvalidProcedureCodeError,
+  CodePairingError,
+  IdempotencyConflictError,
+  IdempotencyKeyReusedError,
+  ValidationError,
+} from '../../src/domain/errors/index.js';
+import { listClaimsQuerySchema } from '../../src/application/validators/index.js';
+import { keysetCursor } from '../../src/infrastructure/database/repositories/base.repository.js';
+import { claims } from '../../src/infrastructure/database/schema/index.js';
+import { claimRoutingService } from '../../src/infrastructure/routing/claim-routing.service.js';
 
 // Mock repositories
 vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
@@ -11,7 +25,22 @@ vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
     findMany: vi.fn(),
     findByFilters: vi.fn(),
     updateStatus: vi.fn(),
+    updateStatusInternal: vi.fn(),
+    findByIds: vi.fn(),
+    bulkUpdateStatus: vi.fn(),
     getStatsByStatus: vi.fn(),
+    findRoutableInternal: vi.fn().mockResolvedValue([]),
+    assignToProcessorInternal: vi.fn(),
+    findLines: vi.fn(),
+    decideLine: vi.fn(),
+    findByIdempotencyKey: vi.fn(),
+    findAdjudicationFactsInternal: vi.fn(),
+  },
+  adjudicationRuleRepository: {
+    findActiveInternal: vi.fn().mockResolvedValue([]),
+  },
+  userRepository: {
+    findRoutingCandidates: vi.fn().mockResolvedValue([]),
   },
   patientRepository: {
     exists: vi.fn(),
@@ -21,17 +50,51 @@ vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
     exists: vi.fn(),
     findById: vi.fn(),
   },
+  auditLogRepository: {
+    createMany: vi.fn(),
+  },
+  organizationRepository: {
+    findById: vi.fn(),
+  },
+  // Every code is in force unless a test says otherwise
+  diagnosisCodeRepository: {
+    findBillableInForce: vi.fn(async (codes: string[]) => codes.map((code) => ({ code }))),
+  },
+  procedureCodeRepository: {
+    findInForce: vi.fn(async (codes: string[]) => codes.map((code) => ({ code }))),
+  },
+  codePairingRuleRepository: {
+    findActiveForProcedures: vi.fn().mockResolvedValue([]),
+  },
 }));
 
 import {
   claimRepository,
+  adjudicationRuleRepository,
+  userRepository,
   patientRepository,
   providerRepository,
+  auditLogRepository,
+  organizationRepository,
+  diagnosisCodeRepository,
+  procedureCodeRepository,
+  codePairingRuleRepository,
 } from '../../src/infrastructure/database/repositories/index.js';
+import { invalidateOrganizationSettings } from '../../src/infrastructure/cache/organization-settings.cache.js';
+import { claimsQueue } from '../../src/infrastructure/queue/queue.js';
 
 const mockedClaimRepo = vi.mocked(claimRepository);
+const mockedRuleRepo = vi.mocked(adjudicationRuleRepository);
+const mockedUserRepo = vi.mocked(userRepository);
 const mockedPatientRepo = vi.mocked(patientRepository);
 const mockedProviderRepo = vi.mocked(providerRepository);
+const mockedAuditLogRepo = vi.mocked(auditLogRepository);
+const mockedOrgRepo = vi.mocked(organizationRepository);
+const mockedDiagnosisCodeRepo = vi.mocked(diagnosisCodeRepository);
+const mockedProcedureCodeRepo = vi.mocked(procedureCodeRepository);
+const mockedPairingRuleRepo = vi.mocked(codePairingRuleRepository);
+
+const CLAIM_UUID = '7f3e2a10-4b5c-4d6e-8f90-a1b2c3d4e5f6';
 
 describe('ClaimsService Integration Tests', () => {
   const adminContext: TenantContext = {
@@ -73,12 +136,14 @@ describe('ClaimsService Integration Tests', () => {
     serviceDate: new Date(),
     submittedAt: new Date(),
     statusHistory: [],
+    flags: [],
     createdAt: new Date(),
     updatedAt: new Date(),
   };
 
   beforeEach(() => {
     vi.clearAllMocks();
+    invalidateOrganizationSettings();
   });
 
   describe('createClaim', () => {
@@ -91,7 +156,7 @@ describe('ClaimsService Integration Tests', () => {
         patientId: 'patient-1',
         providerId: 'provider-1',
         diagnosisCode: 'J06.9' as const,
-        amount: 150.00,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
         serviceDate: new Date(),
       };
 
@@ -103,12 +168,549 @@ describe('ClaimsService Integration Tests', () => {
       expect(mockedClaimRepo.create).toHaveBeenCalled();
     });
 
+    it('should record an audit entry with request metadata', async () => {
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.create.mockResolvedValue(mockClaim);
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate: new Date(),
+      };
+
+      await claimsService.createClaim(input, {
+        ...adminContext,
+        ipAddress: '10.0.0.1',
+        userAgent: 'vitest',
+      });
+
+      const [entries] = mockedAuditLogRepo.createMany.mock.calls[0];
+      expect(entries[0]).toMatchObject({
+        organizationId: 'org-1',
+        entityType: 'claim',
+        entityId: 'claim-1',
+        action: 'create',
+        performedBy: 'admin-user-1',
+        ipAddress: '10.0.0.1',
+        userAgent: 'vitest',
+      });
+      expect(entries[0].changes.amount).toEqual({ old: null, new: 150 });
+    });
+
+    it('should enforce organization amount bounds', async () => {
+      mockedOrgRepo.findById.mockResolvedValueOnce({
+        id: 'org-1',
+        name: 'Test Org',
+        code: 'TEST',
+        isActive: true,
+        settings: { maxClaimAmount: 100, minClaimAmount: 10, requiresManualReview: true },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate: new Date(),
+      };
+
+      await expect(claimsService.createClaim(input, adminContext))
+        .rejects.toThrow(InvalidClaimAmountError);
+      expect(mockedClaimRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should auto-approve claims below the threshold when manual review is off', async () => {
+      mockedOrgRepo.findById.mockResolvedValueOnce({
+        id: 'org-1',
+        name: 'Test Org',
+        code: 'TEST',
+        isActive: true,
+        settings: {
+          maxClaimAmount: 1000,
+          minClaimAmount: 0.01,
+          autoApproveThreshold: 200,
+          requiresManualReview: false,
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.create.mockResolvedValue(mockClaim);
+      mockedClaimRepo.updateStatusInternal.mockImplementation(
+        async (_id, _orgId, newStatus) => ({ ...mockClaim, status: newStatus })
+      );
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate: new Date(),
+      };
+
+      const result = await claimsService.createClaim(input, adminContext);
+
+      expect(result.status).toBe('approved');
+      expect(mockedClaimRepo.updateStatusInternal).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave a claim below the threshold to a matching adjudication rule', async () => {
+      mockedOrgRepo.findById.mockResolvedValueOnce({
+        id: 'org-1',
+        name: 'Test Org',
+        code: 'TEST',
+        isActive: true,
+        settings: {
+          maxClaimAmount: 1000,
+          minClaimAmount: 0.01,
+          autoApproveThreshold: 200,
+          requiresManualReview: false,
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.create.mockResolvedValue(mockClaim);
+      mockedRuleRepo.findActiveInternal.mockResolvedValueOnce([
+        {
+          id: 'rule-1',
+          organizationId: 'org-1',
+          name: 'Reject upper respiratory visits',
+          priority: 10,
+          condition: { field: 'diagnosisCode', op: 'starts_with', value: 'J06' },
+          action: 'reject',
+          denialReason: 'Not covered',
+          isActive: true,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+      mockedClaimRepo.findAdjudicationFactsInternal.mockResolvedValueOnce({
+        claim: mockClaim,
+        facts: {
+          amount: 150,
+          diagnosisCode: 'J06.9',
+          diagnosisCodes: ['J06.9'],
+          procedureCodes: ['99213'],
+          providerId: 'provider-1',
+          patientAge: 40,
+          priorClaimCount: 0,
+        },
+      });
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate: new Date(),
+      };
+
+      const result = await claimsService.createClaim(input, adminContext);
+
+      expect(result.status).toBe('submitted');
+      expect(mockedClaimRepo.updateStatusInternal).not.toHaveBeenCalled();
+      expect(claimsQueue.add).toHaveBeenCalledWith(
+        'claim_adjudication',
+        expect.objectContaining({ claimId: 'claim-1' }),
+        expect.anything()
+      );
+    });
+
+    it('should not auto-approve anything when manual review is off without a threshold', async () => {
+      mockedOrgRepo.findById.mockResolvedValueOnce({
+        id: 'org-1',
+        name: 'Test Org',
+        code: 'TEST',
+        isActive: true,
+        settings: {
+          maxClaimAmount: 1000,
+          minClaimAmount: 0.01,
+          requiresManualReview: false,
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.create.mockResolvedValue(mockClaim);
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate: new Date(),
+      };
+
+      const result = await claimsService.createClaim(input, adminContext);
+
+      expect(result.status).toBe('submitted');
+      expect(mockedClaimRepo.updateStatusInternal).not.toHaveBeenCalledWith(
+        'claim-1',
+        'org-1',
+        'approved',
+        expect.anything(),
+        expect.anything()
+      );
+      expect(claimsQueue.add).toHaveBeenCalledWith(
+        'claim_adjudication',
+        expect.objectContaining({ claimId: 'claim-1' }),
+        expect.anything()
+      );
+    });
+
+    it('should hold a suspected duplicate in review instead of auto-approving it', async () => {
+      mockedOrgRepo.findById.mockResolvedValueOnce({
+        id: 'org-1',
+        name: 'Test Org',
+        code: 'TEST',
+        isActive: true,
+        settings: {
+          maxClaimAmount: 1000,
+          minClaimAmount: 0.01,
+          autoApproveThreshold: 200,
+          requiresManualReview: false,
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.create.mockResolvedValue({
+        ...mockClaim,
+        flags: ['suspected_duplicate'],
+        duplicateOfClaimId: 'claim-0',
+        duplicateScore: 0.85,
+      });
+      mockedClaimRepo.updateStatusInternal.mockImplementation(
+        async (_id, _orgId, newStatus) => ({ ...mockClaim, status: newStatus })
+      );
+
+      const result = await claimsService.createClaim(
+        {
+          patientId: 'patient-1',
+          providerId: 'provider-1',
+          diagnosisCode: 'J06.9',
+          lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+          serviceDate: new Date(),
+        },
+        adminContext
+      );
+
+      expect(result.status).toBe('under_review');
+      expect(mockedClaimRepo.updateStatusInternal).toHaveBeenCalledTimes(1);
+      expect(mockedClaimRepo.updateStatusInternal).toHaveBeenCalledWith(
+        'claim-1',
+        'org-1',
+        'under_review',
+        'admin-user-1',
+        'Suspected duplicate of claim claim-0 (score 0.85)'
+      );
+    });
+
+    it('should return the claim an earlier request with the same Idempotency-Key created', async () => {
+      const serviceDate = new Date('2026-03-15');
+      const original = { ...mockClaim, procedureCode: '99213', serviceDate };
+      mockedClaimRepo.findByIdempotencyKey.mockResolvedValueOnce(original);
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate,
+      };
+
+      const result = await claimsService.createClaim(input, providerContext, 'retry-1');
+
+      expect(result).toBe(original);
+      expect(mockedClaimRepo.findByIdempotencyKey).toHaveBeenCalledWith('retry-1', providerContext);
+      expect(mockedClaimRepo.create).not.toHaveBeenCalled();
+
+      mockedClaimRepo.findByIdempotencyKey.mockResolvedValueOnce(original);
+      await expect(
+        claimsService.createClaim(
+          { ...input, patientId: 'patient-2' },
+          providerContext,
+          'retry-1'
+        )
+      ).rejects.toThrow(IdempotencyKeyReusedError);
+
+      await expect(
+        claimsService.createClaim(input, providerContext, 'k'.repeat(101))
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should give two requests with the same Idempotency-Key at once the same claim', async () => {
+      const serviceDate = new Date('2026-03-15');
+      const original = { ...mockClaim, procedureCode: '99213', serviceDate };
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      // Neither finds the key up front; the second waits on the patient
+      // lock and finds it taken once the first commits
+      mockedClaimRepo.findByIdempotencyKey
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(original);
+      mockedClaimRepo.create
+        .mockResolvedValueOnce(original)
+        .mockRejectedValueOnce(new IdempotencyConflictError('retry-1'));
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate,
+      };
+
+      const [first, second] = await Promise.all([
+        claimsService.createClaim(input, providerContext, 'retry-1'),
+        claimsService.createClaim(input, providerContext, 'retry-1'),
+      ]);
+
+      expect(first.id).toBe('claim-1');
+      expect(second).toBe(original);
+      expect(mockedClaimRepo.create).toHaveBeenCalledTimes(2);
+      // Only the claim actually created is audited
+      expect(mockedAuditLogRepo.createMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store the Idempotency-Key of a new claim', async () => {
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.findByIdempotencyKey.mockResolvedValueOnce(null);
+      mockedClaimRepo.create.mockResolvedValue(mockClaim);
+
+      await claimsService.createClaim(
+        {
+          patientId: 'patient-1',
+          providerId: 'provider-1',
+          diagnosisCode: 'J06.9',
+          lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+          serviceDate: new Date(),
+        },
+        adminContext,
+        'retry-2'
+      );
+
+      expect(mockedClaimRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ idempotencyKey: 'retry-2' }),
+        adminContext
+      );
+    });
+
+    it('should derive the amount from the lines and audit each line', async () => {
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.create.mockResolvedValueOnce({
+        ...mockClaim,
+        amount: 171,
+        lines: [
+          { id: 'line-1', lineNumber: 1 },
+          { id: 'line-2', lineNumber: 2 },
+        ] as never,
+      });
+
+      const serviceDate = new Date('2025-01-15');
+      await claimsService.createClaim(
+        {
+          patientId: 'patient-1',
+          providerId: 'provider-1',
+          diagnosisCode: 'J06.9',
+          additionalDiagnosisCodes: ['I10'],
+          serviceDate,
+          lines: [
+            { procedureCode: '99214', modifiers: ['25'], units: 2, unitCharge: 75.5, diagnosisPointers: [1, 2] },
+            { procedureCode: '93000', modifiers: [], units: 1, unitCharge: 20, diagnosisPointers: [2] },
+          ],
+        },
+        adminContext
+      );
+
+      expect(mockedClaimRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 171,
+          procedureCode: '99214',
+          additionalDiagnosisCodes: ['I10'],
+          lines: [
+            expect.objectContaining({ chargeAmount: 151, serviceDate }),
+            expect.objectContaining({ chargeAmount: 20, serviceDate }),
+          ],
+        }),
+        adminContext
+      );
+      const [entries] = mockedAuditLogRepo.createMany.mock.calls[0];
+      expect(entries.map((entry) => entry.entityType)).toEqual(['claim', 'claim_line', 'claim_line']);
+    });
+
+    it('should route a new claim to a processor and audit the assignment', async () => {
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.create.mockResolvedValue(mockClaim);
+      mockedClaimRepo.findRoutableInternal.mockResolvedValueOnce([
+        { id: 'claim-1', status: 'submitted', diagnosisCode: 'J06.9' },
+      ]);
+      mockedUserRepo.findRoutingCandidates.mockResolvedValueOnce([
+        { processorId: 'processor-2', openClaimCount: 0, lastAssignedAt: new Date() },
+        { processorId: 'processor-1', openClaimCount: 3 },
+      ]);
+      mockedClaimRepo.assignToProcessorInternal.mockResolvedValueOnce({
+        ...mockClaim,
+        assignedTo: 'processor-1',
+      });
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate: new Date(),
+      };
+
+      const result = await claimsService.createClaim(input, adminContext);
+
+      // Default strategy is round-robin: the never-assigned processor goes first
+      expect(result.assignedTo).toBe('processor-1');
+      expect(mockedClaimRepo.assignToProcessorInternal).toHaveBeenCalledWith(
+        'claim-1',
+        'processor-1',
+        'org-1'
+      );
+      const actions = mockedAuditLogRepo.createMany.mock.calls.map(([entries]) => entries[0].action);
+      expect(actions).toEqual(['create', 'assign']);
+    });
+
+    it('should not route claims in organizations with manual routing', async () => {
+      mockedOrgRepo.findById.mockResolvedValueOnce({
+        id: 'org-1',
+        name: 'Test Org',
+        code: 'TEST',
+        isActive: true,
+        settings: {
+          maxClaimAmount: 1000,
+          minClaimAmount: 0.01,
+          requiresManualReview: true,
+          routingStrategy: 'manual',
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.create.mockResolvedValue(mockClaim);
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate: new Date(),
+      };
+
+      const result = await claimsService.createClaim(input, adminContext);
+
+      expect(result.assignedTo).toBeUndefined();
+      expect(mockedClaimRepo.findRoutableInternal).not.toHaveBeenCalled();
+      expect(mockedClaimRepo.assignToProcessorInternal).not.toHaveBeenCalled();
+    });
+
+    it('should queue adjudication of a claim left for review, without failing on queue errors', async () => {
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.create.mockResolvedValue(mockClaim);
+      // Risk scoring is queued first
+      vi.mocked(claimsQueue.add)
+        .mockResolvedValueOnce({} as never)
+        .mockRejectedValueOnce(new Error('Redis unavailable'));
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate: new Date(),
+      };
+
+      const result = await claimsService.createClaim(input, adminContext);
+
+      expect(result.id).toBe('claim-1');
+      expect(claimsQueue.add).toHaveBeenCalledWith(
+        'claim_adjudication',
+        expect.objectContaining({
+          type: 'claim_adjudication',
+          claimId: 'claim-1',
+          organizationId: 'org-1',
+          idempotencyKey: expect.stringMatching(/^job-claim-adjudication-/),
+        }),
+        expect.objectContaining({ jobId: expect.any(String) })
+      );
+    });
+
+    it('should queue risk scoring of every new claim, without failing on queue errors', async () => {
+      mockedOrgRepo.findById.mockResolvedValueOnce({
+        id: 'org-1',
+        name: 'Test Org',
+        code: 'TEST',
+        isActive: true,
+        settings: {
+          maxClaimAmount: 1000,
+          minClaimAmount: 0.01,
+          autoApproveThreshold: 200,
+          requiresManualReview: false,
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockedPatientRepo.exists.mockResolvedValue(true);
+      mockedProviderRepo.exists.mockResolvedValue(true);
+      mockedClaimRepo.create.mockResolvedValue(mockClaim);
+      mockedClaimRepo.updateStatusInternal.mockImplementation(
+        async (_id, _orgId, newStatus) => ({ ...mockClaim, status: newStatus })
+      );
+      vi.mocked(claimsQueue.add).mockRejectedValueOnce(new Error('Redis unavailable'));
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate: new Date(),
+      };
+
+      const result = await claimsService.createClaim(input, adminContext);
+
+      // Auto-approved claims skip adjudication but are still scored
+      expect(result.status).toBe('approved');
+      expect(claimsQueue.add).toHaveBeenCalledTimes(1);
+      expect(claimsQueue.add).toHaveBeenCalledWith(
+        'claim_risk_scoring',
+        expect.objectContaining({
+          type: 'claim_risk_scoring',
+          claimId: 'claim-1',
+          organizationId: 'org-1',
+          idempotencyKey: expect.stringMatching(/^job-claim-risk-scoring-/),
+        }),
+        expect.objectContaining({ jobId: expect.any(String) })
+      );
+    });
+
     it('should reject invalid diagnosis code', async () => {
+      mockedDiagnosisCodeRepo.findBillableInForce.mockResolvedValueOnce([]);
+
       const input = {
         patientId: 'patient-1',
         providerId: 'provider-1',
         diagnosisCode: 'INVALID' as any,
-        amount: 150.00,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
         serviceDate: new Date(),
       };
 
@@ -116,6 +718,119 @@ describe('ClaimsService Integration Tests', () => {
         .rejects.toThrow(InvalidDiagnosisCodeError);
     });
 
+    it('should validate diagnoses against the code set in force on the service date', async () => {
+      // M54.5 was split into M54.50-M54.59 and is no longer billable
+      mockedDiagnosisCodeRepo.findBillableInForce.mockResolvedValueOnce([
+        { code: 'I10' } as any,
+      ]);
+
+      const serviceDate = new Date('2022-03-01T00:00:00.000Z');
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'I10' as const,
+        additionalDiagnosisCodes: ['M54.5', 'I10'],
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
+        serviceDate,
+      };
+
+      await expect(claimsService.createClaim(input, adminContext)).rejects.toMatchObject({
+        code: 'INVALID_DIAGNOSIS_CODE',
+        details: { diagnosisCode: 'M54.5', serviceDate: '2022-03-01' },
+      });
+      expect(mockedDiagnosisCodeRepo.findBillableInForce).toHaveBeenCalledWith(
+        ['I10', 'M54.5'],
+        serviceDate
+      );
+      expect(mockedClaimRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should check each procedure against its line\'s date of service', async () => {
+      mockedProcedureCodeRepo.findInForce
+        .mockResolvedValueOnce([{ code: '99213' } as any])
+        .mockResolvedValueOnce([]);
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'J06.9' as const,
+        lines: [
+          { procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] },
+          {
+            procedureCode: '99999',
+            units: 1,
+            unitCharge: 20.00,
+            diagnosisPointers: [1],
+            serviceDate: new Date('2025-02-03T00:00:00.000Z'),
+          },
+        ],
+        serviceDate: new Date('2025-02-01T00:00:00.000Z'),
+      };
+
+      const error = await claimsService.createClaim(input, adminContext).catch((e) => e);
+
+      expect(error).toBeInstanceOf(InvalidProcedureCodeError);
+      expect(error.details).toEqual({ procedureCode: '99999', serviceDate: '2025-02-03' });
+      expect(mockedProcedureCodeRepo.findInForce).toHaveBeenNthCalledWith(
+        2,
+        ['99999'],
+        new Date('2025-02-03T00:00:00.000Z')
+      );
+      expect(mockedClaimRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject lines that break a pairing rule, naming the pair', async () => {
+      mockedPairingRuleRepo.findActiveForProcedures.mockResolvedValueOnce([
+        {
+          id: 'rule-1',
+          organizationId: 'org-1',
+          procedureCode: '90834',
+          diagnosisCodePrefix: 'Z00',
+          effect: 'deny',
+          reason: 'Not billable against a routine examination',
+          isActive: true,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      const input = {
+        patientId: 'patient-1',
+        providerId: 'provider-1',
+        diagnosisCode: 'F32.9' as const,
+        additionalDiagnosisCodes: ['Z00.00'],
+        lines: [
+          { procedureCode: '90834', units: 1, unitCharge: 120.00, diagnosisPointers: [1] },
+          { procedureCode: '90834', units: 1, unitCharge: 120.00, diagnosisPointers: [2] },
+        ],
+        serviceDate: new Date(),
+      };
+
+      const error = await claimsService.createClaim(input, adminContext).catch((e) => e);
+
+      expect(error).toBeInstanceOf(CodePairingError);
+      expect(error.code).toBe('VALIDATION_ERROR');
+      expect(error.details).toEqual({
+        procedureCode: '90834',
+        diagnosisCode: 'Z00.00',
+        violations: [
+          {
+            lineNumber: 2,
+            procedureCode: '90834',
+            diagnosisCode: 'Z00.00',
+            effect: 'deny',
+            ruleId: 'rule-1',
+            reason: 'Not billable against a routine examination',
+          },
+        ],
+      });
+      expect(mockedPairingRuleRepo.findActiveForProcedures).toHaveBeenCalledWith(
+        ['90834'],
+        adminContext
+      );
+      expect(mockedClaimRepo.create).not.toHaveBeenCalled();
+    });
+
     it('should reject if patient not found', async () => {
       mockedPatientRepo.exists.mockResolvedValue(false);
 
@@ -123,7 +838,7 @@ describe('ClaimsService Integration Tests', () => {
         patientId: 'patient-1',
         providerId: 'provider-1',
         diagnosisCode: 'J06.9' as const,
-        amount: 150.00,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
         serviceDate: new Date(),
       };
 
@@ -140,7 +855,7 @@ describe('ClaimsService Integration Tests', () => {
         patientId: 'patient-1',
         providerId: 'provider-1', // matches providerContext.providerId
         diagnosisCode: 'J06.9' as const,
-        amount: 150.00,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
         serviceDate: new Date(),
       };
 
@@ -153,7 +868,7 @@ describe('ClaimsService Integration Tests', () => {
         patientId: 'patient-1',
         providerId: 'other-provider', // different from providerContext.providerId
         diagnosisCode: 'J06.9' as const,
-        amount: 150.00,
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 150.00, diagnosisPointers: [1] }],
         serviceDate: new Date(),
       };
 
@@ -207,6 +922,119 @@ describe('ClaimsService Integration Tests', () => {
     });
   });
 
+  describe('bulkUpdateStatus', () => {
+    it('should route each claim the update moves into review', async () => {
+      mockedClaimRepo.findByIds.mockResolvedValue([
+        { ...mockClaim, id: 'claim-1', status: 'rejected' },
+        { ...mockClaim, id: 'claim-2', status: 'rejected' },
+        { ...mockClaim, id: 'claim-3', status: 'approved' },
+      ]);
+      mockedClaimRepo.bulkUpdateStatus.mockResolvedValue({
+        updated: ['claim-1', 'claim-2'],
+        failed: [{ id: 'claim-3', reason: 'Invalid status transition' }],
+      });
+      const routeClaims = vi
+        .spyOn(claimRoutingService, 'routeClaims')
+        .mockImplementation(async (_organizationId, [claimId]) => [
+          { claimId, processorId: 'processor-1' },
+        ]);
+
+      const result = await claimsService.bulkUpdateStatus(
+        { claimIds: ['claim-1', 'claim-2', 'claim-3'], status: 'under_review', reason: 'Reopened' },
+        adminContext
+      );
+
+      expect(result.updated).toEqual(['claim-1', 'claim-2']);
+      expect(routeClaims.mock.calls).toEqual([
+        ['org-1', ['claim-1']],
+        ['org-1', ['claim-2']],
+      ]);
+      expect(mockedAuditLogRepo.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          entityId: 'claim-2',
+          action: 'assign',
+          changes: { assignedTo: { old: null, new: 'processor-1' } },
+        }),
+      ]);
+      routeClaims.mockRestore();
+    });
+
+    it('should not route claims moved out of review', async () => {
+      mockedClaimRepo.findByIds.mockResolvedValue([{ ...mockClaim, status: 'under_review' }]);
+      mockedClaimRepo.bulkUpdateStatus.mockResolvedValue({ updated: ['claim-1'], failed: [] });
+      const routeClaims = vi.spyOn(claimRoutingService, 'routeClaims');
+
+      await claimsService.bulkUpdateStatus(
+        { claimIds: ['claim-1'], status: 'approved' },
+        adminContext
+      );
+
+      expect(routeClaims).not.toHaveBeenCalled();
+      routeClaims.mockRestore();
+    });
+  });
+
+  describe('decideClaimLine', () => {
+    it('should audit the line decision and the recomputed amount', async () => {
+      const line = {
+        id: 'line-2',
+        organizationId: 'org-1',
+        claimId: 'claim-1',
+        lineNumber: 2,
+        procedureCode: '93000',
+        modifiers: [],
+        units: 1,
+        unitCharge: 20,
+        chargeAmount: 20,
+        serviceDate: new Date(),
+        diagnosisPointers: [1],
+        status: 'pending' as const,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      mockedClaimRepo.decideLine.mockResolvedValueOnce({
+        claim: { ...mockClaim, status: 'under_review', amount: 130 },
+        line: { ...line, status: 'rejected', denialReason: 'Bundled' },
+        previousLine: line,
+        previousAmount: 150,
+      });
+
+      const result = await claimsService.decideClaimLine(
+        'claim-1',
+        'line-2',
+        { status: 'rejected', reason: 'Bundled' },
+        processorContext
+      );
+
+      expect(result.amount).toBe(130);
+      expect(mockedAuditLogRepo.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          entityType: 'claim_line',
+          entityId: 'line-2',
+          action: 'status_change',
+          changes: {
+            status: { old: 'pending', new: 'rejected' },
+            denialReason: { old: null, new: 'Bundled' },
+          },
+        }),
+        expect.objectContaining({
+          entityType: 'claim',
+          entityId: 'claim-1',
+          action: 'update',
+          changes: { amount: { old: 150, new: 130 } },
+        }),
+      ]);
+    });
+
+    it('should throw when the line is not found', async () => {
+      mockedClaimRepo.decideLine.mockResolvedValueOnce(null);
+
+      await expect(
+        claimsService.decideClaimLine('claim-1', 'missing', { status: 'approved' }, adminContext)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
   describe('listClaims', () => {
     it('should return paginated results', async () => {
       const paginatedResult = {
@@ -228,6 +1056,102 @@ describe('ClaimsService Integration Tests', () => {
       expect(result.data).toHaveLength(1);
       expect(result.pagination.total).toBe(1);
     });
+
+    it('should pass the procedure code filter to the repository', async () => {
+      mockedClaimRepo.findMany.mockResolvedValue({
+        data: [],
+        pagination: { total: 0, limit: 20, offset: 0, hasMore: false },
+      });
+
+      await claimsService.listClaims(
+        { limit: 20, offset: 0, sortBy: 'createdAt', sortOrder: 'desc', procedureCode: '99213' },
+        adminContext
+      );
+
+      expect(mockedClaimRepo.findMany).toHaveBeenCalledWith(
+        adminContext,
+        expect.objectContaining({
+          filters: expect.objectContaining({ procedureCode: '99213' }),
+        })
+      );
+    });
+
+    it('should pass the cursor and count mode to the repository', async () => {
+      mockedClaimRepo.findMany.mockResolvedValue({
+        data: [],
+        pagination: { limit: 20, offset: 0, hasMore: false },
+      });
+      const cursor = keysetCursor.encode('amount:asc', '140.00', CLAIM_UUID);
+
+      await claimsService.listClaims(
+        listClaimsQuerySchema.parse({ sortBy: 'amount', sortOrder: 'asc', cursor, count: 'none' }),
+        adminContext
+      );
+
+      expect(mockedClaimRepo.findMany).toHaveBeenCalledWith(adminContext, {
+        filters: expect.any(Object),
+        sort: { field: 'amount', order: 'asc' },
+        pagination: { limit: 20, offset: 0, cursor, count: 'none' },
+      });
+    });
+
+    it('should count exactly unless asked otherwise', () => {
+      expect(listClaimsQuerySchema.parse({}).count).toBe('exact');
+      expect(listClaimsQuerySchema.safeParse({ count: 'approximate' }).success).toBe(false);
+    });
+  });
+
+  describe('keyset cursors', () => {
+    it('should round-trip the sort key and id of the last row', () => {
+      const cursor = keysetCursor.encode(
+        'createdAt:desc',
+        '2025-01-11 09:30:00.123456+00',
+        CLAIM_UUID
+      );
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(keysetCursor.decode(cursor, 'createdAt:desc', claims.createdAt)).toEqual({
+        key: '2025-01-11 09:30:00.123456+00',
+        id: CLAIM_UUID,
+      });
+    });
+
+    it('should reject a cursor from another sort order', () => {
+      const cursor = keysetCursor.encode('amount:asc', '140.00', CLAIM_UUID);
+
+      expect(() => keysetCursor.decode(cursor, 'amount:desc', claims.amount)).toThrow(ValidationError);
+    });
+
+    it('should reject cursors that do not decode', () => {
+      expect(() => keysetCursor.decode('claim-1', 'createdAt:desc', claims.createdAt)).toThrow(
+        ValidationError
+      );
+      expect(() =>
+        keysetCursor.decode(
+          Buffer.from(JSON.stringify(['createdAt:desc', 'x', "1' OR 1=1"])).toString('base64url'),
+          'createdAt:desc',
+          claims.createdAt
+        )
+      ).toThrow(ValidationError);
+    });
+
+    it('should reject keys that are not of the sort column\'s type', () => {
+      const decode = (sort: string, key: string, column: Parameters<typeof keysetCursor.decode>[2]) =>
+        keysetCursor.decode(keysetCursor.encode(sort, key, CLAIM_UUID), sort, column);
+
+      expect(() => decode('createdAt:desc', 'abc', claims.createdAt)).toThrow(ValidationError);
+      expect(() => decode('createdAt:desc', '2025-02-30 09:30:00+00', claims.createdAt)).toThrow(
+        ValidationError
+      );
+      expect(() => decode('amount:asc', '1e999', claims.amount)).toThrow(ValidationError);
+      expect(() => decode('status:asc', 'pending', claims.status)).toThrow(ValidationError);
+
+      expect(decode('createdAt:desc', '2025-01-11 09:30:00+00', claims.createdAt).key).toBe(
+        '2025-01-11 09:30:00+00'
+      );
+      expect(decode('amount:asc', '140.00', claims.amount).key).toBe('140.00');
+      expect(decode('status:asc', 'under_review', claims.status).key).toBe('under_review');
+    });
   });
 });
 
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { codePairingRuleService } from '../../src/application/services/code-pairing-rule.service.js';
+import {
+  findCodePairingViolations,
+  type CodePairingRule,
+} from '../../src/domain/entities/index.js';
+import { createCodePairingRuleSchema } from '../../src/application/validators/index.js';
+import { NotFoundError } from '../../src/domain/errors/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  codePairingRuleRepository: {
+    findById: vi.fn(),
+    search: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  auditLogRepository: {
+    createMany: vi.fn(),
+  },
+}));
+
+import {
+  codePairingRuleRepository,
+  auditLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedRuleRepo = vi.mocked(codePairingRuleRepository);
+const mockedAuditLogRepo = vi.mocked(auditLogRepository);
+
+function rule(overrides: Partial<CodePairingRule>): CodePairingRule {
+  return {
+    id: 'rule-1',
+    organizationId: 'org-1',
+    procedureCode: '71046',
+    diagnosisCodePrefix: 'J',
+    effect: 'allow',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Code pairing rules', () => {
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-1',
+    role: 'admin',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('findCodePairingViolations', () => {
+    const diagnoses = ['J18.9', 'Z00.00', 'M54.50'];
+
+    it('should require one of the allowed diagnoses among the line\'s pointers', () => {
+      const rules = [rule({ diagnosisCodePrefix: 'J' })];
+
+      expect(
+        findCodePairingViolations(
+          [{ procedureCode: '71046', diagnosisPointers: [3, 1] }],
+          diagnoses,
+          rules
+        )
+      ).toEqual([]);
+      expect(
+        findCodePairingViolations(
+          [{ procedureCode: '71046', diagnosisPointers: [2, 3] }],
+          diagnoses,
+          rules
+        )
+      ).toEqual([
+        { lineNumber: 1, procedureCode: '71046', diagnosisCode: 'Z00.00', effect: 'allow' },
+      ]);
+    });
+
+    it('should report every denied pair, even alongside an allowed diagnosis', () => {
+      const rules = [
+        rule({ id: 'allow-j', diagnosisCodePrefix: 'J' }),
+        rule({ id: 'deny-z00', diagnosisCodePrefix: 'Z00', effect: 'deny', reason: 'Routine exam' }),
+      ];
+
+      expect(
+        findCodePairingViolations(
+          [
+            { procedureCode: '99213', diagnosisPointers: [2] },
+            { procedureCode: '71046', diagnosisPointers: [1, 2] },
+          ],
+          diagnoses,
+          rules
+        )
+      ).toEqual([
+        {
+          lineNumber: 2,
+          procedureCode: '71046',
+          diagnosisCode: 'Z00.00',
+          effect: 'deny',
+          ruleId: 'deny-z00',
+          reason: 'Routine exam',
+        },
+      ]);
+    });
+
+    it('should ignore inactive rules and rules for other procedures', () => {
+      const rules = [
+        rule({ effect: 'deny', diagnosisCodePrefix: 'Z00', isActive: false }),
+        rule({ procedureCode: '90834', effect: 'deny', diagnosisCodePrefix: 'Z00' }),
+      ];
+
+      expect(
+        findCodePairingViolations(
+          [{ procedureCode: '71046', diagnosisPointers: [2] }],
+          diagnoses,
+          rules
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('createCodePairingRuleSchema', () => {
+    it('should normalize the diagnosis prefix to the dotted form', () => {
+      const result = createCodePairingRuleSchema.parse({
+        procedureCode: '71046',
+        diagnosisCodePrefix: 'j069',
+        effect: 'allow',
+      });
+
+      expect(result.diagnosisCodePrefix).toBe('J06.9');
+      expect(
+        createCodePairingRuleSchema.safeParse({
+          procedureCode: '71046',
+          diagnosisCodePrefix: 'pneumonia',
+          effect: 'allow',
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('CodePairingRuleService', () => {
+    it('should create an active rule in the caller\'s organization and audit it', async () => {
+      mockedRuleRepo.create.mockResolvedValue(rule({ effect: 'deny', diagnosisCodePrefix: 'Z00' }));
+
+      await codePairingRuleService.createRule(
+        { procedureCode: '71046', diagnosisCodePrefix: 'Z00', effect: 'deny' },
+        adminContext
+      );
+
+      expect(mockedRuleRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationId: 'org-1', isActive: true }),
+        adminContext
+      );
+      expect(mockedAuditLogRepo.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          entityType: 'code_pairing_rule',
+          entityId: 'rule-1',
+          action: 'create',
+        }),
+      ]);
+    });
+
+    it('should audit only the fields that changed on update', async () => {
+      mockedRuleRepo.findById.mockResolvedValue(rule({}));
+      mockedRuleRepo.update.mockResolvedValue(rule({ isActive: false }));
+
+      await codePairingRuleService.updateRule('rule-1', { isActive: false }, adminContext);
+
+      expect(mockedAuditLogRepo.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          action: 'update',
+          changes: { isActive: { old: true, new: false } },
+        }),
+      ]);
+    });
+
+    it('should not find rules of another organization', async () => {
+      mockedRuleRepo.findById.mockResolvedValue(null);
+
+      await expect(
+        codePairingRuleService.updateRule('rule-org-2', { isActive: false }, adminContext)
+      ).rejects.toThrow(NotFoundError);
+      expect(mockedRuleRepo.update).not.toHaveBeenCalled();
+    });
+  });
+});
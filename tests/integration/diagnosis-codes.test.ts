@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DiagnosisCodeRepository } from '../../src/infrastructure/database/repositories/diagnosis-code.repository.js';
+import { runInTransaction } from '../../src/infrastructure/database/connection.js';
+import { diagnosisCodes } from '../../src/infrastructure/database/schema/index.js';
+import { parseIcd10CmLine } from '../../src/infrastructure/codes/icd10cm-parser.js';
+import { createClaimSchema } from '../../src/application/validators/index.js';
+import { ValidationError } from '../../src/domain/errors/index.js';
+
+/**
+ * Transaction double: `.where()` resolves the queued SELECT results
+ * (and ends UPDATE chains), `.values()` ends INSERT chains.
+ */
+function createTx(selectResults: unknown[][]) {
+  const tx: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of ['select', 'from', 'update', 'set', 'insert']) {
+    tx[method] = vi.fn(() => tx);
+  }
+  tx.where = vi.fn(() => Promise.resolve(selectResults.shift() ?? []));
+  tx.values = vi.fn(() => Promise.resolve());
+  return tx;
+}
+
+function useTransaction(tx: ReturnType<typeof createTx>): void {
+  vi.mocked(runInTransaction).mockImplementationOnce(
+    (fn) => fn(tx as never) as never
+  );
+}
+
+// One line of a CMS order file
+function orderLine(order: number, code: string, billable: 0 | 1, short: string, long: string) {
+  return `${String(order).padStart(5, '0')} ${code.padEnd(7)} ${billable} ${short.padEnd(60)} ${long}`;
+}
+
+describe('Diagnosis codes', () => {
+  describe('ICD-10-CM flat file parser', () => {
+    it('should read the fixed-width order file', () => {
+      expect(
+        parseIcd10CmLine(
+          orderLine(1234, 'S62309A', 1, 'Unsp fracture of unsp metacarpal bone, init', 'Unspecified fracture of unspecified metacarpal bone, initial encounter for closed fracture'),
+          1
+        )
+      ).toEqual({
+        code: 'S62.309A',
+        isBillable: true,
+        shortDescription: 'Unsp fracture of unsp metacarpal bone, init',
+        description: 'Unspecified fracture of unspecified metacarpal bone, initial encounter for closed fracture',
+      });
+
+      expect(parseIcd10CmLine(orderLine(7, 'J06', 0, 'Acute upper resp infections', 'Acute upper respiratory infections'), 2))
+        .toMatchObject({ code: 'J06', isBillable: false });
+    });
+
+    it('should read the codes file as billable codes', () => {
+      expect(parseIcd10CmLine('I10     Essential (primary) hypertension\r', 1)).toEqual({
+        code: 'I10',
+        isBillable: true,
+        shortDescription: 'Essential (primary) hypertension',
+        description: 'Essential (primary) hypertension',
+      });
+    });
+
+    it('should skip blank lines and reject malformed ones', () => {
+      expect(parseIcd10CmLine('   ', 1)).toBeNull();
+      expect(() => parseIcd10CmLine('99213   Office visit', 4)).toThrow(/Line 4/);
+      expect(() => parseIcd10CmLine(orderLine(1, 'I10', 1, 'x', 'y').replace(' 1 ', ' X '), 5))
+        .toThrow(/billable flag/);
+    });
+  });
+
+  describe('claim schema', () => {
+    it('should accept any well-formed code and normalize it to the dotted form', () => {
+      const result = createClaimSchema.safeParse({
+        patientId: '550e8400-e29b-41d4-a716-446655440000',
+        providerId: '550e8400-e29b-41d4-a716-446655440001',
+        diagnosisCode: 'm5450',
+        additionalDiagnosisCodes: [' S62.309a'],
+        serviceDate: '2025-01-15',
+        lines: [{ procedureCode: '99213', units: 1, unitCharge: 100, diagnosisPointers: [1, 2] }],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data.diagnosisCode).toBe('M54.50');
+      expect(result.success && result.data.additionalDiagnosisCodes).toEqual(['S62.309A']);
+      expect(createClaimSchema.safeParse({ diagnosisCode: 'INVALID' }).error?.issues).toContainEqual(
+        expect.objectContaining({ path: ['diagnosisCode'], message: 'Invalid diagnosis code' })
+      );
+    });
+  });
+
+  describe('release import', () => {
+    const repository = new DiagnosisCodeRepository();
+    const fy2025 = new Date('2024-10-01T00:00:00.000Z');
+    const fy2026 = new Date('2025-10-01T00:00:00.000Z');
+
+    const openVersion = (id: string, code: string, description: string, effectiveDate = fy2025) => ({
+      id,
+      code,
+      shortDescription: description,
+      description,
+      isBillable: true,
+      effectiveDate,
+      terminationDate: null,
+      createdAt: fy2025,
+      updatedAt: fy2025,
+    });
+
+    const entry = (code: string, description: string) => ({
+      code,
+      shortDescription: description,
+      description,
+      isBillable: true,
+    });
+
+    it('should add, revise and terminate codes against the versions in force', async () => {
+      const tx = createTx([
+        [
+          openVersion('id-i10', 'I10', 'Essential (primary) hypertension'),
+          openVersion('id-j06', 'J06.9', 'Acute upper respiratory infection'),
+          openVersion('id-m54', 'M54.5', 'Low back pain'),
+        ],
+      ]);
+      useTransaction(tx);
+
+      const result = await repository.importRelease(
+        [
+          entry('I10', 'Essential (primary) hypertension'),
+          entry('J06.9', 'Acute upper respiratory infection, unspecified'),
+          entry('M54.50', 'Low back pain, unspecified'),
+        ],
+        fy2026
+      );
+
+      expect(result).toEqual({ inserted: 1, revised: 1, terminated: 1, unchanged: 1 });
+      // Reworded J06.9 and dropped M54.5 are closed on the release date
+      expect(tx.update).toHaveBeenCalledWith(diagnosisCodes);
+      expect(tx.set).toHaveBeenCalledWith(
+        expect.objectContaining({ terminationDate: fy2026 })
+      );
+      expect(tx.values).toHaveBeenCalledWith([
+        expect.objectContaining({ code: 'J06.9', effectiveDate: fy2026 }),
+        expect.objectContaining({ code: 'M54.50', effectiveDate: fy2026 }),
+      ]);
+    });
+
+    it('should change nothing when the same release is loaded again', async () => {
+      const tx = createTx([[openVersion('id-i10', 'I10', 'Essential (primary) hypertension', fy2026)]]);
+      useTransaction(tx);
+
+      const result = await repository.importRelease(
+        [entry('I10', 'Essential (primary) hypertension')],
+        fy2026
+      );
+
+      expect(result).toEqual({ inserted: 0, revised: 0, terminated: 0, unchanged: 1 });
+      expect(tx.update).not.toHaveBeenCalled();
+      expect(tx.insert).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a release older than one already loaded', async () => {
+      const tx = createTx([[openVersion('id-i10', 'I10', 'Essential (primary) hypertension', fy2026)]]);
+      useTransaction(tx);
+
+      await expect(
+        repository.importRelease([entry('I10', 'Essential (primary) hypertension')], fy2025)
+      ).rejects.toThrow(ValidationError);
+      expect(tx.insert).not.toHaveBeenCalled();
+    });
+  });
+});
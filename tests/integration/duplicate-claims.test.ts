@@ -0,0 +1,319 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DrizzleQueryError } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { ClaimRepository } from '../../src/infrastructure/database/repositories/claim.repository.js';
+import { runInTransaction } from '../../src/infrastructure/database/connection.js';
+import {
+  scoreDuplicateClaim,
+  type DuplicateClaimFields,
+} from '../../src/domain/entities/index.js';
+import {
+  DuplicateClaimError,
+  IdempotencyConflictError,
+} from '../../src/domain/errors/index.js';
+import type { NewClaim } from '../../src/domain/repositories/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+
+const serviceDate = new Date('2026-03-15');
+
+const claim: DuplicateClaimFields = {
+  providerId: 'provider-1',
+  diagnosisCode: 'J06.9',
+  amount: 200,
+  serviceDate,
+  procedureCodes: ['99213', '87880'],
+};
+
+const newClaim: NewClaim = {
+  organizationId: 'org-1',
+  patientId: 'patient-1',
+  providerId: 'provider-1',
+  diagnosisCode: 'J06.9',
+  additionalDiagnosisCodes: [],
+  procedureCode: '99213',
+  amount: 200,
+  status: 'submitted',
+  serviceDate,
+  submittedAt: new Date(),
+  lines: [
+    {
+      procedureCode: '99213',
+      modifiers: [],
+      units: 1,
+      unitCharge: 150,
+      chargeAmount: 150,
+      serviceDate,
+      diagnosisPointers: [1],
+    },
+    {
+      procedureCode: '87880',
+      modifiers: [],
+      units: 1,
+      unitCharge: 50,
+      chargeAmount: 50,
+      serviceDate,
+      diagnosisPointers: [1],
+    },
+  ],
+};
+
+const insertedRow = {
+  id: 'claim-2',
+  organizationId: 'org-1',
+  claimNumber: 'CLM-2',
+  patientId: 'patient-1',
+  providerId: 'provider-1',
+  diagnosisCode: 'J06.9',
+  additionalDiagnosisCodes: [],
+  procedureCode: '99213',
+  amount: '200.00',
+  status: 'submitted',
+  serviceDate,
+  submittedAt: new Date(),
+  statusHistory: [],
+  billedAmount: null,
+  allowedAmount: null,
+  planPaidAmount: null,
+  duplicateScore: null,
+  flags: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+/**
+ * Transaction stub for ClaimRepository.create. Queries run in order: the
+ * Idempotency-Key lookup (when `replayed` is given), claims with the same
+ * total and their lines, the candidates and their lines, the organization.
+ * Lines are read by a where(), the rest end in limit().
+ */
+function createTx(options: {
+  replayed?: Record<string, unknown>[];
+  sameTotal?: Record<string, unknown>[];
+  sameTotalLines?: Record<string, unknown>[];
+  candidates?: Record<string, unknown>[];
+  candidateLines?: Record<string, unknown>[];
+  settings?: Record<string, unknown>;
+}) {
+  const tx: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of ['select', 'from', 'orderBy', 'insert', 'values']) {
+    tx[method] = vi.fn(() => tx);
+  }
+  tx.for = vi.fn().mockResolvedValue([]);
+
+  // The patient lock
+  const whereResults: unknown[] = [tx];
+  const limitResults: unknown[] = [];
+  if (options.replayed) {
+    whereResults.push(tx);
+    limitResults.push(options.replayed);
+  }
+  whereResults.push(tx);
+  limitResults.push(options.sameTotal ?? []);
+  if (options.sameTotal?.length) {
+    whereResults.push(Promise.resolve(options.sameTotalLines ?? []));
+  }
+  whereResults.push(tx);
+  limitResults.push(options.candidates ?? []);
+  if (options.candidates?.length) {
+    whereResults.push(Promise.resolve(options.candidateLines ?? []), tx);
+    limitResults.push([{ settings: options.settings ?? {} }]);
+  }
+
+  tx.where = vi.fn();
+  for (const result of whereResults) {
+    tx.where.mockReturnValueOnce(result);
+  }
+  tx.where.mockReturnValue(tx);
+  tx.limit = vi.fn();
+  for (const result of limitResults) {
+    tx.limit.mockReturnValueOnce(Promise.resolve(result));
+  }
+  tx.returning = vi
+    .fn()
+    .mockReturnValueOnce(Promise.resolve([insertedRow]))
+    .mockReturnValueOnce(Promise.resolve([]));
+  return tx;
+}
+
+describe('Duplicate claims', () => {
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-1',
+    role: 'admin',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('scoreDuplicateClaim', () => {
+    it('should score an identical claim 1', () => {
+      expect(scoreDuplicateClaim(claim, { ...claim })).toBe(1);
+    });
+
+    it('should score each difference down', () => {
+      expect(scoreDuplicateClaim(claim, { ...claim, providerId: 'provider-2' })).toBe(0.75);
+      expect(
+        scoreDuplicateClaim(claim, { ...claim, serviceDate: new Date('2026-03-17') })
+      ).toBe(0.85);
+      expect(scoreDuplicateClaim(claim, { ...claim, procedureCodes: ['99213'] })).toBe(0.9);
+      expect(scoreDuplicateClaim(claim, { ...claim, amount: 210 })).toBe(0.93);
+      expect(scoreDuplicateClaim(claim, { ...claim, amount: 250 })).toBe(0.85);
+    });
+
+    it('should score unrelated claims of the patient low', () => {
+      expect(
+        scoreDuplicateClaim(claim, {
+          providerId: 'provider-2',
+          diagnosisCode: 'I10',
+          amount: 75,
+          serviceDate: new Date('2026-03-20'),
+          procedureCodes: ['93000'],
+        })
+      ).toBe(0);
+    });
+  });
+
+  describe('ClaimRepository.create', () => {
+    const repository = new ClaimRepository();
+
+    it('should refuse an exact duplicate with a link to the original', async () => {
+      const tx = createTx({
+        sameTotal: [{ id: 'claim-1', claimNumber: 'CLM-1', procedureCode: '99213' }],
+        // Listed in another order
+        sameTotalLines: [
+          { claimId: 'claim-1', procedureCode: '87880', chargeAmount: '50.00' },
+          { claimId: 'claim-1', procedureCode: '99213', chargeAmount: '150.00' },
+        ],
+      });
+      vi.mocked(runInTransaction).mockImplementationOnce((fn) => fn(tx as never) as never);
+
+      const error = await repository.create(newClaim, adminContext).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DuplicateClaimError);
+      expect(error.statusCode).toBe(409);
+      expect(error.details).toEqual({
+        originalClaimId: 'claim-1',
+        originalClaimNumber: 'CLM-1',
+        originalClaimUrl: '/api/claims/claim-1',
+      });
+      expect(tx.for).toHaveBeenCalledWith('update');
+      expect(tx.insert).not.toHaveBeenCalled();
+    });
+
+    it('should not refuse a claim with the same total but other lines', async () => {
+      const tx = createTx({
+        sameTotal: [{ id: 'claim-1', claimNumber: 'CLM-1', procedureCode: '99213' }],
+        sameTotalLines: [
+          { claimId: 'claim-1', procedureCode: '99213', chargeAmount: '150.00' },
+          { claimId: 'claim-1', procedureCode: '85025', chargeAmount: '50.00' },
+        ],
+      });
+      vi.mocked(runInTransaction).mockImplementationOnce((fn) => fn(tx as never) as never);
+
+      await repository.create(newClaim, adminContext);
+
+      expect(tx.insert).toHaveBeenCalled();
+    });
+
+    it('should only compare against claims that were not rejected', async () => {
+      const tx = createTx({});
+      vi.mocked(runInTransaction).mockImplementationOnce((fn) => fn(tx as never) as never);
+
+      await repository.create(newClaim, adminContext);
+
+      // The second where() is the same-total query
+      const { sql, params } = new PgDialect().sqlToQuery(tx.where.mock.calls[1][0]);
+      expect(sql).toContain('"claims"."status" <> $');
+      expect(params).toContain('rejected');
+      expect(tx.insert).toHaveBeenCalled();
+    });
+
+    it('should hand back a request whose Idempotency-Key was used while it waited', async () => {
+      const tx = createTx({ replayed: [{ id: 'claim-1' }] });
+      vi.mocked(runInTransaction).mockImplementationOnce((fn) => fn(tx as never) as never);
+
+      await expect(
+        repository.create({ ...newClaim, idempotencyKey: 'retry-1' }, adminContext)
+      ).rejects.toThrow(IdempotencyConflictError);
+      // Looked up under the patient lock, before the duplicate checks
+      expect(tx.for).toHaveBeenCalledWith('update');
+      expect(tx.limit).toHaveBeenCalledTimes(1);
+      expect(tx.insert).not.toHaveBeenCalled();
+    });
+
+    it('should flag a near match with the closest claim and its score', async () => {
+      const tx = createTx({
+        candidates: [
+          {
+            id: 'claim-0',
+            providerId: 'provider-9',
+            diagnosisCode: 'I10',
+            procedureCode: '93000',
+            amount: '80.00',
+            serviceDate,
+          },
+          {
+            id: 'claim-1',
+            providerId: 'provider-1',
+            diagnosisCode: 'J06.9',
+            procedureCode: '99213',
+            amount: '190.00',
+            serviceDate,
+          },
+        ],
+        candidateLines: [
+          { claimId: 'claim-0', procedureCode: '93000' },
+          { claimId: 'claim-1', procedureCode: '99213' },
+        ],
+      });
+      vi.mocked(runInTransaction).mockImplementationOnce((fn) => fn(tx as never) as never);
+
+      await repository.create(newClaim, adminContext);
+
+      expect(tx.values.mock.calls[0][0]).toMatchObject({
+        flags: ['suspected_duplicate'],
+        duplicateOfClaimId: 'claim-1',
+        duplicateScore: '0.83',
+      });
+    });
+
+    it('should not flag a match below the organization threshold', async () => {
+      const tx = createTx({
+        candidates: [
+          {
+            id: 'claim-1',
+            providerId: 'provider-1',
+            diagnosisCode: 'J06.9',
+            procedureCode: '99213',
+            amount: '190.00',
+            serviceDate,
+          },
+        ],
+        settings: { duplicateScoreThreshold: 0.9 },
+      });
+      vi.mocked(runInTransaction).mockImplementationOnce((fn) => fn(tx as never) as never);
+
+      await repository.create(newClaim, adminContext);
+
+      expect(tx.values.mock.calls[0][0]).not.toHaveProperty('flags');
+    });
+
+    it('should report a concurrent request with the same Idempotency-Key', async () => {
+      vi.mocked(runInTransaction).mockRejectedValueOnce(
+        new DrizzleQueryError(
+          'insert into "claims" ...',
+          [],
+          Object.assign(new Error('duplicate key value violates unique constraint'), {
+            code: '23505',
+            constraint_name: 'claims_idempotency_org_idx',
+          })
+        )
+      );
+
+      await expect(
+        repository.create({ ...newClaim, idempotencyKey: 'retry-1' }, adminContext)
+      ).rejects.toThrow(IdempotencyConflictError);
+    });
+  });
+});
@@ -0,0 +1,417 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { eligibilityService } from '../../src/application/services/eligibility.service.js';
+import { claimsService } from '../../src/application/services/claims.service.js';
+import { CoverageRepository } from '../../src/infrastructure/database/repositories/coverage.repository.js';
+import { runInTransaction } from '../../src/infrastructure/database/connection.js';
+import { invalidateOrganizationSettings } from '../../src/infrastructure/cache/organization-settings.cache.js';
+import { claimsQueue } from '../../src/infrastructure/queue/queue.js';
+import { createCoverageSchema } from '../../src/application/validators/index.js';
+import {
+  getPlanYear,
+  isCoverageInForce,
+  type Claim,
+  type Coverage,
+  type Plan,
+} from '../../src/domain/entities/index.js';
+import {
+  ConflictError,
+  NoActiveCoverageError,
+  NotFoundError,
+  ValidationError,
+} from '../../src/domain/errors/index.js';
+import type { EligibilityEnforcement, TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  claimRepository: {
+    create: vi.fn(),
+    updateStatusInternal: vi.fn(),
+    findRoutableInternal: vi.fn().mockResolvedValue([]),
+  },
+  userRepository: {
+    findRoutingCandidates: vi.fn().mockResolvedValue([]),
+  },
+  patientRepository: {
+    exists: vi.fn(),
+    findByMemberId: vi.fn(),
+  },
+  providerRepository: {
+    exists: vi.fn(),
+  },
+  planRepository: {
+    findById: vi.fn(),
+  },
+  coverageRepository: {
+    findInForce: vi.fn(),
+    create: vi.fn(),
+  },
+  benefitAccumulatorRepository: {
+    findForPlanYear: vi.fn(),
+  },
+  organizationRepository: {
+    findById: vi.fn(),
+  },
+  auditLogRepository: {
+    createMany: vi.fn(),
+  },
+  // Every code is in force
+  diagnosisCodeRepository: {
+    findBillableInForce: vi.fn(async (codes: string[]) => codes.map((code) => ({ code }))),
+  },
+  procedureCodeRepository: {
+    findInForce: vi.fn(async (codes: string[]) => codes.map((code) => ({ code }))),
+  },
+  codePairingRuleRepository: {
+    findActiveForProcedures: vi.fn().mockResolvedValue([]),
+  },
+}));
+
+import {
+  claimRepository,
+  patientRepository,
+  providerRepository,
+  planRepository,
+  coverageRepository,
+  benefitAccumulatorRepository,
+  organizationRepository,
+  auditLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedClaimRepo = vi.mocked(claimRepository);
+const mockedPatientRepo = vi.mocked(patientRepository);
+const mockedProviderRepo = vi.mocked(providerRepository);
+const mockedPlanRepo = vi.mocked(planRepository);
+const mockedCoverageRepo = vi.mocked(coverageRepository);
+const mockedAccumulatorRepo = vi.mocked(benefitAccumulatorRepository);
+const mockedOrgRepo = vi.mocked(organizationRepository);
+const mockedAuditLogRepo = vi.mocked(auditLogRepository);
+
+function plan(overrides: Partial<Plan> = {}): Plan {
+  return {
+    id: 'plan-1',
+    organizationId: 'org-1',
+    code: 'PPO-GOLD',
+    name: 'PPO Gold',
+    annualBenefitMax: 5000,
+    planYearStartMonth: 7,
+    deductible: 500,
+    coinsurancePercent: 20,
+    outOfPocketMax: 3000,
+    copays: {},
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function coverage(overrides: Partial<Coverage> = {}): Coverage {
+  return {
+    id: 'coverage-1',
+    organizationId: 'org-1',
+    patientId: 'patient-1',
+    planId: 'plan-1',
+    effectiveDate: new Date('2026-01-01'),
+    terminationDate: new Date('2026-12-31'),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function mockEnforcement(eligibilityEnforcement: EligibilityEnforcement) {
+  mockedOrgRepo.findById.mockResolvedValue({
+    id: 'org-1',
+    name: 'Test Org',
+    code: 'TEST',
+    isActive: true,
+    settings: {
+      maxClaimAmount: 1000000,
+      minClaimAmount: 0.01,
+      requiresManualReview: true,
+      eligibilityEnforcement,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+describe('Eligibility', () => {
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-user-1',
+    role: 'admin',
+  };
+
+  const claimInput = {
+    patientId: 'patient-1',
+    providerId: 'provider-1',
+    diagnosisCode: 'J06.9',
+    lines: [{ procedureCode: '99213', units: 1, unitCharge: 150, diagnosisPointers: [1] }],
+    serviceDate: new Date('2027-02-01'),
+  };
+
+  const createdClaim: Claim = {
+    id: 'claim-1',
+    organizationId: 'org-1',
+    claimNumber: 'CLM-001',
+    patientId: 'patient-1',
+    providerId: 'provider-1',
+    diagnosisCode: 'J06.9',
+    amount: 150,
+    status: 'submitted',
+    serviceDate: new Date('2027-02-01'),
+    submittedAt: new Date(),
+    statusHistory: [],
+    flags: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateOrganizationSettings('org-1');
+    mockedPatientRepo.exists.mockResolvedValue(true);
+    mockedProviderRepo.exists.mockResolvedValue(true);
+  });
+
+  describe('isCoverageInForce', () => {
+    it('should include both the effective and the termination day', () => {
+      const period = coverage();
+
+      expect(isCoverageInForce(period, new Date('2026-01-01T00:00:00.000Z'))).toBe(true);
+      expect(isCoverageInForce(period, new Date('2026-12-31T23:59:59.000Z'))).toBe(true);
+      expect(isCoverageInForce(period, new Date('2027-01-01T00:00:00.000Z'))).toBe(false);
+      expect(isCoverageInForce(period, new Date('2025-12-31T23:59:59.000Z'))).toBe(false);
+    });
+
+    it('should keep open-ended coverages in force', () => {
+      expect(
+        isCoverageInForce(coverage({ terminationDate: undefined }), new Date('2040-06-01'))
+      ).toBe(true);
+    });
+  });
+
+  describe('getPlanYear', () => {
+    it('should start the plan year in the plan start month', () => {
+      expect(getPlanYear(plan(), new Date('2026-03-15'))).toEqual({
+        start: new Date('2025-07-01'),
+        end: new Date('2026-07-01'),
+      });
+      expect(getPlanYear(plan(), new Date('2026-07-01'))).toEqual({
+        start: new Date('2026-07-01'),
+        end: new Date('2027-07-01'),
+      });
+    });
+  });
+
+  describe('createCoverageSchema', () => {
+    it('should reject a termination before the effective date', () => {
+      const result = createCoverageSchema.safeParse({
+        planId: '7f3e2a10-4b5c-4d6e-8f90-a1b2c3d4e5f6',
+        effectiveDate: '2026-06-01',
+        terminationDate: '2026-05-31',
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('checkEligibility', () => {
+    it('should report the plan and the member accumulators for the plan year', async () => {
+      mockedPatientRepo.findByMemberId.mockResolvedValue({
+        id: 'patient-1',
+        memberId: 'MBR-000123',
+      } as never);
+      mockedCoverageRepo.findInForce.mockResolvedValue(coverage({ plan: plan() }));
+      mockedAccumulatorRepo.findForPlanYear.mockResolvedValue({
+        deductibleMet: 500,
+        outOfPocketMet: 740,
+        planPaid: 1250.5,
+      } as never);
+
+      const result = await eligibilityService.checkEligibility(
+        { memberId: 'MBR-000123', serviceDate: new Date('2026-03-15') },
+        adminContext
+      );
+
+      expect(result.status).toBe('active');
+      expect(result.plan?.code).toBe('PPO-GOLD');
+      expect(result.coverage).not.toHaveProperty('plan');
+      expect(result.benefits).toEqual({
+        planYear: { start: new Date('2025-07-01'), end: new Date('2026-07-01') },
+        deductible: 500,
+        deductibleMet: 500,
+        outOfPocketMax: 3000,
+        outOfPocketMet: 740,
+        annualBenefitMax: 5000,
+        used: 1250.5,
+        remaining: 3749.5,
+      });
+      expect(mockedAccumulatorRepo.findForPlanYear).toHaveBeenCalledWith(
+        'patient-1',
+        'plan-1',
+        new Date('2025-07-01'),
+        adminContext
+      );
+    });
+
+    it('should leave remaining benefits open on plans without a maximum', async () => {
+      mockedPatientRepo.findByMemberId.mockResolvedValue({
+        id: 'patient-1',
+        memberId: 'MBR-000123',
+      } as never);
+      mockedCoverageRepo.findInForce.mockResolvedValue(
+        coverage({ plan: plan({ annualBenefitMax: undefined }) })
+      );
+      mockedAccumulatorRepo.findForPlanYear.mockResolvedValue({
+        deductibleMet: 0,
+        outOfPocketMet: 0,
+        planPaid: 9000,
+      } as never);
+
+      const result = await eligibilityService.checkEligibility(
+        { memberId: 'MBR-000123', serviceDate: new Date('2026-03-15') },
+        adminContext
+      );
+
+      expect(result.benefits?.used).toBe(9000);
+      expect(result.benefits?.remaining).toBeUndefined();
+    });
+
+    it('should answer inactive outside every coverage', async () => {
+      mockedPatientRepo.findByMemberId.mockResolvedValue({
+        id: 'patient-1',
+        memberId: 'MBR-000123',
+      } as never);
+      mockedCoverageRepo.findInForce.mockResolvedValue(null);
+
+      const result = await eligibilityService.checkEligibility(
+        { memberId: 'MBR-000123', serviceDate: new Date('2027-02-01') },
+        adminContext
+      );
+
+      expect(result.status).toBe('inactive');
+      expect(result.benefits).toBeUndefined();
+      expect(mockedAccumulatorRepo.findForPlanYear).not.toHaveBeenCalled();
+    });
+
+    it('should not find unknown members', async () => {
+      mockedPatientRepo.findByMemberId.mockResolvedValue(null);
+
+      await expect(
+        eligibilityService.checkEligibility({ memberId: 'MBR-404' }, adminContext)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('addCoverage', () => {
+    it('should not enroll patients in retired plans', async () => {
+      mockedPlanRepo.findById.mockResolvedValue(plan({ isActive: false }));
+
+      await expect(
+        eligibilityService.addCoverage(
+          'patient-1',
+          { planId: 'plan-1', effectiveDate: new Date('2026-01-01') },
+          adminContext
+        )
+      ).rejects.toThrow(ValidationError);
+      expect(mockedCoverageRepo.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createClaim', () => {
+    it('should reject claims outside coverage when the organization rejects', async () => {
+      mockEnforcement('reject');
+      mockedCoverageRepo.findInForce.mockResolvedValue(null);
+
+      await expect(claimsService.createClaim(claimInput, adminContext)).rejects.toThrow(
+        NoActiveCoverageError
+      );
+      expect(mockedCoverageRepo.findInForce).toHaveBeenCalledWith(
+        'patient-1',
+        claimInput.serviceDate,
+        adminContext
+      );
+      expect(mockedClaimRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should hold claims outside coverage in review when the organization pends', async () => {
+      mockEnforcement('pend');
+      mockedCoverageRepo.findInForce.mockResolvedValue(null);
+      mockedClaimRepo.create.mockResolvedValue(createdClaim);
+      mockedClaimRepo.updateStatusInternal.mockImplementation(
+        async (_id, _orgId, newStatus) => ({ ...createdClaim, status: newStatus })
+      );
+
+      const result = await claimsService.createClaim(claimInput, adminContext);
+
+      expect(result.status).toBe('under_review');
+      expect(mockedClaimRepo.updateStatusInternal).toHaveBeenCalledWith(
+        'claim-1',
+        'org-1',
+        'under_review',
+        'admin-user-1',
+        'No active coverage on the date of service'
+      );
+      expect(mockedAuditLogRepo.createMany).toHaveBeenLastCalledWith([
+        expect.objectContaining({
+          entityType: 'claim',
+          action: 'status_change',
+          changes: { status: { old: 'submitted', new: 'under_review' } },
+        }),
+      ]);
+      expect(claimsQueue.add).not.toHaveBeenCalledWith(
+        'claim_adjudication',
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should create covered claims as usual', async () => {
+      mockEnforcement('reject');
+      mockedCoverageRepo.findInForce.mockResolvedValue(coverage({ plan: plan() }));
+      mockedClaimRepo.create.mockResolvedValue(createdClaim);
+
+      const result = await claimsService.createClaim(claimInput, adminContext);
+
+      expect(result.status).toBe('submitted');
+      expect(mockedClaimRepo.updateStatusInternal).not.toHaveBeenCalled();
+    });
+
+    it('should not look up coverage when enforcement is off', async () => {
+      mockEnforcement('off');
+      mockedClaimRepo.create.mockResolvedValue(createdClaim);
+
+      await claimsService.createClaim(claimInput, adminContext);
+
+      expect(mockedCoverageRepo.findInForce).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('CoverageRepository.create', () => {
+    const repository = new CoverageRepository();
+
+    it('should refuse a coverage overlapping another of the patient', async () => {
+      const tx: Record<string, ReturnType<typeof vi.fn>> = {};
+      for (const method of ['select', 'from', 'where', 'insert', 'values', 'returning']) {
+        tx[method] = vi.fn(() => tx);
+      }
+      tx.for = vi.fn().mockResolvedValue([{ id: 'patient-1' }]);
+      tx.limit = vi.fn().mockResolvedValue([{ id: 'coverage-0' }]);
+      vi.mocked(runInTransaction).mockImplementationOnce((fn) => fn(tx as never) as never);
+
+      await expect(
+        repository.create(
+          {
+            patientId: 'patient-1',
+            planId: 'plan-1',
+            effectiveDate: new Date('2026-06-01'),
+          },
+          adminContext
+        )
+      ).rejects.toThrow(ConflictError);
+      expect(tx.for).toHaveBeenCalledWith('update');
+      expect(tx.insert).not.toHaveBeenCalled();
+    });
+  });
+});
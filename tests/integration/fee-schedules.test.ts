@@ -0,0 +1,421 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { feeScheduleService } from '../../src/application/services/fee-schedule.service.js';
+import { repriceClaim } from '../../src/infrastructure/database/repositories/fee-schedule.repository.js';
+import { parseFeeScheduleCsv } from '../../src/infrastructure/import/fee-schedule-file.js';
+import {
+  DEFAULT_ORGANIZATION_SETTINGS,
+  isExcessiveCharge,
+  priceClaimLine,
+  selectFeeScheduleEntry,
+  type FeeScheduleEntry,
+} from '../../src/domain/entities/index.js';
+import { NotFoundError, ValidationError } from '../../src/domain/errors/index.js';
+import type { ClaimRow } from '../../src/infrastructure/database/schema/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  feeScheduleRepository: {
+    findById: vi.fn(),
+    search: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    upsertMany: vi.fn(),
+  },
+  providerRepository: {
+    findById: vi.fn(),
+    findByNpi: vi.fn(),
+  },
+  auditLogRepository: {
+    createMany: vi.fn(),
+  },
+}));
+
+import {
+  feeScheduleRepository,
+  providerRepository,
+  auditLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedFeeScheduleRepo = vi.mocked(feeScheduleRepository);
+const mockedProviderRepo = vi.mocked(providerRepository);
+const mockedAuditLogRepo = vi.mocked(auditLogRepository);
+
+const PROVIDER_ID = '5f0c3f5e-7c1a-4e55-9d0f-8a1b2c3d4e5f';
+const OTHER_PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440001';
+
+const provider = { id: PROVIDER_ID, specialty: 'Cardiology' };
+
+function entry(overrides: Partial<FeeScheduleEntry>): FeeScheduleEntry {
+  return {
+    id: 'entry-1',
+    organizationId: 'org-1',
+    procedureCode: '99213',
+    amount: 100,
+    effectiveDate: new Date('2026-01-01'),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Transaction stub for repriceClaim: the provider and the organization come
+ * from the two limit() calls, the lines from orderBy() and the schedule
+ * entries from the fourth where()
+ */
+function repricingTx(
+  lineRows: Record<string, unknown>[],
+  entryRows: Record<string, unknown>[],
+  settings: Record<string, unknown> = {}
+) {
+  const tx: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of ['select', 'from', 'update', 'set']) {
+    tx[method] = vi.fn(() => tx);
+  }
+  tx.limit = vi
+    .fn()
+    .mockReturnValueOnce(Promise.resolve([provider]))
+    .mockReturnValueOnce(Promise.resolve([{ settings }]));
+  tx.orderBy = vi.fn().mockResolvedValue(lineRows);
+  tx.where = vi
+    .fn()
+    .mockReturnValueOnce(tx)
+    .mockReturnValueOnce(tx)
+    .mockReturnValueOnce(tx)
+    .mockReturnValueOnce(Promise.resolve(entryRows))
+    .mockReturnValue(Promise.resolve([]));
+  return tx;
+}
+
+function entryRow(overrides: Record<string, unknown>) {
+  return {
+    id: 'entry-1',
+    organizationId: 'org-1',
+    providerId: null,
+    specialty: null,
+    procedureCode: '99213',
+    amount: '100.00',
+    effectiveDate: new Date('2026-01-01'),
+    terminationDate: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function lineRow(overrides: Record<string, unknown>) {
+  return {
+    id: 'line-1',
+    lineNumber: 1,
+    procedureCode: '99213',
+    units: 1,
+    chargeAmount: '150.00',
+    serviceDate: new Date('2026-03-15'),
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function claimRow(overrides: Partial<ClaimRow> = {}): ClaimRow {
+  return {
+    id: 'claim-1',
+    organizationId: 'org-1',
+    providerId: PROVIDER_ID,
+    procedureCode: '99213',
+    amount: '150.00',
+    serviceDate: new Date('2026-03-15'),
+    flags: [],
+    ...overrides,
+  } as ClaimRow;
+}
+
+describe('Fee schedules', () => {
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-1',
+    role: 'admin',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('selectFeeScheduleEntry', () => {
+    const serviceDate = new Date('2026-03-15');
+
+    it('should prefer the provider, then the specialty, then the organization', () => {
+      const organization = entry({ id: 'organization' });
+      const specialty = entry({ id: 'specialty', specialty: 'cardiology' });
+      const own = entry({ id: 'provider', providerId: PROVIDER_ID });
+      const other = entry({ id: 'other', providerId: OTHER_PROVIDER_ID });
+      const otherSpecialty = entry({ id: 'other-specialty', specialty: 'Dermatology' });
+
+      expect(
+        selectFeeScheduleEntry([organization, specialty, own, other], provider, serviceDate)?.id
+      ).toBe('provider');
+      expect(
+        selectFeeScheduleEntry([organization, specialty, other], provider, serviceDate)?.id
+      ).toBe('specialty');
+      expect(
+        selectFeeScheduleEntry([organization, other, otherSpecialty], provider, serviceDate)?.id
+      ).toBe('organization');
+      expect(
+        selectFeeScheduleEntry([other, otherSpecialty], provider, serviceDate)
+      ).toBeUndefined();
+    });
+
+    it('should take the latest entry in force on the service date', () => {
+      const entries = [
+        entry({ id: '2025', effectiveDate: new Date('2025-01-01') }),
+        entry({ id: '2026', effectiveDate: new Date('2026-01-01') }),
+        entry({ id: 'future', effectiveDate: new Date('2026-06-01') }),
+        entry({
+          id: 'ended',
+          providerId: PROVIDER_ID,
+          effectiveDate: new Date('2025-01-01'),
+          terminationDate: new Date('2026-03-14'),
+        }),
+      ];
+
+      expect(selectFeeScheduleEntry(entries, provider, serviceDate)?.id).toBe('2026');
+      expect(selectFeeScheduleEntry(entries, provider, new Date('2026-07-01'))?.id).toBe(
+        'future'
+      );
+      expect(selectFeeScheduleEntry(entries, provider, new Date('2026-03-14'))?.id).toBe('ended');
+    });
+  });
+
+  describe('pricing', () => {
+    it('should allow the lesser of the charge and the schedule amount for the units', () => {
+      expect(priceClaimLine({ units: 3, chargeAmount: 90 }, 25)).toEqual({
+        scheduledAmount: 75,
+        allowedAmount: 75,
+      });
+      expect(priceClaimLine({ units: 2, chargeAmount: 40 }, 25)).toEqual({
+        scheduledAmount: 50,
+        allowedAmount: 40,
+      });
+      expect(priceClaimLine({ units: 1, chargeAmount: 40 }, undefined)).toEqual({
+        allowedAmount: 40,
+      });
+    });
+
+    it('should flag charges above the configured multiple of the schedule', () => {
+      expect(isExcessiveCharge(301, 100, DEFAULT_ORGANIZATION_SETTINGS)).toBe(true);
+      expect(isExcessiveCharge(300, 100, DEFAULT_ORGANIZATION_SETTINGS)).toBe(false);
+      expect(isExcessiveCharge(201, 100, { excessiveChargeMultiple: 2 })).toBe(true);
+      expect(isExcessiveCharge(10_000, undefined, DEFAULT_ORGANIZATION_SETTINGS)).toBe(false);
+    });
+  });
+
+  describe('parseFeeScheduleCsv', () => {
+    it('should read entries by column name', () => {
+      const rows = parseFeeScheduleCsv(
+        [
+          'procedureCode,amount,effectiveDate,terminationDate,providerNpi,specialty',
+          '99213,85.50,2026-01-01,,,',
+          '99214,120,2026-01-01,2026-12-31,1234567893,',
+          '93000,40,2026-01-01,,,Cardiology',
+          '93000,40',
+        ].join('\n')
+      );
+
+      expect(rows).toEqual([
+        {
+          row: 2,
+          providerNpi: undefined,
+          fields: {
+            procedureCode: '99213',
+            amount: 85.5,
+            effectiveDate: '2026-01-01',
+            terminationDate: undefined,
+            specialty: undefined,
+          },
+        },
+        expect.objectContaining({
+          row: 3,
+          providerNpi: '1234567893',
+          fields: expect.objectContaining({ terminationDate: '2026-12-31' }),
+        }),
+        expect.objectContaining({
+          row: 4,
+          fields: expect.objectContaining({ specialty: 'Cardiology' }),
+        }),
+        { row: 5, fields: {}, error: 'Expected 6 cells, found 2' },
+      ]);
+    });
+
+    it('should reject unknown and missing columns', () => {
+      expect(() => parseFeeScheduleCsv('procedureCode,amount,effectiveDate,rate\n')).toThrow(
+        'Unknown columns: rate'
+      );
+      expect(() => parseFeeScheduleCsv('procedureCode,amount\n')).toThrow(
+        'Missing columns: effectiveDate'
+      );
+    });
+  });
+
+  describe('repriceClaim', () => {
+    it('should store each line price and flag an excessive charge', async () => {
+      const tx = repricingTx(
+        [
+          lineRow({ id: 'line-1', chargeAmount: '150.00' }),
+          lineRow({ id: 'line-2', lineNumber: 2, procedureCode: '93000', chargeAmount: '500.00' }),
+          lineRow({ id: 'line-3', lineNumber: 3, procedureCode: '85025', chargeAmount: '20.00' }),
+        ],
+        [
+          entryRow({ procedureCode: '99213', amount: '100.00' }),
+          entryRow({ id: 'entry-2', procedureCode: '93000', amount: '40.00' }),
+          entryRow({
+            id: 'entry-3',
+            procedureCode: '93000',
+            providerId: PROVIDER_ID,
+            amount: '150.00',
+          }),
+        ]
+      );
+
+      const result = await repriceClaim(tx as never, claimRow({ amount: '670.00' }));
+
+      const prices = tx.set.mock.calls.map(([values]) => [
+        values.scheduledAmount,
+        values.allowedAmount,
+      ]);
+      expect(prices).toEqual([
+        ['100.00', '100.00'],
+        ['150.00', '150.00'],
+        [null, '20.00'],
+      ]);
+      expect(result).toEqual({
+        billedAmount: '670.00',
+        allowedAmount: '270.00',
+        flags: ['excessive_charge'],
+      });
+    });
+
+    it('should clear the flag when no line is excessive and keep other flags', async () => {
+      const tx = repricingTx(
+        [lineRow({ chargeAmount: '150.00' })],
+        [entryRow({ amount: '100.00' })],
+        { excessiveChargeMultiple: 1.25 }
+      );
+
+      const excessive = await repriceClaim(tx as never, claimRow());
+      expect(excessive.flags).toEqual(['excessive_charge']);
+
+      const relaxed = repricingTx([lineRow({ chargeAmount: '150.00' })], [entryRow({})]);
+      const result = await repriceClaim(
+        relaxed as never,
+        claimRow({ flags: ['excessive_charge', 'other'] })
+      );
+      expect(result.flags).toEqual(['other']);
+    });
+
+    it('should price a claim without lines as one line', async () => {
+      const tx = repricingTx([], [entryRow({ amount: '100.00' })]);
+
+      const result = await repriceClaim(tx as never, claimRow({ amount: '80.00' }));
+
+      expect(tx.update).not.toHaveBeenCalled();
+      expect(result).toEqual({ billedAmount: '80.00', allowedAmount: '80.00', flags: [] });
+    });
+  });
+
+  describe('FeeScheduleService', () => {
+    const header = 'procedureCode,amount,effectiveDate,providerNpi';
+
+    it('should refuse an entry for a provider outside the organization', async () => {
+      mockedProviderRepo.findById.mockResolvedValue(null);
+
+      await expect(
+        feeScheduleService.createEntry(
+          {
+            procedureCode: '99213',
+            providerId: PROVIDER_ID,
+            amount: 100,
+            effectiveDate: new Date('2026-01-01'),
+          },
+          adminContext
+        )
+      ).rejects.toThrow(NotFoundError);
+      expect(mockedFeeScheduleRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should report every invalid row of a dry run', async () => {
+      mockedProviderRepo.findByNpi.mockImplementation(async (npi) =>
+        npi === '1234567893' ? ({ id: PROVIDER_ID } as never) : null
+      );
+
+      const report = await feeScheduleService.dryRun(
+        [
+          header,
+          '99213,100,2026-01-01,1234567893',
+          '99214,-5,2026-01-01,',
+          '99215,100,2026-01-01,1111111111',
+          '99213,90,2026-01-01,1234567893',
+        ].join('\n'),
+        adminContext
+      );
+
+      expect(report).toEqual({
+        rowCount: 4,
+        validCount: 1,
+        invalidCount: 3,
+        errors: [
+          { row: 3, message: expect.stringMatching(/^amount: /) },
+          { row: 4, message: 'No provider with NPI 1111111111' },
+          { row: 5, message: 'Same procedure code, scope and effective date as row 2' },
+        ],
+      });
+      expect(mockedProviderRepo.findByNpi).toHaveBeenCalledTimes(2);
+      expect(mockedFeeScheduleRepo.upsertMany).not.toHaveBeenCalled();
+    });
+
+    it('should import nothing when a row is invalid', async () => {
+      const error = await feeScheduleService
+        .importFile(
+          [header, '99213,100,2026-01-01,', '99214,abc,2026-01-01,'].join('\n'),
+          adminContext
+        )
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.details.errors).toEqual([{ row: 3, message: expect.any(String) }]);
+      expect(mockedFeeScheduleRepo.upsertMany).not.toHaveBeenCalled();
+    });
+
+    it('should upsert the file and audit created and updated entries', async () => {
+      const before = entry({ id: 'entry-1', amount: 90 });
+      mockedFeeScheduleRepo.upsertMany.mockResolvedValue({
+        created: [entry({ id: 'entry-2', procedureCode: '99214', amount: 130 })],
+        updated: [{ before, after: { ...before, amount: 100 } }],
+      });
+
+      const result = await feeScheduleService.importFile(
+        [header, '99213,100,2026-01-01,', '99214,130,2026-01-01,'].join('\n'),
+        adminContext
+      );
+
+      expect(result).toEqual({ rowCount: 2, created: 1, updated: 1 });
+      expect(mockedFeeScheduleRepo.upsertMany).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ procedureCode: '99213', amount: 100 }),
+          expect.objectContaining({ procedureCode: '99214', amount: 130 }),
+        ],
+        adminContext
+      );
+      const [records] = mockedAuditLogRepo.createMany.mock.calls[0];
+      expect(records.map((record) => [record.entityType, record.action, record.entityId])).toEqual([
+        ['fee_schedule', 'create', 'entry-2'],
+        ['fee_schedule', 'update', 'entry-1'],
+      ]);
+      expect(records[1].changes).toEqual({ amount: { old: 90, new: 100 } });
+    });
+
+    it('should require a CSV body', async () => {
+      await expect(feeScheduleService.importFile(undefined, adminContext)).rejects.toThrow(
+        /Content-Type text\/csv/
+      );
+    });
+  });
+});
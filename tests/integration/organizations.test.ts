@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { organizationService } from '../../src/application/services/organization.service.js';
+import { authService } from '../../src/infrastructure/auth/auth.service.js';
+import { organizationSettingsSchema } from '../../src/application/validators/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+import {
+  ConflictError,
+  UnauthorizedError,
+  ValidationError,
+} from '../../src/domain/errors/index.js';
+
+// Mock repositories
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  organizationRepository: {
+    create: vi.fn(),
+    update: vi.fn(),
+    findById: vi.fn(),
+    findByCode: vi.fn(),
+    search: vi.fn(),
+  },
+  userRepository: {
+    findById: vi.fn(),
+  },
+  auditLogRepository: {
+    createMany: vi.fn(),
+  },
+}));
+
+import {
+  organizationRepository,
+  userRepository,
+  auditLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedOrgRepo = vi.mocked(organizationRepository);
+const mockedUserRepo = vi.mocked(userRepository);
+const mockedAuditRepo = vi.mocked(auditLogRepository);
+
+describe('OrganizationService Integration Tests', () => {
+  const superAdminContext: TenantContext = {
+    organizationId: 'platform-org',
+    userId: 'super-admin-1',
+    role: 'super_admin',
+  };
+
+  const mockOrganization = {
+    id: 'org-1',
+    name: 'HealthFirst Insurance Co.',
+    code: 'HEALTH1',
+    isActive: true,
+    settings: {
+      maxClaimAmount: 500000,
+      minClaimAmount: 0.01,
+      requiresManualReview: true,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createOrganization', () => {
+    it('should reject a code that is already in use', async () => {
+      mockedOrgRepo.findByCode.mockResolvedValueOnce(mockOrganization);
+
+      await expect(
+        organizationService.createOrganization(
+          { name: 'Other', code: 'HEALTH1' },
+          superAdminContext
+        )
+      ).rejects.toThrow(ConflictError);
+      expect(mockedOrgRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should audit the creation in the new organization', async () => {
+      mockedOrgRepo.findByCode.mockResolvedValueOnce(null);
+      mockedOrgRepo.create.mockResolvedValueOnce(mockOrganization);
+
+      await organizationService.createOrganization(
+        { name: 'HealthFirst Insurance Co.', code: 'HEALTH1' },
+        superAdminContext
+      );
+
+      expect(mockedAuditRepo.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          organizationId: 'org-1',
+          entityType: 'organization',
+          action: 'create',
+          performedBy: 'super-admin-1',
+        }),
+      ]);
+    });
+  });
+
+  describe('deactivateOrganization', () => {
+    it('should deactivate and revoke sessions', async () => {
+      mockedOrgRepo.findById.mockResolvedValueOnce(mockOrganization);
+      mockedOrgRepo.update.mockResolvedValueOnce({
+        ...mockOrganization,
+        isActive: false,
+        sessionsRevokedAt: new Date(),
+      });
+
+      const result = await organizationService.deactivateOrganization(
+        'org-1',
+        superAdminContext
+      );
+
+      expect(result.isActive).toBe(false);
+      expect(mockedOrgRepo.update).toHaveBeenCalledWith('org-1', {
+        isActive: false,
+        sessionsRevokedAt: expect.any(Date),
+      });
+    });
+
+    it('should not allow deactivating your own organization', async () => {
+      await expect(
+        organizationService.deactivateOrganization('platform-org', superAdminContext)
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('organizationSettingsSchema', () => {
+    it('should reject settings outside the platform claim bounds', () => {
+      const result = organizationSettingsSchema.safeParse({
+        maxClaimAmount: 5_000_000,
+        minClaimAmount: 0.01,
+        requiresManualReview: true,
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject a minimum above the maximum', () => {
+      const result = organizationSettingsSchema.safeParse({
+        maxClaimAmount: 100,
+        minClaimAmount: 500,
+        requiresManualReview: false,
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+describe('Security: Organization deactivation', () => {
+  const activeUser = {
+    id: 'user-1',
+    organizationId: 'org-1',
+    email: 'admin@healthfirst.com',
+    passwordHash: 'hash',
+    firstName: 'Admin',
+    lastName: 'User',
+    role: 'admin' as const,
+    isActive: true,
+    assignedClaimIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const payload = {
+    userId: 'user-1',
+    email: 'admin@healthfirst.com',
+    organizationId: 'org-1',
+    role: 'admin' as const,
+    iat: Math.floor(new Date('2026-01-01T00:00:00Z').getTime() / 1000),
+  };
+
+  const organization = {
+    id: 'org-1',
+    name: 'HealthFirst Insurance Co.',
+    code: 'HEALTH1',
+    isActive: true,
+    settings: {
+      maxClaimAmount: 500000,
+      minClaimAmount: 0.01,
+      requiresManualReview: true,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reject sessions of a deactivated organization', async () => {
+    mockedUserRepo.findById.mockResolvedValueOnce(activeUser);
+    mockedOrgRepo.findById.mockResolvedValueOnce({ ...organization, isActive: false });
+
+    await expect(authService.getTenantContext(payload)).rejects.toThrow(UnauthorizedError);
+  });
+
+  it('should keep tokens issued before revocation invalid after reactivation', async () => {
+    mockedUserRepo.findById.mockResolvedValueOnce(activeUser);
+    mockedOrgRepo.findById.mockResolvedValueOnce({
+      ...organization,
+      sessionsRevokedAt: new Date('2026-02-01T00:00:00Z'),
+    });
+
+    await expect(authService.getTenantContext(payload)).rejects.toThrow(
+      'Session has been revoked'
+    );
+  });
+
+  it('should accept tokens issued after revocation', async () => {
+    mockedUserRepo.findById.mockResolvedValueOnce(activeUser);
+    mockedOrgRepo.findById.mockResolvedValueOnce({
+      ...organization,
+      sessionsRevokedAt: new Date('2025-12-01T00:00:00Z'),
+    });
+
+    const context = await authService.getTenantContext(payload);
+
+    expect(context.organizationId).toBe('org-1');
+  });
+});
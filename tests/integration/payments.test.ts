@@ -0,0 +1,358 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { paymentService } from '../../src/application/services/payment.service.js';
+import { PaymentRepository } from '../../src/infrastructure/database/repositories/payment.repository.js';
+import { runInTransaction } from '../../src/infrastructure/database/connection.js';
+import {
+  getDefaultAdjustments,
+  isRemittanceBalanced,
+  type Claim,
+  type PaymentBatch,
+} from '../../src/domain/entities/index.js';
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../../src/domain/errors/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  claimRepository: {
+    findByIds: vi.fn(),
+    findMany: vi.fn(),
+  },
+  providerRepository: {
+    findById: vi.fn(),
+  },
+  paymentRepository: {
+    findById: vi.fn(),
+    search: vi.fn(),
+    createBatch: vi.fn(),
+    voidBatch: vi.fn(),
+  },
+  auditLogRepository: {
+    createMany: vi.fn(),
+  },
+}));
+
+import {
+  claimRepository,
+  providerRepository,
+  paymentRepository,
+  auditLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedClaimRepo = vi.mocked(claimRepository);
+const mockedProviderRepo = vi.mocked(providerRepository);
+const mockedPaymentRepo = vi.mocked(paymentRepository);
+const mockedAuditLogRepo = vi.mocked(auditLogRepository);
+
+const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440001';
+
+function claim(overrides: Partial<Claim>): Claim {
+  return {
+    id: 'claim-1',
+    organizationId: 'org-1',
+    claimNumber: 'CLM-001',
+    patientId: 'patient-1',
+    providerId: PROVIDER_ID,
+    diagnosisCode: 'J06.9',
+    amount: 200,
+    status: 'approved',
+    serviceDate: new Date('2025-01-10'),
+    submittedAt: new Date('2025-01-11'),
+    statusHistory: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function batch(overrides: Partial<PaymentBatch>): PaymentBatch {
+  return {
+    id: 'batch-1',
+    organizationId: 'org-1',
+    batchNumber: 'PAY-ORG1-1',
+    providerId: PROVIDER_ID,
+    method: 'eft',
+    reference: 'EFT-1',
+    status: 'issued',
+    totalPaid: 160,
+    claimCount: 1,
+    paidAt: new Date(),
+    issuedBy: 'admin-1',
+    remittances: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Payments', () => {
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-1',
+    role: 'admin',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedProviderRepo.findById.mockResolvedValue({ id: PROVIDER_ID } as never);
+  });
+
+  describe('remittance balancing', () => {
+    it('should write off billed - allowed as contractual and the rest to the patient', () => {
+      expect(getDefaultAdjustments(200, 180, 150)).toEqual([
+        { groupCode: 'CO', reasonCode: '45', amount: 20 },
+        { groupCode: 'PR', reasonCode: '2', amount: 30 },
+      ]);
+      expect(getDefaultAdjustments(99.99, 99.99, 99.99)).toEqual([]);
+    });
+
+    it('should require adjustments that account for every cent', () => {
+      const adjustments = [
+        { groupCode: 'CO' as const, reasonCode: '45', amount: 20.1 },
+        { groupCode: 'PR' as const, reasonCode: '1', amount: 10 },
+        { groupCode: 'PR' as const, reasonCode: '3', amount: 19.9 },
+      ];
+
+      expect(isRemittanceBalanced(200, 179.9, 150, adjustments)).toBe(true);
+      expect(isRemittanceBalanced(200, 180, 150, adjustments)).toBe(false);
+      expect(isRemittanceBalanced(200, 210, 210, [])).toBe(false);
+    });
+  });
+
+  describe('PaymentService.createBatch', () => {
+    it('should balance each claim and audit the batch and the claims it paid', async () => {
+      mockedClaimRepo.findByIds.mockResolvedValue([
+        claim({ id: 'claim-1', amount: 200 }),
+        claim({ id: 'claim-2', amount: 50 }),
+      ]);
+      mockedPaymentRepo.createBatch.mockResolvedValue(batch({ claimCount: 2 }));
+
+      await paymentService.createBatch(
+        {
+          providerId: PROVIDER_ID,
+          method: 'eft',
+          reference: 'EFT-1',
+          claims: [
+            { claimId: 'claim-1', allowedAmount: 180, paidAmount: 150 },
+            { claimId: 'claim-2' },
+          ],
+        },
+        adminContext
+      );
+
+      expect(mockedPaymentRepo.createBatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          providerId: PROVIDER_ID,
+          remittances: [
+            expect.objectContaining({
+              claimId: 'claim-1',
+              billedAmount: 200,
+              patientResponsibility: 30,
+              adjustments: getDefaultAdjustments(200, 180, 150),
+            }),
+            expect.objectContaining({
+              claimId: 'claim-2',
+              allowedAmount: 50,
+              paidAmount: 50,
+              patientResponsibility: 0,
+              adjustments: [],
+            }),
+          ],
+        }),
+        adminContext
+      );
+      const [entries] = mockedAuditLogRepo.createMany.mock.calls[0];
+      expect(entries.map((entry) => [entry.entityType, entry.action, entry.entityId])).toEqual([
+        ['payment_batch', 'create', 'batch-1'],
+        ['claim', 'status_change', 'claim-1'],
+        ['claim', 'status_change', 'claim-2'],
+      ]);
+    });
+
+    it('should pay a claim as its cost sharing says unless the amounts are overridden', async () => {
+      mockedClaimRepo.findByIds.mockResolvedValue([
+        claim({
+          id: 'claim-1',
+          amount: 200,
+          allowedAmount: 160,
+          planPaidAmount: 100,
+          patientResponsibility: {
+            deductible: 50,
+            copay: 0,
+            coinsurance: 10,
+            overBenefitMax: 0,
+            total: 60,
+          },
+        }),
+      ]);
+      mockedPaymentRepo.createBatch.mockResolvedValue(batch({}));
+
+      await paymentService.createBatch(
+        {
+          providerId: PROVIDER_ID,
+          method: 'eft',
+          reference: 'EFT-2',
+          claims: [{ claimId: 'claim-1' }],
+        },
+        adminContext
+      );
+
+      expect(mockedPaymentRepo.createBatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          remittances: [
+            expect.objectContaining({
+              claimId: 'claim-1',
+              allowedAmount: 160,
+              paidAmount: 100,
+              patientResponsibility: 60,
+              adjustments: [
+                { groupCode: 'CO', reasonCode: '45', amount: 40 },
+                { groupCode: 'PR', reasonCode: '1', amount: 50 },
+                { groupCode: 'PR', reasonCode: '2', amount: 10 },
+              ],
+            }),
+          ],
+        }),
+        adminContext
+      );
+    });
+
+    it('should pay every approved claim of the provider when none are listed', async () => {
+      mockedClaimRepo.findMany.mockResolvedValue({
+        data: [claim({ id: 'claim-3' })],
+        pagination: { total: 1, limit: 500, offset: 0, hasMore: false },
+      });
+      mockedClaimRepo.findByIds.mockResolvedValue([claim({ id: 'claim-3' })]);
+      mockedPaymentRepo.createBatch.mockResolvedValue(batch({}));
+
+      await paymentService.createBatch(
+        { providerId: PROVIDER_ID, method: 'check', reference: '10042' },
+        adminContext
+      );
+
+      expect(mockedClaimRepo.findMany).toHaveBeenCalledWith(
+        adminContext,
+        expect.objectContaining({ filters: { status: 'approved', providerId: PROVIDER_ID } })
+      );
+      expect(mockedPaymentRepo.createBatch).toHaveBeenCalledWith(
+        expect.objectContaining({ remittances: [expect.objectContaining({ claimId: 'claim-3' })] }),
+        adminContext
+      );
+    });
+
+    it('should refuse unbalanced amounts and claims that are not payable', async () => {
+      mockedClaimRepo.findByIds.mockResolvedValue([
+        claim({ id: 'claim-1' }),
+        claim({ id: 'claim-2', status: 'paid' }),
+      ]);
+
+      await expect(
+        paymentService.createBatch(
+          {
+            providerId: PROVIDER_ID,
+            method: 'eft',
+            reference: 'EFT-2',
+            claims: [{ claimId: 'claim-1', allowedAmount: 180, paidAmount: 150, adjustments: [{ groupCode: 'CO', reasonCode: '45', amount: 50 }] }],
+          },
+          adminContext
+        )
+      ).rejects.toThrow(/does not balance/);
+      await expect(
+        paymentService.createBatch(
+          { providerId: PROVIDER_ID, method: 'eft', reference: 'EFT-2', claims: [{ claimId: 'claim-2' }] },
+          adminContext
+        )
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        paymentService.createBatch(
+          { providerId: PROVIDER_ID, method: 'eft', reference: 'EFT-2', claims: [{ claimId: 'claim-9' }] },
+          adminContext
+        )
+      ).rejects.toThrow(NotFoundError);
+      expect(mockedPaymentRepo.createBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PaymentService.voidBatch', () => {
+    it('should audit the void and every claim returned to approved', async () => {
+      mockedPaymentRepo.findById.mockResolvedValue(batch({}));
+      mockedPaymentRepo.voidBatch.mockResolvedValue(
+        batch({
+          status: 'voided',
+          voidReason: 'Check lost',
+          remittances: [{ claimId: 'claim-1' } as never],
+        })
+      );
+
+      await paymentService.voidBatch('batch-1', 'Check lost', adminContext);
+
+      const [entries] = mockedAuditLogRepo.createMany.mock.calls[0];
+      expect(entries[0]).toMatchObject({
+        entityType: 'payment_batch',
+        action: 'void',
+        changes: {
+          status: { old: 'issued', new: 'voided' },
+          voidReason: { old: null, new: 'Check lost' },
+        },
+      });
+      expect(entries[1]).toMatchObject({
+        entityId: 'claim-1',
+        changes: { status: { old: 'paid', new: 'approved' } },
+      });
+    });
+  });
+
+  describe('PaymentRepository.createBatch', () => {
+    const repository = new PaymentRepository();
+
+    it('should only issue payments as an admin', async () => {
+      await expect(
+        repository.createBatch(
+          { providerId: PROVIDER_ID, method: 'eft', reference: 'EFT-3', paidAt: new Date(), remittances: [] },
+          { ...adminContext, role: 'provider', providerId: PROVIDER_ID }
+        )
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should write nothing when a claim is no longer approved', async () => {
+      const tx: Record<string, ReturnType<typeof vi.fn>> = {};
+      for (const method of ['select', 'from', 'where', 'insert', 'update']) {
+        tx[method] = vi.fn(() => tx);
+      }
+      // Only claim-1 is still approved when locked
+      tx.for = vi.fn(() => Promise.resolve([{ id: 'claim-1' }]));
+      vi.mocked(runInTransaction).mockImplementationOnce((fn) => fn(tx as never) as never);
+
+      const remittance = {
+        billedAmount: 100,
+        allowedAmount: 100,
+        paidAmount: 100,
+        patientResponsibility: 0,
+        adjustments: [],
+      };
+
+      const error = await repository
+        .createBatch(
+          {
+            providerId: PROVIDER_ID,
+            method: 'eft',
+            reference: 'EFT-3',
+            paidAt: new Date(),
+            remittances: [
+              { claimId: 'claim-1', ...remittance },
+              { claimId: 'claim-2', ...remittance },
+            ],
+          },
+          adminContext
+        )
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.details).toEqual({ claimIds: ['claim-2'] });
+      expect(tx.insert).not.toHaveBeenCalled();
+      expect(tx.update).not.toHaveBeenCalled();
+    });
+  });
+});
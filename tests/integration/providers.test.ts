@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DrizzleQueryError } from 'drizzle-orm';
+import { providerService } from '../../src/application/services/provider.service.js';
+import { npiSchema } from '../../src/application/validators/index.js';
+import { isValidNpi } from '../../src/domain/entities/index.js';
+import { isUniqueViolation } from '../../src/infrastructure/database/repositories/base.repository.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+import {
+  ConflictError,
+  DuplicateNpiError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../src/domain/errors/index.js';
+
+// Mock repositories
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  providerRepository: {
+    create: vi.fn(),
+    update: vi.fn(),
+    findById: vi.fn(),
+    findAccessibleById: vi.fn(),
+    findByNpi: vi.fn(),
+    search: vi.fn(),
+  },
+  auditLogRepository: {
+    createMany: vi.fn(),
+  },
+}));
+
+import { providerRepository } from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedProviderRepo = vi.mocked(providerRepository);
+
+describe('ProviderService Integration Tests', () => {
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-user-1',
+    role: 'admin',
+  };
+
+  const providerContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'provider-user-1',
+    role: 'provider',
+    providerId: 'provider-1',
+  };
+
+  const mockProvider = {
+    id: 'provider-1',
+    organizationId: 'org-1',
+    name: 'Dr. Sarah Smith',
+    npi: '1234567893',
+    specialty: 'Internal Medicine',
+    isActive: true,
+    contactEmail: 'dr.smith@example.com',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createProvider', () => {
+    it('should create a provider with a new NPI', async () => {
+      mockedProviderRepo.findByNpi.mockResolvedValue(null);
+      mockedProviderRepo.create.mockResolvedValue(mockProvider);
+
+      const result = await providerService.createProvider(
+        {
+          name: 'Dr. Sarah Smith',
+          npi: '1234567893',
+          specialty: 'Internal Medicine',
+          contactEmail: 'dr.smith@example.com',
+        },
+        adminContext
+      );
+
+      expect(result).toEqual(mockProvider);
+      expect(mockedProviderRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationId: 'org-1', isActive: true }),
+        adminContext
+      );
+    });
+
+    it('should reject a duplicate NPI with a typed conflict error', async () => {
+      mockedProviderRepo.findByNpi.mockResolvedValue(mockProvider);
+
+      const promise = providerService.createProvider(
+        {
+          name: 'Dr. Other',
+          npi: '1234567893',
+          specialty: 'Cardiology',
+          contactEmail: 'other@example.com',
+        },
+        adminContext
+      );
+
+      await expect(promise).rejects.toThrow(DuplicateNpiError);
+      await expect(promise).rejects.toBeInstanceOf(ConflictError);
+      expect(mockedProviderRepo.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateProvider', () => {
+    it('should let a provider update their own contact details', async () => {
+      mockedProviderRepo.findAccessibleById.mockResolvedValue(mockProvider);
+      mockedProviderRepo.update.mockResolvedValue({
+        ...mockProvider,
+        contactPhone: '555-0100',
+      });
+
+      const result = await providerService.updateProvider(
+        'provider-1',
+        { contactPhone: '555-0100' },
+        providerContext
+      );
+
+      expect(result.contactPhone).toBe('555-0100');
+    });
+
+    it('should prevent a provider from changing other fields', async () => {
+      await expect(
+        providerService.updateProvider(
+          'provider-1',
+          { specialty: 'Cardiology' },
+          providerContext
+        )
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedProviderRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('should prevent a provider from updating another provider', async () => {
+      await expect(
+        providerService.updateProvider(
+          'provider-2',
+          { contactPhone: '555-0100' },
+          providerContext
+        )
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should throw NotFoundError for an unknown provider', async () => {
+      mockedProviderRepo.findAccessibleById.mockResolvedValue(null);
+
+      await expect(
+        providerService.updateProvider('missing', { name: 'X' }, adminContext)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
+
+describe('NPI validation', () => {
+  it('should accept NPIs with a valid check digit', () => {
+    expect(isValidNpi('1234567893')).toBe(true);
+    expect(isValidNpi('1987654328')).toBe(true);
+    expect(npiSchema.safeParse('1234567893').success).toBe(true);
+  });
+
+  it('should reject NPIs with an invalid check digit or format', () => {
+    expect(isValidNpi('1234567890')).toBe(false);
+    expect(isValidNpi('123456789')).toBe(false);
+    expect(npiSchema.safeParse('1234567890').success).toBe(false);
+    expect(npiSchema.safeParse('12345abcde').success).toBe(false);
+  });
+
+  it('should detect unique violations on the NPI constraint', () => {
+    // Drizzle wraps the postgres-js error; its fields are on the cause
+    const error = new DrizzleQueryError(
+      'insert into "providers" ...',
+      [],
+      Object.assign(new Error('duplicate key value violates unique constraint'), {
+        code: '23505',
+        constraint_name: 'providers_npi_org_idx',
+      })
+    );
+
+    expect(isUniqueViolation(error, 'providers_npi_org_idx')).toBe(true);
+    expect(isUniqueViolation(error, 'patients_member_org_idx')).toBe(false);
+    expect(isUniqueViolation(new Error('boom'))).toBe(false);
+    expect(
+      isUniqueViolation(new DrizzleQueryError('select 1', [], new Error('connection reset')))
+    ).toBe(false);
+  });
+});
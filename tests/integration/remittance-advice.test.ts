@@ -0,0 +1,310 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildEra835, parseEra835, type Era835 } from '../../src/infrastructure/x12/era-835.js';
+import { processRemittanceAdvice } from '../../src/infrastructure/queue/jobs/payment-jobs.js';
+import { paymentService } from '../../src/application/services/payment.service.js';
+import { claimsQueue } from '../../src/infrastructure/queue/queue.js';
+import type { PaymentBatch, RemittanceAdvice } from '../../src/domain/entities/index.js';
+import type { RemittanceAdviceSource } from '../../src/domain/repositories/index.js';
+import { NotFoundError, ValidationError } from '../../src/domain/errors/index.js';
+import type { RemittanceAdviceJobData, TenantContext } from '../../src/shared/types/index.js';
+
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  paymentRepository: {
+    findById: vi.fn(),
+    findRemittanceAdviceSourceInternal: vi.fn(),
+  },
+  remittanceAdviceRepository: {
+    findLatestByBatch: vi.fn(),
+    nextControlNumberInternal: vi.fn(),
+    createInternal: vi.fn(),
+  },
+  organizationRepository: {
+    findById: vi.fn(),
+  },
+  jobProcessingLogRepository: {
+    findByIdempotencyKey: vi.fn(),
+    create: vi.fn(),
+    markCompleted: vi.fn(),
+    markFailed: vi.fn(),
+  },
+}));
+
+import {
+  paymentRepository,
+  remittanceAdviceRepository,
+  organizationRepository,
+  jobProcessingLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedPaymentRepo = vi.mocked(paymentRepository);
+const mockedAdviceRepo = vi.mocked(remittanceAdviceRepository);
+const mockedOrgRepo = vi.mocked(organizationRepository);
+const mockedJobLogRepo = vi.mocked(jobProcessingLogRepository);
+
+const payerProfile = {
+  taxId: '741234567',
+  address: { street: '100 Main Street', city: 'Austin', state: 'TX', zipCode: '78701', country: 'US' },
+  contactPhone: '5125550100',
+};
+
+function era(overrides: Partial<Era835> = {}): Era835 {
+  return {
+    controlNumber: 42,
+    createdAt: new Date('2025-02-01T09:30:00.000Z'),
+    payer: { name: 'HealthFirst Insurance', ...payerProfile },
+    payee: { name: 'City General Hospital', npi: '1234567893' },
+    payment: {
+      method: 'eft',
+      reference: 'EFT20250201001',
+      paidAt: new Date('2025-02-01T00:00:00.000Z'),
+      totalPaid: 290,
+    },
+    claims: [
+      {
+        claimNumber: 'CLM-001',
+        billedAmount: 200,
+        paidAmount: 150,
+        patientResponsibility: 30,
+        adjustments: [
+          { groupCode: 'CO', reasonCode: '45', amount: 20 },
+          { groupCode: 'PR', reasonCode: '2', amount: 30 },
+        ],
+        patient: { firstName: 'John', lastName: 'Doe', memberId: 'MEM001' },
+        serviceDate: new Date('2025-01-10T00:00:00.000Z'),
+      },
+      {
+        claimNumber: 'CLM-002',
+        billedAmount: 140,
+        paidAmount: 140,
+        patientResponsibility: 0,
+        adjustments: [],
+        patient: { firstName: 'Jane', lastName: 'Smith', memberId: 'MEM002' },
+        serviceDate: new Date('2025-01-12T00:00:00.000Z'),
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function batch(overrides: Partial<PaymentBatch> = {}): PaymentBatch {
+  return {
+    id: 'batch-1',
+    organizationId: 'org-1',
+    batchNumber: 'PAY-ORG1-1',
+    providerId: 'provider-1',
+    method: 'check',
+    reference: '10042',
+    status: 'issued',
+    totalPaid: 100,
+    claimCount: 1,
+    paidAt: new Date('2025-02-01T00:00:00.000Z'),
+    issuedBy: 'admin-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Remittance advice (X12 835)', () => {
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-1',
+    role: 'admin',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('buildEra835 / parseEra835', () => {
+    it('should read back exactly what was written', () => {
+      const withAddress = era({
+        payee: {
+          name: 'City General Hospital',
+          npi: '1234567893',
+          address: { street: '1 Hospital Way', city: 'Toronto', state: 'ON', zipCode: 'M5V 2T6', country: 'CA' },
+        },
+      });
+
+      const parsed = parseEra835(buildEra835(withAddress));
+
+      expect(parsed).toEqual({
+        ...withAddress,
+        payee: {
+          ...withAddress.payee,
+          // Non-US addresses carry no state; postal codes lose their spaces
+          address: { street: '1 Hospital Way', city: 'Toronto', state: '', zipCode: 'M5V2T6', country: 'CA' },
+        },
+      });
+    });
+
+    it('should write the envelopes, payment and claim loops of a 5010 835', () => {
+      const segments = buildEra835(era()).split('~');
+
+      expect(segments[0]).toMatch(/^ISA\*00\* {10}\*00\* {10}\*30\*741234567 {6}\*ZZ\*1234567893 {5}\*250201\*0930\*\^\*00501\*000000042\*0\*P\*:$/);
+      expect(segments).toContain('GS*HP*741234567*1234567893*20250201*0930*42*X*005010X221A1');
+      expect(segments).toContain('BPR*I*290*C*ACH*CCP***********20250201');
+      expect(segments).toContain('TRN*1*EFT20250201001*1741234567');
+      expect(segments).toContain('CLP*CLM-001*1*200*150*30*CI*CLM-001');
+      expect(segments).toContain('CAS*CO*45*20');
+      expect(segments).toContain('NM1*QC*1*Doe*John****MI*MEM001');
+      expect(segments).toContain('SE*20*0042');
+      expect(segments.slice(-3)).toEqual(['GE*1*42', 'IEA*1*000000042', '']);
+    });
+
+    it('should refuse advice that does not balance and documents with broken envelopes', () => {
+      expect(() => buildEra835(era({ payment: { ...era().payment, totalPaid: 300 } }))).toThrow(
+        /do not total the payment/
+      );
+
+      const content = buildEra835(era());
+      expect(() => parseEra835(content.replace('SE*20*', 'SE*19*'))).toThrow(/segment count/);
+      expect(() => parseEra835(content.replace('BPR*I*290*', 'BPR*I*300*'))).toThrow(/BPR/);
+    });
+
+    it('should strip delimiters from free text', () => {
+      const content = buildEra835(
+        era({ payee: { name: 'Smith*Jones~Clinic', npi: '1234567893' } })
+      );
+
+      expect(parseEra835(content).payee.name).toBe('Smith Jones Clinic');
+    });
+  });
+
+  describe('processRemittanceAdvice', () => {
+    const jobData: RemittanceAdviceJobData = {
+      type: 'remittance_advice',
+      jobId: 'job-1',
+      organizationId: 'org-1',
+      batchId: 'batch-1',
+      triggeredBy: 'admin-1',
+      triggeredAt: new Date().toISOString(),
+      idempotencyKey: 'job-remittance-advice-job-1',
+    };
+
+    const source = (overrides: Partial<PaymentBatch> = {}): RemittanceAdviceSource => ({
+      batch: batch(overrides),
+      payee: { name: 'City General Hospital', npi: '1234567893' },
+      claims: [
+        {
+          remittance: {
+            id: 'remittance-1',
+            organizationId: 'org-1',
+            batchId: 'batch-1',
+            claimId: 'claim-1',
+            providerId: 'provider-1',
+            billedAmount: 120,
+            allowedAmount: 110,
+            paidAmount: 100,
+            patientResponsibility: 10,
+            adjustments: [
+              { groupCode: 'CO', reasonCode: '45', amount: 10 },
+              { groupCode: 'PR', reasonCode: '3', amount: 10 },
+            ],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+          claimNumber: 'CLM-001',
+          serviceDate: new Date('2025-01-10T00:00:00.000Z'),
+          patient: { firstName: 'John', lastName: 'Doe', memberId: 'MEM001' },
+          rejectedLines: [{ lineNumber: 2, chargeAmount: 80, denialReason: 'Not covered' }],
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      mockedJobLogRepo.findByIdempotencyKey.mockResolvedValue(null);
+      mockedJobLogRepo.create.mockResolvedValue({ id: 'log-1' } as never);
+      mockedOrgRepo.findById.mockResolvedValue({
+        id: 'org-1',
+        name: 'HealthFirst Insurance',
+        settings: { payerProfile },
+      } as never);
+      mockedAdviceRepo.nextControlNumberInternal.mockResolvedValue(7);
+      mockedAdviceRepo.createInternal.mockImplementation(
+        async (data) => ({ id: 'advice-1', ...data }) as RemittanceAdvice
+      );
+    });
+
+    it('should store an 835 reporting rejected lines as non-covered', async () => {
+      mockedPaymentRepo.findRemittanceAdviceSourceInternal.mockResolvedValue(source());
+
+      const result = await processRemittanceAdvice(jobData);
+
+      expect(result).toEqual({
+        batchId: 'batch-1',
+        generated: true,
+        remittanceAdviceId: 'advice-1',
+        controlNumber: 7,
+      });
+      const [stored] = mockedAdviceRepo.createInternal.mock.calls[0];
+      expect(stored).toMatchObject({ batchId: 'batch-1', providerId: 'provider-1', controlNumber: 7 });
+
+      const parsed = parseEra835(stored.content);
+      expect(parsed.payment).toMatchObject({ method: 'check', reference: '10042', totalPaid: 100 });
+      expect(parsed.claims[0]).toMatchObject({
+        billedAmount: 200,
+        paidAmount: 100,
+        adjustments: [
+          { groupCode: 'CO', reasonCode: '45', amount: 10 },
+          { groupCode: 'CO', reasonCode: '96', amount: 80 },
+          { groupCode: 'PR', reasonCode: '3', amount: 10 },
+        ],
+      });
+      expect(mockedJobLogRepo.markCompleted).toHaveBeenCalledWith('log-1', result);
+    });
+
+    it('should skip voided batches', async () => {
+      mockedPaymentRepo.findRemittanceAdviceSourceInternal.mockResolvedValue(
+        source({ status: 'voided' })
+      );
+
+      const result = await processRemittanceAdvice(jobData);
+
+      expect(result).toEqual({ batchId: 'batch-1', generated: false });
+      expect(mockedAdviceRepo.createInternal).not.toHaveBeenCalled();
+    });
+
+    it('should fail until the organization has a payer profile', async () => {
+      mockedPaymentRepo.findRemittanceAdviceSourceInternal.mockResolvedValue(source());
+      mockedOrgRepo.findById.mockResolvedValue({ id: 'org-1', name: 'HealthFirst', settings: {} } as never);
+
+      await expect(processRemittanceAdvice(jobData)).rejects.toThrow(ValidationError);
+      expect(mockedJobLogRepo.markFailed).toHaveBeenCalledWith('log-1', expect.stringMatching(/payer profile/));
+      expect(mockedAdviceRepo.nextControlNumberInternal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PaymentService', () => {
+    it('should serve the latest advice of a visible batch', async () => {
+      mockedPaymentRepo.findById.mockResolvedValue(batch());
+      mockedAdviceRepo.findLatestByBatch.mockResolvedValue({ id: 'advice-2', content: 'ISA*...' } as never);
+
+      const { advice } = await paymentService.getRemittanceAdvice('batch-1', adminContext);
+
+      expect(advice.id).toBe('advice-2');
+
+      mockedAdviceRepo.findLatestByBatch.mockResolvedValue(null);
+      await expect(paymentService.getRemittanceAdvice('batch-1', adminContext)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+
+    it('should queue regeneration for issued batches only', async () => {
+      mockedPaymentRepo.findById.mockResolvedValue(batch());
+
+      const { jobId } = await paymentService.requestRemittanceAdvice('batch-1', adminContext);
+
+      expect(claimsQueue.add).toHaveBeenCalledWith(
+        'remittance_advice',
+        expect.objectContaining({ type: 'remittance_advice', batchId: 'batch-1', jobId }),
+        { jobId }
+      );
+
+      mockedPaymentRepo.findById.mockResolvedValue(batch({ status: 'voided' }));
+      await expect(
+        paymentService.requestRemittanceAdvice('batch-1', adminContext)
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+});
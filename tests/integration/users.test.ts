@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { userService } from '../../src/application/services/user.service.js';
+import { authService } from '../../src/infrastructure/auth/auth.service.js';
+import { registerSchema } from '../../src/application/validators/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../../src/domain/errors/index.js';
+
+// Mock repositories
+vi.mock('../../src/infrastructure/database/repositories/index.js', () => ({
+  userRepository: {
+    create: vi.fn(),
+    update: vi.fn(),
+    findByEmail: vi.fn(),
+    findByIdWithinOrganization: vi.fn(),
+    findManyWithinOrganization: vi.fn(),
+  },
+  organizationRepository: {
+    findByCode: vi.fn(),
+  },
+  providerRepository: {
+    exists: vi.fn(),
+  },
+  patientRepository: {
+    exists: vi.fn(),
+  },
+  auditLogRepository: {
+    createMany: vi.fn(),
+  },
+}));
+
+import {
+  userRepository,
+  organizationRepository,
+  providerRepository,
+  auditLogRepository,
+} from '../../src/infrastructure/database/repositories/index.js';
+
+const mockedUserRepo = vi.mocked(userRepository);
+const mockedOrgRepo = vi.mocked(organizationRepository);
+const mockedProviderRepo = vi.mocked(providerRepository);
+const mockedAuditRepo = vi.mocked(auditLogRepository);
+
+describe('UserService Integration Tests', () => {
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-user-1',
+    role: 'admin',
+  };
+
+  const mockUser = {
+    id: 'user-2',
+    organizationId: 'org-1',
+    email: 'processor@healthfirst.com',
+    passwordHash: 'secret-hash',
+    firstName: 'Pat',
+    lastName: 'Processor',
+    role: 'claims_processor' as const,
+    isActive: true,
+    assignedClaimIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createUser', () => {
+    it('should invite a user with a temporary password', async () => {
+      mockedUserRepo.findByEmail.mockResolvedValueOnce(null);
+      mockedUserRepo.create.mockResolvedValueOnce(mockUser);
+
+      const result = await userService.createUser(
+        {
+          email: 'processor@healthfirst.com',
+          firstName: 'Pat',
+          lastName: 'Processor',
+          role: 'claims_processor',
+        },
+        adminContext
+      );
+
+      expect(result.temporaryPassword).toBeDefined();
+      expect(result.user).not.toHaveProperty('passwordHash');
+      expect(mockedUserRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationId: 'org-1', role: 'claims_processor' })
+      );
+    });
+
+    it('should reject an email that is already registered', async () => {
+      mockedUserRepo.findByEmail.mockResolvedValueOnce(mockUser);
+
+      await expect(
+        userService.createUser(
+          {
+            email: 'processor@healthfirst.com',
+            password: 'Password123!',
+            firstName: 'Pat',
+            lastName: 'Processor',
+            role: 'claims_processor',
+          },
+          adminContext
+        )
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should require provider users to link an existing provider', async () => {
+      mockedUserRepo.findByEmail.mockResolvedValue(null);
+      mockedProviderRepo.exists.mockResolvedValueOnce(false);
+
+      const input = {
+        email: 'doctor@healthfirst.com',
+        password: 'Password123!',
+        firstName: 'Doc',
+        lastName: 'Tor',
+        role: 'provider' as const,
+      };
+
+      await expect(userService.createUser(input, adminContext)).rejects.toThrow(
+        ValidationError
+      );
+      await expect(
+        userService.createUser(
+          { ...input, providerId: '00000000-0000-4000-a000-000000000001' },
+          adminContext
+        )
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('updateUser', () => {
+    it('should audit role changes', async () => {
+      mockedUserRepo.findByIdWithinOrganization.mockResolvedValueOnce(mockUser);
+      mockedUserRepo.update.mockResolvedValueOnce({ ...mockUser, role: 'admin' });
+
+      await userService.updateUser('user-2', { role: 'admin' }, adminContext);
+
+      expect(mockedAuditRepo.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          entityType: 'user',
+          entityId: 'user-2',
+          action: 'role_change',
+          changes: { role: { old: 'claims_processor', new: 'admin' } },
+        }),
+      ]);
+    });
+
+    it('should only give routing skills to claims processors', async () => {
+      mockedUserRepo.findByIdWithinOrganization.mockResolvedValueOnce({
+        ...mockUser,
+        skills: { specialties: ['Cardiology'] },
+      });
+      mockedUserRepo.update.mockResolvedValueOnce({ ...mockUser, role: 'admin' });
+
+      await userService.updateUser('user-2', { role: 'admin' }, adminContext);
+
+      // Skills are dropped along with the processor role
+      expect(mockedUserRepo.update).toHaveBeenCalledWith(
+        'user-2',
+        expect.objectContaining({ role: 'admin', skills: undefined })
+      );
+
+      mockedUserRepo.findByIdWithinOrganization.mockResolvedValueOnce({ ...mockUser, role: 'admin' });
+      await expect(
+        userService.updateUser('user-2', { skills: { specialties: ['Cardiology'] } }, adminContext)
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should not let admins change their own role', async () => {
+      mockedUserRepo.findByIdWithinOrganization.mockResolvedValueOnce({
+        ...mockUser,
+        id: 'admin-user-1',
+        role: 'admin',
+      });
+
+      await expect(
+        userService.updateUser('admin-user-1', { role: 'patient' }, adminContext)
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should not find users from another organization', async () => {
+      mockedUserRepo.findByIdWithinOrganization.mockResolvedValueOnce(null);
+
+      await expect(
+        userService.updateUser('user-9', { firstName: 'X' }, adminContext)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
+
+describe('Security: Self-registration', () => {
+  const organization = {
+    id: 'org-1',
+    name: 'HealthFirst Insurance Co.',
+    code: 'HEALTH1',
+    isActive: true,
+    settings: {
+      maxClaimAmount: 500000,
+      minClaimAmount: 0.01,
+      requiresManualReview: true,
+      allowSelfRegistration: false,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not accept privileged roles at registration', () => {
+    const result = registerSchema.safeParse({
+      email: 'mallory@example.com',
+      password: 'Password123!',
+      firstName: 'Mallory',
+      lastName: 'Attacker',
+      organizationCode: 'HEALTH1',
+      role: 'admin',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should refuse registration when the organization disables it', async () => {
+    mockedOrgRepo.findByCode.mockResolvedValueOnce(organization);
+
+    await expect(
+      authService.register('new@example.com', 'Password123!', 'New', 'Patient', 'HEALTH1')
+    ).rejects.toThrow(ForbiddenError);
+    expect(mockedUserRepo.create).not.toHaveBeenCalled();
+  });
+});
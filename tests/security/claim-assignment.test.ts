@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ClaimRepository } from '../../src/infrastructure/database/repositories/claim.repository.js';
+import { runInTransaction } from '../../src/infrastructure/database/connection.js';
+import { claims, users } from '../../src/infrastructure/database/schema/index.js';
+import type { TenantContext } from '../../src/shared/types/index.js';
+import { ForbiddenError, InvalidAssigneeError } from '../../src/domain/errors/index.js';
+
+/**
+ * Chainable transaction double: `.for('update')` resolves the queued
+ * SELECT results in order, `.returning()` resolves the queued UPDATE results.
+ */
+function createTx(selectResults: unknown[][], returningResults: unknown[][] = []) {
+  const tx: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of ['select', 'from', 'where', 'limit', 'update', 'set']) {
+    tx[method] = vi.fn(() => tx);
+  }
+  tx.for = vi.fn(() => Promise.resolve(selectResults.shift() ?? []));
+  tx.returning = vi.fn(() => Promise.resolve(returningResults.shift() ?? []));
+  return tx;
+}
+
+function useTransaction(tx: ReturnType<typeof createTx>): void {
+  vi.mocked(runInTransaction).mockImplementationOnce(
+    (fn) => fn(tx as never) as never
+  );
+}
+
+describe('Security: Claim assignment consistency', () => {
+  const repository = new ClaimRepository();
+
+  const adminContext: TenantContext = {
+    organizationId: 'org-1',
+    userId: 'admin-1',
+    role: 'admin',
+  };
+
+  const claimRow = {
+    id: 'claim-1',
+    organizationId: 'org-1',
+    claimNumber: 'CLM-1',
+    patientId: 'patient-1',
+    providerId: 'provider-1',
+    diagnosisCode: 'J06.9',
+    procedureCode: null,
+    amount: '150.00',
+    status: 'submitted',
+    serviceDate: new Date(),
+    submittedAt: new Date(),
+    processedAt: null,
+    paidAt: null,
+    notes: null,
+    assignedTo: 'processor-old',
+    denialReason: null,
+    statusHistory: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should update the claim and both processors in one transaction', async () => {
+    const tx = createTx(
+      [[claimRow], [{ role: 'claims_processor', isActive: true }]],
+      [[{ ...claimRow, assignedTo: 'processor-new' }]]
+    );
+    useTransaction(tx);
+
+    const result = await repository.assignToProcessor('claim-1', 'processor-new', adminContext);
+
+    expect(result?.assignedTo).toBe('processor-new');
+    expect(runInTransaction).toHaveBeenCalledTimes(1);
+    // Old processor loses the claim, new processor gains it, claim is updated
+    expect(tx.update).toHaveBeenNthCalledWith(1, users);
+    expect(tx.update).toHaveBeenNthCalledWith(2, users);
+    expect(tx.update).toHaveBeenNthCalledWith(3, claims);
+    expect(tx.for).toHaveBeenCalledWith('update');
+  });
+
+  it('should reject assignees that are not active claims processors', async () => {
+    const tx = createTx([[claimRow], [{ role: 'provider', isActive: true }]]);
+    useTransaction(tx);
+
+    await expect(
+      repository.assignToProcessor('claim-1', 'user-provider', adminContext)
+    ).rejects.toThrow(InvalidAssigneeError);
+    expect(tx.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject inactive or cross-tenant processors', async () => {
+    const inactive = createTx([[claimRow], [{ role: 'claims_processor', isActive: false }]]);
+    useTransaction(inactive);
+
+    await expect(
+      repository.assignToProcessor('claim-1', 'processor-inactive', adminContext)
+    ).rejects.toThrow(InvalidAssigneeError);
+
+    // A processor in another organization is not found by the tenant-scoped lookup
+    const otherTenant = createTx([[claimRow], []]);
+    useTransaction(otherTenant);
+
+    await expect(
+      repository.assignToProcessor('claim-1', 'processor-org-2', adminContext)
+    ).rejects.toThrow(InvalidAssigneeError);
+  });
+
+  it('should remove the claim from the processor when unassigning', async () => {
+    const tx = createTx([[claimRow]], [[{ ...claimRow, assignedTo: null }]]);
+    useTransaction(tx);
+
+    const result = await repository.unassign('claim-1', adminContext);
+
+    expect(result?.assignedTo).toBeUndefined();
+    expect(tx.update).toHaveBeenNthCalledWith(1, users);
+    expect(tx.update).toHaveBeenNthCalledWith(2, claims);
+  });
+
+  it('should only allow admins to assign claims', async () => {
+    await expect(
+      repository.assignToProcessor('claim-1', 'processor-new', {
+        ...adminContext,
+        role: 'claims_processor',
+      })
+    ).rejects.toThrow(ForbiddenError);
+    expect(runInTransaction).not.toHaveBeenCalled();
+  });
+});
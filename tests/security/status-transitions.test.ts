@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAllowedStatusTransitions,
+  isStatusTransitionAllowed,
+  isTerminalClaimStatus,
+} from '../../src/domain/entities/index.js';
+import { InvalidStatusTransitionError } from '../../src/domain/errors/index.js';
+
+describe('Security: Claim Status Transitions', () => {
+  describe('Workflow edges', () => {
+    it('should not allow skipping review', () => {
+      expect(isStatusTransitionAllowed('submitted', 'approved', 'admin')).toBe(false);
+      expect(isStatusTransitionAllowed('submitted', 'paid', 'admin')).toBe(false);
+      expect(isStatusTransitionAllowed('submitted', 'paid', 'claims_processor')).toBe(false);
+    });
+
+    it('should leave paying approved claims to payment batches', () => {
+      for (const actor of ['admin', 'claims_processor', 'super_admin', 'system'] as const) {
+        expect(isStatusTransitionAllowed('approved', 'paid', actor)).toBe(false);
+      }
+      expect(getAllowedStatusTransitions('approved', 'admin')).toEqual(['under_review']);
+    });
+
+    it('should allow rejected claims to be reopened on appeal', () => {
+      expect(isStatusTransitionAllowed('rejected', 'under_review', 'admin')).toBe(true);
+    });
+
+    it('should let only admins reverse an approval', () => {
+      expect(isStatusTransitionAllowed('approved', 'under_review', 'admin')).toBe(true);
+      expect(isStatusTransitionAllowed('approved', 'under_review', 'claims_processor')).toBe(false);
+      expect(isStatusTransitionAllowed('approved', 'under_review', 'system')).toBe(false);
+    });
+
+    it('should treat paid as terminal', () => {
+      expect(isTerminalClaimStatus('paid')).toBe(true);
+      expect(isTerminalClaimStatus('approved')).toBe(false);
+      expect(getAllowedStatusTransitions('paid', 'admin')).toEqual([]);
+    });
+  });
+
+  describe('Role edges', () => {
+    it('should limit claims processors to review decisions', () => {
+      expect(getAllowedStatusTransitions('submitted', 'claims_processor')).toEqual(['under_review']);
+      expect(getAllowedStatusTransitions('under_review', 'claims_processor')).toEqual([
+        'approved',
+        'rejected',
+      ]);
+      expect(isStatusTransitionAllowed('approved', 'paid', 'claims_processor')).toBe(false);
+      expect(isStatusTransitionAllowed('rejected', 'under_review', 'claims_processor')).toBe(false);
+    });
+
+    it('should give providers and patients no edges', () => {
+      expect(getAllowedStatusTransitions('submitted', 'provider')).toEqual([]);
+      expect(getAllowedStatusTransitions('under_review', 'patient')).toEqual([]);
+    });
+
+    it('should leave appeal edges to the appeal workflow', () => {
+      for (const actor of ['admin', 'claims_processor', 'provider', 'system'] as const) {
+        expect(isStatusTransitionAllowed('rejected', 'appealed', actor)).toBe(false);
+        expect(getAllowedStatusTransitions('appealed', actor)).toEqual([]);
+      }
+    });
+
+    it('should not let background jobs pay claims', () => {
+      expect(isStatusTransitionAllowed('under_review', 'approved', 'system')).toBe(true);
+      expect(isStatusTransitionAllowed('approved', 'paid', 'system')).toBe(false);
+    });
+  });
+
+  describe('InvalidStatusTransitionError', () => {
+    it('should list the allowed next states', () => {
+      const error = new InvalidStatusTransitionError('submitted', 'paid', ['under_review']);
+
+      expect(error.statusCode).toBe(400);
+      expect(error.code).toBe('INVALID_STATUS_TRANSITION');
+      expect(error.allowedTransitions).toEqual(['under_review']);
+      expect(error.details).toEqual({
+        fromStatus: 'submitted',
+        toStatus: 'paid',
+        allowedTransitions: ['under_review'],
+      });
+    });
+  });
+});